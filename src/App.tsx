@@ -11,6 +11,9 @@ import { ProfitSummary } from './components/reports/ProfitSummary';
 import { ExpenseCategoriesView } from './components/expenses/ExpensesView';
 import { NewEntryView } from './components/new-entries/NewEntryView';
 import { TaxExportView } from './components/reports/TaxExportView';
+import { EstimatedTaxView } from './components/reports/EstimatedTaxView';
+import { AuditLogView } from './components/reports/AuditLogView';
+import { FinancialStatementsView } from './components/reports/FinancialStatementsView';
 import { RentalsView } from './components/real-estate/RentalsView';
 import { FlipsView } from './components/real-estate/FlipsView';
 import { DealsView } from './components/real-estate/DealsView';
@@ -25,6 +28,13 @@ import { VersionTag } from './components/shared/VersionTag';
 import { PlaidLinkView } from './components/bank-import/PlaidLinkView';
 import PrivacyPolicy from './components/PrivacyPolicy';
 import { PeriodCloseView } from './components/settings/PeriodCloseView';
+import { CategorizationRulesView } from './components/settings/CategorizationRulesView';
+import { MixedAllocationsView } from './components/settings/MixedAllocationsView';
+import { ChartOfAccountsView } from './components/settings/ChartOfAccountsView';
+import { FixedAssetsView } from './components/fixed-assets/FixedAssetsView';
+import { RecurringSchedulesView } from './components/recurring/RecurringSchedulesView';
+import { ConsolidationView } from './components/reports/ConsolidationView';
+import { autoPostDueSchedules } from './components/recurring/recurringPosting';
 
 type View =
   | 'dashboard'
@@ -39,6 +49,7 @@ type View =
   | 'plaid'
   | 'profitSummary'
   | 'taxExport'
+  | 'estimatedTax'
   | 'rentals'
   | 'flips'
   | 'deals'
@@ -46,7 +57,15 @@ type View =
   | 'priceList'
   | 'floorCalc'
   | 'privacy'
-  | 'periodClose';
+  | 'periodClose'
+  | 'chartOfAccounts'
+  | 'fixedAssets'
+  | 'bankRules'
+  | 'mixedAllocations'
+  | 'auditLog'
+  | 'financialStatements'
+  | 'consolidation'
+  | 'recurring';
 
 type NavSection = {
   title: string | null;
@@ -77,11 +96,20 @@ const NAV_SECTIONS: NavSection[] = [
       { view: 'analytics', label: 'Analytics', icon: '📈' },
       { view: 'plaid', label: 'Bank Sync', icon: '🔗' },
       { view: 'bankImport', label: 'Bank Import', icon: '🏦' },
+      { view: 'chartOfAccounts', label: 'Chart of Accounts', icon: '🗂️' },
+      { view: 'fixedAssets', label: 'Fixed Assets', icon: '🚚' },
+      { view: 'bankRules', label: 'Bank Rules', icon: '🧭' },
+      { view: 'mixedAllocations', label: 'Mixed Allocations', icon: '⚖️' },
       { view: 'ledger', label: 'Ledger', icon: '📒' },
+      { view: 'recurring', label: 'Recurring', icon: '🔁' },
       { view: 'expenses', label: 'Expenses by Category', icon: '📋' },
       { view: 'profitSummary', label: 'Profit Summary', icon: '💰' },
+      { view: 'financialStatements', label: 'Financial Statements', icon: '🧾' },
+      { view: 'consolidation', label: 'Consolidation', icon: '🏛️' },
       { view: 'taxExport', label: 'Tax Exports', icon: '📄' },
+      { view: 'estimatedTax', label: 'Estimated Taxes', icon: '🗓️' },
       { view: 'periodClose', label: 'Period Close', icon: '🔒' },
+      { view: 'auditLog', label: 'Audit Log', icon: '🕵️' },
     ],
   },
   {
@@ -108,6 +136,7 @@ const VIEW_COMPONENTS: Record<View, React.ComponentType<any>> = {
   ledger: LedgerView,
   profitSummary: ProfitSummary,
   taxExport: TaxExportView,
+  estimatedTax: EstimatedTaxView,
   rentals: RentalsView,
   flips: FlipsView,
   deals: DealsView,
@@ -115,6 +144,14 @@ const VIEW_COMPONENTS: Record<View, React.ComponentType<any>> = {
   floorCalc: FloorCalculator,
   privacy: PrivacyPolicy,
   periodClose: PeriodCloseView,
+  chartOfAccounts: ChartOfAccountsView,
+  fixedAssets: FixedAssetsView,
+  bankRules: CategorizationRulesView,
+  mixedAllocations: MixedAllocationsView,
+  auditLog: AuditLogView,
+  financialStatements: FinancialStatementsView,
+  consolidation: ConsolidationView,
+  recurring: RecurringSchedulesView,
 };
 
 function shouldShowMobileView(): boolean {
@@ -258,6 +295,16 @@ function AuthenticatedApp({ onLogout }: { onLogout: () => void }) {
     lineIdsToSettle: number[];
   } | null>(null);
 
+  // Post due auto-post recurring schedules once per session
+  useEffect(() => {
+    autoPostDueSchedules()
+      .then((result) => {
+        if (result.posted > 0) console.info(`Auto-posted ${result.posted} recurring entries`);
+        if (result.problems.length > 0) console.warn('Recurring entries not auto-posted:', result.problems);
+      })
+      .catch((err: unknown) => console.error('Recurring auto-post failed:', err));
+  }, []);
+
   // Persist view state to localStorage
   useEffect(() => {
     localStorage.setItem('app_activeView', view);
@@ -314,6 +361,10 @@ function AuthenticatedApp({ onLogout }: { onLogout: () => void }) {
       );
     }
 
+    if (view === 'periodClose') {
+      return <PeriodCloseView onNavigate={handleNavClick} />;
+    }
+
     if (view === 'entry') {
       return (
         <NewEntryView
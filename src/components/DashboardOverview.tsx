@@ -1,7 +1,9 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { supabase } from '../lib/supabaseClient';
 import { formatCurrency } from '../utils/format';
 import { classifyLine, type ClassifiableLineInput } from '../utils/accounts';
+import { matchesEntity, type EntityFilter } from '../utils/entities';
+import { EntitySelect } from './shared/EntitySelect';
 import { BalancesCard, type AccountBalance } from './shared/BalancesCard';
 
 type RealEstateDeal = {
@@ -42,7 +44,10 @@ function amountColorClass(value: number, forceNegative = false): string {
 }
 
 export function DashboardOverview() {
+  const [entity, setEntity] = useState<EntityFilter>('all');
   const [accountBalances, setAccountBalances] = useState<AccountBalance[]>([]);
+  // Balances card accounts; RE equity still looks up loans in accountBalances
+  const [entityBalances, setEntityBalances] = useState<AccountBalance[]>([]);
   const [realEstateDeals, setRealEstateDeals] = useState<RealEstateDeal[]>([]);
   const [jobs, setJobs] = useState<Job[]>([]);
 
@@ -60,7 +65,7 @@ export function DashboardOverview() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  async function loadDashboardData() {
+  const loadDashboardData = useCallback(async () => {
     setLoading(true);
     setError(null);
 
@@ -75,7 +80,18 @@ export function DashboardOverview() {
         .select('*');
 
       if (balancesErr) throw balancesErr;
-      setAccountBalances((balancesData ?? []) as AccountBalance[]);
+
+      const { data: entitiesData, error: entitiesErr } = await supabase
+        .from('accounts')
+        .select('id, entity');
+
+      if (entitiesErr) throw entitiesErr;
+      const entityById = new Map(
+        ((entitiesData ?? []) as { id: number; entity: string | null }[]).map((acc) => [acc.id, acc.entity])
+      );
+      const balances = (balancesData ?? []) as AccountBalance[];
+      setAccountBalances(balances);
+      setEntityBalances(balances.filter((acc) => matchesEntity(entityById.get(acc.account_id), entity)));
 
       // Jobs for metrics (just count)
       const { data: jobsData, error: jobsErr } = await supabase
@@ -97,6 +113,7 @@ export function DashboardOverview() {
           job_id,
           accounts!inner (
             code,
+            entity,
             account_types!inner ( name )
           ),
           transactions!inner ( date )
@@ -120,6 +137,7 @@ export function DashboardOverview() {
         const amount = Number(line.amount) || 0;
         const absAmount = Math.abs(amount);
         const classification = classifyLine(line);
+        if (!matchesEntity(classification.entity, entity)) continue;
 
         // INCOME (stored as negative/credits, so use absolute value)
         if (classification.incomeCategory) {
@@ -181,11 +199,11 @@ export function DashboardOverview() {
       setError(err instanceof Error ? err.message : 'Failed to load dashboard data');
       setLoading(false);
     }
-  }
+  }, [entity]);
 
   useEffect(() => {
     loadDashboardData();
-  }, []);
+  }, [loadDashboardData]);
 
   if (loading) return <p>Loading...</p>;
   if (error) return <p className="text-danger">Error: {error}</p>;
@@ -225,6 +243,14 @@ export function DashboardOverview() {
   return (
     <div>
       <h2 className="mt-0 mb-2">Dashboard</h2>
+      <div className="filter-controls mb-2">
+        <div className="filter-control">
+          <label htmlFor="dashboard-entity" className="filter-control__label">
+            Entity:
+          </label>
+          <EntitySelect id="dashboard-entity" value={entity} onChange={setEntity} />
+        </div>
+      </div>
       <div className="dashboard-grid">
         
         {/* YTD Snapshot Card */}
@@ -295,7 +321,7 @@ export function DashboardOverview() {
 
         {/* Balances Card */}
         <BalancesCard
-          accounts={accountBalances}
+          accounts={entityBalances}
           loading={loading}
           showNetWorth={true}
           reEquity={totalEquity}
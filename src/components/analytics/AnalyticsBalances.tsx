@@ -1,7 +1,9 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { supabase } from '../../lib/supabaseClient';
 import { isBankCode } from '../../utils/accounts';
 import { formatCurrency } from '../../utils/format';
+import { matchesEntity, type EntityFilter } from '../../utils/entities';
+import { EntitySelect } from '../shared/EntitySelect';
 import {
   ComposedChart,
   XAxis,
@@ -18,6 +20,7 @@ type AccountBalance = {
   account_code: string | null;
   account_type: string;
   balance: number;
+  entity: string | null;
 };
 
 type RawAccountBalance = {
@@ -52,6 +55,7 @@ type CandlestickData = {
 
 export function AnalyticsBalances() {
   const [accountBalances, setAccountBalances] = useState<AccountBalance[]>([]);
+  const [entity, setEntity] = useState<EntityFilter>('all');
   const [selectedAccountId, setSelectedAccountId] = useState<number | 'all'>('all');
   const [chartData, setChartData] = useState<CandlestickData[]>([]);
   const [period, setPeriod] = useState<'daily' | 'weekly' | 'monthly'>('daily');
@@ -64,9 +68,11 @@ export function AnalyticsBalances() {
   // Load account balances
   useEffect(() => {
     async function loadAccounts() {
-      const { data, error: err } = await supabase
-        .from('account_balances_v')
-        .select('*');
+      const [balancesRes, entitiesRes] = await Promise.all([
+        supabase.from('account_balances_v').select('*'),
+        supabase.from('accounts').select('id, entity'),
+      ]);
+      const err = balancesRes.error ?? entitiesRes.error;
 
       if (err) {
         console.error(err);
@@ -74,9 +80,13 @@ export function AnalyticsBalances() {
         return;
       }
 
-      const rawAccounts = (data ?? []) as unknown as RawAccountBalance[];
+      const entityById = new Map(
+        ((entitiesRes.data ?? []) as { id: number; entity: string | null }[]).map((acc) => [acc.id, acc.entity])
+      );
+      const rawAccounts = (balancesRes.data ?? []) as unknown as RawAccountBalance[];
       const bankAccounts = rawAccounts
         .filter((acc) => isBankCode(acc.account_code))
+        .map((acc) => ({ ...acc, entity: entityById.get(acc.account_id) ?? null }))
         .sort((a, b) => {
           const codeA = a.account_code || a.account_name;
           const codeB = b.account_code || b.account_name;
@@ -89,6 +99,11 @@ export function AnalyticsBalances() {
     loadAccounts();
   }, []);
 
+  const entityAccounts = useMemo(
+    () => accountBalances.filter((acc) => matchesEntity(acc.entity, entity)),
+    [accountBalances, entity]
+  );
+
   // Load and process transaction data
   useEffect(() => {
     async function loadChartData() {
@@ -126,8 +141,13 @@ export function AnalyticsBalances() {
 
         const accountIds =
           selectedAccountId === 'all'
-            ? accountBalances.map((acc) => acc.account_id)
+            ? entityAccounts.map((acc) => acc.account_id)
             : [selectedAccountId];
+        if (accountIds.length === 0) {
+          setChartData([]);
+          setLoading(false);
+          return;
+        }
 
         const { data: transactions, error: txErr } = await supabase
           .from('transaction_lines')
@@ -173,7 +193,7 @@ export function AnalyticsBalances() {
     }
 
     loadChartData();
-  }, [accountBalances, selectedAccountId, period, dateRange, customStartDate, customEndDate]);
+  }, [accountBalances, entityAccounts, selectedAccountId, period, dateRange, customStartDate, customEndDate]);
 
   function calculateBalancesByPeriod(
     transactions: TransactionLine[],
@@ -319,6 +339,19 @@ export function AnalyticsBalances() {
     <>
       <div className="card mb-2 p-2">
         <div className="filter-row mb-2">
+          {/* Entity selector */}
+          <div className="filter-group">
+            <label htmlFor="entity-select">Entity:</label>
+            <EntitySelect
+              id="entity-select"
+              value={entity}
+              onChange={(next) => {
+                setEntity(next);
+                setSelectedAccountId('all');
+              }}
+            />
+          </div>
+
           {/* Account selector */}
           <div className="filter-group">
             <label htmlFor="account-select">Account:</label>
@@ -330,7 +363,7 @@ export function AnalyticsBalances() {
               }
             >
               <option value="all">All Bank Accounts (Aggregated)</option>
-              {accountBalances.map((acc) => (
+              {entityAccounts.map((acc) => (
                 <option key={acc.account_id} value={acc.account_id}>
                   {acc.account_name}
                 </option>
@@ -2,6 +2,8 @@ import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabaseClient';
 import { formatCurrency } from '../../utils/format';
 import { classifyLine, type ClassifiableLineInput } from '../../utils/accounts';
+import { matchesEntity, type EntityFilter } from '../../utils/entities';
+import { EntitySelect } from '../shared/EntitySelect';
 import {
   ComposedChart,
   XAxis,
@@ -27,6 +29,7 @@ export function AnalyticsCashFlow() {
   const [cashFlowData, setCashFlowData] = useState<CashFlowData[]>([]);
   const [cashFlowRange, setCashFlowRange] = useState<'ytd' | '12m' | 'all'>('ytd');
   const [scope, setScope] = useState<'business' | 'rentals' | 'flips' | 'all'>('business');
+  const [entity, setEntity] = useState<EntityFilter>('all');
 
   useEffect(() => {
     async function loadCashFlowData() {
@@ -74,6 +77,7 @@ export function AnalyticsCashFlow() {
             real_estate_deal_id,
             accounts!inner (
               code,
+              entity,
               account_types!inner (name)
             ),
             transactions!inner (date)
@@ -99,6 +103,7 @@ export function AnalyticsCashFlow() {
           if (!date) continue;
 
           const classification = classifyLine(line);
+          if (!matchesEntity(classification.entity, entity)) continue;
           const accountType = line.accounts?.account_types?.name ?? '';
 
           // Filter by scope
@@ -172,7 +177,7 @@ export function AnalyticsCashFlow() {
     }
 
     loadCashFlowData();
-  }, [cashFlowRange, scope]);
+  }, [cashFlowRange, scope, entity]);
 
   const CashFlowTooltip = ({ active, payload, label }: { active?: boolean; payload?: Array<{ payload: CashFlowData }>; label?: string }) => {
     if (active && payload && payload.length) {
@@ -269,6 +274,12 @@ export function AnalyticsCashFlow() {
               <option value="all">All Time</option>
             </select>
           </div>
+          <div className="filter-control">
+            <label htmlFor="cashflow-entity" className="filter-control__label">
+              Entity:
+            </label>
+            <EntitySelect id="cashflow-entity" value={entity} onChange={setEntity} />
+          </div>
         </div>
       </div>
 
@@ -5,6 +5,8 @@ import {
   type ClassifiableLineInput,
 } from '../../utils/accounts';
 import { formatCurrency } from '../../utils/format';
+import { matchesEntity, type EntityFilter } from '../../utils/entities';
+import { EntitySelect } from '../shared/EntitySelect';
 import {
   XAxis,
   YAxis,
@@ -89,6 +91,7 @@ const ExpenseBarChart = ({
 );
 
 export function AnalyticsExpenses() {
+  const [entity, setEntity] = useState<EntityFilter>('all');
   const [expenseData, setExpenseData] = useState<ExpenseData>({
     job: [],
     marketing: [],
@@ -116,6 +119,7 @@ export function AnalyticsExpenses() {
             accounts (
               name,
               code,
+              entity,
               account_types (name)
             ),
             transactions!inner (date)
@@ -136,6 +140,7 @@ export function AnalyticsExpenses() {
         for (const line of (expenseLines ?? []) as ClassifiableLineInput[]) {
           const classification = classifyLine(line);
           if (!classification.expenseCategory) continue;
+          if (!matchesEntity(classification.entity, entity)) continue;
 
           const amount = Math.abs(Number(line.amount) || 0);
           const accountId = (line as { account_id?: number }).account_id;
@@ -205,16 +210,29 @@ export function AnalyticsExpenses() {
     }
 
     loadExpenseData();
-  }, []);
+  }, [entity]);
 
   return (
-    <div className="expense-grid">
-      <ExpenseBarChart data={expenseData.job} color="#1565c0" title="Direct Job Expenses" />
-      <ExpenseBarChart data={expenseData.marketing} color="#e65100" title="Marketing Expenses" />
-      <ExpenseBarChart data={expenseData.overhead} color="#7b1fa2" title="Overhead Expenses" />
-      <ExpenseBarChart data={expenseData.rental} color="#0a7a3c" title="Rental Expenses" />
-      <ExpenseBarChart data={expenseData.flip} color="#d4a017" title="Flip Expenses (Capitalized)" />
-      <ExpenseBarChart data={expenseData.personal} color="#b00020" title="Personal/Other Expenses" />
-    </div>
+    <>
+      <div className="card mb-2 p-2">
+        <div className="filter-controls">
+          <div className="filter-control">
+            <label htmlFor="expenses-entity" className="filter-control__label">
+              Entity:
+            </label>
+            <EntitySelect id="expenses-entity" value={entity} onChange={setEntity} />
+          </div>
+        </div>
+      </div>
+
+      <div className="expense-grid">
+        <ExpenseBarChart data={expenseData.job} color="#1565c0" title="Direct Job Expenses" />
+        <ExpenseBarChart data={expenseData.marketing} color="#e65100" title="Marketing Expenses" />
+        <ExpenseBarChart data={expenseData.overhead} color="#7b1fa2" title="Overhead Expenses" />
+        <ExpenseBarChart data={expenseData.rental} color="#0a7a3c" title="Rental Expenses" />
+        <ExpenseBarChart data={expenseData.flip} color="#d4a017" title="Flip Expenses (Capitalized)" />
+        <ExpenseBarChart data={expenseData.personal} color="#b00020" title="Personal/Other Expenses" />
+      </div>
+    </>
   );
 }
@@ -6,6 +6,16 @@ import { useEffect, useState, useCallback, type CSSProperties } from 'react';
 import { supabase } from '../../lib/supabaseClient';
 import { formatCurrency } from '../../utils/format';
 import { formatLocalDate } from '../../utils/date';
+import {
+  CATEGORIZATION_RULE_SELECT,
+  allocateSplits,
+  normalizeRule,
+  suggestFromRules,
+  type CategorizationRule,
+  type RulePurpose,
+  type RuleSplit,
+} from '../../utils/categorizationRules';
+import { matchBankRows } from './bankMatcher';
 
 // ============================================================================
 // TYPES
@@ -26,6 +36,7 @@ type PlaidTransaction = {
   merchant_name: string | null;
   category: string[];
   pending: boolean;
+  pending_transaction_id: string | null;
   account_id: string;
 };
 
@@ -63,10 +74,13 @@ type ReviewTransaction = {
   match_type: 'new' | 'matched_pending' | 'matched_cleared';
   matched_line_id: number | null;
   matched_description: string | null;
-  // Suggestions from merchant mapping
+  // Suggestions from categorization rule or merchant mapping
   suggested_vendor_id: number | null;
   suggested_account_id: number | null;
   suggested_job_id: number | null;
+  suggested_purpose: RulePurpose;
+  suggested_splits: RuleSplit[] | null;
+  rule_name: string | null;
   // User overrides
   selected: boolean;
   override_vendor_id: number | null;
@@ -264,13 +278,17 @@ export function BankImportView() {
       }));
 
       // Load reference data
-      const [vendorsRes, jobsRes, accountsRes, mappingsRes] = await Promise.all([
+      const [vendorsRes, jobsRes, accountsRes, mappingsRes, rulesRes] = await Promise.all([
         supabase.from('vendors').select('id, name').eq('is_active', true),
         supabase.from('jobs').select('id, name, address, status'),
         supabase.from('accounts').select('id, code, name, account_type_id').eq('is_active', true),
         supabase.from('merchant_mappings').select('merchant_name, vendor_id, default_account_id, default_job_id'),
+        supabase.from('categorization_rules').select(CATEGORIZATION_RULE_SELECT),
       ]);
 
+      if (rulesRes.error) throw rulesRes.error;
+      const rules = ((rulesRes.data ?? []) as unknown as CategorizationRule[]).map(normalizeRule);
+
       const rawVendors = (vendorsRes.data ?? []) as unknown as RawVendorRow[];
       const vendors = rawVendors.map((v) => ({ id: v.id, name: v.name }));
 
@@ -298,50 +316,32 @@ export function BankImportView() {
       setMerchantMappings(mappingMap);
 
       // Match Plaid transactions against DB
+      // Plaid: positive = money out (debit), negative = money in (credit)
+      // Our DB: negative = expense (money out), positive = income (money in)
+      const bankRows = plaidTransactions.map((plaidTx) => ({
+        date: plaidTx.date,
+        description: plaidTx.merchant_name || plaidTx.name,
+        amount: -plaidTx.amount, // Flip sign to match our convention
+        bank_status: (plaidTx.pending ? 'pending' : 'posted') as 'pending' | 'posted',
+      }));
+      const { matches } = matchBankRows(bankRows, pendingDBTransactions, clearedDBTransactions, {
+        dateWindowDays: 7,
+        allowTipAdjustments: false,
+        toleranceCents: 50, // pending charges can settle a little off (tips, fuel holds)
+      });
+      const matchByRow = new Map(matches.map((m) => [m.row_index, m]));
+      const pendingByLine = new Map(pendingDBTransactions.map((tx) => [tx.line_id, tx]));
+      const clearedByLine = new Map(clearedDBTransactions.map((tx) => [tx.line_id, tx]));
+
       const reviewTxns: ReviewTransaction[] = [];
       let bankPendingHidden = 0;
       let alreadyClearedHidden = 0;
 
-      for (const plaidTx of plaidTransactions) {
-        const bankStatus = plaidTx.pending ? 'pending' : 'posted';
-        // Plaid: positive = money out (debit), negative = money in (credit)
-        // Our DB: negative = expense (money out), positive = income (money in)
-        const normalizedAmount = -plaidTx.amount; // Flip sign to match our convention
-        const merchantName = plaidTx.merchant_name || plaidTx.name;
-
-        // Try to match against pending DB transactions
-        let matchedPending: PendingDBTransaction | null = null;
-        for (const pending of pendingDBTransactions) {
-          // Match by amount (within $0.50 for tip adjustments)
-          const amountDiff = Math.abs(pending.amount - normalizedAmount);
-          if (amountDiff < 0.50) {
-            // Check date is within 7 days
-            const plaidDate = new Date(plaidTx.date);
-            const pendingDate = new Date(pending.date);
-            const daysDiff = Math.abs((plaidDate.getTime() - pendingDate.getTime()) / (1000 * 60 * 60 * 24));
-            if (daysDiff <= 7) {
-              matchedPending = pending;
-              break;
-            }
-          }
-        }
-
-        // Try to match against cleared DB transactions
-        let matchedCleared: ClearedDBTransaction | null = null;
-        if (!matchedPending) {
-          for (const cleared of clearedDBTransactions) {
-            const amountDiff = Math.abs(cleared.amount - normalizedAmount);
-            if (amountDiff < 0.01) {
-              const plaidDate = new Date(plaidTx.date);
-              const clearedDate = new Date(cleared.date);
-              const daysDiff = Math.abs((plaidDate.getTime() - clearedDate.getTime()) / (1000 * 60 * 60 * 24));
-              if (daysDiff <= 7) {
-                matchedCleared = cleared;
-                break;
-              }
-            }
-          }
-        }
+      plaidTransactions.forEach((plaidTx, rowIndex) => {
+        const { bank_status: bankStatus, amount: normalizedAmount, description: merchantName } = bankRows[rowIndex];
+        const match = matchByRow.get(rowIndex);
+        const matchedPending = match?.match_type === 'matched_pending' ? pendingByLine.get(match.matched_line_id) ?? null : null;
+        const matchedCleared = match?.match_type === 'matched_cleared' ? clearedByLine.get(match.matched_line_id) ?? null : null;
 
         // Determine match type and whether to show
         let matchType: 'new' | 'matched_pending' | 'matched_cleared';
@@ -376,8 +376,16 @@ export function BankImportView() {
         }
 
         if (showTransaction) {
-          // Get suggestions from merchant mapping
+          // Suggestions: first matching rule, else exact merchant mapping
           const mapping = mappingMap.get(merchantName.toLowerCase());
+          const rule = matchType === 'new'
+            ? suggestFromRules(rules, {
+                description: `${plaidTx.merchant_name ?? ''} ${plaidTx.name}`.trim(),
+                amount: normalizedAmount,
+                date: plaidTx.date,
+                accountId,
+              })
+            : null;
 
           reviewTxns.push({
             plaid_id: plaidTx.plaid_transaction_id,
@@ -388,9 +396,12 @@ export function BankImportView() {
             match_type: matchType,
             matched_line_id: matchedLineId,
             matched_description: matchedDescription,
-            suggested_vendor_id: mapping?.vendor_id ?? null,
-            suggested_account_id: mapping?.default_account_id ?? null,
-            suggested_job_id: mapping?.default_job_id ?? null,
+            suggested_vendor_id: rule?.vendorId ?? mapping?.vendor_id ?? null,
+            suggested_account_id: rule?.accountId ?? mapping?.default_account_id ?? null,
+            suggested_job_id: rule?.jobId ?? mapping?.default_job_id ?? null,
+            suggested_purpose: rule?.purpose ?? 'business',
+            suggested_splits: rule?.splits ?? null,
+            rule_name: rule?.ruleName ?? null,
             selected: matchType !== 'matched_cleared' || bankStatus !== 'pending', // Anomalies start unselected
             override_vendor_id: null,
             override_account_id: null,
@@ -398,7 +409,7 @@ export function BankImportView() {
             override_description: null,
           });
         }
-      }
+      });
 
       setHiddenStats({ 
         bankPending: bankPendingHidden, 
@@ -423,6 +434,8 @@ export function BankImportView() {
     setReviewTransactions(prev => {
       const next = [...prev];
       next[index] = { ...next[index], [field]: value };
+      // Picking an account by hand replaces a rule's split
+      if (field === 'override_account_id') next[index].suggested_splits = null;
       return next;
     });
   }
@@ -453,6 +466,7 @@ export function BankImportView() {
     try {
       let clearedCount = 0;
       let createdCount = 0;
+      const unlinked: string[] = [];
       const accountId = 1; // Checking account
 
       for (const tx of selected) {
@@ -488,6 +502,7 @@ export function BankImportView() {
             .insert({
               date: tx.date,
               description,
+              plaid_transaction_id: tx.plaid_id,
             })
             .select('id')
             .single();
@@ -495,25 +510,31 @@ export function BankImportView() {
           if (txErr) throw txErr;
 
           // Create double-entry lines
-          // job_id, vendor_id only go on the category line (income/expense), not the cash line
-          const categoryLine = { 
-            transaction_id: txData.id, 
-            account_id: categoryAccountId, 
-            amount: isExpense ? absAmount : -absAmount, 
+          // job_id, vendor_id only go on the category line(s) (income/expense), not the cash line
+          // A rule split fans the category side out across several accounts
+          const legs = tx.suggested_splits
+            ? allocateSplits(absAmount, tx.suggested_splits)
+            : [{ account_id: categoryAccountId, amount: absAmount, job_id: null, purpose: null }];
+          const categoryLines = legs.map((leg) => ({
+            transaction_id: txData.id,
+            account_id: leg.account_id,
+            amount: isExpense ? leg.amount : -leg.amount,
             is_cleared: isCleared,
-            job_id: jobId,
+            purpose: leg.purpose ?? tx.suggested_purpose,
+            job_id: leg.job_id ?? jobId,
             vendor_id: vendorId,
-          };
+          }));
           const cashLine = { 
             transaction_id: txData.id, 
             account_id: accountId, 
             amount: isExpense ? -absAmount : absAmount, 
             is_cleared: isCleared,
+            purpose: tx.suggested_purpose,
           };
 
           const lines = isExpense
-            ? [categoryLine, cashLine]
-            : [cashLine, categoryLine];
+            ? [...categoryLines, cashLine]
+            : [cashLine, ...categoryLines];
 
           const { error: lineErr } = await supabase
             .from('transaction_lines')
@@ -521,6 +542,18 @@ export function BankImportView() {
 
           if (lineErr) throw lineErr;
 
+          // Link the staged Plaid row so a later post/removal finds this entry.
+          // The entry is already saved, so keep going and report it below.
+          const { error: linkErr } = await supabase
+            .from('plaid_transactions')
+            .update({ ledger_transaction_id: txData.id })
+            .eq('transaction_id', tx.plaid_id);
+
+          if (linkErr) {
+            console.error('Plaid link error:', linkErr);
+            unlinked.push(description);
+          }
+
           // Save merchant mapping
           const merchantName = tx.description;
           const { data: { user } } = await supabase.auth.getUser();
@@ -542,6 +575,12 @@ export function BankImportView() {
       }
 
       setCommitResult({ cleared: clearedCount, created: createdCount });
+      if (unlinked.length > 0) {
+        setError(
+          `${unlinked.length} entry(s) were created but not linked to their bank transaction (${unlinked.join(', ')}). ` +
+            'A later bank update or removal will not find them - check these in the ledger.'
+        );
+      }
       setReviewTransactions([]);
       setProcessingState('idle');
 
@@ -744,7 +783,12 @@ export function BankImportView() {
                             Matched: {tx.matched_description}
                           </div>
                         )}
-                        {hasMapping && (
+                        {tx.rule_name ? (
+                          <div style={{ fontSize: 10, color: '#2563eb' }}>
+                            Rule: {tx.rule_name}
+                            {tx.suggested_splits && ` (split ${tx.suggested_splits.length} ways)`}
+                          </div>
+                        ) : hasMapping && (
                           <div style={{ fontSize: 10, color: '#16a34a' }}>✓ Auto-mapped</div>
                         )}
                       </td>
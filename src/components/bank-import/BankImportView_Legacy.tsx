@@ -1,11 +1,43 @@
 // src/components/bank-import/BankImportView.tsx
 
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useMemo, useState, useRef } from 'react';
 import { supabase } from '../../lib/supabaseClient';
 import { formatCurrency } from '../../utils/format';
 import { formatLocalDate } from '../../utils/date';
 import { isBankCode, isCreditCardCode, compareAccountsForSort } from '../../utils/accounts';
+import {
+  CATEGORIZATION_RULE_SELECT,
+  allocateSplits,
+  normalizeRule,
+  suggestFromRules,
+  type CategorizationRule,
+} from '../../utils/categorizationRules';
+import {
+  initialSplitLines,
+  splitLinesFromRule,
+  splitLinesToLegs,
+  validateSplitLines,
+  type SplitLine,
+} from '../../utils/splitTransactions';
+import { applyMixedAllocations, importLinePurpose } from '../../utils/mixedAllocation';
+import { buildIntercompanyLines } from '../../utils/entities';
 import { SearchableSelect, type SelectOption } from '../shared/SearchableSelect';
+import { loadMixedAllocations } from '../shared/mixedAllocations';
+import { loadEntityContext } from '../shared/entityContext';
+import { SplitEditor } from '../shared/SplitEditor';
+import { ClosedPeriodBanner } from '../shared/ClosedPeriodBanner';
+import { useClosedPeriod } from '../shared/closedPeriod';
+import { CSV_PROFILES, parseBankFile } from './bankFileParser';
+import { matchBankRows } from './bankMatcher';
+import {
+  DUPLICATE_LINE_SELECT,
+  duplicateSearchRange,
+  findDuplicates,
+  normalizeDuplicateLine,
+  type DuplicateCandidate,
+  type DuplicateMatch,
+  type RawDuplicateLine,
+} from '../../utils/duplicateDetection';
 import type {
   PendingTransaction,
   ClearedTransaction,
@@ -13,6 +45,7 @@ import type {
   ReferenceData,
   BankImportRequest,
   BankImportResponse,
+  ParsedTransaction,
   ReviewTransaction,
 } from './bankImportTypes';
 
@@ -68,7 +101,9 @@ export function BankImportView() {
   // State
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [selectedAccountId, setSelectedAccountId] = useState<string>('');
-  const [rawBankData, setRawBankData] = useState<string>('');
+  const [bankFileName, setBankFileName] = useState<string>('');
+  const [bankFileText, setBankFileText] = useState<string>('');
+  const [csvProfileId, setCsvProfileId] = useState<string>(''); // '' = auto-detect
   const [processingState, setProcessingState] = useState<ProcessingState>('idle');
   const [error, setError] = useState<string | null>(null);
   const [warnings, setWarnings] = useState<string[]>([]);
@@ -90,6 +125,10 @@ export function BankImportView() {
   // Success state
   const [commitResult, setCommitResult] = useState<{ cleared: number; created: number; tipAdjusted: number } | null>(null);
 
+  // New rows dated in a closed period post on the first open date once the user opts in
+  const periodGuard = useClosedPeriod();
+  const [postClosedToOpenPeriod, setPostClosedToOpenPeriod] = useState(false);
+
   // Restore state from localStorage on mount
   // Restore state from localStorage on mount
   useEffect(() => {
@@ -199,10 +238,45 @@ export function BankImportView() {
     void loadAccounts();
   }, []);
 
+  // Parse uploaded file locally (re-runs when account or column profile changes)
+  const selectedAccountCode = accounts.find((a) => a.id === Number(selectedAccountId))?.code ?? null;
+  const parsedFile = useMemo(() => {
+    if (!bankFileText) return null;
+    return parseBankFile(bankFileText, {
+      fileName: bankFileName,
+      isCreditCard: isCreditCardCode(selectedAccountCode),
+      csvProfileId: csvProfileId || undefined,
+    });
+  }, [bankFileText, bankFileName, csvProfileId, selectedAccountCode]);
+
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    setError(null);
+    if (!file) {
+      resetBankFile();
+      return;
+    }
+    try {
+      const text = await file.text();
+      setBankFileName(file.name);
+      setBankFileText(text);
+      setCsvProfileId('');
+    } catch (err: unknown) {
+      console.error('Failed to read file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    }
+  }
+
+  function resetBankFile() {
+    setBankFileName('');
+    setBankFileText('');
+    setCsvProfileId('');
+  }
+
   // Process with AI
   async function handleProcess() {
-    if (!selectedAccountId || !rawBankData.trim()) {
-      setError('Please select an account and paste bank data.');
+    if (!selectedAccountId || !parsedFile || parsedFile.rows.length === 0) {
+      setError('Please select an account and upload a bank file with transactions.');
       return;
     }
 
@@ -218,7 +292,8 @@ export function BankImportView() {
       { label: 'Loading cleared transactions', status: 'pending' },
       { label: 'Loading transaction history', status: 'pending' },
       { label: 'Loading reference data', status: 'pending' },
-      { label: 'Analyzing with AI', status: 'pending' },
+      { label: 'Matching against ledger', status: 'pending' },
+      { label: 'Categorizing with AI', status: 'pending' },
     ]);
     setProcessingState('loading-context');
 
@@ -340,17 +415,21 @@ export function BankImportView() {
       ));
 
       // Step 4: Reference data
-      const [vendorsRes, jobsRes, installersRes, accountsRes] = await Promise.all([
+      const [vendorsRes, jobsRes, installersRes, accountsRes, rulesRes] = await Promise.all([
         supabase.from('vendors').select('id, name').eq('is_active', true),
         supabase.from('jobs').select('id, name, address, status'),
         supabase.from('installers').select('id, first_name, last_name, company_name').eq('is_active', true),
         supabase.from('accounts').select('id, code, name, account_type_id').eq('is_active', true),
+        supabase.from('categorization_rules').select(CATEGORIZATION_RULE_SELECT),
       ]);
 
       if (vendorsRes.error) throw vendorsRes.error;
       if (jobsRes.error) throw jobsRes.error;
       if (installersRes.error) throw installersRes.error;
       if (accountsRes.error) throw accountsRes.error;
+      if (rulesRes.error) throw rulesRes.error;
+
+      const rules = ((rulesRes.data ?? []) as unknown as CategorizationRule[]).map(normalizeRule);
 
       const rawVendors = (vendorsRes.data ?? []) as unknown as RawVendorRow[];
       const vendors = rawVendors.map((v) => ({ id: v.id, name: v.name }));
@@ -382,32 +461,64 @@ export function BankImportView() {
         i === 4 ? { ...s, status: 'active' } : s
       ));
 
-      setProcessingState('processing-ai');
+      // Step 5: Deterministic matching (exact amount, date window, description, tips)
+      const bankRows = parsedFile.rows;
+      const { matches, unmatched } = matchBankRows(bankRows, pendingTransactions, clearedTransactions);
+
+      const localParsed: ParsedTransaction[] = matches.map((m) => ({
+        ...m,
+        date: bankRows[m.row_index].date,
+        description: bankRows[m.row_index].description,
+        amount: bankRows[m.row_index].amount,
+        bank_status: bankRows[m.row_index].bank_status,
+        suggested_account_id: null,
+        suggested_account_code: null,
+        suggested_vendor_id: null,
+        suggested_job_id: null,
+        suggested_installer_id: null,
+        suggested_purpose: null,
+      }));
 
-      // Step 5: AI processing
-      const request: BankImportRequest = {
-        rawBankData,
-        selectedAccount: { id: selectedAccount.id, name: selectedAccount.name, code: selectedAccount.code ?? '' },
-        pendingTransactions,
-        clearedTransactions,
-        recentHistory,
-        referenceData: refData,
-      };
+      setProcessingSteps((prev) => prev.map((s, i) =>
+        i === 4 ? { ...s, status: 'done', detail: `${matches.length} matched, ${unmatched.length} left` } :
+        i === 5 ? { ...s, status: unmatched.length > 0 ? 'active' : 'done', detail: unmatched.length > 0 ? undefined : 'skipped' } : s
+      ));
 
-      const { data, error: fnErr } = await supabase.functions.invoke('bank-import', { body: request });
+      // Step 6: AI fallback - only rows the matcher could not place
+      let response: BankImportResponse = { parsed_transactions: [], warnings: [] };
 
-      if (fnErr) throw fnErr;
+      if (unmatched.length > 0) {
+        setProcessingState('processing-ai');
 
-      const response = data as BankImportResponse;
+        const claimedLineIds = new Set(matches.map((m) => m.matched_line_id));
+        const request: BankImportRequest = {
+          bankRows: unmatched.map((idx) => bankRows[idx]),
+          selectedAccount: { id: selectedAccount.id, name: selectedAccount.name, code: selectedAccount.code ?? '' },
+          pendingTransactions: pendingTransactions.filter((tx) => !claimedLineIds.has(tx.line_id)),
+          clearedTransactions: clearedTransactions.filter((tx) => !claimedLineIds.has(tx.line_id)),
+          recentHistory,
+          referenceData: refData,
+        };
 
-      setProcessingSteps((prev) => prev.map((s, i) =>
-        i === 4 ? { ...s, status: 'done', detail: `${response.parsed_transactions.length} transactions parsed` } : s
-      ));
+        const { data, error: fnErr } = await supabase.functions.invoke('bank-import', { body: request });
+
+        if (fnErr) throw fnErr;
+
+        response = data as BankImportResponse;
+
+        setProcessingSteps((prev) => prev.map((s, i) =>
+          i === 5 ? { ...s, status: 'done', detail: `${response.parsed_transactions.length} transactions categorized` } : s
+        ));
+      }
+
+      // AI row_index refers to the unmatched subset - map back to file rows
+      const aiParsed = response.parsed_transactions.map((tx) => ({ ...tx, row_index: unmatched[tx.row_index] }));
 
       stopTimer();
 
-      if (response.warnings?.length) {
-        setWarnings(response.warnings);
+      const allWarnings = [...parsedFile.warnings, ...(response.warnings ?? [])];
+      if (allWarnings.length) {
+        setWarnings(allWarnings);
       }
 
       // Filter logic:
@@ -417,7 +528,7 @@ export function BankImportView() {
       // - Show: posted + matched_pending (mark as cleared)
       // - Show: tip_adjustment (update amount and mark as cleared)
       // - Show: bank_pending + matched_cleared (ANOMALY - cleared in DB but still processing at bank)
-      const allParsed = response.parsed_transactions;
+      const allParsed = [...localParsed, ...aiParsed].sort((a, b) => a.row_index - b.row_index);
       
       const bothPendingCount = allParsed.filter(tx => tx.bank_status === 'pending' && tx.match_type === 'matched_pending').length;
       const alreadyClearedCount = allParsed.filter(tx => tx.bank_status === 'posted' && tx.match_type === 'matched_cleared').length;
@@ -436,17 +547,32 @@ export function BankImportView() {
         return false;
       });
 
-      const reviewTxns: ReviewTransaction[] = actionableTransactions.map((tx) => ({
-        ...tx,
-        // Default anomalies to unselected - they need explicit review
-        selected: !(tx.bank_status === 'pending' && tx.match_type === 'matched_cleared'),
-        override_account_id: null,
-        override_vendor_id: null,
-        override_job_id: null,
-        override_installer_id: null,
-        override_description: null,
-        override_is_cleared: null, // null = use bank_status (posted = cleared, pending = unchecked)
-      }));
+      const reviewTxns: ReviewTransaction[] = actionableTransactions.map((tx) => {
+        // User rules win over AI suggestions for new transactions
+        const rule = tx.match_type === 'new'
+          ? suggestFromRules(rules, { description: tx.description, amount: tx.amount, date: tx.date, accountId })
+          : null;
+
+        return {
+          ...tx,
+          suggested_account_id: rule?.accountId ?? tx.suggested_account_id,
+          suggested_vendor_id: rule?.vendorId ?? tx.suggested_vendor_id,
+          suggested_job_id: rule?.jobId ?? tx.suggested_job_id,
+          // Default anomalies to unselected - they need explicit review
+          selected: !(tx.bank_status === 'pending' && tx.match_type === 'matched_cleared'),
+          override_account_id: null,
+          override_vendor_id: null,
+          override_job_id: null,
+          override_installer_id: null,
+          override_description: null,
+          override_is_cleared: null, // null = use bank_status (posted = cleared, pending = unchecked)
+          rule_name: rule?.ruleName ?? null,
+          rule_purpose: rule?.purpose ?? null,
+          rule_splits: rule?.splits ?? null,
+          manual_splits: null,
+          duplicate_matches: null,
+        };
+      });
 
       setReviewTransactions(reviewTxns);
       setProcessingState('review');
@@ -468,6 +594,20 @@ export function BankImportView() {
       return;
     }
 
+    const lockedCount = selected.filter((tx) => tx.match_type === 'new' && periodGuard.isClosed(tx.date)).length;
+    if (lockedCount > 0 && !postClosedToOpenPeriod) {
+      setError(`${lockedCount} selected transaction(s) are dated in a closed period. Post them to the first open period or uncheck them.`);
+      return;
+    }
+
+    for (const tx of selected) {
+      const splitError = tx.match_type === 'new' && tx.manual_splits ? validateSplitLines(tx.amount, tx.manual_splits) : null;
+      if (splitError) {
+        setError(`${tx.override_description ?? tx.description}: ${splitError}`);
+        return;
+      }
+    }
+
     setProcessingState('committing');
     setError(null);
 
@@ -476,17 +616,49 @@ export function BankImportView() {
       let createdCount = 0;
       let tipAdjustedCount = 0;
       const accountId = Number(selectedAccountId);
+      const [mixedAllocations, entityContext] = await Promise.all([loadMixedAllocations(), loadEntityContext()]);
+
+      // Flag new rows that look like existing ledger entries before creating anything.
+      // Flagged rows are unchecked once; re-checking them imports them anyway.
+      const unchecked = selected.filter((tx) => tx.match_type === 'new' && tx.duplicate_matches == null);
+      if (unchecked.length > 0) {
+        const found = await findLedgerDuplicates(
+          unchecked.map((tx) => ({
+            accountId,
+            date: tx.date,
+            amount: tx.amount,
+            description: tx.override_description ?? tx.description,
+            vendorId: tx.override_vendor_id ?? tx.suggested_vendor_id,
+          }))
+        );
+        const byRow = new Map(unchecked.map((tx, i) => [tx.row_index, found[i]]));
+        const flaggedCount = found.filter((m) => m.length > 0).length;
+
+        setReviewTransactions((prev) => prev.map((tx) => {
+          const matches = byRow.get(tx.row_index);
+          if (matches === undefined || tx.match_type !== 'new') return tx;
+          return { ...tx, duplicate_matches: matches, selected: tx.selected && matches.length === 0 };
+        }));
+
+        if (flaggedCount > 0) {
+          setError(`${flaggedCount} selected transaction(s) look like entries already in the ledger and were unchecked. Check them again to import anyway.`);
+          setProcessingState('review');
+          return;
+        }
+      }
 
       for (const tx of selected) {
         // Mark as cleared: only for posted bank transactions matching pending DB entries
         if (tx.bank_status === 'posted' && tx.match_type === 'matched_pending' && tx.matched_transaction_id) {
-          // Update transaction date to bank's cleared date
-          const { error: dateErr } = await supabase
-            .from('transactions')
-            .update({ date: tx.date })
-            .eq('id', tx.matched_transaction_id);
-
-          if (dateErr) throw dateErr;
+          // Update transaction date to bank's cleared date, unless that month is closed
+          if (!periodGuard.isClosed(tx.date)) {
+            const { error: dateErr } = await supabase
+              .from('transactions')
+              .update({ date: tx.date })
+              .eq('id', tx.matched_transaction_id);
+
+            if (dateErr) throw dateErr;
+          }
 
           // Mark ALL lines for this transaction as cleared
           const { error: clearErr } = await supabase
@@ -498,13 +670,15 @@ export function BankImportView() {
           clearedCount++;
 
         } else if (tx.match_type === 'tip_adjustment' && tx.matched_transaction_id && tx.original_amount) {
-          // Update transaction date to bank's cleared date
-          const { error: dateErr } = await supabase
-            .from('transactions')
-            .update({ date: tx.date })
-            .eq('id', tx.matched_transaction_id);
-
-          if (dateErr) throw dateErr;
+          // Update transaction date to bank's cleared date, unless that month is closed
+          if (!periodGuard.isClosed(tx.date)) {
+            const { error: dateErr } = await supabase
+              .from('transactions')
+              .update({ date: tx.date })
+              .eq('id', tx.matched_transaction_id);
+
+            if (dateErr) throw dateErr;
+          }
 
           // Tip adjustment: scale all lines atomically and mark as cleared
           const scaleFactor = Math.abs(tx.amount) / Math.abs(tx.original_amount);
@@ -522,10 +696,13 @@ export function BankImportView() {
           const vendorId = tx.override_vendor_id ?? tx.suggested_vendor_id;
           const jobId = tx.override_job_id ?? tx.suggested_job_id;
           const installerId = tx.override_installer_id ?? tx.suggested_installer_id;
-          const purpose = 'business'; // Default all imports to business
-          const description = tx.override_description ?? tx.description;
+          const purpose = tx.rule_purpose ?? 'business'; // Default imports to business unless a rule says otherwise
+          const postingDate = periodGuard.postingDate(tx.date);
+          const description = postingDate === tx.date
+            ? tx.override_description ?? tx.description
+            : `${tx.override_description ?? tx.description} (bank date ${formatLocalDate(tx.date)})`;
 
-          if (!categoryAccountId) {
+          if (!categoryAccountId && !tx.manual_splits) {
             throw new Error(`No category account for transaction: ${tx.description}`);
           }
 
@@ -550,12 +727,41 @@ export function BankImportView() {
             return line;
           };
 
-          const lines = isExpense
-            ? [buildLine(categoryAccountId, absAmount, true), buildLine(accountId, -absAmount, false)]
-            : [buildLine(accountId, absAmount, false), buildLine(categoryAccountId, -absAmount, true)];
+          // A rule split fans the category side out across several accounts;
+          // a hand-entered split carries its own job/vendor/purpose per line
+          const categoryLines = tx.manual_splits
+            ? splitLinesToLegs(tx.manual_splits).map((leg) => {
+                const line = buildLine(leg.account_id, isExpense ? leg.amount : -leg.amount, false);
+                line.purpose = leg.purpose;
+                if (leg.job_id) line.job_id = leg.job_id;
+                if (leg.vendor_id) line.vendor_id = leg.vendor_id;
+                if (installerId) line.installer_id = installerId;
+                return line;
+              })
+            : tx.rule_splits
+            ? allocateSplits(absAmount, tx.rule_splits).map((leg) => {
+                const line = buildLine(leg.account_id, isExpense ? leg.amount : -leg.amount, true);
+                line.purpose = importLinePurpose(leg.account_id, leg.purpose ?? tx.rule_purpose, purpose, mixedAllocations);
+                if (leg.job_id) line.job_id = leg.job_id;
+                return line;
+              })
+            : [{
+                ...buildLine(categoryAccountId!, isExpense ? absAmount : -absAmount, true),
+                purpose: importLinePurpose(categoryAccountId!, tx.rule_purpose, purpose, mixedAllocations),
+              }];
+
+          // Mixed-purpose accounts post one line per allocation leg; lines
+          // across entities get due to/due from lines
+          const postingLines = applyMixedAllocations(
+            isExpense
+              ? [...categoryLines, buildLine(accountId, -absAmount, false)]
+              : [buildLine(accountId, absAmount, false), ...categoryLines],
+            mixedAllocations
+          );
+          const lines = [...postingLines, ...buildIntercompanyLines(postingLines, entityContext)];
 
           const { error: rpcErr } = await supabase.rpc('create_transaction_multi', {
-            p_date: tx.date,
+            p_date: postingDate,
             p_description: description,
             p_purpose: purpose,
             p_lines: lines,
@@ -568,7 +774,7 @@ export function BankImportView() {
 
       setCommitResult({ cleared: clearedCount, created: createdCount, tipAdjusted: tipAdjustedCount });
       setReviewTransactions([]);
-      setRawBankData('');
+      resetBankFile();
       setProcessingState('idle');
       clearSavedState();
 
@@ -587,13 +793,52 @@ export function BankImportView() {
     }
   }
 
+  // Existing cash lines per candidate (same order as candidates)
+  async function findLedgerDuplicates(candidates: DuplicateCandidate[]): Promise<DuplicateMatch[][]> {
+    const range = duplicateSearchRange(candidates);
+    if (!range) return [];
+    const { data, error: dupErr } = await supabase
+      .from('transaction_lines')
+      .select(DUPLICATE_LINE_SELECT)
+      .in('account_id', range.accountIds)
+      .gte('transactions.date', range.from)
+      .lte('transactions.date', range.to);
+    if (dupErr) throw dupErr;
+    const lines = ((data ?? []) as unknown as RawDuplicateLine[]).map(normalizeDuplicateLine);
+    return candidates.map((c) => findDuplicates(c, lines));
+  }
+
   // UI Helpers
   function toggleTransaction(index: number) {
     setReviewTransactions((prev) => prev.map((tx, i) => (i === index ? { ...tx, selected: !tx.selected } : tx)));
   }
 
   function updateTransaction(index: number, updates: Partial<ReviewTransaction>) {
-    setReviewTransactions((prev) => prev.map((tx, i) => (i === index ? { ...tx, ...updates } : tx)));
+    // Picking a category by hand replaces a rule's split
+    const splitReset = 'override_account_id' in updates ? { rule_splits: null } : {};
+    setReviewTransactions((prev) => prev.map((tx, i) => (i === index ? { ...tx, ...updates, ...splitReset } : tx)));
+  }
+
+  // Turn the split editor on (seeded from a rule split or the current category) or off
+  function toggleSplit(index: number) {
+    setReviewTransactions((prev) => prev.map((tx, i) => {
+      if (i !== index) return tx;
+      if (tx.manual_splits) return { ...tx, manual_splits: null };
+      const defaults = {
+        accountId: tx.override_account_id ?? tx.suggested_account_id,
+        jobId: tx.override_job_id ?? tx.suggested_job_id,
+        vendorId: tx.override_vendor_id ?? tx.suggested_vendor_id,
+        purpose: tx.rule_purpose ?? 'business',
+      };
+      const manualSplits = tx.rule_splits
+        ? splitLinesFromRule(tx.amount, tx.rule_splits, defaults)
+        : initialSplitLines(tx.amount, defaults);
+      return { ...tx, rule_splits: null, manual_splits: manualSplits };
+    }));
+  }
+
+  function updateSplitLines(index: number, lines: SplitLine[]) {
+    setReviewTransactions((prev) => prev.map((tx, i) => (i === index ? { ...tx, manual_splits: lines } : tx)));
   }
 
   function toggleMatchExpanded(index: number) {
@@ -649,6 +894,9 @@ export function BankImportView() {
   // Only count actionable items (not anomalies)
   const actionableItems = reviewTransactions.filter((tx) => !(tx.bank_status === 'pending' && tx.match_type === 'matched_cleared'));
   const selectedCount = actionableItems.filter((tx) => tx.selected).length;
+  const lockedNewTransactions = newTransactions
+    .filter((tx) => tx.selected && periodGuard.isClosed(tx.date))
+    .sort((a, b) => a.date.localeCompare(b.date));
 
   // Convert reference data to SelectOption arrays for SearchableSelect
   const expenseAccountOptions: SelectOption[] = (referenceData?.expenseAccounts ?? []).map((acc) => ({
@@ -744,16 +992,71 @@ export function BankImportView() {
           </div>
 
           <div className="mb-2">
-            <label className="filter-control__label">Paste Bank Transactions</label>
-            <textarea value={rawBankData} onChange={(e) => setRawBankData(e.target.value)} placeholder="Copy and paste transaction data from Bank of America website..." className="import-textarea" />
+            <label className="filter-control__label">Bank File (CSV, OFX, QFX)</label>
+            <input type="file" accept=".csv,.ofx,.qfx,.txt" onChange={handleFileChange} className="import-file-input" />
             <div className="text-muted text-sm mt-1">
-              Paste the full transaction list. Transactions already in both systems (pending/pending) will be hidden.
+              Download transactions from your bank's website. Transactions already in both systems (pending/pending) will be hidden.
             </div>
           </div>
 
+          {parsedFile && parsedFile.format === 'csv' && (
+            <div className="mb-2">
+              <label className="filter-control__label">Column Layout</label>
+              <select value={csvProfileId} onChange={(e) => setCsvProfileId(e.target.value)} style={{ minWidth: 300 }}>
+                <option value="">Auto-detect{parsedFile.profileId ? ` (${CSV_PROFILES.find((p) => p.id === parsedFile.profileId)?.label})` : ''}</option>
+                {CSV_PROFILES.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </div>
+          )}
+
+          {parsedFile && (
+            <div className="import-file-preview mb-2">
+              <div className="import-file-preview__summary">
+                <strong>{parsedFile.rows.length}</strong> transactions read from {bankFileName}
+                {parsedFile.rows.length > 0 && (
+                  <span className="text-muted"> ({formatLocalDate(parsedFile.rows[0].date)} - {formatLocalDate(parsedFile.rows[parsedFile.rows.length - 1].date)})</span>
+                )}
+                {parsedFile.statementBalance != null && (
+                  <span className="text-muted"> | Statement balance {formatCurrency(parsedFile.statementBalance, 2)}</span>
+                )}
+              </div>
+              {parsedFile.warnings.length > 0 && (
+                <ul className="import-file-preview__warnings">
+                  {parsedFile.warnings.slice(0, 5).map((w, i) => <li key={i}>{w}</li>)}
+                  {parsedFile.warnings.length > 5 && <li>...and {parsedFile.warnings.length - 5} more</li>}
+                </ul>
+              )}
+              {parsedFile.rows.length > 0 && (
+                <table className="table import-file-preview__table">
+                  <thead>
+                    <tr>
+                      <th>Date</th>
+                      <th>Description</th>
+                      <th>Status</th>
+                      <th className="right">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {parsedFile.rows.slice(0, 10).map((row, i) => (
+                      <tr key={i}>
+                        <td>{formatLocalDate(row.date)}</td>
+                        <td>{row.description}</td>
+                        <td>{row.bank_status}</td>
+                        <td className="right">{formatCurrency(row.amount, 2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {parsedFile.rows.length > 10 && (
+                <div className="text-muted text-sm mt-1">Showing first 10 of {parsedFile.rows.length}</div>
+              )}
+            </div>
+          )}
+
           <button
             onClick={handleProcess}
-            disabled={!selectedAccountId || !rawBankData.trim()}
+            disabled={!selectedAccountId || !parsedFile || parsedFile.rows.length === 0}
             className="btn btn-blue"
           >
             Process with AI
@@ -970,14 +1273,23 @@ export function BankImportView() {
                           </div>
                         </div>
                         <div>
-                          <label className="new-tx-form__label">Category</label>
-                          <SearchableSelect
-                            options={tx.amount < 0 ? expenseAccountOptions : incomeAccountOptions}
-                            value={tx.override_account_id ?? tx.suggested_account_id ?? null}
-                            onChange={(val) => updateTransaction(idx, { override_account_id: val ? Number(val) : null })}
-                            placeholder="Type to search..."
-                            emptyLabel="Select..."
-                          />
+                          <label className="new-tx-form__label">
+                            Category
+                            <button type="button" className="btn-link text-sm ml-1" onClick={() => toggleSplit(idx)}>
+                              {tx.manual_splits ? 'Unsplit' : 'Split'}
+                            </button>
+                          </label>
+                          {tx.manual_splits ? (
+                            <div className="text-sm text-muted">Split {tx.manual_splits.length} ways (below)</div>
+                          ) : (
+                            <SearchableSelect
+                              options={tx.amount < 0 ? expenseAccountOptions : incomeAccountOptions}
+                              value={tx.override_account_id ?? tx.suggested_account_id ?? null}
+                              onChange={(val) => updateTransaction(idx, { override_account_id: val ? Number(val) : null })}
+                              placeholder="Type to search..."
+                              emptyLabel="Select..."
+                            />
+                          )}
                         </div>
                         <div>
                           <label className="new-tx-form__label">Job</label>
@@ -987,6 +1299,7 @@ export function BankImportView() {
                             onChange={(val) => updateTransaction(idx, { override_job_id: val ? Number(val) : null })}
                             placeholder="Type to search..."
                             emptyLabel="None"
+                            disabled={tx.manual_splits != null}
                           />
                         </div>
                         <div>
@@ -1003,9 +1316,30 @@ export function BankImportView() {
                           />
                         </div>
                       </div>
+                      {tx.manual_splits && (
+                        <SplitEditor
+                          total={tx.amount}
+                          lines={tx.manual_splits}
+                          onChange={(lines) => updateSplitLines(idx, lines)}
+                          accountOptions={tx.amount < 0 ? expenseAccountOptions : incomeAccountOptions}
+                        />
+                      )}
+                    </div>
+                  )}
+                  {tx.rule_name && (
+                    <div className="ai-note">
+                      <span className="rule-badge">Rule</span> {tx.rule_name}
+                      {tx.rule_splits && ` - split across ${tx.rule_splits.length} accounts`}
                     </div>
                   )}
                   {tx.reasoning && <div className="ai-note">AI: {tx.reasoning}</div>}
+                  {tx.duplicate_matches?.slice(0, 1).map((m) => (
+                    <div key={m.line.line_id} className="ai-note">
+                      <span className="duplicate-badge">Possible duplicate</span>{' '}
+                      {formatLocalDate(m.line.date)} {m.line.description || m.line.vendor_name || '(no description)'}{' '}
+                      {formatCurrency(m.line.amount, 2)} - {m.reason}
+                    </div>
+                  ))}
                 </div>
               ))}
             </div>
@@ -1023,6 +1357,19 @@ export function BankImportView() {
             </div>
           )}
 
+          {lockedNewTransactions.length > 0 && (
+            <ClosedPeriodBanner
+              date={lockedNewTransactions[0].date}
+              closedThrough={periodGuard.closedThrough}
+              onPostToOpenPeriod={postClosedToOpenPeriod ? undefined : () => setPostClosedToOpenPeriod(true)}
+              actionLabel={`Post ${lockedNewTransactions.length} to ${formatLocalDate(periodGuard.minDate)}`}
+            >
+              {postClosedToOpenPeriod
+                ? `${lockedNewTransactions.length} selected new transaction(s) will be posted dated ${formatLocalDate(periodGuard.minDate)}, with the bank date kept in the description.`
+                : `${lockedNewTransactions.length} selected new transaction(s) are dated in a closed period.`}
+            </ClosedPeriodBanner>
+          )}
+
           {actionableItems.length > 0 && (
             <div className="btn-row">
               <button onClick={handleCommit} disabled={selectedCount === 0 || processingState === 'committing'} className="btn btn-success">
@@ -1036,7 +1383,7 @@ export function BankImportView() {
 
           {actionableItems.length === 0 && (
             <div className="mt-2">
-              <button onClick={() => { setReviewTransactions([]); setRawBankData(''); setProcessingState('idle'); clearSavedState(); }} className="btn">
+              <button onClick={() => { setReviewTransactions([]); resetBankFile(); setProcessingState('idle'); clearSavedState(); }} className="btn">
                 Done
               </button>
             </div>
@@ -0,0 +1,326 @@
+// src/components/bank-import/PlaidLedgerUpdates.tsx
+// Bank-side changes to transactions that are already in the ledger:
+// - pending charges that posted (possibly under a new id / different amount)
+// - ledger entries whose Plaid transaction the bank removed (bank_removed_at)
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { formatCurrency } from '../../utils/format';
+import { isBankCode, isCreditCardCode } from '../../utils/accounts';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Posted Plaid transaction already linked to a ledger transaction (sync response) */
+export type PlaidPostedUpdate = {
+  plaid_transaction_id: string;
+  pending_transaction_id: string | null;
+  ledger_transaction_id: number;
+  date: string;
+  amount: number; // Plaid sign: positive = money out
+  pending_amount: number | null;
+  name: string;
+  merchant_name: string | null;
+  ledger_account_id: number | null; // Bank/card account the Plaid account maps to
+};
+
+type PostedRow = PlaidPostedUpdate & {
+  line_id: number;
+  ledger_amount: number; // Book sign
+  description: string | null;
+};
+
+type RemovedRow = {
+  transaction_id: number;
+  date: string;
+  description: string | null;
+  amount: number;
+  removed_at: string;
+};
+
+type RawCashLineRow = {
+  id: number;
+  transaction_id: number;
+  account_id: number;
+  amount: number;
+  is_cleared: boolean;
+  transactions: { description: string | null } | null;
+};
+
+type RawRemovedLineRow = {
+  transaction_id: number;
+  amount: number;
+  bank_removed_at: string;
+  accounts: { code: string | null } | null;
+  transactions: { date: string; description: string | null } | null;
+};
+
+type Props = {
+  posted: PlaidPostedUpdate[];
+  /** Bumped after each sync so flagged entries are reloaded */
+  syncVersion: number;
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function PlaidLedgerUpdates({ posted, syncVersion }: Props) {
+  const [postedRows, setPostedRows] = useState<PostedRow[]>([]);
+  const [removedRows, setRemovedRows] = useState<RemovedRow[]>([]);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Posted updates still needing action: cash line not cleared, or amount changed
+  const loadPosted = useCallback(async () => {
+    const ledgerIds = Array.from(new Set(posted.map((p) => p.ledger_transaction_id)));
+    if (ledgerIds.length === 0) {
+      setPostedRows([]);
+      return;
+    }
+
+    const { data, error: lineErr } = await supabase
+      .from('transaction_lines')
+      .select('id, transaction_id, account_id, amount, is_cleared, transactions (description)')
+      .in('transaction_id', ledgerIds);
+
+    if (lineErr) {
+      setError(lineErr.message);
+      return;
+    }
+
+    const lines = (data ?? []) as unknown as RawCashLineRow[];
+
+    const rows: PostedRow[] = [];
+    for (const update of posted) {
+      // Cash side = the line on the bank/card account this Plaid account maps to
+      const line = lines.find(
+        (l) => l.transaction_id === update.ledger_transaction_id && l.account_id === update.ledger_account_id
+      );
+      if (!line) continue;
+      const ledgerAmount = Number(line.amount);
+      const sameAmount = Math.abs(Math.abs(ledgerAmount) - Math.abs(update.amount)) < 0.005;
+      if (line.is_cleared && sameAmount) continue;
+      rows.push({
+        ...update,
+        line_id: line.id,
+        ledger_amount: ledgerAmount,
+        description: line.transactions?.description ?? null,
+      });
+    }
+    setPostedRows(rows);
+  }, [posted]);
+
+  // Ledger entries flagged because the bank removed their source transaction
+  const loadRemoved = useCallback(async () => {
+    const { data, error: lineErr } = await supabase
+      .from('transaction_lines')
+      .select('transaction_id, amount, bank_removed_at, accounts (code), transactions!inner (date, description)')
+      .not('bank_removed_at', 'is', null)
+      .limit(500);
+
+    if (lineErr) {
+      setError(lineErr.message);
+      return;
+    }
+
+    const byTx = new Map<number, RemovedRow>();
+    for (const line of (data ?? []) as unknown as RawRemovedLineRow[]) {
+      const existing = byTx.get(line.transaction_id);
+      // Show the cash side (bank/card) amount when present
+      const isCashSide = isBankCode(line.accounts?.code) || isCreditCardCode(line.accounts?.code);
+      if (existing && !isCashSide) continue;
+      byTx.set(line.transaction_id, {
+        transaction_id: line.transaction_id,
+        date: line.transactions?.date ?? '',
+        description: line.transactions?.description ?? null,
+        amount: Number(line.amount),
+        removed_at: line.bank_removed_at,
+      });
+    }
+    setRemovedRows(Array.from(byTx.values()).sort((a, b) => b.date.localeCompare(a.date)));
+  }, []);
+
+  useEffect(() => {
+    loadPosted();
+  }, [loadPosted]);
+
+  useEffect(() => {
+    loadRemoved();
+  }, [loadRemoved, syncVersion]);
+
+  // Clear the existing entry at the posted amount/date and repoint it at the posted id
+  async function applyPosted(row: PostedRow) {
+    setBusyKey(row.plaid_transaction_id);
+    setError(null);
+    try {
+      const bookAmount = -row.amount; // Plaid positive = money out
+
+      const { error: rpcErr } = await supabase.rpc('mark_transaction_cleared', {
+        p_transaction_id: row.ledger_transaction_id,
+        p_clicked_line_id: row.line_id,
+        p_new_amount: bookAmount,
+        p_new_date: row.date,
+        p_new_description: null,
+      });
+      if (rpcErr) throw rpcErr;
+
+      const { error: txErr } = await supabase
+        .from('transactions')
+        .update({ plaid_transaction_id: row.plaid_transaction_id, bank_date: row.date })
+        .eq('id', row.ledger_transaction_id);
+      if (txErr) throw txErr;
+
+      setPostedRows((prev) => prev.filter((r) => r.plaid_transaction_id !== row.plaid_transaction_id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to update ledger entry');
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  async function keepRemoved(row: RemovedRow) {
+    setBusyKey(`removed-${row.transaction_id}`);
+    setError(null);
+    try {
+      const { error: flagErr } = await supabase
+        .from('transaction_lines')
+        .update({ bank_removed_at: null })
+        .eq('transaction_id', row.transaction_id);
+      if (flagErr) throw flagErr;
+      setRemovedRows((prev) => prev.filter((r) => r.transaction_id !== row.transaction_id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to clear flag');
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  async function deleteRemoved(row: RemovedRow) {
+    if (!confirm(`Delete "${row.description ?? 'transaction'}" from the ledger?`)) return;
+
+    setBusyKey(`removed-${row.transaction_id}`);
+    setError(null);
+    try {
+      const { error: linesErr } = await supabase
+        .from('transaction_lines')
+        .delete()
+        .eq('transaction_id', row.transaction_id);
+      if (linesErr) throw linesErr;
+
+      const { error: txErr } = await supabase.from('transactions').delete().eq('id', row.transaction_id);
+      if (txErr) throw txErr;
+
+      setRemovedRows((prev) => prev.filter((r) => r.transaction_id !== row.transaction_id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to delete transaction');
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  if (postedRows.length === 0 && removedRows.length === 0 && !error) return null;
+
+  return (
+    <>
+      {error && <div className="alert alert--error">{error}</div>}
+
+      {postedRows.length > 0 && (
+        <div className="section-panel">
+          <h3 className="section-panel__title">Posted Since Last Sync</h3>
+          <p className="text-muted">
+            These were already entered from a pending bank charge. Applying clears the ledger entry at the
+            posted amount instead of importing it again.
+          </p>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Posted</th>
+                <th>Description</th>
+                <th className="text-right">Ledger</th>
+                <th className="text-right">Bank</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {postedRows.map((row) => {
+                const bookAmount = -row.amount;
+                const changed = Math.abs(Math.abs(row.ledger_amount) - Math.abs(bookAmount)) >= 0.005;
+                return (
+                  <tr key={row.plaid_transaction_id}>
+                    <td>{row.date}</td>
+                    <td>{row.description ?? row.merchant_name ?? row.name}</td>
+                    <td className="text-right">{formatCurrency(row.ledger_amount, 2)}</td>
+                    <td className="text-right">
+                      {formatCurrency(bookAmount, 2)}
+                      {changed && <span className="badge badge-info ml-1">Changed</span>}
+                    </td>
+                    <td>
+                      <button
+                        className="btn btn-blue btn-sm"
+                        onClick={() => applyPosted(row)}
+                        disabled={busyKey !== null}
+                      >
+                        {busyKey === row.plaid_transaction_id ? 'Applying...' : changed ? 'Update & Clear' : 'Mark Cleared'}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {removedRows.length > 0 && (
+        <div className="section-panel">
+          <h3 className="section-panel__title">Removed by Bank</h3>
+          <p className="text-muted">
+            The bank dropped the transaction these ledger entries were imported from. Keep the entry if it is
+            still valid, otherwise delete it.
+          </p>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Description</th>
+                <th className="text-right">Amount</th>
+                <th>Flagged</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {removedRows.map((row) => (
+                <tr key={row.transaction_id}>
+                  <td>{row.date}</td>
+                  <td>{row.description}</td>
+                  <td className="text-right">{formatCurrency(row.amount, 2)}</td>
+                  <td>{new Date(row.removed_at).toLocaleDateString()}</td>
+                  <td>
+                    <div className="btn-row">
+                      <button
+                        className="btn btn-sm"
+                        onClick={() => keepRemoved(row)}
+                        disabled={busyKey !== null}
+                      >
+                        Keep
+                      </button>
+                      <button
+                        className="btn btn-danger btn-sm"
+                        onClick={() => deleteRemoved(row)}
+                        disabled={busyKey !== null}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,14 +1,47 @@
 import { useState, useCallback, useEffect } from 'react';
 import { usePlaidLink } from 'react-plaid-link';
 import { supabase } from '../../lib/supabaseClient';
+import { isBankCode, isCreditCardCode } from '../../utils/accounts';
 import { PlaidTransactionReview } from './PlaidTransactionReview';
+import { PlaidLedgerUpdates, type PlaidPostedUpdate } from './PlaidLedgerUpdates';
 
 // Types
 type PlaidItem = {
   id: string;
   institution_name: string;
+  status: 'active' | 'login_required' | 'error';
+  error_code: string | null;
   created_at: string;
   updated_at: string;
+  last_synced_at: string | null;
+};
+
+// Plaid sub-account and the ledger account (1000-2999) it posts to
+type PlaidAccount = {
+  id: number;
+  plaid_item_id: string;
+  plaid_account_id: string;
+  name: string;
+  official_name: string | null;
+  mask: string | null;
+  type: string | null;
+  subtype: string | null;
+  ledger_account_id: number | null;
+  is_active: boolean;
+};
+
+type LedgerAccount = {
+  id: number;
+  code: string;
+  name: string;
+};
+
+// Per-item outcome from plaid-sync-transactions
+type ItemSyncSummary = {
+  plaid_item_id: string;
+  institution_name: string;
+  error_code: string | null;
+  error: string | null;
 };
 
 type PlaidTransaction = {
@@ -19,7 +52,11 @@ type PlaidTransaction = {
   merchant_name: string | null;
   category: string[];
   pending: boolean;
+  pending_transaction_id: string | null;
   account_id: string;
+  plaid_item_id: string;
+  account_name: string;
+  ledger_account_id: number | null;
 };
 
 // Plaid Link metadata type (minimal shape based on usage)
@@ -41,17 +78,22 @@ type PlaidLinkMetadata = {
 export function PlaidLinkView() {
   const [linkToken, setLinkToken] = useState<string | null>(null);
   const [plaidItems, setPlaidItems] = useState<PlaidItem[]>([]);
+  const [plaidAccounts, setPlaidAccounts] = useState<PlaidAccount[]>([]);
+  const [ledgerAccounts, setLedgerAccounts] = useState<LedgerAccount[]>([]);
+  const [relinkItemId, setRelinkItemId] = useState<string | null>(null);
   const [transactions, setTransactions] = useState<PlaidTransaction[]>([]);
+  const [postedUpdates, setPostedUpdates] = useState<PlaidPostedUpdate[]>([]);
+  const [syncVersion, setSyncVersion] = useState(0);
   const [loading, setLoading] = useState(false);
   const [syncing, setSyncing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
-  // Fetch existing Plaid connections
+  // Fetch existing Plaid connections and their sub-accounts
   const fetchPlaidItems = useCallback(async () => {
     const { data, error } = await supabase
       .from('plaid_items')
-      .select('id, institution_name, created_at, updated_at')
+      .select('id, institution_name, status, error_code, created_at, updated_at, last_synced_at')
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -59,16 +101,52 @@ export function PlaidLinkView() {
     } else {
       setPlaidItems(data || []);
     }
+
+    const { data: accountData, error: accountError } = await supabase
+      .from('plaid_accounts')
+      .select('id, plaid_item_id, plaid_account_id, name, official_name, mask, type, subtype, ledger_account_id, is_active')
+      .order('name');
+
+    if (accountError) {
+      console.error('Error fetching plaid accounts:', accountError);
+    } else {
+      setPlaidAccounts((accountData ?? []) as PlaidAccount[]);
+    }
   }, []);
 
   useEffect(() => {
     fetchPlaidItems();
   }, [fetchPlaidItems]);
 
-  // Get link token for Plaid Link
-  const createLinkToken = async () => {
+  // Bank (1000-1999) and credit card (2000-2999) accounts Plaid accounts can post to
+  useEffect(() => {
+    const loadLedgerAccounts = async () => {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('id, code, name')
+        .eq('is_active', true)
+        .order('code');
+
+      if (error) {
+        console.error('Error fetching accounts:', error);
+        return;
+      }
+
+      setLedgerAccounts(
+        ((data ?? []) as { id: number; code: string | null; name: string }[])
+          .filter((a) => isBankCode(a.code) || isCreditCardCode(a.code))
+          .map((a) => ({ id: a.id, code: a.code!, name: a.name }))
+      );
+    };
+
+    loadLedgerAccounts();
+  }, []);
+
+  // Get link token for Plaid Link (pass an item id to re-link it in update mode)
+  const createLinkToken = async (plaidItemId?: string) => {
     setLoading(true);
     setError(null);
+    setRelinkItemId(plaidItemId ?? null);
 
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -85,6 +163,7 @@ export function PlaidLinkView() {
             Authorization: `Bearer ${session.access_token}`,
             'Content-Type': 'application/json',
           },
+          body: JSON.stringify(plaidItemId ? { plaid_item_id: plaidItemId } : {}),
         }
       );
 
@@ -123,10 +202,15 @@ export function PlaidLinkView() {
               Authorization: `Bearer ${session.access_token}`,
               'Content-Type': 'application/json',
             },
-            body: JSON.stringify({
-              public_token: publicToken,
-              institution_name: metadata.institution?.name || 'Unknown',
-            }),
+            body: JSON.stringify(
+              relinkItemId
+                ? { plaid_item_id: relinkItemId }
+                : {
+                    public_token: publicToken,
+                    institution_name: metadata.institution?.name || 'Unknown',
+                    institution_id: metadata.institution?.institution_id,
+                  }
+            ),
           }
         );
 
@@ -135,8 +219,13 @@ export function PlaidLinkView() {
         if (data.error) {
           setError(data.error);
         } else {
-          setSuccessMessage('Bank account connected successfully!');
+          setSuccessMessage(
+            relinkItemId
+              ? 'Bank re-linked. Sync to catch up on transactions.'
+              : 'Bank connected. Map each account to a ledger account before importing.'
+          );
           setLinkToken(null);
+          setRelinkItemId(null);
           fetchPlaidItems();
         }
       } catch (err: unknown) {
@@ -145,7 +234,7 @@ export function PlaidLinkView() {
         setLoading(false);
       }
     },
-    [fetchPlaidItems]
+    [fetchPlaidItems, relinkItemId]
   );
 
   // Plaid Link hook
@@ -154,6 +243,7 @@ export function PlaidLinkView() {
     onSuccess,
     onExit: () => {
       setLinkToken(null);
+      setRelinkItemId(null);
     },
   });
 
@@ -194,7 +284,19 @@ export function PlaidLinkView() {
         setError(data.error);
       } else {
         setTransactions(data.transactions || []);
-        setSuccessMessage(`Synced ${data.count} transactions`);
+        setPostedUpdates(data.posted || []);
+        setSyncVersion((v) => v + 1);
+
+        const parts = [`${data.count} to review`];
+        if (data.posted?.length) parts.push(`${data.posted.length} posted`);
+        if (data.removed?.length) parts.push(`${data.removed.length} removed by bank`);
+        setSuccessMessage(`Synced: ${parts.join(', ')}`);
+
+        const failed = ((data.items ?? []) as ItemSyncSummary[]).filter((item) => item.error_code);
+        if (failed.length > 0) {
+          setError(failed.map((item) => `${item.institution_name}: ${item.error}`).join(' | '));
+        }
+        fetchPlaidItems();
       }
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : 'Failed to sync transactions');
@@ -203,6 +305,30 @@ export function PlaidLinkView() {
     }
   };
 
+  // Map a Plaid sub-account to a ledger account
+  const updateAccountMapping = async (accountId: number, ledgerAccountId: number | null) => {
+    setError(null);
+
+    const { error } = await supabase
+      .from('plaid_accounts')
+      .update({ ledger_account_id: ledgerAccountId, updated_at: new Date().toISOString() })
+      .eq('id', accountId);
+
+    if (error) {
+      setError(error.message);
+      return;
+    }
+
+    setPlaidAccounts((prev) =>
+      prev.map((a) => (a.id === accountId ? { ...a, ledger_account_id: ledgerAccountId } : a))
+    );
+    // Rows already in the review queue pick up the new mapping
+    const plaidAccountId = plaidAccounts.find((a) => a.id === accountId)?.plaid_account_id;
+    setTransactions((prev) =>
+      prev.map((tx) => (tx.account_id === plaidAccountId ? { ...tx, ledger_account_id: ledgerAccountId } : tx))
+    );
+  };
+
   // Delete a Plaid connection
   const deletePlaidItem = async (id: string) => {
     if (!confirm('Disconnect this bank account?')) return;
@@ -214,6 +340,7 @@ export function PlaidLinkView() {
     } else {
       fetchPlaidItems();
       setTransactions([]);
+      setPostedUpdates([]);
     }
   };
 
@@ -229,9 +356,9 @@ export function PlaidLinkView() {
         <div className="alert alert--success">{successMessage}</div>
       )}
 
-      {/* Connected Accounts */}
+      {/* Connected Institutions */}
       <div className="section-panel">
-        <h3 className="section-panel__title">Connected Accounts</h3>
+        <h3 className="section-panel__title">Connected Banks</h3>
 
         {plaidItems.length === 0 ? (
           <p className="text-muted">No bank accounts connected</p>
@@ -240,6 +367,7 @@ export function PlaidLinkView() {
             <thead>
               <tr>
                 <th>Institution</th>
+                <th>Status</th>
                 <th>Connected</th>
                 <th>Last Sync</th>
                 <th>Actions</th>
@@ -249,15 +377,34 @@ export function PlaidLinkView() {
               {plaidItems.map((item) => (
                 <tr key={item.id}>
                   <td>{item.institution_name}</td>
+                  <td>
+                    {item.status === 'active' ? (
+                      <span className="badge badge-success">Active</span>
+                    ) : (
+                      <span className="badge badge-danger" title={item.error_code ?? undefined}>
+                        {item.status === 'login_required' ? 'Login expired' : 'Error'}
+                      </span>
+                    )}
+                  </td>
                   <td>{new Date(item.created_at).toLocaleDateString()}</td>
-                  <td>{new Date(item.updated_at).toLocaleString()}</td>
+                  <td>{item.last_synced_at ? new Date(item.last_synced_at).toLocaleString() : 'Never'}</td>
                   <td>
-                    <button
-                      className="btn btn-danger btn-sm"
-                      onClick={() => deletePlaidItem(item.id)}
-                    >
-                      Disconnect
-                    </button>
+                    <div className="btn-row">
+                      <button
+                        className={item.status === 'active' ? 'btn btn-sm' : 'btn btn-blue btn-sm'}
+                        onClick={() => createLinkToken(item.id)}
+                        disabled={loading}
+                        title="Re-enter credentials or add accounts at this bank"
+                      >
+                        Re-link
+                      </button>
+                      <button
+                        className="btn btn-danger btn-sm"
+                        onClick={() => deletePlaidItem(item.id)}
+                      >
+                        Disconnect
+                      </button>
+                    </div>
                   </td>
                 </tr>
               ))}
@@ -268,7 +415,7 @@ export function PlaidLinkView() {
         <div className="btn-row">
           <button
             className="btn btn-blue"
-            onClick={createLinkToken}
+            onClick={() => createLinkToken()}
             disabled={loading}
           >
             {loading ? 'Loading...' : '+ Connect Bank Account'}
@@ -286,6 +433,56 @@ export function PlaidLinkView() {
         </div>
       </div>
 
+      {/* Sub-account -> ledger account mapping */}
+      {plaidAccounts.length > 0 && (
+        <div className="section-panel">
+          <h3 className="section-panel__title">Account Mapping</h3>
+          <p className="text-muted">
+            Choose the ledger account each bank account posts to. Transactions from unmapped accounts wait in the
+            review queue.
+          </p>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Institution</th>
+                <th>Account</th>
+                <th>Type</th>
+                <th>Ledger Account</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plaidAccounts.map((account) => (
+                <tr key={account.id} className={account.is_active ? undefined : 'text-muted'}>
+                  <td>{plaidItems.find((item) => item.id === account.plaid_item_id)?.institution_name ?? ''}</td>
+                  <td>
+                    {account.official_name || account.name}
+                    {account.mask && ` ..${account.mask}`}
+                    {!account.is_active && <span className="badge badge-neutral ml-1">Closed</span>}
+                  </td>
+                  <td>{account.subtype ?? account.type}</td>
+                  <td>
+                    <select
+                      value={account.ledger_account_id ?? ''}
+                      onChange={(e) => updateAccountMapping(account.id, e.target.value ? Number(e.target.value) : null)}
+                    >
+                      <option value="">-- Not mapped --</option>
+                      {ledgerAccounts.map((a) => (
+                        <option key={a.id} value={a.id}>
+                          {a.code} - {a.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Changes to entries already in the ledger */}
+      <PlaidLedgerUpdates posted={postedUpdates} syncVersion={syncVersion} />
+
       {/* Transaction Review */}
       {transactions.length > 0 && (
         <div className="section-panel">
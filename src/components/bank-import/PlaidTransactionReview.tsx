@@ -1,5 +1,39 @@
-import { useState, useEffect, useCallback } from 'react';
+import { Fragment, useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '../../lib/supabaseClient';
+import {
+  CATEGORIZATION_RULE_SELECT,
+  allocateSplits,
+  normalizeRule,
+  suggestFromRules,
+  type CategorizationRule,
+  type RulePurpose,
+  type RuleSplit,
+} from '../../utils/categorizationRules';
+import {
+  DUPLICATE_LINE_SELECT,
+  duplicateSearchRange,
+  findDuplicates,
+  normalizeDuplicateLine,
+  type DuplicateCandidate,
+  type DuplicateMatch,
+  type RawDuplicateLine,
+} from '../../utils/duplicateDetection';
+import { formatLocalDate } from '../../utils/date';
+import {
+  initialSplitLines,
+  splitLinesFromRule,
+  splitLinesToLegs,
+  validateSplitLines,
+  type SplitLine,
+} from '../../utils/splitTransactions';
+import { applyMixedAllocations, importLinePurpose, type MixedAllocationMap } from '../../utils/mixedAllocation';
+import { buildIntercompanyLines, type EntityContext } from '../../utils/entities';
+import { ClosedPeriodBanner } from '../shared/ClosedPeriodBanner';
+import { loadMixedAllocations } from '../shared/mixedAllocations';
+import { loadEntityContext } from '../shared/entityContext';
+import { SplitEditor } from '../shared/SplitEditor';
+import type { SelectOption } from '../shared/SearchableSelect';
+import { useClosedPeriod } from '../shared/closedPeriod';
 
 // Types
 type PlaidTransaction = {
@@ -10,7 +44,10 @@ type PlaidTransaction = {
   merchant_name: string | null;
   category: string[];
   pending: boolean;
+  pending_transaction_id: string | null;
   account_id: string;
+  account_name: string;
+  ledger_account_id: number | null; // Bank/card account this Plaid account is mapped to
 };
 
 type Vendor = {
@@ -41,6 +78,11 @@ type TransactionAssignment = {
   vendor_id: number | null;
   account_id: number | null;
   job_id: number | null;
+  purpose: RulePurpose;
+  splits: RuleSplit[] | null;
+  // Hand-entered split (replaces account/job/vendor on the category side)
+  manual_splits: SplitLine[] | null;
+  rule_name: string | null;
   description: string;
   selected: boolean;
 };
@@ -60,6 +102,12 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successCount, setSuccessCount] = useState(0);
+  const [dismissedIds, setDismissedIds] = useState<Set<string>>(new Set());
+  // Existing ledger entries each checked row looks like (absent = not checked yet)
+  const [duplicateMatches, setDuplicateMatches] = useState<Map<string, DuplicateMatch[]>>(new Map());
+  // Rows dated in a closed period post on the first open date once the user opts in
+  const periodGuard = useClosedPeriod();
+  const [postClosedToOpenPeriod, setPostClosedToOpenPeriod] = useState(false);
 
   // Load reference data
   useEffect(() => {
@@ -92,6 +140,13 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
         .from('merchant_mappings')
         .select('merchant_name, vendor_id, default_account_id, default_job_id');
 
+      // Load categorization rules (evaluated before exact merchant mappings)
+      const { data: ruleData, error: ruleError } = await supabase
+        .from('categorization_rules')
+        .select(CATEGORIZATION_RULE_SELECT);
+      if (ruleError) throw ruleError;
+      const rules = ((ruleData ?? []) as unknown as CategorizationRule[]).map(normalizeRule);
+
       setVendors(vendorData || []);
       setAccounts(accountData || []);
       setJobs(jobData || []);
@@ -103,19 +158,29 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
       });
       setMappings(mappingMap);
 
-      // Initialize assignments with mappings applied
+      // Initialize assignments: first matching rule, else exact merchant mapping
       const initialAssignments = new Map<string, TransactionAssignment>();
       transactions.forEach((tx) => {
         const merchantKey = (tx.merchant_name || tx.name).toLowerCase();
         const existing = mappingMap.get(merchantKey);
+        const rule = suggestFromRules(rules, {
+          description: `${tx.merchant_name ?? ''} ${tx.name}`.trim(),
+          amount: -tx.amount, // Plaid positive = money out
+          date: tx.date,
+          accountId: tx.ledger_account_id,
+        });
 
         initialAssignments.set(tx.plaid_transaction_id, {
           plaid_transaction_id: tx.plaid_transaction_id,
-          vendor_id: existing?.vendor_id || null,
-          account_id: existing?.default_account_id || null,
-          job_id: existing?.default_job_id || null,
+          vendor_id: rule?.vendorId ?? existing?.vendor_id ?? null,
+          account_id: rule?.accountId ?? existing?.default_account_id ?? null,
+          job_id: rule?.jobId ?? existing?.default_job_id ?? null,
+          purpose: rule?.purpose ?? 'business',
+          splits: rule?.splits ?? null,
+          manual_splits: null,
+          rule_name: rule?.ruleName ?? null,
           description: tx.merchant_name || tx.name,
-          selected: true,
+          selected: tx.ledger_account_id != null, // Unmapped accounts cannot post yet
         });
       });
       setAssignments(initialAssignments);
@@ -123,7 +188,10 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
       setLoading(false);
     };
 
-    loadData();
+    loadData().catch((err: unknown) => {
+      setError(err instanceof Error ? err.message : 'Failed to load categorization rules');
+      setLoading(false);
+    });
   }, [transactions]);
 
   // Update assignment
@@ -133,7 +201,9 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
         const next = new Map(prev);
         const current = next.get(txId);
         if (current) {
-          next.set(txId, { ...current, [field]: value });
+          // Picking an account by hand replaces a rule's split
+          const splits = field === 'account_id' ? null : current.splits;
+          next.set(txId, { ...current, splits, [field]: value });
         }
         return next;
       });
@@ -141,6 +211,45 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
     []
   );
 
+  // Turn the split editor on (seeded from a rule split or the current account) or off
+  const toggleSplit = useCallback((tx: PlaidTransaction) => {
+    setAssignments((prev) => {
+      const next = new Map(prev);
+      const current = next.get(tx.plaid_transaction_id);
+      if (!current) return prev;
+      if (current.manual_splits) {
+        next.set(tx.plaid_transaction_id, { ...current, manual_splits: null });
+        return next;
+      }
+      const amount = Math.abs(tx.amount);
+      const defaults = {
+        accountId: current.account_id,
+        jobId: current.job_id,
+        vendorId: current.vendor_id,
+        purpose: current.purpose,
+      };
+      const manualSplits = current.splits
+        ? splitLinesFromRule(amount, current.splits, defaults)
+        : initialSplitLines(amount, defaults);
+      next.set(tx.plaid_transaction_id, { ...current, splits: null, manual_splits: manualSplits });
+      return next;
+    });
+  }, []);
+
+  const updateSplitLines = useCallback((txId: string, lines: SplitLine[]) => {
+    setAssignments((prev) => {
+      const next = new Map(prev);
+      const current = next.get(txId);
+      if (current) next.set(txId, { ...current, manual_splits: lines });
+      return next;
+    });
+  }, []);
+
+  const accountOptions: SelectOption[] = useMemo(
+    () => accounts.map((a) => ({ value: a.id, label: `${a.code} - ${a.name}` })),
+    [accounts]
+  );
+
   // Toggle selection
   const toggleSelect = useCallback((txId: string) => {
     setAssignments((prev) => {
@@ -153,25 +262,73 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
     });
   }, []);
 
-  // Select all / none
+  // Rows still on screen (not dismissed)
+  const visibleTransactions = useMemo(
+    () => transactions.filter((tx) => !dismissedIds.has(tx.plaid_transaction_id)),
+    [transactions, dismissedIds]
+  );
+  const selectableIds = useMemo(
+    () => new Set(visibleTransactions.filter((tx) => tx.ledger_account_id != null).map((tx) => tx.plaid_transaction_id)),
+    [visibleTransactions]
+  );
+
+  // Select all / none (mapped accounts only)
   const toggleSelectAll = useCallback(() => {
-    const allSelected = Array.from(assignments.values()).every((a) => a.selected);
+    const allSelected = Array.from(assignments.values())
+      .filter((a) => selectableIds.has(a.plaid_transaction_id))
+      .every((a) => a.selected);
     setAssignments((prev) => {
       const next = new Map(prev);
       next.forEach((v, k) => {
-        next.set(k, { ...v, selected: !allSelected });
+        next.set(k, { ...v, selected: !allSelected && selectableIds.has(k) });
       });
       return next;
     });
-  }, [assignments]);
+  }, [assignments, selectableIds]);
+
+  // Take unchecked rows out of the staging queue without importing them
+  const dismissUnchecked = async () => {
+    const ids = visibleTransactions
+      .filter((tx) => !assignments.get(tx.plaid_transaction_id)?.selected)
+      .map((tx) => tx.plaid_transaction_id);
+    if (ids.length === 0) return;
+    if (!confirm(`Dismiss ${ids.length} unchecked transaction(s)? They will not be offered for import again.`)) return;
+
+    const { error: dismissError } = await supabase
+      .from('plaid_transactions')
+      .update({ dismissed_at: new Date().toISOString() })
+      .in('transaction_id', ids);
+
+    if (dismissError) {
+      setError(dismissError.message);
+      return;
+    }
+
+    setDismissedIds((prev) => new Set([...prev, ...ids]));
+  };
+
+  // Existing cash lines per candidate (same order as candidates)
+  const findLedgerDuplicates = async (candidates: DuplicateCandidate[]): Promise<DuplicateMatch[][]> => {
+    const range = duplicateSearchRange(candidates);
+    if (!range) return [];
+    const { data, error: dupError } = await supabase
+      .from('transaction_lines')
+      .select(DUPLICATE_LINE_SELECT)
+      .in('account_id', range.accountIds)
+      .gte('transactions.date', range.from)
+      .lte('transactions.date', range.to);
+    if (dupError) throw dupError;
+    const lines = ((data ?? []) as unknown as RawDuplicateLine[]).map(normalizeDuplicateLine);
+    return candidates.map((c) => findDuplicates(c, lines));
+  };
 
   // Submit approved transactions
   const submitApproved = async () => {
     setSubmitting(true);
     setError(null);
 
-    const selected = transactions.filter(
-      (tx) => assignments.get(tx.plaid_transaction_id)?.selected
+    const selected = visibleTransactions.filter(
+      (tx) => assignments.get(tx.plaid_transaction_id)?.selected && tx.ledger_account_id != null
     );
 
     if (selected.length === 0) {
@@ -180,6 +337,77 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
       return;
     }
 
+    const lockedCount = selected.filter((tx) => periodGuard.isClosed(tx.date)).length;
+    if (lockedCount > 0 && !postClosedToOpenPeriod) {
+      setError(`${lockedCount} selected transaction(s) are dated in a closed period. Post them to the first open period or uncheck them.`);
+      setSubmitting(false);
+      return;
+    }
+
+    for (const tx of selected) {
+      const splitLines = assignments.get(tx.plaid_transaction_id)?.manual_splits;
+      const splitError = splitLines ? validateSplitLines(tx.amount, splitLines) : null;
+      if (splitError) {
+        setError(`${tx.merchant_name || tx.name}: ${splitError}`);
+        setSubmitting(false);
+        return;
+      }
+    }
+
+    // Flag rows that look like existing ledger entries (e.g. entered by hand)
+    // before creating anything. Flagged rows are unchecked once; re-checking
+    // them imports them anyway.
+    const unchecked = selected.filter((tx) => !duplicateMatches.has(tx.plaid_transaction_id));
+    if (unchecked.length > 0) {
+      try {
+        const found = await findLedgerDuplicates(
+          unchecked.map((tx) => ({
+            accountId: tx.ledger_account_id!,
+            date: tx.date,
+            amount: -tx.amount, // Plaid positive = money out
+            description: tx.merchant_name || tx.name,
+            vendorId: assignments.get(tx.plaid_transaction_id)?.vendor_id ?? null,
+          }))
+        );
+
+        const flaggedIds = new Set<string>();
+        setDuplicateMatches((prev) => {
+          const next = new Map(prev);
+          unchecked.forEach((tx, i) => next.set(tx.plaid_transaction_id, found[i]));
+          return next;
+        });
+        unchecked.forEach((tx, i) => {
+          if (found[i].length > 0) flaggedIds.add(tx.plaid_transaction_id);
+        });
+
+        if (flaggedIds.size > 0) {
+          setAssignments((prev) => {
+            const next = new Map(prev);
+            flaggedIds.forEach((id) => {
+              const current = next.get(id);
+              if (current) next.set(id, { ...current, selected: false });
+            });
+            return next;
+          });
+          setError(`${flaggedIds.size} selected transaction(s) look like entries already in the ledger and were unchecked. Check them again to import anyway.`);
+          setSubmitting(false);
+          return;
+        }
+      } catch (err: unknown) {
+        console.warn('Duplicate check failed:', err);
+      }
+    }
+
+    let mixedAllocations: MixedAllocationMap;
+    let entityContext: EntityContext;
+    try {
+      [mixedAllocations, entityContext] = await Promise.all([loadMixedAllocations(), loadEntityContext()]);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load posting settings');
+      setSubmitting(false);
+      return;
+    }
+
     let successCount = 0;
 
     for (const tx of selected) {
@@ -187,7 +415,8 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
       if (!assignment) continue;
 
       // Validate required fields
-      if (!assignment.account_id) {
+      const cashAccountId = tx.ledger_account_id;
+      if ((!assignment.account_id && !assignment.manual_splits) || !cashAccountId) {
         continue; // Skip transactions without account
       }
 
@@ -197,11 +426,52 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
         const amount = Math.abs(tx.amount);
         const isExpense = tx.amount > 0;
 
-        // Create transaction with bank tracking fields
+        // Create transaction lines (double-entry)
+        // vendor/job/installer only on category line(s), not cash line
+        // A rule split fans the category side out across several accounts;
+        // a hand-entered split carries its own job/vendor/purpose per line
+        const legs = assignment.manual_splits
+          ? splitLinesToLegs(assignment.manual_splits)
+          : (assignment.splits
+              ? allocateSplits(amount, assignment.splits)
+              : [{ account_id: assignment.account_id!, amount, job_id: null, purpose: null }]
+            ).map((leg) => ({
+              account_id: leg.account_id,
+              amount: leg.amount,
+              job_id: leg.job_id ?? assignment.job_id,
+              vendor_id: assignment.vendor_id,
+              purpose: importLinePurpose(leg.account_id, leg.purpose, assignment.purpose, mixedAllocations),
+            }));
+        const categoryLines = legs.map((leg) => ({
+          account_id: leg.account_id,
+          amount: isExpense ? leg.amount : -leg.amount,
+          job_id: leg.job_id,
+          vendor_id: leg.vendor_id,
+          purpose: leg.purpose,
+          is_cleared: !tx.pending,
+        }));
+        const cashLine = {
+          account_id: cashAccountId, // Ledger account mapped to this Plaid account
+          amount: isExpense ? -amount : amount,
+          purpose: assignment.purpose,
+          is_cleared: !tx.pending,
+        };
+
+        // Mixed-purpose accounts post one line per allocation leg; lines
+        // across entities get due to/due from lines (throws before anything
+        // is written when an intercompany account is missing)
+        const postingLines = applyMixedAllocations(
+          isExpense ? [...categoryLines, cashLine] : [cashLine, ...categoryLines],
+          mixedAllocations
+        );
+        const lines = [...postingLines, ...buildIntercompanyLines(postingLines, entityContext)];
+
+        // Create transaction with bank tracking fields; bank_date keeps the
+        // original date when a closed period moves the posting date
         const { data: txData, error: txError } = await supabase
           .from('transactions')
           .insert({
-            date: tx.date,
+            date: periodGuard.postingDate(tx.date),
             description: assignment.description,
             bank_description: tx.name,
             plaid_transaction_id: tx.plaid_transaction_id,
@@ -212,35 +482,20 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
 
         if (txError) throw txError;
 
-        // Create transaction lines (double-entry)
-        // vendor/job/installer only on category line, not cash line
-        const categoryLine = {
-          transaction_id: txData.id,
-          account_id: assignment.account_id,
-          amount: isExpense ? amount : -amount,
-          job_id: assignment.job_id,
-          vendor_id: assignment.vendor_id,
-          purpose: 'business',
-          is_cleared: !tx.pending,
-        };
-        const cashLine = {
-          transaction_id: txData.id,
-          account_id: 1, // Account 1 = Checking
-          amount: isExpense ? -amount : amount,
-          purpose: 'business',
-          is_cleared: !tx.pending,
-        };
-
-        const lines = isExpense
-          ? [categoryLine, cashLine]
-          : [cashLine, categoryLine];
-
         const { error: lineError } = await supabase
           .from('transaction_lines')
-          .insert(lines);
+          .insert(lines.map((line) => ({ ...line, transaction_id: txData.id })));
 
         if (lineError) throw lineError;
 
+        // Link the staged Plaid row so a later post/removal finds this entry
+        const { error: stagingError } = await supabase
+          .from('plaid_transactions')
+          .update({ ledger_transaction_id: txData.id })
+          .eq('transaction_id', tx.plaid_transaction_id);
+
+        if (stagingError) console.warn('Staging link failed:', stagingError);
+
         // Save merchant mapping for future
         const merchantName = tx.merchant_name || tx.name;
         const { error: mappingError } = await supabase.from('merchant_mappings').upsert(
@@ -324,17 +579,27 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
     return <div style={containerStyle}>Loading...</div>;
   }
 
-  const selectedCount = Array.from(assignments.values()).filter((a) => a.selected).length;
-  const allSelected = selectedCount === transactions.length;
+  const selectedCount = visibleTransactions.filter((tx) => assignments.get(tx.plaid_transaction_id)?.selected).length;
+  const allSelected = selectableIds.size > 0 && selectedCount === selectableIds.size;
+  const lockedSelected = visibleTransactions
+    .filter((tx) => assignments.get(tx.plaid_transaction_id)?.selected && periodGuard.isClosed(tx.date))
+    .sort((a, b) => a.date.localeCompare(b.date));
 
   return (
     <div style={containerStyle}>
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
-        <h3 style={{ margin: 0 }}>Review Transactions ({transactions.length})</h3>
+        <h3 style={{ margin: 0 }}>Review Transactions ({visibleTransactions.length})</h3>
         <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
           <span style={{ color: '#6b7280', fontSize: 14 }}>
             {selectedCount} selected
           </span>
+          <button
+            className="btn btn-sm"
+            onClick={dismissUnchecked}
+            disabled={submitting || selectedCount === visibleTransactions.length}
+          >
+            Dismiss Unchecked
+          </button>
           <button
             style={buttonStyle}
             onClick={submitApproved}
@@ -351,6 +616,19 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
         </div>
       )}
 
+      {lockedSelected.length > 0 && (
+        <ClosedPeriodBanner
+          date={lockedSelected[0].date}
+          closedThrough={periodGuard.closedThrough}
+          onPostToOpenPeriod={postClosedToOpenPeriod ? undefined : () => setPostClosedToOpenPeriod(true)}
+          actionLabel={`Post ${lockedSelected.length} to ${formatLocalDate(periodGuard.minDate)}`}
+        >
+          {postClosedToOpenPeriod
+            ? `${lockedSelected.length} selected transaction(s) will be posted dated ${formatLocalDate(periodGuard.minDate)}; the bank date is kept on each entry.`
+            : `${lockedSelected.length} selected transaction(s) are dated in a closed period.`}
+        </ClosedPeriodBanner>
+      )}
+
       {successCount > 0 && (
         <div style={{ background: '#dcfce7', color: '#16a34a', padding: 12, borderRadius: 6, marginBottom: 16 }}>
           Successfully created {successCount} transactions! Redirecting...
@@ -377,112 +655,150 @@ export function PlaidTransactionReview({ transactions, onComplete }: Props) {
             </tr>
           </thead>
           <tbody>
-            {transactions.map((tx) => {
+            {visibleTransactions.map((tx) => {
               const assignment = assignments.get(tx.plaid_transaction_id);
               if (!assignment) return null;
 
               const hasMapping = mappings.has((tx.merchant_name || tx.name).toLowerCase());
 
               return (
-                <tr
-                  key={tx.plaid_transaction_id}
-                  style={{
-                    background: assignment.selected
-                      ? hasMapping
-                        ? '#f0fdf4'
-                        : 'white'
-                      : '#f9fafb',
-                    opacity: assignment.selected ? 1 : 0.6,
-                  }}
-                >
-                  <td style={tdStyle}>
-                    <input
-                      type="checkbox"
-                      checked={assignment.selected}
-                      onChange={() => toggleSelect(tx.plaid_transaction_id)}
-                    />
-                  </td>
-                  <td style={tdStyle}>{tx.date}</td>
-                  <td style={tdStyle}>
-                    <div style={{ fontWeight: 500 }}>{tx.merchant_name || tx.name}</div>
-                    {hasMapping && (
-                      <div style={{ fontSize: 10, color: '#16a34a' }}>✓ Auto-mapped</div>
-                    )}
-                  </td>
-                  <td
+                <Fragment key={tx.plaid_transaction_id}>
+                  <tr
                     style={{
-                      ...tdStyle,
-                      textAlign: 'right',
-                      fontWeight: 600,
-                      color: tx.amount > 0 ? '#dc2626' : '#16a34a',
+                      background: assignment.selected
+                        ? hasMapping
+                          ? '#f0fdf4'
+                          : 'white'
+                        : '#f9fafb',
+                      opacity: assignment.selected ? 1 : 0.6,
                     }}
                   >
-                    {tx.amount > 0 ? '-' : '+'}${Math.abs(tx.amount).toFixed(2)}
-                  </td>
-                  <td style={tdStyle}>
-                    <select
-                      style={selectStyle}
-                      value={assignment.vendor_id || ''}
-                      onChange={(e) =>
-                        updateAssignment(
-                          tx.plaid_transaction_id,
-                          'vendor_id',
-                          e.target.value ? parseInt(e.target.value) : null
-                        )
-                      }
-                    >
-                      <option value="">-- None --</option>
-                      {vendors.map((v) => (
-                        <option key={v.id} value={v.id}>
-                          {v.name}
-                        </option>
+                    <td style={tdStyle}>
+                      <input
+                        type="checkbox"
+                        checked={assignment.selected}
+                        onChange={() => toggleSelect(tx.plaid_transaction_id)}
+                        disabled={tx.ledger_account_id == null}
+                      />
+                    </td>
+                    <td style={tdStyle}>{tx.date}</td>
+                    <td style={tdStyle}>
+                      <div style={{ fontWeight: 500 }}>{tx.merchant_name || tx.name}</div>
+                      <div style={{ fontSize: 10, color: tx.ledger_account_id == null ? '#dc2626' : '#6b7280' }}>
+                        {tx.account_name}
+                        {tx.ledger_account_id == null && ' - map this account first'}
+                      </div>
+                      {assignment.rule_name ? (
+                        <div style={{ fontSize: 10, color: '#2563eb' }}>
+                          Rule: {assignment.rule_name}
+                          {assignment.splits && ` (split ${assignment.splits.length} ways)`}
+                        </div>
+                      ) : hasMapping && (
+                        <div style={{ fontSize: 10, color: '#16a34a' }}>✓ Auto-mapped</div>
+                      )}
+                      {duplicateMatches.get(tx.plaid_transaction_id)?.slice(0, 1).map((m) => (
+                        <div key={m.line.line_id} style={{ fontSize: 10, color: '#dc2626' }}>
+                          Possible duplicate: {m.line.date} {m.line.description || m.line.vendor_name || '(no description)'}{' '}
+                          ${Math.abs(m.line.amount).toFixed(2)} ({m.reason})
+                        </div>
                       ))}
-                    </select>
-                  </td>
-                  <td style={tdStyle}>
-                    <select
+                    </td>
+                    <td
                       style={{
-                        ...selectStyle,
-                        borderColor: assignment.account_id ? '#d1d5db' : '#f87171',
+                        ...tdStyle,
+                        textAlign: 'right',
+                        fontWeight: 600,
+                        color: tx.amount > 0 ? '#dc2626' : '#16a34a',
                       }}
-                      value={assignment.account_id || ''}
-                      onChange={(e) =>
-                        updateAssignment(
-                          tx.plaid_transaction_id,
-                          'account_id',
-                          e.target.value ? parseInt(e.target.value) : null
-                        )
-                      }
                     >
-                      <option value="">-- Select Account --</option>
-                      {accounts.map((a) => (
-                        <option key={a.id} value={a.id}>
-                          {a.code} - {a.name}
-                        </option>
-                      ))}
-                    </select>
-                  </td>
-                  <td style={tdStyle}>
-                    <select
-                      style={selectStyle}
-                      value={assignment.job_id || ''}
-                      onChange={(e) =>
-                        updateAssignment(
-                          tx.plaid_transaction_id,
-                          'job_id',
-                          e.target.value ? parseInt(e.target.value) : null
-                        )
-                      }
-                    >
-                      <option value="">-- None --</option>
-                      {jobs.map((j) => (
-                        <option key={j.id} value={j.id}>
-                          {j.address}
-                        </option>
-                      ))}
-                    </select>
-                  </td>
-                </tr>
+                      {tx.amount > 0 ? '-' : '+'}${Math.abs(tx.amount).toFixed(2)}
+                    </td>
+                    <td style={tdStyle}>
+                      <select
+                        style={selectStyle}
+                        value={assignment.vendor_id || ''}
+                        onChange={(e) =>
+                          updateAssignment(
+                            tx.plaid_transaction_id,
+                            'vendor_id',
+                            e.target.value ? parseInt(e.target.value) : null
+                          )
+                        }
+                      >
+                        <option value="">-- None --</option>
+                        {vendors.map((v) => (
+                          <option key={v.id} value={v.id}>
+                            {v.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td style={tdStyle}>
+                      {assignment.manual_splits ? (
+                        <div style={{ fontSize: 12, color: '#2563eb' }}>Split {assignment.manual_splits.length} ways (below)</div>
+                      ) : (
+                        <select
+                          style={{
+                            ...selectStyle,
+                            borderColor: assignment.account_id ? '#d1d5db' : '#f87171',
+                          }}
+                          value={assignment.account_id || ''}
+                          onChange={(e) =>
+                            updateAssignment(
+                              tx.plaid_transaction_id,
+                              'account_id',
+                              e.target.value ? parseInt(e.target.value) : null
+                            )
+                          }
+                        >
+                          <option value="">-- Select Account --</option>
+                          {accounts.map((a) => (
+                            <option key={a.id} value={a.id}>
+                              {a.code} - {a.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      <button type="button" className="btn-link text-sm" onClick={() => toggleSplit(tx)}>
+                        {assignment.manual_splits ? 'Unsplit' : 'Split'}
+                      </button>
+                    </td>
+                    <td style={tdStyle}>
+                      <select
+                        style={selectStyle}
+                        value={assignment.job_id || ''}
+                        disabled={assignment.manual_splits != null}
+                        onChange={(e) =>
+                          updateAssignment(
+                            tx.plaid_transaction_id,
+                            'job_id',
+                            e.target.value ? parseInt(e.target.value) : null
+                          )
+                        }
+                      >
+                        <option value="">-- None --</option>
+                        {jobs.map((j) => (
+                          <option key={j.id} value={j.id}>
+                            {j.address}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                  {assignment.manual_splits && (
+                    <tr>
+                      <td style={tdStyle} />
+                      <td style={tdStyle} colSpan={6}>
+                        <SplitEditor
+                          total={tx.amount}
+                          lines={assignment.manual_splits}
+                          onChange={(lines) => updateSplitLines(tx.plaid_transaction_id, lines)}
+                          accountOptions={accountOptions}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               );
             })}
           </tbody>
@@ -0,0 +1,413 @@
+// Bank file parser tests with small inline fixtures.
+//   npm test
+
+import { describe, expect, it } from 'vitest';
+import { detectBankFileFormat, parseBankAmount, parseBankDate, parseBankFile } from './bankFileParser';
+
+const csv = (...lines: string[]) => lines.join('\r\n') + '\r\n';
+
+// ============================================================================
+// CSV PROFILES
+// ============================================================================
+
+describe('CSV profiles', () => {
+  it('boa-checking skips the summary block and the beginning balance row', () => {
+    const text = csv(
+      'Description,,Summary Amt.',
+      'Beginning balance as of 01/01/2026,,"1,000.00"',
+      'Total credits,,"500.00"',
+      'Total debits,,"-45.67"',
+      '',
+      'Date,Description,Amount,Running Bal.',
+      '01/01/2026,Beginning balance as of 01/01/2026,,"1,000.00"',
+      '01/02/2026,"HOME DEPOT #4521","-45.67","954.33"',
+      '01/03/2026,"PAYROLL DEPOSIT","500.00","1,454.33"'
+    );
+    const result = parseBankFile(text, { fileName: 'stmt.csv', isCreditCard: false });
+
+    expect(result.format).toBe('csv');
+    expect(result.profileId).toBe('boa-checking');
+    expect(result.warnings).toEqual([]);
+    expect(result.rows).toEqual([
+      { date: '2026-01-02', description: 'HOME DEPOT #4521', amount: -45.67, bank_status: 'posted', external_id: null, check_number: null },
+      { date: '2026-01-03', description: 'PAYROLL DEPOSIT', amount: 500, bank_status: 'posted', external_id: null, check_number: null },
+    ]);
+  });
+
+  it('boa-card keeps the signed amount and reads the reference number', () => {
+    const text = csv(
+      'Posted Date,Reference Number,Payee,Address,Amount',
+      '01/05/2026,24431066005000001234567,"AMAZON MKTPLACE","SEATTLE WA",-23.99',
+      '01/06/2026,24431066006000007654321,"PAYMENT - THANK YOU","",500.00'
+    );
+    const result = parseBankFile(text, { fileName: 'card.csv', isCreditCard: true });
+
+    expect(result.profileId).toBe('boa-card');
+    expect(result.rows.map((r) => [r.description, r.amount, r.external_id])).toEqual([
+      ['AMAZON MKTPLACE', -23.99, '24431066005000001234567'],
+      ['PAYMENT - THANK YOU', 500, '24431066006000007654321'],
+    ]);
+  });
+
+  it('chase-card appends the memo to the description', () => {
+    const text = csv(
+      'Transaction Date,Post Date,Description,Category,Type,Amount,Memo',
+      '01/09/2026,01/10/2026,LOWES #1187,Home,Sale,-89.99,Job 42',
+      '01/07/2026,01/08/2026,SHELL OIL 57442,Gas,Sale,-52.10,'
+    );
+    const result = parseBankFile(text, { fileName: 'chase.csv', isCreditCard: true });
+
+    expect(result.profileId).toBe('chase-card');
+    expect(result.rows.map((r) => [r.date, r.description, r.amount])).toEqual([
+      ['2026-01-07', 'SHELL OIL 57442', -52.1],
+      ['2026-01-09', 'LOWES #1187 Job 42', -89.99],
+    ]);
+  });
+
+  it('chase-checking reads the check number', () => {
+    const text = csv(
+      'Details,Posting Date,Description,Amount,Type,Balance,Check or Slip #',
+      'DEBIT,01/12/2026,"CHECK 1042",-1200.00,CHECK_PAID,3000.00,1042',
+      'CREDIT,01/13/2026,"ZELLE FROM CUSTOMER",800.00,QUICKPAY_CREDIT,3800.00,'
+    );
+    const result = parseBankFile(text, { fileName: 'chase.csv', isCreditCard: false });
+
+    expect(result.profileId).toBe('chase-checking');
+    expect(result.rows.map((r) => [r.amount, r.check_number])).toEqual([
+      [-1200, '1042'],
+      [800, null],
+    ]);
+  });
+
+  describe('amex-card', () => {
+    const text = csv(
+      'Date,Description,Amount,Extended Details,Reference',
+      '01/14/2026,DELTA AIR LINES,350.00,"Ticket 0062\nATL-AUS",320260140001',
+      '01/20/2026,AUTOPAY PAYMENT - THANK YOU,-1000.00,,320260200002'
+    );
+
+    it('flips charges to negative when importing into a card account', () => {
+      const result = parseBankFile(text, { fileName: 'amex.csv', isCreditCard: true });
+
+      expect(result.profileId).toBe('amex-card');
+      expect(result.rows.map((r) => [r.description, r.amount, r.external_id])).toEqual([
+        ['DELTA AIR LINES', -350, '320260140001'],
+        ['AUTOPAY PAYMENT - THANK YOU', 1000, '320260200002'],
+      ]);
+    });
+
+    it('leaves signs alone outside a card account', () => {
+      const result = parseBankFile(text, { fileName: 'amex.csv', isCreditCard: false });
+      expect(result.rows.map((r) => r.amount)).toEqual([350, -1000]);
+    });
+  });
+
+  it('capital-one-card turns debit/credit columns into a signed amount', () => {
+    const text = csv(
+      'Transaction Date,Posted Date,Card No.,Description,Category,Debit,Credit',
+      '2026-01-15,2026-01-16,1234,COSTCO WHSE #0681,Merchandise,312.40,',
+      '2026-01-20,2026-01-21,1234,CAPITAL ONE AUTOPAY PYMT,Payment/Credit,,500.00'
+    );
+    const result = parseBankFile(text, { fileName: 'capone.csv', isCreditCard: true });
+
+    expect(result.profileId).toBe('capital-one-card');
+    expect(result.rows.map((r) => r.amount)).toEqual([-312.4, 500]);
+  });
+
+  it('generic-amount reads the status column, sorts by date and warns on undated rows', () => {
+    const text = csv(
+      'Date,Description,Amount,Status',
+      '1/22/26,COFFEE SHOP,-4.50,Pending',
+      '1/21/26,CUSTOMER DEPOSIT,"$1,250.00",Posted',
+      'Totals,,"1,245.50",'
+    );
+    const result = parseBankFile(text, { fileName: 'export.csv', isCreditCard: false });
+
+    expect(result.profileId).toBe('generic-amount');
+    expect(result.rows.map((r) => [r.date, r.amount, r.bank_status])).toEqual([
+      ['2026-01-21', 1250, 'posted'],
+      ['2026-01-22', -4.5, 'pending'],
+    ]);
+    expect(result.warnings).toEqual(['Row 4: skipped - unrecognized date "Totals"']);
+  });
+
+  it('generic-debit-credit treats debits as money out', () => {
+    const text = csv(
+      'Date,Description,Debit,Credit',
+      '01/25/2026,ELECTRIC CO,125.00,',
+      '01/26/2026,INTEREST,,0.42'
+    );
+    const result = parseBankFile(text, { fileName: 'export.csv', isCreditCard: false });
+
+    expect(result.profileId).toBe('generic-debit-credit');
+    expect(result.rows.map((r) => r.amount)).toEqual([-125, 0.42]);
+  });
+
+  it('uses a forced profile instead of auto-detecting', () => {
+    const text = csv('Date,Description,Amount,Extended Details', '01/14/2026,DELTA AIR LINES,350.00,');
+    const result = parseBankFile(text, { fileName: 'amex.csv', isCreditCard: true, csvProfileId: 'generic-amount' });
+
+    expect(result.profileId).toBe('generic-amount');
+    expect(result.rows[0].amount).toBe(350);
+  });
+
+  it('warns when no header row matches a profile', () => {
+    const result = parseBankFile(csv('When,What,How Much', '01/02/2026,Coffee,-4.50'), { fileName: 'x.csv', isCreditCard: false });
+
+    expect(result.profileId).toBeNull();
+    expect(result.rows).toEqual([]);
+    expect(result.warnings).toHaveLength(1);
+  });
+});
+
+// ============================================================================
+// OFX / QFX
+// ============================================================================
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+CHARSET:1252
+COMPRESSION:NONE
+OLDFILEUID:NONE
+NEWFILEUID:NONE
+
+<OFX>
+<SIGNONMSGSRSV1>
+<SONRS>
+<STATUS>
+<CODE>0
+<SEVERITY>INFO
+</STATUS>
+<DTSERVER>20260205120000
+<LANGUAGE>ENG
+</SONRS>
+</SIGNONMSGSRSV1>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<TRNUID>1
+<STMTRS>
+<CURDEF>USD
+<BANKTRANLIST>
+<DTSTART>20260201
+<DTEND>20260205
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260203120000.000[-5:EST]
+<TRNAMT>-45.67
+<FITID>2026020301
+<NAME>HOME DEPOT #4521
+<MEMO>AUSTIN TX
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CHECK
+<DTPOSTED>20260201
+<TRNAMT>-1200.00
+<FITID>2026020102
+<CHECKNUM>1042
+<NAME>CHECK 1042
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>OTHER
+<DTPOSTED>20260204
+<FITID>2026020403
+<NAME>NO AMOUNT
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>3254.33
+<DTASOF>20260205
+</LEDGERBAL>
+<AVAILBAL>
+<BALAMT>3100.00
+<DTASOF>20260205
+</AVAILBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>
+`;
+
+const OFX_XML = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <TRNUID>1</TRNUID>
+      <CCSTMTRS>
+        <CURDEF>USD</CURDEF>
+        <BANKTRANLIST>
+          <STMTTRN>
+            <TRNTYPE>DEBIT</TRNTYPE>
+            <DTPOSTED>20260310</DTPOSTED>
+            <TRNAMT>-64.20</TRNAMT>
+            <FITID>A1</FITID>
+            <NAME>AT&amp;T WIRELESS</NAME>
+          </STMTTRN>
+          <STMTTRN>
+            <TRNTYPE>CREDIT</TRNTYPE>
+            <DTUSER>20260308</DTUSER>
+            <TRNAMT>250.00</TRNAMT>
+            <FITID>A2</FITID>
+            <PAYEE>PAYMENT RECEIVED</PAYEE>
+            <MEMO>THANK YOU</MEMO>
+          </STMTTRN>
+        </BANKTRANLIST>
+        <LEDGERBAL>
+          <BALAMT>-812.55</BALAMT>
+          <DTASOF>20260311</DTASOF>
+        </LEDGERBAL>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>
+`;
+
+const QFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<SIGNONMSGSRSV1>
+<SONRS>
+<FI>
+<ORG>B1
+<FID>10898
+</FI>
+<INTU.BID>10898
+</SONRS>
+</SIGNONMSGSRSV1>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>POS
+<DTPOSTED>20260412
+<TRNAMT>-18.75
+<FITID>Q1
+<NAME>CHIPOTLE 1187
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>2000.00
+<DTASOF>20260413
+</LEDGERBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>
+`;
+
+describe('OFX and QFX', () => {
+  it('parses OFX 1.x SGML without closing tags on leaf elements', () => {
+    const result = parseBankFile(OFX_SGML, { fileName: 'statement.ofx', isCreditCard: false });
+
+    expect(result.format).toBe('ofx');
+    expect(result.profileId).toBeNull();
+    expect(result.rows).toEqual([
+      { date: '2026-02-01', description: 'CHECK 1042', amount: -1200, bank_status: 'posted', external_id: '2026020102', check_number: '1042' },
+      { date: '2026-02-03', description: 'HOME DEPOT #4521 AUSTIN TX', amount: -45.67, bank_status: 'posted', external_id: '2026020301', check_number: null },
+    ]);
+    expect(result.warnings).toEqual(['Transaction 3: skipped - missing date or amount']);
+    expect(result.statementBalance).toBe(3254.33);
+    expect(result.statementDate).toBe('2026-02-05');
+  });
+
+  it('parses OFX 2.x XML served with a .txt extension', () => {
+    const result = parseBankFile(OFX_XML, { fileName: 'download.txt', isCreditCard: true });
+
+    expect(result.format).toBe('ofx');
+    expect(result.rows.map((r) => [r.date, r.description, r.amount, r.external_id])).toEqual([
+      ['2026-03-08', 'PAYMENT RECEIVED THANK YOU', 250, 'A2'],
+      ['2026-03-10', 'AT&T WIRELESS', -64.2, 'A1'],
+    ]);
+    expect(result.warnings).toEqual([]);
+    expect(result.statementBalance).toBe(-812.55);
+    expect(result.statementDate).toBe('2026-03-11');
+  });
+
+  it('parses QFX the same way and reports the qfx format', () => {
+    const result = parseBankFile(QFX, { fileName: 'export.qfx', isCreditCard: false });
+
+    expect(result.format).toBe('qfx');
+    expect(result.rows.map((r) => [r.date, r.description, r.amount])).toEqual([['2026-04-12', 'CHIPOTLE 1187', -18.75]]);
+    expect(result.statementBalance).toBe(2000);
+  });
+
+  it('detects the format from content before the extension', () => {
+    expect(detectBankFileFormat('export.qfx', OFX_SGML)).toBe('qfx');
+    expect(detectBankFileFormat('statement.ofx', QFX)).toBe('qfx');
+    expect(detectBankFileFormat('statement.csv', OFX_SGML)).toBe('ofx');
+    expect(detectBankFileFormat('empty.ofx', '')).toBe('ofx');
+    expect(detectBankFileFormat('stmt.csv', 'Date,Description,Amount')).toBe('csv');
+  });
+
+  it('warns when an OFX file has no transactions', () => {
+    const result = parseBankFile('OFXHEADER:100\n<OFX>\n</OFX>\n', { fileName: 'empty.ofx', isCreditCard: false });
+    expect(result.rows).toEqual([]);
+    expect(result.warnings).toEqual(['No <STMTTRN> transactions found in file.']);
+  });
+});
+
+// ============================================================================
+// VALUE PARSING
+// ============================================================================
+
+describe('parseBankDate', () => {
+  it.each([
+    ['01/02/2026', '2026-01-02'],
+    ['1/2/2026', '2026-01-02'],
+    ['1-2-2026', '2026-01-02'],
+    ['2026-03-05', '2026-03-05'],
+    ['2026-3-5', '2026-03-05'],
+    ['20260305', '2026-03-05'],
+    ['20260305120000.000[-5:EST]', '2026-03-05'],
+    ['  03/05/2026  ', '2026-03-05'],
+    ['02/29/2028', '2028-02-29'],
+  ])('parses %s', (value, expected) => {
+    expect(parseBankDate(value)).toBe(expected);
+  });
+
+  it.each([
+    ['1/2/26', '2026-01-02'],
+    ['12/31/69', '2069-12-31'],
+    ['1/1/70', '1970-01-01'],
+    ['6/15/99', '1999-06-15'],
+  ])('puts 2-digit year %s in %s', (value, expected) => {
+    expect(parseBankDate(value)).toBe(expected);
+  });
+
+  it.each(['', 'Totals', '13/01/2026', '00/10/2026', '02/30/2026', '02/29/2026', '2026/03/05', '3/5'])(
+    'rejects %j',
+    (value) => {
+      expect(parseBankDate(value)).toBeNull();
+    }
+  );
+});
+
+describe('parseBankAmount', () => {
+  it.each([
+    ['45.67', 45.67],
+    ['-45.67', -45.67],
+    ['  -45.67  ', -45.67],
+    ['+5', 5],
+    ['.5', 0.5],
+    ['$1,234.56', 1234.56],
+    ['-$1,234.56', -1234.56],
+    ['(12.00)', -12],
+    ['($1,200.00)', -1200],
+    ['12.00-', -12],
+    ['12.00 CR', 12],
+    ['12.00 DR', -12],
+    ['0.00', 0],
+  ])('parses %j', (value, expected) => {
+    expect(parseBankAmount(value)).toBe(expected);
+  });
+
+  it.each(['', '   ', 'abc', '1.2.3', '$', '()'])('rejects %j', (value) => {
+    expect(parseBankAmount(value)).toBeNull();
+  });
+});
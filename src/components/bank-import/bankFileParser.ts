@@ -0,0 +1,498 @@
+// src/components/bank-import/bankFileParser.ts
+//
+// Deterministic, offline parser for bank statement downloads.
+// Supports CSV (with per-bank column profiles), OFX 1.x (SGML), OFX 2.x (XML)
+// and QFX (Quicken's OFX variant). Produces typed rows in BOOK sign so the
+// AI step only has to categorize - dates and amounts are never guessed.
+//
+// SIGN CONVENTION (see CODING_RULES 24)
+// - Output amount: negative = money out / card charge, positive = money in / card payment
+// - Card CSVs that export charges as POSITIVE use a profile with chargesPositive: true
+
+import type { BankFileFormat, BankFileParseResult, BankFileRow, BankStatus } from './bankImportTypes';
+
+// ============================================================================
+// CSV PROFILES
+// ============================================================================
+
+/**
+ * Column profile for a bank's CSV export.
+ * Header names are matched case-insensitively after trimming.
+ */
+export type CsvColumnProfile = {
+  id: string;
+  label: string;
+  /** Headers that must all be present for auto-detection */
+  signatureHeaders: string[];
+  dateColumn: string;
+  descriptionColumn: string;
+  /** Single signed amount column */
+  amountColumn?: string;
+  /** Separate debit/credit columns (both unsigned) */
+  debitColumn?: string;
+  creditColumn?: string;
+  /** Optional column whose value marks the row as pending at the bank */
+  statusColumn?: string;
+  /** Optional unique id column (reference number, FITID-like) */
+  idColumn?: string;
+  /** Optional check number column */
+  checkColumn?: string;
+  /** Optional memo column appended to description when present */
+  memoColumn?: string;
+  /** True if the export shows card charges as positive (needs sign flip) */
+  chargesPositive?: boolean;
+};
+
+export const CSV_PROFILES: CsvColumnProfile[] = [
+  {
+    id: 'boa-checking',
+    label: 'Bank of America - Checking/Savings',
+    signatureHeaders: ['date', 'description', 'amount', 'running bal.'],
+    dateColumn: 'date',
+    descriptionColumn: 'description',
+    amountColumn: 'amount',
+  },
+  {
+    id: 'boa-card',
+    label: 'Bank of America - Credit Card',
+    signatureHeaders: ['posted date', 'reference number', 'payee', 'amount'],
+    dateColumn: 'posted date',
+    descriptionColumn: 'payee',
+    amountColumn: 'amount',
+    idColumn: 'reference number',
+  },
+  {
+    id: 'chase-card',
+    label: 'Chase - Credit Card',
+    signatureHeaders: ['transaction date', 'post date', 'description', 'amount'],
+    dateColumn: 'transaction date',
+    descriptionColumn: 'description',
+    amountColumn: 'amount',
+    memoColumn: 'memo',
+  },
+  {
+    id: 'chase-checking',
+    label: 'Chase - Checking',
+    signatureHeaders: ['details', 'posting date', 'description', 'amount'],
+    dateColumn: 'posting date',
+    descriptionColumn: 'description',
+    amountColumn: 'amount',
+    checkColumn: 'check or slip #',
+  },
+  {
+    id: 'amex-card',
+    label: 'American Express - Credit Card',
+    signatureHeaders: ['date', 'description', 'amount', 'extended details'],
+    dateColumn: 'date',
+    descriptionColumn: 'description',
+    amountColumn: 'amount',
+    idColumn: 'reference',
+    chargesPositive: true,
+  },
+  {
+    id: 'capital-one-card',
+    label: 'Capital One - Credit Card',
+    signatureHeaders: ['transaction date', 'posted date', 'description', 'debit', 'credit'],
+    dateColumn: 'transaction date',
+    descriptionColumn: 'description',
+    debitColumn: 'debit',
+    creditColumn: 'credit',
+  },
+  {
+    id: 'generic-amount',
+    label: 'Generic - Date, Description, Amount',
+    signatureHeaders: ['date', 'description', 'amount'],
+    dateColumn: 'date',
+    descriptionColumn: 'description',
+    amountColumn: 'amount',
+    statusColumn: 'status',
+  },
+  {
+    id: 'generic-debit-credit',
+    label: 'Generic - Date, Description, Debit, Credit',
+    signatureHeaders: ['date', 'description', 'debit', 'credit'],
+    dateColumn: 'date',
+    descriptionColumn: 'description',
+    debitColumn: 'debit',
+    creditColumn: 'credit',
+    statusColumn: 'status',
+  },
+];
+
+// ============================================================================
+// FORMAT DETECTION
+// ============================================================================
+
+/**
+ * Detect file format from name and content.
+ * Content wins over extension (banks sometimes serve OFX as .txt).
+ */
+export function detectBankFileFormat(fileName: string, text: string): BankFileFormat {
+  const head = text.slice(0, 2000).toUpperCase();
+  const isOfxContent = head.includes('OFXHEADER') || head.includes('<OFX>') || head.includes('<?OFX');
+  const ext = fileName.toLowerCase().split('.').pop() ?? '';
+
+  if (isOfxContent) {
+    return ext === 'qfx' || head.includes('INTU.BID') ? 'qfx' : 'ofx';
+  }
+  if (ext === 'ofx') return 'ofx';
+  if (ext === 'qfx') return 'qfx';
+  return 'csv';
+}
+
+// ============================================================================
+// VALUE PARSING
+// ============================================================================
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * Parse a bank date into YYYY-MM-DD.
+ * Accepts: MM/DD/YYYY, M/D/YY, YYYY-MM-DD, YYYYMMDD[HHMMSS[.XXX][TZ]]
+ * Returns null if the value is not a recognizable date.
+ */
+export function parseBankDate(value: string): string | null {
+  const v = value.trim();
+  if (!v) return null;
+
+  let y: number;
+  let m: number;
+  let d: number;
+
+  let match = v.match(/^(\d{4})(\d{2})(\d{2})(?:\d|\[|\.|$)/);
+  if (match) {
+    [y, m, d] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/))) {
+    [y, m, d] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = v.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})$/))) {
+    m = Number(match[1]);
+    d = Number(match[2]);
+    y = Number(match[3]);
+    if (match[3].length === 2) y += y < 70 ? 2000 : 1900;
+  } else {
+    return null;
+  }
+
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  const check = new Date(y, m - 1, d);
+  if (check.getMonth() !== m - 1) return null;
+
+  return `${y}-${pad2(m)}-${pad2(d)}`;
+}
+
+/**
+ * Parse a bank amount string.
+ * Handles "$1,234.56", "(12.00)", "-12.00", "12.00-", "12.00 CR".
+ * Returns null for blank or invalid values.
+ */
+export function parseBankAmount(value: string): number | null {
+  let v = value.trim();
+  if (!v) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(v)) {
+    negative = true;
+    v = v.slice(1, -1);
+  }
+  if (v.endsWith('-')) {
+    negative = true;
+    v = v.slice(0, -1);
+  }
+  if (/\s*DR$/i.test(v)) {
+    negative = true;
+    v = v.replace(/\s*DR$/i, '');
+  }
+  v = v.replace(/\s*CR$/i, '');
+  if (v.startsWith('-')) {
+    negative = !negative;
+    v = v.slice(1);
+  }
+  v = v.replace(/[$,\s]/g, '').replace(/^\+/, '');
+
+  if (!/^\d*\.?\d+$/.test(v)) return null;
+  const n = Number(v);
+  if (!Number.isFinite(n)) return null;
+  return Math.round((negative ? -n : n) * 100) / 100;
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting).
+ */
+export function tokenizeCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((f) => f.trim() !== ''));
+}
+
+function normalizeHeader(h: string): string {
+  return h.replace(/^\uFEFF/, '').trim().toLowerCase();
+}
+
+/**
+ * Find the header row and matching profile.
+ * Banks like BofA put a summary block above the real header, so scan the
+ * first rows for one that satisfies a profile signature.
+ */
+export function detectCsvProfile(
+  rows: string[][],
+  profileId?: string
+): { profile: CsvColumnProfile; headerIndex: number } | null {
+  const candidates = profileId ? CSV_PROFILES.filter((p) => p.id === profileId) : CSV_PROFILES;
+  const scanLimit = Math.min(rows.length, 25);
+
+  for (let i = 0; i < scanLimit; i++) {
+    const headers = rows[i].map(normalizeHeader);
+    for (const profile of candidates) {
+      if (profile.signatureHeaders.every((h) => headers.includes(h))) {
+        return { profile, headerIndex: i };
+      }
+    }
+  }
+  return null;
+}
+
+function isPendingStatus(value: string | undefined): boolean {
+  if (!value) return false;
+  return /pending|processing/i.test(value);
+}
+
+function parseCsv(text: string, isCreditCard: boolean, profileId?: string): BankFileParseResult {
+  const warnings: string[] = [];
+  const rows = tokenizeCsv(text);
+  const detected = detectCsvProfile(rows, profileId);
+
+  if (!detected) {
+    return {
+      format: 'csv',
+      profileId: null,
+      rows: [],
+      statementBalance: null,
+      statementDate: null,
+      warnings: ['Could not find a recognizable header row. Pick a column profile and try again.'],
+    };
+  }
+
+  const { profile, headerIndex } = detected;
+  const headers = rows[headerIndex].map(normalizeHeader);
+  const col = (name: string | undefined): number => (name ? headers.indexOf(name) : -1);
+
+  const dateIdx = col(profile.dateColumn);
+  const descIdx = col(profile.descriptionColumn);
+  const amountIdx = col(profile.amountColumn);
+  const debitIdx = col(profile.debitColumn);
+  const creditIdx = col(profile.creditColumn);
+  const statusIdx = col(profile.statusColumn);
+  const idIdx = col(profile.idColumn);
+  const checkIdx = col(profile.checkColumn);
+  const memoIdx = col(profile.memoColumn);
+
+  const out: BankFileRow[] = [];
+
+  for (let r = headerIndex + 1; r < rows.length; r++) {
+    const fields = rows[r];
+    const get = (idx: number): string => (idx >= 0 ? (fields[idx] ?? '').trim() : '');
+
+    const rawDate = get(dateIdx);
+    const date = parseBankDate(rawDate);
+    if (!date) {
+      // Summary/footer lines (e.g. "Beginning balance as of ...") have no valid date
+      if (rawDate) warnings.push(`Row ${r + 1}: skipped - unrecognized date "${rawDate}"`);
+      continue;
+    }
+
+    let amount: number | null;
+    if (amountIdx >= 0) {
+      amount = parseBankAmount(get(amountIdx));
+    } else {
+      const debit = parseBankAmount(get(debitIdx));
+      const credit = parseBankAmount(get(creditIdx));
+      amount = debit == null && credit == null ? null : (credit ?? 0) - Math.abs(debit ?? 0);
+    }
+
+    if (amount == null) {
+      // BofA shows the beginning balance as a dated row with no amount
+      continue;
+    }
+
+    if (isCreditCard && profile.chargesPositive) {
+      amount = -amount;
+    }
+
+    const memo = get(memoIdx);
+    const description = get(descIdx);
+
+    out.push({
+      date,
+      description: memo && memo !== description ? `${description} ${memo}` : description,
+      amount: amount === 0 ? 0 : amount,
+      bank_status: isPendingStatus(get(statusIdx)) ? 'pending' : 'posted',
+      external_id: get(idIdx) || null,
+      check_number: get(checkIdx) || null,
+    });
+  }
+
+  return {
+    format: 'csv',
+    profileId: profile.id,
+    rows: out,
+    statementBalance: null,
+    statementDate: null,
+    warnings,
+  };
+}
+
+// ============================================================================
+// OFX / QFX
+// ============================================================================
+
+/**
+ * Decode the few XML/SGML entities banks actually emit.
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&');
+}
+
+/**
+ * Read a leaf element value. Works for both OFX 1.x SGML (no closing tags on
+ * leaf elements) and OFX 2.x XML (closing tags present).
+ */
+function readOfxTag(block: string, tag: string): string | null {
+  const re = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i');
+  const m = block.match(re);
+  return m ? decodeEntities(m[1].trim()) : null;
+}
+
+function parseOfx(text: string, format: BankFileFormat): BankFileParseResult {
+  const warnings: string[] = [];
+  const out: BankFileRow[] = [];
+
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? [];
+
+  blocks.forEach((block, i) => {
+    const rawDate = readOfxTag(block, 'DTPOSTED') ?? readOfxTag(block, 'DTUSER') ?? '';
+    const date = parseBankDate(rawDate);
+    const amount = parseBankAmount(readOfxTag(block, 'TRNAMT') ?? '');
+
+    if (!date || amount == null) {
+      warnings.push(`Transaction ${i + 1}: skipped - missing date or amount`);
+      return;
+    }
+
+    const name = readOfxTag(block, 'NAME') ?? readOfxTag(block, 'PAYEE') ?? '';
+    const memo = readOfxTag(block, 'MEMO') ?? '';
+    const description = name && memo && !name.includes(memo) ? `${name} ${memo}` : name || memo;
+
+    out.push({
+      date,
+      description,
+      amount,
+      // OFX statements only contain posted activity
+      bank_status: 'posted' as BankStatus,
+      external_id: readOfxTag(block, 'FITID'),
+      check_number: readOfxTag(block, 'CHECKNUM'),
+    });
+  });
+
+  if (blocks.length === 0) {
+    warnings.push('No <STMTTRN> transactions found in file.');
+  }
+
+  // Ledger balance (used as the reconciliation statement balance)
+  const ledgerBal = text.match(/<LEDGERBAL>[\s\S]*?(<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|<\/CCSTMTRS>)/i);
+  let statementBalance: number | null = null;
+  let statementDate: string | null = null;
+  if (ledgerBal) {
+    statementBalance = parseBankAmount(readOfxTag(ledgerBal[0], 'BALAMT') ?? '');
+    statementDate = parseBankDate(readOfxTag(ledgerBal[0], 'DTASOF') ?? '');
+  }
+
+  return {
+    format,
+    profileId: null,
+    rows: out,
+    statementBalance,
+    statementDate,
+    warnings,
+  };
+}
+
+// ============================================================================
+// PUBLIC ENTRY POINT
+// ============================================================================
+
+export type ParseBankFileOptions = {
+  fileName: string;
+  /** Importing into a credit card account (codes 2000-2999) */
+  isCreditCard: boolean;
+  /** Force a CSV column profile instead of auto-detecting */
+  csvProfileId?: string;
+};
+
+/**
+ * Parse a bank download into typed rows.
+ * Pure function - no network, no AI - so the same file always yields the same rows.
+ */
+export function parseBankFile(text: string, options: ParseBankFileOptions): BankFileParseResult {
+  const format = detectBankFileFormat(options.fileName, text);
+
+  const result =
+    format === 'csv'
+      ? parseCsv(text, options.isCreditCard, options.csvProfileId)
+      : parseOfx(text, format);
+
+  result.rows.sort((a, b) => a.date.localeCompare(b.date));
+  return result;
+}
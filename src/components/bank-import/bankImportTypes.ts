@@ -1,5 +1,9 @@
 // src/components/bank-import/bankImportTypes.ts
 
+import type { RulePurpose, RuleSplit } from '../../utils/categorizationRules';
+import type { DuplicateMatch } from '../../utils/duplicateDetection';
+import type { SplitLine } from '../../utils/splitTransactions';
+
 /**
  * A pending (uncleared) transaction from our ledger that we try to match
  * against bank data.
@@ -63,7 +67,7 @@ export type SelectedAccount = {
  * Request payload sent to the edge function
  */
 export type BankImportRequest = {
-  rawBankData: string;
+  bankRows: BankFileRow[]; // Parsed locally from the uploaded CSV/OFX/QFX file
   selectedAccount: SelectedAccount;
   pendingTransactions: PendingTransaction[];
   clearedTransactions: ClearedTransaction[];
@@ -76,6 +80,35 @@ export type BankImportRequest = {
  */
 export type BankStatus = 'posted' | 'pending';
 
+/**
+ * Supported bank download formats
+ */
+export type BankFileFormat = 'csv' | 'ofx' | 'qfx';
+
+/**
+ * A single row read deterministically from a bank file (no AI involved)
+ */
+export type BankFileRow = {
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // Negative = debit/outflow, positive = credit/inflow (book sign)
+  bank_status: BankStatus;
+  external_id: string | null; // FITID / reference number when the bank provides one
+  check_number: string | null;
+};
+
+/**
+ * Result of parsing an uploaded bank file
+ */
+export type BankFileParseResult = {
+  format: BankFileFormat;
+  profileId: string | null; // CSV column profile used (null for OFX/QFX)
+  rows: BankFileRow[];
+  statementBalance: number | null; // OFX LEDGERBAL, when present
+  statementDate: string | null;
+  warnings: string[];
+};
+
 /**
  * Match type - how the bank transaction relates to DB
  */
@@ -85,7 +118,10 @@ export type MatchType = 'matched_pending' | 'matched_cleared' | 'new' | 'tip_adj
  * A single parsed transaction from Claude's response
  */
 export type ParsedTransaction = {
-  // Parsed from bank data
+  // Index into BankImportRequest.bankRows
+  row_index: number;
+
+  // Copied from the parsed bank row (never generated by the AI)
   date: string; // YYYY-MM-DD
   description: string; // Raw bank description
   amount: number; // Negative = debit/outflow, positive = credit/inflow
@@ -133,6 +169,14 @@ export type ReviewTransaction = ParsedTransaction & {
   override_installer_id: number | null;
   override_description: string | null;
   override_is_cleared: boolean | null;
+  // Categorization rule that filled in the suggestions (null = AI / none)
+  rule_name: string | null;
+  rule_purpose: RulePurpose | null;
+  rule_splits: RuleSplit[] | null;
+  // Hand-entered split of the category side (null = single category)
+  manual_splits: SplitLine[] | null;
+  // Existing ledger entries this row looks like (null = not checked yet)
+  duplicate_matches: DuplicateMatch[] | null;
 };
 
 /**
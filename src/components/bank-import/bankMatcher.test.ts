@@ -0,0 +1,298 @@
+// Deterministic bank matcher tests.
+//   npm test
+
+import { describe, expect, it } from 'vitest';
+import {
+  isReasonableTip,
+  matchBankRows,
+  type MatchableBankRow,
+  type MatchableLedgerLine,
+} from './bankMatcher';
+
+function row(date: string, description: string, amount: number, overrides: Partial<MatchableBankRow> = {}): MatchableBankRow {
+  return { date, description, amount, bank_status: 'posted', check_number: null, ...overrides };
+}
+
+let nextLineId = 100;
+
+function line(date: string, description: string | null, amount: number): MatchableLedgerLine {
+  const id = nextLineId++;
+  return { line_id: id, transaction_id: id + 1000, date, description, amount };
+}
+
+// ============================================================================
+// EXACT AMOUNT
+// ============================================================================
+
+describe('exact amount matches', () => {
+  it('matches a row to the ledger line with the same amount and merchant', () => {
+    const pending = line('2026-03-02', 'Home Depot', -45.67);
+    const result = matchBankRows([row('2026-03-02', 'HOME DEPOT #4521 AUSTIN TX', -45.67)], [pending], []);
+
+    expect(result.unmatched).toEqual([]);
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]).toMatchObject({
+      row_index: 0,
+      match_type: 'matched_pending',
+      matched_line_id: pending.line_id,
+      matched_transaction_id: pending.transaction_id,
+      original_amount: null,
+      match_confidence: 'high',
+    });
+  });
+
+  it('ignores lines a cent off', () => {
+    const result = matchBankRows([row('2026-03-02', 'HOME DEPOT', -45.67)], [], [line('2026-03-02', 'Home Depot', -45.68)]);
+
+    expect(result.matches).toEqual([]);
+    expect(result.unmatched).toEqual([0]);
+  });
+
+  it('matches a check number found in the ledger description', () => {
+    const cleared = line('2026-03-05', 'Check 1042 - rent', -1200);
+    const result = matchBankRows(
+      [row('2026-03-06', 'CHECK', -1200, { check_number: '0001042' })],
+      [],
+      [cleared, line('2026-03-05', 'Check 1043 - deposit', -1200)]
+    );
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]).toMatchObject({ matched_line_id: cleared.line_id, match_confidence: 'high' });
+  });
+
+  it('treats regex characters in a check number literally', () => {
+    const cleared = line('2026-03-05', 'Check 1.42 - rent', -1200);
+    const result = matchBankRows(
+      [row('2026-03-06', 'CHECK', -1200, { check_number: '1.42' })],
+      [],
+      [line('2026-03-05', 'Check 1142 - rent', -1200), cleared]
+    );
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]).toMatchObject({ matched_line_id: cleared.line_id, match_confidence: 'high' });
+    expect(() =>
+      matchBankRows([row('2026-03-06', 'CHECK', -1200, { check_number: '(42' })], [], [line('2026-03-05', 'Check (42', -1200)])
+    ).not.toThrow();
+  });
+});
+
+// ============================================================================
+// AMOUNT TOLERANCE
+// ============================================================================
+
+describe('toleranceCents', () => {
+  it('matches a pending line within the tolerance below high confidence', () => {
+    const pending = line('2026-03-10', 'Shell', -40);
+    const result = matchBankRows([row('2026-03-11', 'SHELL OIL 57442', -40.35)], [pending], [], { toleranceCents: 50 });
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]).toMatchObject({
+      match_type: 'matched_pending',
+      matched_line_id: pending.line_id,
+      match_confidence: 'medium',
+    });
+    expect(result.matches[0].reasoning).toContain('Amount within $0.35');
+  });
+
+  it('ignores pending lines beyond the tolerance and without one', () => {
+    const pending = [line('2026-03-10', 'Shell', -40)];
+    expect(matchBankRows([row('2026-03-10', 'SHELL', -40.51)], pending, [], { toleranceCents: 50 }).matches).toEqual([]);
+    expect(matchBankRows([row('2026-03-10', 'SHELL', -40.35)], pending, []).matches).toEqual([]);
+  });
+
+  it('still needs the exact amount for cleared lines', () => {
+    const result = matchBankRows([row('2026-03-10', 'SHELL', -40.35)], [], [line('2026-03-10', 'Shell', -40)], {
+      toleranceCents: 50,
+    });
+    expect(result.matches).toEqual([]);
+  });
+
+  it('prefers the exact amount over a nearby one', () => {
+    const exact = line('2026-03-10', 'Shell', -40.35);
+    const result = matchBankRows(
+      [row('2026-03-10', 'SHELL OIL', -40.35)],
+      [line('2026-03-10', 'Shell', -40), exact],
+      [],
+      { toleranceCents: 50 }
+    );
+
+    expect(result.matches[0]).toMatchObject({ matched_line_id: exact.line_id, match_confidence: 'high' });
+  });
+});
+
+// ============================================================================
+// SAME-AMOUNT CANDIDATES
+// ============================================================================
+
+describe('several candidates with the same amount', () => {
+  it('leaves the row unmatched when nothing tells the candidates apart', () => {
+    const result = matchBankRows(
+      [row('2026-04-10', 'ACH DEBIT 5555', -100)],
+      [],
+      [line('2026-04-10', 'Transfer', -100), line('2026-04-11', 'Transfer', -100)]
+    );
+
+    expect(result.matches).toEqual([]);
+    expect(result.unmatched).toEqual([0]);
+  });
+
+  it('picks the candidate whose description matches', () => {
+    const shell = line('2026-04-10', 'Shell', -100);
+    const result = matchBankRows(
+      [row('2026-04-10', 'SHELL OIL 57442', -100)],
+      [],
+      [line('2026-04-10', 'Lowes', -100), shell]
+    );
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]).toMatchObject({ matched_line_id: shell.line_id, match_confidence: 'high' });
+  });
+});
+
+// ============================================================================
+// DATE WINDOW
+// ============================================================================
+
+describe('date window', () => {
+  const only = (bankDate: string, options = {}) =>
+    matchBankRows([row(bankDate, 'ACH DEBIT', -250)], [], [line('2026-05-10', 'Insurance', -250)], options);
+
+  it('gives a lone candidate within 2 days medium confidence', () => {
+    expect(only('2026-05-12').matches[0]?.match_confidence).toBe('medium');
+  });
+
+  it('gives a lone candidate on the last day of the window low confidence', () => {
+    expect(only('2026-05-13').matches[0]?.match_confidence).toBe('low');
+  });
+
+  it('ignores candidates one day past the window', () => {
+    const result = only('2026-05-14');
+    expect(result.matches).toEqual([]);
+    expect(result.unmatched).toEqual([0]);
+  });
+
+  it('counts days across a month end', () => {
+    const result = matchBankRows([row('2026-06-02', 'ACH DEBIT', -80)], [], [line('2026-05-30', 'Phone', -80)]);
+    expect(result.matches[0]?.match_confidence).toBe('low');
+  });
+
+  it('honors a wider dateWindowDays', () => {
+    expect(only('2026-05-15').matches).toEqual([]);
+    expect(only('2026-05-15', { dateWindowDays: 5 }).matches[0]?.match_confidence).toBe('low');
+    expect(only('2026-05-16', { dateWindowDays: 5 }).matches).toEqual([]);
+  });
+});
+
+// ============================================================================
+// PENDING VS CLEARED
+// ============================================================================
+
+describe('pending and cleared candidates', () => {
+  it('prefers the pending line at equal confidence', () => {
+    const pending = line('2026-07-01', 'Costco', -312.4);
+    const cleared = line('2026-07-01', 'Costco', -312.4);
+    const result = matchBankRows([row('2026-07-01', 'COSTCO WHSE #0681', -312.4)], [pending], [cleared]);
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]).toMatchObject({ match_type: 'matched_pending', matched_line_id: pending.line_id });
+  });
+
+  it('takes a stronger cleared match over a weaker pending one', () => {
+    const pending = line('2026-07-01', 'Misc', -312.4);
+    const cleared = line('2026-07-01', 'Costco', -312.4);
+    const result = matchBankRows([row('2026-07-01', 'COSTCO WHSE #0681', -312.4)], [pending], [cleared]);
+
+    expect(result.matches[0]).toMatchObject({ match_type: 'matched_cleared', matched_line_id: cleared.line_id });
+  });
+});
+
+// ============================================================================
+// TIP ADJUSTMENTS
+// ============================================================================
+
+describe('tip adjustments', () => {
+  it('matches a posted charge to a smaller pending line from the same restaurant', () => {
+    const pending = line('2026-08-14', 'Olive Garden', -50);
+    const result = matchBankRows([row('2026-08-15', 'OLIVE GARDEN 1234', -60)], [pending], []);
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]).toMatchObject({
+      match_type: 'tip_adjustment',
+      matched_line_id: pending.line_id,
+      original_amount: -50,
+      match_confidence: 'high',
+    });
+    expect(result.matches[0].reasoning).toContain('tip $10.00');
+  });
+
+  it('rejects a tip outside the tolerance', () => {
+    const result = matchBankRows([row('2026-08-15', 'OLIVE GARDEN', -120)], [line('2026-08-14', 'Olive Garden', -50)], []);
+    expect(result.matches).toEqual([]);
+  });
+
+  it('skips pending bank rows, cleared ledger lines and allowTipAdjustments: false', () => {
+    const pendingRow = row('2026-08-15', 'OLIVE GARDEN', -60, { bank_status: 'pending' });
+    expect(matchBankRows([pendingRow], [line('2026-08-14', 'Olive Garden', -50)], []).matches).toEqual([]);
+
+    const postedRow = row('2026-08-15', 'OLIVE GARDEN', -60);
+    expect(matchBankRows([postedRow], [], [line('2026-08-14', 'Olive Garden', -50)]).matches).toEqual([]);
+    expect(
+      matchBankRows([postedRow], [line('2026-08-14', 'Olive Garden', -50)], [], { allowTipAdjustments: false }).matches
+    ).toEqual([]);
+  });
+
+  it('accepts $1-$50 or 5-50% of the original', () => {
+    expect(isReasonableTip(-10, -11)).toBe(true);
+    expect(isReasonableTip(-2000, -2050)).toBe(true);
+    expect(isReasonableTip(-1000, -1060)).toBe(true);
+    expect(isReasonableTip(-4, -4.5)).toBe(true);
+    expect(isReasonableTip(-2000, -2060)).toBe(false);
+    expect(isReasonableTip(-50, -50)).toBe(false);
+    expect(isReasonableTip(-50, -45)).toBe(false);
+    expect(isReasonableTip(0, -5)).toBe(false);
+  });
+});
+
+// ============================================================================
+// ONE-TO-ONE
+// ============================================================================
+
+describe('each ledger line is claimed once', () => {
+  it('gives a contested line to the closest row and leaves the other unmatched', () => {
+    const pending = line('2026-09-03', 'Lowes', -89.99);
+    const result = matchBankRows(
+      [row('2026-09-05', 'LOWES #1187', -89.99), row('2026-09-03', 'LOWES #1187', -89.99)],
+      [pending],
+      []
+    );
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]).toMatchObject({ row_index: 1, matched_line_id: pending.line_id });
+    expect(result.unmatched).toEqual([0]);
+  });
+
+  it('pairs identical rows with identical lines one to one', () => {
+    const lines = [line('2026-09-10', 'Netflix', -15.49), line('2026-09-10', 'Netflix', -15.49)];
+    const result = matchBankRows(
+      [row('2026-09-10', 'NETFLIX.COM', -15.49), row('2026-09-10', 'NETFLIX.COM', -15.49)],
+      [],
+      lines
+    );
+
+    expect(result.matches).toHaveLength(2);
+    expect(new Set(result.matches.map((m) => m.matched_line_id))).toEqual(new Set(lines.map((l) => l.line_id)));
+  });
+
+  it('does not reuse a line claimed by an exact match for a tip adjustment', () => {
+    const pending = line('2026-09-20', 'Chilis', -40);
+    const result = matchBankRows(
+      [row('2026-09-21', 'CHILIS 0442', -48), row('2026-09-20', 'CHILIS 0442', -40)],
+      [pending],
+      []
+    );
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]).toMatchObject({ row_index: 1, match_type: 'matched_pending' });
+    expect(result.unmatched).toEqual([0]);
+  });
+});
@@ -0,0 +1,276 @@
+// src/components/bank-import/bankMatcher.ts
+//
+// Deterministic matcher for bank rows vs ledger lines.
+// Scores candidates by amount, date window and description similarity,
+// then detects restaurant tip adjustments among what is left. Emits the same
+// match_type / match_confidence values the AI step uses, so rows matched here
+// skip the AI entirely and only unmatched rows go to the edge function.
+//
+// Amounts on both sides are in BOOK sign (negative = money out / card charge).
+
+import {
+  amountDiffCents,
+  daysBetween,
+  descriptionSimilarity,
+  SIMILAR_DESCRIPTION,
+} from '../../utils/transactionMatching';
+import type { BankStatus, MatchType } from './bankImportTypes';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Minimal bank row shape - BankFileRow and Plaid rows both satisfy this */
+export type MatchableBankRow = {
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number;
+  bank_status: BankStatus;
+  check_number?: string | null;
+};
+
+/** Minimal ledger line shape - PendingTransaction and ClearedTransaction both satisfy this */
+export type MatchableLedgerLine = {
+  line_id: number;
+  transaction_id: number;
+  date: string;
+  description: string | null;
+  amount: number;
+};
+
+export type MatchConfidence = 'high' | 'medium' | 'low';
+
+export type BankRowMatch = {
+  row_index: number;
+  match_type: Exclude<MatchType, 'new'>;
+  matched_line_id: number;
+  matched_transaction_id: number;
+  original_amount: number | null; // Ledger amount before tip (tip_adjustment only)
+  match_confidence: MatchConfidence;
+  reasoning: string;
+};
+
+export type BankMatchResult = {
+  matches: BankRowMatch[];
+  /** Row indexes with no confident match - candidates for AI fallback */
+  unmatched: number[];
+};
+
+export type BankMatchOptions = {
+  /** Max days between bank date and ledger date (default 3) */
+  dateWindowDays?: number;
+  /** Detect tip adjustments on posted rows (default true) */
+  allowTipAdjustments?: boolean;
+  /**
+   * Max amount difference, in cents, for a PENDING ledger line (default 0).
+   * Pending amounts can drift before the bank posts; cleared lines always
+   * need the exact amount.
+   */
+  toleranceCents?: number;
+};
+
+type Candidate = {
+  rowIndex: number;
+  line: MatchableLedgerLine;
+  kind: 'pending' | 'cleared';
+  dayDiff: number;
+  amountDiffCents: number;
+  similarity: number;
+  confidence: MatchConfidence;
+  score: number;
+};
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_DATE_WINDOW_DAYS = 3;
+const TIP_DATE_WINDOW_DAYS = 3;
+
+const CONFIDENCE_RANK: Record<MatchConfidence, number> = { high: 3, medium: 2, low: 1 };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check number on the bank row appearing in the ledger description is as
+ * strong as a merchant name match.
+ */
+function checkNumberMatches(row: MatchableBankRow, line: MatchableLedgerLine): boolean {
+  const check = row.check_number?.trim().replace(/^0+/, '');
+  if (!check || !line.description) return false;
+  const literal = check.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![A-Za-z0-9])0*${literal}(?![A-Za-z0-9])`).test(line.description);
+}
+
+/**
+ * Tip is reasonable if $1-$50, or 5-50% of the original charge.
+ * Mirrors the rule the AI prompt used.
+ */
+export function isReasonableTip(originalAmount: number, finalAmount: number): boolean {
+  const original = Math.abs(originalAmount);
+  const tip = Math.abs(finalAmount) - original;
+  if (tip <= 0 || original === 0) return false;
+  const pct = tip / original;
+  return (tip >= 1 && tip <= 50) || (pct >= 0.05 && pct <= 0.5);
+}
+
+// ============================================================================
+// MATCHER
+// ============================================================================
+
+/**
+ * Match bank rows to pending and cleared ledger lines.
+ *
+ * Exact-amount candidates (pending lines: within toleranceCents) inside the
+ * date window get a confidence:
+ * - high:   exact amount, within 2 days and same merchant (or same check number)
+ * - medium: same merchant within the window, or the only candidate within 2 days
+ * - low:    the only candidate within the window, no description evidence
+ * Ambiguous rows (several same-amount candidates, nothing to tell them apart)
+ * are left unmatched. Each ledger line is claimed at most once; stronger
+ * matches win, and pending lines win over cleared lines at equal confidence.
+ */
+export function matchBankRows(
+  rows: MatchableBankRow[],
+  pendingLines: MatchableLedgerLine[],
+  clearedLines: MatchableLedgerLine[],
+  options: BankMatchOptions = {}
+): BankMatchResult {
+  const dateWindow = options.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+  const allowTips = options.allowTipAdjustments ?? true;
+  const toleranceCents = Math.max(0, options.toleranceCents ?? 0);
+
+  // ---- Gather amount candidates ----
+  const raw: Omit<Candidate, 'confidence' | 'score'>[] = [];
+  const addCandidates = (lines: MatchableLedgerLine[], kind: Candidate['kind']) => {
+    const maxDiff = kind === 'pending' ? toleranceCents : 0;
+    rows.forEach((row, rowIndex) => {
+      for (const line of lines) {
+        const diff = amountDiffCents(row.amount, line.amount);
+        if (diff > maxDiff) continue;
+        const dayDiff = daysBetween(row.date, line.date);
+        if (dayDiff > dateWindow) continue;
+        const similarity = checkNumberMatches(row, line) ? 1 : descriptionSimilarity(row.description, line.description);
+        raw.push({ rowIndex, line, kind, dayDiff, amountDiffCents: diff, similarity });
+      }
+    });
+  };
+  addCandidates(pendingLines, 'pending');
+  addCandidates(clearedLines, 'cleared');
+
+  // Uniqueness: one candidate for the row AND the row is the only one wanting that line
+  const perRow = new Map<number, number>();
+  const perLine = new Map<number, number>();
+  for (const c of raw) {
+    perRow.set(c.rowIndex, (perRow.get(c.rowIndex) ?? 0) + 1);
+    perLine.set(c.line.line_id, (perLine.get(c.line.line_id) ?? 0) + 1);
+  }
+
+  const candidates: Candidate[] = [];
+  for (const c of raw) {
+    const unique = perRow.get(c.rowIndex) === 1 && perLine.get(c.line.line_id) === 1;
+    const similar = c.similarity >= SIMILAR_DESCRIPTION;
+
+    let confidence: MatchConfidence | null = null;
+    if (similar && c.dayDiff <= 2 && c.amountDiffCents === 0) confidence = 'high';
+    else if (similar || (unique && c.dayDiff <= 2)) confidence = 'medium';
+    else if (unique) confidence = 'low';
+    if (!confidence) continue;
+
+    const amountPenalty = toleranceCents > 0 ? 0.2 * (c.amountDiffCents / (toleranceCents + 1)) : 0;
+    const score = 0.6 * (1 - c.dayDiff / (dateWindow + 1)) + 0.4 * c.similarity - amountPenalty;
+    candidates.push({ ...c, confidence, score });
+  }
+
+  candidates.sort((a, b) =>
+    CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence] ||
+    (a.kind === b.kind ? 0 : a.kind === 'pending' ? -1 : 1) ||
+    b.score - a.score ||
+    a.rowIndex - b.rowIndex
+  );
+
+  // ---- Greedy one-to-one assignment ----
+  const matches: BankRowMatch[] = [];
+  const usedRows = new Set<number>();
+  const usedLines = new Set<number>();
+
+  for (const c of candidates) {
+    if (usedRows.has(c.rowIndex) || usedLines.has(c.line.line_id)) continue;
+    usedRows.add(c.rowIndex);
+    usedLines.add(c.line.line_id);
+
+    const parts = [
+      c.amountDiffCents === 0 ? 'Exact amount' : `Amount within $${(c.amountDiffCents / 100).toFixed(2)}`,
+      c.dayDiff === 0 ? 'same day' : `${c.dayDiff} day(s) apart`,
+    ];
+    if (c.similarity >= SIMILAR_DESCRIPTION) parts.push('description matches');
+
+    matches.push({
+      row_index: c.rowIndex,
+      match_type: c.kind === 'pending' ? 'matched_pending' : 'matched_cleared',
+      matched_line_id: c.line.line_id,
+      matched_transaction_id: c.line.transaction_id,
+      original_amount: null,
+      match_confidence: c.confidence,
+      reasoning: `${parts.join(', ')} (${c.kind} ledger line)`,
+    });
+  }
+
+  // ---- Tip adjustments among the leftovers ----
+  if (allowTips) {
+    const tipCandidates: Candidate[] = [];
+    rows.forEach((row, rowIndex) => {
+      if (usedRows.has(rowIndex) || row.bank_status !== 'posted' || row.amount >= 0) return;
+      for (const line of pendingLines) {
+        if (usedLines.has(line.line_id) || line.amount >= 0) continue;
+        if (!isReasonableTip(line.amount, row.amount)) continue;
+        const dayDiff = daysBetween(row.date, line.date);
+        if (dayDiff > TIP_DATE_WINDOW_DAYS) continue;
+        const similarity = descriptionSimilarity(row.description, line.description);
+        if (similarity < SIMILAR_DESCRIPTION) continue;
+        const confidence: MatchConfidence = similarity >= 0.5 && dayDiff <= 2 ? 'high' : 'medium';
+        // Prefer the smallest tip among equally similar candidates
+        const tipPct = (Math.abs(row.amount) - Math.abs(line.amount)) / Math.abs(line.amount);
+        tipCandidates.push({
+          rowIndex,
+          line,
+          kind: 'pending',
+          dayDiff,
+          amountDiffCents: amountDiffCents(row.amount, line.amount),
+          similarity,
+          confidence,
+          score: similarity - tipPct * 0.1,
+        });
+      }
+    });
+
+    tipCandidates.sort((a, b) =>
+      CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence] || b.score - a.score || a.rowIndex - b.rowIndex
+    );
+
+    for (const c of tipCandidates) {
+      if (usedRows.has(c.rowIndex) || usedLines.has(c.line.line_id)) continue;
+      usedRows.add(c.rowIndex);
+      usedLines.add(c.line.line_id);
+
+      const original = Math.abs(c.line.amount);
+      const final = Math.abs(rows[c.rowIndex].amount);
+      matches.push({
+        row_index: c.rowIndex,
+        match_type: 'tip_adjustment',
+        matched_line_id: c.line.line_id,
+        matched_transaction_id: c.line.transaction_id,
+        original_amount: c.line.amount,
+        match_confidence: c.confidence,
+        reasoning: `Tip added: original $${original.toFixed(2)}, final $${final.toFixed(2)}, tip $${(final - original).toFixed(2)}`,
+      });
+    }
+  }
+
+  matches.sort((a, b) => a.row_index - b.row_index);
+  const unmatched = rows.map((_, i) => i).filter((i) => !usedRows.has(i));
+
+  return { matches, unmatched };
+}
@@ -1,6 +1,8 @@
 import { useEffect, useState, useMemo } from 'react';
 import { supabase } from '../../lib/supabaseClient';
 import { formatLocalDate } from '../../utils/date';
+import type { EntityFilter } from '../../utils/entities';
+import { EntitySelect } from '../shared/EntitySelect';
 
 type ViewMode = 'year' | 'month' | 'day' | 'detail';
 type CategorySort = 'total' | 'name';
@@ -118,6 +120,7 @@ export function ExpenseByCategory() {
   const currentMonth = `${currentYear}-${String(new Date().getMonth() + 1).padStart(2, '0')}`;
 
   const [year, setYear] = useState<number>(currentYear);
+  const [entity, setEntity] = useState<EntityFilter>('all');
 
   const [viewMode, setViewMode] = useState<ViewMode>('year');
   const [selectedAccountId, setSelectedAccountId] = useState<number | null>(null);
@@ -153,7 +156,7 @@ export function ExpenseByCategory() {
         const startDate = `${year}-01-01`;
         const endDate = `${year}-12-31`;
 
-        const { data, error: lineErr } = await supabase
+        let query = supabase
           .from('transaction_lines')
           .select(
             `id, account_id, amount, is_cleared, 
@@ -167,7 +170,9 @@ export function ExpenseByCategory() {
           .eq('accounts.account_type_id', expenseTypeId)
           .gte('transactions.date', startDate)
           .lte('transactions.date', endDate);
+        if (entity !== 'all') query = query.eq('accounts.entity', entity);
 
+        const { data, error: lineErr } = await query;
         if (lineErr) throw lineErr;
 
         const raw: RawLine[] = (data ?? []) as unknown as RawLine[];
@@ -200,7 +205,7 @@ export function ExpenseByCategory() {
       }
     }
     loadExpenses();
-  }, [year]);
+  }, [year, entity]);
 
   const formatMoney = (value: number) =>
     value.toLocaleString('en-US', {
@@ -353,7 +358,8 @@ export function ExpenseByCategory() {
               </option>
             );
           })}
-        </select>
+        </select>{' '}
+        Entity: <EntitySelect value={entity} onChange={setEntity} />
       </label>
 
       {/* Clickable breadcrumbs */}
@@ -3,6 +3,8 @@ import { supabase } from '../../lib/supabaseClient';
 import { formatCurrency } from '../../utils/format';
 import { getDayOfYearForYear } from '../../utils/date';
 import { isMarketingExpenseCode, isRentalExpenseCode, isFlipExpenseCode, isPersonalREExpenseCode } from '../../utils/accounts';
+import { matchesEntity, type EntityFilter } from '../../utils/entities';
+import { EntitySelect } from '../shared/EntitySelect';
 
 type RawLine = {
   id: number;
@@ -14,6 +16,7 @@ type RawLine = {
   accounts: {
     name: string;
     code: string | null;
+    entity: string | null;
     account_types: { name: string } | null;
   } | null;
   transactions: { date: string } | null;
@@ -42,6 +45,7 @@ function createEmptyMonthly(): number[] {
 
 export function CategoriesSummaryView() {
   const [year, setYear] = useState<number>(new Date().getFullYear());
+  const [entity, setEntity] = useState<EntityFilter>('all');
   const [lines, setLines] = useState<RawLine[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -68,6 +72,7 @@ export function CategoriesSummaryView() {
             accounts (
               name,
               code,
+              entity,
               account_types (name)
             ),
             transactions!inner (date)
@@ -112,6 +117,7 @@ export function CategoriesSummaryView() {
     for (const line of lines) {
       const accType = line.accounts?.account_types?.name;
       if (accType !== 'expense') continue;
+      if (!matchesEntity(line.accounts?.entity, entity)) continue;
 
       const dateStr = line.transactions?.date;
       if (!dateStr) continue;
@@ -192,7 +198,7 @@ export function CategoriesSummaryView() {
       personalRE: finalizeGroup(maps.personalRE),
       other: finalizeGroup(maps.other),
     };
-  }, [lines]);
+  }, [lines, entity]);
 
   const currency = (value: number) => formatCurrency(value, 2);
 
@@ -363,6 +369,8 @@ export function CategoriesSummaryView() {
             <option key={y} value={y}>{y}</option>
           ))}
         </select>
+        <span className="expenses-summary__label">Entity:</span>
+        <EntitySelect value={entity} onChange={setEntity} className="expenses-summary__year-select" />
       </div>
 
       {renderGroupTable('Job Expenses', grouped.job)}
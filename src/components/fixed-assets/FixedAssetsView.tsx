@@ -0,0 +1,642 @@
+// src/components/fixed-assets/FixedAssetsView.tsx
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { formatCurrency } from '../../utils/format';
+import { formatLocalDate, todayLocalISO } from '../../utils/date';
+import { ACCOUNT_CODE_RANGES, isCashAccount, isCodeInRange, isFixedAssetCode } from '../../utils/accounts';
+import {
+  FIXED_ASSET_METHOD_LABELS,
+  buildDisposalEntry,
+  disposalProblem,
+  fixedAssetSchedule,
+  postedAccumulated,
+  recoveryYearsFor,
+  unpostedForYear,
+  validateFixedAsset,
+  type DisposalForm,
+  type FixedAsset,
+  type FixedAssetForm,
+  type FixedAssetMethod,
+  type FixedAssetPosting,
+} from '../../utils/fixedAssets';
+import { disposeFixedAsset, loadFixedAssets, postFixedAssetDepreciation } from './fixedAssetPosting';
+
+type AccountOption = {
+  id: number;
+  name: string;
+  code: string | null;
+};
+
+const EMPTY_FORM: FixedAssetForm = {
+  name: '',
+  description: null,
+  asset_account_id: 0,
+  accumulated_depreciation_account_id: 0,
+  depreciation_expense_account_id: 0,
+  cost: '',
+  in_service_date: '',
+  method: 'macrs_7',
+  recovery_years: 7,
+  bonus_rate: '100',
+};
+
+const EMPTY_DISPOSAL: DisposalForm = {
+  disposed_on: '',
+  proceeds: '',
+  cash_account_id: null,
+  gain_loss_account_id: null,
+};
+
+const METHOD_OPTIONS = Object.entries(FIXED_ASSET_METHOD_LABELS) as [FixedAssetMethod, string][];
+
+/** Latest year whose December 31 depreciation date has passed */
+function lastPostableYear(today: string): number {
+  const year = Number(today.slice(0, 4));
+  return today >= `${year}-12-31` ? year : year - 1;
+}
+
+export function FixedAssetsView() {
+  const [assets, setAssets] = useState<FixedAsset[]>([]);
+  const [postings, setPostings] = useState<FixedAssetPosting[]>([]);
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showDisposed, setShowDisposed] = useState(false);
+
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<FixedAssetForm>(EMPTY_FORM);
+  const [disposal, setDisposal] = useState<DisposalForm>(EMPTY_DISPOSAL);
+
+  const today = todayLocalISO();
+  const [postYear, setPostYear] = useState(() => lastPostableYear(today));
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // ---------------------------------------------------------------------------
+  // Data Loading
+  // ---------------------------------------------------------------------------
+
+  const reload = useCallback(async () => {
+    const [data, accountsRes] = await Promise.all([
+      loadFixedAssets(),
+      supabase.from('accounts').select('id, name, code').eq('is_active', true).order('code', { ascending: true }),
+    ]);
+    if (accountsRes.error) throw accountsRes.error;
+    setAssets(data.assets);
+    setPostings(data.postings);
+    setAccounts((accountsRes.data ?? []) as unknown as AccountOption[]);
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    reload()
+      .catch((err: unknown) => {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Failed to load fixed assets');
+      })
+      .finally(() => setLoading(false));
+  }, [reload]);
+
+  const assetAccounts = accounts.filter((a) => isFixedAssetCode(a.code));
+  const expenseAccounts = accounts.filter((a) =>
+    isCodeInRange(a.code, ACCOUNT_CODE_RANGES.OVERHEAD_MIN, ACCOUNT_CODE_RANGES.OVERHEAD_MAX)
+  );
+  const cashAccounts = accounts.filter((a) => isCashAccount(a.code));
+  const gainLossAccounts = accounts.filter(
+    (a) =>
+      isCodeInRange(a.code, ACCOUNT_CODE_RANGES.JOB_INCOME_MIN, ACCOUNT_CODE_RANGES.JOB_INCOME_MAX) ||
+      isCodeInRange(a.code, ACCOUNT_CODE_RANGES.OVERHEAD_MIN, ACCOUNT_CODE_RANGES.OVERHEAD_MAX)
+  );
+
+  const visibleAssets = useMemo(
+    () => assets.filter((a) => showDisposed || !a.disposed_on).sort((a, b) => a.name.localeCompare(b.name)),
+    [assets, showDisposed]
+  );
+  const selected = assets.find((a) => a.id === selectedId) ?? null;
+  const schedule = useMemo(() => (selected ? fixedAssetSchedule(selected) : []), [selected]);
+  const unposted = useMemo(() => unpostedForYear(assets, postings, postYear), [assets, postings, postYear]);
+
+  const maxYear = lastPostableYear(today);
+  const firstYear = assets.length
+    ? Math.min(...assets.map((a) => Number(a.in_service_date.slice(0, 4))))
+    : maxYear;
+  const postYears: number[] = [];
+  for (let y = maxYear; y >= Math.min(firstYear, maxYear); y--) postYears.push(y);
+
+  const currency = (val: number) => formatCurrency(val, 2);
+  const accountLabel = (a: AccountOption) => (a.code ? `${a.code} - ${a.name}` : a.name);
+
+  // ---------------------------------------------------------------------------
+  // Form Helpers
+  // ---------------------------------------------------------------------------
+
+  function resetMessages() {
+    setError(null);
+    setSuccess(null);
+  }
+
+  function selectAsset(asset: FixedAsset) {
+    setIsCreating(false);
+    setSelectedId(asset.id);
+    setForm({
+      name: asset.name,
+      description: asset.description,
+      asset_account_id: asset.asset_account_id,
+      accumulated_depreciation_account_id: asset.accumulated_depreciation_account_id,
+      depreciation_expense_account_id: asset.depreciation_expense_account_id,
+      cost: String(asset.cost),
+      in_service_date: asset.in_service_date,
+      method: asset.method,
+      recovery_years: asset.recovery_years,
+      bonus_rate: String(Math.round(asset.bonus_rate * 10000) / 100),
+    });
+    setDisposal(EMPTY_DISPOSAL);
+    resetMessages();
+  }
+
+  function startCreate() {
+    setIsCreating(true);
+    setSelectedId(null);
+    setForm(EMPTY_FORM);
+    resetMessages();
+  }
+
+  function cancelEdit() {
+    setIsCreating(false);
+    setSelectedId(null);
+    resetMessages();
+  }
+
+  function setMethod(method: FixedAssetMethod) {
+    setForm((prev) => ({ ...prev, method, recovery_years: recoveryYearsFor(method, prev.recovery_years) }));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Actions
+  // ---------------------------------------------------------------------------
+
+  async function handleSave(e: FormEvent) {
+    e.preventDefault();
+    const problem = validateFixedAsset(form, accounts);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    resetMessages();
+    try {
+      const payload = {
+        name: form.name.trim(),
+        description: form.description?.trim() || null,
+        asset_account_id: form.asset_account_id,
+        accumulated_depreciation_account_id: form.accumulated_depreciation_account_id,
+        depreciation_expense_account_id: form.depreciation_expense_account_id,
+        cost: Number(form.cost),
+        in_service_date: form.in_service_date,
+        method: form.method,
+        recovery_years: form.recovery_years,
+        bonus_rate: form.method === 'bonus' ? Number(form.bonus_rate) / 100 : 1,
+        updated_at: new Date().toISOString(),
+      };
+      if (isCreating) {
+        const { data, error: err } = await supabase.from('fixed_assets').insert(payload).select('id').single();
+        if (err) throw err;
+        await reload();
+        setIsCreating(false);
+        setSelectedId((data as { id: number }).id);
+        setSuccess('Asset added.');
+      } else if (selected) {
+        const { error: err } = await supabase.from('fixed_assets').update(payload).eq('id', selected.id);
+        if (err) throw err;
+        await reload();
+        setSuccess('Asset saved. Entries already posted are not changed.');
+      }
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save asset');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!selected) return;
+    if (!window.confirm(`Delete ${selected.name}? Entries already posted are not changed.`)) return;
+    setSaving(true);
+    resetMessages();
+    try {
+      const { error: err } = await supabase.from('fixed_assets').delete().eq('id', selected.id);
+      if (err) throw err;
+      await reload();
+      setSelectedId(null);
+      setSuccess('Asset deleted.');
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to delete asset');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handlePostYear() {
+    setSaving(true);
+    resetMessages();
+    try {
+      await postFixedAssetDepreciation(postYear, unposted);
+      await reload();
+      const total = unposted.reduce((s, u) => s + u.amount, 0);
+      setSuccess(`Posted ${currency(total)} equipment depreciation for ${postYear}.`);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to post depreciation');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDispose() {
+    if (!selected) return;
+    const problem = disposalProblem(selected, postings, disposal);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const entry = buildDisposalEntry(selected, postings, disposal);
+    const result = entry.gainOrLoss >= 0 ? `gain of ${currency(entry.gainOrLoss)}` : `loss of ${currency(-entry.gainOrLoss)}`;
+    if (!window.confirm(`Dispose of ${selected.name} on ${formatLocalDate(disposal.disposed_on)} with a ${result}?`)) return;
+    setSaving(true);
+    resetMessages();
+    try {
+      await disposeFixedAsset(selected, postings, disposal);
+      await reload();
+      setDisposal(EMPTY_DISPOSAL);
+      setSuccess(`${selected.name} disposed of with a ${result}.`);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to dispose of asset');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  if (loading) return <div>Loading fixed assets...</div>;
+
+  const isEditing = selectedId !== null || isCreating;
+  const disposalPreview =
+    selected && !selected.disposed_on && disposal.disposed_on && disposal.disposed_on >= selected.in_service_date
+      ? buildDisposalEntry(selected, postings, disposal)
+      : null;
+
+  const accountSelect = (
+    value: number,
+    options: AccountOption[],
+    onChange: (id: number) => void
+  ) => (
+    <select value={value || ''} onChange={(e) => onChange(e.target.value ? Number(e.target.value) : 0)}>
+      <option value="">-- None --</option>
+      {options.map((a) => (
+        <option key={a.id} value={a.id}>
+          {accountLabel(a)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div>
+      <h2>Fixed Assets</h2>
+      <p className="text-muted text-sm">
+        Equipment and vehicles are capitalized to fixed asset accounts (15000-15999) and depreciated by MACRS, Section
+        179 or bonus depreciation. Depreciation posts once a year to an overhead expense account, so it reaches
+        Schedule C line 13.
+      </p>
+
+      {!isEditing && error && <div className="alert alert--error">{error}</div>}
+      {!isEditing && success && <div className="alert alert--success">{success}</div>}
+
+      {/* Annual posting */}
+      <div className="card fixed-assets__posting">
+        <div className="fixed-assets__posting-header">
+          <label className="form-label form-label--inline">
+            Tax year
+            <select value={postYear} onChange={(e) => setPostYear(Number(e.target.value))}>
+              {postYears.map((y) => (
+                <option key={y} value={y}>
+                  {y}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="button" className="btn" onClick={handlePostYear} disabled={saving || unposted.length === 0}>
+            Post {postYear} Depreciation
+          </button>
+        </div>
+        {unposted.length === 0 ? (
+          <p className="text-muted text-sm">Nothing left to post for {postYear}.</p>
+        ) : (
+          <table className="table fixed-assets__table">
+            <tbody>
+              {unposted.map(({ asset, amount }) => (
+                <tr key={asset.id}>
+                  <td>{asset.name}</td>
+                  <td>{FIXED_ASSET_METHOD_LABELS[asset.method]}</td>
+                  <td className="text-right">{currency(amount)}</td>
+                </tr>
+              ))}
+              <tr>
+                <td colSpan={2}>
+                  <strong>Total</strong>
+                </td>
+                <td className="text-right">
+                  <strong>{currency(unposted.reduce((s, u) => s + u.amount, 0))}</strong>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="list-detail-layout">
+        {/* Left: Asset list */}
+        <div className="list-panel">
+          <div className="list-panel__header">
+            <span className="list-panel__title">Assets</span>
+            <button type="button" onClick={startCreate} className="btn btn-sm">
+              + New
+            </button>
+          </div>
+          <div className="list-panel__filter">
+            <label className="filter-label--sm">
+              <input type="checkbox" checked={showDisposed} onChange={(e) => setShowDisposed(e.target.checked)} /> Show
+              disposed
+            </label>
+          </div>
+          {visibleAssets.length === 0 ? (
+            <div className="list-panel__empty">No fixed assets yet.</div>
+          ) : (
+            <div className="list-panel__content">
+              {visibleAssets.map((asset) => (
+                <div
+                  key={asset.id}
+                  onClick={() => selectAsset(asset)}
+                  className={`list-item ${selectedId === asset.id ? 'list-item--selected' : ''}`}
+                >
+                  <div className="list-item__name">{asset.name}</div>
+                  <div className="list-item__subtitle">
+                    {currency(asset.cost)} - {FIXED_ASSET_METHOD_LABELS[asset.method]} -{' '}
+                    {formatLocalDate(asset.in_service_date)}
+                  </div>
+                  {asset.disposed_on && <span className="status-badge status-badge--inactive">Disposed</span>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Right: Detail */}
+        <div className="detail-panel">
+          {!isEditing ? (
+            <div className="detail-panel__empty">Select an asset or add a new one.</div>
+          ) : (
+            <>
+              <form onSubmit={handleSave}>
+                <div className="detail-panel__header">
+                  <h3 className="detail-panel__title">{isCreating ? 'New Asset' : 'Edit Asset'}</h3>
+                  <button type="button" onClick={cancelEdit} className="btn-link">
+                    Close
+                  </button>
+                </div>
+
+                {error && <div className="alert alert--error">{error}</div>}
+                {success && <div className="alert alert--success">{success}</div>}
+
+                <div className="form-grid">
+                  <label className="form-label">
+                    Name
+                    <input
+                      type="text"
+                      value={form.name}
+                      onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                      placeholder="e.g. 2024 F-150"
+                    />
+                  </label>
+
+                  <label className="form-label">
+                    Description
+                    <input
+                      type="text"
+                      value={form.description ?? ''}
+                      onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+                    />
+                  </label>
+
+                  <label className="form-label">
+                    Cost
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={form.cost}
+                      onChange={(e) => setForm((prev) => ({ ...prev, cost: e.target.value }))}
+                    />
+                  </label>
+
+                  <label className="form-label">
+                    In Service
+                    <input
+                      type="date"
+                      value={form.in_service_date}
+                      onChange={(e) => setForm((prev) => ({ ...prev, in_service_date: e.target.value }))}
+                    />
+                  </label>
+
+                  <label className="form-label">
+                    Method
+                    <select value={form.method} onChange={(e) => setMethod(e.target.value as FixedAssetMethod)}>
+                      {METHOD_OPTIONS.map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  {form.method === 'bonus' && (
+                    <>
+                      <label className="form-label">
+                        Bonus Rate (%)
+                        <input
+                          type="number"
+                          step="1"
+                          value={form.bonus_rate}
+                          onChange={(e) => setForm((prev) => ({ ...prev, bonus_rate: e.target.value }))}
+                        />
+                      </label>
+                      <label className="form-label">
+                        Recovery Period for the Rest
+                        <select
+                          value={form.recovery_years}
+                          onChange={(e) =>
+                            setForm((prev) => ({ ...prev, recovery_years: Number(e.target.value) === 5 ? 5 : 7 }))
+                          }
+                        >
+                          <option value={5}>5-year (vehicles, computers)</option>
+                          <option value={7}>7-year (tools, equipment)</option>
+                        </select>
+                      </label>
+                    </>
+                  )}
+
+                  <label className="form-label">
+                    Asset Account
+                    {accountSelect(form.asset_account_id, assetAccounts, (id) =>
+                      setForm((prev) => ({ ...prev, asset_account_id: id }))
+                    )}
+                  </label>
+
+                  <label className="form-label">
+                    Accumulated Depreciation Account
+                    {accountSelect(form.accumulated_depreciation_account_id, assetAccounts, (id) =>
+                      setForm((prev) => ({ ...prev, accumulated_depreciation_account_id: id }))
+                    )}
+                  </label>
+
+                  <label className="form-label">
+                    Depreciation Expense Account
+                    {accountSelect(form.depreciation_expense_account_id, expenseAccounts, (id) =>
+                      setForm((prev) => ({ ...prev, depreciation_expense_account_id: id }))
+                    )}
+                  </label>
+                </div>
+                {form.method === 'section_179' && (
+                  <p className="text-muted text-sm">
+                    Section 179 is limited to business income and the annual dollar cap; check both before electing.
+                  </p>
+                )}
+
+                <div className="detail-panel__footer">
+                  {selected && (
+                    <button type="button" className="btn" onClick={handleDelete} disabled={saving}>
+                      Delete
+                    </button>
+                  )}
+                  <button type="submit" disabled={saving}>
+                    {saving ? 'Saving...' : isCreating ? 'Add Asset' : 'Save Asset'}
+                  </button>
+                </div>
+              </form>
+
+              {selected && (
+                <div>
+                  <h4>Depreciation Schedule</h4>
+                  <table className="table fixed-assets__table">
+                    <thead>
+                      <tr>
+                        <th>Year</th>
+                        <th className="text-right">Depreciation</th>
+                        <th className="text-right">Accumulated</th>
+                        <th className="text-right">Book Value</th>
+                        <th>Posted</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {schedule.map((row) => {
+                        const posting = postings.find((p) => p.fixed_asset_id === selected.id && p.tax_year === row.year);
+                        return (
+                          <tr key={row.year}>
+                            <td>{row.year}</td>
+                            <td className="text-right">{currency(row.depreciation)}</td>
+                            <td className="text-right">{currency(row.accumulated)}</td>
+                            <td className="text-right">{currency(row.remaining)}</td>
+                            <td>
+                              {posting ? (
+                                currency(posting.amount)
+                              ) : row.depreciation > 0 && row.year <= maxYear ? (
+                                <span className="status-badge status-badge--warning">Not posted</span>
+                              ) : (
+                                '-'
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+
+                  <h4>Disposal</h4>
+                  {selected.disposed_on ? (
+                    <p className="text-muted text-sm">
+                      Disposed of on {formatLocalDate(selected.disposed_on)} for{' '}
+                      {currency(selected.disposal_proceeds ?? 0)}. Accumulated depreciation posted:{' '}
+                      {currency(postedAccumulated(selected.id, postings))}.
+                    </p>
+                  ) : (
+                    <>
+                      <p className="text-muted text-sm">
+                        Sold, traded in or scrapped. The entry books the disposal year's half year of depreciation,
+                        removes the asset and records the gain or loss (Form 4797).
+                      </p>
+                      <div className="form-grid">
+                        <label className="form-label">
+                          Disposed On
+                          <input
+                            type="date"
+                            value={disposal.disposed_on}
+                            onChange={(e) => setDisposal((prev) => ({ ...prev, disposed_on: e.target.value }))}
+                          />
+                        </label>
+                        <label className="form-label">
+                          Proceeds
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={disposal.proceeds}
+                            onChange={(e) => setDisposal((prev) => ({ ...prev, proceeds: e.target.value }))}
+                            placeholder="0 if scrapped"
+                          />
+                        </label>
+                        <label className="form-label">
+                          Deposited To
+                          {accountSelect(disposal.cash_account_id ?? 0, cashAccounts, (id) =>
+                            setDisposal((prev) => ({ ...prev, cash_account_id: id || null }))
+                          )}
+                        </label>
+                        <label className="form-label">
+                          Gain/Loss Account
+                          {accountSelect(disposal.gain_loss_account_id ?? 0, gainLossAccounts, (id) =>
+                            setDisposal((prev) => ({ ...prev, gain_loss_account_id: id || null }))
+                          )}
+                        </label>
+                      </div>
+                      {disposalPreview && (
+                        <p className="text-muted text-sm">
+                          {disposalPreview.disposalYear} depreciation {currency(disposalPreview.finalYearDepreciation)}
+                          ; book value {currency(disposalPreview.bookValue)};{' '}
+                          {disposalPreview.gainOrLoss >= 0 ? 'gain' : 'loss'}{' '}
+                          {currency(Math.abs(disposalPreview.gainOrLoss))}.
+                        </p>
+                      )}
+                      <div className="detail-panel__footer">
+                        <button type="button" onClick={handleDispose} disabled={saving || !disposal.disposed_on}>
+                          Dispose of Asset
+                        </button>
+                      </div>
+                    </>
+                  )}
+                  <div className="detail-panel__meta">Asset ID: {selected.id}</div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
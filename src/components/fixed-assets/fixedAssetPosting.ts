@@ -0,0 +1,123 @@
+// src/components/fixed-assets/fixedAssetPosting.ts
+
+import { supabase } from '../../lib/supabaseClient';
+import { formatLocalDate } from '../../utils/date';
+import {
+  FIXED_ASSET_POSTING_SELECT,
+  FIXED_ASSET_SELECT,
+  buildDisposalEntry,
+  buildFixedAssetDepreciationLines,
+  disposalProblem,
+  normalizeFixedAsset,
+  normalizeFixedAssetPosting,
+  type DisposalForm,
+  type FixedAsset,
+  type FixedAssetPosting,
+} from '../../utils/fixedAssets';
+import { withIntercompanyLines } from '../shared/entityContext';
+import { loadClosedThrough } from '../shared/closedPeriod';
+import { openPostingDate } from '../../utils/periodClose';
+
+export type FixedAssetData = {
+  assets: FixedAsset[];
+  postings: FixedAssetPosting[];
+};
+
+const UNIQUE_VIOLATION = '23505';
+
+/** Every fixed asset with its posted depreciation years */
+export async function loadFixedAssets(): Promise<FixedAssetData> {
+  const [assetsRes, postingsRes] = await Promise.all([
+    supabase.from('fixed_assets').select(FIXED_ASSET_SELECT).order('in_service_date', { ascending: true }),
+    supabase.from('fixed_asset_depreciation_postings').select(FIXED_ASSET_POSTING_SELECT).order('tax_year', { ascending: true }),
+  ]);
+  if (assetsRes.error) throw assetsRes.error;
+  if (postingsRes.error) throw postingsRes.error;
+
+  return {
+    assets: ((assetsRes.data ?? []) as unknown as FixedAsset[]).map(normalizeFixedAsset),
+    postings: ((postingsRes.data ?? []) as unknown as FixedAssetPosting[]).map(normalizeFixedAssetPosting),
+  };
+}
+
+/** Closing date, or the first open date after it when its period is closed */
+async function postingDate(date: string): Promise<string> {
+  const closedThrough = await loadClosedThrough().catch((err: unknown) => {
+    console.warn('Failed to load closed periods:', err);
+    return null;
+  });
+  return openPostingDate(date, closedThrough);
+}
+
+/**
+ * Post a year's depreciation for the given assets as one entry dated
+ * December 31, through post_fixed_asset_depreciation: every asset-year is
+ * claimed, the entry posted and the claims linked in one database
+ * transaction, so two sessions can't both post it and if any year is
+ * already claimed nothing is posted. Returns the new transaction id.
+ */
+export async function postFixedAssetDepreciation(
+  year: number,
+  items: { asset: FixedAsset; amount: number }[]
+): Promise<number | null> {
+  const toPost = items.filter((item) => item.amount > 0);
+  if (toPost.length === 0) throw new Error(`No depreciation to post for ${year}.`);
+  const lines = await withIntercompanyLines(buildFixedAssetDepreciationLines(toPost));
+
+  const entryDate = `${year}-12-31`;
+  const postedOn = await postingDate(entryDate);
+  const description =
+    `Equipment depreciation ${year}` + (postedOn === entryDate ? '' : ` (for ${formatLocalDate(entryDate)})`);
+
+  const { data: newTransactionId, error: rpcErr } = await supabase.rpc('post_fixed_asset_depreciation', {
+    p_tax_year: year,
+    p_claims: toPost.map(({ asset, amount }) => ({ fixed_asset_id: asset.id, amount })),
+    p_date: postedOn,
+    p_description: description,
+    p_lines: lines,
+  });
+  if (rpcErr) {
+    if (rpcErr.code === UNIQUE_VIOLATION) throw new Error(`Some ${year} depreciation is already posted. Reload and try again.`);
+    throw rpcErr;
+  }
+  return typeof newTransactionId === 'number' ? newTransactionId : null;
+}
+
+/**
+ * Post the disposal entry and mark the asset disposed through
+ * dispose_fixed_asset, in one database transaction. The entry includes the
+ * disposal year's depreciation, which is claimed like an annual posting so
+ * the year can't be posted twice.
+ */
+export async function disposeFixedAsset(
+  asset: FixedAsset,
+  postings: FixedAssetPosting[],
+  form: DisposalForm
+): Promise<number | null> {
+  const problem = disposalProblem(asset, postings, form);
+  if (problem) throw new Error(problem);
+
+  const entry = buildDisposalEntry(asset, postings, form);
+  const lines = await withIntercompanyLines(entry.lines);
+  const postedOn = await postingDate(form.disposed_on);
+  const description =
+    `Disposal - ${asset.name}` + (postedOn === form.disposed_on ? '' : ` (for ${formatLocalDate(form.disposed_on)})`);
+
+  const { data: newTransactionId, error: rpcErr } = await supabase.rpc('dispose_fixed_asset', {
+    p_fixed_asset_id: asset.id,
+    p_disposed_on: form.disposed_on,
+    p_proceeds: entry.proceeds,
+    p_final_year: entry.disposalYear,
+    p_final_year_depreciation: entry.finalYearDepreciation,
+    p_date: postedOn,
+    p_description: description,
+    p_lines: lines,
+  });
+  if (rpcErr) {
+    if (rpcErr.code === UNIQUE_VIOLATION) {
+      throw new Error(`${entry.disposalYear} depreciation for ${asset.name} is already posted.`);
+    }
+    throw rpcErr;
+  }
+  return typeof newTransactionId === 'number' ? newTransactionId : null;
+}
@@ -1,17 +1,30 @@
-import { useState, useEffect, type FormEvent } from 'react';
+import { useState, useEffect, type ChangeEvent, type FormEvent } from 'react';
 import { supabase } from '../../lib/supabaseClient';
+import { ATTACHMENT_ACCEPT } from '../../utils/attachments';
+import { todayLocalISO } from '../../utils/date';
+import {
+  TAX_CLASSIFICATION_LABELS,
+  TIN_TYPE_LABELS,
+  formatTin,
+  tinTypeFromFormat,
+  validateTin,
+  w9Problems,
+  type InstallerW9,
+  type TaxClassification,
+  type TinType,
+} from '../../utils/w9';
+import { removeW9Document, uploadW9Document, w9DocumentUrl } from './w9Documents';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
 
-type Installer = {
+type Installer = InstallerW9 & {
   id: number;
   first_name: string;
   last_name: string | null;
   company_name: string | null;
   address: string | null;
-  tax_id: string | null;
   phone: string | null;
   email: string | null;
   is_active: boolean;
@@ -47,6 +60,13 @@ export function InstallerManageView({ initialSelectedId, onSelectionUsed }: Inst
   const [email, setEmail] = useState('');
   const [isActive, setIsActive] = useState(true);
 
+  // W-9 fields
+  const [w9ReceivedOn, setW9ReceivedOn] = useState('');
+  const [tinType, setTinType] = useState<TinType | ''>('');
+  const [taxClassification, setTaxClassification] = useState<TaxClassification | ''>('');
+  const [backupWithholding, setBackupWithholding] = useState(false);
+  const [uploadingW9, setUploadingW9] = useState(false);
+
   // UI state
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -110,6 +130,10 @@ export function InstallerManageView({ initialSelectedId, onSelectionUsed }: Inst
     setPhone('');
     setEmail('');
     setIsActive(true);
+    setW9ReceivedOn('');
+    setTinType('');
+    setTaxClassification('');
+    setBackupWithholding(false);
     setError(null);
     setSuccess(null);
   }
@@ -123,6 +147,10 @@ export function InstallerManageView({ initialSelectedId, onSelectionUsed }: Inst
     setPhone(installer.phone || '');
     setEmail(installer.email || '');
     setIsActive(installer.is_active);
+    setW9ReceivedOn(installer.w9_received_on || '');
+    setTinType(installer.tin_type || '');
+    setTaxClassification(installer.tax_classification || '');
+    setBackupWithholding(installer.backup_withholding);
     setError(null);
     // Don't clear success here - it would erase the "saved" feedback
   }
@@ -154,6 +182,13 @@ export function InstallerManageView({ initialSelectedId, onSelectionUsed }: Inst
       return;
     }
 
+    const effectiveTinType = tinType || tinTypeFromFormat(taxId);
+    const tinError = validateTin(taxId, effectiveTinType);
+    if (tinError) {
+      setError(tinError);
+      return;
+    }
+
     setSaving(true);
 
     const payload = {
@@ -161,10 +196,14 @@ export function InstallerManageView({ initialSelectedId, onSelectionUsed }: Inst
       last_name: lastName.trim() || null,
       company_name: companyName.trim() || null,
       address: address.trim() || null,
-      tax_id: taxId.trim() || null,
+      tax_id: taxId.trim() ? formatTin(taxId, effectiveTinType) : null,
       phone: phone.trim() || null,
       email: email.trim() || null,
       is_active: isActive,
+      w9_received_on: w9ReceivedOn || null,
+      tin_type: effectiveTinType,
+      tax_classification: taxClassification || null,
+      backup_withholding: backupWithholding,
     };
 
     if (isCreating) {
@@ -213,6 +252,68 @@ export function InstallerManageView({ initialSelectedId, onSelectionUsed }: Inst
     }
   }
 
+  // ─────────────────────────────────────────────────────────────────────────────
+  // W-9 Document
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  // Uploads save right away; the received date defaults to today
+  async function handleW9Upload(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || selectedId === null) return;
+    const previousPath = installers.find((i) => i.id === selectedId)?.w9_storage_path ?? null;
+
+    setUploadingW9(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const path = await uploadW9Document(selectedId, file);
+      const patch = { w9_storage_path: path, w9_file_name: file.name, w9_received_on: w9ReceivedOn || todayLocalISO() };
+      const { error: updateError } = await supabase.from('installers').update(patch).eq('id', selectedId);
+      if (updateError) {
+        await removeW9Document(path);
+        throw updateError;
+      }
+      if (previousPath) await removeW9Document(previousPath);
+
+      setInstallers((prev) => prev.map((i) => (i.id === selectedId ? { ...i, ...patch } : i)));
+      setSuccess('W-9 uploaded.');
+    } catch (err: unknown) {
+      console.error('Error uploading W-9:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload W-9');
+    } finally {
+      setUploadingW9(false);
+    }
+  }
+
+  async function handleViewW9(path: string) {
+    try {
+      window.open(await w9DocumentUrl(path), '_blank', 'noopener');
+    } catch (err: unknown) {
+      console.error('Error opening W-9:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open W-9');
+    }
+  }
+
+  async function handleRemoveW9(path: string) {
+    if (selectedId === null || !window.confirm('Remove the uploaded W-9 document?')) return;
+    setUploadingW9(true);
+    setError(null);
+    setSuccess(null);
+    const patch = { w9_storage_path: null, w9_file_name: null };
+    const { error: updateError } = await supabase.from('installers').update(patch).eq('id', selectedId);
+    setUploadingW9(false);
+
+    if (updateError) {
+      console.error('Error removing W-9:', updateError);
+      setError(`Failed to remove W-9: ${updateError.message}`);
+      return;
+    }
+    await removeW9Document(path);
+    setInstallers((prev) => prev.map((i) => (i.id === selectedId ? { ...i, ...patch } : i)));
+    setSuccess('W-9 document removed.');
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Render
   // ─────────────────────────────────────────────────────────────────────────────
@@ -222,6 +323,8 @@ export function InstallerManageView({ initialSelectedId, onSelectionUsed }: Inst
     : installers.filter((i) => i.is_active);
 
   const isEditing = selectedId !== null || isCreating;
+  const selectedInstaller = installers.find((i) => i.id === selectedId) ?? null;
+  const selectedW9Problems = selectedInstaller ? w9Problems(selectedInstaller) : [];
 
   return (
     <div className="list-detail-layout">
@@ -275,6 +378,9 @@ export function InstallerManageView({ initialSelectedId, onSelectionUsed }: Inst
                   {!installer.is_active && (
                     <span className="status-badge status-badge--inactive">Inactive</span>
                   )}
+                  {installer.is_active && !installer.w9_received_on && (
+                    <span className="status-badge status-badge--warning">No W-9</span>
+                  )}
                 </div>
               );
             })}
@@ -306,6 +412,9 @@ export function InstallerManageView({ initialSelectedId, onSelectionUsed }: Inst
             {/* Messages */}
             {error && <div className="alert alert--error">{error}</div>}
             {success && <div className="alert alert--success">{success}</div>}
+            {selectedW9Problems.length > 0 && (
+              <div className="alert alert--warning">1099 filing blocked: {selectedW9Problems.join('; ')}.</div>
+            )}
 
             <div className="form-grid">
               <label className="form-label">
@@ -373,6 +482,82 @@ export function InstallerManageView({ initialSelectedId, onSelectionUsed }: Inst
                 />
               </label>
 
+              <label className="form-label">
+                TIN Type
+                <select value={tinType} onChange={(e) => setTinType(e.target.value as TinType | '')}>
+                  <option value="">From format</option>
+                  {(Object.keys(TIN_TYPE_LABELS) as TinType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {TIN_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="form-label">
+                W-9 Received
+                <input
+                  type="date"
+                  value={w9ReceivedOn}
+                  onChange={(e) => setW9ReceivedOn(e.target.value)}
+                />
+              </label>
+
+              <label className="form-label">
+                Tax Classification (W-9 line 3)
+                <select
+                  value={taxClassification}
+                  onChange={(e) => setTaxClassification(e.target.value as TaxClassification | '')}
+                >
+                  <option value="">Not recorded</option>
+                  {(Object.keys(TAX_CLASSIFICATION_LABELS) as TaxClassification[]).map((key) => (
+                    <option key={key} value={key}>
+                      {TAX_CLASSIFICATION_LABELS[key]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="form-label form-label--inline">
+                <input
+                  type="checkbox"
+                  checked={backupWithholding}
+                  onChange={(e) => setBackupWithholding(e.target.checked)}
+                />
+                Subject to backup withholding
+              </label>
+
+              <div className="form-label form-grid--full">
+                W-9 Document
+                {selectedInstaller?.w9_storage_path ? (
+                  <span>
+                    {selectedInstaller.w9_file_name ?? 'W-9'}{' '}
+                    <button
+                      type="button"
+                      className="btn-link"
+                      onClick={() => handleViewW9(selectedInstaller.w9_storage_path!)}
+                    >
+                      View
+                    </button>
+                    <button
+                      type="button"
+                      className="btn-link"
+                      onClick={() => handleRemoveW9(selectedInstaller.w9_storage_path!)}
+                      disabled={uploadingW9}
+                    >
+                      Remove
+                    </button>
+                  </span>
+                ) : (
+                  <span className="text-muted text-sm">
+                    {isCreating ? 'Save the installer first to upload a W-9.' : 'No W-9 uploaded.'}
+                  </span>
+                )}
+                {!isCreating && (
+                  <input type="file" accept={ATTACHMENT_ACCEPT} onChange={handleW9Upload} disabled={uploadingW9} />
+                )}
+              </div>
+
               <label className="form-label form-label--inline">
                 <input
                   type="checkbox"
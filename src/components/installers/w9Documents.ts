@@ -0,0 +1,32 @@
+// src/components/installers/w9Documents.ts
+
+import { supabase } from '../../lib/supabaseClient';
+import { ATTACHMENTS_BUCKET, validateAttachmentFile } from '../../utils/attachments';
+import { w9StoragePath } from '../../utils/w9';
+
+/** Signed URLs are only used to open the form in a new tab */
+const SIGNED_URL_SECONDS = 60 * 60;
+
+/** Upload a W-9 to Storage and return its path; throws on failure */
+export async function uploadW9Document(installerId: number, file: File): Promise<string> {
+  const problem = validateAttachmentFile(file);
+  if (problem) throw new Error(problem);
+
+  const path = w9StoragePath(installerId, file.name);
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined, upsert: false });
+  if (error) throw error;
+  return path;
+}
+
+export async function removeW9Document(path: string): Promise<void> {
+  const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove([path]);
+  if (error) console.warn('W-9 file not removed from storage:', error);
+}
+
+export async function w9DocumentUrl(path: string): Promise<string> {
+  const { data, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS);
+  if (error) throw error;
+  return data.signedUrl;
+}
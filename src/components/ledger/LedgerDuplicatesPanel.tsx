@@ -0,0 +1,328 @@
+// src/components/ledger/LedgerDuplicatesPanel.tsx
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { formatDate, formatMoney } from './utils';
+import {
+  DUPLICATE_LINE_SELECT,
+  duplicatePairKey,
+  findDuplicateGroups,
+  normalizeDuplicateLine,
+  preferredKeeper,
+  type DuplicateGroup,
+  type RawDuplicateLine,
+} from '../../utils/duplicateDetection';
+import type { AccountOption } from './types';
+
+type LedgerDuplicatesPanelProps = {
+  /** Bank and credit card accounts to scan */
+  accounts: AccountOption[];
+  onClose: () => void;
+  /** Called after entries are merged or deleted so the ledger can refresh */
+  onChanged: () => void;
+};
+
+type RawDismissal = {
+  transaction_id_a: number;
+  transaction_id_b: number;
+};
+
+function defaultSince(): string {
+  const d = new Date();
+  d.setDate(d.getDate() - 90);
+  return d.toISOString().slice(0, 10);
+}
+
+export function LedgerDuplicatesPanel({ accounts, onClose, onChanged }: LedgerDuplicatesPanelProps) {
+  const [accountId, setAccountId] = useState<number | null>(null);
+  const [since, setSince] = useState(defaultSince);
+
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  // Kept entry per group key (defaults to preferredKeeper)
+  const [keepers, setKeepers] = useState<Record<string, number>>({});
+
+  const [loading, setLoading] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const accountLabel = (id: number) => accounts.find((a) => a.id === id)?.label ?? '';
+
+  // ---------- data loading ----------
+  const scan = useCallback(async () => {
+    const accountIds = accountId ? [accountId] : accounts.map((a) => a.id);
+    if (accountIds.length === 0) {
+      setGroups([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      let query = supabase
+        .from('transaction_lines')
+        .select(DUPLICATE_LINE_SELECT)
+        .in('account_id', accountIds)
+        .limit(10000);
+      if (since) query = query.gte('transactions.date', since);
+
+      const { data: lineData, error: lineErr } = await query;
+      if (lineErr) throw lineErr;
+
+      const { data: dismissData, error: dismissErr } = await supabase
+        .from('duplicate_dismissals')
+        .select('transaction_id_a, transaction_id_b');
+      if (dismissErr) throw dismissErr;
+
+      const lines = ((lineData ?? []) as unknown as RawDuplicateLine[]).map(normalizeDuplicateLine);
+      const dismissed = new Set(
+        ((dismissData ?? []) as RawDismissal[]).map((d) => duplicatePairKey(d.transaction_id_a, d.transaction_id_b))
+      );
+
+      const found = findDuplicateGroups(lines, dismissed);
+      setGroups(found);
+      setKeepers(Object.fromEntries(found.map((g) => [g.key, preferredKeeper(g.lines).transaction_id])));
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to scan for duplicates');
+    } finally {
+      setLoading(false);
+    }
+   }, [accountId, accounts, since]);
+
+  useEffect(() => {
+    void scan();
+  }, [scan]);
+
+  // ---------- actions ----------
+  async function handleMerge(group: DuplicateGroup) {
+    const keepId = keepers[group.key];
+    const removeIds = group.lines.map((l) => l.transaction_id).filter((id) => id !== keepId);
+    const confirmed = window.confirm(
+      `Keep 1 entry and delete ${removeIds.length} duplicate(s)?\n\n` +
+        `Bank links, cleared status and attachments move to the kept entry. This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    setBusyKey(group.key);
+    setError(null);
+    setSuccess(null);
+    try {
+      const { error: rpcErr } = await supabase.rpc('merge_duplicate_transactions', {
+        p_keep_transaction_id: keepId,
+        p_remove_transaction_ids: removeIds,
+      });
+      if (rpcErr) throw rpcErr;
+
+      setGroups((prev) => prev.filter((g) => g.key !== group.key));
+      setSuccess(`Merged ${removeIds.length + 1} entries into one.`);
+      onChanged();
+    } catch (err: unknown) {
+      console.error('Merge failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to merge duplicates');
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  async function handleDelete(group: DuplicateGroup, transactionId: number) {
+    const line = group.lines.find((l) => l.transaction_id === transactionId);
+    const confirmed = window.confirm(
+      `Delete this transaction?\n\n` +
+        `Date: ${formatDate(line?.date)}\n` +
+        `Amount: ${formatMoney(line?.amount ?? 0)}\n` +
+        `Description: ${line?.description || '(no description)'}\n\n` +
+        `This will delete ALL lines for this transaction. This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    setBusyKey(group.key);
+    setError(null);
+    setSuccess(null);
+    try {
+      const { error: linesErr } = await supabase
+        .from('transaction_lines')
+        .delete()
+        .eq('transaction_id', transactionId);
+      if (linesErr) throw linesErr;
+
+      const { error: txErr } = await supabase.from('transactions').delete().eq('id', transactionId);
+      if (txErr) throw txErr;
+
+      // A group of two is resolved once either side is gone
+      setGroups((prev) =>
+        prev
+          .map((g) => (g.key === group.key ? { ...g, lines: g.lines.filter((l) => l.transaction_id !== transactionId) } : g))
+          .filter((g) => g.lines.length > 1)
+      );
+      if (keepers[group.key] === transactionId) {
+        const remaining = group.lines.filter((l) => l.transaction_id !== transactionId);
+        if (remaining.length > 0) {
+          setKeepers((prev) => ({ ...prev, [group.key]: preferredKeeper(remaining).transaction_id }));
+        }
+      }
+      onChanged();
+    } catch (err: unknown) {
+      console.error('Delete failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete transaction');
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  async function handleDismiss(group: DuplicateGroup) {
+    setBusyKey(group.key);
+    setError(null);
+    setSuccess(null);
+    try {
+      const ids = group.lines.map((l) => l.transaction_id).sort((a, b) => a - b);
+      const pairs: RawDismissal[] = [];
+      for (let i = 0; i < ids.length; i++) {
+        for (let j = i + 1; j < ids.length; j++) {
+          pairs.push({ transaction_id_a: ids[i], transaction_id_b: ids[j] });
+        }
+      }
+
+      const { error: dismissErr } = await supabase
+        .from('duplicate_dismissals')
+        .upsert(pairs, { onConflict: 'transaction_id_a,transaction_id_b', ignoreDuplicates: true });
+      if (dismissErr) throw dismissErr;
+
+      setGroups((prev) => prev.filter((g) => g.key !== group.key));
+    } catch (err: unknown) {
+      console.error('Dismiss failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to dismiss group');
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  // ---------- render ----------
+  return (
+    <div className="reconcile">
+      <div className="reconcile__header">
+        <h3 className="reconcile__title">Possible Duplicates</h3>
+        <button type="button" className="btn-sm" onClick={onClose}>
+          Back to Ledger
+        </button>
+      </div>
+
+      <div className="filter-bar">
+        <div className="filter-bar__group">
+          <span>Account:</span>
+          <select
+            value={accountId ?? ''}
+            onChange={(e) => setAccountId(e.target.value ? Number(e.target.value) : null)}
+            className="filter-bar__select filter-bar__select--wide"
+          >
+            <option value="">All bank &amp; card accounts</option>
+            {accounts.map((acc) => (
+              <option key={acc.id} value={acc.id}>
+                {acc.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="filter-bar__group">
+          <span>Since:</span>
+          <input
+            type="date"
+            value={since}
+            onChange={(e) => setSince(e.target.value)}
+            className="filter-bar__input"
+          />
+        </div>
+      </div>
+
+      <p className="reconcile__hint">
+        Entries on the same account with a close amount, nearby date and similar description or vendor.
+        Merging keeps the selected entry and moves bank links and cleared status onto it.
+      </p>
+
+      {error && <p className="ledger-row-error">{error}</p>}
+      {success && <p className="reconcile__success">{success}</p>}
+
+      {loading ? (
+        <p>Scanning for duplicates...</p>
+      ) : groups.length === 0 ? (
+        <p className="ledger-empty">No possible duplicates found.</p>
+      ) : (
+        groups.map((group) => (
+          <div key={group.key} className="duplicates__group">
+            <div className="duplicates__group-header">
+              <span>
+                <strong>{accountLabel(group.account_id)}</strong>
+                <span className="duplicates__reason"> - {group.reason}</span>
+              </span>
+              <div className="duplicates__actions">
+                <button
+                  type="button"
+                  className="btn-sm"
+                  onClick={() => void handleDismiss(group)}
+                  disabled={busyKey !== null}
+                >
+                  Not Duplicates
+                </button>
+                <button
+                  type="button"
+                  className="btn-blue btn-sm"
+                  onClick={() => void handleMerge(group)}
+                  disabled={busyKey !== null}
+                >
+                  {busyKey === group.key ? 'Working...' : 'Merge'}
+                </button>
+              </div>
+            </div>
+            <table className="table ledger-table">
+              <thead>
+                <tr>
+                  <th className="col-checkbox">Keep</th>
+                  <th>Date</th>
+                  <th>Description</th>
+                  <th>Vendor</th>
+                  <th>Status</th>
+                  <th className="right">Amount</th>
+                  <th className="right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {group.lines.map((line) => (
+                  <tr key={line.transaction_id}>
+                    <td className="center">
+                      <input
+                        type="radio"
+                        name={`keep-${group.key}`}
+                        checked={keepers[group.key] === line.transaction_id}
+                        onChange={() => setKeepers((prev) => ({ ...prev, [group.key]: line.transaction_id }))}
+                        className="cursor-pointer"
+                      />
+                    </td>
+                    <td>{formatDate(line.date)}</td>
+                    <td>{line.description}</td>
+                    <td>{line.vendor_name}</td>
+                    <td>
+                      {line.is_cleared ? 'Cleared' : 'Pending'}
+                      {line.plaid_linked && <span className="badge badge-info ml-1">Bank</span>}
+                    </td>
+                    <td className="right">{formatMoney(line.amount)}</td>
+                    <td className="right">
+                      <button
+                        type="button"
+                        className="btn-link"
+                        onClick={() => void handleDelete(group, line.transaction_id)}
+                        disabled={busyKey !== null}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,29 @@ import { supabase } from '../../lib/supabaseClient';
 import { VendorSelect } from '../shared/VendorSelect';
 import { InstallerSelect } from '../shared/InstallerSelect';
 import { JobSelect } from '../shared/JobSelect';
+import { SplitEditor } from '../shared/SplitEditor';
+import { TransactionAttachments } from '../shared/TransactionAttachments';
+import { LedgerHistoryPanel } from './LedgerHistoryPanel';
+import { useClosedPeriod } from '../shared/closedPeriod';
+import { loadEntityContext } from '../shared/entityContext';
+import { ClosedPeriodBanner } from '../shared/ClosedPeriodBanner';
+import { formatLocalDate } from '../../utils/date';
+import {
+  adjustmentLinePayload,
+  replacementLine,
+  reversalLines,
+  sameAdjustmentLines,
+  type AdjustmentLine,
+} from '../../utils/periodClose';
+import {
+  emptySplitLine,
+  initialSplitLines,
+  splitLinesToLegs,
+  validateSplitLines,
+  type SplitLine,
+} from '../../utils/splitTransactions';
+import { buildIntercompanyLines, type EntityContext } from '../../utils/entities';
+import type { TransactionAttachment } from '../../utils/attachments';
 import type { LedgerRow, AccountSelectOption } from './types';
 
 export type EditModalResult = {
@@ -23,6 +46,10 @@ type LedgerEditModalProps = {
   onClose: () => void;
   onSave: (txId: number, result: EditModalResult) => void;
   onError: (message: string) => void;
+  /** Attachments are saved as soon as they are uploaded or deleted */
+  onAttachmentsChange?: (txId: number, attachments: TransactionAttachment[]) => void;
+  /** Called after a reversing or correcting entry is posted, or a split is saved */
+  onAdjusted?: () => void;
 };
 
 type LineInfo = {
@@ -30,6 +57,20 @@ type LineInfo = {
   account_id: number;
   amount: number;
   accountType: string;
+  job_id: number | null;
+  vendor_id: number | null;
+  installer_id: number | null;
+  real_estate_deal_id: number | null;
+  purpose: AdjustmentLine['purpose'];
+  is_cleared: boolean;
+  /** Due to/due from line on an intercompany account, rebuilt on every edit */
+  isIntercompany: boolean;
+};
+
+/** A line the edit would post, with the id of the line it replaces (null = new line) */
+type EditedLine = {
+  id: number | null;
+  line: AdjustmentLine;
 };
 
 // Raw shapes from Supabase queries
@@ -45,9 +86,38 @@ type RawLineRow = {
   id: number;
   account_id: number;
   amount: number;
+  job_id: number | null;
+  vendor_id: number | null;
+  installer_id: number | null;
+  real_estate_deal_id: number | null;
+  purpose: AdjustmentLine['purpose'];
+  is_cleared: boolean;
   accounts: { account_types: { name: string } | null } | null;
 };
 
+const isCashLine = (l: LineInfo) => !l.isIntercompany && (l.accountType === 'asset' || l.accountType === 'liability');
+const isCategoryLine = (l: LineInfo) => l.accountType === 'income' || l.accountType === 'expense';
+
+function toAdjustmentLine(line: LineInfo): AdjustmentLine {
+  return {
+    account_id: line.account_id,
+    amount: Number(line.amount),
+    job_id: line.job_id,
+    vendor_id: line.vendor_id,
+    installer_id: line.installer_id,
+    real_estate_deal_id: line.real_estate_deal_id,
+    purpose: line.purpose,
+    is_cleared: line.is_cleared,
+  };
+}
+
+/** Fields checked before saving, reversing or correcting */
+type EditValues = {
+  date: string;
+  description: string;
+  amount: number;
+};
+
 type RawDetailLineRow = {
   job_id: number | null;
   vendor_id: number | null;
@@ -55,7 +125,14 @@ type RawDetailLineRow = {
   accounts: { account_types: { name: string } | null } | null;
 };
 
-export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditModalProps) {
+export function LedgerEditModal({
+  row,
+  onClose,
+  onSave,
+  onError,
+  onAttachmentsChange,
+  onAdjusted,
+}: LedgerEditModalProps) {
   const [editDate, setEditDate] = useState(row.date);
   const [editDescription, setEditDescription] = useState(row.description ?? '');
   const [editAmount, setEditAmount] = useState(Math.abs(row.amount).toFixed(2));
@@ -70,9 +147,25 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
   const [editJobId, setEditJobId] = useState<number | null>(null);
   const [editVendorId, setEditVendorId] = useState<number | null>(null);
   const [editInstallerId, setEditInstallerId] = useState<number | null>(null);
+
+  // Category side split across several lines (null = single category)
+  const [splitLines, setSplitLines] = useState<SplitLine[] | null>(null);
   
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Transactions in a closed period are never edited, only reversed or corrected
+  const periodGuard = useClosedPeriod();
+  const isLocked = periodGuard.isClosed(row.date);
+  const isReversed = row.reversed_by_transaction_id != null;
+  const isReversal = row.reverses_transaction_id != null;
+  const canEditDirectly = !isLocked && !isReversed && !isReversal;
+  const canReverse = !isReversed && !isReversal;
+
+  // Reversals default to the original date, or the first open date when it is locked
+  const [reversalDateInput, setReversalDateInput] = useState<string | null>(null);
+  const reversalDate = reversalDateInput ?? periodGuard.postingDate(row.date);
 
   const [cashAccountOptions, setCashAccountOptions] = useState<AccountSelectOption[]>([]);
   const [categoryAccountOptions, setCategoryAccountOptions] = useState<AccountSelectOption[]>([]);
@@ -80,6 +173,7 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
   
   // Store line info for save operation
   const [lineInfo, setLineInfo] = useState<LineInfo[]>([]);
+  const [entityContext, setEntityContext] = useState<EntityContext | null>(null);
 
   // Load account options on mount
   useEffect(() => {
@@ -123,11 +217,17 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
         // Get current account IDs from the transaction lines
         const { data: lines, error: lineErr } = await supabase
           .from('transaction_lines')
-          .select('id, account_id, amount, accounts ( account_types ( name ) )')
+          .select(
+            'id, account_id, amount, job_id, vendor_id, installer_id, real_estate_deal_id, purpose, is_cleared, accounts ( account_types ( name ) )'
+          )
           .eq('transaction_id', row.transaction_id);
 
         if (lineErr) throw lineErr;
 
+        const context = await loadEntityContext();
+        const intercompanyIds = new Set(context.intercompany.map((ic) => ic.account_id));
+        setEntityContext(context);
+
         const typedLines = (lines ?? []) as unknown as RawLineRow[];
         
         // Build line info for later use
@@ -136,36 +236,46 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
           account_id: l.account_id,
           amount: l.amount,
           accountType: l.accounts?.account_types?.name ?? '',
+          job_id: l.job_id,
+          vendor_id: l.vendor_id,
+          installer_id: l.installer_id,
+          real_estate_deal_id: l.real_estate_deal_id,
+          purpose: l.purpose,
+          is_cleared: !!l.is_cleared,
+          isIntercompany: intercompanyIds.has(l.account_id),
         }));
         setLineInfo(parsedLines);
 
         // Determine if this is a transfer (both lines are asset/liability)
-        const cashLines = parsedLines.filter(
-          (l) => l.accountType === 'asset' || l.accountType === 'liability'
-        );
-        const categoryLines = parsedLines.filter(
-          (l) => l.accountType === 'income' || l.accountType === 'expense'
-        );
+        const cashLines = parsedLines.filter(isCashLine);
+        const categoryLines = parsedLines.filter(isCategoryLine);
         
         const isTx = cashLines.length >= 2 && categoryLines.length === 0;
         setIsTransfer(isTx);
 
         if (isTx) {
           // Transfer: find the "from" (negative amount) and "to" (positive amount) accounts
-          const fromLine = parsedLines.find((l) => l.amount < 0);
-          const toLine = parsedLines.find((l) => l.amount > 0);
+          const fromLine = cashLines.find((l) => l.amount < 0);
+          const toLine = cashLines.find((l) => l.amount > 0);
           setEditCashAccountId(fromLine?.account_id ?? null);
           setEditToAccountId(toLine?.account_id ?? null);
         } else {
           // Regular transaction
-          const cashLine = parsedLines.find(
-            (l) => l.accountType === 'asset' || l.accountType === 'liability'
-          );
-          const categoryLine = parsedLines.find(
-            (l) => l.accountType === 'income' || l.accountType === 'expense'
-          );
+          const cashLine = cashLines[0];
+          const categoryLine = categoryLines[0];
           setEditCashAccountId(cashLine?.account_id ?? null);
           setEditCategoryAccountId(categoryLine?.account_id ?? null);
+
+          // Several same-direction category lines open in the split editor
+          const categorySign = Math.sign(categoryLines[0]?.amount ?? 0);
+          if (categoryLines.length > 1 && categoryLines.every((l) => Math.sign(l.amount) === categorySign)) {
+            setSplitLines(
+              categoryLines.map((l) => ({
+                ...emptySplitLine({ accountId: l.account_id, jobId: l.job_id, vendorId: l.vendor_id, purpose: l.purpose ?? undefined }),
+                amount: Math.abs(l.amount).toFixed(2),
+              }))
+            );
+          }
         }
 
         // Get current job/vendor/installer from category line (where they belong)
@@ -198,39 +308,94 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
     void loadAccounts();
   }, [row.transaction_id]);
 
+  /** Turn the split editor on (whole amount on the current category first) or back off */
+  function toggleSplit() {
+    if (splitLines) {
+      setEditCategoryAccountId(splitLines[0]?.accountId ?? editCategoryAccountId);
+      setSplitLines(null);
+      return;
+    }
+    setSplitLines(
+      initialSplitLines(Number(editAmount) || 0, {
+        accountId: editCategoryAccountId,
+        jobId: editJobId,
+        vendorId: editVendorId,
+        purpose: lineInfo.find(isCategoryLine)?.purpose ?? undefined,
+      })
+    );
+  }
+
   const handleClose = () => {
     if (saving) return;
     onClose();
   };
 
-  async function handleSave() {
-    const txId = row.transaction_id;
-    const newDate = editDate.trim();
-    const newDesc = editDescription.trim();
-    const newAmountNum = Number(editAmount);
+  /** Validated form values, or null after showing the problem */
+  function readEditValues(): EditValues | null {
+    const values = { date: editDate.trim(), description: editDescription.trim(), amount: Number(editAmount) };
 
-    if (!newDate) {
+    if (!values.date) {
       setError('Date is required.');
-      return;
+      return null;
     }
-    if (!Number.isFinite(newAmountNum) || newAmountNum <= 0) {
+    if (!Number.isFinite(values.amount) || values.amount <= 0) {
       setError('Amount must be greater than zero.');
-      return;
+      return null;
     }
     if (!editCashAccountId) {
       setError(isTransfer ? 'Please select a From account.' : 'Please select a bank/credit account.');
-      return;
+      return null;
     }
     if (isTransfer && !editToAccountId) {
       setError('Please select a To account.');
-      return;
+      return null;
     }
-    if (!isTransfer && !editCategoryAccountId) {
+    if (!isTransfer && !splitLines && !editCategoryAccountId) {
       setError('Please select a category.');
-      return;
+      return null;
+    }
+    if (!isTransfer && !splitLines && lineInfo.filter(isCategoryLine).length > 1) {
+      setError('This entry has several category lines. Use Split to edit them.');
+      return null;
+    }
+    const splitError = splitLines ? validateSplitLines(values.amount, splitLines) : null;
+    if (splitError) {
+      setError(splitError);
+      return null;
     }
     if (isTransfer && editCashAccountId === editToAccountId) {
       setError('From and To accounts must be different.');
+      return null;
+    }
+    return values;
+  }
+
+  async function handleSave() {
+    const txId = row.transaction_id;
+    const values = readEditValues();
+    if (!values) return;
+    const { date: newDate, description: newDesc, amount: newAmountNum } = values;
+    if (lineInfo.length === 0) {
+      setError('No lines found for this transaction.');
+      return;
+    }
+
+    const edited = tryBuildEditedLines(newAmountNum);
+    if (!edited) return;
+
+    // Cleared lines are tied to a bank statement; amounts and accounts change only by correction
+    const postingOnly = (l: AdjustmentLine) => ({ ...l, job_id: null, vendor_id: null, installer_id: null });
+    if (
+      lineInfo.some((l) => l.is_cleared) &&
+      !sameAdjustmentLines(lineInfo.map(toAdjustmentLine).map(postingOnly), edited.map((e) => postingOnly(e.line)))
+    ) {
+      setError('This entry has cleared lines. Use Correct to change its amount or accounts.');
+      return;
+    }
+
+    const lockError = periodGuard.errorFor(newDate);
+    if (lockError) {
+      setError(lockError);
       return;
     }
 
@@ -249,39 +414,9 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
 
       if (txErr) throw txErr;
 
-      if (lineInfo.length === 0) {
-        throw new Error('No lines found for this transaction.');
-      }
+      await saveEditedLines(edited);
 
       if (isTransfer) {
-        // Transfer: update both lines as cash accounts
-        // From line: negative amount
-        // To line: positive amount
-        const fromLine = lineInfo.find((l) => l.amount < 0) ?? lineInfo[0];
-        const toLine = lineInfo.find((l) => l.amount > 0) ?? lineInfo[1] ?? lineInfo[0];
-
-        const { error: fromErr } = await supabase
-          .from('transaction_lines')
-          .update({
-            amount: -newAmountNum,
-            account_id: editCashAccountId,
-          })
-          .eq('id', fromLine.id);
-
-        if (fromErr) throw fromErr;
-
-        if (toLine.id !== fromLine.id) {
-          const { error: toErr } = await supabase
-            .from('transaction_lines')
-            .update({
-              amount: newAmountNum,
-              account_id: editToAccountId,
-            })
-            .eq('id', toLine.id);
-
-          if (toErr) throw toErr;
-        }
-
         // Find labels for callback
         const fromLabel = cashAccountOptions.find((a) => a.id === editCashAccountId)?.label ?? null;
         const toLabel = cashAccountOptions.find((a) => a.id === editToAccountId)?.label ?? null;
@@ -296,44 +431,12 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
           jobName: null,
           vendorInstaller: '',
         });
+      } else if (splitLines) {
+        onAdjusted?.();
+        onClose();
       } else {
         // Regular transaction
-        const sign = row.amount >= 0 ? 1 : -1;
-        const targetCashAmount = sign * newAmountNum;
-        const targetCategoryAmount = -targetCashAmount;
-
-        const cashLine = lineInfo.find(
-          (l) => l.accountType === 'asset' || l.accountType === 'liability'
-        ) ?? lineInfo[0];
-
-        const categoryLine = lineInfo.find((l) => l.id !== cashLine.id) ?? lineInfo[0];
-
-        // Update cash line (amount + account)
-        const { error: cashUpdateErr } = await supabase
-          .from('transaction_lines')
-          .update({
-            amount: targetCashAmount,
-            account_id: editCashAccountId,
-          })
-          .eq('id', cashLine.id);
-
-        if (cashUpdateErr) throw cashUpdateErr;
-
-        // Update category line (amount + account + job/vendor/installer) if different line
-        if (categoryLine.id !== cashLine.id) {
-          const { error: catUpdateErr } = await supabase
-            .from('transaction_lines')
-            .update({
-              amount: targetCategoryAmount,
-              account_id: editCategoryAccountId,
-              job_id: editJobId,
-              vendor_id: editVendorId,
-              installer_id: editInstallerId,
-            })
-            .eq('id', categoryLine.id);
-
-          if (catUpdateErr) throw catUpdateErr;
-        }
+        const targetCashAmount = (row.amount >= 0 ? 1 : -1) * newAmountNum;
 
         // Find new labels for state update
         const newCashLabel = cashAccountOptions.find((a) => a.id === editCashAccountId)?.label ?? null;
@@ -380,6 +483,235 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
     }
   }
 
+  /** Category lines of the split, index-aligned with the existing category lines */
+  function splitCategoryLines(): AdjustmentLine[] {
+    const sign = row.amount >= 0 ? 1 : -1;
+    const cashLine = lineInfo.find(isCashLine) ?? lineInfo[0];
+    const categoryLines = lineInfo.filter(isCategoryLine);
+    const legs = splitLinesToLegs(splitLines ?? []);
+    return legs.map((leg, i) =>
+      replacementLine(toAdjustmentLine(categoryLines[i] ?? { ...cashLine, real_estate_deal_id: null }), {
+        account_id: leg.account_id,
+        amount: -sign * leg.amount,
+        job_id: leg.job_id,
+        vendor_id: leg.vendor_id,
+        installer_id: editInstallerId,
+        purpose: leg.purpose,
+      })
+    );
+  }
+
+  /**
+   * Save the edit in place through replace_transaction_lines: lines are
+   * updated, added or removed, all in one balanced write
+   */
+  async function saveEditedLines(edited: EditedLine[]) {
+    const { error: rpcErr } = await supabase.rpc('replace_transaction_lines', {
+      p_transaction_id: row.transaction_id,
+      p_lines: edited.map(({ id, line }) =>
+        id != null ? { id, ...adjustmentLinePayload(line) } : adjustmentLinePayload(line)
+      ),
+    });
+    if (rpcErr) throw rpcErr;
+  }
+
+  /**
+   * Lines the edited form would post, in the original line order. Lines whose
+   * account or amount changed are not cleared. The intercompany lines are
+   * dropped and rebuilt from the edited lines, so an edit that changes which
+   * entities the entry touches still balances each entity's books; a rebuilt
+   * line that matches an old one keeps it. Throws when an intercompany
+   * account the edit needs is not set up
+   */
+  function buildEditedLines(newAmountNum: number): EditedLine[] {
+    if (!entityContext) throw new Error('Entity settings are still loading.');
+
+    const keep = (l: LineInfo): EditedLine => ({ id: l.id, line: toAdjustmentLine(l) });
+    const replace = (l: LineInfo, changes: Partial<AdjustmentLine>): EditedLine => ({
+      id: l.id,
+      line: replacementLine(toAdjustmentLine(l), changes),
+    });
+    const postingLines = lineInfo.filter((l) => !l.isIntercompany);
+    const sign = row.amount >= 0 ? 1 : -1;
+    const cashLine = postingLines.find(isCashLine) ?? postingLines[0];
+    let edited: EditedLine[];
+
+    if (isTransfer) {
+      const fromLine = postingLines.find((l) => l.amount < 0) ?? postingLines[0];
+      const toLine = postingLines.find((l) => l.amount > 0) ?? postingLines[1] ?? postingLines[0];
+      edited = postingLines.map((l) => {
+        if (l.id === fromLine.id) return replace(l, { account_id: editCashAccountId!, amount: -newAmountNum });
+        if (l.id === toLine.id) return replace(l, { account_id: editToAccountId!, amount: newAmountNum });
+        return keep(l);
+      });
+    } else if (splitLines) {
+      // The split lines take the place of the existing category lines
+      const categoryLines = postingLines.filter(isCategoryLine);
+      const split = splitCategoryLines().map((line, i): EditedLine => ({ id: categoryLines[i]?.id ?? null, line }));
+      const lines = postingLines.flatMap((l) => {
+        if (l.id === cashLine.id) return [replace(l, { account_id: editCashAccountId!, amount: sign * newAmountNum })];
+        if (!isCategoryLine(l)) return [keep(l)];
+        return l.id === categoryLines[0]?.id ? split : [];
+      });
+      edited = categoryLines.length > 0 ? lines : [...lines, ...split];
+    } else {
+      const categoryLine = postingLines.find((l) => l.id !== cashLine.id) ?? postingLines[0];
+      edited = postingLines.map((l) => {
+        if (l.id === cashLine.id) {
+          return replace(l, { account_id: editCashAccountId!, amount: sign * newAmountNum });
+        }
+        if (l.id === categoryLine.id) {
+          return replace(l, {
+            account_id: editCategoryAccountId!,
+            amount: -sign * newAmountNum,
+            job_id: editJobId,
+            vendor_id: editVendorId,
+            installer_id: editInstallerId,
+          });
+        }
+        return keep(l);
+      });
+    }
+
+    const oldIntercompany = lineInfo.filter((l) => l.isIntercompany);
+    const intercompany = buildIntercompanyLines(
+      edited.map((e) => e.line),
+      entityContext
+    ).map((ic): EditedLine => {
+      const match = oldIntercompany.findIndex(
+        (l) => l.account_id === ic.account_id && Math.abs(Number(l.amount) - ic.amount) < 0.005
+      );
+      if (match >= 0) return keep(oldIntercompany.splice(match, 1)[0]);
+      return {
+        id: null,
+        line: { ...ic, job_id: null, vendor_id: null, installer_id: null, real_estate_deal_id: null, is_cleared: false },
+      };
+    });
+    return [...edited, ...intercompany];
+  }
+
+  /** buildEditedLines, or null after showing why the lines can't be built */
+  function tryBuildEditedLines(newAmountNum: number): EditedLine[] | null {
+    try {
+      return buildEditedLines(newAmountNum);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to build the edited lines.');
+      return null;
+    }
+  }
+
+  /**
+   * Post the reversal (and the corrected re-post, when given) with their links
+   * to the original in one database transaction; a failure leaves nothing behind
+   */
+  async function postReversingEntry(correction?: { date: string; description: string; lines: AdjustmentLine[] }) {
+    const { error: rpcErr } = await supabase.rpc('post_reversing_entry', {
+      p_transaction_id: row.transaction_id,
+      p_reversal_date: reversalDate,
+      p_reversal_description: reversalDescription(),
+      p_reversal_lines: reversalLines(lineInfo.map(toAdjustmentLine)).map(adjustmentLinePayload),
+      ...(correction && {
+        p_correction_date: correction.date,
+        p_correction_description: correction.description,
+        p_correction_lines: correction.lines.map(adjustmentLinePayload),
+      }),
+    });
+    if (rpcErr) throw rpcErr;
+  }
+
+  function reversalDescription(): string {
+    return `Reversal of #${row.transaction_id} (${formatLocalDate(row.date)})${row.description ? `: ${row.description}` : ''}`;
+  }
+
+  /** Check the reversal date; returns false after showing the problem */
+  function checkReversalDate(): boolean {
+    if (lineInfo.length === 0) {
+      setError('No lines found for this transaction.');
+      return false;
+    }
+    const lockError = periodGuard.errorFor(reversalDate);
+    if (lockError) {
+      setError(lockError);
+      return false;
+    }
+    return true;
+  }
+
+  /** Post an entry that undoes this transaction; the original is left as it is */
+  async function handleReverse() {
+    if (!checkReversalDate()) return;
+    if (
+      !window.confirm(
+        `Post a reversal of #${row.transaction_id} dated ${formatLocalDate(reversalDate)}?\n\n` +
+          'The original stays in the ledger and the reversal cancels it out.'
+      )
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await postReversingEntry();
+      onAdjusted?.();
+      onClose();
+    } catch (err: unknown) {
+      console.error('Reversal failed:', err);
+      const message = err instanceof Error ? err.message : 'Failed to post reversal.';
+      setError(message);
+      onError(message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  /** Reverse this transaction and re-post it with the edited values */
+  async function handleCorrect() {
+    const values = readEditValues();
+    if (!values || !checkReversalDate()) return;
+
+    // A locked original can't be re-dated into its own period; the correction posts with the reversal
+    const correctionDate = isLocked ? reversalDate : values.date;
+    const lockError = periodGuard.errorFor(correctionDate);
+    if (lockError) {
+      setError(lockError);
+      return;
+    }
+
+    const edited = tryBuildEditedLines(values.amount);
+    if (!edited) return;
+
+    const original = lineInfo.map(toAdjustmentLine);
+    const replacement = edited.map((e) => e.line);
+    if (
+      sameAdjustmentLines(original, replacement) &&
+      correctionDate === row.date &&
+      values.description === (row.description ?? '')
+    ) {
+      setError('Nothing has changed - edit the fields above before correcting.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await postReversingEntry({
+        date: correctionDate,
+        description: values.description || row.description || `Correction of #${row.transaction_id}`,
+        lines: replacement,
+      });
+      onAdjusted?.();
+      onClose();
+    } catch (err: unknown) {
+      console.error('Correction failed:', err);
+      const message = err instanceof Error ? err.message : 'Failed to post correction.';
+      setError(message);
+      onError(message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
   return (
     <div
       className="modal-overlay"
@@ -413,6 +745,25 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
           <p className="modal__loading">Loading...</p>
         ) : (
           <div className="modal__body">
+            <ClosedPeriodBanner date={row.date} closedThrough={periodGuard.closedThrough}>
+              This entry can't be edited. Reverse it, or change the fields below and Correct to reverse it and
+              re-post the new values on {formatLocalDate(reversalDate)}.
+            </ClosedPeriodBanner>
+
+            {isReversed && (
+              <p className="modal__notice">
+                Reversed by #{row.reversed_by_transaction_id}. Delete or correct the reversal to change it.
+              </p>
+            )}
+            {isReversal && (
+              <p className="modal__notice">
+                This entry reverses #{row.reverses_transaction_id} and can't be edited.
+              </p>
+            )}
+            {row.corrects_transaction_id != null && (
+              <p className="modal__notice">Corrected re-post of #{row.corrects_transaction_id}.</p>
+            )}
+
             {isTransfer && (
               <p className="modal__notice">
                 This is a transfer between accounts.
@@ -424,6 +775,8 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
               <input
                 type="date"
                 value={editDate}
+                min={isLocked ? undefined : periodGuard.minDate}
+                disabled={isLocked}
                 onChange={(e) => setEditDate(e.target.value)}
                 className="modal__input"
               />
@@ -493,42 +846,61 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
                   </select>
                 </div>
 
-                <div className="modal__field">
-                  <label className="modal__label">Category</label>
-                  <select
-                    value={editCategoryAccountId ?? ''}
-                    onChange={(e) => setEditCategoryAccountId(Number(e.target.value) || null)}
-                    className="modal__input"
-                  >
-                    <option value="">Select category...</option>
-                    {categoryAccountOptions.map((acc) => (
-                      <option key={acc.id} value={acc.id}>
-                        {acc.label}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-
-                {/* Job/Vendor/Installer */}
                 <div className="modal__field">
                   <label className="modal__label">
-                    Job <span className="modal__label-hint">(optional)</span>
+                    Category{' '}
+                    <button type="button" className="btn-link text-sm" onClick={toggleSplit} disabled={saving}>
+                      {splitLines ? 'Unsplit' : 'Split'}
+                    </button>
                   </label>
-                  <JobSelect
-                    value={editJobId}
-                    onChange={setEditJobId}
-                  />
+                  {splitLines ? (
+                    <SplitEditor
+                      total={Number(editAmount) || 0}
+                      lines={splitLines}
+                      onChange={setSplitLines}
+                      accountOptions={categoryAccountOptions.map((acc) => ({ value: acc.id, label: acc.label }))}
+                      disabled={saving}
+                    />
+                  ) : (
+                    <select
+                      value={editCategoryAccountId ?? ''}
+                      onChange={(e) => setEditCategoryAccountId(Number(e.target.value) || null)}
+                      className="modal__input"
+                    >
+                      <option value="">Select category...</option>
+                      {categoryAccountOptions.map((acc) => (
+                        <option key={acc.id} value={acc.id}>
+                          {acc.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
                 </div>
 
-                <div className="modal__field">
-                  <label className="modal__label">
-                    Vendor <span className="modal__label-hint">(optional)</span>
-                  </label>
-                  <VendorSelect
-                    value={editVendorId}
-                    onChange={setEditVendorId}
-                  />
-                </div>
+                {/* Job/Vendor/Installer (a split sets job and vendor per line) */}
+                {!splitLines && (
+                  <>
+                    <div className="modal__field">
+                      <label className="modal__label">
+                        Job <span className="modal__label-hint">(optional)</span>
+                      </label>
+                      <JobSelect
+                        value={editJobId}
+                        onChange={setEditJobId}
+                      />
+                    </div>
+
+                    <div className="modal__field">
+                      <label className="modal__label">
+                        Vendor <span className="modal__label-hint">(optional)</span>
+                      </label>
+                      <VendorSelect
+                        value={editVendorId}
+                        onChange={setEditVendorId}
+                      />
+                    </div>
+                  </>
+                )}
 
                 <div className="modal__field">
                   <label className="modal__label">
@@ -556,6 +928,45 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
               />
             </div>
 
+            <div className="modal__field">
+              <label className="modal__label">
+                Receipts / Invoices{' '}
+                {row.receipt_required && (
+                  <span className="modal__label-hint">(receipt required for this business expense)</span>
+                )}
+              </label>
+              <TransactionAttachments
+                transactionId={row.transaction_id}
+                onChange={(attachments) => onAttachmentsChange?.(row.transaction_id, attachments)}
+              />
+            </div>
+
+            <div className="modal__field">
+              <button type="button" className="btn-link" onClick={() => setShowHistory((v) => !v)}>
+                {showHistory ? 'Hide change history' : 'Show change history'}
+              </button>
+              {showHistory && <LedgerHistoryPanel transactionId={row.transaction_id} />}
+            </div>
+
+            {canReverse && (
+              <div className="modal__field ledger-reverse">
+                <label className="modal__label">
+                  Reversal date <span className="modal__label-hint">(Reverse / Correct)</span>
+                </label>
+                <input
+                  type="date"
+                  value={reversalDate}
+                  min={periodGuard.minDate}
+                  onChange={(e) => setReversalDateInput(e.target.value)}
+                  className="modal__input"
+                />
+                <p className="modal__form-hint">
+                  Reverse posts an entry that cancels this one. Correct reverses it and re-posts the values above
+                  {isLocked ? ' on the reversal date' : ''}. The original stays in the ledger either way.
+                </p>
+              </div>
+            )}
+
             {error && <p className="modal__error">{error}</p>}
           </div>
         )}
@@ -569,14 +980,36 @@ export function LedgerEditModal({ row, onClose, onSave, onError }: LedgerEditMod
           >
             Cancel
           </button>
-          <button
-            type="button"
-            onClick={() => void handleSave()}
-            disabled={saving || loading}
-            className="modal__btn-save"
-          >
-            {saving ? 'Saving...' : 'Save changes'}
-          </button>
+          {canReverse && (
+            <>
+              <button
+                type="button"
+                onClick={() => void handleReverse()}
+                disabled={saving || loading}
+                className="modal__btn-cancel"
+              >
+                Reverse
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleCorrect()}
+                disabled={saving || loading}
+                className={canEditDirectly ? 'modal__btn-cancel' : 'modal__btn-save'}
+              >
+                Correct
+              </button>
+            </>
+          )}
+          {canEditDirectly && (
+            <button
+              type="button"
+              onClick={() => void handleSave()}
+              disabled={saving || loading}
+              className="modal__btn-save"
+            >
+              {saving ? 'Saving...' : 'Save changes'}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -1,6 +1,8 @@
 // src/components/ledger/LedgerFilters.tsx
 
 import type { DateRangePreset, AccountFilter, CategorizedAccounts } from './types';
+import { formatMoney } from '../../utils/format';
+import { RECEIPT_REQUIRED_OVER } from '../../utils/attachments';
 
 type LedgerFiltersProps = {
   // Page size
@@ -20,6 +22,10 @@ type LedgerFiltersProps = {
   onAccountFilterChange: (filter: AccountFilter) => void;
   categorizedAccounts: CategorizedAccounts;
 
+  // Receipt filter
+  missingReceiptOnly: boolean;
+  onMissingReceiptOnlyChange: (value: boolean) => void;
+
   // Search
   searchTerm: string;
   onSearchTermChange: (term: string) => void;
@@ -42,6 +48,8 @@ export function LedgerFilters({
   accountFilter,
   onAccountFilterChange,
   categorizedAccounts,
+  missingReceiptOnly,
+  onMissingReceiptOnlyChange,
   searchTerm,
   onSearchTermChange,
   totalCount,
@@ -198,6 +206,19 @@ export function LedgerFilters({
         </select>
       </div>
 
+      {/* missing receipt */}
+      <label
+        className="filter-bar__group cursor-pointer"
+        title={`Business expenses over ${formatMoney(RECEIPT_REQUIRED_OVER)} with no receipt or invoice attached`}
+      >
+        <input
+          type="checkbox"
+          checked={missingReceiptOnly}
+          onChange={(e) => onMissingReceiptOnlyChange(e.target.checked)}
+        />
+        <span>Missing receipt</span>
+      </label>
+
       {/* fast search */}
       <div className="filter-bar__search">
         <input
@@ -222,7 +243,7 @@ export function LedgerFilters({
       {/* summary */}
       <div className="filter-bar__summary">
         Showing {totalCount === 0 ? 0 : startIndex + 1}-{Math.min(endIndex, totalCount)} of{' '}
-        {totalCount} {accountFilter !== 'all' ? '(filtered)' : ''}
+        {totalCount} {accountFilter !== 'all' || missingReceiptOnly ? '(filtered)' : ''}
       </div>
     </div>
   );
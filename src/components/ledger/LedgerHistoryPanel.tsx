@@ -0,0 +1,76 @@
+// src/components/ledger/LedgerHistoryPanel.tsx
+
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { AuditChanges } from '../shared/AuditChanges';
+import { useAuditLookups } from '../shared/auditLookups';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_LOG_SELECT,
+  AUDIT_TABLE_LABELS,
+  formatAuditUser,
+  type AuditEntry,
+} from '../../utils/auditLog';
+
+type LedgerHistoryPanelProps = {
+  transactionId: number;
+};
+
+/**
+ * Change history for a transaction and its lines, newest first
+ */
+export function LedgerHistoryPanel({ transactionId }: LedgerHistoryPanelProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const lookups = useAuditLookups();
+
+  useEffect(() => {
+    async function loadHistory() {
+      setLoading(true);
+      setError(null);
+      try {
+        const { data, error: loadErr } = await supabase
+          .from('audit_log')
+          .select(AUDIT_LOG_SELECT)
+          .eq('transaction_id', transactionId)
+          .order('changed_at', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(200);
+        if (loadErr) throw loadErr;
+        setEntries((data ?? []) as unknown as AuditEntry[]);
+      } catch (err: unknown) {
+        console.error('Failed to load history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      } finally {
+        setLoading(false);
+      }
+    }
+    void loadHistory();
+  }, [transactionId]);
+
+  if (loading) return <p className="audit-history__empty">Loading history...</p>;
+  if (error) return <p className="modal__error">{error}</p>;
+  if (entries.length === 0) {
+    return <p className="audit-history__empty">No recorded changes (history starts when auditing was enabled).</p>;
+  }
+
+  return (
+    <ol className="audit-history">
+      {entries.map((entry) => (
+        <li key={entry.id} className="audit-history__item">
+          <div className="audit-history__meta">
+            <strong>
+              {AUDIT_ACTION_LABELS[entry.action]} {AUDIT_TABLE_LABELS[entry.table_name].toLowerCase()}
+              {entry.table_name === 'transaction_lines' ? ` #${entry.record_id}` : ''}
+            </strong>
+            <span className="text-muted">
+              {new Date(entry.changed_at).toLocaleString()} - {formatAuditUser(entry)}
+            </span>
+          </div>
+          <AuditChanges entry={entry} lookups={lookups} />
+        </li>
+      ))}
+    </ol>
+  );
+}
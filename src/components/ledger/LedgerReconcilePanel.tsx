@@ -0,0 +1,561 @@
+// src/components/ledger/LedgerReconcilePanel.tsx
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { formatDate, formatMoney } from './utils';
+import {
+  computeReconciliationTotals,
+  getStatementSign,
+  isReconciliationBalanced,
+  roundCents,
+  type BankReconciliation,
+  type ReconcilableLine,
+} from '../../utils/reconciliation';
+import type { AccountOption } from './types';
+import { LedgerReconcileReport } from './LedgerReconcileReport';
+
+type LedgerReconcilePanelProps = {
+  /** Bank and credit card accounts that can be reconciled */
+  accounts: AccountOption[];
+  onClose: () => void;
+  /** Called after a reconciliation is saved so the ledger can refresh */
+  onCompleted: () => void;
+};
+
+type SavedDraft = {
+  accountId: number | null;
+  endDate: string;
+  statementBalance: string;
+  selectedLineIds: number[];
+};
+
+// Raw shape from Supabase query
+type RawAccountLine = {
+  id: number;
+  transaction_id: number;
+  amount: number;
+  transactions: { date: string; description: string | null } | null;
+  vendors: { name: string } | null;
+  installers: {
+    first_name: string | null;
+    last_name: string | null;
+    company_name: string | null;
+  } | null;
+};
+
+const STORAGE_KEY = 'ledger_reconcileState';
+
+const ACCOUNT_LINE_SELECT = `
+  id,
+  transaction_id,
+  amount,
+  transactions!inner ( date, description ),
+  vendors ( name ),
+  installers ( first_name, last_name, company_name )
+`;
+
+function toReconcilableLine(l: RawAccountLine, alreadyCleared: boolean): ReconcilableLine {
+  const inst = l.installers;
+  const installerName = inst
+    ? inst.company_name || [inst.first_name, inst.last_name].filter(Boolean).join(' ')
+    : '';
+  return {
+    lineId: l.id,
+    transactionId: l.transaction_id,
+    date: l.transactions?.date ?? '',
+    description: l.transactions?.description ?? null,
+    payee: l.vendors?.name || installerName,
+    amount: Number(l.amount),
+    alreadyCleared,
+  };
+}
+
+function loadDraft(): SavedDraft | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? (JSON.parse(saved) as SavedDraft) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function LedgerReconcilePanel({ accounts, onClose, onCompleted }: LedgerReconcilePanelProps) {
+  const [draft] = useState<SavedDraft | null>(loadDraft);
+
+  // Setup
+  const [accountId, setAccountId] = useState<number | null>(draft?.accountId ?? null);
+  const [endDate, setEndDate] = useState(draft?.endDate ?? '');
+  const [statementBalance, setStatementBalance] = useState(draft?.statementBalance ?? '');
+
+  // Workspace data
+  const [lines, setLines] = useState<ReconcilableLine[]>([]);
+  const [beginningBookBalance, setBeginningBookBalance] = useState(0);
+  const [selectedLineIds, setSelectedLineIds] = useState<Set<number>>(
+    new Set(draft?.selectedLineIds ?? [])
+  );
+  const [history, setHistory] = useState<BankReconciliation[]>([]);
+  const [notes, setNotes] = useState('');
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [reportId, setReportId] = useState<number | null>(null);
+  const [completedId, setCompletedId] = useState<number | null>(null);
+
+  const selectedAccount = accounts.find((a) => a.id === accountId) ?? null;
+  const accountCode = selectedAccount?.code != null ? String(selectedAccount.code) : null;
+  const statementBalanceNum = Number(statementBalance);
+  const hasStatementBalance = statementBalance.trim() !== '' && Number.isFinite(statementBalanceNum);
+
+  const totals = useMemo(
+    () =>
+      computeReconciliationTotals(
+        beginningBookBalance,
+        lines,
+        selectedLineIds,
+        hasStatementBalance ? statementBalanceNum : 0,
+        accountCode
+      ),
+    [beginningBookBalance, lines, selectedLineIds, hasStatementBalance, statementBalanceNum, accountCode]
+  );
+
+  const balanced = hasStatementBalance && isReconciliationBalanced(totals);
+  const tickableLines = lines.filter((l) => !l.alreadyCleared);
+  const lastReconciliation = history[0] ?? null;
+
+  // ---------- data loading ----------
+  const loadHistory = useCallback(async (accId: number) => {
+    const { data, error: histErr } = await supabase
+      .from('bank_reconciliations')
+      .select(
+        'id, account_id, statement_end_date, statement_ending_balance, beginning_balance, cleared_balance, difference, notes, completed_at'
+      )
+      .eq('account_id', accId)
+      .order('statement_end_date', { ascending: false })
+      .limit(12);
+
+    if (histErr) throw histErr;
+    setHistory((data ?? []) as unknown as BankReconciliation[]);
+  }, []);
+
+  const loadWorkspace = useCallback(async (accId: number, throughDate: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const acc = accounts.find((a) => a.id === accId);
+      const sign = getStatementSign(acc?.code != null ? String(acc.code) : null);
+
+      // Total book balance (cleared + uncleared) from the balances view.
+      // The view reports liabilities positive when owed, so convert back to book sign.
+      const { data: balData, error: balErr } = await supabase
+        .from('account_balances_v')
+        .select('account_id, balance')
+        .eq('account_id', accId)
+        .maybeSingle();
+
+      if (balErr) throw balErr;
+      const totalBookBalance = (Number(balData?.balance) || 0) * sign;
+
+      // The statement starts where the previous one ended. Before the first
+      // reconciliation, everything cleared through the end date is the opening balance.
+      const { data: prevData, error: prevErr } = await supabase
+        .from('bank_reconciliations')
+        .select('statement_end_date')
+        .eq('account_id', accId)
+        .lt('statement_end_date', throughDate)
+        .order('statement_end_date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (prevErr) throw prevErr;
+      const startDate = (prevData as { statement_end_date: string } | null)?.statement_end_date ?? throughDate;
+
+      // All uncleared lines for the account
+      const { data: lineData, error: lineErr } = await supabase
+        .from('transaction_lines')
+        .select(ACCOUNT_LINE_SELECT)
+        .eq('account_id', accId)
+        .eq('is_cleared', false);
+
+      if (lineErr) throw lineErr;
+
+      // Lines already cleared after the statement start (e.g. by bank import)
+      const { data: clearedData, error: clearedErr } = await supabase
+        .from('transaction_lines')
+        .select(ACCOUNT_LINE_SELECT)
+        .eq('account_id', accId)
+        .eq('is_cleared', true)
+        .gt('transactions.date', startDate);
+
+      if (clearedErr) throw clearedErr;
+
+      const uncleared = (lineData ?? []) as unknown as RawAccountLine[];
+      const clearedAfterStart = (clearedData ?? []) as unknown as RawAccountLine[];
+      const lineTotal = (rows: RawAccountLine[]) => rows.reduce((sum, l) => sum + Number(l.amount), 0);
+      const inStatement = (l: RawAccountLine) => (l.transactions?.date ?? '') <= throughDate;
+
+      // Book balance minus everything not yet cleared as of the start date
+      const beginning = totalBookBalance - lineTotal(uncleared) - lineTotal(clearedAfterStart);
+
+      const candidates: ReconcilableLine[] = [
+        ...uncleared.filter(inStatement).map((l) => toReconcilableLine(l, false)),
+        ...clearedAfterStart.filter(inStatement).map((l) => toReconcilableLine(l, true)),
+      ].sort((a, b) => a.date.localeCompare(b.date) || a.lineId - b.lineId);
+
+      setBeginningBookBalance(roundCents(beginning));
+      setLines(candidates);
+
+      // Drop stale ticks (lines cleared elsewhere since the draft was saved)
+      const candidateIds = new Set(candidates.filter((l) => !l.alreadyCleared).map((l) => l.lineId));
+      setSelectedLineIds((prev) => new Set([...prev].filter((id) => candidateIds.has(id))));
+
+      await loadHistory(accId);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to load reconciliation data');
+    } finally {
+      setLoading(false);
+    }
+  }, [accounts, loadHistory]);
+
+  useEffect(() => {
+    if (accountId && endDate) {
+      void loadWorkspace(accountId, endDate);
+    } else {
+      setLines([]);
+      setHistory([]);
+    }
+  }, [accountId, endDate, loadWorkspace]);
+
+  // Save draft so ticks survive navigation
+  useEffect(() => {
+    if (!accountId) return;
+    const state: SavedDraft = {
+      accountId,
+      endDate,
+      statementBalance,
+      selectedLineIds: [...selectedLineIds],
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  }, [accountId, endDate, statementBalance, selectedLineIds]);
+
+  function clearSavedState() {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  // ---------- event handlers ----------
+  function handleAccountChange(value: string) {
+    setAccountId(Number(value) || null);
+    setSelectedLineIds(new Set());
+    setSuccess(null);
+    setCompletedId(null);
+  }
+
+  function handleToggleLine(lineId: number) {
+    setSelectedLineIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(lineId)) {
+        next.delete(lineId);
+      } else {
+        next.add(lineId);
+      }
+      return next;
+    });
+  }
+
+  function handleToggleAll() {
+    if (selectedLineIds.size === tickableLines.length) {
+      setSelectedLineIds(new Set());
+    } else {
+      setSelectedLineIds(new Set(tickableLines.map((l) => l.lineId)));
+    }
+  }
+
+  async function handleFinish() {
+    if (!accountId || !endDate || !balanced) return;
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const { data, error: rpcErr } = await supabase.rpc('complete_bank_reconciliation', {
+        p_account_id: accountId,
+        p_statement_end_date: endDate,
+        p_statement_ending_balance: totals.statementBalance,
+        p_beginning_balance: totals.beginningBalance,
+        p_cleared_balance: totals.clearedBalance,
+        p_line_ids: [...selectedLineIds],
+        p_notes: notes.trim() || null,
+      });
+
+      if (rpcErr) throw rpcErr;
+
+      clearSavedState();
+      setSuccess(`Reconciled ${selectedAccount?.label ?? 'account'} through ${formatDate(endDate)}`);
+      setSelectedLineIds(new Set());
+      setStatementBalance('');
+      setNotes('');
+      const newId = typeof data === 'number' ? data : null;
+      setCompletedId(newId);
+      setReportId(newId);
+      await loadWorkspace(accountId, endDate);
+      onCompleted();
+    } catch (err: unknown) {
+      console.error('Reconciliation failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save reconciliation');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleCancel() {
+    clearSavedState();
+    onClose();
+  }
+
+  // ---------- render ----------
+  const sign = getStatementSign(accountCode);
+  const isCard = sign === -1;
+
+  return (
+    <div className="reconcile">
+      <div className="reconcile__header">
+        <h3 className="reconcile__title">Reconcile Statement</h3>
+        <button type="button" className="btn-sm" onClick={onClose}>
+          Back to Ledger
+        </button>
+      </div>
+
+      {/* Setup row */}
+      <div className="filter-bar">
+        <div className="filter-bar__group">
+          <span>Account:</span>
+          <select
+            value={accountId ?? ''}
+            onChange={(e) => handleAccountChange(e.target.value)}
+            className="filter-bar__select filter-bar__select--wide"
+          >
+            <option value="">Select account...</option>
+            {accounts.map((acc) => (
+              <option key={acc.id} value={acc.id}>
+                {acc.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="filter-bar__group">
+          <span>Statement end date:</span>
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="filter-bar__input"
+          />
+        </div>
+        <div className="filter-bar__group">
+          <span>Ending balance{isCard ? ' (owed)' : ''}:</span>
+          <input
+            type="number"
+            step="0.01"
+            value={statementBalance}
+            onChange={(e) => setStatementBalance(e.target.value)}
+            className="filter-bar__input"
+            placeholder="0.00"
+          />
+        </div>
+      </div>
+
+      {lastReconciliation && (
+        <p className="reconcile__hint">
+          Last reconciled through {formatDate(lastReconciliation.statement_end_date)} at{' '}
+          {formatMoney(Number(lastReconciliation.statement_ending_balance))}.
+        </p>
+      )}
+
+      {error && <p className="ledger-row-error">{error}</p>}
+      {success && (
+        <p className="reconcile__success">
+          {success}{' '}
+          {completedId && (
+            <button type="button" className="btn-link" onClick={() => setReportId(completedId)}>
+              View report
+            </button>
+          )}
+        </p>
+      )}
+
+      {!accountId || !endDate ? (
+        <p className="ledger-empty">Pick an account and statement end date to start.</p>
+      ) : loading ? (
+        <p>Loading uncleared lines...</p>
+      ) : (
+        <>
+          {/* Running totals */}
+          <div className="reconcile__totals">
+            <div className="reconcile__total">
+              <span className="reconcile__total-label">Beginning cleared</span>
+              <span>{formatMoney(totals.beginningBalance)}</span>
+            </div>
+            <div className="reconcile__total">
+              <span className="reconcile__total-label">{isCard ? 'Charges' : 'Deposits'}</span>
+              <span>{formatMoney(totals.clearedIncreases)}</span>
+            </div>
+            <div className="reconcile__total">
+              <span className="reconcile__total-label">{isCard ? 'Payments / credits' : 'Withdrawals'}</span>
+              <span>{formatMoney(totals.clearedDecreases)}</span>
+            </div>
+            <div className="reconcile__total">
+              <span className="reconcile__total-label">Cleared balance</span>
+              <span className="font-semibold">{formatMoney(totals.clearedBalance)}</span>
+            </div>
+            <div className="reconcile__total">
+              <span className="reconcile__total-label">Statement balance</span>
+              <span>{hasStatementBalance ? formatMoney(totals.statementBalance) : '-'}</span>
+            </div>
+            <div className="reconcile__total">
+              <span className="reconcile__total-label">Difference</span>
+              <span className={balanced ? 'text-positive font-semibold' : 'text-negative font-semibold'}>
+                {hasStatementBalance ? formatMoney(totals.difference) : '-'}
+              </span>
+            </div>
+          </div>
+
+          {lines.length === 0 ? (
+            <p className="ledger-empty">
+              No uncleared lines on or before {formatDate(endDate)}.
+            </p>
+          ) : (
+            <table className="table ledger-table">
+              <thead>
+                <tr>
+                  <th className="col-checkbox">
+                    <input
+                      type="checkbox"
+                      checked={tickableLines.length > 0 && selectedLineIds.size === tickableLines.length}
+                      onChange={handleToggleAll}
+                      className="cursor-pointer"
+                    />
+                  </th>
+                  <th>Date</th>
+                  <th>Description</th>
+                  <th>Vendor / Installer</th>
+                  <th className="right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line) => {
+                  if (line.alreadyCleared) {
+                    return (
+                      <tr
+                        key={line.lineId}
+                        className="reconcile__row--ticked reconcile__row--locked"
+                        title="Cleared before this reconciliation"
+                      >
+                        <td className="center">
+                          <input type="checkbox" checked disabled />
+                        </td>
+                        <td>{formatDate(line.date)}</td>
+                        <td>{line.description}</td>
+                        <td>{line.payee}</td>
+                        <td className="right">{formatMoney(line.amount)}</td>
+                      </tr>
+                    );
+                  }
+                  const isSelected = selectedLineIds.has(line.lineId);
+                  return (
+                    <tr
+                      key={line.lineId}
+                      className={isSelected ? 'reconcile__row--ticked' : 'uncleared'}
+                      onClick={() => handleToggleLine(line.lineId)}
+                    >
+                      <td className="center">
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={() => handleToggleLine(line.lineId)}
+                          className="cursor-pointer"
+                        />
+                      </td>
+                      <td>{formatDate(line.date)}</td>
+                      <td>{line.description}</td>
+                      <td>{line.payee}</td>
+                      <td className="right">{formatMoney(line.amount)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          <div className="reconcile__footer">
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes (optional)"
+              className="filter-bar__input reconcile__notes"
+            />
+            <button type="button" className="btn-sm" onClick={handleCancel} disabled={saving}>
+              Discard
+            </button>
+            <button
+              type="button"
+              className="btn-blue btn-sm"
+              onClick={() => void handleFinish()}
+              disabled={saving || !balanced}
+              title={balanced ? '' : 'Difference must be $0.00 to finish'}
+            >
+              {saving ? 'Saving...' : 'Finish Reconciliation'}
+            </button>
+          </div>
+
+          {/* History */}
+          {history.length > 0 && (
+            <div className="reconcile__history">
+              <h4 className="reconcile__subtitle">Previous reconciliations</h4>
+              <table className="table ledger-table">
+                <thead>
+                  <tr>
+                    <th>Statement date</th>
+                    <th className="right">Ending balance</th>
+                    <th className="right">Difference</th>
+                    <th>Completed</th>
+                    <th className="right">Report</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.map((r) => (
+                    <tr key={r.id}>
+                      <td>{formatDate(r.statement_end_date)}</td>
+                      <td className="right">{formatMoney(Number(r.statement_ending_balance))}</td>
+                      <td className="right">{formatMoney(Number(r.difference))}</td>
+                      <td>{new Date(r.completed_at).toLocaleString()}</td>
+                      <td className="right">
+                        <button type="button" className="btn-link" onClick={() => setReportId(r.id)}>
+                          View
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {reportId && (
+        <LedgerReconcileReport
+          reconciliationId={reportId}
+          accountLabel={selectedAccount?.label ?? ''}
+          accountCode={accountCode}
+          onClose={() => setReportId(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+// src/components/ledger/LedgerReconcileReport.tsx
+
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { formatDate, formatMoney } from './utils';
+import {
+  getStatementSign,
+  type BankReconciliation,
+  type BankReconciliationLine,
+} from '../../utils/reconciliation';
+
+type LedgerReconcileReportProps = {
+  reconciliationId: number;
+  accountLabel: string;
+  accountCode: string | null;
+  onClose: () => void;
+};
+
+// Raw shape from Supabase query
+type RawOutstandingLine = {
+  id: number;
+  amount: number;
+  transactions: { date: string; description: string | null } | null;
+};
+
+export function LedgerReconcileReport({
+  reconciliationId,
+  accountLabel,
+  accountCode,
+  onClose,
+}: LedgerReconcileReportProps) {
+  const [header, setHeader] = useState<BankReconciliation | null>(null);
+  const [clearedLines, setClearedLines] = useState<BankReconciliationLine[]>([]);
+  const [outstanding, setOutstanding] = useState<BankReconciliationLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const sign = getStatementSign(accountCode);
+
+  useEffect(() => {
+    async function loadReport() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const { data: headerData, error: headerErr } = await supabase
+          .from('bank_reconciliations')
+          .select(
+            'id, account_id, statement_end_date, statement_ending_balance, beginning_balance, cleared_balance, difference, notes, completed_at'
+          )
+          .eq('id', reconciliationId)
+          .single();
+
+        if (headerErr) throw headerErr;
+        const recon = headerData as unknown as BankReconciliation;
+
+        const { data: lineData, error: lineErr } = await supabase
+          .from('bank_reconciliation_lines')
+          .select('id, transaction_line_id, date, description, amount')
+          .eq('reconciliation_id', reconciliationId)
+          .order('date', { ascending: true });
+
+        if (lineErr) throw lineErr;
+
+        // Items still outstanding (uncleared, dated on/before the statement)
+        const { data: outData, error: outErr } = await supabase
+          .from('transaction_lines')
+          .select('id, amount, transactions!inner ( date, description )')
+          .eq('account_id', recon.account_id)
+          .eq('is_cleared', false)
+          .lte('transactions.date', recon.statement_end_date);
+
+        if (outErr) throw outErr;
+
+        const rawOut = (outData ?? []) as unknown as RawOutstandingLine[];
+
+        setHeader(recon);
+        setClearedLines((lineData ?? []) as unknown as BankReconciliationLine[]);
+        setOutstanding(
+          rawOut
+            .map((l) => ({
+              id: l.id,
+              transaction_line_id: l.id,
+              date: l.transactions?.date ?? '',
+              description: l.transactions?.description ?? null,
+              amount: Number(l.amount),
+            }))
+            .sort((a, b) => a.date.localeCompare(b.date))
+        );
+      } catch (err: unknown) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Failed to load reconciliation report');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void loadReport();
+  }, [reconciliationId]);
+
+  const clearedTotal = clearedLines.reduce((sum, l) => sum + Number(l.amount) * sign, 0);
+  const outstandingTotal = outstanding.reduce((sum, l) => sum + l.amount * sign, 0);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal reconcile-report" onClick={(e) => e.stopPropagation()}>
+        <div className="modal__header">
+          <h3 className="modal__title">Reconciliation Report</h3>
+          <button type="button" onClick={onClose} className="modal__close">
+            ×
+          </button>
+        </div>
+
+        {loading && <p className="modal__loading">Loading...</p>}
+        {error && <p className="modal__error">{error}</p>}
+
+        {header && !loading && (
+          <div className="modal__body">
+            <div className="modal__info">
+              <div>
+                <strong>Account:</strong> {accountLabel || `#${header.account_id}`}
+              </div>
+              <div>
+                <strong>Statement date:</strong> {formatDate(header.statement_end_date)}
+              </div>
+              <div>
+                <strong>Completed:</strong> {new Date(header.completed_at).toLocaleString()}
+              </div>
+              {header.notes && (
+                <div>
+                  <strong>Notes:</strong> {header.notes}
+                </div>
+              )}
+            </div>
+
+            <table className="table reconcile-report__summary">
+              <tbody>
+                <tr>
+                  <td>Beginning cleared balance</td>
+                  <td className="right">{formatMoney(Number(header.beginning_balance))}</td>
+                </tr>
+                <tr>
+                  <td>Cleared this statement ({clearedLines.length} items)</td>
+                  <td className="right">{formatMoney(clearedTotal)}</td>
+                </tr>
+                <tr className="font-semibold">
+                  <td>Cleared balance</td>
+                  <td className="right">{formatMoney(Number(header.cleared_balance))}</td>
+                </tr>
+                <tr>
+                  <td>Statement ending balance</td>
+                  <td className="right">{formatMoney(Number(header.statement_ending_balance))}</td>
+                </tr>
+                <tr className="font-semibold">
+                  <td>Difference</td>
+                  <td className="right">{formatMoney(Number(header.difference))}</td>
+                </tr>
+                <tr>
+                  <td>Outstanding items ({outstanding.length})</td>
+                  <td className="right">{formatMoney(outstandingTotal)}</td>
+                </tr>
+                <tr>
+                  <td>Book balance at statement date</td>
+                  <td className="right">
+                    {formatMoney(Number(header.cleared_balance) + outstandingTotal)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+
+            <h4 className="reconcile__subtitle">Cleared items</h4>
+            <ReportLineTable lines={clearedLines} />
+
+            {outstanding.length > 0 && (
+              <>
+                <h4 className="reconcile__subtitle">Outstanding items</h4>
+                <ReportLineTable lines={outstanding} />
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="modal__actions">
+          <button type="button" onClick={() => window.print()} className="modal__btn-cancel">
+            Print
+          </button>
+          <button type="button" onClick={onClose} className="modal__btn-save">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ReportLineTable({ lines }: { lines: BankReconciliationLine[] }) {
+  if (lines.length === 0) {
+    return <p className="ledger-empty">None</p>;
+  }
+
+  return (
+    <table className="table ledger-table">
+      <thead>
+        <tr>
+          <th>Date</th>
+          <th>Description</th>
+          <th className="right">Amount</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lines.map((l) => (
+          <tr key={l.id}>
+            <td>{formatDate(l.date)}</td>
+            <td>{l.description}</td>
+            <td className="right">{formatMoney(Number(l.amount))}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
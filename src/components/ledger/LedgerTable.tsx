@@ -4,6 +4,8 @@ import type { LedgerRow, SortField, SortDir } from './types';
 import { formatLocalDate as formatDate } from '../../utils/date';
 import { formatMoney } from '../../utils/format';
 import { CcStatusCell } from '../shared/CcStatusCell';
+import { useAttachmentUrls } from '../shared/attachmentStorage';
+import { isImageAttachment } from '../../utils/attachments';
 
 // Re-use getDefaultSortDir inline since utils has broken re-exports
 function getDefaultSortDir(field: string): SortDir {
@@ -45,6 +47,13 @@ function getDisplayDescription(row: LedgerRow): string {
   return row.job_name || row.description || '';
 }
 
+/**
+ * Attachment shown as the row thumbnail: the first image, else the first file
+ */
+function getPreviewAttachment(row: LedgerRow) {
+  return row.attachments.find(isImageAttachment) ?? row.attachments[0] ?? null;
+}
+
 export function LedgerTable({
   rows,
   sortField,
@@ -62,6 +71,14 @@ export function LedgerTable({
   onSelectAllUnsettledCc,
 }: LedgerTableProps) {
   
+  // Signed thumbnail URLs for the rows on this page
+  const thumbUrls = useAttachmentUrls(
+    rows
+      .map(getPreviewAttachment)
+      .filter((a) => a !== null)
+      .map((a) => a.storage_path)
+  );
+
   // Get all unsettled CC line IDs on current page
   const unsettledCcLineIds = rows
     .filter((r) => r.isCcTransaction && !r.ccSettled)
@@ -107,6 +124,37 @@ export function LedgerTable({
     );
   };
 
+  const renderReceiptCell = (row: LedgerRow) => {
+    const preview = getPreviewAttachment(row);
+    if (!preview) {
+      return row.receipt_required ? (
+        <span className="receipt-missing-badge" title="Business expense - receipt required">
+          Missing
+        </span>
+      ) : null;
+    }
+    const url = thumbUrls[preview.storage_path];
+    const extra = row.attachments.length - 1;
+    return (
+      <>
+        <a
+          href={url}
+          target="_blank"
+          rel="noreferrer"
+          className="attachment-thumb"
+          title={row.attachments.map((a) => a.file_name).join('\n')}
+        >
+          {isImageAttachment(preview) && url ? (
+            <img src={url} alt={preview.file_name} />
+          ) : (
+            preview.content_type === 'application/pdf' ? 'PDF' : 'FILE'
+          )}
+        </a>
+        {extra > 0 && <span className="attachment-thumb__count">+{extra}</span>}
+      </>
+    );
+  };
+
   return (
     <>
       <table className="table ledger-table">
@@ -132,6 +180,7 @@ export function LedgerTable({
             {sortableTh('type_label', 'Category')}
             {sortableTh('amount', 'Amount', 'right')}
             {sortableTh('is_cleared', 'Cleared', 'center')}
+            <th className="center">Receipt</th>
             <th className="center">CC</th>
             <th className="right">Actions</th>
           </tr>
@@ -158,12 +207,31 @@ export function LedgerTable({
                   )}
                 </td>
                 <td>{formatDate(row.date)}</td>
-                <td>{getDisplayDescription(row)}</td>
+                <td>
+                  {getDisplayDescription(row)}
+                  {row.bank_removed && (
+                    <span className="badge badge-danger ml-1" title="The bank removed the transaction this entry was imported from">
+                      Removed by bank
+                    </span>
+                  )}
+                  {row.reversed_by_transaction_id != null && (
+                    <span className="badge badge-danger ml-1" title={`Reversed by #${row.reversed_by_transaction_id}`}>
+                      Reversed
+                    </span>
+                  )}
+                  {row.reverses_transaction_id != null && (
+                    <span className="badge badge-info ml-1">Reversal of #{row.reverses_transaction_id}</span>
+                  )}
+                  {row.corrects_transaction_id != null && (
+                    <span className="badge badge-info ml-1">Correction of #{row.corrects_transaction_id}</span>
+                  )}
+                </td>
                 <td>{row.vendor_installer}</td>
                 <td>{row.cash_account}</td>
                 <td>{row.type_label}</td>
                 <td className="right">{formatMoney(row.amount)}</td>
                 <td className="center">{row.is_cleared ? '\u2713' : ''}</td>
+                <td className="center">{renderReceiptCell(row)}</td>
                 <td className="center">
                   <CcStatusCell 
                     isCcTransaction={row.isCcTransaction} 
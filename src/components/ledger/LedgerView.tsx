@@ -11,6 +11,7 @@ import {
   type DateRange,
   type AccountFilter,
   type CategorizedAccounts,
+  type LedgerAttachment,
 } from './types';
 import {
   getDateRangeForPreset,
@@ -23,9 +24,13 @@ import { LedgerEditModal, type EditModalResult } from './LedgerEditModal';
 import { LedgerClearModal } from './LedgerClearModal';
 import { LedgerFilters } from './LedgerFilters';
 import { LedgerTable } from './LedgerTable';
+import { LedgerReconcilePanel } from './LedgerReconcilePanel';
+import { LedgerDuplicatesPanel } from './LedgerDuplicatesPanel';
 import { CcSettleModal } from '../shared/CcSettleModal';
 import type { CcBalance, CcSettleTransferParams } from '../../utils/ccTracking';
-import { ACCOUNT_CODE_RANGES } from '../../utils/accounts';
+import { ACCOUNT_CODE_RANGES, type Purpose } from '../../utils/accounts';
+import { requiresReceipt, type TransactionAttachment } from '../../utils/attachments';
+import { useClosedPeriod } from '../shared/closedPeriod';
 
 // Raw shape from Supabase query
 type RawTransactionLine = {
@@ -34,9 +39,11 @@ type RawTransactionLine = {
   amount: number;
   is_cleared: boolean;
   cc_settled: boolean;
+  bank_removed_at: string | null;
   created_at: string;
   account_id: number;
   job_id: number | null;
+  purpose: Purpose | null;
   accounts: {
     name: string;
     code: string | null;
@@ -47,6 +54,9 @@ type RawTransactionLine = {
     description: string | null;
     created_at: string;
     updated_at: string;
+    reverses_transaction_id: number | null;
+    corrects_transaction_id: number | null;
+    transaction_attachments: LedgerAttachment[] | null;
   } | null;
   jobs: { name: string } | null;
   vendors: { name: string } | null;
@@ -83,6 +93,7 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
 
   // Edit modal state
   const [editingRow, setEditingRow] = useState<LedgerRow | null>(null);
+  const periodGuard = useClosedPeriod();
 
   // All accounts from DB for the tiered dropdown
   const [allAccounts, setAllAccounts] = useState<AccountOption[]>([]);
@@ -94,6 +105,9 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
   const [customStartDate, setCustomStartDate] = useState<string>('');
   const [customEndDate, setCustomEndDate] = useState<string>('');
 
+  // Business expenses over the receipt threshold with nothing attached
+  const [missingReceiptOnly, setMissingReceiptOnly] = useState(false);
+
   // Clear-transaction modal state
   const [clearTarget, setClearTarget] = useState<LedgerRow | null>(null);
 
@@ -102,6 +116,10 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
   const [ccSettleTarget, setCcSettleTarget] = useState<CcBalance | null>(null);
   const [ccSettleError, setCcSettleError] = useState<string | null>(null);
 
+  // Statement reconciliation mode
+  const [reconcileMode, setReconcileMode] = useState(false);
+  const [duplicatesMode, setDuplicatesMode] = useState(false);
+
   // ---------- load ledger ----------
   async function loadLedger() {
     setLoading(true);
@@ -124,9 +142,11 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
           amount,
           is_cleared,
           cc_settled,
+          bank_removed_at,
           created_at,
           account_id,
           job_id,
+          purpose,
           accounts (
             name,
             code,
@@ -136,7 +156,10 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
             date,
             description,
             created_at,
-            updated_at
+            updated_at,
+            reverses_transaction_id,
+            corrects_transaction_id,
+            transaction_attachments ( id, storage_path, file_name, content_type )
           ),
           jobs (
             name
@@ -223,6 +246,7 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
 
         const amount = Number(cashLine.amount);
         const isCleared = lines.every((l) => !!l.is_cleared);
+        const bankRemoved = lines.some((l) => !!l.bank_removed_at);
         const updatedAt: string = tx?.updated_at ?? createdAt;
 
         // CC tracking: check if cash line is a liability (credit card)
@@ -255,13 +279,28 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
           type_label: typeLabel,
           amount,
           is_cleared: isCleared,
+          bank_removed: bankRemoved,
           isCcTransaction,
           ccSettled,
           all_account_ids: allAccountIds,
           all_account_codes: allAccountCodes,
+          attachments: tx?.transaction_attachments ?? [],
+          receipt_required: requiresReceipt(lines),
+          reverses_transaction_id: tx?.reverses_transaction_id ?? null,
+          corrects_transaction_id: tx?.corrects_transaction_id ?? null,
+          reversed_by_transaction_id: null,
         });
       }
 
+      // Link originals to the reversals posted against them
+      const reversedBy = new Map<number, number>();
+      for (const r of ledgerRows) {
+        if (r.reverses_transaction_id != null) reversedBy.set(r.reverses_transaction_id, r.transaction_id);
+      }
+      for (const r of ledgerRows) {
+        r.reversed_by_transaction_id = reversedBy.get(r.transaction_id) ?? null;
+      }
+
       setAllRows(ledgerRows);
       setLoading(false);
     } catch (err: unknown) {
@@ -315,7 +354,7 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
 
   useEffect(() => {
     setPage(1);
-  }, [searchTerm, accountFilter, dateRangePreset, customStartDate, customEndDate]);
+  }, [searchTerm, accountFilter, dateRangePreset, customStartDate, customEndDate, missingReceiptOnly]);
 
   // ---------- account list (for selector) ----------
   // Separate accounts by category based on code ranges
@@ -356,6 +395,12 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
     return { banks, cards, reAssets, reLiabilities, other };
   }, [allAccounts]);
 
+  // Only bank and card accounts have statements to reconcile
+  const reconcilableAccounts = useMemo(
+    () => [...categorizedAccounts.banks, ...categorizedAccounts.cards],
+    [categorizedAccounts]
+  );
+
   // ---------- filtered + sorted rows ----------
   // Compute effective date range (from preset or custom)
   const effectiveDateRange = useMemo((): DateRange => {
@@ -395,6 +440,10 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
       });
     }
 
+    if (missingReceiptOnly) {
+      rows = rows.filter((r) => r.receipt_required && r.attachments.length === 0);
+    }
+
     // text search (include job_name in search)
     if (term) {
       rows = rows.filter((row) => {
@@ -463,7 +512,7 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
     });
 
     return sorted;
-  }, [allRows, searchTerm, accountFilter, effectiveDateRange, sortField, sortDir]);
+  }, [allRows, searchTerm, accountFilter, effectiveDateRange, missingReceiptOnly, sortField, sortDir]);
 
   const totalCount = filteredRows.length;
   const totalPages = Math.max(1, Math.ceil(totalCount / pageSize));
@@ -500,11 +549,41 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
     setEditingRow(null);
   };
 
+  const handleAttachmentsChange = (txId: number, attachments: TransactionAttachment[]) => {
+    setAllRows((prev) =>
+      prev.map((r) =>
+        r.transaction_id === txId
+          ? {
+              ...r,
+              attachments: attachments.map(({ id, storage_path, file_name, content_type }) => ({
+                id,
+                storage_path,
+                file_name,
+                content_type,
+              })),
+            }
+          : r
+      )
+    );
+  };
+
   const handleEditError = (message: string) => {
     setRowActionError(message);
   };
 
   async function handleDelete(row: LedgerRow) {
+    const lockError = periodGuard.errorFor(row.date);
+    if (lockError) {
+      setRowActionError(`${lockError} Open the transaction and reverse it instead of deleting it.`);
+      return;
+    }
+    if (row.reversed_by_transaction_id != null) {
+      setRowActionError(
+        `Transaction #${row.transaction_id} was reversed by #${row.reversed_by_transaction_id}. Delete the reversal first.`
+      );
+      return;
+    }
+
     const confirmed = window.confirm(
       `Delete this transaction?\n\n` +
         `Date: ${formatDate(row.date)}\n` +
@@ -653,131 +732,169 @@ export function LedgerView({ onNavigateToTransfer }: LedgerViewProps) {
   // ---------- JSX ----------
   return (
     <div>
-      <h2 className="ledger-title">Ledger</h2>
-
-      <div className="card">
-        {loading && <p>Loading transactions...</p>}
-        {error && <p className="ledger-error">Error: {error}</p>}
-        {rowActionError && !loading && (
-          <p className="ledger-row-error">{rowActionError}</p>
-        )}
-
-        {!loading && !error && (
-          <>
-            {/* controls row */}
-            <LedgerFilters
-              pageSize={pageSize}
-              onPageSizeChange={(size) => {
-                setPageSize(size);
-                setPage(1);
-              }}
-              dateRangePreset={dateRangePreset}
-              onDateRangePresetChange={setDateRangePreset}
-              customStartDate={customStartDate}
-              onCustomStartDateChange={setCustomStartDate}
-              customEndDate={customEndDate}
-              onCustomEndDateChange={setCustomEndDate}
-              accountFilter={accountFilter}
-              onAccountFilterChange={setAccountFilter}
-              categorizedAccounts={categorizedAccounts}
-              searchTerm={searchTerm}
-              onSearchTermChange={setSearchTerm}
-              totalCount={totalCount}
-              startIndex={startIndex}
-              endIndex={endIndex}
-            />
-
-            {/* CC Settle action bar */}
-            {selectedLineIds.size > 0 && (
-              <div className="cc-select-bar">
-                <span className="cc-select-bar__count">
-                  {selectedLineIds.size} CC transaction{selectedLineIds.size !== 1 ? 's' : ''} selected
-                </span>
-                <button
-                  type="button"
-                  onClick={handleSettleSelectedCc}
-                  className="cc-select-bar__btn-settle"
-                >
-                  Settle Selected CC
-                </button>
-                <button
-                  type="button"
-                  onClick={() => {
-                    setSelectedLineIds(new Set());
-                    setCcSettleError(null);
-                  }}
-                  className="cc-select-bar__btn-clear"
-                >
-                  Clear Selection
-                </button>
-              </div>
-            )}
-
-            {ccSettleError && (
-              <p className="cc-settle-error">
-                {ccSettleError}
-              </p>
-            )}
-
-            {totalCount === 0 && (
-              <p className="ledger-empty">No transactions found for this selection.</p>
-            )}
-
-            {totalCount > 0 && (
-              <LedgerTable
-                rows={pageRows}
-                sortField={sortField}
-                sortDir={sortDir}
-                onSort={(field, dir) => {
-                  setSortField(field);
-                  setSortDir(dir);
-                }}
-                page={page}
-                totalPages={totalPages}
-                onPrevPage={handlePrev}
-                onNextPage={handleNext}
-                onEdit={openEditModal}
-                onDelete={(row) => void handleDelete(row)}
-                onMarkCleared={handleMarkClearedFromLedger}
-                selectedLineIds={selectedLineIds}
-                onToggleSelect={handleToggleSelect}
-                onSelectAllUnsettledCc={handleSelectAllUnsettledCc}
-              />
-            )}
-          </>
+      <div className="ledger-header">
+        <h2 className="ledger-title">Ledger</h2>
+        {!reconcileMode && !duplicatesMode && (
+          <div className="ledger-header__actions">
+            <button type="button" className="btn-sm" onClick={() => setDuplicatesMode(true)}>
+              Possible Duplicates
+            </button>
+            <button type="button" className="btn-sm" onClick={() => setReconcileMode(true)}>
+              Reconcile Statement
+            </button>
+          </div>
         )}
+      </div>
 
-        {/* edit modal */}
-        {editingRow && (
-          <LedgerEditModal
-            row={editingRow}
-            onClose={() => setEditingRow(null)}
-            onSave={handleEditSave}
-            onError={handleEditError}
+      {reconcileMode && (
+        <div className="card">
+          <LedgerReconcilePanel
+            accounts={reconcilableAccounts}
+            onClose={() => setReconcileMode(false)}
+            onCompleted={() => void loadLedger()}
           />
-        )}
-
-        {/* clear-from-ledger modal */}
-        {clearTarget && (
-          <LedgerClearModal
-            row={clearTarget}
-            onClose={() => setClearTarget(null)}
-            onSuccess={() => void handleClearSuccess()}
-            onError={handleClearError}
+        </div>
+      )}
+
+      {duplicatesMode && (
+        <div className="card">
+          <LedgerDuplicatesPanel
+            accounts={reconcilableAccounts}
+            onClose={() => setDuplicatesMode(false)}
+            onChanged={() => void loadLedger()}
           />
-        )}
+        </div>
+      )}
+
+      {!reconcileMode && !duplicatesMode && (
+        <div className="card">
+          {loading && <p>Loading transactions...</p>}
+          {error && <p className="ledger-error">Error: {error}</p>}
+          {rowActionError && !loading && (
+            <p className="ledger-row-error">{rowActionError}</p>
+          )}
+
+          {!loading && !error && (
+            <>
+              {/* controls row */}
+              <LedgerFilters
+                pageSize={pageSize}
+                onPageSizeChange={(size) => {
+                  setPageSize(size);
+                  setPage(1);
+                }}
+                dateRangePreset={dateRangePreset}
+                onDateRangePresetChange={setDateRangePreset}
+                customStartDate={customStartDate}
+                onCustomStartDateChange={setCustomStartDate}
+                customEndDate={customEndDate}
+                onCustomEndDateChange={setCustomEndDate}
+                accountFilter={accountFilter}
+                onAccountFilterChange={setAccountFilter}
+                categorizedAccounts={categorizedAccounts}
+                missingReceiptOnly={missingReceiptOnly}
+                onMissingReceiptOnlyChange={setMissingReceiptOnly}
+                searchTerm={searchTerm}
+                onSearchTermChange={setSearchTerm}
+                totalCount={totalCount}
+                startIndex={startIndex}
+                endIndex={endIndex}
+              />
 
-        {/* CC settle modal */}
-        {ccSettleTarget && (
-          <CcSettleModal
-            entityName="Selected Transactions"
-            cc={ccSettleTarget}
-            onClose={() => setCcSettleTarget(null)}
-            onSettled={() => void handleCcSettled()}
-            onNavigateToTransfer={handleNavigateToTransfer}
-          />
-        )}
-      </div>
+              {/* CC Settle action bar */}
+              {selectedLineIds.size > 0 && (
+                <div className="cc-select-bar">
+                  <span className="cc-select-bar__count">
+                    {selectedLineIds.size} CC transaction{selectedLineIds.size !== 1 ? 's' : ''} selected
+                  </span>
+                  <button
+                    type="button"
+                    onClick={handleSettleSelectedCc}
+                    className="cc-select-bar__btn-settle"
+                  >
+                    Settle Selected CC
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSelectedLineIds(new Set());
+                      setCcSettleError(null);
+                    }}
+                    className="cc-select-bar__btn-clear"
+                  >
+                    Clear Selection
+                  </button>
+                </div>
+              )}
+
+              {ccSettleError && (
+                <p className="cc-settle-error">
+                  {ccSettleError}
+                </p>
+              )}
+
+              {totalCount === 0 && (
+                <p className="ledger-empty">No transactions found for this selection.</p>
+              )}
+
+              {totalCount > 0 && (
+                <LedgerTable
+                  rows={pageRows}
+                  sortField={sortField}
+                  sortDir={sortDir}
+                  onSort={(field, dir) => {
+                    setSortField(field);
+                    setSortDir(dir);
+                  }}
+                  page={page}
+                  totalPages={totalPages}
+                  onPrevPage={handlePrev}
+                  onNextPage={handleNext}
+                  onEdit={openEditModal}
+                  onDelete={(row) => void handleDelete(row)}
+                  onMarkCleared={handleMarkClearedFromLedger}
+                  selectedLineIds={selectedLineIds}
+                  onToggleSelect={handleToggleSelect}
+                  onSelectAllUnsettledCc={handleSelectAllUnsettledCc}
+                />
+              )}
+            </>
+          )}
+
+          {/* edit modal */}
+          {editingRow && (
+            <LedgerEditModal
+              row={editingRow}
+              onClose={() => setEditingRow(null)}
+              onSave={handleEditSave}
+              onError={handleEditError}
+              onAttachmentsChange={handleAttachmentsChange}
+              onAdjusted={() => void loadLedger()}
+            />
+          )}
+
+          {/* clear-from-ledger modal */}
+          {clearTarget && (
+            <LedgerClearModal
+              row={clearTarget}
+              onClose={() => setClearTarget(null)}
+              onSuccess={() => void handleClearSuccess()}
+              onError={handleClearError}
+            />
+          )}
+
+          {/* CC settle modal */}
+          {ccSettleTarget && (
+            <CcSettleModal
+              entityName="Selected Transactions"
+              cc={ccSettleTarget}
+              onClose={() => setCcSettleTarget(null)}
+              onSettled={() => void handleCcSettled()}
+              onNavigateToTransfer={handleNavigateToTransfer}
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -5,5 +5,9 @@ export { LedgerEditModal } from './LedgerEditModal';
 export { LedgerClearModal } from './LedgerClearModal';
 export { LedgerFilters } from './LedgerFilters';
 export { LedgerTable } from './LedgerTable';
+export { LedgerReconcilePanel } from './LedgerReconcilePanel';
+export { LedgerReconcileReport } from './LedgerReconcileReport';
+export { LedgerDuplicatesPanel } from './LedgerDuplicatesPanel';
+export { LedgerHistoryPanel } from './LedgerHistoryPanel';
 export * from './types';
 export * from './utils';
@@ -18,6 +18,8 @@ export type LedgerRow = {
   type_label: string | null;
   amount: number;
   is_cleared: boolean;
+  /** True if the bank removed the Plaid transaction this entry was imported from */
+  bank_removed: boolean;
   /** True if this is a credit card (liability) transaction */
   isCcTransaction: boolean;
   /** True if CC charge has been settled */
@@ -26,6 +28,26 @@ export type LedgerRow = {
   all_account_ids: number[];
   /** All account codes touched by this transaction (for filtering) */
   all_account_codes: (number | null)[];
+  /** Receipts / invoices attached to the transaction */
+  attachments: LedgerAttachment[];
+  /** Business expense over the receipt threshold (see utils/attachments) */
+  receipt_required: boolean;
+  /** Set when this transaction is a reversal of another */
+  reverses_transaction_id: number | null;
+  /** Set when this transaction is the corrected re-post of another */
+  corrects_transaction_id: number | null;
+  /** Reversal posted against this transaction, if any */
+  reversed_by_transaction_id: number | null;
+};
+
+/**
+ * Attachment summary shown in the ledger table
+ */
+export type LedgerAttachment = {
+  id: number;
+  storage_path: string;
+  file_name: string;
+  content_type: string | null;
 };
 
 /**
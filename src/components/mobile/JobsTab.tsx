@@ -1,6 +1,9 @@
 import { useEffect, useState, useMemo } from 'react';
+import type { Purpose } from '../../utils/accounts';
 import { supabase } from '../../lib/supabaseClient';
 import { formatCurrency } from '../../utils/format';
+import { requiresReceipt } from '../../utils/attachments';
+import { uploadTransactionAttachments } from '../shared/attachmentStorage';
 import { mobileStyles as styles, TX_COLORS } from './mobileStyles';
 
 // ============================================================
@@ -20,6 +23,8 @@ type Transaction = {
   accountName: string;
   isCcTransaction: boolean;
   ccSettled: boolean;
+  attachmentCount: number;
+  receiptRequired: boolean;
 };
 
 type CcBalance = {
@@ -63,8 +68,14 @@ type RawTransactionLine = {
   installer_id: number | null;
   vendor_id: number | null;
   transaction_id: number;
-  transactions: { id: number; date: string; description: string | null } | null;
-  accounts: { name: string; account_types: { name: string } | null } | null;
+  purpose: Purpose | null;
+  transactions: {
+    id: number;
+    date: string;
+    description: string | null;
+    transaction_attachments: { id: number }[] | null;
+  } | null;
+  accounts: { name: string; code: string | null; account_types: { name: string } | null } | null;
   vendors: { name: string } | null;
   installers: { first_name: string; last_name: string | null } | null;
 };
@@ -80,6 +91,8 @@ export function JobsTab() {
   const [search, setSearch] = useState('');
   const [filter, setFilter] = useState<FilterMode>('open');
   const [expandedJobId, setExpandedJobId] = useState<number | null>(null);
+  const [uploadingTxId, setUploadingTxId] = useState<number | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
 
   // ----------------------------------------------------------
   // LOAD DATA
@@ -122,9 +135,9 @@ export function JobsTab() {
           const { data: linesData, error: linesErr } = await supabase
             .from('transaction_lines')
             .select(`
-              id, job_id, amount, is_cleared, cc_settled, installer_id, vendor_id, transaction_id,
-              transactions ( id, date, description ),
-              accounts ( name, account_types ( name ) ),
+              id, job_id, amount, is_cleared, cc_settled, installer_id, vendor_id, transaction_id, purpose,
+              transactions ( id, date, description, transaction_attachments ( id ) ),
+              accounts ( name, code, account_types ( name ) ),
               vendors ( name ),
               installers ( first_name, last_name )
             `)
@@ -171,6 +184,10 @@ export function JobsTab() {
                 accountName: accountName,
                 isCcTransaction: false,
                 ccSettled: true,
+                attachmentCount: tx?.transaction_attachments?.length ?? 0,
+                receiptRequired: requiresReceipt(
+                  lines.filter((l) => l.transaction_id === txId)
+                ),
               });
             }
 
@@ -270,6 +287,30 @@ export function JobsTab() {
     return result;
   }, [jobs, filter, search]);
 
+  // ----------------------------------------------------------
+  // RECEIPT PHOTOS
+  // ----------------------------------------------------------
+  async function handleReceiptPhoto(txId: number, files: File[]) {
+    if (files.length === 0) return;
+    setUploadingTxId(txId);
+    setUploadError(null);
+    try {
+      const saved = await uploadTransactionAttachments(txId, files);
+      setJobs((prev) =>
+        prev.map((job) => ({
+          ...job,
+          transactions: job.transactions.map((t) =>
+            t.id === txId ? { ...t, attachmentCount: t.attachmentCount + saved.length } : t
+          ),
+        }))
+      );
+    } catch (err: unknown) {
+      setUploadError(err instanceof Error ? err.message : 'Failed to upload receipt');
+    } finally {
+      setUploadingTxId(null);
+    }
+  }
+
   // ----------------------------------------------------------
   // HELPERS
   // ----------------------------------------------------------
@@ -356,6 +397,7 @@ export function JobsTab() {
 
               {isExpanded && (
                 <div style={styles.transactionsSection}>
+                  {uploadError && <div style={styles.error}>{uploadError}</div>}
                   {job.transactions.length === 0 ? (
                     <div style={styles.noTransactions}>No transactions</div>
                   ) : (
@@ -381,6 +423,25 @@ export function JobsTab() {
                               {tx.type === 'income' ? '+' : ''}{formatCurrency(tx.amount, 0)}
                             </div>
                             <div style={styles.txStatus}>
+                              <label
+                                className={`jobs-tab__camera ${tx.receiptRequired && tx.attachmentCount === 0 ? 'jobs-tab__camera--missing' : ''}`}
+                                title={tx.attachmentCount > 0 ? `${tx.attachmentCount} attached` : 'Take receipt photo'}
+                              >
+                                {uploadingTxId === tx.id ? '...' : '📷'}
+                                {tx.attachmentCount > 0 && <span>{tx.attachmentCount}</span>}
+                                <input
+                                  type="file"
+                                  accept="image/*"
+                                  capture="environment"
+                                  hidden
+                                  disabled={uploadingTxId !== null}
+                                  onChange={(e) => {
+                                    const files = Array.from(e.target.files ?? []);
+                                    e.target.value = '';
+                                    void handleReceiptPhoto(tx.id, files);
+                                  }}
+                                />
+                              </label>
                               {isUnsettledCc && (
                                 <span className="jobs-tab__cc-icon">💳</span>
                               )}
@@ -0,0 +1,183 @@
+// src/components/new-entries/JournalLinesTable.tsx
+
+import { useMemo } from 'react';
+import { formatMoney } from '../../utils/format';
+import { compareAccountsForSort, type Purpose } from '../../utils/accounts';
+import { emptyJournalLine, journalTotals, type JournalAccount, type JournalLine } from '../../utils/journalEntry';
+import { SearchableSelect, type SelectOption } from '../shared/SearchableSelect';
+import { JobSelect } from '../shared/JobSelect';
+
+type Deal = {
+  id: number;
+  nickname: string;
+};
+
+type JournalLinesTableProps = {
+  lines: JournalLine[];
+  onChange: (lines: JournalLine[]) => void;
+  accounts: JournalAccount[];
+  deals: Deal[];
+};
+
+const PURPOSE_OPTIONS: { value: Purpose; label: string }[] = [
+  { value: 'business', label: 'Business' },
+  { value: 'personal', label: 'Personal' },
+  { value: 'mixed', label: 'Mixed' },
+];
+
+const MIN_LINES = 2;
+
+/** Debit/credit line editor with a live balance row (general journal, recurring schedules) */
+export function JournalLinesTable({ lines, onChange, accounts, deals }: JournalLinesTableProps) {
+  const totals = journalTotals(lines);
+  const isBalanced = totals.difference === 0 && totals.debits > 0;
+
+  const accountOptions: SelectOption[] = useMemo(
+    () =>
+      [...accounts].sort(compareAccountsForSort).map((a) => ({
+        value: a.id,
+        label: a.code ? `${a.code} - ${a.name}` : a.name,
+      })),
+    [accounts]
+  );
+
+  const dealOptions: SelectOption[] = useMemo(
+    () => deals.map((d) => ({ value: d.id, label: d.nickname })),
+    [deals]
+  );
+
+  function updateLine(key: number, changes: Partial<JournalLine>) {
+    onChange(lines.map((l) => (l.key === key ? { ...l, ...changes } : l)));
+  }
+
+  function handleAccountChange(key: number, accountId: number | null) {
+    const account = accounts.find((a) => a.id === accountId);
+    updateLine(key, { accountId, ...(account?.purpose_default ? { purpose: account.purpose_default } : {}) });
+  }
+
+  function removeLine(key: number) {
+    if (lines.length > MIN_LINES) onChange(lines.filter((l) => l.key !== key));
+  }
+
+  /** Put the remaining difference on a line so the entry balances */
+  function balanceOnLine(line: JournalLine) {
+    const others = journalTotals(lines.filter((l) => l.key !== line.key));
+    const diff = others.debits - others.credits;
+    if (diff === 0) return;
+    updateLine(line.key, diff > 0 ? { debit: '', credit: diff.toFixed(2) } : { debit: (-diff).toFixed(2), credit: '' });
+  }
+
+  return (
+    <table className="table journal-form__lines">
+      <thead>
+        <tr>
+          <th>Account</th>
+          <th className="text-right">Debit</th>
+          <th className="text-right">Credit</th>
+          <th>Purpose</th>
+          <th>Job</th>
+          <th>Deal</th>
+          <th>Memo</th>
+          <th />
+        </tr>
+      </thead>
+      <tbody>
+        {lines.map((line) => (
+          <tr key={line.key}>
+            <td className="journal-form__account">
+              <SearchableSelect
+                options={accountOptions}
+                value={line.accountId}
+                onChange={(val) => handleAccountChange(line.key, val != null ? Number(val) : null)}
+                placeholder="Type to search accounts..."
+                emptyLabel="Select..."
+              />
+            </td>
+            <td>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={line.debit}
+                onChange={(e) => updateLine(line.key, { debit: e.target.value, credit: e.target.value ? '' : line.credit })}
+                onDoubleClick={() => balanceOnLine(line)}
+                title="Double-click to balance the entry on this line"
+                className="journal-form__amount"
+              />
+            </td>
+            <td>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={line.credit}
+                onChange={(e) => updateLine(line.key, { credit: e.target.value, debit: e.target.value ? '' : line.debit })}
+                onDoubleClick={() => balanceOnLine(line)}
+                title="Double-click to balance the entry on this line"
+                className="journal-form__amount"
+              />
+            </td>
+            <td>
+              <select
+                value={line.purpose}
+                onChange={(e) => updateLine(line.key, { purpose: e.target.value as Purpose })}
+                className="transfer-form__input"
+              >
+                {PURPOSE_OPTIONS.map((p) => (
+                  <option key={p.value} value={p.value}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            </td>
+            <td className="journal-form__entity">
+              <JobSelect value={line.jobId} onChange={(jobId) => updateLine(line.key, { jobId })} />
+            </td>
+            <td className="journal-form__entity">
+              <SearchableSelect
+                options={dealOptions}
+                value={line.dealId}
+                onChange={(val) => updateLine(line.key, { dealId: val != null ? Number(val) : null })}
+                placeholder="Type to search deals..."
+              />
+            </td>
+            <td>
+              <input
+                type="text"
+                value={line.memo}
+                onChange={(e) => updateLine(line.key, { memo: e.target.value })}
+                className="journal-form__memo"
+              />
+            </td>
+            <td>
+              <button
+                type="button"
+                className="btn-link text-sm"
+                onClick={() => removeLine(line.key)}
+                disabled={lines.length <= MIN_LINES}
+              >
+                Remove
+              </button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+      <tfoot>
+        <tr className={`journal-form__totals ${isBalanced ? 'journal-form__totals--balanced' : 'journal-form__totals--unbalanced'}`}>
+          <td>
+            <button type="button" className="btn btn-sm" onClick={() => onChange([...lines, emptyJournalLine()])}>
+              + Add line
+            </button>
+          </td>
+          <td className="text-right">{formatMoney(totals.debits)}</td>
+          <td className="text-right">{formatMoney(totals.credits)}</td>
+          <td colSpan={5}>
+            {isBalanced
+              ? 'Balanced'
+              : totals.debits === 0 && totals.credits === 0
+                ? 'Enter amounts'
+                : `Out of balance by ${formatMoney(Math.abs(totals.difference))}`}
+          </td>
+        </tr>
+      </tfoot>
+    </table>
+  );
+}
@@ -3,9 +3,10 @@ import { supabase } from '../../lib/supabaseClient';
 import { NewTransactionForm } from './NewTransactionForm';
 import { NewJobForm } from './NewJobForm';
 import { Transfers } from './NewTransferForm';
+import { NewJournalEntryForm } from './NewJournalEntryForm';
 import { BalancesCard, type AccountBalance } from '../shared/BalancesCard';
 
-type EntryTab = 'transaction' | 'job' | 'transfer';
+type EntryTab = 'transaction' | 'job' | 'transfer' | 'journal';
 
 type RawAccountBalanceRow = {
   account_id: number;
@@ -108,6 +109,13 @@ export function NewEntryView({
         >
           Transfer
         </button>
+        <button
+          type="button"
+          className={`tab ${tab === 'journal' ? 'tab--active' : ''}`}
+          onClick={() => setTab('journal')}
+        >
+          Journal Entry
+        </button>
       </div>
 
       {/* Content - centered */}
@@ -141,6 +149,12 @@ export function NewEntryView({
           </div>
         )}
 
+        {tab === 'journal' && (
+          <div className="card entry-journal-card">
+            <NewJournalEntryForm onEntrySaved={loadAccounts} />
+          </div>
+        )}
+
         {tab === 'job' && (
           <div className="card entry-job-card">
             <NewJobForm />
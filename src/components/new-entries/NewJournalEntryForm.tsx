@@ -0,0 +1,277 @@
+// src/components/new-entries/NewJournalEntryForm.tsx
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { todayLocalISO } from '../../utils/date';
+import type { MixedAllocationMap } from '../../utils/mixedAllocation';
+import {
+  JOURNAL_TEMPLATE_SELECT,
+  allocateMixedJournalLines,
+  emptyJournalLine,
+  journalLinesFromTemplate,
+  journalLinesToRpc,
+  journalLinesToTemplate,
+  journalTotals,
+  validateJournalLines,
+  type JournalAccount,
+  type JournalLine,
+  type JournalTemplate,
+} from '../../utils/journalEntry';
+import { useClosedPeriod } from '../shared/closedPeriod';
+import { ClosedPeriodBanner } from '../shared/ClosedPeriodBanner';
+import { loadMixedAllocations } from '../shared/mixedAllocations';
+import { withIntercompanyLines } from '../shared/entityContext';
+import { JournalLinesTable } from './JournalLinesTable';
+
+type Deal = {
+  id: number;
+  nickname: string;
+};
+
+type NewJournalEntryFormProps = {
+  onEntrySaved?: () => void;
+};
+
+function initialLines(): JournalLine[] {
+  return [emptyJournalLine(), emptyJournalLine()];
+}
+
+export function NewJournalEntryForm({ onEntrySaved }: NewJournalEntryFormProps) {
+  const [accounts, setAccounts] = useState<JournalAccount[]>([]);
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [mixedAllocations, setMixedAllocations] = useState<MixedAllocationMap>(new Map());
+  const [templates, setTemplates] = useState<JournalTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [date, setDate] = useState(todayLocalISO);
+  const [description, setDescription] = useState('');
+  const [isCleared, setIsCleared] = useState(true);
+  const [lines, setLines] = useState<JournalLine[]>(initialLines);
+  const [templateId, setTemplateId] = useState<number | null>(null);
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const periodGuard = useClosedPeriod();
+
+  const totals = journalTotals(lines);
+  const isBalanced = totals.difference === 0 && totals.debits > 0;
+
+  async function loadTemplates() {
+    const { data, error: loadErr } = await supabase
+      .from('journal_entry_templates')
+      .select(JOURNAL_TEMPLATE_SELECT)
+      .order('name');
+    if (loadErr) throw loadErr;
+    setTemplates((data ?? []) as unknown as JournalTemplate[]);
+  }
+
+  useEffect(() => {
+    async function loadData() {
+      setLoading(true);
+      try {
+        const [accountsRes, dealsRes, allocations] = await Promise.all([
+          supabase.from('accounts').select('id, name, code, purpose_default').eq('is_active', true),
+          supabase.from('real_estate_deals').select('id, nickname').order('nickname'),
+          loadMixedAllocations(),
+        ]);
+        if (accountsRes.error) throw accountsRes.error;
+        if (dealsRes.error) throw dealsRes.error;
+
+        setAccounts((accountsRes.data ?? []) as unknown as JournalAccount[]);
+        setDeals((dealsRes.data ?? []) as unknown as Deal[]);
+        setMixedAllocations(allocations);
+        await loadTemplates();
+      } catch (err: unknown) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Failed to load accounts');
+      } finally {
+        setLoading(false);
+      }
+    }
+    void loadData();
+  }, []);
+
+  function handleTemplateSelect(id: number | null) {
+    setTemplateId(id);
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+    const templateLines = journalLinesFromTemplate(template);
+    while (templateLines.length < 2) templateLines.push(emptyJournalLine());
+    setLines(templateLines);
+    if (!description.trim() && template.description) setDescription(template.description);
+    setError(null);
+    setSuccess(null);
+  }
+
+  async function handleSaveTemplate() {
+    const name = window.prompt('Template name:', templates.find((t) => t.id === templateId)?.name ?? '');
+    if (!name?.trim()) return;
+    const withAmounts = window.confirm('Save the current amounts with the template?\n\nCancel saves accounts only.');
+
+    setError(null);
+    try {
+      const { error: saveErr } = await supabase.from('journal_entry_templates').upsert(
+        {
+          name: name.trim(),
+          description: description.trim() || null,
+          lines: journalLinesToTemplate(lines, withAmounts),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'name' }
+      );
+      if (saveErr) throw saveErr;
+      await loadTemplates();
+      setSuccess(`Template "${name.trim()}" saved.`);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    }
+  }
+
+  async function handleDeleteTemplate() {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template || !window.confirm(`Delete template "${template.name}"?`)) return;
+
+    setError(null);
+    try {
+      const { error: deleteErr } = await supabase.from('journal_entry_templates').delete().eq('id', template.id);
+      if (deleteErr) throw deleteErr;
+      setTemplateId(null);
+      await loadTemplates();
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  }
+
+  function resetForm() {
+    setLines(initialLines());
+    setDescription('');
+    setTemplateId(null);
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+
+    if (!date) {
+      setError('Date is required.');
+      return;
+    }
+    const lockError = periodGuard.errorFor(date);
+    if (lockError) {
+      setError(lockError);
+      return;
+    }
+    if (!description.trim()) {
+      setError('Description is required.');
+      return;
+    }
+    const lineError = validateJournalLines(lines);
+    if (lineError) {
+      setError(lineError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Mixed-purpose accounts post one line per allocation leg
+      const postedLines = allocateMixedJournalLines(lines, mixedAllocations);
+      const { error: rpcErr } = await supabase.rpc('create_transaction_multi', {
+        p_date: date,
+        p_description: description.trim(),
+        p_lines: await withIntercompanyLines(journalLinesToRpc(postedLines, isCleared)),
+      });
+      if (rpcErr) throw rpcErr;
+
+      setSuccess('Journal entry saved.');
+      resetForm();
+      onEntrySaved?.();
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save journal entry');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return <p className="transfer-form__loading">Loading accounts...</p>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="journal-form">
+      <p className="transfer-form__intro">
+        Free-form entry with any number of debit and credit lines - depreciation, owner draws, loan corrections,
+        opening balances. Debits must equal credits.
+      </p>
+
+      <ClosedPeriodBanner date={date} closedThrough={periodGuard.closedThrough} onPostToOpenPeriod={setDate} />
+
+      <div className="journal-form__header">
+        <label className="transfer-form__label">
+          <span className="transfer-form__label-text">Date</span>
+          <input
+            type="date"
+            value={date}
+            min={periodGuard.minDate}
+            onChange={(e) => setDate(e.target.value)}
+            className="transfer-form__input"
+          />
+        </label>
+        <label className="transfer-form__label journal-form__description">
+          <span className="transfer-form__label-text">Description</span>
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g. 2026 depreciation - Elm St rental"
+            className="transfer-form__input"
+          />
+        </label>
+        <div className="transfer-form__label">
+          <span className="transfer-form__label-text">Template</span>
+          <div className="journal-form__templates">
+            <select
+              value={templateId ?? ''}
+              onChange={(e) => handleTemplateSelect(e.target.value ? Number(e.target.value) : null)}
+              className="transfer-form__input"
+            >
+              <option value="">{templates.length === 0 ? 'No templates yet' : 'Load template...'}</option>
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+            <button type="button" className="btn btn-sm" onClick={() => void handleSaveTemplate()}>
+              Save as template
+            </button>
+            {templateId != null && (
+              <button type="button" className="btn-link text-sm" onClick={() => void handleDeleteTemplate()}>
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <JournalLinesTable lines={lines} onChange={setLines} accounts={accounts} deals={deals} />
+
+      <label className="transfer-form__checkbox-label">
+        <input type="checkbox" checked={isCleared} onChange={(e) => setIsCleared(e.target.checked)} />
+        Mark lines as cleared
+      </label>
+
+      {error && <div className="transfer-form__error">{error}</div>}
+      {success && <div className="transfer-form__success">{success}</div>}
+
+      <button type="submit" className="btn btn-primary transfer-form__submit" disabled={saving || !isBalanced}>
+        {saving ? 'Saving...' : 'Post journal entry'}
+      </button>
+    </form>
+  );
+}
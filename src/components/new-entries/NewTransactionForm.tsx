@@ -1,13 +1,35 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { supabase } from '../../lib/supabaseClient';
 import type { FormEvent } from 'react';
-import { todayLocalISO } from '../../utils/date';
+import { formatLocalDate, todayLocalISO } from '../../utils/date';
+import { formatCurrency } from '../../utils/format';
+import {
+  DUPLICATE_LINE_SELECT,
+  duplicateSearchRange,
+  findDuplicates,
+  normalizeDuplicateLine,
+  type DuplicateCandidate,
+  type DuplicateMatch,
+  type RawDuplicateLine,
+} from '../../utils/duplicateDetection';
+import { ATTACHMENT_ACCEPT, RECEIPT_REQUIRED_OVER, validateAttachmentFile } from '../../utils/attachments';
 import { computeMortgageSplit } from '../../utils/mortgageAmortization';
-import { isCashAccount, compareAccountsForSort, ACCOUNT_CODES } from '../../utils/accounts';
+import { isCashAccount, compareAccountsForSort, ACCOUNT_CODES, type Purpose } from '../../utils/accounts';
+import {
+  applyMixedAllocations,
+  buildMixedAllocationMap,
+  describeMixedAllocation,
+  hasMixedAllocation,
+  type MixedAllocationMap,
+} from '../../utils/mixedAllocation';
 import { SearchableSelect, type SelectOption } from '../shared/SearchableSelect';
 import { VendorSelect } from '../shared/VendorSelect';
 import { InstallerSelect } from '../shared/InstallerSelect';
 import { JobSelect } from '../shared/JobSelect';
+import { uploadTransactionAttachments } from '../shared/attachmentStorage';
+import { useClosedPeriod } from '../shared/closedPeriod';
+import { withIntercompanyLines } from '../shared/entityContext';
+import { ClosedPeriodBanner } from '../shared/ClosedPeriodBanner';
 
 type Account = {
   id: number;
@@ -65,6 +87,7 @@ type RawAccountData = {
   name: string;
   code: string | null;
   purpose_default: string | null;
+  mixed_allocation: unknown;
   account_types: { name: string } | null;
 };
 
@@ -76,7 +99,7 @@ type TransactionLineInput = {
   vendor_id: number | null;
   installer_id: number | null;
   real_estate_deal_id: number | null;
-  purpose: 'business' | 'personal';
+  purpose: Purpose;
   is_cleared: boolean;
   rehab_category_id?: number | null;
 };
@@ -91,6 +114,7 @@ export function NewTransactionForm({
   onTransactionSaved,
 }: NewTransactionFormProps) {
   const [accounts, setAccounts] = useState<Account[]>([]);
+  const [mixedAllocations, setMixedAllocations] = useState<MixedAllocationMap>(new Map());
   const [realEstateDeals, setRealEstateDeals] = useState<RealEstateDeal[]>([]);
   const [rehabCategories, setRehabCategories] = useState<RehabCategory[]>([]);
 
@@ -134,6 +158,17 @@ export function NewTransactionForm({
   const [editableInterest, setEditableInterest] = useState<string>('');
   const [editableEscrow, setEditableEscrow] = useState<string>('');
 
+  // Duplicate check - "Save Anyway" resubmits with the check skipped
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
+  const skipDuplicateCheckRef = useRef(false);
+  const formRef = useRef<HTMLFormElement>(null);
+
+  const periodGuard = useClosedPeriod();
+
+  // Receipts / invoices uploaded once the transaction is saved
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [fileInputKey, setFileInputKey] = useState(0);
+
   useEffect(() => {
     async function loadOptions() {
       setLoading(true);
@@ -142,9 +177,11 @@ export function NewTransactionForm({
         // Accounts
         const { data: accountsData, error: accountsErr } = await supabase
           .from('accounts')
-          .select('id, name, code, purpose_default, account_types(name)');
+          .select('id, name, code, purpose_default, mixed_allocation, account_types(name)');
         if (accountsErr) throw accountsErr;
-        const normalizedAccounts: Account[] = ((accountsData ?? []) as unknown as RawAccountData[]).map((a) => ({
+        const rawAccounts = (accountsData ?? []) as unknown as RawAccountData[];
+        setMixedAllocations(buildMixedAllocationMap(rawAccounts));
+        const normalizedAccounts: Account[] = rawAccounts.map((a) => ({
           id: a.id,
           name: a.name,
           code: a.code ?? null,
@@ -251,6 +288,16 @@ export function NewTransactionForm({
     return 'business';
   }
 
+  const categoryAllocation =
+    categoryAccountId && purposeForAccount(Number(categoryAccountId)) === 'mixed'
+      ? mixedAllocations.get(Number(categoryAccountId)) ?? null
+      : null;
+
+  function accountLabel(accountId: number): string {
+    const acc = accounts.find((a) => a.id === accountId);
+    return acc ? acc.name : `#${accountId}`;
+  }
+
   const selectedDeal = dealId ? realEstateDeals.find((d) => d.id === Number(dealId)) : null;
   const isFlipDeal = selectedDeal?.type === 'flip';
   const effectiveExpenseKind: ExpenseKind = jobId && txType === 'expense' ? expenseKind : 'other';
@@ -265,6 +312,12 @@ export function NewTransactionForm({
 
   const amtNum = Number(amount) || 0;
   const isAmountLarge = amtNum > 10000;
+  const isReceiptExpected =
+    txType === 'expense' &&
+    amtNum > RECEIPT_REQUIRED_OVER &&
+    pendingFiles.length === 0 &&
+    !!categoryAccountId &&
+    purposeForAccount(Number(categoryAccountId)) !== 'personal';
   const interestNum = Number(mortgageInterest) || 0;
   const escrowNum = Number(mortgageEscrow) || 0;
   const computedPrincipal = Math.max(amtNum - interestNum - escrowNum, 0);
@@ -320,13 +373,71 @@ export function NewTransactionForm({
     };
   }
 
+  // Existing entries on the same cash account that look like this one
+  async function findLedgerDuplicates(candidate: DuplicateCandidate): Promise<DuplicateMatch[]> {
+    const range = duplicateSearchRange([candidate]);
+    if (!range) return [];
+    const { data, error: dupErr } = await supabase
+      .from('transaction_lines')
+      .select(DUPLICATE_LINE_SELECT)
+      .in('account_id', range.accountIds)
+      .gte('transactions.date', range.from)
+      .lte('transactions.date', range.to);
+    if (dupErr) throw dupErr;
+    const lines = ((data ?? []) as unknown as RawDuplicateLine[]).map(normalizeDuplicateLine);
+    return findDuplicates(candidate, lines);
+  }
+
+  function handleFilesPicked(files: FileList | null) {
+    const picked = Array.from(files ?? []);
+    const problem = picked.map(validateAttachmentFile).find(Boolean);
+    if (problem) {
+      setError(problem);
+      setFileInputKey((k) => k + 1);
+      return;
+    }
+    setPendingFiles(picked);
+  }
+
+  /**
+   * Upload the picked files against the transaction just created
+   * (create_transaction_multi returns its id). Returns a note for the
+   * success message; failures are reported but don't undo the save.
+   */
+  async function attachPendingFiles(newTransactionId: unknown): Promise<string> {
+    if (pendingFiles.length === 0) return '';
+    if (typeof newTransactionId !== 'number') {
+      setError('Attachments were not uploaded - add them from the ledger.');
+      return '';
+    }
+    try {
+      await uploadTransactionAttachments(newTransactionId, pendingFiles);
+      return ` ${pendingFiles.length} attachment${pendingFiles.length === 1 ? '' : 's'} uploaded.`;
+    } catch (err: unknown) {
+      console.error('Attachment upload failed:', err);
+      setError(
+        `Attachment upload failed: ${err instanceof Error ? err.message : 'unknown error'}. Add it from the ledger.`
+      );
+      return '';
+    }
+  }
+
+  function handleSaveAnyway() {
+    skipDuplicateCheckRef.current = true;
+    formRef.current?.requestSubmit();
+  }
+
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
     setError(null);
     setSuccess(null);
     const amt = Number(amount);
+    const skipDuplicateCheck = skipDuplicateCheckRef.current;
+    skipDuplicateCheckRef.current = false;
 
     // Validation
+    const lockError = periodGuard.errorFor(date);
+    if (lockError) { setError(lockError); return; }
     if (!cashAccountId) { setError('Pay from / deposit to account is required.'); return; }
     if (!categoryAccountId && !isMortgagePayment && !(dealId && isFlipDeal && txType === 'expense')) {
       setError('Category is required.');
@@ -340,6 +451,26 @@ export function NewTransactionForm({
       if (!costType) { setError('Cost type (L/M/S) is required for flip expenses.'); return; }
     }
 
+    // Duplicate check (a failed lookup never blocks saving)
+    if (!skipDuplicateCheck) {
+      try {
+        const matches = await findLedgerDuplicates({
+          accountId: Number(cashAccountId),
+          date,
+          amount: txType === 'income' ? amt : -amt,
+          description: description || null,
+          vendorId,
+        });
+        if (matches.length > 0) {
+          setDuplicateMatches(matches);
+          return;
+        }
+      } catch (err: unknown) {
+        console.warn('Duplicate check failed:', err);
+      }
+    }
+    setDuplicateMatches([]);
+
     // Mortgage payment flow
     if (isMortgagePayment) {
       if (useAutoSplit && canAutoSplit && selectedDeal) {
@@ -420,6 +551,10 @@ export function NewTransactionForm({
         cashPurposeDefault === 'personal' || categoryPurposeDefaultNormal === 'personal'
           ? 'personal'
           : 'business';
+      // A mixed-purpose category with an allocation is split into business/personal lines below
+      const categoryPurpose: Purpose = hasMixedAllocation(category_id_normal, categoryPurposeDefaultNormal, mixedAllocations)
+        ? 'mixed'
+        : txPurpose;
 
       let line1: TransactionLineInput;
       let line2: TransactionLineInput;
@@ -427,23 +562,24 @@ export function NewTransactionForm({
       if (txType === 'income') {
         // Income: cash line (debit) has no job_id, category line (credit) has job_id
         line1 = { account_id: cash_id, amount: amt, job_id: null, vendor_id: null, installer_id: null, real_estate_deal_id, purpose: txPurpose, is_cleared: isCleared };
-        line2 = { account_id: category_id_normal, amount: -amt, job_id, vendor_id, installer_id, real_estate_deal_id, purpose: txPurpose, is_cleared: isCleared };
+        line2 = { account_id: category_id_normal, amount: -amt, job_id, vendor_id, installer_id, real_estate_deal_id, purpose: categoryPurpose, is_cleared: isCleared };
       } else {
         // Expense: category line (debit) has job_id, cash line (credit) has no job_id
-        line1 = { account_id: category_id_normal, amount: amt, job_id, vendor_id, installer_id, real_estate_deal_id, purpose: txPurpose, is_cleared: isCleared };
+        line1 = { account_id: category_id_normal, amount: amt, job_id, vendor_id, installer_id, real_estate_deal_id, purpose: categoryPurpose, is_cleared: isCleared };
         line2 = { account_id: cash_id, amount: -amt, job_id: null, vendor_id: null, installer_id: null, real_estate_deal_id, purpose: txPurpose, is_cleared: isCleared };
       }
 
-      const lines = [line1, line2];
+      const lines = applyMixedAllocations([line1, line2], mixedAllocations);
 
-      const { error: rpcErr } = await supabase.rpc('create_transaction_multi', {
+      const { data: newTransactionId, error: rpcErr } = await supabase.rpc('create_transaction_multi', {
         p_date: date,
         p_description: description || null,
-        p_lines: lines,
+        p_lines: await withIntercompanyLines(lines),
       });
       if (rpcErr) throw rpcErr;
 
-      setSuccess('Transaction saved.');
+      const attachedNote = await attachPendingFiles(newTransactionId);
+      setSuccess(`Transaction saved.${attachedNote}`);
       resetFormFields();
       if (onTransactionSaved) onTransactionSaved();
     } catch (err: unknown) {
@@ -501,14 +637,15 @@ export function NewTransactionForm({
       },
     ];
 
-    const { error: rpcErr } = await supabase.rpc('create_transaction_multi', {
+    const { data: newTransactionId, error: rpcErr } = await supabase.rpc('create_transaction_multi', {
       p_date: date,
       p_description: description || null,
-      p_lines: lines,
+      p_lines: await withIntercompanyLines(lines),
     });
     if (rpcErr) throw rpcErr;
 
-    setSuccess('Flip expense saved.');
+    const attachedNote = await attachPendingFiles(newTransactionId);
+    setSuccess(`Flip expense saved.${attachedNote}`);
     resetFormFields();
     setSaving(false);
     if (onTransactionSaved) onTransactionSaved();
@@ -553,14 +690,15 @@ export function NewTransactionForm({
       },
     ];
 
-    const { error: rpcErr } = await supabase.rpc('create_transaction_multi', {
+    const { data: newTransactionId, error: rpcErr } = await supabase.rpc('create_transaction_multi', {
       p_date: date,
       p_description: description || null,
-      p_lines: lines,
+      p_lines: await withIntercompanyLines(lines),
     });
     if (rpcErr) throw rpcErr;
 
-    setSuccess('Refund saved.');
+    const attachedNote = await attachPendingFiles(newTransactionId);
+    setSuccess(`Refund saved.${attachedNote}`);
     resetFormFields();
     setSaving(false);
     if (onTransactionSaved) onTransactionSaved();
@@ -574,6 +712,8 @@ export function NewTransactionForm({
     setIsCleared(false);
     setRehabCategoryId('');
     setCostType('');
+    setPendingFiles([]);
+    setFileInputKey((k) => k + 1);
   }
 
   async function handleConfirmMortgageSplit() {
@@ -620,15 +760,16 @@ export function NewTransactionForm({
       if (interestPortion > 0) lines.push({ account_id: interestAccount.id, amount: interestPortion, job_id: null, vendor_id: null, installer_id: null, real_estate_deal_id, purpose, is_cleared: isCleared });
       if (escrowPortion > 0) lines.push({ account_id: escrowAccount.id, amount: escrowPortion, job_id: null, vendor_id: null, installer_id: null, real_estate_deal_id, purpose, is_cleared: isCleared });
 
-      const { error: rpcErr } = await supabase.rpc('create_transaction_multi', {
+      const { data: newTransactionId, error: rpcErr } = await supabase.rpc('create_transaction_multi', {
         p_date: date,
         p_description: description || `Mortgage payment - ${deal.nickname}`,
         p_purpose: purpose,
-        p_lines: lines,
+        p_lines: await withIntercompanyLines(lines),
       });
       if (rpcErr) throw rpcErr;
 
-      setSuccess('Mortgage payment saved.');
+      const attachedNote = await attachPendingFiles(newTransactionId);
+      setSuccess(`Mortgage payment saved.${attachedNote}`);
       resetFormFields();
       setShowMortgageModal(false);
       setMortgagePreview(null);
@@ -671,7 +812,7 @@ export function NewTransactionForm({
       {error && <p className="text-danger">{error}</p>}
       {success && <p className="text-success">{success}</p>}
 
-      <form onSubmit={handleSubmit} className="tx-form">
+      <form ref={formRef} onSubmit={handleSubmit} className="tx-form">
         {/* Job - always visible, optional */}
         <label>
           Job <span className="tx-form__optional">(optional)</span>
@@ -781,10 +922,16 @@ export function NewTransactionForm({
         {/* Date */}
         <label>
           Date
-          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          <input type="date" value={date} min={periodGuard.minDate} onChange={(e) => setDate(e.target.value)} />
           {isDateFuture && <span className="tx-form__warning">[!] Future date</span>}
         </label>
 
+        <ClosedPeriodBanner
+          date={date}
+          closedThrough={periodGuard.closedThrough}
+          onPostToOpenPeriod={setDate}
+        />
+
         {/* Type */}
         <label>
           Type
@@ -854,6 +1001,12 @@ export function NewTransactionForm({
           </label>
         )}
 
+        {categoryAllocation && !isMortgagePayment && !(dealId && isFlipDeal) && (
+          <div className="tx-form__hint">
+            Mixed-purpose account: posts {describeMixedAllocation(categoryAllocation, accountLabel)}
+          </div>
+        )}
+
         {dealId && isFlipDeal && txType === 'expense' && costType && (
           <div className="tx-form__hint">
             Account: {
@@ -895,6 +1048,37 @@ export function NewTransactionForm({
           Mark as cleared
         </label>
 
+        <label className="tx-form__attachments">
+          Receipt / Invoice <span className="tx-form__optional">(optional)</span>
+          <input
+            key={fileInputKey}
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            onChange={(e) => handleFilesPicked(e.target.files)}
+          />
+          {isReceiptExpected && (
+            <span className="tx-form__warning">[!] Receipt required for business expenses over {formatCurrency(RECEIPT_REQUIRED_OVER, 0)}</span>
+          )}
+        </label>
+
+        {duplicateMatches.length > 0 && (
+          <div className="tx-form__duplicates">
+            <span className="tx-form__warning">[!] Possible duplicate - already in the ledger:</span>
+            <ul>
+              {duplicateMatches.slice(0, 3).map((m) => (
+                <li key={m.line.line_id}>
+                  {formatLocalDate(m.line.date)} {m.line.description || m.line.vendor_name || '(no description)'}{' '}
+                  {formatCurrency(m.line.amount, 2)} <span className="text-muted">({m.reason})</span>
+                </li>
+              ))}
+            </ul>
+            <button type="button" className="btn btn-sm" onClick={handleSaveAnyway} disabled={saving}>
+              Save Anyway
+            </button>
+          </div>
+        )}
+
         <button type="submit" disabled={saving} className="btn btn-blue tx-form__submit">
           {saving ? 'Saving...' : 'Save Transaction'}
         </button>
@@ -4,6 +4,9 @@ import { supabase } from '../../lib/supabaseClient';
 import { todayLocalISO } from '../../utils/date';
 import { formatCurrencyOptional } from '../../utils/format';
 import { isBankCode, isCreditCardCode, type Purpose } from '../../utils/accounts';
+import { useClosedPeriod } from '../shared/closedPeriod';
+import { withIntercompanyLines } from '../shared/entityContext';
+import { ClosedPeriodBanner } from '../shared/ClosedPeriodBanner';
 
 type AccountOption = {
   id: number;
@@ -82,6 +85,7 @@ export function Transfers({
 
   const [saving, setSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
+  const periodGuard = useClosedPeriod();
   const [saveSuccess, setSaveSuccess] = useState<string | null>(null);
 
   useEffect(() => {
@@ -240,13 +244,19 @@ export function Transfers({
       return;
     }
 
+    const lockError = periodGuard.errorFor(date);
+    if (lockError) {
+      setSaveError(lockError);
+      return;
+    }
+
     setSaving(true);
     try {
       // Build lines for create_transaction_multi RPC
       // Two lines that net to zero:
       // - From: amount = -amt -> money leaving
       // - To:   amount = +amt -> money arriving
-      const lines = [
+      const transferLines = [
         {
           account_id: fromId,
           amount: -amt,
@@ -260,6 +270,8 @@ export function Transfers({
           purpose,
         },
       ];
+      // Between entities: due to/due from lines keep each entity's books balanced
+      const lines = await withIntercompanyLines(transferLines);
 
       const { error: rpcError } = await supabase.rpc('create_transaction_multi', {
         p_date: date,
@@ -331,6 +343,12 @@ export function Transfers({
       </p>
 
       <form onSubmit={handleSubmit}>
+        <ClosedPeriodBanner
+          date={date}
+          closedThrough={periodGuard.closedThrough}
+          onPostToOpenPeriod={setDate}
+        />
+
         <div className="transfer-form__grid">
           {/* Date */}
           <label className="transfer-form__label">
@@ -338,6 +356,7 @@ export function Transfers({
             <input
               type="date"
               value={date}
+              min={periodGuard.minDate}
               onChange={(e) => setDate(e.target.value)}
               className="transfer-form__input"
             />
@@ -1,6 +1,7 @@
 import { useState, useEffect, type FormEvent } from 'react';
 import { supabase } from '../../lib/supabaseClient';
 import { NewRealEstateDealForm } from './NewRealEstateDealForm';
+import { RentalDepreciationPanel } from './RentalDepreciationPanel';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -959,6 +960,11 @@ export function DealsManageView({ initialSelectedId, onSelectionUsed }: DealsMan
         </form>
       )}
 
+      {/* Depreciation lives outside the form: it saves and posts on its own */}
+      {selectedDealId && !loadingDeal && type === 'rental' && (
+        <RentalDepreciationPanel dealId={selectedDealId} accounts={accounts} />
+      )}
+
       {/* Metadata footer */}
       {selectedDeal && !loadingDeal && (
         <div className="deal-edit__footer">
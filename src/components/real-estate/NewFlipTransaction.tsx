@@ -12,6 +12,8 @@ import {
   isCashAccount,
   compareAccountsForSort,
 } from '../../utils/accounts';
+import { useClosedPeriod } from '../shared/closedPeriod';
+import { ClosedPeriodBanner } from '../shared/ClosedPeriodBanner';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -141,6 +143,7 @@ export function NewFlipTransaction({ dealId: initialDealId, onTransactionSaved }
   const [dealId, setDealId] = useState<string>(initialDealId ? String(initialDealId) : '');
   const [txType, setTxType] = useState<FlipTxType>('rehab_material');
   const [date, setDate] = useState<string>(() => todayLocalISO());
+  const periodGuard = useClosedPeriod();
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
   const [cashAccountId, setCashAccountId] = useState('');
@@ -325,6 +328,12 @@ export function NewFlipTransaction({ dealId: initialDealId, onTransactionSaved }
       return;
     }
 
+    const lockError = periodGuard.errorFor(date);
+    if (lockError) {
+      setError(lockError);
+      return;
+    }
+
     setSaving(true);
 
     try {
@@ -813,10 +822,12 @@ export function NewFlipTransaction({ dealId: initialDealId, onTransactionSaved }
 
         <div className="flip-tx__section">Transaction Details</div>
 
+        <ClosedPeriodBanner date={date} closedThrough={periodGuard.closedThrough} onPostToOpenPeriod={setDate} />
+
         <div className="flip-tx__grid">
           <label className="flip-tx__label">
             Date
-            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            <input type="date" value={date} min={periodGuard.minDate} onChange={(e) => setDate(e.target.value)} />
           </label>
 
           <label className="flip-tx__label">
@@ -1,6 +1,7 @@
 import { useState, type FormEvent } from 'react';
 import { supabase } from '../../lib/supabaseClient';
 import { ACCOUNT_CODE_RANGES, ACCOUNT_TYPE_IDS } from '../../utils/accounts';
+import { useClosedPeriod } from '../shared/closedPeriod';
 
 // Owner Equity account ID - used for balancing mortgage opening entries
 const OWNER_EQUITY_ACCOUNT_ID = 10;
@@ -63,6 +64,7 @@ export function NewRealEstateDealForm({ onCreated }: Props) {
   // UI state
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const periodGuard = useClosedPeriod();
   const [success, setSuccess] = useState<string | null>(null);
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -341,7 +343,8 @@ export function NewRealEstateDealForm({ onCreated }: Props) {
           ];
 
           const { error: txError } = await supabase.rpc('create_transaction_multi', {
-            p_date: closeDate,
+            // A close date in a closed period posts the opening balance on the first open date
+            p_date: periodGuard.postingDate(closeDate),
             p_description: `Opening Balance - ${nickname.trim()}`,
             p_lines: openingLines,
           });
@@ -0,0 +1,482 @@
+// src/components/real-estate/RentalDepreciationPanel.tsx
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { formatCurrency } from '../../utils/format';
+import { formatLocalDate, todayLocalISO } from '../../utils/date';
+import { ACCOUNT_CODE_RANGES, isCodeInRange } from '../../utils/accounts';
+import {
+  RENTAL_ASSET_KIND_LABELS,
+  basisAtSale,
+  dealDepreciationSchedule,
+  defaultBuildingCost,
+  depreciableBasis,
+  depreciationPostingDate,
+  validateDepreciationAccounts,
+  validateRentalAsset,
+  type RentalAssetForm,
+  type RentalAssetKind,
+  type RentalDepreciationAsset,
+  type RentalDepreciationDeal,
+  type RentalDepreciationPosting,
+} from '../../utils/depreciation';
+import { loadRentalDepreciation, postRentalDepreciation } from './rentalDepreciation';
+
+type AccountOption = {
+  id: number;
+  name: string;
+  code: string;
+};
+
+type RentalDepreciationPanelProps = {
+  dealId: number;
+  accounts: AccountOption[];
+};
+
+const EMPTY_FORM: RentalAssetForm = {
+  kind: 'improvement',
+  description: '',
+  cost_basis: '',
+  land_value: '',
+  placed_in_service_date: '',
+  disposed_on: '',
+};
+
+/** Depreciable assets, 27.5-year schedule and annual posting for one rental deal */
+export function RentalDepreciationPanel({ dealId, accounts }: RentalDepreciationPanelProps) {
+  const [deal, setDeal] = useState<RentalDepreciationDeal | null>(null);
+  const [assets, setAssets] = useState<RentalDepreciationAsset[]>([]);
+  const [postings, setPostings] = useState<RentalDepreciationPosting[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [expenseAccountId, setExpenseAccountId] = useState<number | null>(null);
+  const [accumulatedAccountId, setAccumulatedAccountId] = useState<number | null>(null);
+
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<RentalAssetForm>(EMPTY_FORM);
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const data = await loadRentalDepreciation(dealId);
+    const loaded = data.deals[0] ?? null;
+    setDeal(loaded);
+    setAssets(data.assets);
+    setPostings(data.postings);
+    setExpenseAccountId(loaded?.depreciation_expense_account_id ?? null);
+    setAccumulatedAccountId(loaded?.accumulated_depreciation_account_id ?? null);
+  }, [dealId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    setEditingId(null);
+    reload()
+      .catch((err: unknown) => {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Failed to load depreciation');
+      })
+      .finally(() => setLoading(false));
+  }, [reload]);
+
+  const schedule = useMemo(() => dealDepreciationSchedule(assets, deal?.sell_date ?? null), [assets, deal]);
+
+  const expenseAccounts = accounts.filter((a) =>
+    isCodeInRange(a.code, ACCOUNT_CODE_RANGES.RENTAL_EXPENSE_MIN, ACCOUNT_CODE_RANGES.RENTAL_EXPENSE_MAX)
+  );
+  const accumulatedAccounts = accounts.filter((a) =>
+    isCodeInRange(a.code, ACCOUNT_CODE_RANGES.RE_ASSET_MIN, ACCOUNT_CODE_RANGES.RE_ASSET_MAX)
+  );
+
+  if (loading) return <div className="deal-edit__empty">Loading depreciation...</div>;
+  if (!deal) return null;
+  const currentDeal = deal;
+
+  const today = todayLocalISO();
+  const currentYear = Number(today.slice(0, 4));
+  const sellYear = currentDeal.sell_date ? Number(currentDeal.sell_date.slice(0, 4)) : null;
+  const basis = basisAtSale(assets, currentDeal.sell_date, sellYear ?? currentYear);
+  const postedTotal = postings.reduce((s, p) => s + p.amount, 0);
+  const hasBuilding = assets.some((a) => a.kind === 'building');
+  const currency = (val: number) => formatCurrency(val, 2);
+
+  function startAdd(kind: RentalAssetKind) {
+    setEditingId('new');
+    setError(null);
+    setSuccess(null);
+    setForm(
+      kind === 'building'
+        ? {
+            ...EMPTY_FORM,
+            kind,
+            description: 'Building',
+            cost_basis: String(defaultBuildingCost(currentDeal) || ''),
+            placed_in_service_date: currentDeal.close_date ?? '',
+          }
+        : { ...EMPTY_FORM, kind }
+    );
+  }
+
+  function startEdit(asset: RentalDepreciationAsset) {
+    setEditingId(asset.id);
+    setError(null);
+    setSuccess(null);
+    setForm({
+      kind: asset.kind,
+      description: asset.description,
+      cost_basis: String(asset.cost_basis),
+      land_value: asset.land_value ? String(asset.land_value) : '',
+      placed_in_service_date: asset.placed_in_service_date,
+      disposed_on: asset.disposed_on ?? '',
+    });
+  }
+
+  async function handleSaveAccounts() {
+    const problem = validateDepreciationAccounts(
+      { depreciation_expense_account_id: expenseAccountId, accumulated_depreciation_account_id: accumulatedAccountId },
+      accounts
+    );
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const { error: err } = await supabase
+        .from('real_estate_deals')
+        .update({
+          depreciation_expense_account_id: expenseAccountId,
+          accumulated_depreciation_account_id: accumulatedAccountId,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', dealId);
+      if (err) throw err;
+      await reload();
+      setSuccess('Depreciation accounts saved.');
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save depreciation accounts');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSaveAsset() {
+    const assetId = editingId === 'new' ? null : editingId;
+    const problem = validateRentalAsset(form, assets, assetId);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const payload = {
+        real_estate_deal_id: dealId,
+        kind: form.kind,
+        description: form.description.trim(),
+        cost_basis: Number(form.cost_basis),
+        land_value: form.kind === 'building' && form.land_value.trim() ? Number(form.land_value) : 0,
+        placed_in_service_date: form.placed_in_service_date,
+        disposed_on: form.disposed_on || null,
+        updated_at: new Date().toISOString(),
+      };
+      const { error: err } =
+        assetId == null
+          ? await supabase.from('rental_depreciation_assets').insert(payload)
+          : await supabase.from('rental_depreciation_assets').update(payload).eq('id', assetId);
+      if (err) throw err;
+      await reload();
+      setEditingId(null);
+      setSuccess(assetId == null ? 'Asset added.' : 'Asset updated.');
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save asset');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDeleteAsset(asset: RentalDepreciationAsset) {
+    if (!window.confirm(`Delete ${asset.description}? Entries already posted are not changed.`)) return;
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const { error: err } = await supabase.from('rental_depreciation_assets').delete().eq('id', asset.id);
+      if (err) throw err;
+      await reload();
+      setSuccess('Asset deleted.');
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to delete asset');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handlePost(year: number, amount: number) {
+    const problem = validateDepreciationAccounts(currentDeal, accounts);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      await postRentalDepreciation(currentDeal, year, amount);
+      await reload();
+      setSuccess(`Posted ${currency(amount)} depreciation for ${year}.`);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to post depreciation');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="card deal-edit__section-card">
+      <h4>Depreciation (27.5-year MACRS, mid-month)</h4>
+
+      {error && <div className="alert alert--danger mb-2">{error}</div>}
+      {success && <div className="alert alert--success mb-2">{success}</div>}
+
+      {/* Accounts */}
+      <div className="deal-edit__form-grid">
+        <label className="deal-edit__label">
+          Depreciation Expense Account
+          <select
+            value={expenseAccountId ?? ''}
+            onChange={(e) => setExpenseAccountId(e.target.value ? Number(e.target.value) : null)}
+          >
+            <option value="">-- None --</option>
+            {expenseAccounts.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.code} - {a.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="deal-edit__label">
+          Accumulated Depreciation Account
+          <select
+            value={accumulatedAccountId ?? ''}
+            onChange={(e) => setAccumulatedAccountId(e.target.value ? Number(e.target.value) : null)}
+          >
+            <option value="">-- None --</option>
+            {accumulatedAccounts.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.code} - {a.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {(expenseAccountId !== currentDeal.depreciation_expense_account_id ||
+        accumulatedAccountId !== currentDeal.accumulated_depreciation_account_id) && (
+        <div className="depreciation-panel__actions">
+          <button type="button" className="btn" onClick={handleSaveAccounts} disabled={saving}>
+            Save Accounts
+          </button>
+        </div>
+      )}
+
+      {/* Assets */}
+      <table className="table depreciation-panel__table">
+        <thead>
+          <tr>
+            <th>Asset</th>
+            <th>In Service</th>
+            <th className="text-right">Cost</th>
+            <th className="text-right">Land</th>
+            <th className="text-right">Depreciable</th>
+            <th>Disposed</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {assets.length === 0 && (
+            <tr>
+              <td colSpan={7} className="deal-edit__hint">
+                No depreciable assets yet. Add the building to start the schedule.
+              </td>
+            </tr>
+          )}
+          {assets.map((a) => (
+            <tr key={a.id}>
+              <td>
+                {a.description}
+                <span className="deal-edit__hint"> ({RENTAL_ASSET_KIND_LABELS[a.kind]})</span>
+              </td>
+              <td>{formatLocalDate(a.placed_in_service_date)}</td>
+              <td className="text-right">{currency(a.cost_basis)}</td>
+              <td className="text-right">{a.land_value ? currency(a.land_value) : '-'}</td>
+              <td className="text-right">{currency(depreciableBasis(a))}</td>
+              <td>{a.disposed_on ? formatLocalDate(a.disposed_on) : '-'}</td>
+              <td className="text-right">
+                <button type="button" className="btn-link" onClick={() => startEdit(a)} disabled={saving}>
+                  Edit
+                </button>{' '}
+                <button type="button" className="btn-link" onClick={() => handleDeleteAsset(a)} disabled={saving}>
+                  Delete
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {editingId === null ? (
+        <div className="depreciation-panel__actions">
+          {!hasBuilding && (
+            <button type="button" className="btn" onClick={() => startAdd('building')}>
+              + Add Building
+            </button>
+          )}
+          <button type="button" className="btn" onClick={() => startAdd('improvement')}>
+            + Add Capital Improvement
+          </button>
+        </div>
+      ) : (
+        <div className="depreciation-panel__form">
+          <div className="deal-edit__form-grid">
+            <label className="deal-edit__label">
+              Description
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+              />
+            </label>
+
+            <label className="deal-edit__label">
+              Placed in Service
+              <input
+                type="date"
+                value={form.placed_in_service_date}
+                onChange={(e) => setForm((prev) => ({ ...prev, placed_in_service_date: e.target.value }))}
+              />
+            </label>
+
+            <label className="deal-edit__label">
+              Cost Basis
+              <input
+                type="number"
+                step="0.01"
+                value={form.cost_basis}
+                onChange={(e) => setForm((prev) => ({ ...prev, cost_basis: e.target.value }))}
+              />
+              {form.kind === 'building' && (
+                <span className="deal-edit__hint">Purchase price plus capitalized closing costs</span>
+              )}
+            </label>
+
+            {form.kind === 'building' ? (
+              <label className="deal-edit__label">
+                Land Value
+                <input
+                  type="number"
+                  step="0.01"
+                  value={form.land_value}
+                  onChange={(e) => setForm((prev) => ({ ...prev, land_value: e.target.value }))}
+                />
+                <span className="deal-edit__hint">Not depreciable; use the assessor's land/improvement ratio</span>
+              </label>
+            ) : (
+              <label className="deal-edit__label">
+                Disposed On
+                <input
+                  type="date"
+                  value={form.disposed_on}
+                  onChange={(e) => setForm((prev) => ({ ...prev, disposed_on: e.target.value }))}
+                />
+                <span className="deal-edit__hint">When it was replaced or removed before the sale</span>
+              </label>
+            )}
+          </div>
+          <div className="depreciation-panel__actions">
+            <button type="button" className="btn-cancel" onClick={() => setEditingId(null)} disabled={saving}>
+              Cancel
+            </button>
+            <button type="button" className="btn" onClick={handleSaveAsset} disabled={saving}>
+              {saving ? 'Saving...' : editingId === 'new' ? 'Add Asset' : 'Save Asset'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Schedule */}
+      {schedule.length > 0 && (
+        <table className="table depreciation-panel__table">
+          <thead>
+            <tr>
+              <th>Year</th>
+              <th className="text-right">Depreciation</th>
+              <th className="text-right">Accumulated</th>
+              <th className="text-right">Posted</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {schedule
+              .filter((row) => row.year <= currentYear)
+              .map((row) => {
+                const posting = postings.find((p) => p.tax_year === row.year);
+                const canPost = !posting && row.depreciation > 0 && depreciationPostingDate(row.year, currentDeal.sell_date) <= today;
+                const differs = posting != null && Math.abs(posting.amount - row.depreciation) >= 0.01;
+                return (
+                  <tr key={row.year}>
+                    <td>{row.year}</td>
+                    <td className="text-right">{currency(row.depreciation)}</td>
+                    <td className="text-right">{currency(row.accumulated)}</td>
+                    <td className={`text-right${differs ? ' text-danger' : ''}`}>
+                      {posting ? currency(posting.amount) : '-'}
+                    </td>
+                    <td className="text-right">
+                      {canPost && (
+                        <button
+                          type="button"
+                          className="btn-link"
+                          onClick={() => handlePost(row.year, row.depreciation)}
+                          disabled={saving}
+                        >
+                          Post {row.year}
+                        </button>
+                      )}
+                      {differs && <span className="deal-edit__hint">Assets changed after posting; adjust with a journal entry</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+          </tbody>
+        </table>
+      )}
+
+      {/* Basis */}
+      {assets.length > 0 && (
+        <div className="depreciation-panel__basis">
+          <span>
+            {currentDeal.sell_date ? `Basis at sale (${formatLocalDate(currentDeal.sell_date)})` : `Basis at end of ${currentYear}`}:
+          </span>
+          <span>
+            {currency(basis.totalCost)} cost - {currency(basis.accumulatedDepreciation)} depreciation ={' '}
+            <strong>{currency(basis.adjustedBasis)}</strong>
+          </span>
+          <span className="deal-edit__hint">
+            Posted to the ledger: {currency(postedTotal)}. Depreciation allowed by the sale is recaptured (unrecaptured
+            Section 1250 gain).
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
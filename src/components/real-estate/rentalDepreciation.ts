@@ -0,0 +1,92 @@
+// src/components/real-estate/rentalDepreciation.ts
+
+import { supabase } from '../../lib/supabaseClient';
+import { formatLocalDate } from '../../utils/date';
+import {
+  RENTAL_DEPRECIATION_ASSET_SELECT,
+  RENTAL_DEPRECIATION_DEAL_SELECT,
+  RENTAL_DEPRECIATION_POSTING_SELECT,
+  buildDepreciationLines,
+  depreciationPostingDate,
+  normalizeRentalAsset,
+  normalizeRentalPosting,
+  type RentalDepreciationAsset,
+  type RentalDepreciationDeal,
+  type RentalDepreciationPosting,
+} from '../../utils/depreciation';
+import { withIntercompanyLines } from '../shared/entityContext';
+import { loadClosedThrough } from '../shared/closedPeriod';
+import { openPostingDate } from '../../utils/periodClose';
+
+export type RentalDepreciationData = {
+  deals: RentalDepreciationDeal[];
+  assets: RentalDepreciationAsset[];
+  postings: RentalDepreciationPosting[];
+};
+
+const UNIQUE_VIOLATION = '23505';
+
+/** Rental deals with their depreciable assets and posted years; one deal when dealId is given */
+export async function loadRentalDepreciation(dealId?: number): Promise<RentalDepreciationData> {
+  let dealsQuery = supabase.from('real_estate_deals').select(RENTAL_DEPRECIATION_DEAL_SELECT).eq('type', 'rental');
+  let assetsQuery = supabase.from('rental_depreciation_assets').select(RENTAL_DEPRECIATION_ASSET_SELECT);
+  let postingsQuery = supabase.from('rental_depreciation_postings').select(RENTAL_DEPRECIATION_POSTING_SELECT);
+  if (dealId != null) {
+    dealsQuery = dealsQuery.eq('id', dealId);
+    assetsQuery = assetsQuery.eq('real_estate_deal_id', dealId);
+    postingsQuery = postingsQuery.eq('real_estate_deal_id', dealId);
+  }
+
+  const [dealsRes, assetsRes, postingsRes] = await Promise.all([
+    dealsQuery,
+    assetsQuery.order('placed_in_service_date', { ascending: true }),
+    postingsQuery.order('tax_year', { ascending: true }),
+  ]);
+  if (dealsRes.error) throw dealsRes.error;
+  if (assetsRes.error) throw assetsRes.error;
+  if (postingsRes.error) throw postingsRes.error;
+
+  return {
+    deals: (dealsRes.data ?? []) as unknown as RentalDepreciationDeal[],
+    assets: ((assetsRes.data ?? []) as unknown as RentalDepreciationAsset[]).map(normalizeRentalAsset),
+    postings: ((postingsRes.data ?? []) as unknown as RentalDepreciationPosting[]).map(normalizeRentalPosting),
+  };
+}
+
+/**
+ * Post a year's depreciation for a deal through post_rental_depreciation,
+ * which claims the year, posts the entry and links them in one database
+ * transaction, so two sessions can't both post it. A year whose December is
+ * closed posts on the first open date. Returns the new transaction id.
+ */
+export async function postRentalDepreciation(
+  deal: RentalDepreciationDeal,
+  year: number,
+  amount: number
+): Promise<number | null> {
+  if (amount <= 0) throw new Error(`No depreciation to post for ${year}.`);
+  const lines = await withIntercompanyLines(buildDepreciationLines(deal, amount));
+
+  const closedThrough = await loadClosedThrough().catch((err: unknown) => {
+    console.warn('Failed to load closed periods:', err);
+    return null;
+  });
+  const entryDate = depreciationPostingDate(year, deal.sell_date);
+  const postedOn = openPostingDate(entryDate, closedThrough);
+  const description =
+    `Depreciation ${year} - ${deal.nickname}` + (postedOn === entryDate ? '' : ` (for ${formatLocalDate(entryDate)})`);
+
+  const { data: newTransactionId, error: rpcErr } = await supabase.rpc('post_rental_depreciation', {
+    p_deal_id: deal.id,
+    p_tax_year: year,
+    p_amount: amount,
+    p_date: postedOn,
+    p_description: description,
+    p_lines: lines,
+  });
+  if (rpcErr) {
+    if (rpcErr.code === UNIQUE_VIOLATION) throw new Error(`${year} depreciation for ${deal.nickname} is already posted.`);
+    throw rpcErr;
+  }
+  return typeof newTransactionId === 'number' ? newTransactionId : null;
+}
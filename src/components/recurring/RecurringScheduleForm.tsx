@@ -0,0 +1,362 @@
+// src/components/recurring/RecurringScheduleForm.tsx
+
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { formatMoney } from '../../utils/format';
+import { formatLocalDate, todayLocalISO } from '../../utils/date';
+import { compareAccountsForSort, isCashAccount } from '../../utils/accounts';
+import {
+  JOURNAL_TEMPLATE_SELECT,
+  emptyJournalLine,
+  journalLinesFromTemplate,
+  journalLinesToTemplate,
+  type JournalAccount,
+  type JournalLine,
+  type JournalTemplate,
+} from '../../utils/journalEntry';
+import {
+  FREQUENCY_LABELS,
+  buildMortgageRunLines,
+  upcomingRunDates,
+  validateRecurringSchedule,
+  type MortgageScheduleDeal,
+  type RecurringFrequency,
+  type RecurringKind,
+  type RecurringSchedule,
+} from '../../utils/recurringSchedules';
+import { SearchableSelect, type SelectOption } from '../shared/SearchableSelect';
+import { JournalLinesTable } from '../new-entries/JournalLinesTable';
+
+type RecurringScheduleFormProps = {
+  /** Schedule being edited, or null for a new one */
+  schedule: RecurringSchedule | null;
+  accounts: JournalAccount[];
+  deals: MortgageScheduleDeal[];
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+function initialLines(schedule: RecurringSchedule | null): JournalLine[] {
+  if (!schedule || schedule.kind !== 'standard' || schedule.lines.length === 0) {
+    return [emptyJournalLine(), emptyJournalLine()];
+  }
+  const lines = journalLinesFromTemplate({ id: schedule.id, name: schedule.name, description: null, lines: schedule.lines });
+  while (lines.length < 2) lines.push(emptyJournalLine());
+  return lines;
+}
+
+export function RecurringScheduleForm({ schedule, accounts, deals, onSaved, onCancel }: RecurringScheduleFormProps) {
+  const [name, setName] = useState(schedule?.name ?? '');
+  const [description, setDescription] = useState(schedule?.description ?? '');
+  const [kind, setKind] = useState<RecurringKind>(schedule?.kind ?? 'standard');
+  const [frequency, setFrequency] = useState<RecurringFrequency>(schedule?.frequency ?? 'monthly');
+  const [startDate, setStartDate] = useState(schedule?.start_date ?? todayLocalISO());
+  const [nextRun, setNextRun] = useState(schedule?.next_run_date ?? '');
+  const [endDate, setEndDate] = useState(schedule?.end_date ?? '');
+  const [autoPost, setAutoPost] = useState(schedule?.auto_post ?? false);
+  const [postAsCleared, setPostAsCleared] = useState(schedule?.post_as_cleared ?? false);
+  const [lines, setLines] = useState<JournalLine[]>(() => initialLines(schedule));
+  const [dealId, setDealId] = useState<number | null>(schedule?.real_estate_deal_id ?? null);
+  const [cashAccountId, setCashAccountId] = useState<number | null>(schedule?.cash_account_id ?? null);
+  const [paymentAmount, setPaymentAmount] = useState(schedule?.payment_amount?.toFixed(2) ?? '');
+
+  const [templates, setTemplates] = useState<JournalTemplate[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadTemplates() {
+      const { data, error: loadErr } = await supabase
+        .from('journal_entry_templates')
+        .select(JOURNAL_TEMPLATE_SELECT)
+        .order('name');
+      if (loadErr) {
+        console.warn('Failed to load journal templates:', loadErr);
+        return;
+      }
+      setTemplates((data ?? []) as unknown as JournalTemplate[]);
+    }
+    void loadTemplates();
+  }, []);
+
+  const cashOptions: SelectOption[] = useMemo(
+    () =>
+      accounts
+        .filter((a) => isCashAccount(a.code))
+        .sort(compareAccountsForSort)
+        .map((a) => ({ value: a.id, label: a.code ? `${a.code} - ${a.name}` : a.name })),
+    [accounts]
+  );
+
+  const loanDeals = useMemo(() => deals.filter((d) => d.loan_account_id != null), [deals]);
+  const selectedDeal = loanDeals.find((d) => d.id === dealId) ?? null;
+
+  const firstRun = schedule ? nextRun : startDate;
+  const preview = useMemo(
+    () =>
+      firstRun
+        ? upcomingRunDates({ next_run_date: firstRun, end_date: endDate || null, frequency, start_date: startDate }, 4)
+        : [],
+    [firstRun, endDate, frequency, startDate]
+  );
+
+  const mortgagePreview = useMemo(() => {
+    if (kind !== 'mortgage' || !selectedDeal || !cashAccountId || !firstRun) return null;
+    const amount = Number(paymentAmount);
+    if (!(amount > 0)) return null;
+    return buildMortgageRunLines(selectedDeal, accounts, cashAccountId, amount, firstRun, false);
+  }, [kind, selectedDeal, cashAccountId, paymentAmount, firstRun, accounts]);
+
+  function handleDealChange(id: number | null) {
+    setDealId(id);
+    const deal = loanDeals.find((d) => d.id === id);
+    if (!deal) return;
+    if (deal.payment_frequency) setFrequency(deal.payment_frequency);
+    if (!name.trim()) setName(`Mortgage - ${deal.nickname}`);
+  }
+
+  function handleTemplateCopy(id: number) {
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+    const templateLines = journalLinesFromTemplate(template);
+    while (templateLines.length < 2) templateLines.push(emptyJournalLine());
+    setLines(templateLines);
+    if (!name.trim()) setName(template.name);
+    if (!description.trim() && template.description) setDescription(template.description);
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    const row = {
+      name: name.trim(),
+      description: description.trim() || null,
+      kind,
+      frequency,
+      start_date: startDate,
+      next_run_date: schedule ? nextRun : startDate,
+      end_date: endDate || null,
+      auto_post: autoPost,
+      post_as_cleared: postAsCleared,
+      lines: kind === 'standard' ? journalLinesToTemplate(lines, true) : [],
+      real_estate_deal_id: kind === 'mortgage' ? dealId : null,
+      cash_account_id: kind === 'mortgage' ? cashAccountId : null,
+      payment_amount: kind === 'mortgage' ? Number(paymentAmount) || null : null,
+    };
+
+    const problem = validateRecurringSchedule(row);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (!row.next_run_date) {
+      setError('Next run date is required.');
+      return;
+    }
+    if (typeof mortgagePreview === 'string') {
+      setError(mortgagePreview);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error: saveErr } = schedule
+        ? await supabase
+            .from('recurring_schedules')
+            .update({
+              ...row,
+              // Extending the end date brings a finished schedule back
+              is_active: schedule.is_active || !row.end_date || row.next_run_date <= row.end_date,
+              updated_at: new Date().toISOString(),
+            })
+            .eq('id', schedule.id)
+        : await supabase.from('recurring_schedules').insert(row);
+      if (saveErr) throw saveErr;
+      onSaved();
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="recurring-form">
+      <h3 className="mt-0">{schedule ? `Edit "${schedule.name}"` : 'New recurring schedule'}</h3>
+
+      <div className="recurring-form__grid">
+        <label className="transfer-form__label">
+          <span className="transfer-form__label-text">Name</span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Truck payment"
+            className="transfer-form__input"
+          />
+        </label>
+        <label className="transfer-form__label">
+          <span className="transfer-form__label-text">Entry description</span>
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Defaults to the name"
+            className="transfer-form__input"
+          />
+        </label>
+        <label className="transfer-form__label">
+          <span className="transfer-form__label-text">Type</span>
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as RecurringKind)}
+            className="transfer-form__input"
+            disabled={schedule != null}
+          >
+            <option value="standard">Fixed entry</option>
+            <option value="mortgage">Mortgage payment (recomputed split)</option>
+          </select>
+        </label>
+        <label className="transfer-form__label">
+          <span className="transfer-form__label-text">Frequency</span>
+          <select
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as RecurringFrequency)}
+            className="transfer-form__input"
+          >
+            {(Object.keys(FREQUENCY_LABELS) as RecurringFrequency[]).map((f) => (
+              <option key={f} value={f}>
+                {FREQUENCY_LABELS[f]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="transfer-form__label">
+          <span className="transfer-form__label-text">First run</span>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="transfer-form__input"
+          />
+        </label>
+        {schedule && (
+          <label className="transfer-form__label">
+            <span className="transfer-form__label-text">Next run</span>
+            <input
+              type="date"
+              value={nextRun}
+              onChange={(e) => setNextRun(e.target.value)}
+              className="transfer-form__input"
+            />
+          </label>
+        )}
+        <label className="transfer-form__label">
+          <span className="transfer-form__label-text">End date (optional)</span>
+          <input
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="transfer-form__input"
+          />
+        </label>
+      </div>
+
+      {preview.length > 0 && (
+        <p className="text-muted text-sm">
+          Next runs: {preview.map(formatLocalDate).join(', ')}
+          {!schedule && startDate < todayLocalISO() && ' - past runs show up in the Due queue right away.'}
+        </p>
+      )}
+
+      {kind === 'standard' ? (
+        <>
+          {templates.length > 0 && (
+            <label className="transfer-form__label recurring-form__template">
+              <span className="transfer-form__label-text">Copy lines from a journal template</span>
+              <select
+                value=""
+                onChange={(e) => e.target.value && handleTemplateCopy(Number(e.target.value))}
+                className="transfer-form__input"
+              >
+                <option value="">Choose template...</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <JournalLinesTable lines={lines} onChange={setLines} accounts={accounts} deals={deals} />
+        </>
+      ) : (
+        <div className="recurring-form__grid">
+          <label className="transfer-form__label">
+            <span className="transfer-form__label-text">Deal</span>
+            <SearchableSelect
+              options={loanDeals.map((d) => ({ value: d.id, label: d.nickname }))}
+              value={dealId}
+              onChange={(val) => handleDealChange(val != null ? Number(val) : null)}
+              placeholder="Type to search deals with a loan..."
+              emptyLabel="Select..."
+            />
+          </label>
+          <label className="transfer-form__label">
+            <span className="transfer-form__label-text">Pay from</span>
+            <SearchableSelect
+              options={cashOptions}
+              value={cashAccountId}
+              onChange={(val) => setCashAccountId(val != null ? Number(val) : null)}
+              placeholder="Type to search accounts..."
+              emptyLabel="Select..."
+            />
+          </label>
+          <label className="transfer-form__label">
+            <span className="transfer-form__label-text">Total payment (PITI)</span>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={paymentAmount}
+              onChange={(e) => setPaymentAmount(e.target.value)}
+              className="transfer-form__input"
+            />
+          </label>
+          {mortgagePreview && (
+            <p className={typeof mortgagePreview === 'string' ? 'transfer-form__error' : 'text-muted text-sm'}>
+              {typeof mortgagePreview === 'string'
+                ? mortgagePreview
+                : `Payment #${mortgagePreview.split.paymentNumber} on ${formatLocalDate(firstRun)}: principal ` +
+                  `${formatMoney(mortgagePreview.split.principal)}, interest ${formatMoney(mortgagePreview.split.interest)}, ` +
+                  `escrow ${formatMoney(mortgagePreview.split.escrow)}. Recomputed on every run.`}
+            </p>
+          )}
+        </div>
+      )}
+
+      <label className="transfer-form__checkbox-label">
+        <input type="checkbox" checked={autoPost} onChange={(e) => setAutoPost(e.target.checked)} />
+        Auto-post when due (posted the next time the app is opened on or after the run date)
+      </label>
+      <label className="transfer-form__checkbox-label">
+        <input type="checkbox" checked={postAsCleared} onChange={(e) => setPostAsCleared(e.target.checked)} />
+        Post lines as cleared (leave off to match against the bank later)
+      </label>
+
+      {error && <div className="transfer-form__error">{error}</div>}
+
+      <div className="recurring-form__actions">
+        <button type="submit" className="btn btn-primary" disabled={saving}>
+          {saving ? 'Saving...' : schedule ? 'Save schedule' : 'Create schedule'}
+        </button>
+        <button type="button" className="btn" onClick={onCancel} disabled={saving}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
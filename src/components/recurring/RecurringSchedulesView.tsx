@@ -0,0 +1,405 @@
+// src/components/recurring/RecurringSchedulesView.tsx
+
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { formatMoney } from '../../utils/format';
+import { formatLocalDate, todayLocalISO } from '../../utils/date';
+import { isDateInClosedPeriod, openPostingDate } from '../../utils/periodClose';
+import type { JournalAccount } from '../../utils/journalEntry';
+import {
+  FREQUENCY_LABELS,
+  RECURRING_RUN_SELECT,
+  RECURRING_SCHEDULE_SELECT,
+  buildScheduleRunEntry,
+  dueRunDates,
+  normalizeRecurringSchedule,
+  scheduleAmount,
+  type RecurringRun,
+  type RecurringSchedule,
+} from '../../utils/recurringSchedules';
+import {
+  autoPostDueSchedules,
+  loadPostingContext,
+  postScheduleRun,
+  skipScheduleRun,
+  type PostingContext,
+} from './recurringPosting';
+import { RecurringScheduleForm } from './RecurringScheduleForm';
+
+const HISTORY_LIMIT = 25;
+
+type DueRow = {
+  schedule: RecurringSchedule;
+  runDate: string;
+  /** Runs still due after this one */
+  behind: number;
+  detail: string | null;
+  problem: string | null;
+};
+
+export function RecurringSchedulesView() {
+  const [schedules, setSchedules] = useState<RecurringSchedule[]>([]);
+  const [runs, setRuns] = useState<RecurringRun[]>([]);
+  const [accounts, setAccounts] = useState<JournalAccount[]>([]);
+  const [context, setContext] = useState<PostingContext | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [editing, setEditing] = useState<RecurringSchedule | 'new' | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [postingAll, setPostingAll] = useState(false);
+
+  const today = todayLocalISO();
+
+  async function loadData() {
+    setError(null);
+    try {
+      const [schedulesRes, runsRes, accountsRes, postingContext] = await Promise.all([
+        supabase.from('recurring_schedules').select(RECURRING_SCHEDULE_SELECT).order('next_run_date'),
+        supabase
+          .from('recurring_schedule_runs')
+          .select(RECURRING_RUN_SELECT)
+          .order('created_at', { ascending: false })
+          .limit(HISTORY_LIMIT),
+        supabase.from('accounts').select('id, name, code, purpose_default').eq('is_active', true),
+        loadPostingContext(),
+      ]);
+      if (schedulesRes.error) throw schedulesRes.error;
+      if (runsRes.error) throw runsRes.error;
+      if (accountsRes.error) throw accountsRes.error;
+
+      setSchedules(((schedulesRes.data ?? []) as unknown as RecurringSchedule[]).map(normalizeRecurringSchedule));
+      setRuns((runsRes.data ?? []) as unknown as RecurringRun[]);
+      setAccounts((accountsRes.data ?? []) as unknown as JournalAccount[]);
+      setContext(postingContext);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to load recurring schedules');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    async function init() {
+      try {
+        const result = await autoPostDueSchedules();
+        if (result.posted > 0 || result.problems.length > 0) {
+          setMessage(
+            [
+              result.posted > 0 ? `Auto-posted ${result.posted} scheduled entr${result.posted === 1 ? 'y' : 'ies'}.` : '',
+              ...result.problems.map((p) => `Not auto-posted: ${p}.`),
+            ]
+              .filter(Boolean)
+              .join(' ')
+          );
+        }
+      } catch (err: unknown) {
+        console.error('Auto-post failed:', err);
+      }
+      await loadData();
+    }
+    void init();
+  }, []);
+
+  const dueRows: DueRow[] = useMemo(() => {
+    if (!context) return [];
+    return schedules.flatMap((schedule) => {
+      const dates = dueRunDates(schedule, today);
+      if (dates.length === 0) return [];
+      const runDate = dates[0];
+      const entry = buildScheduleRunEntry(schedule, runDate, context.deals, context.accounts, context.mixedAllocations);
+      const detail =
+        typeof entry !== 'string' && entry.split
+          ? `P ${formatMoney(entry.split.principal)} / I ${formatMoney(entry.split.interest)} / E ${formatMoney(entry.split.escrow)}`
+          : null;
+      return [{ schedule, runDate, behind: dates.length - 1, detail, problem: typeof entry === 'string' ? entry : null }];
+    });
+  }, [schedules, context, today]);
+
+  const scheduleNames = useMemo(() => new Map(schedules.map((s) => [s.id, s.name])), [schedules]);
+
+  async function handlePost(row: DueRow) {
+    if (!context) return;
+    setBusyId(row.schedule.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const outcome = await postScheduleRun(row.schedule, row.runDate, context, 'manual');
+      setMessage(
+        outcome.status === 'posted'
+          ? `Posted ${row.schedule.name} for ${formatLocalDate(row.runDate)}` +
+              (outcome.postedOn && outcome.postedOn !== row.runDate ? ` on ${formatLocalDate(outcome.postedOn)} (month closed).` : '.')
+          : `${row.schedule.name} for ${formatLocalDate(row.runDate)} was already posted.`
+      );
+      await loadData();
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to post scheduled entry');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleSkip(row: DueRow) {
+    if (!window.confirm(`Skip ${row.schedule.name} for ${formatLocalDate(row.runDate)}? Nothing will be posted.`)) return;
+    setBusyId(row.schedule.id);
+    setError(null);
+    setMessage(null);
+    try {
+      await skipScheduleRun(row.schedule, row.runDate);
+      await loadData();
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to skip run');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handlePostAll() {
+    if (!context) return;
+    setPostingAll(true);
+    setError(null);
+    setMessage(null);
+
+    let posted = 0;
+    const problems: string[] = [];
+    for (const schedule of schedules) {
+      for (const runDate of dueRunDates(schedule, today)) {
+        try {
+          const outcome = await postScheduleRun(schedule, runDate, context, 'manual');
+          if (outcome.status === 'posted') posted++;
+        } catch (err: unknown) {
+          problems.push(`${schedule.name} (${formatLocalDate(runDate)}): ${err instanceof Error ? err.message : 'failed'}`);
+          break;
+        }
+      }
+    }
+
+    await loadData();
+    setMessage(`Posted ${posted} scheduled entr${posted === 1 ? 'y' : 'ies'}.`);
+    if (problems.length > 0) setError(problems.join(' '));
+    setPostingAll(false);
+  }
+
+  async function handleToggleActive(schedule: RecurringSchedule) {
+    setError(null);
+    const { error: updateErr } = await supabase
+      .from('recurring_schedules')
+      .update({ is_active: !schedule.is_active, updated_at: new Date().toISOString() })
+      .eq('id', schedule.id);
+    if (updateErr) {
+      setError(updateErr.message);
+      return;
+    }
+    await loadData();
+  }
+
+  async function handleDelete(schedule: RecurringSchedule) {
+    if (!window.confirm(`Delete "${schedule.name}"? Entries it already posted stay in the ledger.`)) return;
+    setError(null);
+    const { error: deleteErr } = await supabase.from('recurring_schedules').delete().eq('id', schedule.id);
+    if (deleteErr) {
+      setError(deleteErr.message);
+      return;
+    }
+    await loadData();
+  }
+
+  if (loading) return <p>Loading recurring schedules...</p>;
+
+  return (
+    <div>
+      <h2>Recurring Transactions</h2>
+      <p className="text-muted text-sm">
+        Rent, mortgage, insurance, subscriptions and truck payments posted on a schedule. Due runs wait in the queue
+        below; schedules set to auto-post are posted when the app is opened on or after the run date.
+      </p>
+
+      {error && <p className="ledger-row-error">{error}</p>}
+      {message && <p className="recurring__message">{message}</p>}
+
+      <div className="card">
+        <div className="recurring__header">
+          <h3 className="mt-0">Due ({dueRows.length})</h3>
+          {dueRows.length > 0 && (
+            <button type="button" className="btn btn-sm" onClick={() => void handlePostAll()} disabled={postingAll}>
+              {postingAll ? 'Posting...' : 'Post all due'}
+            </button>
+          )}
+        </div>
+        {dueRows.length === 0 ? (
+          <p className="text-muted text-sm">Nothing due.</p>
+        ) : (
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Run date</th>
+                <th>Schedule</th>
+                <th className="text-right">Amount</th>
+                <th>Details</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {dueRows.map((row) => {
+                const locked = isDateInClosedPeriod(row.runDate, context?.closedThrough ?? null);
+                return (
+                  <tr key={row.schedule.id}>
+                    <td>
+                      {formatLocalDate(row.runDate)}
+                      {row.behind > 0 && <span className="badge badge-danger ml-2">+{row.behind} more</span>}
+                    </td>
+                    <td>
+                      {row.schedule.name}
+                      {row.schedule.auto_post && <span className="badge badge-info ml-2">auto</span>}
+                    </td>
+                    <td className="text-right">{formatMoney(scheduleAmount(row.schedule))}</td>
+                    <td className="text-sm">
+                      {row.problem ? (
+                        <span className="transfer-form__error">{row.problem}</span>
+                      ) : (
+                        <>
+                          {row.detail}
+                          {locked && (
+                            <span className="text-muted">
+                              {row.detail ? ' - ' : ''}month closed, posts{' '}
+                              {formatLocalDate(openPostingDate(row.runDate, context?.closedThrough ?? null))}
+                            </span>
+                          )}
+                        </>
+                      )}
+                    </td>
+                    <td className="recurring__actions">
+                      <button
+                        type="button"
+                        className="btn btn-sm"
+                        onClick={() => void handlePost(row)}
+                        disabled={busyId != null || postingAll || row.problem != null}
+                      >
+                        {busyId === row.schedule.id ? 'Posting...' : 'Post'}
+                      </button>
+                      <button
+                        type="button"
+                        className="btn-link text-sm"
+                        onClick={() => void handleSkip(row)}
+                        disabled={busyId != null || postingAll}
+                      >
+                        Skip
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="card">
+          <RecurringScheduleForm
+            schedule={editing === 'new' ? null : editing}
+            accounts={accounts}
+            deals={context?.deals ?? []}
+            onSaved={() => {
+              setEditing(null);
+              void loadData();
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        </div>
+      ) : null}
+
+      <div className="card">
+        <div className="recurring__header">
+          <h3 className="mt-0">Schedules</h3>
+          {!editing && (
+            <button type="button" className="btn btn-sm" onClick={() => setEditing('new')}>
+              + New schedule
+            </button>
+          )}
+        </div>
+        {schedules.length === 0 ? (
+          <p className="text-muted text-sm">No recurring schedules yet.</p>
+        ) : (
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Frequency</th>
+                <th>Next run</th>
+                <th>Ends</th>
+                <th className="text-right">Amount</th>
+                <th>Status</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {schedules.map((s) => (
+                <tr key={s.id} className={s.is_active ? undefined : 'text-muted'}>
+                  <td>
+                    {s.name}
+                    {s.kind === 'mortgage' && <span className="badge badge-info ml-2">mortgage</span>}
+                  </td>
+                  <td>{FREQUENCY_LABELS[s.frequency]}</td>
+                  <td>{s.is_active ? formatLocalDate(s.next_run_date) : '-'}</td>
+                  <td>{s.end_date ? formatLocalDate(s.end_date) : ''}</td>
+                  <td className="text-right">{formatMoney(scheduleAmount(s))}</td>
+                  <td>
+                    {s.is_active ? (
+                      <span className="badge badge-success">{s.auto_post ? 'Auto-post' : 'Active'}</span>
+                    ) : (
+                      <span className="badge">Paused</span>
+                    )}
+                  </td>
+                  <td className="recurring__actions">
+                    <button type="button" className="btn-link text-sm" onClick={() => setEditing(s)}>
+                      Edit
+                    </button>
+                    <button type="button" className="btn-link text-sm" onClick={() => void handleToggleActive(s)}>
+                      {s.is_active ? 'Pause' : 'Resume'}
+                    </button>
+                    <button type="button" className="btn-link text-sm" onClick={() => void handleDelete(s)}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {runs.length > 0 && (
+        <div className="card">
+          <h3 className="mt-0">Recent runs</h3>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Run date</th>
+                <th>Schedule</th>
+                <th>Result</th>
+                <th>Transaction</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((r) => (
+                <tr key={r.id}>
+                  <td>{formatLocalDate(r.run_date)}</td>
+                  <td>{scheduleNames.get(r.schedule_id) ?? `#${r.schedule_id}`}</td>
+                  <td>
+                    {r.status === 'skipped' ? 'Skipped' : r.posted_by === 'auto' ? 'Auto-posted' : 'Posted'}
+                  </td>
+                  <td>{r.transaction_id ? `#${r.transaction_id}` : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+// src/components/recurring/recurringPosting.ts
+
+import { supabase } from '../../lib/supabaseClient';
+import { formatLocalDate, todayLocalISO } from '../../utils/date';
+import { isDateInClosedPeriod, openPostingDate } from '../../utils/periodClose';
+import type { MixedAllocationMap } from '../../utils/mixedAllocation';
+import { buildIntercompanyLines, type EntityContext } from '../../utils/entities';
+import {
+  MORTGAGE_SCHEDULE_DEAL_SELECT,
+  RECURRING_SCHEDULE_SELECT,
+  buildScheduleRunEntry,
+  dueRunDates,
+  isWithinSchedule,
+  nextRunDate,
+  normalizeRecurringSchedule,
+  type MortgageScheduleDeal,
+  type RecurringSchedule,
+} from '../../utils/recurringSchedules';
+import { loadClosedThrough } from '../shared/closedPeriod';
+import { loadEntityContext } from '../shared/entityContext';
+import { loadMixedAllocations } from '../shared/mixedAllocations';
+
+export type PostingContext = {
+  accounts: { id: number; code: string | null }[];
+  deals: MortgageScheduleDeal[];
+  mixedAllocations: MixedAllocationMap;
+  entityContext: EntityContext;
+  closedThrough: string | null;
+};
+
+export type RunOutcome = {
+  status: 'posted' | 'skipped' | 'alreadyPosted';
+  transactionId: number | null;
+  /** Date the entry was posted on (differs from the run date when that month is closed) */
+  postedOn: string | null;
+};
+
+export type AutoPostResult = {
+  posted: number;
+  /** Runs left in the queue: locked periods and failures */
+  problems: string[];
+};
+
+export async function loadPostingContext(): Promise<PostingContext> {
+  const [accountsRes, dealsRes, mixedAllocations, entityContext, closedThrough] = await Promise.all([
+    supabase.from('accounts').select('id, code'),
+    supabase.from('real_estate_deals').select(MORTGAGE_SCHEDULE_DEAL_SELECT),
+    loadMixedAllocations(),
+    loadEntityContext(),
+    loadClosedThrough().catch((err: unknown) => {
+      console.warn('Failed to load closed periods:', err);
+      return null;
+    }),
+  ]);
+  if (accountsRes.error) throw accountsRes.error;
+  if (dealsRes.error) throw dealsRes.error;
+
+  return {
+    accounts: (accountsRes.data ?? []) as unknown as PostingContext['accounts'],
+    deals: (dealsRes.data ?? []) as unknown as MortgageScheduleDeal[],
+    mixedAllocations,
+    entityContext,
+    closedThrough,
+  };
+}
+
+/** Raw result of post_recurring_run */
+type RecurringRunRpcResult = {
+  status: 'posted' | 'skipped' | 'already_posted';
+  transaction_id: number | null;
+};
+
+/**
+ * Record a run through post_recurring_run: the claim, the entry (when `entry`
+ * is given), the link and the move to the next date happen together or not at
+ * all. A run another session already recorded is only advanced past.
+ */
+async function recordRun(
+  schedule: RecurringSchedule,
+  runDate: string,
+  postedBy: 'manual' | 'auto',
+  entry?: { date: string; description: string; lines: Record<string, unknown>[]; purpose: string | null }
+): Promise<RecurringRunRpcResult> {
+  const next = nextRunDate(runDate, schedule.frequency, schedule.start_date);
+  const { data, error } = await supabase.rpc('post_recurring_run', {
+    p_schedule_id: schedule.id,
+    p_run_date: runDate,
+    p_next_run_date: next,
+    p_is_active: isWithinSchedule(schedule, next),
+    p_posted_by: postedBy,
+    ...(entry && {
+      p_date: entry.date,
+      p_description: entry.description,
+      p_lines: entry.lines,
+      p_purpose: entry.purpose,
+    }),
+  });
+  if (error) throw error;
+  return data as RecurringRunRpcResult;
+}
+
+/**
+ * Post one run. Runs dated in a closed month post on the first open date.
+ */
+export async function postScheduleRun(
+  schedule: RecurringSchedule,
+  runDate: string,
+  context: PostingContext,
+  postedBy: 'manual' | 'auto'
+): Promise<RunOutcome> {
+  const entry = buildScheduleRunEntry(schedule, runDate, context.deals, context.accounts, context.mixedAllocations);
+  if (typeof entry === 'string') throw new Error(entry);
+  const lines = [...entry.lines, ...buildIntercompanyLines(entry.lines, context.entityContext)];
+
+  const postedOn = openPostingDate(runDate, context.closedThrough);
+  const description =
+    postedOn === runDate ? entry.description : `${entry.description} (scheduled ${formatLocalDate(runDate)})`;
+
+  const result = await recordRun(schedule, runDate, postedBy, {
+    date: postedOn,
+    description,
+    lines,
+    purpose: entry.purpose,
+  });
+  if (result.status === 'already_posted') return { status: 'alreadyPosted', transactionId: null, postedOn: null };
+  return { status: 'posted', transactionId: result.transaction_id, postedOn };
+}
+
+/** Record a run as skipped (nothing posted) and move to the next date */
+export async function skipScheduleRun(schedule: RecurringSchedule, runDate: string): Promise<RunOutcome> {
+  const result = await recordRun(schedule, runDate, 'manual');
+  const status = result.status === 'already_posted' ? 'alreadyPosted' : 'skipped';
+  return { status, transactionId: null, postedOn: null };
+}
+
+async function runAutoPost(asOf: string): Promise<AutoPostResult> {
+  const result: AutoPostResult = { posted: 0, problems: [] };
+
+  const { data, error } = await supabase
+    .from('recurring_schedules')
+    .select(RECURRING_SCHEDULE_SELECT)
+    .eq('is_active', true)
+    .eq('auto_post', true)
+    .lte('next_run_date', asOf);
+  if (error) throw error;
+
+  const schedules = ((data ?? []) as unknown as RecurringSchedule[]).map(normalizeRecurringSchedule);
+  if (schedules.length === 0) return result;
+
+  const context = await loadPostingContext();
+  for (const schedule of schedules) {
+    for (const runDate of dueRunDates(schedule, asOf)) {
+      // Locked months are left for a person to post from the queue
+      if (isDateInClosedPeriod(runDate, context.closedThrough)) {
+        result.problems.push(`${schedule.name} (${formatLocalDate(runDate)}): month is closed`);
+        break;
+      }
+      try {
+        const outcome = await postScheduleRun(schedule, runDate, context, 'auto');
+        if (outcome.status === 'posted') result.posted++;
+      } catch (err: unknown) {
+        result.problems.push(
+          `${schedule.name} (${formatLocalDate(runDate)}): ${err instanceof Error ? err.message : 'failed to post'}`
+        );
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+// One auto-post pass per session, shared by the app shell and the recurring view
+let autoPostRequest: Promise<AutoPostResult> | null = null;
+
+/** Post every due run of auto-post schedules (once per session) */
+export function autoPostDueSchedules(): Promise<AutoPostResult> {
+  if (!autoPostRequest) {
+    autoPostRequest = runAutoPost(todayLocalISO()).catch((err: unknown) => {
+      autoPostRequest = null;
+      throw err;
+    });
+  }
+  return autoPostRequest;
+}
@@ -0,0 +1,221 @@
+// src/components/reports/AuditLogView.tsx
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { AuditChanges } from '../shared/AuditChanges';
+import { useAuditLookups } from '../shared/auditLookups';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_LOG_SELECT,
+  AUDIT_TABLE_LABELS,
+  formatAuditUser,
+  type AuditAction,
+  type AuditEntry,
+  type AuditTable,
+} from '../../utils/auditLog';
+
+/** Newest entries loaded per search; narrow the filters to see older ones */
+const AUDIT_PAGE_LIMIT = 500;
+
+function defaultFrom(): string {
+  const d = new Date();
+  d.setDate(d.getDate() - 30);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Day after `date` (YYYY-MM-DD), for an inclusive "to" filter on a timestamp */
+function nextDay(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10);
+}
+
+export function AuditLogView() {
+  const [tableFilter, setTableFilter] = useState<AuditTable | ''>('');
+  const [actionFilter, setActionFilter] = useState<AuditAction | ''>('');
+  const [fromDate, setFromDate] = useState(defaultFrom);
+  const [toDate, setToDate] = useState('');
+  const [userFilter, setUserFilter] = useState('');
+  const [recordFilter, setRecordFilter] = useState('');
+  // Text filters apply on submit rather than on every keystroke
+  const [search, setSearch] = useState({ user: '', record: '' });
+
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const lookups = useAuditLookups();
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('audit_log')
+        .select(AUDIT_LOG_SELECT)
+        .order('changed_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(AUDIT_PAGE_LIMIT);
+
+      if (tableFilter) query = query.eq('table_name', tableFilter);
+      if (actionFilter) query = query.eq('action', actionFilter);
+      if (fromDate) query = query.gte('changed_at', fromDate);
+      if (toDate) query = query.lt('changed_at', nextDay(toDate));
+      if (search.user.trim()) query = query.ilike('changed_by_email', `%${search.user.trim()}%`);
+
+      const recordId = Number(search.record);
+      if (search.record.trim() && Number.isInteger(recordId)) {
+        // A transaction id also matches its lines
+        query = query.or(`record_id.eq.${recordId},transaction_id.eq.${recordId}`);
+      }
+
+      const { data, error: loadErr } = await query;
+      if (loadErr) throw loadErr;
+      setEntries((data ?? []) as unknown as AuditEntry[]);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [tableFilter, actionFilter, fromDate, toDate, search]);
+
+  useEffect(() => {
+    void loadEntries();
+  }, [loadEntries]);
+
+  return (
+    <div>
+      <h2>Audit Log</h2>
+      <p className="text-muted text-sm">
+        Every change to transactions, transaction lines, jobs, real estate deals and accounts - who made it, when,
+        and the old and new values. Entries cannot be edited or deleted.
+      </p>
+
+      <div className="card">
+        <form
+          className="filter-bar"
+          onSubmit={(e) => {
+            e.preventDefault();
+            // A new object so submitting the same text searches again
+            setSearch({ user: userFilter, record: recordFilter });
+          }}
+        >
+          <div className="filter-bar__group">
+            <span>Record type:</span>
+            <select
+              value={tableFilter}
+              onChange={(e) => setTableFilter(e.target.value as AuditTable | '')}
+              className="filter-bar__select"
+            >
+              <option value="">All</option>
+              {(Object.keys(AUDIT_TABLE_LABELS) as AuditTable[]).map((t) => (
+                <option key={t} value={t}>
+                  {AUDIT_TABLE_LABELS[t]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="filter-bar__group">
+            <span>Action:</span>
+            <select
+              value={actionFilter}
+              onChange={(e) => setActionFilter(e.target.value as AuditAction | '')}
+              className="filter-bar__select"
+            >
+              <option value="">All</option>
+              {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((a) => (
+                <option key={a} value={a}>
+                  {AUDIT_ACTION_LABELS[a]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="filter-bar__group">
+            <span>Date:</span>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="filter-bar__input"
+            />
+            <span>-</span>
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="filter-bar__input"
+            />
+          </div>
+          <div className="filter-bar__group">
+            <span>User:</span>
+            <input
+              type="text"
+              value={userFilter}
+              onChange={(e) => setUserFilter(e.target.value)}
+              placeholder="email"
+              className="filter-bar__input"
+            />
+          </div>
+          <div className="filter-bar__group">
+            <span>Record #:</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={recordFilter}
+              onChange={(e) => setRecordFilter(e.target.value)}
+              placeholder="id"
+              className="filter-bar__input"
+            />
+          </div>
+          <button type="submit" className="btn btn-sm" disabled={loading}>
+            Search
+          </button>
+        </form>
+
+        {error && <p className="ledger-row-error">{error}</p>}
+
+        {loading ? (
+          <p>Loading audit log...</p>
+        ) : entries.length === 0 ? (
+          <p className="ledger-empty">No changes found for these filters.</p>
+        ) : (
+          <>
+            <table className="table ledger-table">
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th>User</th>
+                  <th>Action</th>
+                  <th>Record</th>
+                  <th>Changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="audit-log__nowrap">{new Date(entry.changed_at).toLocaleString()}</td>
+                    <td>{formatAuditUser(entry)}</td>
+                    <td>{AUDIT_ACTION_LABELS[entry.action]}</td>
+                    <td className="audit-log__nowrap">
+                      {AUDIT_TABLE_LABELS[entry.table_name] ?? entry.table_name} #{entry.record_id}
+                      {entry.table_name === 'transaction_lines' && entry.transaction_id != null && (
+                        <div className="text-muted text-xs">Transaction #{entry.transaction_id}</div>
+                      )}
+                    </td>
+                    <td>
+                      <AuditChanges entry={entry} lookups={lookups} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {entries.length === AUDIT_PAGE_LIMIT && (
+              <p className="text-muted text-sm">
+                Showing the newest {AUDIT_PAGE_LIMIT} changes. Narrow the filters to see older ones.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+// src/components/reports/ConsolidationView.tsx
+
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { formatMoney } from '../../utils/format';
+import { formatLocalDate, todayLocalISO } from '../../utils/date';
+import { ACCOUNT_ENTITIES, ENTITY_LABELS, type AccountEntity } from '../../utils/accounts';
+import {
+  INTERCOMPANY_ACCOUNT_SELECT,
+  INTERCOMPANY_PAIRS,
+  buildConsolidation,
+  buildIntercompanyBalances,
+  intercompanyAccountId,
+  intercompanyPairLabel,
+  missingIntercompanyPairs,
+  normalizeIntercompanyAccount,
+  type IntercompanyAccount,
+} from '../../utils/entities';
+import {
+  STATEMENT_ACCOUNT_SELECT,
+  STATEMENT_LINE_SELECT,
+  normalizeStatementAccount,
+  normalizeStatementLine,
+  type RawStatementAccount,
+  type RawStatementLine,
+  type StatementAccount,
+  type StatementLine,
+} from '../../utils/financialStatements';
+
+export function ConsolidationView() {
+  const [asOf, setAsOf] = useState(todayLocalISO);
+
+  const [accounts, setAccounts] = useState<StatementAccount[]>([]);
+  const [lines, setLines] = useState<StatementLine[]>([]);
+  const [intercompany, setIntercompany] = useState<IntercompanyAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingPair, setSavingPair] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadIntercompany() {
+    const { data, error: err } = await supabase.from('intercompany_accounts').select(INTERCOMPANY_ACCOUNT_SELECT);
+    if (err) throw err;
+    setIntercompany(((data ?? []) as unknown as IntercompanyAccount[]).map(normalizeIntercompanyAccount));
+  }
+
+  useEffect(() => {
+    async function loadData() {
+      if (!asOf) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const [accountsRes, linesRes] = await Promise.all([
+          supabase.from('accounts').select(STATEMENT_ACCOUNT_SELECT),
+          supabase.from('transaction_lines').select(STATEMENT_LINE_SELECT).lte('transactions.date', asOf),
+          loadIntercompany(),
+        ]);
+        if (accountsRes.error) throw accountsRes.error;
+        if (linesRes.error) throw linesRes.error;
+
+        setAccounts(
+          ((accountsRes.data ?? []) as unknown as RawStatementAccount[])
+            .map(normalizeStatementAccount)
+            .filter((a): a is StatementAccount => a != null)
+        );
+        setLines(((linesRes.data ?? []) as unknown as RawStatementLine[]).map(normalizeStatementLine));
+      } catch (err: unknown) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Failed to load consolidation data');
+      } finally {
+        setLoading(false);
+      }
+    }
+    void loadData();
+  }, [asOf]);
+
+  const rows = useMemo(() => buildConsolidation(accounts, lines, intercompany, asOf), [accounts, lines, intercompany, asOf]);
+  const balances = useMemo(() => buildIntercompanyBalances(intercompany, lines, asOf), [intercompany, lines, asOf]);
+  const missingPairs = useMemo(() => missingIntercompanyPairs(intercompany), [intercompany]);
+
+  function accountLabel(id: number | null): string {
+    const acct = accounts.find((a) => a.id === id);
+    if (!acct) return id != null ? `#${id}` : '';
+    return acct.code ? `${acct.code} - ${acct.name}` : acct.name;
+  }
+
+  /** Balance sheet accounts an entity could hold an intercompany balance in */
+  function candidateAccounts(entity: AccountEntity): StatementAccount[] {
+    return accounts
+      .filter((a) => a.entity === entity && (a.type === 'asset' || a.type === 'liability'))
+      .sort((a, b) => (a.code || a.name).localeCompare(b.code || b.name, undefined, { numeric: true }));
+  }
+
+  async function handleMappingChange(entity: AccountEntity, counterparty: AccountEntity, accountId: number | null) {
+    const key = `${entity}-${counterparty}`;
+    setSavingPair(key);
+    setError(null);
+    try {
+      if (accountId == null) {
+        const { error: err } = await supabase
+          .from('intercompany_accounts')
+          .delete()
+          .eq('entity', entity)
+          .eq('counterparty_entity', counterparty);
+        if (err) throw err;
+      } else {
+        const { error: err } = await supabase
+          .from('intercompany_accounts')
+          .upsert(
+            { entity, counterparty_entity: counterparty, account_id: accountId },
+            { onConflict: 'entity,counterparty_entity' }
+          );
+        if (err) throw err;
+      }
+      await loadIntercompany();
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save intercompany account');
+    } finally {
+      setSavingPair(null);
+    }
+  }
+
+  return (
+    <div>
+      <h2>Consolidation</h2>
+      <p className="text-muted text-sm">
+        Net worth of each entity and of all entities together. Amounts the entities owe each other are eliminated in
+        the consolidated column, since a due-from in one book is a due-to in another.
+      </p>
+
+      <div className="card">
+        <div className="filter-bar">
+          <div className="filter-bar__group">
+            <span>As of:</span>
+            <input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="filter-bar__input" />
+          </div>
+        </div>
+
+        {error && <p className="ledger-row-error">{error}</p>}
+
+        {loading ? (
+          <p>Loading consolidation data...</p>
+        ) : (
+          <table className="table financial-statement">
+            <thead>
+              <tr>
+                <th>As of {formatLocalDate(asOf)}</th>
+                {ACCOUNT_ENTITIES.map((entity) => (
+                  <th key={entity} className="text-right">
+                    {ENTITY_LABELS[entity]}
+                  </th>
+                ))}
+                <th className="text-right">Eliminations</th>
+                <th className="text-right">Consolidated</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key} className={row.key === 'netWorth' ? 'financial-statement__footer' : undefined}>
+                  <td>{row.label}</td>
+                  {ACCOUNT_ENTITIES.map((entity) => (
+                    <td key={entity} className="text-right">
+                      {formatMoney(row.byEntity[entity])}
+                    </td>
+                  ))}
+                  <td className="text-right">{formatMoney(row.eliminations)}</td>
+                  <td className="text-right">{formatMoney(row.consolidated)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="card">
+        <h3 className="mt-0">Intercompany Balances</h3>
+        {balances.length === 0 ? (
+          <p className="text-muted text-sm">No intercompany accounts set up yet.</p>
+        ) : (
+          <table className="table financial-statement">
+            <thead>
+              <tr>
+                <th>Entities</th>
+                <th className="text-right">First entity's books</th>
+                <th className="text-right">Second entity's books</th>
+                <th className="text-right">Difference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {balances.map((b) => (
+                <tr key={`${b.entity}-${b.counterparty}`}>
+                  <td>
+                    {ENTITY_LABELS[b.entity]} / {ENTITY_LABELS[b.counterparty]}
+                  </td>
+                  <td className="text-right">{formatMoney(b.entityBalance)}</td>
+                  <td className="text-right">{formatMoney(b.counterpartyBalance)}</td>
+                  <td className={`text-right ${b.difference !== 0 ? 'text-danger' : ''}`}>{formatMoney(b.difference)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="text-muted text-sm">
+          Positive = the other entity owes this one. Both books should show the same amount with opposite signs; a
+          difference means an intercompany entry is missing on one side.
+        </p>
+      </div>
+
+      <div className="card">
+        <h3 className="mt-0">Intercompany Accounts</h3>
+        <p className="text-muted text-sm">
+          When an entry crosses entities, the entry forms add a line on these accounts so each entity's books balance:
+          the entity that paid records a due-from, the entity that benefited records a due-to.
+        </p>
+        {!loading && missingPairs.length > 0 && (
+          <div className="alert alert--warning">
+            Entries that cross these entities can't be posted until their accounts are set:{' '}
+            {missingPairs.map(([entity, counterparty]) => intercompanyPairLabel(entity, counterparty)).join('; ')}.
+          </div>
+        )}
+        <div className="form-grid">
+          {INTERCOMPANY_PAIRS.map(([entity, counterparty]) => {
+            const key = `${entity}-${counterparty}`;
+            const current = intercompanyAccountId(intercompany, entity, counterparty);
+            return (
+              <label key={key} className="form-label">
+                {intercompanyPairLabel(entity, counterparty)}
+                <select
+                  value={current ?? ''}
+                  disabled={loading || savingPair === key}
+                  onChange={(e) =>
+                    void handleMappingChange(entity, counterparty, e.target.value ? Number(e.target.value) : null)
+                  }
+                >
+                  <option value="">Not set</option>
+                  {candidateAccounts(entity).map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {accountLabel(a.id)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
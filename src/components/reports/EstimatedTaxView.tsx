@@ -0,0 +1,567 @@
+// src/components/reports/EstimatedTaxView.tsx
+
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { formatCurrency, formatPercent } from '../../utils/format';
+import { formatLocalDate, todayLocalISO } from '../../utils/date';
+import { compareAccountsForSort, type Purpose } from '../../utils/accounts';
+import {
+  DEFAULT_ESTIMATED_TAX_SETTINGS,
+  ESTIMATED_TAX_SETTINGS_SELECT,
+  annualizationFactor,
+  buildQuarterSchedule,
+  computeEstimatedTax,
+  estimatedPaymentWindow,
+  normalizeEstimatedTaxSettings,
+  summarizeTaxableIncome,
+  validateEstimatedTaxSettings,
+  type EstimatedPayment,
+  type EstimatedTaxSettings,
+} from '../../utils/estimatedTax';
+
+// Raw query shapes from Supabase
+type RawTaxLine = {
+  amount: number;
+  purpose: Purpose | null;
+  job_id: number | null;
+  accounts: {
+    name: string;
+    code: string | null;
+    mixed_allocation: unknown;
+    entity: string | null;
+    account_types: { name: string } | null;
+  } | null;
+};
+
+type RawPaymentLine = {
+  account_id: number;
+  amount: number;
+  transactions: { date: string } | null;
+};
+
+type AccountOption = {
+  id: number;
+  name: string;
+  code: string | null;
+};
+
+/** Editable settings; rates are entered as percentages */
+type SettingsForm = {
+  brackets: { up_to: string; rate: string }[];
+  standard_deduction: string;
+  qbi_rate: string;
+  ss_wage_base: string;
+  other_income: string;
+  state_rate: string;
+  state_deduction: string;
+  federal_payment_account_id: string;
+  state_payment_account_id: string;
+};
+
+type NumberField = 'standard_deduction' | 'qbi_rate' | 'ss_wage_base' | 'other_income' | 'state_rate' | 'state_deduction';
+
+const NUMBER_FIELDS: { key: NumberField; label: string }[] = [
+  { key: 'standard_deduction', label: 'Standard deduction' },
+  { key: 'qbi_rate', label: 'QBI deduction rate (%)' },
+  { key: 'ss_wage_base', label: 'Social Security wage base' },
+  { key: 'other_income', label: 'Other annual income (W-2, interest)' },
+  { key: 'state_rate', label: 'State rate (%)' },
+  { key: 'state_deduction', label: 'State deduction' },
+];
+
+const PERCENT_FIELDS: NumberField[] = ['qbi_rate', 'state_rate'];
+
+const toPercentText = (rate: number) => String(Math.round(rate * 1000000) / 10000);
+
+function formFromSettings(settings: EstimatedTaxSettings): SettingsForm {
+  return {
+    brackets: settings.federal_brackets.map((b) => ({
+      up_to: b.up_to == null ? '' : String(b.up_to),
+      rate: toPercentText(b.rate),
+    })),
+    standard_deduction: String(settings.standard_deduction),
+    qbi_rate: toPercentText(settings.qbi_rate),
+    ss_wage_base: String(settings.ss_wage_base),
+    other_income: String(settings.other_income),
+    state_rate: toPercentText(settings.state_rate),
+    state_deduction: String(settings.state_deduction),
+    federal_payment_account_id: settings.federal_payment_account_id == null ? '' : String(settings.federal_payment_account_id),
+    state_payment_account_id: settings.state_payment_account_id == null ? '' : String(settings.state_payment_account_id),
+  };
+}
+
+function settingsFromForm(year: number, form: SettingsForm): EstimatedTaxSettings {
+  const num = (text: string) => Number(text) || 0;
+  const rate = (text: string) => num(text) / 100;
+  return {
+    tax_year: year,
+    federal_brackets: form.brackets.map((b) => ({ up_to: b.up_to.trim() ? num(b.up_to) : null, rate: rate(b.rate) })),
+    standard_deduction: num(form.standard_deduction),
+    qbi_rate: rate(form.qbi_rate),
+    ss_wage_base: num(form.ss_wage_base),
+    other_income: num(form.other_income),
+    state_rate: rate(form.state_rate),
+    state_deduction: num(form.state_deduction),
+    federal_payment_account_id: form.federal_payment_account_id ? Number(form.federal_payment_account_id) : null,
+    state_payment_account_id: form.state_payment_account_id ? Number(form.state_payment_account_id) : null,
+  };
+}
+
+export function EstimatedTaxView() {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [settings, setSettings] = useState<EstimatedTaxSettings>({ ...DEFAULT_ESTIMATED_TAX_SETTINGS, tax_year: currentYear });
+  const [settingsSaved, setSettingsSaved] = useState(false);
+  const [form, setForm] = useState<SettingsForm>(() =>
+    formFromSettings({ ...DEFAULT_ESTIMATED_TAX_SETTINGS, tax_year: currentYear })
+  );
+  const [showSettings, setShowSettings] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+  const [lines, setLines] = useState<RawTaxLine[]>([]);
+  const [payments, setPayments] = useState<EstimatedPayment[]>([]);
+
+  // Year-to-date through today for the current year, the whole year once it is over
+  const today = todayLocalISO();
+  const asOf = year < currentYear ? `${year}-12-31` : today;
+
+  useEffect(() => {
+    async function loadSettings() {
+      setError(null);
+      setSuccess(null);
+      try {
+        const [settingsRes, accountsRes] = await Promise.all([
+          supabase.from('estimated_tax_settings').select(ESTIMATED_TAX_SETTINGS_SELECT).eq('tax_year', year).maybeSingle(),
+          supabase.from('accounts').select('id, name, code').eq('is_active', true),
+        ]);
+        if (settingsRes.error) throw settingsRes.error;
+        if (accountsRes.error) throw accountsRes.error;
+
+        const row = settingsRes.data as unknown as Record<string, unknown> | null;
+        const loaded = row ? normalizeEstimatedTaxSettings(row) : { ...DEFAULT_ESTIMATED_TAX_SETTINGS, tax_year: year };
+        setSettings(loaded);
+        setSettingsSaved(row != null);
+        setForm(formFromSettings(loaded));
+        setShowSettings(row == null);
+        setAccounts(((accountsRes.data ?? []) as unknown as AccountOption[]).sort(compareAccountsForSort));
+      } catch (err: unknown) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Failed to load estimated tax settings');
+      }
+    }
+    void loadSettings();
+  }, [year]);
+
+  const federalAccountId = settings.federal_payment_account_id;
+  const stateAccountId = settings.state_payment_account_id;
+
+  useEffect(() => {
+    async function loadLedger() {
+      setLoading(true);
+      setError(null);
+      try {
+        if (year > currentYear) {
+          setLines([]);
+          setPayments([]);
+          return;
+        }
+
+        const { data: linesData, error: linesErr } = await supabase
+          .from('transaction_lines')
+          .select(`
+            amount,
+            purpose,
+            job_id,
+            accounts (name, code, mixed_allocation, entity, account_types (name)),
+            transactions!inner (date)
+          `)
+          .eq('is_cleared', true)
+          .gte('transactions.date', `${year}-01-01`)
+          .lte('transactions.date', asOf);
+        if (linesErr) throw linesErr;
+        setLines((linesData ?? []) as unknown as RawTaxLine[]);
+
+        const accountIds = [federalAccountId, stateAccountId].filter((id): id is number => id != null);
+        if (accountIds.length === 0) {
+          setPayments([]);
+          return;
+        }
+
+        const paymentWindow = estimatedPaymentWindow(year);
+        const { data: paymentsData, error: paymentsErr } = await supabase
+          .from('transaction_lines')
+          .select('account_id, amount, transactions!inner (date)')
+          .in('account_id', accountIds)
+          .gte('transactions.date', paymentWindow.from)
+          .lte('transactions.date', paymentWindow.to);
+        if (paymentsErr) throw paymentsErr;
+
+        // Debits are payments; a credit (refund or correction) offsets them
+        setPayments(
+          ((paymentsData ?? []) as unknown as RawPaymentLine[]).flatMap((p) => {
+            const date = p.transactions?.date;
+            if (!date) return [];
+            const jurisdiction = p.account_id === federalAccountId ? 'federal' : 'state';
+            return [{ date, amount: Number(p.amount) || 0, jurisdiction }];
+          })
+        );
+      } catch (err: unknown) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Failed to load ledger data');
+      } finally {
+        setLoading(false);
+      }
+    }
+    void loadLedger();
+  }, [year, currentYear, asOf, federalAccountId, stateAccountId]);
+
+  async function handleSaveSettings() {
+    const next = settingsFromForm(year, form);
+    const problem = validateEstimatedTaxSettings(next);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const payload = {
+        tax_year: year,
+        federal_brackets: next.federal_brackets,
+        standard_deduction: next.standard_deduction,
+        qbi_rate: next.qbi_rate,
+        ss_wage_base: next.ss_wage_base,
+        other_income: next.other_income,
+        state_rate: next.state_rate,
+        state_deduction: next.state_deduction,
+        federal_payment_account_id: next.federal_payment_account_id,
+        state_payment_account_id: next.state_payment_account_id,
+        updated_at: new Date().toISOString(),
+      };
+      const { data, error: err } = await supabase
+        .from('estimated_tax_settings')
+        .upsert(payload, { onConflict: 'tax_year' })
+        .select(ESTIMATED_TAX_SETTINGS_SELECT)
+        .single();
+      if (err) throw err;
+      const saved = normalizeEstimatedTaxSettings(data as unknown as Record<string, unknown>);
+      setSettings(saved);
+      setSettingsSaved(true);
+      setForm(formFromSettings(saved));
+      setShowSettings(false);
+      setSuccess('Estimated tax settings saved.');
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save estimated tax settings');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function updateBracket(index: number, key: 'up_to' | 'rate', value: string) {
+    setForm((prev) => ({
+      ...prev,
+      brackets: prev.brackets.map((b, i) => (i === index ? { ...b, [key]: value } : b)),
+    }));
+  }
+
+  const ytd = useMemo(() => summarizeTaxableIncome(lines), [lines]);
+  const factor = year > currentYear ? 0 : annualizationFactor(year, asOf);
+  const estimate = useMemo(
+    () => computeEstimatedTax(ytd.scheduleCNet * factor, ytd.scheduleENet * factor, settings),
+    [ytd, factor, settings]
+  );
+  const schedule = useMemo(() => buildQuarterSchedule(year, estimate, payments), [year, estimate, payments]);
+
+  const currency = (val: number) => formatCurrency(val, 2);
+  const accountLabel = (a: AccountOption) => (a.code ? `${a.code} - ${a.name}` : a.name);
+  const federalPaid = schedule[3]?.federalPaid ?? 0;
+  const statePaid = schedule[3]?.statePaid ?? 0;
+
+  return (
+    <div>
+      <div className="tax-header">
+        <div className="tax-header__left">
+          <h2>Estimated Taxes</h2>
+          <label className="tax-year-label">
+            <span>Tax Year:</span>
+            <input
+              type="number"
+              value={year}
+              onChange={(e) => setYear(Number(e.target.value) || currentYear)}
+            />
+          </label>
+        </div>
+        {!showSettings && (
+          <button type="button" className="btn" onClick={() => setShowSettings(true)}>
+            Edit Rates &amp; Accounts
+          </button>
+        )}
+      </div>
+
+      {error && <div className="alert alert--error">{error}</div>}
+      {success && <div className="alert alert--success">{success}</div>}
+
+      <div className="tax-grid">
+        {showSettings && (
+          <div className="card tax-section">
+            <h3>Rates &amp; Brackets for {year}</h3>
+            {!settingsSaved && (
+              <p className="tax-note">
+                No settings saved for {year}; these are the built-in single-filer defaults. Review and save them.
+              </p>
+            )}
+
+            <div className="tax-subsection">
+              <h4>Federal Brackets</h4>
+              <table className="table tax-table">
+                <thead>
+                  <tr>
+                    <th>Taxable income up to</th>
+                    <th>Rate (%)</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {form.brackets.map((b, i) => (
+                    <tr key={i}>
+                      <td>
+                        <input
+                          type="number"
+                          value={b.up_to}
+                          placeholder="No limit"
+                          onChange={(e) => updateBracket(i, 'up_to', e.target.value)}
+                        />
+                      </td>
+                      <td>
+                        <input type="number" value={b.rate} onChange={(e) => updateBracket(i, 'rate', e.target.value)} />
+                      </td>
+                      <td>
+                        <button
+                          type="button"
+                          className="btn-link"
+                          onClick={() => setForm((prev) => ({ ...prev, brackets: prev.brackets.filter((_, j) => j !== i) }))}
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                type="button"
+                className="btn-link"
+                onClick={() => setForm((prev) => ({ ...prev, brackets: [...prev.brackets, { up_to: '', rate: '' }] }))}
+              >
+                + Add bracket
+              </button>
+            </div>
+
+            <div className="form-grid">
+              {NUMBER_FIELDS.map(({ key, label }) => (
+                <label key={key} className="form-label">
+                  {label}
+                  <input
+                    type="number"
+                    step={PERCENT_FIELDS.includes(key) ? '0.01' : '1'}
+                    value={form[key]}
+                    onChange={(e) => setForm((prev) => ({ ...prev, [key]: e.target.value }))}
+                  />
+                </label>
+              ))}
+
+              <label className="form-label">
+                Federal estimated payments account
+                <select
+                  value={form.federal_payment_account_id}
+                  onChange={(e) => setForm((prev) => ({ ...prev, federal_payment_account_id: e.target.value }))}
+                >
+                  <option value="">None</option>
+                  {accounts.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {accountLabel(a)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="form-label">
+                State estimated payments account
+                <select
+                  value={form.state_payment_account_id}
+                  onChange={(e) => setForm((prev) => ({ ...prev, state_payment_account_id: e.target.value }))}
+                >
+                  <option value="">None</option>
+                  {accounts.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {accountLabel(a)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="detail-panel__footer">
+              {settingsSaved && (
+                <button
+                  type="button"
+                  className="btn"
+                  onClick={() => {
+                    setForm(formFromSettings(settings));
+                    setShowSettings(false);
+                  }}
+                  disabled={saving}
+                >
+                  Cancel
+                </button>
+              )}
+              <button type="button" onClick={handleSaveSettings} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Settings'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <p>Loading ledger data...</p>
+        ) : year > currentYear ? (
+          <p className="tax-empty">{year} has not started; there is no year-to-date income to estimate from.</p>
+        ) : (
+          <>
+            <div className="card tax-section">
+              <h3>Annualized Income</h3>
+              <p className="tax-note">
+                Cleared activity from {formatLocalDate(`${year}-01-01`)} through {formatLocalDate(asOf)}
+                {factor > 1 ? `, annualized x${factor.toFixed(2)}` : ''}. Flip costs are excluded until the sale.
+              </p>
+              <table className="table tax-table">
+                <thead>
+                  <tr>
+                    <th />
+                    <th className="right">Year to Date</th>
+                    <th className="right">Annualized</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <td>Schedule C net profit</td>
+                    <td className="right">{currency(ytd.scheduleCNet)}</td>
+                    <td className="right">{currency(estimate.scheduleCNet)}</td>
+                  </tr>
+                  <tr>
+                    <td>Schedule E net</td>
+                    <td className="right">{currency(ytd.scheduleENet)}</td>
+                    <td className="right">{currency(estimate.scheduleENet)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="card tax-section">
+              <h3>Estimated {year} Tax</h3>
+              <table className="table tax-table">
+                <tbody>
+                  <tr>
+                    <td>Self-employment tax</td>
+                    <td className="right">{currency(estimate.selfEmploymentTax)}</td>
+                  </tr>
+                  <tr>
+                    <td>Adjusted gross income (incl. other income, less half SE tax)</td>
+                    <td className="right">{currency(estimate.adjustedGrossIncome)}</td>
+                  </tr>
+                  <tr>
+                    <td>Standard deduction</td>
+                    <td className="right">{currency(settings.standard_deduction)}</td>
+                  </tr>
+                  <tr>
+                    <td>QBI deduction ({formatPercent(settings.qbi_rate, 0)})</td>
+                    <td className="right">{currency(estimate.qbiDeduction)}</td>
+                  </tr>
+                  <tr>
+                    <td>Taxable income</td>
+                    <td className="right">{currency(estimate.taxableIncome)}</td>
+                  </tr>
+                  <tr>
+                    <td>Federal income tax</td>
+                    <td className="right">{currency(estimate.federalIncomeTax)}</td>
+                  </tr>
+                  <tr>
+                    <td>
+                      <strong>Federal total (income + SE tax)</strong>
+                    </td>
+                    <td className="right">
+                      <strong>{currency(estimate.federalTotal)}</strong>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td>
+                      <strong>State tax ({formatPercent(settings.state_rate, 2)})</strong>
+                    </td>
+                    <td className="right">
+                      <strong>{currency(estimate.stateTax)}</strong>
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="card tax-section">
+              <h3>Form 1040-ES Schedule</h3>
+              {settings.federal_payment_account_id == null && settings.state_payment_account_id == null ? (
+                <p className="tax-note">
+                  Choose the accounts estimated payments are posted to (Edit Rates &amp; Accounts) to count payments
+                  already made.
+                </p>
+              ) : (
+                <p className="tax-note">
+                  Paid so far: {currency(federalPaid)} federal, {currency(statePaid)} state. Each deadline requires
+                  a cumulative quarter of the year's estimate.
+                </p>
+              )}
+              <table className="table tax-table">
+                <thead>
+                  <tr>
+                    <th>Quarter</th>
+                    <th>Due</th>
+                    <th className="right">Federal Required</th>
+                    <th className="right">Federal Paid</th>
+                    <th className="right">Federal Due</th>
+                    <th className="right">State Required</th>
+                    <th className="right">State Paid</th>
+                    <th className="right">State Due</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schedule.map((q) => {
+                    const past = q.dueDate < today;
+                    const owing = q.federalDue > 0 || q.stateDue > 0;
+                    return (
+                      <tr key={q.quarter}>
+                        <td>Q{q.quarter}</td>
+                        <td className={past && owing ? 'text-danger' : ''}>{formatLocalDate(q.dueDate)}</td>
+                        <td className="right">{currency(q.federalRequired)}</td>
+                        <td className="right">{currency(q.federalPaid)}</td>
+                        <td className="right">{currency(q.federalDue)}</td>
+                        <td className="right">{currency(q.stateRequired)}</td>
+                        <td className="right">{currency(q.statePaid)}</td>
+                        <td className="right">{currency(q.stateDue)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+// src/components/reports/FinancialStatementsView.tsx
+
+import { useEffect, useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { supabase } from '../../lib/supabaseClient';
+import { formatMoney } from '../../utils/format';
+import { formatLocalDate, todayLocalISO } from '../../utils/date';
+import { ENTITY_LABELS } from '../../utils/accounts';
+import { entityFilterLabel, matchesEntity, type EntityFilter } from '../../utils/entities';
+import { EntitySelect } from '../shared/EntitySelect';
+import {
+  STATEMENT_ACCOUNT_SELECT,
+  STATEMENT_LINE_SELECT,
+  buildBalanceSheet,
+  buildIncomeStatement,
+  buildStatementPeriods,
+  buildTrialBalance,
+  normalizeStatementAccount,
+  normalizeStatementLine,
+  statementToRows,
+  trialBalanceToRows,
+  type FinancialStatement,
+  type RawStatementAccount,
+  type RawStatementLine,
+  type StatementAccount,
+  type StatementGroup,
+  type StatementLine,
+  type StatementPeriodType,
+  type StatementSection,
+} from '../../utils/financialStatements';
+
+type StatementTab = 'balanceSheet' | 'incomeStatement' | 'trialBalance';
+
+const TAB_LABELS: Record<StatementTab, string> = {
+  balanceSheet: 'Balance Sheet',
+  incomeStatement: 'Income Statement',
+  trialBalance: 'Trial Balance',
+};
+
+const PERIOD_TYPE_LABELS: Record<StatementPeriodType, string> = {
+  month: 'Monthly',
+  quarter: 'Quarterly',
+  year: 'Yearly',
+};
+
+/** Balance sheet columns are headed by their as-of date, income statement columns by period */
+function StatementTable({ statement, asOfHeaders }: { statement: FinancialStatement; asOfHeaders: boolean }) {
+  const blank = statement.periods.map((p) => <td key={p.start} />);
+
+  return (
+    <table className="table financial-statement">
+      <thead>
+        <tr>
+          <th />
+          {statement.periods.map((p) => (
+            <th key={p.start} className="text-right">
+              {asOfHeaders ? `As of ${formatLocalDate(p.end)}` : p.label}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {statement.sections.map((section) => (
+          <SectionRows key={section.key} section={section} blank={blank} />
+        ))}
+        {statement.footer.map((line) => (
+          <tr key={line.label} className="financial-statement__footer">
+            <td>{line.label}</td>
+            {line.values.map((v, i) => (
+              <td key={i} className="text-right">
+                {formatMoney(v)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function SectionRows({ section, blank }: { section: StatementSection; blank: React.ReactNode }) {
+  return (
+    <>
+      <tr className="financial-statement__section">
+        <td>{section.label}</td>
+        {blank}
+      </tr>
+      {section.groups.map((group) => (
+        <GroupRows key={group.key} group={group} blank={blank} />
+      ))}
+      {section.groups.length === 0 && (
+        <tr>
+          <td className="financial-statement__account text-muted">No balances</td>
+          {blank}
+        </tr>
+      )}
+      <tr className="financial-statement__section-total">
+        <td>Total {section.label.toLowerCase()}</td>
+        {section.totals.map((v, i) => (
+          <td key={i} className="text-right">
+            {formatMoney(v)}
+          </td>
+        ))}
+      </tr>
+    </>
+  );
+}
+
+function GroupRows({ group, blank }: { group: StatementGroup; blank: React.ReactNode }) {
+  return (
+    <>
+      <tr className="financial-statement__group">
+        <td>{group.label}</td>
+        {blank}
+      </tr>
+      {group.rows.map((row) => (
+        <tr key={row.accountId ?? row.name}>
+          <td className="financial-statement__account">
+            {row.code && <span className="text-muted">{row.code} </span>}
+            {row.name}
+          </td>
+          {row.values.map((v, i) => (
+            <td key={i} className="text-right">
+              {formatMoney(v)}
+            </td>
+          ))}
+        </tr>
+      ))}
+      <tr className="financial-statement__group-total">
+        <td>Total {group.label.toLowerCase()}</td>
+        {group.totals.map((v, i) => (
+          <td key={i} className="text-right">
+            {formatMoney(v)}
+          </td>
+        ))}
+      </tr>
+    </>
+  );
+}
+
+export function FinancialStatementsView() {
+  const [tab, setTab] = useState<StatementTab>('balanceSheet');
+  const [entity, setEntity] = useState<EntityFilter>('all');
+  const [periodType, setPeriodType] = useState<StatementPeriodType>('month');
+  const [endDate, setEndDate] = useState(todayLocalISO);
+  const [columnCount, setColumnCount] = useState(2);
+
+  const [accounts, setAccounts] = useState<StatementAccount[]>([]);
+  const [lines, setLines] = useState<StatementLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadData() {
+      if (!endDate) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const [accountsRes, linesRes] = await Promise.all([
+          supabase.from('accounts').select(STATEMENT_ACCOUNT_SELECT),
+          supabase.from('transaction_lines').select(STATEMENT_LINE_SELECT).lte('transactions.date', endDate),
+        ]);
+        if (accountsRes.error) throw accountsRes.error;
+        if (linesRes.error) throw linesRes.error;
+
+        setAccounts(
+          ((accountsRes.data ?? []) as unknown as RawStatementAccount[])
+            .map(normalizeStatementAccount)
+            .filter((a): a is StatementAccount => a != null)
+        );
+        setLines(((linesRes.data ?? []) as unknown as RawStatementLine[]).map(normalizeStatementLine));
+      } catch (err: unknown) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Failed to load financial data');
+      } finally {
+        setLoading(false);
+      }
+    }
+    void loadData();
+  }, [endDate]);
+
+  const entityAccounts = useMemo(
+    () => (entity === 'all' ? accounts : accounts.filter((a) => matchesEntity(a.entity, entity))),
+    [accounts, entity]
+  );
+
+  const periods = useMemo(
+    () => (endDate ? buildStatementPeriods(periodType, endDate, columnCount) : []),
+    [periodType, endDate, columnCount]
+  );
+
+  // The current column ends at the chosen date, not the end of its period
+  const asOfPeriods = useMemo(
+    () => periods.map((p, i) => (i === 0 && endDate < p.end ? { ...p, end: endDate } : p)),
+    [periods, endDate]
+  );
+
+  const balanceSheet = useMemo(
+    () => buildBalanceSheet(entityAccounts, lines, asOfPeriods),
+    [entityAccounts, lines, asOfPeriods]
+  );
+  const incomeStatement = useMemo(
+    () => buildIncomeStatement(entityAccounts, lines, asOfPeriods),
+    [entityAccounts, lines, asOfPeriods]
+  );
+  const trialBalance = useMemo(
+    () => buildTrialBalance(entityAccounts, lines, endDate),
+    [entityAccounts, lines, endDate]
+  );
+
+  const entityLabel = entityFilterLabel(entity);
+
+  function handleExport() {
+    const wb = XLSX.utils.book_new();
+    const title = [`${entityLabel} - as of ${formatLocalDate(endDate)}`];
+
+    const sheets: [string, (string | number)[][]][] = [
+      ['Balance Sheet', [title, [], ...statementToRows(balanceSheet)]],
+      ['Income Statement', [title, [], ...statementToRows(incomeStatement)]],
+      ['Trial Balance', [title, [], ...trialBalanceToRows(trialBalance)]],
+    ];
+    for (const [name, rows] of sheets) {
+      const ws = XLSX.utils.aoa_to_sheet(rows);
+      ws['!cols'] = [{ wch: 42 }, ...asOfPeriods.map(() => ({ wch: 16 }))];
+      XLSX.utils.book_append_sheet(wb, ws, name);
+    }
+
+    const entityKey = entity === 'all' ? 'All' : ENTITY_LABELS[entity].replace(/\s+/g, '_');
+    XLSX.writeFile(wb, `Oakerds_Financials_${entityKey}_${endDate}.xlsx`);
+  }
+
+  return (
+    <div>
+      <h2>Financial Statements</h2>
+      <p className="text-muted text-sm">
+        Balance sheet, income statement and trial balance from the ledger. Each account belongs to one entity; money
+        moved between entities shows as due to/due from balances.
+      </p>
+
+      <div className="card">
+        <div className="filter-bar">
+          <div className="filter-bar__group">
+            <span>Statement:</span>
+            <select value={tab} onChange={(e) => setTab(e.target.value as StatementTab)} className="filter-bar__select">
+              {(Object.keys(TAB_LABELS) as StatementTab[]).map((t) => (
+                <option key={t} value={t}>
+                  {TAB_LABELS[t]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="filter-bar__group">
+            <span>Entity:</span>
+            <EntitySelect value={entity} onChange={setEntity} className="filter-bar__select" />
+          </div>
+          <div className="filter-bar__group">
+            <span>As of:</span>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="filter-bar__input"
+            />
+          </div>
+          {tab !== 'trialBalance' && (
+            <>
+              <div className="filter-bar__group">
+                <span>Periods:</span>
+                <select
+                  value={periodType}
+                  onChange={(e) => setPeriodType(e.target.value as StatementPeriodType)}
+                  className="filter-bar__select"
+                >
+                  {(Object.keys(PERIOD_TYPE_LABELS) as StatementPeriodType[]).map((p) => (
+                    <option key={p} value={p}>
+                      {PERIOD_TYPE_LABELS[p]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="filter-bar__group">
+                <span>Columns:</span>
+                <select
+                  value={columnCount}
+                  onChange={(e) => setColumnCount(Number(e.target.value))}
+                  className="filter-bar__select"
+                >
+                  {[1, 2, 3, 4].map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+          <button type="button" className="btn btn-sm" onClick={handleExport} disabled={loading || !!error}>
+            Export to Excel
+          </button>
+        </div>
+
+        {error && <p className="ledger-row-error">{error}</p>}
+
+        {loading ? (
+          <p>Loading financial data...</p>
+        ) : tab === 'trialBalance' ? (
+          <table className="table financial-statement">
+            <thead>
+              <tr>
+                <th>Code</th>
+                <th>Account</th>
+                <th className="text-right">Debit</th>
+                <th className="text-right">Credit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trialBalance.rows.map((r) => (
+                <tr key={r.account.id}>
+                  <td className="text-muted">{r.account.code ?? ''}</td>
+                  <td>{r.account.name}</td>
+                  <td className="text-right">{r.debit ? formatMoney(r.debit) : ''}</td>
+                  <td className="text-right">{r.credit ? formatMoney(r.credit) : ''}</td>
+                </tr>
+              ))}
+              <tr className="financial-statement__footer">
+                <td />
+                <td>Total</td>
+                <td className="text-right">{formatMoney(trialBalance.totalDebit)}</td>
+                <td className="text-right">{formatMoney(trialBalance.totalCredit)}</td>
+              </tr>
+            </tbody>
+          </table>
+        ) : (
+          <StatementTable
+            statement={tab === 'balanceSheet' ? balanceSheet : incomeStatement}
+            asOfHeaders={tab === 'balanceSheet'}
+          />
+        )}
+
+        {!loading && entity !== 'all' && tab !== 'incomeStatement' && (
+          <p className="text-muted text-sm">
+            Entries that crossed entities before intercompany accounts were set up have no due to/due from lines, so a
+            single entity's balance sheet and trial balance may not balance by that amount.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+// src/components/reports/Form1099Panel.tsx
+
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { ENTITY_LABELS } from '../../utils/accounts';
+import type { EntityFilter } from '../../utils/entities';
+import {
+  NEC_THRESHOLD,
+  TAX_PAYER_SETTINGS_SELECT,
+  buildCopyBHtml,
+  buildFireFile,
+  recipientsForFiling,
+  validate1099,
+  type ContractorPayment,
+  type TaxPayerSettings,
+} from '../../utils/form1099';
+
+type Form1099PanelProps = {
+  year: number;
+  entity: EntityFilter;
+  /** Every installer paid in the year, including those under the threshold */
+  payments: ContractorPayment[];
+};
+
+type PayerForm = Omit<TaxPayerSettings, 'id' | 'entity'>;
+
+const EMPTY_PAYER: PayerForm = {
+  name: '',
+  tin: '',
+  address: '',
+  city: '',
+  state: '',
+  zip: '',
+  phone: '',
+  contact_name: '',
+  contact_email: '',
+  transmitter_control_code: '',
+};
+
+const PAYER_FIELDS: { key: keyof PayerForm; label: string }[] = [
+  { key: 'name', label: 'Payer name' },
+  { key: 'tin', label: 'EIN' },
+  { key: 'address', label: 'Street address' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'zip', label: 'ZIP' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'contact_name', label: 'Contact name' },
+  { key: 'contact_email', label: 'Contact email' },
+  { key: 'transmitter_control_code', label: 'FIRE TCC' },
+];
+
+/** 1099-NEC e-file (IRS FIRE) and recipient Copy B for one payer entity */
+export function Form1099Panel({ year, entity, payments }: Form1099PanelProps) {
+  const [payer, setPayer] = useState<TaxPayerSettings | null>(null);
+  const [form, setForm] = useState<PayerForm>(EMPTY_PAYER);
+  const [showPayerForm, setShowPayerForm] = useState(false);
+  const [testFile, setTestFile] = useState(true);
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (entity === 'all') {
+      setPayer(null);
+      return;
+    }
+    const payerEntity = entity;
+    async function loadPayer() {
+      setError(null);
+      try {
+        const { data, error: err } = await supabase
+          .from('tax_payer_settings')
+          .select(TAX_PAYER_SETTINGS_SELECT)
+          .eq('entity', payerEntity)
+          .maybeSingle();
+        if (err) throw err;
+        const row = data as unknown as TaxPayerSettings | null;
+        setPayer(row);
+        setForm(row ? { ...EMPTY_PAYER, ...row } : { ...EMPTY_PAYER, name: ENTITY_LABELS[payerEntity] });
+        setShowPayerForm(!row);
+      } catch (err: unknown) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Failed to load payer details');
+      }
+    }
+    void loadPayer();
+  }, [entity]);
+
+  const recipients = useMemo(() => recipientsForFiling(payments), [payments]);
+  const issues = useMemo(() => validate1099(payer, payments), [payer, payments]);
+  const belowThreshold = payments.length - recipients.length;
+
+  if (entity === 'all') {
+    return (
+      <p className="tax-note">
+        Choose an entity above to e-file its 1099-NECs; each entity files under its own EIN.
+      </p>
+    );
+  }
+
+  async function handleSavePayer() {
+    if (entity === 'all') return;
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const payload = {
+        entity,
+        name: form.name.trim(),
+        tin: form.tin?.trim() || null,
+        address: form.address?.trim() || null,
+        city: form.city?.trim() || null,
+        state: form.state?.trim().toUpperCase() || null,
+        zip: form.zip?.trim() || null,
+        phone: form.phone?.trim() || null,
+        contact_name: form.contact_name?.trim() || null,
+        contact_email: form.contact_email?.trim() || null,
+        transmitter_control_code: form.transmitter_control_code?.trim().toUpperCase() || null,
+        updated_at: new Date().toISOString(),
+      };
+      const { data, error: err } = await supabase
+        .from('tax_payer_settings')
+        .upsert(payload, { onConflict: 'entity' })
+        .select(TAX_PAYER_SETTINGS_SELECT)
+        .single();
+      if (err) throw err;
+      setPayer(data as unknown as TaxPayerSettings);
+      setShowPayerForm(false);
+      setSuccess('Payer details saved.');
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save payer details');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleDownloadFire() {
+    if (!payer) return;
+    setError(null);
+    try {
+      const content = buildFireFile({ year, payer, payments, testFile });
+      const url = URL.createObjectURL(new Blob([content], { type: 'text/plain' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `1099NEC_${year}_${entity}${testFile ? '_TEST' : ''}.txt`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to build FIRE file');
+    }
+  }
+
+  function handlePrintCopyB() {
+    if (!payer) return;
+    const win = window.open('', '_blank');
+    if (!win) {
+      setError('Allow pop-ups for this site to print Copy B.');
+      return;
+    }
+    win.document.write(buildCopyBHtml(year, payer, payments));
+    win.document.close();
+    win.focus();
+    win.print();
+  }
+
+  return (
+    <div className="tax-subsection">
+      <h4>E-file (IRS FIRE) - {ENTITY_LABELS[entity]}</h4>
+
+      {error && <div className="alert alert--error">{error}</div>}
+      {success && <div className="alert alert--success">{success}</div>}
+
+      {showPayerForm ? (
+        <>
+          <div className="form-grid">
+            {PAYER_FIELDS.map(({ key, label }) => (
+              <label key={key} className="form-label">
+                {label}
+                <input
+                  type="text"
+                  value={form[key] ?? ''}
+                  onChange={(e) => setForm((prev) => ({ ...prev, [key]: e.target.value }))}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="detail-panel__footer">
+            {payer && (
+              <button type="button" className="btn" onClick={() => setShowPayerForm(false)} disabled={saving}>
+                Cancel
+              </button>
+            )}
+            <button type="button" onClick={handleSavePayer} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Payer Details'}
+            </button>
+          </div>
+        </>
+      ) : (
+        payer && (
+          <p className="tax-note">
+            Payer: {payer.name}, EIN {payer.tin ?? 'not set'}.{' '}
+            <button type="button" className="btn-link" onClick={() => setShowPayerForm(true)}>
+              Edit payer details
+            </button>
+          </p>
+        )
+      )}
+
+      {belowThreshold > 0 && (
+        <p className="tax-note">
+          {belowThreshold} installer{belowThreshold === 1 ? ' was' : 's were'} paid less than ${NEC_THRESHOLD} and
+          need no form.
+        </p>
+      )}
+
+      {issues.length > 0 ? (
+        <div className="alert alert--error">
+          Fix these before filing:
+          <ul>
+            {issues.map((issue, i) => (
+              <li key={i}>
+                {issue.name}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="tax-note">
+          {recipients.length} form{recipients.length === 1 ? '' : 's'} ready to file.
+        </p>
+      )}
+
+      <div className="detail-panel__footer">
+        <label className="form-label form-label--inline">
+          <input type="checkbox" checked={testFile} onChange={(e) => setTestFile(e.target.checked)} />
+          Test file
+        </label>
+        <button type="button" className="btn" onClick={handlePrintCopyB} disabled={issues.length > 0}>
+          Print Copy B
+        </button>
+        <button type="button" onClick={handleDownloadFire} disabled={issues.length > 0 || recipients.length === 0}>
+          Download FIRE File
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import {
   classifyLine,
   type ClassifiableLineInput,
 } from '../../utils/accounts';
+import { matchesEntity, type EntityFilter } from '../../utils/entities';
+import { EntitySelect } from '../shared/EntitySelect';
 
 type RawLine = ClassifiableLineInput & {
   id: number;
@@ -77,6 +79,7 @@ function deriveBucketTotals(bucket: MonthlyBucket): void {
 
 export function ProfitSummary() {
   const [year, setYear] = useState<number>(new Date().getFullYear());
+  const [entity, setEntity] = useState<EntityFilter>('all');
   const [lines, setLines] = useState<RawLine[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -102,6 +105,8 @@ export function ProfitSummary() {
             accounts (
               name,
               code,
+              mixed_allocation,
+              entity,
               account_types (name)
             ),
             transactions!inner (date)
@@ -139,10 +144,11 @@ export function ProfitSummary() {
 
       const rawAmount = Number(line.amount) || 0;
       const classification = classifyLine(line);
+      if (!matchesEntity(classification.entity, entity)) continue;
 
       // INCOME: use absolute value (income lines are negative credits in double-entry)
       if (classification.incomeCategory) {
-        const amt = Math.abs(rawAmount);
+        const amt = Math.abs(rawAmount) * classification.businessShare;
         if (classification.isBusiness) {
           if (classification.incomeCategory === 'rental') {
             bucket.rentalIncome += amt;
@@ -153,12 +159,14 @@ export function ProfitSummary() {
         // Personal income not tracked in P&L
       }
 
-      // EXPENSES: use signed amount (so refunds/credits offset debits)
+      // EXPENSES: use signed amount (so refunds/credits offset debits);
+      // a mixed line's personal share is counted as personal
       if (classification.expenseCategory) {
-        const amt = rawAmount;
+        const amt = rawAmount * classification.businessShare;
         if (classification.isPersonal) {
-          bucket.personal += amt;
+          bucket.personal += rawAmount;
         } else if (classification.isBusiness) {
+          bucket.personal += rawAmount - amt;
           if (classification.expenseCategory === 'flip') {
             // Flip expenses are inventory (capitalized), tracked separately
             bucket.flipExpenses += amt;
@@ -181,7 +189,7 @@ export function ProfitSummary() {
     }
 
     return buckets;
-  }, [lines]);
+  }, [lines, entity]);
 
   // Aggregate monthly buckets into quarterly totals
   const quarterlyBuckets = useMemo<MonthlyBucket[]>(() => {
@@ -383,6 +391,10 @@ export function ProfitSummary() {
             ))}
           </select>
         </label>
+        <label className="profit-year-select">
+          Entity:
+          <EntitySelect value={entity} onChange={setEntity} />
+        </label>
       </div>
 
       {/* Monthly table */}
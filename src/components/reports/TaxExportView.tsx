@@ -1,7 +1,17 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabaseClient';
 import { formatCurrency } from '../../utils/format';
-import { isRentalIncomeCode, isRentalExpenseCode, isFlipExpenseCode } from '../../utils/accounts';
+import { classifyLine, isRentalIncomeCode, isRentalExpenseCode, isFlipExpenseCode, type Purpose } from '../../utils/accounts';
+import { matchesEntity, type EntityFilter } from '../../utils/entities';
+import { EntitySelect } from '../shared/EntitySelect';
+import { NEC_THRESHOLD, recipientIssues, recipientsForFiling, type ContractorPayment } from '../../utils/form1099';
+import type { TinType } from '../../utils/w9';
+import { Form1099Panel } from './Form1099Panel';
+import { loadRentalDepreciation } from '../real-estate/rentalDepreciation';
+import { loadEntityContext } from '../shared/entityContext';
+import { rentalDepreciationSummary, type DepreciationYearSummary } from '../../utils/depreciation';
+import { loadFixedAssets } from '../fixed-assets/fixedAssetPosting';
+import { fixedAssetYearSummary, type FixedAssetYearSummary } from '../../utils/fixedAssets';
 import * as XLSX from 'xlsx';
 
 // Raw query shapes from Supabase
@@ -9,12 +19,14 @@ type RawTaxLine = {
   id: number;
   account_id: number;
   amount: number;
-  purpose: string | null;
+  purpose: Purpose | null;
   job_id: number | null;
   installer_id: number | null;
   accounts: {
     name: string;
     code: string | null;
+    mixed_allocation: unknown;
+    entity: string | null;
     account_types: { name: string } | null;
   } | null;
   transactions: { date: string } | null;
@@ -23,12 +35,15 @@ type RawTaxLine = {
 type RawContractorPaymentLine = {
   amount: number;
   installer_id: number;
+  accounts: { entity: string | null } | null;
   installers: {
     first_name: string | null;
     last_name: string | null;
     company_name: string | null;
     tax_id: string | null;
     address: string | null;
+    tin_type: TinType | null;
+    w9_received_on: string | null;
   } | null;
   transactions: { date: string } | null;
 };
@@ -41,19 +56,10 @@ type ScheduleCRow = {
   total: number;
 };
 
-type ContractorPayment = {
-  installerId: number;
-  firstName: string;
-  lastName: string;
-  companyName: string | null;
-  taxId: string | null;
-  address: string | null;
-  totalPaid: number;
-};
-
 export function TaxExportView() {
   const currentYear = new Date().getFullYear();
   const [year, setYear] = useState<TaxYear>(currentYear);
+  const [entity, setEntity] = useState<EntityFilter>('all');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -62,12 +68,17 @@ export function TaxExportView() {
   const [scheduleEIncome, setScheduleEIncome] = useState<ScheduleCRow[]>([]);
   const [scheduleEExpenses, setScheduleEExpenses] = useState<ScheduleCRow[]>([]);
   const [flipExpenses, setFlipExpenses] = useState<ScheduleCRow[]>([]);
-  const [contractors, setContractors] = useState<ContractorPayment[]>([]);
+  const [contractorPayments, setContractorPayments] = useState<ContractorPayment[]>([]);
   const [personalExpenses, setPersonalExpenses] = useState<ScheduleCRow[]>([]);
+  const [rentalDepreciation, setRentalDepreciation] = useState<DepreciationYearSummary[]>([]);
+  const [equipmentDepreciation, setEquipmentDepreciation] = useState<FixedAssetYearSummary[]>([]);
 
   useEffect(() => {
     loadTaxData();
-  }, [year]);
+  }, [year, entity]);
+
+  const contractors = recipientsForFiling(contractorPayments);
+  const filingBlockers = recipientIssues(contractorPayments);
 
   async function loadTaxData() {
     setLoading(true);
@@ -86,7 +97,7 @@ export function TaxExportView() {
           purpose,
           job_id,
           installer_id,
-          accounts (name, code, account_types (name)),
+          accounts (name, code, mixed_allocation, entity, account_types (name)),
           transactions!inner (date)
         `)
         .eq('is_cleared', true)
@@ -106,16 +117,19 @@ export function TaxExportView() {
 
       for (const line of lines) {
         const accType = line.accounts?.account_types?.name;
-        const purpose = line.purpose ?? 'business';
+        // Business fraction; a line still stored as mixed follows its account's allocation
+        const { businessShare, entity: lineEntity } = classifyLine(line);
+        if (!matchesEntity(lineEntity, entity)) continue;
         const accountId = line.account_id;
         const accountName = line.accounts?.name ?? 'Unknown';
-        const amount = Math.abs(Number(line.amount) || 0);
-        const signedAmount = Number(line.amount) || 0;
+        const amount = Math.abs(Number(line.amount) || 0) * businessShare;
+        const signedAmount = (Number(line.amount) || 0) * businessShare;
+        const personalAmount = (Number(line.amount) || 0) - signedAmount;
         const code = line.accounts?.code ?? '';
 
         // INCOME - use absolute value (income lines are typically negative in double-entry)
         if (accType === 'income') {
-          if (purpose === 'business' || purpose === 'mixed') {
+          if (businessShare > 0) {
             if (isRentalIncomeCode(code)) {
               let row = schedEIncomeMap.get(accountId);
               if (!row) {
@@ -136,7 +150,7 @@ export function TaxExportView() {
 
         // EXPENSES - use signed amount so credits offset debits
         else if (accType === 'expense') {
-          if (purpose === 'business' || purpose === 'mixed') {
+          if (businessShare > 0) {
             if (isFlipExpenseCode(code)) {
               // Flip expenses - capital costs, not deductible until sale
               let row = flipExpenseMap.get(accountId);
@@ -162,13 +176,14 @@ export function TaxExportView() {
               }
               row.total += signedAmount;
             }
-          } else if (purpose === 'personal') {
+          }
+          if (businessShare < 1) {
             let row = personalExpenseMap.get(accountId);
             if (!row) {
               row = { category: 'Personal Expense', accountName, total: 0 };
               personalExpenseMap.set(accountId, row);
             }
-            row.total += signedAmount;
+            row.total += personalAmount;
           }
         }
       }
@@ -183,6 +198,8 @@ export function TaxExportView() {
       setPersonalExpenses(Array.from(personalExpenseMap.values()).sort(sortByTotal));
 
       await loadContractorPayments();
+      await loadRentalDepreciationSummary();
+      await loadEquipmentDepreciationSummary();
 
       setLoading(false);
     } catch (err: unknown) {
@@ -202,7 +219,8 @@ export function TaxExportView() {
         .select(`
           amount,
           installer_id,
-          installers (first_name, last_name, company_name, tax_id, address),
+          accounts (entity),
+          installers (first_name, last_name, company_name, tax_id, address, tin_type, w9_received_on),
           transactions!inner (date)
         `)
         .eq('is_cleared', true)
@@ -216,6 +234,7 @@ export function TaxExportView() {
       const contractorMap = new Map<number, ContractorPayment>();
 
       for (const payment of payments) {
+        if (!matchesEntity(payment.accounts?.entity, entity)) continue;
         const installerId = payment.installer_id;
         const amount = Number(payment.amount) || 0;
 
@@ -229,6 +248,8 @@ export function TaxExportView() {
             companyName: installer?.company_name ?? null,
             taxId: installer?.tax_id ?? null,
             address: installer?.address ?? null,
+            tinType: installer?.tin_type ?? null,
+            hasW9: installer?.w9_received_on != null,
             totalPaid: 0,
           };
           contractorMap.set(installerId, contractor);
@@ -237,16 +258,41 @@ export function TaxExportView() {
         contractor.totalPaid += amount;
       }
 
-      const contractorList = Array.from(contractorMap.values())
-        .filter((c) => c.totalPaid >= 600)
-        .sort((a, b) => b.totalPaid - a.totalPaid);
-
-      setContractors(contractorList);
+      setContractorPayments(Array.from(contractorMap.values()).sort((a, b) => b.totalPaid - a.totalPaid));
     } catch (err: unknown) {
       console.error('Error loading contractor payments:', err);
     }
   }
 
+  async function loadRentalDepreciationSummary() {
+    try {
+      const [data, entityContext] = await Promise.all([loadRentalDepreciation(), loadEntityContext()]);
+      const rows = rentalDepreciationSummary(data.deals, data.assets, data.postings, year);
+      // A property belongs to the entity of the account its depreciation posts to
+      setRentalDepreciation(
+        rows.filter(
+          (row) =>
+            entity === 'all' ||
+            (row.expenseAccountId != null && matchesEntity(entityContext.accountEntities.get(row.expenseAccountId), entity))
+        )
+      );
+    } catch (err: unknown) {
+      console.error('Error loading rental depreciation:', err);
+    }
+  }
+
+  async function loadEquipmentDepreciationSummary() {
+    try {
+      const [data, entityContext] = await Promise.all([loadFixedAssets(), loadEntityContext()]);
+      const rows = fixedAssetYearSummary(data.assets, data.postings, year);
+      setEquipmentDepreciation(
+        rows.filter((row) => matchesEntity(entityContext.accountEntities.get(row.expenseAccountId), entity))
+      );
+    } catch (err: unknown) {
+      console.error('Error loading equipment depreciation:', err);
+    }
+  }
+
   function generateExcelWorkbook() {
     const wb = XLSX.utils.book_new();
     const data: (string | number | null)[][] = [];
@@ -563,7 +609,7 @@ export function TaxExportView() {
     // 1099-NEC CONTRACTORS
     data.push(['═══════════════════════════════════════════════════════════════']);
     row++;
-    data.push(['1099-NEC CONTRACTOR PAYMENTS ($600+ THRESHOLD)']);
+    data.push([`1099-NEC CONTRACTOR PAYMENTS ($${NEC_THRESHOLD}+ THRESHOLD)`]);
     row++;
     data.push(['═══════════════════════════════════════════════════════════════']);
     row++;
@@ -591,7 +637,7 @@ export function TaxExportView() {
       row++;
       data.push([`${contractors.length} contractor(s) requiring 1099-NEC forms`]);
     } else {
-      data.push(['No contractors paid $600 or more this year.']);
+      data.push([`No contractors paid $${NEC_THRESHOLD} or more this year.`]);
     }
 
     const ws = XLSX.utils.aoa_to_sheet(data);
@@ -683,6 +729,12 @@ export function TaxExportView() {
   const schedEIncomeTotal = scheduleEIncome.reduce((s, r) => s + r.total, 0);
   const schedEExpenseTotal = scheduleEExpenses.reduce((s, r) => s + r.total, 0);
   const schedENet = schedEIncomeTotal - schedEExpenseTotal;
+  const unpostedDepreciation = rentalDepreciation.filter(
+    (r) => r.posted == null || Math.abs(r.posted - r.scheduled) >= 0.01
+  );
+  const unpostedEquipment = equipmentDepreciation.filter(
+    (r) => r.posted == null || Math.abs(r.posted - r.scheduled) >= 0.01
+  );
 
   return (
     <div>
@@ -697,6 +749,10 @@ export function TaxExportView() {
               onChange={(e) => setYear(Number(e.target.value) || currentYear)}
             />
           </label>
+          <label className="tax-year-label">
+            <span>Entity:</span>
+            <EntitySelect value={entity} onChange={setEntity} />
+          </label>
         </div>
 
         <button type="button" onClick={handleDownloadAll} className="btn-primary">
@@ -725,6 +781,25 @@ export function TaxExportView() {
             {scheduleCExpenses.length > 0 && <ReportTable rows={scheduleCExpenses} />}
           </div>
 
+          {equipmentDepreciation.length > 0 && (
+            <div className="tax-subsection--last">
+              <h4>
+                Depreciation and Section 179 (line 13) -{' '}
+                {currency(equipmentDepreciation.reduce((s, r) => s + r.scheduled, 0))}
+              </h4>
+              {unpostedEquipment.length > 0 && (
+                <p className="tax-note">
+                  Business expenses include posted depreciation only. Post or correct {year} depreciation for{' '}
+                  {unpostedEquipment.map((r) => r.name).join(', ')} from Fixed Assets.
+                </p>
+              )}
+              <DepreciationTable
+                label="Asset"
+                rows={equipmentDepreciation.map((r) => ({ key: r.assetId, name: r.name, scheduled: r.scheduled, posted: r.posted }))}
+              />
+            </div>
+          )}
+
           <div className="tax-net-row">
             <span>Schedule C Net Profit/Loss:</span>
             <span className={schedCNet >= 0 ? 'profit-positive' : 'profit-negative'}>
@@ -753,6 +828,22 @@ export function TaxExportView() {
             {scheduleEExpenses.length > 0 && <ReportTable rows={scheduleEExpenses} />}
           </div>
 
+          {rentalDepreciation.length > 0 && (
+            <div className="tax-subsection--last">
+              <h4>Depreciation (Form 4562) - {currency(rentalDepreciation.reduce((s, r) => s + r.scheduled, 0))}</h4>
+              {unpostedDepreciation.length > 0 && (
+                <p className="tax-note">
+                  Rental expenses include posted depreciation only. Post or correct {year} depreciation for{' '}
+                  {unpostedDepreciation.map((r) => r.nickname).join(', ')} from Deals &gt; Manage.
+                </p>
+              )}
+              <DepreciationTable
+                label="Property"
+                rows={rentalDepreciation.map((r) => ({ key: r.dealId, name: r.nickname, scheduled: r.scheduled, posted: r.posted }))}
+              />
+            </div>
+          )}
+
           <div className="tax-net-row">
             <span>Schedule E Net Profit/Loss:</span>
             <span className={schedENet >= 0 ? 'profit-positive' : 'profit-negative'}>
@@ -797,10 +888,10 @@ export function TaxExportView() {
 
       {/* 1099-NEC Contractors */}
       <div className="card tax-section">
-        <h3>1099-NEC Contractor Payments ($600+ threshold)</h3>
+        <h3>1099-NEC Contractor Payments (${NEC_THRESHOLD}+ threshold)</h3>
         {contractors.length === 0 && (
           <p className="tax-empty">
-            No contractors paid $600 or more in {year}.
+            No contractors paid ${NEC_THRESHOLD} or more in {year}.
           </p>
         )}
         {contractors.length > 0 && (
@@ -812,6 +903,28 @@ export function TaxExportView() {
             <ContractorTable contractors={contractors} />
           </>
         )}
+        {filingBlockers.length > 0 && (
+          <div className="tax-subsection">
+            <h4>Blocking 1099 Filing</h4>
+            <table className="table tax-table">
+              <thead>
+                <tr>
+                  <th>Installer</th>
+                  <th>Problem</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filingBlockers.map((issue, idx) => (
+                  <tr key={idx}>
+                    <td>{issue.name}</td>
+                    <td className="text-danger">{issue.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <Form1099Panel year={year} entity={entity} payments={contractorPayments} />
       </div>
     </div>
   );
@@ -840,6 +953,40 @@ function ReportTable({ rows }: { rows: ScheduleCRow[] }) {
   );
 }
 
+type DepreciationTableRow = {
+  key: number;
+  name: string;
+  scheduled: number;
+  posted: number | null;
+};
+
+function DepreciationTable({ label, rows }: { label: string; rows: DepreciationTableRow[] }) {
+  const currency = (value: number) => formatCurrency(value, 2);
+
+  return (
+    <table className="table tax-table">
+      <thead>
+        <tr>
+          <th>{label}</th>
+          <th className="right">Scheduled</th>
+          <th className="right">Posted</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key}>
+            <td>{row.name}</td>
+            <td className="right">{currency(row.scheduled)}</td>
+            <td className={row.posted != null && Math.abs(row.posted - row.scheduled) < 0.01 ? 'right' : 'right text-danger'}>
+              {row.posted == null ? 'Not posted' : currency(row.posted)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
 function ContractorTable({ contractors }: { contractors: ContractorPayment[] }) {
   const currency = (value: number) => formatCurrency(value, 2);
 
@@ -850,6 +997,7 @@ function ContractorTable({ contractors }: { contractors: ContractorPayment[] })
           <th>Name</th>
           <th>Company</th>
           <th>Tax ID</th>
+          <th>W-9</th>
           <th>Address</th>
           <th className="right">Total Paid</th>
         </tr>
@@ -862,6 +1010,7 @@ function ContractorTable({ contractors }: { contractors: ContractorPayment[] })
               <td>{name}</td>
               <td>{c.companyName ?? ''}</td>
               <td>{c.taxId ?? ''}</td>
+              <td className={c.hasW9 ? '' : 'text-danger'}>{c.hasW9 ? 'On file' : 'Missing'}</td>
               <td>{c.address ?? ''}</td>
               <td className="right">{currency(c.totalPaid)}</td>
             </tr>
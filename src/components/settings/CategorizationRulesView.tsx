@@ -0,0 +1,699 @@
+// src/components/settings/CategorizationRulesView.tsx
+
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { ACCOUNT_TYPE_IDS, compareAccountsForSort, isBankCode, isCreditCardCode } from '../../utils/accounts';
+import {
+  CATEGORIZATION_RULE_SELECT,
+  normalizeRule,
+  ruleMatches,
+  validateRule,
+  type CategorizationRule,
+  type RuleDirection,
+  type RulePurpose,
+  type RuleSplit,
+} from '../../utils/categorizationRules';
+import { VendorSelect } from '../shared/VendorSelect';
+import { JobSelect } from '../shared/JobSelect';
+
+type Account = {
+  id: number;
+  code: string | null;
+  name: string;
+  account_type_id: number;
+};
+
+type RuleForm = Omit<CategorizationRule, 'id' | 'priority'>;
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  is_active: true,
+  description_contains: null,
+  description_regex: null,
+  amount_min: null,
+  amount_max: null,
+  direction: null,
+  account_id: null,
+  day_of_month_min: null,
+  day_of_month_max: null,
+  set_vendor_id: null,
+  set_account_id: null,
+  set_job_id: null,
+  set_purpose: null,
+  splits: null,
+};
+
+function toNumberOrNull(value: string): number | null {
+  if (value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function describeRule(rule: CategorizationRule, accountLabel: (id: number | null) => string): string {
+  const parts: string[] = [];
+  if (rule.description_contains) parts.push(`contains "${rule.description_contains}"`);
+  if (rule.description_regex) parts.push(`matches /${rule.description_regex}/`);
+  if (rule.amount_min != null || rule.amount_max != null) {
+    parts.push(`$${rule.amount_min ?? 0}-${rule.amount_max != null ? `$${rule.amount_max}` : 'any'}`);
+  }
+  if (rule.direction) parts.push(rule.direction);
+  if (rule.account_id != null) parts.push(`on ${accountLabel(rule.account_id)}`);
+  if (rule.day_of_month_min != null || rule.day_of_month_max != null) {
+    parts.push(`day ${rule.day_of_month_min ?? 1}-${rule.day_of_month_max ?? 31}`);
+  }
+  return parts.join(', ');
+}
+
+export function CategorizationRulesView() {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [useSplits, setUseSplits] = useState(false);
+
+  // Quick tester
+  const [testDescription, setTestDescription] = useState('');
+  const [testAmount, setTestAmount] = useState('');
+  const [testDate, setTestDate] = useState('');
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // ---------------------------------------------------------------------------
+  // Data Loading
+  // ---------------------------------------------------------------------------
+
+  async function loadRules() {
+    const { data, error: err } = await supabase
+      .from('categorization_rules')
+      .select(CATEGORIZATION_RULE_SELECT)
+      .order('priority', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (err) throw err;
+    setRules(((data ?? []) as unknown as CategorizationRule[]).map(normalizeRule));
+  }
+
+  useEffect(() => {
+    async function loadAll() {
+      setLoading(true);
+      setError(null);
+      try {
+        const { data: acctData, error: acctErr } = await supabase
+          .from('accounts')
+          .select('id, code, name, account_type_id')
+          .eq('is_active', true);
+
+        if (acctErr) throw acctErr;
+        setAccounts(((acctData ?? []) as unknown as Account[]).sort(compareAccountsForSort));
+
+        await loadRules();
+      } catch (err: unknown) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Failed to load rules');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void loadAll();
+  }, []);
+
+  const sourceAccounts = useMemo(
+    () => accounts.filter((a) => isBankCode(a.code) || isCreditCardCode(a.code)),
+    [accounts]
+  );
+  const categoryAccounts = useMemo(
+    () =>
+      accounts.filter(
+        (a) => a.account_type_id === ACCOUNT_TYPE_IDS.EXPENSE || a.account_type_id === ACCOUNT_TYPE_IDS.INCOME
+      ),
+    [accounts]
+  );
+
+  function accountLabel(id: number | null): string {
+    const acct = accounts.find((a) => a.id === id);
+    if (!acct) return id != null ? `#${id}` : '';
+    return acct.code ? `${acct.code} - ${acct.name}` : acct.name;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Form Helpers
+  // ---------------------------------------------------------------------------
+
+  function updateForm<K extends keyof RuleForm>(field: K, value: RuleForm[K]) {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  }
+
+  function selectRule(rule: CategorizationRule) {
+    setIsCreating(false);
+    setSelectedId(rule.id);
+    setForm({
+      name: rule.name,
+      is_active: rule.is_active,
+      description_contains: rule.description_contains,
+      description_regex: rule.description_regex,
+      amount_min: rule.amount_min,
+      amount_max: rule.amount_max,
+      direction: rule.direction,
+      account_id: rule.account_id,
+      day_of_month_min: rule.day_of_month_min,
+      day_of_month_max: rule.day_of_month_max,
+      set_vendor_id: rule.set_vendor_id,
+      set_account_id: rule.set_account_id,
+      set_job_id: rule.set_job_id,
+      set_purpose: rule.set_purpose,
+      splits: rule.splits,
+    });
+    setUseSplits((rule.splits?.length ?? 0) > 0);
+    setError(null);
+    setSuccess(null);
+  }
+
+  function startCreate() {
+    setSelectedId(null);
+    setIsCreating(true);
+    setForm(EMPTY_FORM);
+    setUseSplits(false);
+    setError(null);
+    setSuccess(null);
+  }
+
+  function cancelEdit() {
+    setSelectedId(null);
+    setIsCreating(false);
+    setForm(EMPTY_FORM);
+    setUseSplits(false);
+  }
+
+  function toggleSplits(enabled: boolean) {
+    setUseSplits(enabled);
+    if (enabled && !form.splits?.length) {
+      updateForm('splits', [
+        { account_id: form.set_account_id ?? 0, percent: 50, job_id: null, purpose: null },
+        { account_id: 0, percent: 50, job_id: null, purpose: null },
+      ]);
+    }
+  }
+
+  function updateSplit(index: number, patch: Partial<RuleSplit>) {
+    const splits = (form.splits ?? []).map((s, i) => (i === index ? { ...s, ...patch } : s));
+    updateForm('splits', splits);
+  }
+
+  function addSplit() {
+    updateForm('splits', [...(form.splits ?? []), { account_id: 0, percent: 0, job_id: null, purpose: null }]);
+  }
+
+  function removeSplit(index: number) {
+    updateForm('splits', (form.splits ?? []).filter((_, i) => i !== index));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Save / Delete / Reorder
+  // ---------------------------------------------------------------------------
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+
+    const payload: RuleForm = {
+      ...form,
+      name: form.name.trim(),
+      description_contains: form.description_contains?.trim() || null,
+      description_regex: form.description_regex?.trim() || null,
+      set_account_id: useSplits ? null : form.set_account_id,
+      splits: useSplits ? form.splits : null,
+    };
+
+    const validationError = validateRule(payload);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      if (isCreating) {
+        const nextPriority = rules.length > 0 ? Math.max(...rules.map((r) => r.priority)) + 1 : 1;
+        const { data, error: err } = await supabase
+          .from('categorization_rules')
+          .insert({ ...payload, priority: nextPriority })
+          .select('id')
+          .single();
+
+        if (err) throw err;
+
+        await loadRules();
+        setIsCreating(false);
+        setSelectedId((data as { id: number }).id);
+        setSuccess('Rule created.');
+      } else if (selectedId !== null) {
+        const { error: err } = await supabase
+          .from('categorization_rules')
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq('id', selectedId);
+
+        if (err) throw err;
+
+        await loadRules();
+        setSuccess('Rule updated.');
+      }
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (selectedId === null) return;
+    if (!window.confirm('Delete this rule?')) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const { error: err } = await supabase.from('categorization_rules').delete().eq('id', selectedId);
+      if (err) throw err;
+      cancelEdit();
+      await loadRules();
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to delete rule');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  /** Swap priority with the neighbour above/below, then renumber 1..N */
+  async function moveRule(ruleId: number, direction: -1 | 1) {
+    const index = rules.findIndex((r) => r.id === ruleId);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= rules.length) return;
+
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const renumbered = reordered.map((r, i) => ({ ...r, priority: i + 1 }));
+    setRules(renumbered);
+
+    try {
+      for (const rule of renumbered) {
+        const original = rules.find((r) => r.id === rule.id);
+        if (original?.priority === rule.priority) continue;
+        const { error: err } = await supabase
+          .from('categorization_rules')
+          .update({ priority: rule.priority })
+          .eq('id', rule.id);
+        if (err) throw err;
+      }
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to reorder rules');
+      await loadRules();
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  const isEditing = selectedId !== null || isCreating;
+  const testResult = useMemo(() => {
+    const amount = Number(testAmount);
+    if (!testDescription.trim() || !Number.isFinite(amount) || testAmount.trim() === '') return null;
+    return ruleMatches(
+      { id: selectedId ?? 0, priority: 0, ...form, splits: useSplits ? form.splits : null },
+      {
+        description: testDescription,
+        amount,
+        date: testDate || new Date().toISOString().slice(0, 10),
+        accountId: form.account_id,
+      }
+    );
+  }, [testDescription, testAmount, testDate, form, selectedId, useSplits]);
+
+  if (loading) {
+    return <p>Loading rules...</p>;
+  }
+
+  const splitTotal = (form.splits ?? []).reduce((sum, s) => sum + (Number(s.percent) || 0), 0);
+
+  return (
+    <div>
+      <h2>Bank Rules</h2>
+      <p className="text-muted text-sm">
+        Rules run top to bottom during bank import; the first matching rule fills in vendor, account, job and purpose.
+        Exact merchant mappings are used only when no rule matches.
+      </p>
+
+      <div className="list-detail-layout">
+        {/* Left: Rule list (priority order) */}
+        <div className="list-panel">
+          <div className="list-panel__header">
+            <span className="list-panel__title">Rules</span>
+            <button type="button" onClick={startCreate} className="btn btn-sm">
+              + New
+            </button>
+          </div>
+
+          {rules.length === 0 ? (
+            <div className="list-panel__empty">No rules yet.</div>
+          ) : (
+            <div className="list-panel__content">
+              {rules.map((rule, i) => (
+                <div
+                  key={rule.id}
+                  onClick={() => selectRule(rule)}
+                  className={`list-item rules-list__item ${selectedId === rule.id ? 'list-item--selected' : ''}`}
+                >
+                  <div>
+                    <div className="list-item__name">
+                      {i + 1}. {rule.name}
+                    </div>
+                    <div className="list-item__subtitle">{describeRule(rule, accountLabel)}</div>
+                    {!rule.is_active && <span className="status-badge status-badge--inactive">Inactive</span>}
+                  </div>
+                  <div className="rules-list__move">
+                    <button
+                      type="button"
+                      className="btn-link"
+                      disabled={i === 0}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        void moveRule(rule.id, -1);
+                      }}
+                      title="Move up"
+                    >
+                      ^
+                    </button>
+                    <button
+                      type="button"
+                      className="btn-link"
+                      disabled={i === rules.length - 1}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        void moveRule(rule.id, 1);
+                      }}
+                      title="Move down"
+                    >
+                      v
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Right: Edit form */}
+        <div className="detail-panel">
+          {!isEditing ? (
+            <div className="detail-panel__empty">
+              {error ? <div className="alert alert--error">{error}</div> : null}
+              Select a rule from the list or click "+ New" to create one.
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <div className="detail-panel__header">
+                <h3 className="detail-panel__title">{isCreating ? 'New Rule' : 'Edit Rule'}</h3>
+                <button type="button" onClick={cancelEdit} className="btn-link">
+                  Cancel
+                </button>
+              </div>
+
+              {error && <div className="alert alert--error">{error}</div>}
+              {success && <div className="alert alert--success">{success}</div>}
+
+              <div className="form-grid">
+                <label className="form-label">
+                  Rule Name *
+                  <input type="text" value={form.name} onChange={(e) => updateForm('name', e.target.value)} required />
+                </label>
+
+                <label className="form-label form-label--inline">
+                  <input
+                    type="checkbox"
+                    checked={form.is_active}
+                    onChange={(e) => updateForm('is_active', e.target.checked)}
+                  />
+                  Active
+                </label>
+              </div>
+
+              <h4 className="rules-form__section">Conditions (all must match)</h4>
+              <div className="form-grid">
+                <label className="form-label">
+                  Description contains
+                  <input
+                    type="text"
+                    value={form.description_contains ?? ''}
+                    onChange={(e) => updateForm('description_contains', e.target.value || null)}
+                    placeholder="e.g. GEORGIA POWER"
+                  />
+                </label>
+
+                <label className="form-label">
+                  Description regex
+                  <input
+                    type="text"
+                    value={form.description_regex ?? ''}
+                    onChange={(e) => updateForm('description_regex', e.target.value || null)}
+                    placeholder="e.g. ^(SHELL|QT|RACETRAC)"
+                  />
+                </label>
+
+                <label className="form-label">
+                  Amount from ($)
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={form.amount_min ?? ''}
+                    onChange={(e) => updateForm('amount_min', toNumberOrNull(e.target.value))}
+                  />
+                </label>
+
+                <label className="form-label">
+                  Amount to ($)
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={form.amount_max ?? ''}
+                    onChange={(e) => updateForm('amount_max', toNumberOrNull(e.target.value))}
+                  />
+                </label>
+
+                <label className="form-label">
+                  Direction
+                  <select
+                    value={form.direction ?? ''}
+                    onChange={(e) => updateForm('direction', (e.target.value || null) as RuleDirection | null)}
+                  >
+                    <option value="">Any</option>
+                    <option value="outflow">Money out / charge</option>
+                    <option value="inflow">Money in / refund</option>
+                  </select>
+                </label>
+
+                <label className="form-label">
+                  Imported into account
+                  <select
+                    value={form.account_id ?? ''}
+                    onChange={(e) => updateForm('account_id', e.target.value ? Number(e.target.value) : null)}
+                  >
+                    <option value="">Any account</option>
+                    {sourceAccounts.map((a) => (
+                      <option key={a.id} value={a.id}>
+                        {accountLabel(a.id)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="form-label">
+                  Day of month from
+                  <input
+                    type="number"
+                    min="1"
+                    max="31"
+                    value={form.day_of_month_min ?? ''}
+                    onChange={(e) => updateForm('day_of_month_min', toNumberOrNull(e.target.value))}
+                  />
+                </label>
+
+                <label className="form-label">
+                  Day of month to
+                  <input
+                    type="number"
+                    min="1"
+                    max="31"
+                    value={form.day_of_month_max ?? ''}
+                    onChange={(e) => updateForm('day_of_month_max', toNumberOrNull(e.target.value))}
+                  />
+                </label>
+              </div>
+
+              <h4 className="rules-form__section">Actions</h4>
+              <div className="form-grid">
+                <label className="form-label">
+                  Vendor
+                  <VendorSelect value={form.set_vendor_id} onChange={(id) => updateForm('set_vendor_id', id)} />
+                </label>
+
+                <label className="form-label">
+                  Job
+                  <JobSelect value={form.set_job_id} onChange={(id) => updateForm('set_job_id', id)} />
+                </label>
+
+                <label className="form-label">
+                  Purpose
+                  <select
+                    value={form.set_purpose ?? ''}
+                    onChange={(e) => updateForm('set_purpose', (e.target.value || null) as RulePurpose | null)}
+                  >
+                    <option value="">Leave as-is</option>
+                    <option value="business">Business</option>
+                    <option value="personal">Personal</option>
+                  </select>
+                </label>
+
+                <label className="form-label form-label--inline">
+                  <input type="checkbox" checked={useSplits} onChange={(e) => toggleSplits(e.target.checked)} />
+                  Split across several accounts
+                </label>
+
+                {!useSplits && (
+                  <label className="form-label form-grid--full">
+                    Category account
+                    <select
+                      value={form.set_account_id ?? ''}
+                      onChange={(e) => updateForm('set_account_id', e.target.value ? Number(e.target.value) : null)}
+                    >
+                      <option value="">Leave as-is</option>
+                      {categoryAccounts.map((a) => (
+                        <option key={a.id} value={a.id}>
+                          {accountLabel(a.id)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+
+              {useSplits && (
+                <table className="table rules-splits">
+                  <thead>
+                    <tr>
+                      <th>Account</th>
+                      <th className="right">%</th>
+                      <th>Purpose</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(form.splits ?? []).map((split, i) => (
+                      <tr key={i}>
+                        <td>
+                          <select
+                            value={split.account_id || ''}
+                            onChange={(e) => updateSplit(i, { account_id: Number(e.target.value) || 0 })}
+                          >
+                            <option value="">Select account...</option>
+                            {categoryAccounts.map((a) => (
+                              <option key={a.id} value={a.id}>
+                                {accountLabel(a.id)}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="right">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max="100"
+                            className="rules-splits__pct"
+                            value={split.percent}
+                            onChange={(e) => updateSplit(i, { percent: Number(e.target.value) || 0 })}
+                          />
+                        </td>
+                        <td>
+                          <select
+                            value={split.purpose ?? ''}
+                            onChange={(e) => updateSplit(i, { purpose: (e.target.value || null) as RulePurpose | null })}
+                          >
+                            <option value="">Rule default</option>
+                            <option value="business">Business</option>
+                            <option value="personal">Personal</option>
+                          </select>
+                        </td>
+                        <td>
+                          <button type="button" className="btn-link" onClick={() => removeSplit(i)}>
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <td>
+                        <button type="button" className="btn-link" onClick={addSplit}>
+                          + Add line
+                        </button>
+                      </td>
+                      <td className={`right ${Math.abs(splitTotal - 100) > 0.001 ? 'text-danger' : ''}`}>
+                        {splitTotal}%
+                      </td>
+                      <td colSpan={2}></td>
+                    </tr>
+                  </tbody>
+                </table>
+              )}
+
+              <h4 className="rules-form__section">Try it</h4>
+              <div className="form-grid">
+                <label className="form-label form-grid--full">
+                  Bank description
+                  <input type="text" value={testDescription} onChange={(e) => setTestDescription(e.target.value)} />
+                </label>
+                <label className="form-label">
+                  Amount (negative = money out)
+                  <input type="number" step="0.01" value={testAmount} onChange={(e) => setTestAmount(e.target.value)} />
+                </label>
+                <label className="form-label">
+                  Date
+                  <input type="date" value={testDate} onChange={(e) => setTestDate(e.target.value)} />
+                </label>
+              </div>
+              {testResult !== null && (
+                <div className={`alert ${testResult ? 'alert--success' : 'alert--error'} mt-1`}>
+                  {testResult ? 'This rule matches.' : 'This rule does not match.'}
+                </div>
+              )}
+
+              <div className="detail-panel__footer">
+                {!isCreating && (
+                  <button type="button" className="btn" onClick={handleDelete} disabled={saving}>
+                    Delete
+                  </button>
+                )}
+                <button type="submit" disabled={saving}>
+                  {saving ? 'Saving...' : isCreating ? 'Create Rule' : 'Save Changes'}
+                </button>
+              </div>
+
+              {selectedId !== null && <div className="detail-panel__meta">ID: {selectedId}</div>}
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,472 @@
+// src/components/settings/ChartOfAccountsView.tsx
+
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import {
+  ACCOUNT_ENTITIES,
+  ACCOUNT_TYPE_IDS,
+  ENTITY_LABELS,
+  compareAccountsForSort,
+  normalizeEntity,
+  type AccountEntity,
+  type Purpose,
+} from '../../utils/accounts';
+import {
+  ACCOUNT_TYPE_LABELS,
+  CHART_ACCOUNT_SELECT,
+  codeRangeFor,
+  describeCodeRange,
+  mergeTargets,
+  validateChartAccount,
+  type ChartAccount,
+  type ChartAccountForm,
+} from '../../utils/chartOfAccounts';
+
+const EMPTY_FORM: ChartAccountForm = {
+  code: '',
+  name: '',
+  account_type_id: ACCOUNT_TYPE_IDS.EXPENSE,
+  entity: 'llc',
+  purpose_default: 'business',
+  is_active: true,
+};
+
+const ACCOUNT_TYPE_OPTIONS = Object.entries(ACCOUNT_TYPE_LABELS).map(([id, label]) => ({ id: Number(id), label }));
+
+export function ChartOfAccountsView() {
+  const [accounts, setAccounts] = useState<ChartAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<ChartAccountForm>(EMPTY_FORM);
+
+  const [lineCount, setLineCount] = useState<number | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState<number | null>(null);
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // ---------------------------------------------------------------------------
+  // Data Loading
+  // ---------------------------------------------------------------------------
+
+  async function loadAccounts() {
+    const { data, error: err } = await supabase.from('accounts').select(CHART_ACCOUNT_SELECT);
+    if (err) throw err;
+    const rows = (data ?? []) as unknown as (Omit<ChartAccount, 'entity'> & { entity: string | null })[];
+    setAccounts(rows.map((a) => ({ ...a, entity: normalizeEntity(a.entity) })).sort(compareAccountsForSort));
+  }
+
+  useEffect(() => {
+    async function loadAll() {
+      setLoading(true);
+      setError(null);
+      try {
+        await loadAccounts();
+      } catch (err: unknown) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Failed to load accounts');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void loadAll();
+  }, []);
+
+  // Lines posted to the selected account, shown before a merge
+  useEffect(() => {
+    const accountId = selectedId;
+    if (accountId === null) {
+      setLineCount(null);
+      return;
+    }
+    let cancelled = false;
+    async function loadLineCount() {
+      const { count, error: err } = await supabase
+        .from('transaction_lines')
+        .select('id', { count: 'exact', head: true })
+        .eq('account_id', accountId);
+      if (cancelled) return;
+      if (err) {
+        console.error(err);
+        setLineCount(null);
+      } else {
+        setLineCount(count ?? 0);
+      }
+    }
+    void loadLineCount();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, accounts]);
+
+  const filteredAccounts = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return accounts.filter(
+      (a) =>
+        (showInactive || a.is_active) &&
+        (!term || a.name.toLowerCase().includes(term) || (a.code ?? '').includes(term))
+    );
+  }, [accounts, search, showInactive]);
+
+  const selected = accounts.find((a) => a.id === selectedId) ?? null;
+  const targets = useMemo(() => (selected ? mergeTargets(selected, accounts) : []), [selected, accounts]);
+  const codeRange = codeRangeFor(form.code);
+
+  function accountLabel(account: ChartAccount): string {
+    return account.code ? `${account.code} - ${account.name}` : account.name;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Form Helpers
+  // ---------------------------------------------------------------------------
+
+  function selectAccount(account: ChartAccount) {
+    setIsCreating(false);
+    setSelectedId(account.id);
+    setForm({
+      code: account.code ?? '',
+      name: account.name,
+      account_type_id: account.account_type_id,
+      entity: account.entity,
+      purpose_default: account.purpose_default,
+      is_active: account.is_active,
+    });
+    setMergeTargetId(null);
+    setError(null);
+    setSuccess(null);
+  }
+
+  function startCreate() {
+    setIsCreating(true);
+    setSelectedId(null);
+    setForm(EMPTY_FORM);
+    setMergeTargetId(null);
+    setError(null);
+    setSuccess(null);
+  }
+
+  function cancelEdit() {
+    setIsCreating(false);
+    setSelectedId(null);
+    setForm(EMPTY_FORM);
+  }
+
+  function updateForm<K extends keyof ChartAccountForm>(key: K, value: ChartAccountForm[K]) {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  }
+
+  /** New accounts take their type and entity from the code range they fall in */
+  function handleCodeChange(code: string) {
+    const range = isCreating ? codeRangeFor(code) : null;
+    setForm((prev) =>
+      range ? { ...prev, code, account_type_id: range.accountTypeId, entity: range.entity } : { ...prev, code }
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Save / Deactivate / Merge
+  // ---------------------------------------------------------------------------
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+
+    const validationError = validateChartAccount(form, accounts, selectedId);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const payload = {
+      code: form.code?.trim() || null,
+      name: form.name.trim(),
+      account_type_id: form.account_type_id,
+      entity: form.entity,
+      purpose_default: form.purpose_default,
+      is_active: form.is_active,
+    };
+
+    setSaving(true);
+    try {
+      if (isCreating) {
+        const { data, error: err } = await supabase.from('accounts').insert(payload).select('id').single();
+        if (err) throw err;
+        await loadAccounts();
+        setIsCreating(false);
+        setSelectedId((data as { id: number }).id);
+        setSuccess('Account created.');
+      } else {
+        const { error: err } = await supabase.from('accounts').update(payload).eq('id', selectedId);
+        if (err) throw err;
+        await loadAccounts();
+        setSuccess('Account saved.');
+      }
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save account');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggleActive() {
+    if (!selected) return;
+    const nextActive = !selected.is_active;
+    if (!nextActive && !window.confirm(`Deactivate ${accountLabel(selected)}? It will no longer appear in entry forms.`)) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const { error: err } = await supabase.from('accounts').update({ is_active: nextActive }).eq('id', selected.id);
+      if (err) throw err;
+      await loadAccounts();
+      setForm((prev) => ({ ...prev, is_active: nextActive }));
+      setSuccess(nextActive ? 'Account reactivated.' : 'Account deactivated.');
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to update account');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleMerge() {
+    const target = accounts.find((a) => a.id === mergeTargetId);
+    if (!selected || !target) return;
+    const confirmed = window.confirm(
+      `Merge ${accountLabel(selected)} into ${accountLabel(target)}?\n\n` +
+        `All ${lineCount ?? ''} transaction lines, rules, schedules and mappings on ${selected.name} move to ` +
+        `${target.name}, including lines in closed periods. ${selected.name} is then deactivated. This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const { data, error: err } = await supabase.rpc('merge_accounts', {
+        p_source_id: selected.id,
+        p_target_id: target.id,
+      });
+      if (err) throw err;
+      await loadAccounts();
+      selectAccount(target);
+      setSuccess(`Merged ${selected.name} into ${target.name}; ${Number(data) || 0} transaction lines moved.`);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to merge accounts');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  if (loading) {
+    return <p>Loading accounts...</p>;
+  }
+
+  const isEditing = selectedId !== null || isCreating;
+
+  return (
+    <div>
+      <h2>Chart of Accounts</h2>
+      <p className="text-muted text-sm">
+        Account codes must fall in a known range, and the range decides the account type (for example 50000-54999 is
+        overhead expense). Merge a duplicate into the account you keep to move its history over.
+      </p>
+
+      <div className="list-detail-layout">
+        {/* Left: Account list */}
+        <div className="list-panel">
+          <div className="list-panel__header">
+            <span className="list-panel__title">Accounts</span>
+            <button type="button" onClick={startCreate} className="btn btn-sm">
+              + New
+            </button>
+          </div>
+
+          <div className="list-panel__filter">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search code or name..."
+            />
+            <label className="filter-label--sm">
+              <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+              Show inactive
+            </label>
+          </div>
+
+          {filteredAccounts.length === 0 ? (
+            <div className="list-panel__empty">No accounts found.</div>
+          ) : (
+            <div className="list-panel__content">
+              {filteredAccounts.map((account) => (
+                <div
+                  key={account.id}
+                  onClick={() => selectAccount(account)}
+                  className={`list-item ${selectedId === account.id ? 'list-item--selected' : ''}`}
+                >
+                  <div className="list-item__name">{accountLabel(account)}</div>
+                  <div className="list-item__subtitle">
+                    {ACCOUNT_TYPE_LABELS[account.account_type_id] ?? 'Unknown type'} - {ENTITY_LABELS[account.entity]}
+                  </div>
+                  {!account.is_active && <span className="status-badge status-badge--inactive">Inactive</span>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Right: Edit form */}
+        <div className="detail-panel">
+          {!isEditing ? (
+            <div className="detail-panel__empty">
+              {error ? <div className="alert alert--error">{error}</div> : null}
+              Select an account from the list or click "+ New" to create one.
+            </div>
+          ) : (
+            <>
+              <form onSubmit={handleSubmit}>
+                <div className="detail-panel__header">
+                  <h3 className="detail-panel__title">{isCreating ? 'New Account' : 'Edit Account'}</h3>
+                  <button type="button" onClick={cancelEdit} className="btn-link">
+                    Cancel
+                  </button>
+                </div>
+
+                {error && <div className="alert alert--error">{error}</div>}
+                {success && <div className="alert alert--success">{success}</div>}
+
+                <div className="form-grid">
+                  <label className="form-label">
+                    Code *
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={form.code ?? ''}
+                      onChange={(e) => handleCodeChange(e.target.value)}
+                      required
+                    />
+                    <span className="text-muted text-sm">
+                      {codeRange ? describeCodeRange(codeRange) : 'Outside every code range'}
+                    </span>
+                  </label>
+
+                  <label className="form-label">
+                    Name *
+                    <input type="text" value={form.name} onChange={(e) => updateForm('name', e.target.value)} required />
+                  </label>
+
+                  <label className="form-label">
+                    Type
+                    <select
+                      value={form.account_type_id}
+                      onChange={(e) => updateForm('account_type_id', Number(e.target.value))}
+                    >
+                      {ACCOUNT_TYPE_OPTIONS.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="form-label">
+                    Entity
+                    <select value={form.entity} onChange={(e) => updateForm('entity', e.target.value as AccountEntity)}>
+                      {ACCOUNT_ENTITIES.map((entity) => (
+                        <option key={entity} value={entity}>
+                          {ENTITY_LABELS[entity]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="form-label">
+                    Default purpose
+                    <select
+                      value={form.purpose_default ?? ''}
+                      onChange={(e) => updateForm('purpose_default', (e.target.value || null) as Purpose | null)}
+                    >
+                      <option value="">None</option>
+                      <option value="business">Business</option>
+                      <option value="personal">Personal</option>
+                      <option value="mixed">Mixed</option>
+                    </select>
+                  </label>
+
+                  <label className="form-label form-label--inline">
+                    <input
+                      type="checkbox"
+                      checked={form.is_active}
+                      onChange={(e) => updateForm('is_active', e.target.checked)}
+                    />
+                    Active
+                  </label>
+                </div>
+
+                <div className="detail-panel__footer">
+                  {selected && (
+                    <button type="button" className="btn" onClick={handleToggleActive} disabled={saving}>
+                      {selected.is_active ? 'Deactivate' : 'Reactivate'}
+                    </button>
+                  )}
+                  <button type="submit" disabled={saving}>
+                    {saving ? 'Saving...' : isCreating ? 'Create Account' : 'Save Account'}
+                  </button>
+                </div>
+              </form>
+
+              {selected && (
+                <div>
+                  <h4>Merge Into Another Account</h4>
+                  <p className="text-muted text-sm">
+                    {lineCount === null ? 'Counting lines...' : `${lineCount} transaction lines post to this account.`}{' '}
+                    Only active accounts of the same type and entity are listed.
+                  </p>
+                  <div className="form-grid">
+                    <label className="form-label">
+                      Merge into
+                      <select
+                        value={mergeTargetId ?? ''}
+                        onChange={(e) => setMergeTargetId(e.target.value ? Number(e.target.value) : null)}
+                      >
+                        <option value="">Choose account...</option>
+                        {targets.map((a) => (
+                          <option key={a.id} value={a.id}>
+                            {accountLabel(a)}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                  <div className="detail-panel__footer">
+                    <button type="button" onClick={handleMerge} disabled={saving || mergeTargetId === null}>
+                      Merge Accounts
+                    </button>
+                  </div>
+                  <div className="detail-panel__meta">Account ID: {selected.id}</div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
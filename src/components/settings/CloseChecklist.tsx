@@ -0,0 +1,234 @@
+// src/components/settings/CloseChecklist.tsx
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { formatMoney } from '../../utils/format';
+import { formatLocalDate, todayLocalISO } from '../../utils/date';
+import { periodDateRange } from '../../utils/periodClose';
+import {
+  CLOSE_CHECK_DEAL_SELECT,
+  CLOSE_CHECK_IMPORT_SELECT,
+  CLOSE_CHECK_LINE_SELECT,
+  DEFAULT_UNCLEARED_MAX_AGE_DAYS,
+  checkMortgagePayments,
+  checkRentPosted,
+  checkUnbalancedTransactions,
+  checkUnclearedLines,
+  checkUncategorizedImports,
+  checkUnsettledCc,
+  type CloseCheckDeal,
+  type CloseCheckImport,
+  type CloseCheckLine,
+  type CloseCheckResult,
+  type CloseCheckView,
+} from '../../utils/closeChecklist';
+
+const VIEW_LABELS: Record<CloseCheckView, string> = {
+  ledger: 'Open Ledger',
+  rentals: 'Open Rentals',
+  deals: 'Open Manage Deals',
+  plaid: 'Open Bank Sync',
+};
+
+/** Items listed per check before "and N more" */
+const MAX_ITEMS_SHOWN = 25;
+
+/** Rows per request; PostgREST caps a response at 1000 by default */
+const LINE_PAGE_SIZE = 1000;
+
+/**
+ * Every transaction line dated in [start, end], fetched page by page
+ */
+async function loadPeriodLines(start: string, end: string): Promise<CloseCheckLine[]> {
+  const lines: CloseCheckLine[] = [];
+  for (let from = 0; ; from += LINE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transaction_lines')
+      .select(CLOSE_CHECK_LINE_SELECT)
+      .gte('transactions.date', start)
+      .lte('transactions.date', end)
+      .order('id')
+      .range(from, from + LINE_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    const page = (data ?? []) as unknown as CloseCheckLine[];
+    lines.push(...page);
+    if (page.length < LINE_PAGE_SIZE) return lines;
+  }
+}
+
+type CloseChecklistProps = {
+  yearMonth: string;
+  /**
+   * Called with the latest results, or null while checks are running.
+   * Should be memoized; the checks re-run when it changes.
+   */
+  onResultsChange: (results: CloseCheckResult[] | null) => void;
+  onNavigate?: (view: CloseCheckView) => void;
+};
+
+/**
+ * Pre-close checks for one period, each with pass/fail and the items behind it
+ */
+export function CloseChecklist({ yearMonth, onResultsChange, onNavigate }: CloseChecklistProps) {
+  const [maxAgeDays, setMaxAgeDays] = useState(DEFAULT_UNCLEARED_MAX_AGE_DAYS);
+  const [results, setResults] = useState<CloseCheckResult[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const runChecks = useCallback(async () => {
+    setRunning(true);
+    setError(null);
+    onResultsChange(null);
+
+    try {
+      const { start, end } = periodDateRange(yearMonth);
+
+      const [lines, dealsRes, importsRes] = await Promise.all([
+        loadPeriodLines(start, end),
+        supabase.from('real_estate_deals').select(CLOSE_CHECK_DEAL_SELECT),
+        supabase
+          .from('plaid_transactions')
+          .select(CLOSE_CHECK_IMPORT_SELECT)
+          .eq('status', 'active')
+          .eq('pending', false)
+          .is('ledger_transaction_id', null)
+          .gte('date', start)
+          .lte('date', end)
+          .order('date'),
+      ]);
+
+      if (dealsRes.error) throw dealsRes.error;
+      if (importsRes.error) throw importsRes.error;
+
+      const deals = (dealsRes.data ?? []) as unknown as CloseCheckDeal[];
+      const imports = (importsRes.data ?? []) as unknown as CloseCheckImport[];
+
+      const next = [
+        checkUnclearedLines(lines, todayLocalISO(), maxAgeDays),
+        checkUnbalancedTransactions(lines),
+        checkUnsettledCc(lines),
+        checkRentPosted(deals, lines, yearMonth),
+        checkMortgagePayments(deals, lines, yearMonth),
+        checkUncategorizedImports(imports),
+      ];
+      setResults(next);
+      onResultsChange(next);
+    } catch (err: unknown) {
+      console.error('Close checks failed:', err);
+      setResults(null);
+      setError(err instanceof Error ? err.message : 'Failed to run close checks');
+    } finally {
+      setRunning(false);
+    }
+  }, [yearMonth, maxAgeDays, onResultsChange]);
+
+  useEffect(() => {
+    setExpanded(new Set());
+    void runChecks();
+  }, [runChecks]);
+
+  function toggleExpanded(id: string) {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  const failedCount = results?.filter((r) => !r.passed).length ?? 0;
+
+  return (
+    <div className="close-checklist">
+      <div className="close-checklist__header">
+        <span className="font-medium text-sm">
+          Pre-close checklist
+          {results && (
+            <span className={`badge ${failedCount === 0 ? 'badge-success' : 'badge-danger'} ml-2`}>
+              {failedCount === 0 ? 'All passed' : `${failedCount} failed`}
+            </span>
+          )}
+        </span>
+        <label className="text-sm">
+          Uncleared older than{' '}
+          <input
+            type="number"
+            min={0}
+            value={maxAgeDays}
+            onChange={(e) => setMaxAgeDays(Math.max(0, Number(e.target.value) || 0))}
+            className="close-checklist__days"
+          />{' '}
+          days
+        </label>
+        <button type="button" className="btn btn-sm" onClick={() => void runChecks()} disabled={running}>
+          {running ? 'Checking...' : 'Re-run checks'}
+        </button>
+      </div>
+
+      {error && <p className="text-negative text-sm">{error}</p>}
+
+      {running && !results && <p className="text-sm text-muted">Running checks...</p>}
+
+      {results && (
+        <ul className="close-checklist__list">
+          {results.map((check) => {
+            const isOpen = expanded.has(check.id);
+            return (
+              <li key={check.id} className="close-checklist__item">
+                <div className="close-checklist__row">
+                  <span
+                    className={`close-checklist__status ${
+                      check.passed ? 'close-checklist__status--pass' : 'close-checklist__status--fail'
+                    }`}
+                  >
+                    {check.passed ? 'PASS' : 'FAIL'}
+                  </span>
+                  <span className="close-checklist__label">{check.label}</span>
+                  <span className="text-sm text-muted">{check.summary}</span>
+                  {!check.passed && (
+                    <button type="button" className="btn-link text-sm" onClick={() => toggleExpanded(check.id)}>
+                      {isOpen ? 'Hide' : 'Show'}
+                    </button>
+                  )}
+                  {!check.passed && onNavigate && (
+                    <button type="button" className="btn-link text-sm" onClick={() => onNavigate(check.view)}>
+                      {VIEW_LABELS[check.view]}
+                    </button>
+                  )}
+                </div>
+
+                {isOpen && (
+                  <table className="table close-checklist__details">
+                    <tbody>
+                      {check.items.slice(0, MAX_ITEMS_SHOWN).map((item) => (
+                        <tr key={item.key}>
+                          <td className="text-muted">{formatLocalDate(item.date) || '-'}</td>
+                          <td>
+                            {item.description}
+                            {item.transactionId != null && (
+                              <span className="text-muted text-xs"> #{item.transactionId}</span>
+                            )}
+                          </td>
+                          <td className="text-right">{item.amount != null ? formatMoney(item.amount) : ''}</td>
+                        </tr>
+                      ))}
+                      {check.items.length > MAX_ITEMS_SHOWN && (
+                        <tr>
+                          <td colSpan={3} className="text-muted text-sm">
+                            ...and {check.items.length - MAX_ITEMS_SHOWN} more
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
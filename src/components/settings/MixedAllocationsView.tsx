@@ -0,0 +1,322 @@
+// src/components/settings/MixedAllocationsView.tsx
+
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { ACCOUNT_TYPE_IDS, compareAccountsForSort } from '../../utils/accounts';
+import {
+  describeMixedAllocation,
+  normalizeMixedAllocation,
+  validateMixedAllocation,
+  type AllocationPurpose,
+  type MixedAllocationLeg,
+} from '../../utils/mixedAllocation';
+
+type Account = {
+  id: number;
+  code: string | null;
+  name: string;
+  account_type_id: number;
+  purpose_default: string | null;
+  mixed_allocation: MixedAllocationLeg[] | null;
+};
+
+const DEFAULT_LEGS: MixedAllocationLeg[] = [
+  { purpose: 'business', percent: 50, account_id: null },
+  { purpose: 'personal', percent: 50, account_id: null },
+];
+
+export function MixedAllocationsView() {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [legs, setLegs] = useState<MixedAllocationLeg[]>([]);
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // ---------------------------------------------------------------------------
+  // Data Loading
+  // ---------------------------------------------------------------------------
+
+  async function loadAccounts() {
+    const { data, error: err } = await supabase
+      .from('accounts')
+      .select('id, code, name, account_type_id, purpose_default, mixed_allocation')
+      .eq('is_active', true);
+
+    if (err) throw err;
+    const rows = (data ?? []) as unknown as (Omit<Account, 'mixed_allocation'> & { mixed_allocation: unknown })[];
+    setAccounts(
+      rows.map((a) => ({ ...a, mixed_allocation: normalizeMixedAllocation(a.mixed_allocation) })).sort(compareAccountsForSort)
+    );
+  }
+
+  useEffect(() => {
+    async function loadAll() {
+      setLoading(true);
+      setError(null);
+      try {
+        await loadAccounts();
+      } catch (err: unknown) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Failed to load accounts');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void loadAll();
+  }, []);
+
+  /** Accounts defaulting to mixed, plus any that already carry an allocation */
+  const mixedAccounts = useMemo(
+    () => accounts.filter((a) => a.purpose_default === 'mixed' || a.mixed_allocation !== null),
+    [accounts]
+  );
+  const targetAccounts = useMemo(
+    () =>
+      accounts.filter(
+        (a) =>
+          a.id !== selectedId &&
+          (a.account_type_id === ACCOUNT_TYPE_IDS.EXPENSE || a.account_type_id === ACCOUNT_TYPE_IDS.INCOME)
+      ),
+    [accounts, selectedId]
+  );
+  const selected = accounts.find((a) => a.id === selectedId) ?? null;
+
+  function accountLabel(id: number | null): string {
+    const acct = accounts.find((a) => a.id === id);
+    if (!acct) return id != null ? `#${id}` : '';
+    return acct.code ? `${acct.code} - ${acct.name}` : acct.name;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Form Helpers
+  // ---------------------------------------------------------------------------
+
+  function selectAccount(account: Account) {
+    setSelectedId(account.id);
+    setLegs(account.mixed_allocation ?? DEFAULT_LEGS);
+    setError(null);
+    setSuccess(null);
+  }
+
+  function cancelEdit() {
+    setSelectedId(null);
+    setLegs([]);
+  }
+
+  function updateLeg(index: number, patch: Partial<MixedAllocationLeg>) {
+    setLegs((prev) => prev.map((leg, i) => (i === index ? { ...leg, ...patch } : leg)));
+  }
+
+  function addLeg() {
+    setLegs((prev) => [...prev, { purpose: 'business', percent: 0, account_id: null }]);
+  }
+
+  function removeLeg(index: number) {
+    setLegs((prev) => prev.filter((_, i) => i !== index));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Save / Clear
+  // ---------------------------------------------------------------------------
+
+  async function saveAllocation(allocation: MixedAllocationLeg[] | null, message: string) {
+    if (selectedId === null) return;
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const { error: err } = await supabase
+        .from('accounts')
+        .update({ mixed_allocation: allocation })
+        .eq('id', selectedId);
+
+      if (err) throw err;
+
+      await loadAccounts();
+      setSuccess(message);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to save allocation');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+
+    const validationError = validateMixedAllocation(legs);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    await saveAllocation(legs, 'Allocation saved.');
+  }
+
+  async function handleClear() {
+    if (!window.confirm('Remove the allocation? Lines on this account will post as mixed again.')) return;
+    await saveAllocation(null, 'Allocation removed.');
+    setLegs(DEFAULT_LEGS);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  if (loading) {
+    return <p>Loading accounts...</p>;
+  }
+
+  const percentTotal = legs.reduce((sum, leg) => sum + (Number(leg.percent) || 0), 0);
+
+  return (
+    <div>
+      <h2>Mixed Allocations</h2>
+      <p className="text-muted text-sm">
+        Split mixed-purpose costs (phone, truck, home office utilities) by percentage. Any entry form that posts a
+        mixed line to one of these accounts books one line per allocation instead, and the tax reports count only the
+        business share.
+      </p>
+
+      <div className="list-detail-layout">
+        {/* Left: Mixed accounts */}
+        <div className="list-panel">
+          <div className="list-panel__header">
+            <span className="list-panel__title">Mixed Accounts</span>
+          </div>
+
+          {mixedAccounts.length === 0 ? (
+            <div className="list-panel__empty">No accounts default to mixed purpose.</div>
+          ) : (
+            <div className="list-panel__content">
+              {mixedAccounts.map((account) => (
+                <div
+                  key={account.id}
+                  onClick={() => selectAccount(account)}
+                  className={`list-item ${selectedId === account.id ? 'list-item--selected' : ''}`}
+                >
+                  <div className="list-item__name">{accountLabel(account.id)}</div>
+                  <div className="list-item__subtitle">
+                    {account.mixed_allocation
+                      ? describeMixedAllocation(account.mixed_allocation, accountLabel)
+                      : 'No allocation'}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Right: Allocation editor */}
+        <div className="detail-panel">
+          {!selected ? (
+            <div className="detail-panel__empty">
+              {error ? <div className="alert alert--error">{error}</div> : null}
+              Select an account from the list to set its allocation.
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <div className="detail-panel__header">
+                <h3 className="detail-panel__title">{accountLabel(selected.id)}</h3>
+                <button type="button" onClick={cancelEdit} className="btn-link">
+                  Cancel
+                </button>
+              </div>
+
+              {error && <div className="alert alert--error">{error}</div>}
+              {success && <div className="alert alert--success">{success}</div>}
+
+              <table className="table rules-splits">
+                <thead>
+                  <tr>
+                    <th>Purpose</th>
+                    <th className="right">%</th>
+                    <th>Post to</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {legs.map((leg, i) => (
+                    <tr key={i}>
+                      <td>
+                        <select
+                          value={leg.purpose}
+                          onChange={(e) => updateLeg(i, { purpose: e.target.value as AllocationPurpose })}
+                        >
+                          <option value="business">Business</option>
+                          <option value="personal">Personal</option>
+                        </select>
+                      </td>
+                      <td className="right">
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="100"
+                          className="rules-splits__pct"
+                          value={leg.percent}
+                          onChange={(e) => updateLeg(i, { percent: Number(e.target.value) || 0 })}
+                        />
+                      </td>
+                      <td>
+                        <select
+                          value={leg.account_id ?? ''}
+                          onChange={(e) => updateLeg(i, { account_id: e.target.value ? Number(e.target.value) : null })}
+                        >
+                          <option value="">This account</option>
+                          {targetAccounts.map((a) => (
+                            <option key={a.id} value={a.id}>
+                              {accountLabel(a.id)}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        <button type="button" className="btn-link" onClick={() => removeLeg(i)}>
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td>
+                      <button type="button" className="btn-link" onClick={addLeg}>
+                        + Add line
+                      </button>
+                    </td>
+                    <td className={`right ${Math.abs(percentTotal - 100) > 0.001 ? 'text-danger' : ''}`}>
+                      {percentTotal}%
+                    </td>
+                    <td colSpan={2}></td>
+                  </tr>
+                </tbody>
+              </table>
+
+              <div className="detail-panel__footer">
+                {selected.mixed_allocation && (
+                  <button type="button" className="btn" onClick={handleClear} disabled={saving}>
+                    Remove Allocation
+                  </button>
+                )}
+                <button type="submit" disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Allocation'}
+                </button>
+              </div>
+
+              <div className="detail-panel__meta">Account ID: {selected.id}</div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
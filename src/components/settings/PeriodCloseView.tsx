@@ -1,7 +1,11 @@
 // src/components/settings/PeriodCloseView.tsx
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabaseClient';
+import { formatPeriodLabel, nextPeriod } from '../../utils/periodClose';
+import { invalidateClosedPeriod } from '../shared/closedPeriod';
+import type { CloseCheckResult, CloseCheckView } from '../../utils/closeChecklist';
+import { CloseChecklist } from './CloseChecklist';
 
 type ClosedPeriod = {
   year_month: string;
@@ -19,7 +23,12 @@ type RawClosedPeriod = {
   is_latest: boolean;
 };
 
-export function PeriodCloseView() {
+type PeriodCloseViewProps = {
+  /** Drill-down from a failed close check to the view that fixes it */
+  onNavigate?: (view: CloseCheckView) => void;
+};
+
+export function PeriodCloseView({ onNavigate }: PeriodCloseViewProps) {
   const [closedPeriods, setClosedPeriods] = useState<ClosedPeriod[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -31,6 +40,14 @@ export function PeriodCloseView() {
   const [closeError, setCloseError] = useState<string | null>(null);
   const [closeSuccess, setCloseSuccess] = useState<string | null>(null);
 
+  // Pre-close checklist; failures block the close unless explicitly overridden
+  const [checkResults, setCheckResults] = useState<CloseCheckResult[] | null>(null);
+  const [overrideChecks, setOverrideChecks] = useState(false);
+  const handleCheckResults = useCallback((results: CloseCheckResult[] | null) => {
+    setCheckResults(results);
+    setOverrideChecks(false);
+  }, []);
+
   // Reopen form state
   const [reopenReason, setReopenReason] = useState('');
   const [reopening, setReopening] = useState(false);
@@ -57,15 +74,7 @@ export function PeriodCloseView() {
 
       // Calculate next period to close
       if (periods.length > 0) {
-        const latest = periods[0].year_month;
-        const year = parseInt(latest.substring(0, 4), 10);
-        const month = parseInt(latest.substring(5, 7), 10);
-
-        if (month === 12) {
-          setNextPeriodToClose(`${year + 1}-01`);
-        } else {
-          setNextPeriodToClose(`${year}-${String(month + 1).padStart(2, '0')}`);
-        }
+        setNextPeriodToClose(nextPeriod(periods[0].year_month));
       } else {
         // No periods closed yet - default to last month
         const now = new Date();
@@ -83,7 +92,13 @@ export function PeriodCloseView() {
   }
 
   async function handleClosePeriod() {
-    if (!nextPeriodToClose) return;
+    if (!nextPeriodToClose || !checkResults) return;
+
+    const failedChecks = checkResults.filter((r) => !r.passed);
+    if (failedChecks.length > 0 && !overrideChecks) {
+      setCloseError('Resolve the failed checks, or confirm closing with them, before closing the period.');
+      return;
+    }
 
     setClosing(true);
     setCloseError(null);
@@ -93,13 +108,19 @@ export function PeriodCloseView() {
       const { error: err } = await supabase.rpc('close_period', {
         p_year_month: nextPeriodToClose,
         p_closed_by: 'User',
-        p_notes: closeNotes || null,
+        p_notes: failedChecks.length > 0
+          ? [closeNotes, `Closed with failed checks: ${failedChecks.map((r) => r.label).join(', ')}`]
+              .filter(Boolean)
+              .join(' | ')
+          : closeNotes || null,
       });
 
       if (err) throw err;
 
+      invalidateClosedPeriod();
       setCloseSuccess(`Period ${nextPeriodToClose} closed successfully`);
       setCloseNotes('');
+      setOverrideChecks(false);
       await loadClosedPeriods();
     } catch (err: unknown) {
       console.error(err);
@@ -125,6 +146,7 @@ export function PeriodCloseView() {
 
       if (err) throw err;
 
+      invalidateClosedPeriod();
       setCloseSuccess(`Period ${latestPeriod.year_month} reopened`);
       setReopenReason('');
       setShowReopenConfirm(false);
@@ -137,17 +159,8 @@ export function PeriodCloseView() {
     }
   }
 
-  function formatPeriodLabel(yearMonth: string): string {
-    const [year, month] = yearMonth.split('-');
-    const monthNames = [
-      'January', 'February', 'March', 'April', 'May', 'June',
-      'July', 'August', 'September', 'October', 'November', 'December',
-    ];
-    const monthIndex = parseInt(month, 10) - 1;
-    return `${monthNames[monthIndex]} ${year}`;
-  }
-
   const latestClosed = closedPeriods.find((p) => p.is_latest);
+  const failedCheckCount = checkResults?.filter((r) => !r.passed).length ?? 0;
 
   if (loading) {
     return <p>Loading period close status...</p>;
@@ -205,6 +218,26 @@ export function PeriodCloseView() {
           </p>
         </div>
 
+        {nextPeriodToClose && (
+          <div className="mb-4">
+            <CloseChecklist
+              yearMonth={nextPeriodToClose}
+              onResultsChange={handleCheckResults}
+              onNavigate={onNavigate}
+            />
+            {failedCheckCount > 0 && (
+              <label className="close-checklist__override text-sm">
+                <input
+                  type="checkbox"
+                  checked={overrideChecks}
+                  onChange={(e) => setOverrideChecks(e.target.checked)}
+                />
+                Close anyway with {failedCheckCount} failed check(s) - they are recorded in the close notes
+              </label>
+            )}
+          </div>
+        )}
+
         <div className="mb-4">
           <label className="block text-sm font-medium mb-1">Notes (optional)</label>
           <input
@@ -217,7 +250,7 @@ export function PeriodCloseView() {
 
         <button
           onClick={handleClosePeriod}
-          disabled={closing || !nextPeriodToClose}
+          disabled={closing || !nextPeriodToClose || !checkResults || (failedCheckCount > 0 && !overrideChecks)}
           className="btn btn-primary"
         >
           {closing ? 'Closing...' : `Close ${nextPeriodToClose ? formatPeriodLabel(nextPeriodToClose) : ''}`}
@@ -0,0 +1,39 @@
+// src/components/shared/AuditChanges.tsx
+
+import {
+  auditFieldChanges,
+  formatAuditField,
+  formatAuditValue,
+  type AuditEntry,
+  type AuditLookups,
+} from '../../utils/auditLog';
+
+type AuditChangesProps = {
+  entry: AuditEntry;
+  lookups?: AuditLookups;
+};
+
+/**
+ * Field-by-field old -> new values for one audit entry
+ */
+export function AuditChanges({ entry, lookups }: AuditChangesProps) {
+  const changes = auditFieldChanges(entry);
+  if (changes.length === 0) return <span className="text-muted">No field values recorded</span>;
+
+  return (
+    <ul className="audit-changes">
+      {changes.map((c) => (
+        <li key={c.field}>
+          <span className="audit-changes__field">{formatAuditField(c.field)}:</span>{' '}
+          {entry.action !== 'INSERT' && (
+            <span className="audit-changes__old">{formatAuditValue(c.field, c.oldValue, lookups)}</span>
+          )}
+          {entry.action === 'UPDATE' && ' -> '}
+          {entry.action !== 'DELETE' && (
+            <span className="audit-changes__new">{formatAuditValue(c.field, c.newValue, lookups)}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
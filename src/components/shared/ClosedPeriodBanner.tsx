@@ -0,0 +1,44 @@
+// src/components/shared/ClosedPeriodBanner.tsx
+
+import { formatLocalDate } from '../../utils/date';
+import { firstOpenDate, formatPeriodLabel, isDateInClosedPeriod } from '../../utils/periodClose';
+
+type ClosedPeriodBannerProps = {
+  /** Date the user is about to write (YYYY-MM-DD) */
+  date: string | null | undefined;
+  closedThrough: string | null;
+  /** Offer to post as an adjustment on the first open date instead */
+  onPostToOpenPeriod?: (openDate: string) => void;
+  actionLabel?: string;
+  /** Extra explanation under the main message */
+  children?: React.ReactNode;
+};
+
+/**
+ * Lock banner shown when a date falls in a closed period
+ */
+export function ClosedPeriodBanner({
+  date,
+  closedThrough,
+  onPostToOpenPeriod,
+  actionLabel,
+  children,
+}: ClosedPeriodBannerProps) {
+  if (!date || !closedThrough || !isDateInClosedPeriod(date, closedThrough)) return null;
+  const openDate = firstOpenDate(closedThrough)!;
+
+  return (
+    <div className="period-lock" role="alert">
+      <div>
+        <strong>Locked:</strong> {formatPeriodLabel(date.slice(0, 7))} is closed. The books are closed through{' '}
+        {formatPeriodLabel(closedThrough)}, so nothing can be posted on or before that month.
+      </div>
+      {children && <div className="period-lock__detail">{children}</div>}
+      {onPostToOpenPeriod && (
+        <button type="button" className="btn btn-sm" onClick={() => onPostToOpenPeriod(openDate)}>
+          {actionLabel ?? `Post adjustment dated ${formatLocalDate(openDate)}`}
+        </button>
+      )}
+    </div>
+  );
+}
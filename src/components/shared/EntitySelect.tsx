@@ -0,0 +1,32 @@
+// src/components/shared/EntitySelect.tsx
+
+import { ACCOUNT_ENTITIES, ENTITY_LABELS } from '../../utils/accounts';
+import type { EntityFilter } from '../../utils/entities';
+
+type EntitySelectProps = {
+  value: EntityFilter;
+  onChange: (entity: EntityFilter) => void;
+  id?: string;
+  className?: string;
+  disabled?: boolean;
+};
+
+/** Entity filter for reports: one entity's books or all entities */
+export function EntitySelect({ id, value, onChange, className, disabled = false }: EntitySelectProps) {
+  return (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value as EntityFilter)}
+      className={className}
+      disabled={disabled}
+    >
+      <option value="all">All entities</option>
+      {ACCOUNT_ENTITIES.map((entity) => (
+        <option key={entity} value={entity}>
+          {ENTITY_LABELS[entity]}
+        </option>
+      ))}
+    </select>
+  );
+}
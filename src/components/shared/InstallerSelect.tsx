@@ -3,11 +3,14 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabaseClient';
 import { SearchableSelect } from './SearchableSelect';
+import { installerPaymentWarning } from '../../utils/w9';
 
 type Installer = {
   id: number;
   first_name: string | null;
   last_name: string | null;
+  w9_received_on: string | null;
+  backup_withholding: boolean;
 };
 
 type InstallerSelectProps = {
@@ -37,7 +40,7 @@ export function InstallerSelect({
     async function loadInstallers() {
       const { data, error } = await supabase
         .from('installers')
-        .select('id, first_name, last_name')
+        .select('id, first_name, last_name, w9_received_on, backup_withholding')
         .eq('is_active', true)
         .order('first_name');
 
@@ -54,15 +57,22 @@ export function InstallerSelect({
     label: formatInstallerName(i),
   }));
 
+  // Every installer picked here is being paid, so flag missing W-9s
+  const selected = installers.find((i) => i.id === value);
+  const warning = selected ? installerPaymentWarning(selected) : null;
+
   return (
-    <SearchableSelect
-      options={options}
-      value={value}
-      onChange={(val) => onChange(val as number | null)}
-      placeholder={loading ? 'Loading...' : placeholder}
-      emptyLabel={emptyLabel}
-      disabled={disabled || loading}
-    />
+    <>
+      <SearchableSelect
+        options={options}
+        value={value}
+        onChange={(val) => onChange(val as number | null)}
+        placeholder={loading ? 'Loading...' : placeholder}
+        emptyLabel={emptyLabel}
+        disabled={disabled || loading}
+      />
+      {warning && <span className="installer-select__warning">[!] {warning}</span>}
+    </>
   );
 }
 
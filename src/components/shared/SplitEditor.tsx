@@ -0,0 +1,153 @@
+// src/components/shared/SplitEditor.tsx
+
+import type { Purpose } from '../../utils/accounts';
+import { formatMoney } from '../../utils/format';
+import {
+  emptySplitLine,
+  MIN_SPLIT_LINES,
+  parseSplitAmount,
+  splitAllocated,
+  splitRemaining,
+  type SplitLine,
+} from '../../utils/splitTransactions';
+import { SearchableSelect, type SelectOption } from './SearchableSelect';
+import { JobSelect } from './JobSelect';
+import { VendorSelect } from './VendorSelect';
+
+type SplitEditorProps = {
+  /** Cash-side amount the lines must add up to (sign ignored) */
+  total: number;
+  lines: SplitLine[];
+  onChange: (lines: SplitLine[]) => void;
+  accountOptions: SelectOption[];
+  disabled?: boolean;
+};
+
+const PURPOSE_OPTIONS: { value: Purpose; label: string }[] = [
+  { value: 'business', label: 'Business' },
+  { value: 'personal', label: 'Personal' },
+  { value: 'mixed', label: 'Mixed' },
+];
+
+/** Allocates one bank amount across several category lines (Plaid review, bank import, ledger edit) */
+export function SplitEditor({ total, lines, onChange, accountOptions, disabled = false }: SplitEditorProps) {
+  const allocated = splitAllocated(lines);
+  const remaining = splitRemaining(total, lines);
+
+  function updateLine(key: number, changes: Partial<SplitLine>) {
+    onChange(lines.map((l) => (l.key === key ? { ...l, ...changes } : l)));
+  }
+
+  function removeLine(key: number) {
+    if (lines.length > MIN_SPLIT_LINES) onChange(lines.filter((l) => l.key !== key));
+  }
+
+  function addLine() {
+    const last = lines[lines.length - 1];
+    const line = emptySplitLine({ jobId: last?.jobId, vendorId: last?.vendorId, purpose: last?.purpose });
+    onChange([...lines, remaining > 0 ? { ...line, amount: remaining.toFixed(2) } : line]);
+  }
+
+  /** Put whatever is left to allocate on this line */
+  function fillRemainder(line: SplitLine) {
+    const amount = parseSplitAmount(line.amount) + remaining;
+    if (remaining === 0 || amount < 0) return;
+    updateLine(line.key, { amount: amount.toFixed(2) });
+  }
+
+  return (
+    <div className="split-editor">
+      <table className="table split-editor__lines">
+        <thead>
+          <tr>
+            <th>Account</th>
+            <th className="text-right">Amount</th>
+            <th>Job</th>
+            <th>Vendor</th>
+            <th>Purpose</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((line) => (
+            <tr key={line.key}>
+              <td className="split-editor__account">
+                <SearchableSelect
+                  options={accountOptions}
+                  value={line.accountId}
+                  onChange={(val) => updateLine(line.key, { accountId: val != null ? Number(val) : null })}
+                  placeholder="Type to search accounts..."
+                  emptyLabel="Select..."
+                  disabled={disabled}
+                />
+              </td>
+              <td>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={line.amount}
+                  onChange={(e) => updateLine(line.key, { amount: e.target.value })}
+                  onDoubleClick={() => fillRemainder(line)}
+                  title="Double-click to put the remainder on this line"
+                  className="split-editor__amount"
+                  disabled={disabled}
+                />
+              </td>
+              <td className="split-editor__entity">
+                <JobSelect value={line.jobId} onChange={(jobId) => updateLine(line.key, { jobId })} disabled={disabled} />
+              </td>
+              <td className="split-editor__entity">
+                <VendorSelect
+                  value={line.vendorId}
+                  onChange={(vendorId) => updateLine(line.key, { vendorId })}
+                  disabled={disabled}
+                />
+              </td>
+              <td>
+                <select
+                  value={line.purpose}
+                  onChange={(e) => updateLine(line.key, { purpose: e.target.value as Purpose })}
+                  className="transfer-form__input"
+                  disabled={disabled}
+                >
+                  {PURPOSE_OPTIONS.map((p) => (
+                    <option key={p.value} value={p.value}>
+                      {p.label}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <button
+                  type="button"
+                  className="btn-link text-sm"
+                  onClick={() => removeLine(line.key)}
+                  disabled={disabled || lines.length <= MIN_SPLIT_LINES}
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className={`split-editor__totals ${remaining === 0 ? 'split-editor__totals--balanced' : 'split-editor__totals--unbalanced'}`}>
+            <td>
+              <button type="button" className="btn btn-sm" onClick={addLine} disabled={disabled}>
+                + Add line
+              </button>
+            </td>
+            <td className="text-right">{formatMoney(allocated)}</td>
+            <td colSpan={4}>
+              {remaining === 0
+                ? `Allocates the full ${formatMoney(Math.abs(total))}`
+                : remaining > 0
+                  ? `${formatMoney(remaining)} left to allocate`
+                  : `Over by ${formatMoney(-remaining)}`}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+// src/components/shared/TransactionAttachments.tsx
+
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import {
+  ATTACHMENT_ACCEPT,
+  TRANSACTION_ATTACHMENT_SELECT,
+  formatAttachmentSize,
+  isImageAttachment,
+  type TransactionAttachment,
+} from '../../utils/attachments';
+import { deleteTransactionAttachment, uploadTransactionAttachments, useAttachmentUrls } from './attachmentStorage';
+
+type TransactionAttachmentsProps = {
+  transactionId: number;
+  /** Called with the full list after an upload or delete */
+  onChange?: (attachments: TransactionAttachment[]) => void;
+};
+
+/**
+ * Attachment list with thumbnails, upload and delete for one transaction.
+ * Changes are saved immediately, independent of the surrounding form.
+ */
+export function TransactionAttachments({ transactionId, onChange }: TransactionAttachmentsProps) {
+  const [attachments, setAttachments] = useState<TransactionAttachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inputKey, setInputKey] = useState(0);
+
+  const urls = useAttachmentUrls(attachments.map((a) => a.storage_path));
+
+  useEffect(() => {
+    async function loadAttachments() {
+      setLoading(true);
+      try {
+        const { data, error: loadErr } = await supabase
+          .from('transaction_attachments')
+          .select(TRANSACTION_ATTACHMENT_SELECT)
+          .eq('transaction_id', transactionId)
+          .order('created_at');
+        if (loadErr) throw loadErr;
+        setAttachments((data ?? []) as unknown as TransactionAttachment[]);
+      } catch (err: unknown) {
+        console.error('Failed to load attachments:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load attachments');
+      } finally {
+        setLoading(false);
+      }
+    }
+    void loadAttachments();
+  }, [transactionId]);
+
+  function update(next: TransactionAttachment[]) {
+    setAttachments(next);
+    onChange?.(next);
+  }
+
+  async function handleFiles(files: FileList | null) {
+    if (!files || files.length === 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const saved = await uploadTransactionAttachments(transactionId, Array.from(files));
+      update([...attachments, ...saved]);
+    } catch (err: unknown) {
+      console.error('Attachment upload failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload attachment');
+    } finally {
+      setBusy(false);
+      setInputKey((k) => k + 1);
+    }
+  }
+
+  async function handleDelete(attachment: TransactionAttachment) {
+    if (!window.confirm(`Delete ${attachment.file_name}?`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await deleteTransactionAttachment(attachment);
+      update(attachments.filter((a) => a.id !== attachment.id));
+    } catch (err: unknown) {
+      console.error('Attachment delete failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete attachment');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="attachments">
+      {loading ? (
+        <p className="attachments__empty">Loading attachments...</p>
+      ) : attachments.length === 0 ? (
+        <p className="attachments__empty">No receipts or invoices attached.</p>
+      ) : (
+        <ul className="attachments__list">
+          {attachments.map((a) => {
+            const url = urls[a.storage_path];
+            return (
+              <li key={a.id} className="attachments__item">
+                <a href={url} target="_blank" rel="noreferrer" className="attachments__preview" title={a.file_name}>
+                  {isImageAttachment(a) && url ? (
+                    <img src={url} alt={a.file_name} className="attachments__thumb" />
+                  ) : (
+                    <span className="attachments__file-icon">{a.content_type === 'application/pdf' ? 'PDF' : 'FILE'}</span>
+                  )}
+                </a>
+                <div className="attachments__meta">
+                  <span className="attachments__name">{a.file_name}</span>
+                  <span className="attachments__size">
+                    {a.kind} {formatAttachmentSize(a.size_bytes)}
+                  </span>
+                </div>
+                <button
+                  type="button"
+                  className="btn-link"
+                  onClick={() => void handleDelete(a)}
+                  disabled={busy}
+                >
+                  Delete
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <label className={`btn btn-sm attachments__upload ${busy ? 'attachments__upload--busy' : ''}`}>
+        {busy ? 'Uploading...' : 'Attach receipt / invoice'}
+        <input
+          key={inputKey}
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          multiple
+          hidden
+          disabled={busy}
+          onChange={(e) => void handleFiles(e.target.files)}
+        />
+      </label>
+
+      {error && <p className="modal__error">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+// src/components/shared/attachmentStorage.ts
+
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import {
+  ATTACHMENTS_BUCKET,
+  TRANSACTION_ATTACHMENT_SELECT,
+  attachmentStoragePath,
+  defaultAttachmentKind,
+  validateAttachmentFile,
+  type TransactionAttachment,
+} from '../../utils/attachments';
+
+/** Signed URLs are only used for on-screen previews */
+const SIGNED_URL_SECONDS = 60 * 60;
+
+/**
+ * Upload files to Storage and record them against a transaction.
+ * Throws on the first failure; files uploaded before it stay attached.
+ */
+export async function uploadTransactionAttachments(
+  transactionId: number,
+  files: File[]
+): Promise<TransactionAttachment[]> {
+  for (const file of files) {
+    const problem = validateAttachmentFile(file);
+    if (problem) throw new Error(problem);
+  }
+
+  const saved: TransactionAttachment[] = [];
+  for (const file of files) {
+    const path = attachmentStoragePath(transactionId, file.name);
+    const contentType = file.type || null;
+
+    const { error: uploadErr } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(path, file, { contentType: contentType ?? undefined, upsert: false });
+    if (uploadErr) throw uploadErr;
+
+    const { data, error: insertErr } = await supabase
+      .from('transaction_attachments')
+      .insert({
+        transaction_id: transactionId,
+        storage_path: path,
+        file_name: file.name,
+        content_type: contentType,
+        size_bytes: file.size,
+        kind: defaultAttachmentKind(contentType),
+      })
+      .select(TRANSACTION_ATTACHMENT_SELECT)
+      .single();
+    if (insertErr) {
+      // Don't leave an orphaned file behind
+      await supabase.storage.from(ATTACHMENTS_BUCKET).remove([path]);
+      throw insertErr;
+    }
+    saved.push(data as unknown as TransactionAttachment);
+  }
+  return saved;
+}
+
+export async function deleteTransactionAttachment(attachment: { id: number; storage_path: string }): Promise<void> {
+  const { error: rowErr } = await supabase.from('transaction_attachments').delete().eq('id', attachment.id);
+  if (rowErr) throw rowErr;
+
+  const { error: storageErr } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove([attachment.storage_path]);
+  if (storageErr) console.warn('Attachment file not removed from storage:', storageErr);
+}
+
+/**
+ * Signed preview URLs for Storage paths, keyed by path.
+ * Re-signs only when the set of paths changes.
+ */
+export function useAttachmentUrls(paths: string[]): Record<string, string> {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const key = [...new Set(paths)].sort().join('|');
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+
+    async function sign() {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .createSignedUrls(key.split('|'), SIGNED_URL_SECONDS);
+      if (error) {
+        console.warn('Failed to sign attachment URLs:', error);
+        return;
+      }
+      if (cancelled) return;
+      const next: Record<string, string> = {};
+      for (const item of data ?? []) {
+        if (item.path && item.signedUrl) next[item.path] = item.signedUrl;
+      }
+      setUrls((prev) => ({ ...prev, ...next }));
+    }
+    void sign();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return urls;
+}
@@ -0,0 +1,43 @@
+// src/components/shared/auditLookups.ts
+
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import { emptyAuditLookups, type AuditLookups } from '../../utils/auditLog';
+
+type RawNamed = { id: number; name: string | null; code?: string | null };
+
+/**
+ * Account, job and vendor names so audit entries can show names
+ * instead of ids. Failures fall back to ids.
+ */
+export function useAuditLookups(): AuditLookups {
+  const [lookups, setLookups] = useState<AuditLookups>(emptyAuditLookups);
+
+  useEffect(() => {
+    async function load() {
+      const [accountsRes, jobsRes, vendorsRes] = await Promise.all([
+        supabase.from('accounts').select('id, name, code'),
+        supabase.from('jobs').select('id, name'),
+        supabase.from('vendors').select('id, name'),
+      ]);
+
+      const toMap = (rows: RawNamed[] | null, withCode = false) =>
+        new Map(
+          (rows ?? []).map((r) => [r.id, withCode && r.code ? `${r.code} - ${r.name ?? ''}` : r.name ?? String(r.id)])
+        );
+
+      if (accountsRes.error || jobsRes.error || vendorsRes.error) {
+        console.warn('Failed to load audit lookups:', accountsRes.error ?? jobsRes.error ?? vendorsRes.error);
+      }
+
+      setLookups({
+        accounts: toMap(accountsRes.data as RawNamed[] | null, true),
+        jobs: toMap(jobsRes.data as RawNamed[] | null),
+        vendors: toMap(vendorsRes.data as RawNamed[] | null),
+      });
+    }
+    void load();
+  }, []);
+
+  return lookups;
+}
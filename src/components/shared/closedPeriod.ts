@@ -0,0 +1,82 @@
+// src/components/shared/closedPeriod.ts
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import {
+  closedPeriodError,
+  firstOpenDate,
+  isDateInClosedPeriod,
+  openPostingDate,
+} from '../../utils/periodClose';
+
+// One lookup shared by every open form; cleared when a period is closed or reopened
+let closedThroughRequest: Promise<string | null> | null = null;
+
+async function fetchClosedThrough(): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('period_close_status_v')
+    .select('year_month')
+    .eq('is_latest', true)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as { year_month: string } | null)?.year_month ?? null;
+}
+
+export function loadClosedThrough(): Promise<string | null> {
+  if (!closedThroughRequest) {
+    closedThroughRequest = fetchClosedThrough().catch((err: unknown) => {
+      closedThroughRequest = null;
+      throw err;
+    });
+  }
+  return closedThroughRequest;
+}
+
+/** Call after close_period / reopen_period so forms pick up the new lock date */
+export function invalidateClosedPeriod(): void {
+  closedThroughRequest = null;
+}
+
+export type ClosedPeriodGuard = {
+  /** Latest closed month ("YYYY-MM"), or null */
+  closedThrough: string | null;
+  /** First open date - use as `min` on date inputs */
+  minDate: string | undefined;
+  isClosed: (date: string | null | undefined) => boolean;
+  /** Date itself when open, else the first open date */
+  postingDate: (date: string) => string;
+  /** Message for a closed date, or null */
+  errorFor: (date: string | null | undefined) => string | null;
+};
+
+/**
+ * Closed-period guard for forms that write to the ledger. If the lookup
+ * fails the guard stays open and the backend remains the final check.
+ */
+export function useClosedPeriod(): ClosedPeriodGuard {
+  const [closedThrough, setClosedThrough] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadClosedThrough()
+      .then((value) => {
+        if (!cancelled) setClosedThrough(value);
+      })
+      .catch((err: unknown) => console.warn('Failed to load closed periods:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const isClosed = useCallback((date: string | null | undefined) => isDateInClosedPeriod(date, closedThrough), [closedThrough]);
+  const postingDate = useCallback((date: string) => openPostingDate(date, closedThrough), [closedThrough]);
+  const errorFor = useCallback((date: string | null | undefined) => closedPeriodError(date, closedThrough), [closedThrough]);
+
+  return {
+    closedThrough,
+    minDate: firstOpenDate(closedThrough) ?? undefined,
+    isClosed,
+    postingDate,
+    errorFor,
+  };
+}
@@ -0,0 +1,37 @@
+// src/components/shared/entityContext.ts
+
+import { supabase } from '../../lib/supabaseClient';
+import {
+  buildEntityContext,
+  buildIntercompanyLines,
+  ENTITY_ACCOUNT_SELECT,
+  INTERCOMPANY_ACCOUNT_SELECT,
+  type EntityContext,
+  type EntityPostingLine,
+  type IntercompanyAccount,
+  type IntercompanyLine,
+} from '../../utils/entities';
+
+/** Account entities and intercompany account mappings; throws on failure */
+export async function loadEntityContext(): Promise<EntityContext> {
+  const [accountsRes, intercompanyRes] = await Promise.all([
+    supabase.from('accounts').select(ENTITY_ACCOUNT_SELECT),
+    supabase.from('intercompany_accounts').select(INTERCOMPANY_ACCOUNT_SELECT),
+  ]);
+  if (accountsRes.error) throw accountsRes.error;
+  if (intercompanyRes.error) throw intercompanyRes.error;
+  return buildEntityContext(
+    (accountsRes.data ?? []) as unknown as { id: number; entity: string | null }[],
+    (intercompanyRes.data ?? []) as unknown as IntercompanyAccount[]
+  );
+}
+
+/**
+ * Lines plus the due to/due from lines an entry that crosses entities needs.
+ * Loads the context per call; bulk posting should load it once and use
+ * buildIntercompanyLines. Throws when an intercompany account is missing.
+ */
+export async function withIntercompanyLines<T extends EntityPostingLine>(lines: T[]): Promise<(T | IntercompanyLine)[]> {
+  const context = await loadEntityContext();
+  return [...lines, ...buildIntercompanyLines(lines, context)];
+}
@@ -1,4 +1,6 @@
 export { SearchableSelect, type SelectOption } from './SearchableSelect';
 export { VendorSelect } from './VendorSelect';
 export { InstallerSelect, formatInstallerName } from './InstallerSelect';
-export { JobSelect } from './JobSelect';
\ No newline at end of file
+export { JobSelect } from './JobSelect';
+export { SplitEditor } from './SplitEditor';
+export { EntitySelect } from './EntitySelect';
\ No newline at end of file
@@ -0,0 +1,14 @@
+// src/components/shared/mixedAllocations.ts
+
+import { supabase } from '../../lib/supabaseClient';
+import { buildMixedAllocationMap, MIXED_ALLOCATION_SELECT, type MixedAllocationMap } from '../../utils/mixedAllocation';
+
+/** Allocations of every account that has one; throws on failure */
+export async function loadMixedAllocations(): Promise<MixedAllocationMap> {
+  const { data, error } = await supabase
+    .from('accounts')
+    .select(MIXED_ALLOCATION_SELECT)
+    .not('mixed_allocation', 'is', null);
+  if (error) throw error;
+  return buildMixedAllocationMap((data ?? []) as unknown as { id: number; mixed_allocation: unknown }[]);
+}
@@ -1,6 +1,8 @@
 // src/accounts.ts
 // Single source of truth for account codes, ranges, and helpers
 
+import { mixedBusinessShare, normalizeMixedAllocation } from './mixedAllocation';
+
 /**
  * Common types used across the app
  */
@@ -36,6 +38,10 @@ export const ACCOUNT_CODE_RANGES = {
   BANK_MIN: 1000,
   BANK_MAX: 1999,
 
+  // Balance sheet - Fixed assets (equipment, vehicles, accumulated depreciation)
+  FIXED_ASSET_MIN: 15000,
+  FIXED_ASSET_MAX: 15999,
+
   // Balance sheet - Liabilities
   CREDIT_CARD_MIN: 2000,
   CREDIT_CARD_MAX: 2999,
@@ -271,6 +277,10 @@ export function isBankCode(code: string | null | undefined): boolean {
   return isCodeInRange(code, ACCOUNT_CODE_RANGES.BANK_MIN, ACCOUNT_CODE_RANGES.BANK_MAX);
 }
 
+export function isFixedAssetCode(code: string | null | undefined): boolean {
+  return isCodeInRange(code, ACCOUNT_CODE_RANGES.FIXED_ASSET_MIN, ACCOUNT_CODE_RANGES.FIXED_ASSET_MAX);
+}
+
 export function isCreditCardCode(code: string | null | undefined): boolean {
   return isCodeInRange(code, ACCOUNT_CODE_RANGES.CREDIT_CARD_MIN, ACCOUNT_CODE_RANGES.CREDIT_CARD_MAX);
 }
@@ -322,6 +332,27 @@ export function isScheduleECode(code: string | null | undefined): boolean {
   return isRentalIncomeCode(code) || isRealEstateExpenseCode(code);
 }
 
+// -------------------------------------------------------------------
+// Entity (accounts.entity)
+// -------------------------------------------------------------------
+
+/** Books kept in this app: the flooring company, the real estate company, personal */
+export type AccountEntity = 'llc' | 'holdings' | 'personal';
+
+export const ENTITY_LABELS: Record<AccountEntity, string> = {
+  llc: 'Oakerds LLC',
+  holdings: 'Oakerds Holdings LLC',
+  personal: 'Personal',
+};
+
+/** Entities in display order */
+export const ACCOUNT_ENTITIES = Object.keys(ENTITY_LABELS) as AccountEntity[];
+
+/** Entity from a raw accounts.entity value; unknown or missing = LLC (the column default) */
+export function normalizeEntity(raw: unknown): AccountEntity {
+  return raw === 'holdings' || raw === 'personal' ? raw : 'llc';
+}
+
 /**
  * Categorize an expense by its code for dashboard/tax reporting
  * @deprecated Use classifyLine() instead for more granular categorization
@@ -387,6 +418,14 @@ export type LineClassification = {
   incomeCategory: IncomeCategory | null;
   /** For expense lines: the expense category */
   expenseCategory: ExpenseCategoryGranular | null;
+  /**
+   * Fraction (0-1) of the amount that counts as business: 1 for business,
+   * 0 for personal, and the account's allocation for lines still stored as
+   * mixed (1 when the query did not select accounts.mixed_allocation)
+   */
+  businessShare: number;
+  /** Entity whose books the line's account belongs to */
+  entity: AccountEntity;
 };
 
 /**
@@ -400,6 +439,8 @@ export type ClassifiableLineInput = {
   accounts?: {
     name?: string | null;
     code?: string | null;
+    mixed_allocation?: unknown;
+    entity?: string | null;
     account_types?: { name?: string | null } | null;
   } | null;
 };
@@ -431,6 +472,12 @@ export function classifyLine(line: ClassifiableLineInput): LineClassification {
     isPersonal,
     incomeCategory: null,
     expenseCategory: null,
+    businessShare: isPersonal
+      ? 0
+      : purpose === 'mixed'
+        ? mixedBusinessShare(normalizeMixedAllocation(line.accounts?.mixed_allocation))
+        : 1,
+    entity: normalizeEntity(line.accounts?.entity),
   };
 
   // INCOME classification
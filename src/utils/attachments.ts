@@ -0,0 +1,113 @@
+/**
+ * Transaction Attachment Utilities
+ *
+ * Receipts and supplier invoices are stored as files in the private
+ * `attachments` Storage bucket, one transaction_attachments row per file.
+ *
+ * RECEIPT POLICY
+ * - The accountant wants a receipt for every business expense over
+ *   RECEIPT_REQUIRED_OVER. "Business" follows classifyLine() (business or
+ *   mixed purpose); the amount is the transaction's business expense total.
+ */
+
+import { classifyLine, type ClassifiableLineInput } from './accounts';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+export type AttachmentKind = 'receipt' | 'invoice' | 'other';
+
+/** Row from transaction_attachments */
+export type TransactionAttachment = {
+  id: number;
+  transaction_id: number;
+  storage_path: string;
+  file_name: string;
+  content_type: string | null;
+  size_bytes: number | null;
+  kind: AttachmentKind;
+  created_at: string;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const ATTACHMENTS_BUCKET = 'attachments';
+
+/** Business expenses above this amount need a receipt on file */
+export const RECEIPT_REQUIRED_OVER = 75;
+
+/** Largest file accepted for upload (phone photos and scanned PDFs) */
+export const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+/** File input `accept` value: photos and PDFs */
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf';
+
+export const TRANSACTION_ATTACHMENT_SELECT =
+  'id, transaction_id, storage_path, file_name, content_type, size_bytes, kind, created_at';
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+/**
+ * Storage object path for a new upload. The timestamp keeps repeated
+ * uploads of "IMG_0001.jpg" from colliding.
+ */
+export function attachmentStoragePath(transactionId: number, fileName: string, now: Date = new Date()): string {
+  const dot = fileName.lastIndexOf('.');
+  const base = (dot > 0 ? fileName.slice(0, dot) : fileName)
+    .normalize('NFKD')
+    .replace(/[^A-Za-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  const ext = dot > 0 ? fileName.slice(dot + 1).toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+  const stamp = now.toISOString().replace(/[-:.TZ]/g, '');
+  return `transactions/${transactionId}/${stamp}-${base || 'file'}${ext ? `.${ext}` : ''}`;
+}
+
+export function isImageAttachment(attachment: { content_type: string | null }): boolean {
+  return (attachment.content_type ?? '').startsWith('image/');
+}
+
+/** Default kind for a new upload: PDFs are usually supplier invoices */
+export function defaultAttachmentKind(contentType: string | null | undefined): AttachmentKind {
+  return contentType === 'application/pdf' ? 'invoice' : 'receipt';
+}
+
+/** Reason a file can't be uploaded, or null when it's fine */
+export function validateAttachmentFile(file: { name: string; size: number; type: string }): string | null {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`;
+  }
+  if (file.type && !file.type.startsWith('image/') && file.type !== 'application/pdf') {
+    return `${file.name} is not an image or PDF`;
+  }
+  return null;
+}
+
+/** Business expense total across a transaction's lines (debits only) */
+export function businessExpenseTotal(lines: ClassifiableLineInput[]): number {
+  let total = 0;
+  for (const line of lines) {
+    const amount = Number(line.amount) || 0;
+    if (amount <= 0) continue;
+    const c = classifyLine(line);
+    if (c.isBusiness && c.expenseCategory !== null) total += amount;
+  }
+  return Math.round(total * 100) / 100;
+}
+
+/** True when the receipt policy applies to a transaction with these lines */
+export function requiresReceipt(lines: ClassifiableLineInput[]): boolean {
+  return businessExpenseTotal(lines) > RECEIPT_REQUIRED_OVER;
+}
+
+export function formatAttachmentSize(bytes: number | null): string {
+  if (bytes == null) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,143 @@
+/**
+ * Audit Log Utilities
+ *
+ * Types and formatting for audit_log rows written by the audit_row_change()
+ * trigger on transactions, transaction_lines, jobs, real_estate_deals and
+ * accounts.
+ *
+ * - UPDATE rows hold only the fields that changed (old_values / new_values).
+ * - INSERT rows hold the new record in new_values, DELETE rows the old
+ *   record in old_values.
+ */
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export type AuditTable = 'transactions' | 'transaction_lines' | 'jobs' | 'real_estate_deals' | 'accounts';
+
+export type AuditEntry = {
+  id: number;
+  table_name: AuditTable;
+  record_id: number;
+  transaction_id: number | null;
+  action: AuditAction;
+  changed_by: string | null;
+  changed_by_email: string | null;
+  changed_at: string;
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+};
+
+export type AuditFieldChange = {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+};
+
+/** id -> display name maps used to show foreign keys as names */
+export type AuditLookups = {
+  accounts: Map<number, string>;
+  jobs: Map<number, string>;
+  vendors: Map<number, string>;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const AUDIT_LOG_SELECT =
+  'id, table_name, record_id, transaction_id, action, changed_by, changed_by_email, changed_at, old_values, new_values';
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  transactions: 'Transaction',
+  transaction_lines: 'Transaction line',
+  jobs: 'Job',
+  real_estate_deals: 'Real estate deal',
+  accounts: 'Account',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: 'Created',
+  UPDATE: 'Changed',
+  DELETE: 'Deleted',
+};
+
+/** Bookkeeping columns left out of created/deleted snapshots */
+const SNAPSHOT_SKIP_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+const LOOKUP_FIELDS: Record<string, keyof AuditLookups> = {
+  account_id: 'accounts',
+  job_id: 'jobs',
+  vendor_id: 'vendors',
+};
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+export function emptyAuditLookups(): AuditLookups {
+  return { accounts: new Map(), jobs: new Map(), vendors: new Map() };
+}
+
+/**
+ * Field-level changes in an audit entry. For created/deleted records every
+ * non-empty field is listed against an empty other side.
+ */
+export function auditFieldChanges(entry: AuditEntry): AuditFieldChange[] {
+  const oldValues = entry.old_values ?? {};
+  const newValues = entry.new_values ?? {};
+
+  if (entry.action === 'UPDATE') {
+    return Object.keys(newValues)
+      .sort()
+      .map((field) => ({ field, oldValue: oldValues[field] ?? null, newValue: newValues[field] ?? null }));
+  }
+
+  const snapshot = entry.action === 'INSERT' ? newValues : oldValues;
+  return Object.keys(snapshot)
+    .filter((field) => !SNAPSHOT_SKIP_FIELDS.has(field) && snapshot[field] != null && snapshot[field] !== '')
+    .sort()
+    .map((field) =>
+      entry.action === 'INSERT'
+        ? { field, oldValue: null, newValue: snapshot[field] }
+        : { field, oldValue: snapshot[field], newValue: null }
+    );
+}
+
+/** "vendor_id" -> "Vendor", "is_cleared" -> "Cleared" */
+export function formatAuditField(field: string): string {
+  const label = field
+    .replace(/_id$/, '')
+    .replace(/^is_/, '')
+    .replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+export function formatAuditValue(field: string, value: unknown, lookups?: AuditLookups): string {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+
+  const lookupKey = LOOKUP_FIELDS[field];
+  if (lookupKey && lookups && typeof value === 'number') {
+    const name = lookups[lookupKey].get(value);
+    if (name) return name;
+  }
+
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/** Who made the change, for display */
+export function formatAuditUser(entry: AuditEntry): string {
+  if (entry.changed_by_email) return entry.changed_by_email;
+  if (entry.changed_by) return entry.changed_by.slice(0, 8);
+  return 'System';
+}
+
+/** One-line description, e.g. "Changed Transaction #123" */
+export function describeAuditEntry(entry: AuditEntry): string {
+  return `${AUDIT_ACTION_LABELS[entry.action]} ${AUDIT_TABLE_LABELS[entry.table_name] ?? entry.table_name} #${entry.record_id}`;
+}
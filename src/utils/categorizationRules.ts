@@ -0,0 +1,260 @@
+/**
+ * Categorization Rules
+ *
+ * Shared types and evaluation for user-defined bank import rules
+ * (categorization_rules table). Rules run in priority order and the first
+ * active rule whose conditions all match wins. Exact merchant_mappings are
+ * the fallback when no rule matches.
+ *
+ * SIGN CONVENTION
+ * - Input amounts are in BOOK sign for the imported account
+ *   (negative = money out / card charge, positive = money in).
+ * - Rule amount ranges are absolute values; use `direction` to pick a side.
+ */
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+export type RuleDirection = 'outflow' | 'inflow';
+export type RulePurpose = 'business' | 'personal';
+
+/** One leg of a split action */
+export type RuleSplit = {
+  account_id: number;
+  percent: number;
+  job_id: number | null;
+  purpose: RulePurpose | null;
+};
+
+/** categorization_rules row */
+export type CategorizationRule = {
+  id: number;
+  name: string;
+  priority: number;
+  is_active: boolean;
+
+  // Conditions (null = not checked)
+  description_contains: string | null;
+  description_regex: string | null;
+  amount_min: number | null;
+  amount_max: number | null;
+  direction: RuleDirection | null;
+  account_id: number | null;
+  day_of_month_min: number | null;
+  day_of_month_max: number | null;
+
+  // Actions (null = leave as-is)
+  set_vendor_id: number | null;
+  set_account_id: number | null;
+  set_job_id: number | null;
+  set_purpose: RulePurpose | null;
+  splits: RuleSplit[] | null;
+};
+
+/** A bank row being categorized */
+export type RuleInput = {
+  description: string;
+  amount: number;
+  date: string; // YYYY-MM-DD
+  accountId: number | null;
+};
+
+/** Suggestion produced by a matching rule */
+export type RuleSuggestion = {
+  ruleId: number;
+  ruleName: string;
+  vendorId: number | null;
+  accountId: number | null;
+  jobId: number | null;
+  purpose: RulePurpose | null;
+  splits: RuleSplit[] | null;
+};
+
+/** Split leg with its computed absolute amount */
+export type RuleSplitAmount = RuleSplit & { amount: number };
+
+export const CATEGORIZATION_RULE_SELECT =
+  'id, name, priority, is_active, description_contains, description_regex, amount_min, amount_max, direction, account_id, day_of_month_min, day_of_month_max, set_vendor_id, set_account_id, set_job_id, set_purpose, splits';
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+/** Normalize a raw Supabase row (numeric columns arrive as strings) */
+export function normalizeRule(raw: CategorizationRule): CategorizationRule {
+  const num = (v: number | string | null) => (v == null ? null : Number(v));
+  return {
+    ...raw,
+    amount_min: num(raw.amount_min),
+    amount_max: num(raw.amount_max),
+    splits: Array.isArray(raw.splits) && raw.splits.length > 0
+      ? raw.splits.map((s) => ({
+          account_id: Number(s.account_id),
+          percent: Number(s.percent),
+          job_id: s.job_id ?? null,
+          purpose: s.purpose ?? null,
+        }))
+      : null,
+  };
+}
+
+/** Compile a rule regex; invalid patterns never match */
+function compileRegex(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True if every condition set on the rule matches the input.
+ * A rule with no conditions matches nothing (guards against catch-all mistakes).
+ */
+export function ruleMatches(rule: CategorizationRule, input: RuleInput): boolean {
+  let checked = 0;
+  const description = input.description ?? '';
+
+  if (rule.description_contains) {
+    checked++;
+    if (!description.toLowerCase().includes(rule.description_contains.toLowerCase())) return false;
+  }
+
+  if (rule.description_regex) {
+    checked++;
+    const re = compileRegex(rule.description_regex);
+    if (!re || !re.test(description)) return false;
+  }
+
+  const absAmount = Math.abs(input.amount);
+  if (rule.amount_min != null) {
+    checked++;
+    if (absAmount < rule.amount_min - 0.005) return false;
+  }
+  if (rule.amount_max != null) {
+    checked++;
+    if (absAmount > rule.amount_max + 0.005) return false;
+  }
+
+  if (rule.direction) {
+    checked++;
+    const direction: RuleDirection = input.amount < 0 ? 'outflow' : 'inflow';
+    if (direction !== rule.direction) return false;
+  }
+
+  if (rule.account_id != null) {
+    checked++;
+    if (input.accountId !== rule.account_id) return false;
+  }
+
+  if (rule.day_of_month_min != null || rule.day_of_month_max != null) {
+    checked++;
+    const day = Number(input.date.slice(8, 10));
+    const min = rule.day_of_month_min ?? 1;
+    const max = rule.day_of_month_max ?? 31;
+    // min > max wraps the month end (e.g. 28-3 covers the 28th through the 3rd)
+    const inRange = min <= max ? day >= min && day <= max : day >= min || day <= max;
+    if (!inRange) return false;
+  }
+
+  return checked > 0;
+}
+
+/**
+ * First active rule (by priority, then id) matching the input, or null.
+ */
+export function findMatchingRule(rules: CategorizationRule[], input: RuleInput): CategorizationRule | null {
+  const ordered = rules
+    .filter((r) => r.is_active)
+    .sort((a, b) => a.priority - b.priority || a.id - b.id);
+  return ordered.find((r) => ruleMatches(r, input)) ?? null;
+}
+
+/**
+ * Evaluate rules and return the suggestion of the winning rule, or null.
+ */
+export function suggestFromRules(rules: CategorizationRule[], input: RuleInput): RuleSuggestion | null {
+  const rule = findMatchingRule(rules, input);
+  if (!rule) return null;
+
+  const splits = rule.splits && rule.splits.length > 0 ? rule.splits : null;
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    vendorId: rule.set_vendor_id,
+    // With splits the first leg stands in as the primary account for display
+    accountId: splits ? splits[0].account_id : rule.set_account_id,
+    jobId: rule.set_job_id,
+    purpose: rule.set_purpose,
+    splits,
+  };
+}
+
+/**
+ * Allocate an absolute amount across split legs by percent.
+ * Rounds each leg to cents and puts the rounding remainder on the last leg
+ * so the legs always sum to the original amount.
+ */
+export function allocateSplits(absAmount: number, splits: RuleSplit[]): RuleSplitAmount[] {
+  const total = Math.round(absAmount * 100);
+  let allocated = 0;
+
+  return splits.map((split, i) => {
+    const cents = i === splits.length - 1
+      ? total - allocated
+      : Math.round((total * split.percent) / 100);
+    allocated += cents;
+    return { ...split, amount: cents / 100 };
+  });
+}
+
+/**
+ * Validate a rule before saving. Returns an error message or null.
+ */
+export function validateRule(rule: Omit<CategorizationRule, 'id' | 'priority'>): string | null {
+  if (!rule.name.trim()) return 'Rule name is required.';
+
+  const hasCondition =
+    !!rule.description_contains ||
+    !!rule.description_regex ||
+    rule.amount_min != null ||
+    rule.amount_max != null ||
+    !!rule.direction ||
+    rule.account_id != null ||
+    rule.day_of_month_min != null ||
+    rule.day_of_month_max != null;
+  if (!hasCondition) return 'Add at least one condition.';
+
+  if (rule.description_regex && !compileRegex(rule.description_regex)) {
+    return 'Description regex is not a valid regular expression.';
+  }
+
+  if (rule.amount_min != null && rule.amount_max != null && rule.amount_min > rule.amount_max) {
+    return 'Minimum amount must not exceed maximum amount.';
+  }
+
+  for (const day of [rule.day_of_month_min, rule.day_of_month_max]) {
+    if (day != null && (day < 1 || day > 31 || !Number.isInteger(day))) {
+      return 'Day of month must be a whole number from 1 to 31.';
+    }
+  }
+
+  const hasAction =
+    rule.set_vendor_id != null ||
+    rule.set_account_id != null ||
+    rule.set_job_id != null ||
+    !!rule.set_purpose ||
+    (rule.splits?.length ?? 0) > 0;
+  if (!hasAction) return 'Add at least one action.';
+
+  if (rule.splits && rule.splits.length > 0) {
+    if (rule.splits.length < 2) return 'A split needs at least two accounts.';
+    if (rule.splits.some((s) => !s.account_id)) return 'Every split line needs an account.';
+    if (rule.splits.some((s) => !(s.percent > 0))) return 'Split percents must be greater than zero.';
+    const totalPct = rule.splits.reduce((sum, s) => sum + s.percent, 0);
+    if (Math.abs(totalPct - 100) > 0.001) return `Split percents must total 100 (currently ${totalPct}).`;
+  }
+
+  return null;
+}
@@ -0,0 +1,136 @@
+/**
+ * Chart of Accounts
+ *
+ * Validation for creating and editing accounts in Settings -> Chart of
+ * Accounts. ACCOUNT_CODE_RANGES stays the source of truth: every code must
+ * fall in one of the ranges below, and the account type must match the
+ * range (a 5xxxx code is always an expense, a 1xxx code always an asset).
+ * Each range also suggests the entity a new account usually belongs to.
+ *
+ * Merging folds a duplicate into another account of the same type and
+ * entity; the merge_accounts RPC re-points every line and each account
+ * reference it lists (migrations that add a reference extend it).
+ */
+
+import {
+  ACCOUNT_CODE_RANGES,
+  ACCOUNT_TYPE_IDS,
+  parseAccountCode,
+  type AccountEntity,
+  type Purpose,
+} from './accounts';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+export type ChartAccount = {
+  id: number;
+  code: string | null;
+  name: string;
+  account_type_id: number;
+  entity: AccountEntity;
+  purpose_default: Purpose | null;
+  is_active: boolean;
+};
+
+export type ChartAccountForm = Omit<ChartAccount, 'id'>;
+
+/** A code range and the account type (and usual entity) it implies */
+export type CodeRange = {
+  label: string;
+  min: number;
+  max: number;
+  accountTypeId: number;
+  entity: AccountEntity;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const CHART_ACCOUNT_SELECT = 'id, code, name, account_type_id, entity, purpose_default, is_active';
+
+export const ACCOUNT_TYPE_LABELS: Record<number, string> = {
+  [ACCOUNT_TYPE_IDS.ASSET]: 'Asset',
+  [ACCOUNT_TYPE_IDS.LIABILITY]: 'Liability',
+  [ACCOUNT_TYPE_IDS.EQUITY]: 'Equity',
+  [ACCOUNT_TYPE_IDS.INCOME]: 'Income',
+  [ACCOUNT_TYPE_IDS.EXPENSE]: 'Expense',
+};
+
+const R = ACCOUNT_CODE_RANGES;
+const T = ACCOUNT_TYPE_IDS;
+
+/** Narrow ranges before the wide ones they sit in; the first match wins */
+export const CODE_RANGES: CodeRange[] = [
+  { label: 'Bank accounts', min: R.BANK_MIN, max: R.BANK_MAX, accountTypeId: T.ASSET, entity: 'llc' },
+  { label: 'Fixed assets', min: R.FIXED_ASSET_MIN, max: R.FIXED_ASSET_MAX, accountTypeId: T.ASSET, entity: 'llc' },
+  { label: 'Business credit cards', min: R.BUSINESS_CARD_MIN, max: R.BUSINESS_CARD_MAX, accountTypeId: T.LIABILITY, entity: 'llc' },
+  { label: 'Personal credit cards', min: R.PERSONAL_CARD_MIN, max: R.PERSONAL_CARD_MAX, accountTypeId: T.LIABILITY, entity: 'personal' },
+  { label: 'Personal debt', min: R.PERSONAL_DEBT_MIN, max: R.PERSONAL_DEBT_MAX, accountTypeId: T.LIABILITY, entity: 'personal' },
+  { label: 'HELOC', min: R.HELOC_MIN, max: R.HELOC_MAX, accountTypeId: T.LIABILITY, entity: 'personal' },
+  { label: 'Other credit lines', min: R.CREDIT_CARD_MIN, max: R.CREDIT_CARD_MAX, accountTypeId: T.LIABILITY, entity: 'llc' },
+  { label: 'Equity', min: R.EQUITY_MIN, max: R.EQUITY_MAX, accountTypeId: T.EQUITY, entity: 'llc' },
+  { label: 'Job income', min: R.JOB_INCOME_MIN, max: R.JOB_INCOME_MAX, accountTypeId: T.INCOME, entity: 'llc' },
+  { label: 'Overhead', min: R.OVERHEAD_MIN, max: R.OVERHEAD_MAX, accountTypeId: T.EXPENSE, entity: 'llc' },
+  { label: 'Marketing', min: R.MARKETING_MIN, max: R.MARKETING_MAX, accountTypeId: T.EXPENSE, entity: 'llc' },
+  { label: 'Personal expenses', min: R.PERSONAL_MIN, max: R.PERSONAL_MAX, accountTypeId: T.EXPENSE, entity: 'personal' },
+  { label: 'Rental income', min: R.RENTAL_INCOME_MIN, max: R.RENTAL_INCOME_MAX, accountTypeId: T.INCOME, entity: 'holdings' },
+  { label: 'Rental expenses', min: R.RENTAL_EXPENSE_MIN, max: R.RENTAL_EXPENSE_MAX, accountTypeId: T.EXPENSE, entity: 'holdings' },
+  { label: 'Flip costs', min: R.FLIP_EXPENSE_MIN, max: R.FLIP_EXPENSE_MAX, accountTypeId: T.EXPENSE, entity: 'holdings' },
+  { label: 'Other real estate expenses', min: R.REAL_ESTATE_EXPENSE_MIN, max: R.REAL_ESTATE_EXPENSE_MAX, accountTypeId: T.EXPENSE, entity: 'holdings' },
+  { label: 'Real estate assets', min: R.RE_ASSET_MIN, max: R.RE_ASSET_MAX, accountTypeId: T.ASSET, entity: 'holdings' },
+  { label: 'Mortgages & hard money', min: R.RE_MORTGAGE_MIN, max: R.RE_MORTGAGE_MAX, accountTypeId: T.LIABILITY, entity: 'holdings' },
+  { label: 'Personal real estate expenses', min: R.PERSONAL_RE_EXPENSE_MIN, max: R.PERSONAL_RE_EXPENSE_MAX, accountTypeId: T.EXPENSE, entity: 'personal' },
+];
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+/** Range a code falls in, or null when it is outside every range */
+export function codeRangeFor(code: string | null | undefined): CodeRange | null {
+  const n = parseAccountCode(code);
+  if (n == null) return null;
+  return CODE_RANGES.find((r) => n >= r.min && n <= r.max) ?? null;
+}
+
+export function describeCodeRange(range: CodeRange): string {
+  return `${range.label} (${range.min}-${range.max}, ${ACCOUNT_TYPE_LABELS[range.accountTypeId].toLowerCase()})`;
+}
+
+/** Validate a new or edited account. Returns an error message or null. */
+export function validateChartAccount(
+  form: ChartAccountForm,
+  accounts: ChartAccount[],
+  editingId: number | null
+): string | null {
+  if (!form.name.trim()) return 'Name is required.';
+
+  const code = form.code?.trim() ?? '';
+  if (!code) return 'Code is required.';
+  if (!/^\d+$/.test(code)) return 'Code must be digits only.';
+
+  const range = codeRangeFor(code);
+  if (!range) return `Code ${code} is outside every account code range.`;
+  if (range.accountTypeId !== form.account_type_id) {
+    return `Code ${code} is in ${describeCodeRange(range)}; the account type must be ${ACCOUNT_TYPE_LABELS[range.accountTypeId]}.`;
+  }
+
+  const duplicate = accounts.find((a) => a.id !== editingId && a.code?.trim() === code);
+  if (duplicate) return `Code ${code} is already used by ${duplicate.name}.`;
+
+  return null;
+}
+
+/** Accounts the source can be merged into: same type and entity, active, not itself */
+export function mergeTargets(source: ChartAccount, accounts: ChartAccount[]): ChartAccount[] {
+  return accounts.filter(
+    (a) =>
+      a.id !== source.id &&
+      a.is_active &&
+      a.account_type_id === source.account_type_id &&
+      a.entity === source.entity
+  );
+}
@@ -0,0 +1,240 @@
+/**
+ * Month-End Close Checklist
+ *
+ * Automated checks run against one "YYYY-MM" period before close_period is
+ * allowed. Each check returns pass/fail plus the offending items so the
+ * checklist can drill down into them.
+ *
+ * - Uncleared bank/card lines older than N days
+ * - Transactions whose lines do not sum to zero
+ * - Unsettled credit card lines (computeCcBalances)
+ * - Rentals with no rent posted in the month
+ * - Financed deals with no mortgage payment in the month
+ * - Bank-synced (Plaid) transactions not yet categorized into the ledger
+ *
+ * Pure functions - callers load rows with the exported select constants.
+ */
+
+import { isCashAccount, isCreditCardCode, isRentalIncomeCode } from './accounts';
+import { computeCcBalances, type CcTrackableLine } from './ccTracking';
+import { periodDateRange } from './periodClose';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+export type CloseCheckId =
+  | 'uncleared'
+  | 'unbalanced'
+  | 'unsettledCc'
+  | 'missingRent'
+  | 'missingMortgage'
+  | 'uncategorizedImports';
+
+/** App views a check can drill down into */
+export type CloseCheckView = 'ledger' | 'rentals' | 'deals' | 'plaid';
+
+export type CloseCheckItem = {
+  key: string;
+  date: string | null;
+  description: string;
+  amount: number | null;
+  transactionId: number | null;
+};
+
+export type CloseCheckResult = {
+  id: CloseCheckId;
+  label: string;
+  passed: boolean;
+  /** One-line summary, e.g. "3 transactions out of balance" */
+  summary: string;
+  items: CloseCheckItem[];
+  view: CloseCheckView;
+};
+
+/** Line in the period being closed */
+export type CloseCheckLine = CcTrackableLine & {
+  transaction_id: number;
+  account_id: number;
+  is_cleared: boolean;
+  real_estate_deal_id: number | null;
+  accounts: (CcTrackableLine['accounts'] & { code: string | null }) | null;
+  transactions: { date: string; description: string | null } | null;
+};
+
+export type CloseCheckDeal = {
+  id: number;
+  nickname: string;
+  type: string;
+  status: string | null;
+  close_date: string | null;
+  sell_date: string | null;
+  loan_account_id: number | null;
+  first_payment_date: string | null;
+};
+
+/** Staged Plaid row with no ledger transaction yet */
+export type CloseCheckImport = {
+  transaction_id: string;
+  date: string;
+  name: string;
+  merchant_name: string | null;
+  amount: number;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const DEFAULT_UNCLEARED_MAX_AGE_DAYS = 30;
+
+export const CLOSE_CHECK_LINE_SELECT =
+  'id, transaction_id, account_id, amount, is_cleared, cc_settled, real_estate_deal_id, ' +
+  'accounts ( id, name, code, account_types ( name ) ), transactions!inner ( date, description )';
+
+export const CLOSE_CHECK_DEAL_SELECT =
+  'id, nickname, type, status, close_date, sell_date, loan_account_id, first_payment_date';
+
+export const CLOSE_CHECK_IMPORT_SELECT = 'transaction_id, date, name, merchant_name, amount';
+
+/** Deals in these statuses no longer expect rent or mortgage payments */
+const INACTIVE_DEAL_STATUSES = new Set(['sold', 'failed']);
+
+const CLOSE_CHECK_LABELS: Record<CloseCheckId, string> = {
+  uncleared: 'Uncleared bank/card lines',
+  unbalanced: 'Unbalanced transactions',
+  unsettledCc: 'Unsettled credit card charges',
+  missingRent: 'Rent posted for every rental',
+  missingMortgage: 'Mortgage payment for every financed deal',
+  uncategorizedImports: 'Bank-synced transactions categorized',
+};
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+function result(id: CloseCheckId, view: CloseCheckView, items: CloseCheckItem[], failSummary: string): CloseCheckResult {
+  return {
+    id,
+    label: CLOSE_CHECK_LABELS[id],
+    passed: items.length === 0,
+    summary: items.length === 0 ? 'OK' : failSummary,
+    items,
+    view,
+  };
+}
+
+function lineItem(line: CloseCheckLine, amount = Number(line.amount)): CloseCheckItem {
+  return {
+    key: `line-${line.id}`,
+    date: line.transactions?.date ?? null,
+    description: `${line.transactions?.description || '(no description)'} - ${line.accounts?.name ?? 'Unknown account'}`,
+    amount,
+    transactionId: line.transaction_id,
+  };
+}
+
+/** YYYY-MM-DD `days` before `date` */
+function daysBefore(date: string, days: number): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d - days)).toISOString().slice(0, 10);
+}
+
+/** A deal owned for at least part of the period */
+function isDealActiveIn(deal: CloseCheckDeal, yearMonth: string): boolean {
+  const { start, end } = periodDateRange(yearMonth);
+  if (deal.status && INACTIVE_DEAL_STATUSES.has(deal.status) && (!deal.sell_date || deal.sell_date < start)) {
+    return false;
+  }
+  if (deal.close_date && deal.close_date > end) return false;
+  if (deal.sell_date && deal.sell_date < start) return false;
+  return true;
+}
+
+/** Bank/card lines still uncleared more than `maxAgeDays` after their date */
+export function checkUnclearedLines(lines: CloseCheckLine[], today: string, maxAgeDays: number): CloseCheckResult {
+  const cutoff = daysBefore(today, maxAgeDays);
+  const items = lines
+    .filter((l) => !l.is_cleared && isCashAccount(l.accounts?.code) && (l.transactions?.date ?? '') <= cutoff)
+    .map((l) => lineItem(l));
+  return result('uncleared', 'ledger', items, `${items.length} line(s) uncleared for more than ${maxAgeDays} days`);
+}
+
+/** Transactions whose lines do not sum to zero */
+export function checkUnbalancedTransactions(lines: CloseCheckLine[]): CloseCheckResult {
+  const byTx = new Map<number, { total: number; line: CloseCheckLine }>();
+  for (const line of lines) {
+    const entry = byTx.get(line.transaction_id) ?? { total: 0, line };
+    entry.total += Number(line.amount);
+    byTx.set(line.transaction_id, entry);
+  }
+
+  const items = Array.from(byTx.values())
+    .filter((e) => Math.abs(e.total) >= 0.005)
+    .map(({ total, line }) => ({
+      key: `tx-${line.transaction_id}`,
+      date: line.transactions?.date ?? null,
+      description: line.transactions?.description || '(no description)',
+      amount: Math.round(total * 100) / 100,
+      transactionId: line.transaction_id,
+    }));
+  return result('unbalanced', 'ledger', items, `${items.length} transaction(s) out of balance`);
+}
+
+/** Credit card charges not yet settled, one item per card */
+export function checkUnsettledCc(lines: CloseCheckLine[]): CloseCheckResult {
+  const balances = computeCcBalances(lines.filter((l) => isCreditCardCode(l.accounts?.code)));
+  const items = balances.map((b) => ({
+    key: `cc-${b.accountId}`,
+    date: null,
+    description: `${b.accountName} - ${b.lineIds.length} unsettled line(s)`,
+    amount: b.unclearedAmount,
+    transactionId: null,
+  }));
+  return result('unsettledCc', 'ledger', items, `${items.length} card(s) with unsettled charges`);
+}
+
+/** Active rentals with no rental income line in the period */
+export function checkRentPosted(deals: CloseCheckDeal[], lines: CloseCheckLine[], yearMonth: string): CloseCheckResult {
+  const paid = new Set(
+    lines
+      .filter((l) => l.real_estate_deal_id != null && isRentalIncomeCode(l.accounts?.code))
+      .map((l) => l.real_estate_deal_id)
+  );
+  const items = deals
+    .filter((d) => d.type === 'rental' && isDealActiveIn(d, yearMonth) && !paid.has(d.id))
+    .map((d) => ({ key: `rent-${d.id}`, date: null, description: d.nickname, amount: null, transactionId: null }));
+  return result('missingRent', 'rentals', items, `${items.length} rental(s) with no rent posted`);
+}
+
+/** Financed deals with no payment (debit) on their loan account in the period */
+export function checkMortgagePayments(
+  deals: CloseCheckDeal[],
+  lines: CloseCheckLine[],
+  yearMonth: string
+): CloseCheckResult {
+  const { end } = periodDateRange(yearMonth);
+  const paidAccounts = new Set(lines.filter((l) => Number(l.amount) > 0).map((l) => l.account_id));
+  const items = deals
+    .filter(
+      (d) =>
+        d.loan_account_id != null &&
+        isDealActiveIn(d, yearMonth) &&
+        (!d.first_payment_date || d.first_payment_date <= end) &&
+        !paidAccounts.has(d.loan_account_id)
+    )
+    .map((d) => ({ key: `loan-${d.id}`, date: null, description: d.nickname, amount: null, transactionId: null }));
+  return result('missingMortgage', 'deals', items, `${items.length} deal(s) with no mortgage payment`);
+}
+
+/** Plaid rows synced for the period but never reviewed into the ledger */
+export function checkUncategorizedImports(rows: CloseCheckImport[]): CloseCheckResult {
+  const items = rows.map((r) => ({
+    key: `plaid-${r.transaction_id}`,
+    date: r.date,
+    description: r.merchant_name || r.name,
+    amount: -Number(r.amount), // Plaid positive = money out
+    transactionId: null,
+  }));
+  return result('uncategorizedImports', 'plaid', items, `${items.length} synced transaction(s) awaiting review`);
+}
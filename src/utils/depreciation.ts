@@ -0,0 +1,322 @@
+/**
+ * Depreciation
+ *
+ * Rental property (MACRS residential rental, GDS):
+ *   - 27.5-year recovery, straight line, mid-month convention: the month
+ *     placed in service and the month of sale each count as half a month
+ *   - The building's basis is its cost less the land value; land is never
+ *     depreciated
+ *   - Each capital improvement is its own asset with its own 27.5-year
+ *     schedule from the date it was placed in service
+ *   - Depreciation stops at the deal's sell date (or an improvement's
+ *     disposed_on); the total accumulated by then reduces basis at sale and
+ *     is taxed as unrecaptured Section 1250 gain
+ * Annual depreciation posts one entry per deal and year: debit the deal's
+ * depreciation expense account (Schedule E), credit its accumulated
+ * depreciation account.
+ *
+ * Amounts are rounded to cents per year; the last year of a full recovery
+ * takes whatever is left so the schedule totals the basis exactly.
+ */
+
+import { ACCOUNT_CODE_RANGES, isCodeInRange } from './accounts';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+export type RentalAssetKind = 'building' | 'improvement';
+
+/** Row of rental_depreciation_assets */
+export type RentalDepreciationAsset = {
+  id: number;
+  real_estate_deal_id: number;
+  kind: RentalAssetKind;
+  description: string;
+  cost_basis: number;
+  land_value: number;
+  placed_in_service_date: string;
+  disposed_on: string | null;
+};
+
+/** Row of rental_depreciation_postings */
+export type RentalDepreciationPosting = {
+  id: number;
+  real_estate_deal_id: number;
+  tax_year: number;
+  amount: number;
+  transaction_id: number | null;
+};
+
+/** The real_estate_deals columns depreciation needs */
+export type RentalDepreciationDeal = {
+  id: number;
+  nickname: string;
+  type: string;
+  status: string;
+  purchase_price: number | null;
+  closing_costs_estimate: number | null;
+  close_date: string | null;
+  sell_date: string | null;
+  depreciation_expense_account_id: number | null;
+  accumulated_depreciation_account_id: number | null;
+};
+
+export type RentalAssetForm = {
+  kind: RentalAssetKind;
+  description: string;
+  cost_basis: string;
+  land_value: string;
+  placed_in_service_date: string;
+  disposed_on: string;
+};
+
+export type DepreciationYear = {
+  year: number;
+  depreciation: number;
+  /** Total through the end of this year */
+  accumulated: number;
+  /** Basis not yet depreciated at the end of this year */
+  remaining: number;
+};
+
+/** One property's depreciation for a tax year: what the schedule allows and what was posted */
+export type DepreciationYearSummary = {
+  dealId: number;
+  nickname: string;
+  expenseAccountId: number | null;
+  scheduled: number;
+  posted: number | null;
+};
+
+export type BasisAtSale = {
+  /** Everything capitalized: building including land, plus improvements */
+  totalCost: number;
+  accumulatedDepreciation: number;
+  adjustedBasis: number;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const RESIDENTIAL_RECOVERY_YEARS = 27.5;
+
+export const RENTAL_DEPRECIATION_ASSET_SELECT =
+  'id, real_estate_deal_id, kind, description, cost_basis, land_value, placed_in_service_date, disposed_on';
+
+export const RENTAL_DEPRECIATION_POSTING_SELECT = 'id, real_estate_deal_id, tax_year, amount, transaction_id';
+
+export const RENTAL_DEPRECIATION_DEAL_SELECT =
+  'id, nickname, type, status, purchase_price, closing_costs_estimate, close_date, sell_date, ' +
+  'depreciation_expense_account_id, accumulated_depreciation_account_id';
+
+export const RENTAL_ASSET_KIND_LABELS: Record<RentalAssetKind, string> = {
+  building: 'Building',
+  improvement: 'Capital improvement',
+};
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Month position of a date's mid-month point, counted from year 0 */
+function midMonthIndex(date: string): number {
+  const [y, m] = date.split('-').map(Number);
+  return y * 12 + (m - 1) + 0.5;
+}
+
+export function normalizeRentalAsset(raw: RentalDepreciationAsset): RentalDepreciationAsset {
+  return {
+    ...raw,
+    cost_basis: Number(raw.cost_basis) || 0,
+    land_value: Number(raw.land_value) || 0,
+  };
+}
+
+export function normalizeRentalPosting(raw: RentalDepreciationPosting): RentalDepreciationPosting {
+  return { ...raw, amount: Number(raw.amount) || 0 };
+}
+
+export function depreciableBasis(asset: Pick<RentalDepreciationAsset, 'cost_basis' | 'land_value'>): number {
+  return round2(asset.cost_basis - asset.land_value);
+}
+
+/** Date depreciation stops: the improvement's disposal, else the property's sale */
+export function assetEndDate(
+  asset: Pick<RentalDepreciationAsset, 'disposed_on'>,
+  sellDate: string | null
+): string | null {
+  if (asset.disposed_on && sellDate) return asset.disposed_on < sellDate ? asset.disposed_on : sellDate;
+  return asset.disposed_on ?? sellDate;
+}
+
+/**
+ * Year-by-year 27.5-year mid-month schedule for one asset. With an end
+ * date, the schedule stops at the middle of that month.
+ */
+export function residentialRentalSchedule(
+  basis: number,
+  placedInService: string,
+  endDate: string | null = null
+): DepreciationYear[] {
+  if (basis <= 0) return [];
+  const recoveryMonths = RESIDENTIAL_RECOVERY_YEARS * 12;
+  const perMonth = basis / recoveryMonths;
+  const start = midMonthIndex(placedInService);
+  const fullEnd = start + recoveryMonths;
+  const end = endDate ? Math.min(midMonthIndex(endDate), fullEnd) : fullEnd;
+
+  const rows: DepreciationYear[] = [];
+  let accumulated = 0;
+  const lastYear = Math.floor((end - 0.001) / 12);
+  for (let year = Math.floor(start / 12); year <= lastYear; year++) {
+    const months = Math.max(0, Math.min(end, (year + 1) * 12) - Math.max(start, year * 12));
+    const isFinalRecoveryYear = end === fullEnd && year === lastYear;
+    const depreciation = isFinalRecoveryYear ? round2(basis - accumulated) : round2(perMonth * months);
+    accumulated = round2(accumulated + depreciation);
+    rows.push({ year, depreciation, accumulated, remaining: round2(basis - accumulated) });
+  }
+  return rows;
+}
+
+/** Schedule for one asset of a deal that sold (or not) on sellDate */
+export function rentalAssetSchedule(asset: RentalDepreciationAsset, sellDate: string | null): DepreciationYear[] {
+  return residentialRentalSchedule(depreciableBasis(asset), asset.placed_in_service_date, assetEndDate(asset, sellDate));
+}
+
+/** Every asset of a deal combined into one schedule */
+export function dealDepreciationSchedule(assets: RentalDepreciationAsset[], sellDate: string | null): DepreciationYear[] {
+  const byYear = new Map<number, number>();
+  for (const asset of assets) {
+    for (const row of rentalAssetSchedule(asset, sellDate)) {
+      byYear.set(row.year, (byYear.get(row.year) ?? 0) + row.depreciation);
+    }
+  }
+
+  const totalBasis = assets.reduce((s, a) => s + depreciableBasis(a), 0);
+  let accumulated = 0;
+  return Array.from(byYear.keys())
+    .sort((a, b) => a - b)
+    .map((year) => {
+      const depreciation = round2(byYear.get(year) ?? 0);
+      accumulated = round2(accumulated + depreciation);
+      return { year, depreciation, accumulated, remaining: round2(totalBasis - accumulated) };
+    });
+}
+
+export function depreciationForYear(schedule: DepreciationYear[], year: number): number {
+  return schedule.find((r) => r.year === year)?.depreciation ?? 0;
+}
+
+/** Depreciation allowed through the end of `year` */
+export function accumulatedThrough(schedule: DepreciationYear[], year: number): number {
+  let accumulated = 0;
+  for (const row of schedule) {
+    if (row.year > year) break;
+    accumulated = row.accumulated;
+  }
+  return accumulated;
+}
+
+/**
+ * Adjusted basis of the property through the end of `throughYear` (the
+ * year of sale for a sold deal). Improvements disposed of before the sale
+ * left the basis when they were written off.
+ */
+export function basisAtSale(assets: RentalDepreciationAsset[], sellDate: string | null, throughYear: number): BasisAtSale {
+  const active = assets.filter((a) => !a.disposed_on || (sellDate != null && a.disposed_on >= sellDate));
+  const totalCost = round2(active.reduce((s, a) => s + a.cost_basis, 0));
+  const accumulatedDepreciation = accumulatedThrough(dealDepreciationSchedule(active, sellDate), throughYear);
+  return { totalCost, accumulatedDepreciation, adjustedBasis: round2(totalCost - accumulatedDepreciation) };
+}
+
+/** Per-deal scheduled and posted depreciation for a year; deals with neither are left out */
+export function rentalDepreciationSummary(
+  deals: RentalDepreciationDeal[],
+  assets: RentalDepreciationAsset[],
+  postings: RentalDepreciationPosting[],
+  year: number
+): DepreciationYearSummary[] {
+  return deals
+    .map((deal) => {
+      const dealAssets = assets.filter((a) => a.real_estate_deal_id === deal.id);
+      const posting = postings.find((p) => p.real_estate_deal_id === deal.id && p.tax_year === year);
+      return {
+        dealId: deal.id,
+        nickname: deal.nickname,
+        expenseAccountId: deal.depreciation_expense_account_id,
+        scheduled: depreciationForYear(dealDepreciationSchedule(dealAssets, deal.sell_date), year),
+        posted: posting ? posting.amount : null,
+      };
+    })
+    .filter((row) => row.scheduled > 0 || row.posted != null)
+    .sort((a, b) => a.nickname.localeCompare(b.nickname));
+}
+
+/** Default building cost: purchase price plus estimated closing costs */
+export function defaultBuildingCost(deal: Pick<RentalDepreciationDeal, 'purchase_price' | 'closing_costs_estimate'>): number {
+  return round2((deal.purchase_price ?? 0) + (deal.closing_costs_estimate ?? 0));
+}
+
+/** Reason an asset form can't be saved, or null */
+export function validateRentalAsset(
+  form: RentalAssetForm,
+  assets: RentalDepreciationAsset[],
+  editingId: number | null
+): string | null {
+  if (!form.description.trim()) return 'Description is required.';
+  const cost = Number(form.cost_basis);
+  if (!form.cost_basis.trim() || Number.isNaN(cost) || cost <= 0) return 'Cost basis must be greater than zero.';
+  const land = form.land_value.trim() ? Number(form.land_value) : 0;
+  if (Number.isNaN(land) || land < 0) return 'Land value cannot be negative.';
+  if (form.kind === 'building' && land >= cost) return 'Land value must be less than the cost basis.';
+  if (!form.placed_in_service_date) return 'Placed-in-service date is required.';
+  if (form.disposed_on && form.disposed_on < form.placed_in_service_date) {
+    return 'Disposal date cannot be before the placed-in-service date.';
+  }
+  if (form.kind === 'building' && assets.some((a) => a.kind === 'building' && a.id !== editingId)) {
+    return 'This property already has a building; add later work as capital improvements.';
+  }
+  return null;
+}
+
+/** Reason the deal's depreciation accounts can't be used, or null */
+export function validateDepreciationAccounts(
+  deal: Pick<RentalDepreciationDeal, 'depreciation_expense_account_id' | 'accumulated_depreciation_account_id'>,
+  accounts: { id: number; code: string | null }[]
+): string | null {
+  const expense = accounts.find((a) => a.id === deal.depreciation_expense_account_id);
+  const accumulated = accounts.find((a) => a.id === deal.accumulated_depreciation_account_id);
+  if (!expense || !accumulated) return 'Choose the depreciation expense and accumulated depreciation accounts.';
+  if (!isCodeInRange(expense.code, ACCOUNT_CODE_RANGES.RENTAL_EXPENSE_MIN, ACCOUNT_CODE_RANGES.RENTAL_EXPENSE_MAX)) {
+    return 'Depreciation expense must be a rental expense account (62000-62099) so it reaches Schedule E.';
+  }
+  if (!isCodeInRange(accumulated.code, ACCOUNT_CODE_RANGES.RE_ASSET_MIN, ACCOUNT_CODE_RANGES.RE_ASSET_MAX)) {
+    return 'Accumulated depreciation must be a real estate asset account (63000-63999).';
+  }
+  return null;
+}
+
+/** Entry date for a year's depreciation: December 31, or the sale date in the year of sale */
+export function depreciationPostingDate(year: number, sellDate: string | null): string {
+  const yearEnd = `${year}-12-31`;
+  return sellDate && sellDate.startsWith(`${year}-`) ? sellDate : yearEnd;
+}
+
+/**
+ * create_transaction_multi lines for a year's depreciation. Non-cash, so
+ * the lines post cleared; there is no statement to reconcile them against.
+ */
+export function buildDepreciationLines(
+  deal: Pick<RentalDepreciationDeal, 'id' | 'depreciation_expense_account_id' | 'accumulated_depreciation_account_id'>,
+  amount: number
+): Record<string, unknown>[] {
+  const base = { real_estate_deal_id: deal.id, purpose: 'business', is_cleared: true };
+  return [
+    { account_id: deal.depreciation_expense_account_id, amount: round2(amount), ...base },
+    { account_id: deal.accumulated_depreciation_account_id, amount: -round2(amount), ...base },
+  ];
+}
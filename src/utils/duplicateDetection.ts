@@ -0,0 +1,291 @@
+/**
+ * Duplicate Transaction Detection
+ *
+ * Flags ledger entries that look like the same real-world transaction entered
+ * twice - typed in by hand and then imported from the bank, imported from a
+ * CSV and again from Plaid, etc. Runs before create_transaction_multi in the
+ * entry/import flows and powers the ledger "Possible duplicates" report.
+ *
+ * A line is a likely duplicate when ALL of these hold:
+ * - same bank/card account
+ * - close amount, same direction (within $1 or 2%)
+ * - nearby date (within DUPLICATE_WINDOW_DAYS)
+ * - similar description, or the same vendor
+ *
+ * SIGN CONVENTION
+ * - Amounts are in BOOK sign on the bank/card account (the cash line).
+ */
+
+import { daysBetween, descriptionSimilarity, SIMILAR_DESCRIPTION } from './transactionMatching';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+/** A transaction about to be created, seen from its cash line */
+export type DuplicateCandidate = {
+  accountId: number;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  description: string | null;
+  vendorId?: number | null;
+  vendorName?: string | null;
+};
+
+/** Existing cash line to compare against */
+export type DuplicateLine = {
+  line_id: number;
+  transaction_id: number;
+  account_id: number;
+  date: string;
+  amount: number;
+  description: string | null;
+  vendor_id: number | null;
+  vendor_name: string | null;
+  is_cleared: boolean;
+  /** Imported from Plaid (transactions.plaid_transaction_id set) */
+  plaid_linked: boolean;
+  created_at: string;
+};
+
+export type DuplicateMatch = {
+  line: DuplicateLine;
+  dayDiff: number;
+  amountDiff: number;
+  similarity: number;
+  sameVendor: boolean;
+  reason: string;
+};
+
+/** Ledger entries that all look like the same transaction */
+export type DuplicateGroup = {
+  key: string;
+  account_id: number;
+  lines: DuplicateLine[];
+  reason: string;
+};
+
+/** Raw shape returned by DUPLICATE_LINE_SELECT */
+export type RawDuplicateLine = {
+  id: number;
+  transaction_id: number;
+  account_id: number;
+  amount: number;
+  is_cleared: boolean;
+  transactions: {
+    date: string;
+    description: string | null;
+    plaid_transaction_id: string | null;
+    created_at: string;
+    transaction_lines: { vendor_id: number | null; vendors: { name: string } | null }[] | null;
+  } | null;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+const CLOSE_AMOUNT_DOLLARS = 1;
+const CLOSE_AMOUNT_PERCENT = 0.02;
+
+/**
+ * transaction_lines select for cash lines to check against.
+ * Vendors sit on the category line, so they come from the sibling lines.
+ */
+export const DUPLICATE_LINE_SELECT = `
+  id,
+  transaction_id,
+  account_id,
+  amount,
+  is_cleared,
+  transactions!inner (
+    date,
+    description,
+    plaid_transaction_id,
+    created_at,
+    transaction_lines ( vendor_id, vendors ( name ) )
+  )
+`;
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+function shiftDate(date: string, days: number): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+export function normalizeDuplicateLine(raw: RawDuplicateLine): DuplicateLine {
+  const vendorLine = raw.transactions?.transaction_lines?.find((l) => l.vendor_id != null) ?? null;
+  return {
+    line_id: raw.id,
+    transaction_id: raw.transaction_id,
+    account_id: raw.account_id,
+    date: raw.transactions?.date ?? '',
+    amount: Number(raw.amount),
+    description: raw.transactions?.description ?? null,
+    vendor_id: vendorLine?.vendor_id ?? null,
+    vendor_name: vendorLine?.vendors?.name ?? null,
+    is_cleared: raw.is_cleared,
+    plaid_linked: Boolean(raw.transactions?.plaid_transaction_id),
+    created_at: raw.transactions?.created_at ?? '',
+  };
+}
+
+/**
+ * Accounts and date range to load existing lines for, or null when there is
+ * nothing to check.
+ */
+export function duplicateSearchRange(
+  candidates: DuplicateCandidate[]
+): { accountIds: number[]; from: string; to: string } | null {
+  if (candidates.length === 0) return null;
+  const dates = candidates.map((c) => c.date).sort();
+  return {
+    accountIds: Array.from(new Set(candidates.map((c) => c.accountId))),
+    from: shiftDate(dates[0], -DUPLICATE_WINDOW_DAYS),
+    to: shiftDate(dates[dates.length - 1], DUPLICATE_WINDOW_DAYS),
+  };
+}
+
+function isCloseAmount(a: number, b: number): boolean {
+  if (a === 0 || b === 0 || Math.sign(a) !== Math.sign(b)) return false;
+  const diff = Math.abs(a - b);
+  return diff < CLOSE_AMOUNT_DOLLARS + 0.005 || diff <= Math.abs(a) * CLOSE_AMOUNT_PERCENT;
+}
+
+/** Best similarity across description and vendor name on either side */
+function bestSimilarity(
+  a: { description: string | null; vendorName: string | null },
+  b: { description: string | null; vendorName: string | null }
+): number {
+  let best = 0;
+  for (const x of [a.description, a.vendorName]) {
+    for (const y of [b.description, b.vendorName]) {
+      best = Math.max(best, descriptionSimilarity(x, y));
+    }
+  }
+  return best;
+}
+
+function compare(
+  candidate: DuplicateCandidate,
+  line: DuplicateLine
+): Omit<DuplicateMatch, 'line'> | null {
+  if (candidate.accountId !== line.account_id) return null;
+  if (!isCloseAmount(candidate.amount, line.amount)) return null;
+
+  const dayDiff = daysBetween(candidate.date, line.date);
+  if (dayDiff > DUPLICATE_WINDOW_DAYS) return null;
+
+  const sameVendor = candidate.vendorId != null && candidate.vendorId === line.vendor_id;
+  const similarity = bestSimilarity(
+    { description: candidate.description, vendorName: candidate.vendorName ?? null },
+    { description: line.description, vendorName: line.vendor_name }
+  );
+  if (!sameVendor && similarity < SIMILAR_DESCRIPTION) return null;
+
+  const amountDiff = Math.abs(Math.abs(candidate.amount) - Math.abs(line.amount));
+  const parts = [
+    amountDiff < 0.005 ? 'same amount' : `amount within $${amountDiff.toFixed(2)}`,
+    dayDiff === 0 ? 'same day' : `${dayDiff} day(s) apart`,
+    sameVendor ? 'same vendor' : 'similar description',
+  ];
+  return { dayDiff, amountDiff, similarity, sameVendor, reason: parts.join(', ') };
+}
+
+/**
+ * Existing lines that look like the candidate, closest first.
+ */
+export function findDuplicates(candidate: DuplicateCandidate, lines: DuplicateLine[]): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+  for (const line of lines) {
+    const result = compare(candidate, line);
+    if (result) matches.push({ line, ...result });
+  }
+  return matches.sort(
+    (a, b) => a.amountDiff - b.amountDiff || a.dayDiff - b.dayDiff || b.similarity - a.similarity
+  );
+}
+
+/** Order-independent key for a pair of transactions (duplicate_dismissals) */
+export function duplicatePairKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`;
+}
+
+/**
+ * Group existing cash lines that look like the same transaction.
+ * Pairs in `dismissed` (see duplicatePairKey) were marked "not duplicates"
+ * and are never linked.
+ */
+export function findDuplicateGroups(lines: DuplicateLine[], dismissed: Set<string> = new Set()): DuplicateGroup[] {
+  const sorted = [...lines].sort((a, b) => a.account_id - b.account_id || a.date.localeCompare(b.date));
+
+  // Union-find over transaction ids
+  const parent = new Map<number, number>();
+  const find = (id: number): number => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  const reasons = new Map<number, string>();
+
+  for (const line of sorted) parent.set(line.transaction_id, line.transaction_id);
+
+  for (let i = 0; i < sorted.length; i++) {
+    const a = sorted[i];
+    for (let j = i + 1; j < sorted.length; j++) {
+      const b = sorted[j];
+      if (b.account_id !== a.account_id || daysBetween(a.date, b.date) > DUPLICATE_WINDOW_DAYS) break;
+      if (a.transaction_id === b.transaction_id) continue;
+      if (dismissed.has(duplicatePairKey(a.transaction_id, b.transaction_id))) continue;
+
+      const result = compare(
+        { accountId: a.account_id, date: a.date, amount: a.amount, description: a.description, vendorId: a.vendor_id, vendorName: a.vendor_name },
+        b
+      );
+      if (!result) continue;
+
+      const rootA = find(a.transaction_id);
+      const rootB = find(b.transaction_id);
+      if (rootA !== rootB) parent.set(rootB, rootA);
+      if (!reasons.has(a.transaction_id)) reasons.set(a.transaction_id, result.reason);
+    }
+  }
+
+  const groups = new Map<number, DuplicateLine[]>();
+  for (const line of sorted) {
+    const root = find(line.transaction_id);
+    const group = groups.get(root) ?? [];
+    if (!group.some((l) => l.transaction_id === line.transaction_id)) group.push(line);
+    groups.set(root, group);
+  }
+
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .map((group) => ({
+      key: group.map((l) => l.transaction_id).sort((a, b) => a - b).join('-'),
+      account_id: group[0].account_id,
+      lines: group,
+      reason: group.map((l) => reasons.get(l.transaction_id)).find(Boolean) ?? '',
+    }))
+    .sort((a, b) => b.lines[0].date.localeCompare(a.lines[0].date));
+}
+
+/**
+ * Entry to keep when merging a group: the one already tied to the bank
+ * (Plaid-linked, then cleared), otherwise the first one entered.
+ */
+export function preferredKeeper(lines: DuplicateLine[]): DuplicateLine {
+  return [...lines].sort(
+    (a, b) =>
+      Number(b.plaid_linked) - Number(a.plaid_linked) ||
+      Number(b.is_cleared) - Number(a.is_cleared) ||
+      a.created_at.localeCompare(b.created_at) ||
+      a.transaction_id - b.transaction_id
+  )[0];
+}
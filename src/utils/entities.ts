@@ -0,0 +1,308 @@
+/**
+ * Entities & Intercompany
+ *
+ * Every account belongs to one entity (accounts.entity): Oakerds LLC,
+ * Oakerds Holdings LLC or Personal. A posting whose lines touch more than
+ * one entity is intercompany: one entity paid for (or received) something
+ * that belongs to another. buildIntercompanyLines adds due-to/due-from
+ * lines on the accounts mapped in intercompany_accounts so each entity's
+ * share of the posting nets to zero and every entity's books balance.
+ *
+ * Consolidated net worth adds up every entity's assets and liabilities and
+ * eliminates the intercompany balances, which are owed within the family of
+ * entities and cancel out (a due-from in one book is a due-to in another).
+ *
+ * SIGN CONVENTION: positive = debit, negative = credit. An intercompany
+ * account with a debit balance means the counterparty owes this entity.
+ */
+
+import { ACCOUNT_ENTITIES, ENTITY_LABELS, normalizeEntity, type AccountEntity } from './accounts';
+import type { StatementAccount, StatementLine } from './financialStatements';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+/** Report filter: one entity, or every entity combined */
+export type EntityFilter = AccountEntity | 'all';
+
+/** Row of intercompany_accounts */
+export type IntercompanyAccount = {
+  id: number;
+  entity: AccountEntity;
+  counterparty_entity: AccountEntity;
+  account_id: number;
+};
+
+/** What posting code needs to know to balance entities */
+export type EntityContext = {
+  accountEntities: Map<number, AccountEntity>;
+  intercompany: IntercompanyAccount[];
+};
+
+/** Any posting line shape that carries an account and amount */
+export type EntityPostingLine = {
+  account_id?: unknown;
+  amount?: unknown;
+};
+
+/** Balancing line on an intercompany account */
+export type IntercompanyLine = {
+  account_id: number;
+  amount: number;
+  purpose: 'business';
+};
+
+export type ConsolidationRowKey = 'assets' | 'liabilities' | 'netWorth';
+
+/** One row of the consolidated net worth table */
+export type ConsolidationRow = {
+  key: ConsolidationRowKey;
+  label: string;
+  byEntity: Record<AccountEntity, number>;
+  /** Amount removed for intercompany balances (same sign as the row) */
+  eliminations: number;
+  consolidated: number;
+};
+
+/** Both sides of one entity pair's intercompany balance */
+export type IntercompanyBalance = {
+  entity: AccountEntity;
+  counterparty: AccountEntity;
+  /** Balance of entity's account for counterparty (positive = due from) */
+  entityBalance: number;
+  /** Balance of counterparty's account for entity (positive = due from) */
+  counterpartyBalance: number;
+  /** Zero when both books agree */
+  difference: number;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const ENTITY_ACCOUNT_SELECT = 'id, entity';
+
+export const INTERCOMPANY_ACCOUNT_SELECT = 'id, entity, counterparty_entity, account_id';
+
+/** Every ordered entity pair, e.g. LLC's account for Holdings and Holdings' account for LLC */
+export const INTERCOMPANY_PAIRS: [AccountEntity, AccountEntity][] = ACCOUNT_ENTITIES.flatMap((entity) =>
+  ACCOUNT_ENTITIES.filter((other) => other !== entity).map((other): [AccountEntity, AccountEntity] => [entity, other])
+);
+
+/** Where intercompany accounts are set up, for setup errors */
+const INTERCOMPANY_SETUP_LOCATION = 'Financials > Consolidation > Intercompany Accounts';
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function emptyByEntity(): Record<AccountEntity, number> {
+  return { llc: 0, holdings: 0, personal: 0 };
+}
+
+export function matchesEntity(entity: string | null | undefined, filter: EntityFilter): boolean {
+  return filter === 'all' || normalizeEntity(entity) === filter;
+}
+
+export function entityFilterLabel(filter: EntityFilter): string {
+  return filter === 'all' ? 'All entities' : ENTITY_LABELS[filter];
+}
+
+export function normalizeIntercompanyAccount(raw: IntercompanyAccount): IntercompanyAccount {
+  return {
+    id: raw.id,
+    entity: normalizeEntity(raw.entity),
+    counterparty_entity: normalizeEntity(raw.counterparty_entity),
+    account_id: Number(raw.account_id),
+  };
+}
+
+/** Context from rows of ENTITY_ACCOUNT_SELECT and INTERCOMPANY_ACCOUNT_SELECT */
+export function buildEntityContext(
+  accounts: { id: number; entity: string | null }[],
+  intercompany: IntercompanyAccount[]
+): EntityContext {
+  return {
+    accountEntities: new Map(accounts.map((a) => [a.id, normalizeEntity(a.entity)])),
+    intercompany: intercompany.map(normalizeIntercompanyAccount),
+  };
+}
+
+/** Account in `entity`'s books that holds the balance with `counterparty` */
+export function intercompanyAccountId(
+  intercompany: IntercompanyAccount[],
+  entity: AccountEntity,
+  counterparty: AccountEntity
+): number | null {
+  return intercompany.find((ic) => ic.entity === entity && ic.counterparty_entity === counterparty)?.account_id ?? null;
+}
+
+/** Entity pairs with no intercompany account yet; entries between them can't be posted */
+export function missingIntercompanyPairs(intercompany: IntercompanyAccount[]): [AccountEntity, AccountEntity][] {
+  return INTERCOMPANY_PAIRS.filter(([entity, counterparty]) => intercompanyAccountId(intercompany, entity, counterparty) == null);
+}
+
+/** "Oakerds LLC: due to/from Personal", as labelled on the Consolidation page */
+export function intercompanyPairLabel(entity: AccountEntity, counterparty: AccountEntity): string {
+  return `${ENTITY_LABELS[entity]}: due to/from ${ENTITY_LABELS[counterparty]}`;
+}
+
+/**
+ * Due-to/due-from lines that make each entity's share of a posting net to
+ * zero. An entity whose lines are net debit received value another entity
+ * paid for: it credits its due-to account and the payer debits its
+ * due-from account. Returns no lines when the posting stays within one
+ * entity. Throws when a needed intercompany account is not set up.
+ */
+export function buildIntercompanyLines(lines: EntityPostingLine[], context: EntityContext): IntercompanyLine[] {
+  const netCents = new Map<AccountEntity, number>();
+  for (const line of lines) {
+    const entity = context.accountEntities.get(Number(line.account_id)) ?? 'llc';
+    netCents.set(entity, (netCents.get(entity) ?? 0) + Math.round((Number(line.amount) || 0) * 100));
+  }
+
+  const shares = ACCOUNT_ENTITIES.map((entity) => ({ entity, cents: netCents.get(entity) ?? 0 }));
+  const receivers = shares.filter((s) => s.cents > 0);
+  const payers = shares.filter((s) => s.cents < 0).map((s) => ({ ...s, cents: -s.cents }));
+
+  const transfers: { receiver: AccountEntity; payer: AccountEntity; cents: number }[] = [];
+  for (const receiver of receivers) {
+    for (const payer of payers) {
+      const cents = Math.min(receiver.cents, payer.cents);
+      if (cents <= 0) continue;
+      transfers.push({ receiver: receiver.entity, payer: payer.entity, cents });
+      receiver.cents -= cents;
+      payer.cents -= cents;
+    }
+  }
+
+  // Check every account first so one error lists everything left to set up
+  const missing = transfers
+    .flatMap(({ receiver, payer }): [AccountEntity, AccountEntity][] => [
+      [receiver, payer],
+      [payer, receiver],
+    ])
+    .filter(([entity, counterparty]) => intercompanyAccountId(context.intercompany, entity, counterparty) == null);
+  if (missing.length > 0) {
+    const entities = ACCOUNT_ENTITIES.filter((e) => transfers.some((t) => t.receiver === e || t.payer === e));
+    throw new Error(
+      `This entry moves money between ${entities.map((e) => ENTITY_LABELS[e]).join(' and ')}, ` +
+        `but these intercompany accounts are not set: ` +
+        `${missing.map(([entity, counterparty]) => intercompanyPairLabel(entity, counterparty)).join('; ')}. ` +
+        `Choose them under ${INTERCOMPANY_SETUP_LOCATION} and try again.`
+    );
+  }
+
+  const result: IntercompanyLine[] = [];
+  for (const { receiver, payer, cents } of transfers) {
+    const dueTo = intercompanyAccountId(context.intercompany, receiver, payer)!;
+    const dueFrom = intercompanyAccountId(context.intercompany, payer, receiver)!;
+    result.push({ account_id: dueTo, amount: -cents / 100, purpose: 'business' });
+    result.push({ account_id: dueFrom, amount: cents / 100, purpose: 'business' });
+  }
+
+  return result;
+}
+
+/** Cumulative balance per account as of a date */
+function balancesAsOf(lines: StatementLine[], asOf: string): Map<number, number> {
+  const totals = new Map<number, number>();
+  for (const line of lines) {
+    if (line.date > asOf) continue;
+    totals.set(line.account_id, (totals.get(line.account_id) ?? 0) + line.amount);
+  }
+  return totals;
+}
+
+/**
+ * Assets, liabilities and net worth per entity as of a date, with the
+ * intercompany balances eliminated in the consolidated column.
+ */
+export function buildConsolidation(
+  accounts: StatementAccount[],
+  lines: StatementLine[],
+  intercompany: IntercompanyAccount[],
+  asOf: string
+): ConsolidationRow[] {
+  const balances = balancesAsOf(lines, asOf);
+  const intercompanyIds = new Set(intercompany.map((ic) => ic.account_id));
+
+  const assets = emptyByEntity();
+  const liabilities = emptyByEntity();
+  let assetEliminations = 0;
+  let liabilityEliminations = 0;
+
+  for (const account of accounts) {
+    if (account.type !== 'asset' && account.type !== 'liability') continue;
+    const balance = balances.get(account.id) ?? 0;
+    const entity = normalizeEntity(account.entity);
+
+    // Assets shown debit-positive, liabilities credit-positive
+    if (account.type === 'asset') {
+      assets[entity] += balance;
+      if (intercompanyIds.has(account.id)) assetEliminations -= balance;
+    } else {
+      liabilities[entity] -= balance;
+      if (intercompanyIds.has(account.id)) liabilityEliminations += balance;
+    }
+  }
+
+  const netWorth = emptyByEntity();
+  for (const e of ACCOUNT_ENTITIES) {
+    assets[e] = round2(assets[e]);
+    liabilities[e] = round2(liabilities[e]);
+    netWorth[e] = round2(assets[e] - liabilities[e]);
+  }
+
+  const row = (key: ConsolidationRowKey, label: string, byEntity: Record<AccountEntity, number>, eliminations: number) => {
+    const total = ACCOUNT_ENTITIES.reduce((s, e) => s + byEntity[e], 0);
+    return { key, label, byEntity, eliminations: round2(eliminations), consolidated: round2(total + eliminations) };
+  };
+
+  return [
+    row('assets', 'Total assets', assets, assetEliminations),
+    row('liabilities', 'Total liabilities', liabilities, liabilityEliminations),
+    row('netWorth', 'Net worth', netWorth, assetEliminations - liabilityEliminations),
+  ];
+}
+
+/**
+ * Intercompany balance for each entity pair with at least one account set
+ * up, from both sides. The two sides should cancel; a difference means one
+ * book recorded something the other did not.
+ */
+export function buildIntercompanyBalances(
+  intercompany: IntercompanyAccount[],
+  lines: StatementLine[],
+  asOf: string
+): IntercompanyBalance[] {
+  const balances = balancesAsOf(lines, asOf);
+  const balanceFor = (entity: AccountEntity, counterparty: AccountEntity) => {
+    const accountId = intercompanyAccountId(intercompany, entity, counterparty);
+    return accountId != null ? round2(balances.get(accountId) ?? 0) : 0;
+  };
+
+  const result: IntercompanyBalance[] = [];
+  ACCOUNT_ENTITIES.forEach((entity, i) => {
+    for (const counterparty of ACCOUNT_ENTITIES.slice(i + 1)) {
+      const hasAccount =
+        intercompanyAccountId(intercompany, entity, counterparty) != null ||
+        intercompanyAccountId(intercompany, counterparty, entity) != null;
+      if (!hasAccount) continue;
+
+      const entityBalance = balanceFor(entity, counterparty);
+      const counterpartyBalance = balanceFor(counterparty, entity);
+      result.push({
+        entity,
+        counterparty,
+        entityBalance,
+        counterpartyBalance,
+        difference: round2(entityBalance + counterpartyBalance),
+      });
+    }
+  });
+  return result;
+}
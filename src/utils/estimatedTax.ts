@@ -0,0 +1,332 @@
+/**
+ * Estimated Taxes
+ *
+ * Quarterly estimate (Form 1040-ES) from the ledger:
+ *   1. Year-to-date Schedule C and Schedule E net, classified with
+ *      classifyLine (business share only; flip costs wait for the sale)
+ *   2. Annualized by days elapsed in the year
+ *   3. Self-employment tax on Schedule C: 92.35% of net earnings, 12.4%
+ *      Social Security up to the wage base plus 2.9% Medicare
+ *   4. Federal income tax on AGI (less half the SE tax) minus the standard
+ *      and QBI deductions, through the configured brackets
+ *   5. State tax as a flat rate on AGI minus the state deduction
+ * Each 1040-ES deadline requires a cumulative 25/50/75/100% of the year's
+ * estimate; amount due is what that requires minus payments posted to the
+ * federal or state payment account by the deadline.
+ *
+ * An estimate, not a return: no additional Medicare tax, credits or safe
+ * harbor based on last year's tax.
+ *
+ * SIGN CONVENTION: positive = debit, negative = credit.
+ */
+
+import { classifyLine, type ClassifiableLineInput } from './accounts';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+export type TaxBracket = {
+  /** Top of the bracket; null for the highest bracket */
+  up_to: number | null;
+  rate: number;
+};
+
+/** Row of estimated_tax_settings */
+export type EstimatedTaxSettings = {
+  id?: number;
+  tax_year: number;
+  federal_brackets: TaxBracket[];
+  standard_deduction: number;
+  qbi_rate: number;
+  ss_wage_base: number;
+  other_income: number;
+  state_rate: number;
+  state_deduction: number;
+  federal_payment_account_id: number | null;
+  state_payment_account_id: number | null;
+};
+
+export type TaxableIncomeSummary = {
+  scheduleCIncome: number;
+  scheduleCExpenses: number;
+  scheduleCNet: number;
+  scheduleEIncome: number;
+  scheduleEExpenses: number;
+  scheduleENet: number;
+};
+
+export type EstimatedTaxBreakdown = {
+  scheduleCNet: number;
+  scheduleENet: number;
+  selfEmploymentTax: number;
+  adjustedGrossIncome: number;
+  qbiDeduction: number;
+  taxableIncome: number;
+  federalIncomeTax: number;
+  /** Federal income tax plus self-employment tax */
+  federalTotal: number;
+  stateTax: number;
+};
+
+/** A posted estimated payment (debit to a payment account) */
+export type EstimatedPayment = {
+  date: string;
+  amount: number;
+  jurisdiction: 'federal' | 'state';
+};
+
+export type QuarterDue = {
+  quarter: 1 | 2 | 3 | 4;
+  dueDate: string;
+  /** Cumulative amount the estimate requires by this deadline */
+  federalRequired: number;
+  stateRequired: number;
+  /** Cumulative payments posted by this deadline */
+  federalPaid: number;
+  statePaid: number;
+  federalDue: number;
+  stateDue: number;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const ESTIMATED_TAX_SETTINGS_SELECT =
+  'id, tax_year, federal_brackets, standard_deduction, qbi_rate, ss_wage_base, other_income, state_rate, state_deduction, federal_payment_account_id, state_payment_account_id';
+
+export const SE_EARNINGS_FACTOR = 0.9235;
+export const SOCIAL_SECURITY_RATE = 0.124;
+export const MEDICARE_RATE = 0.029;
+/** No SE tax is owed on net earnings below this */
+export const SE_TAX_MINIMUM = 400;
+
+/**
+ * Starting point for a year with no saved settings: 2026 single-filer
+ * brackets, standard deduction and Social Security wage base, and the
+ * Georgia flat rate. Edit and save them on the report for other years.
+ */
+export const DEFAULT_ESTIMATED_TAX_SETTINGS: Omit<EstimatedTaxSettings, 'tax_year'> = {
+  federal_brackets: [
+    { up_to: 12400, rate: 0.1 },
+    { up_to: 50400, rate: 0.12 },
+    { up_to: 105700, rate: 0.22 },
+    { up_to: 201775, rate: 0.24 },
+    { up_to: 256225, rate: 0.32 },
+    { up_to: 640600, rate: 0.35 },
+    { up_to: null, rate: 0.37 },
+  ],
+  standard_deduction: 16100,
+  qbi_rate: 0.2,
+  ss_wage_base: 184500,
+  other_income: 0,
+  state_rate: 0.0519,
+  state_deduction: 12000,
+  federal_payment_account_id: null,
+  state_payment_account_id: null,
+};
+
+/** Share of the year's estimate due by each 1040-ES deadline */
+const CUMULATIVE_SHARE = [0.25, 0.5, 0.75, 1] as const;
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function parseISODate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Settings from a raw row (numeric columns arrive as strings) */
+export function normalizeEstimatedTaxSettings(raw: Record<string, unknown>): EstimatedTaxSettings {
+  const brackets = Array.isArray(raw.federal_brackets) ? (raw.federal_brackets as Record<string, unknown>[]) : [];
+  const idOrNull = (v: unknown) => (v == null ? null : Number(v));
+  return {
+    id: raw.id == null ? undefined : Number(raw.id),
+    tax_year: Number(raw.tax_year),
+    federal_brackets: brackets.map((b) => ({ up_to: b.up_to == null ? null : Number(b.up_to), rate: Number(b.rate) || 0 })),
+    standard_deduction: Number(raw.standard_deduction) || 0,
+    qbi_rate: Number(raw.qbi_rate) || 0,
+    ss_wage_base: Number(raw.ss_wage_base) || 0,
+    other_income: Number(raw.other_income) || 0,
+    state_rate: Number(raw.state_rate) || 0,
+    state_deduction: Number(raw.state_deduction) || 0,
+    federal_payment_account_id: idOrNull(raw.federal_payment_account_id),
+    state_payment_account_id: idOrNull(raw.state_payment_account_id),
+  };
+}
+
+/** Reason the settings can't be used, or null when they're fine */
+export function validateEstimatedTaxSettings(settings: EstimatedTaxSettings): string | null {
+  const brackets = settings.federal_brackets;
+  if (brackets.length === 0) return 'Add at least one federal bracket.';
+  if (brackets[brackets.length - 1].up_to !== null) return 'The last federal bracket must have no upper limit.';
+  for (let i = 0; i < brackets.length; i++) {
+    const b = brackets[i];
+    if (b.rate < 0 || b.rate >= 1) return 'Bracket rates must be between 0% and 100%.';
+    if (i < brackets.length - 1) {
+      if (b.up_to === null) return 'Only the last federal bracket can have no upper limit.';
+      const prev = i > 0 ? brackets[i - 1].up_to ?? 0 : 0;
+      if (b.up_to <= prev) return 'Bracket limits must increase.';
+    }
+  }
+  if (settings.state_rate < 0 || settings.state_rate >= 1) return 'State rate must be between 0% and 100%.';
+  if (settings.qbi_rate < 0 || settings.qbi_rate > 0.2) return 'QBI rate must be between 0% and 20%.';
+  return null;
+}
+
+/**
+ * Schedule C and Schedule E totals from ledger lines. Income is shown
+ * credit-positive; refunds and credits offset within each schedule.
+ */
+export function summarizeTaxableIncome(lines: ClassifiableLineInput[]): TaxableIncomeSummary {
+  let cIncome = 0;
+  let cExpenses = 0;
+  let eIncome = 0;
+  let eExpenses = 0;
+
+  for (const line of lines) {
+    const c = classifyLine(line);
+    const amount = (Number(line.amount) || 0) * c.businessShare;
+    if (amount === 0) continue;
+
+    if (c.incomeCategory === 'job') cIncome -= amount;
+    else if (c.incomeCategory === 'rental') eIncome -= amount;
+    else if (c.expenseCategory === 'rental') eExpenses += amount;
+    else if (c.expenseCategory === 'job' || c.expenseCategory === 'marketing' || c.expenseCategory === 'overhead') {
+      cExpenses += amount;
+    }
+  }
+
+  return {
+    scheduleCIncome: round2(cIncome),
+    scheduleCExpenses: round2(cExpenses),
+    scheduleCNet: round2(cIncome - cExpenses),
+    scheduleEIncome: round2(eIncome),
+    scheduleEExpenses: round2(eExpenses),
+    scheduleENet: round2(eIncome - eExpenses),
+  };
+}
+
+/** Multiplier from year-to-date through asOf to a full year; 1 once the year is over */
+export function annualizationFactor(year: number, asOf: string): number {
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  const through = Math.min(parseISODate(asOf).getTime() + 86400000, end);
+  if (through <= start) return 0;
+  return (end - start) / (through - start);
+}
+
+/** Tax on taxable income through progressive brackets */
+export function bracketTax(taxable: number, brackets: TaxBracket[]): number {
+  let tax = 0;
+  let lower = 0;
+  for (const b of brackets) {
+    if (taxable <= lower) break;
+    const upper = b.up_to ?? Infinity;
+    tax += (Math.min(taxable, upper) - lower) * b.rate;
+    lower = upper;
+  }
+  return round2(tax);
+}
+
+export function selfEmploymentTax(scheduleCNet: number, wageBase: number): number {
+  const earnings = scheduleCNet * SE_EARNINGS_FACTOR;
+  if (earnings < SE_TAX_MINIMUM) return 0;
+  return round2(Math.min(earnings, wageBase) * SOCIAL_SECURITY_RATE + earnings * MEDICARE_RATE);
+}
+
+/** Full-year tax estimate from annual Schedule C and E net */
+export function computeEstimatedTax(
+  scheduleCNet: number,
+  scheduleENet: number,
+  settings: EstimatedTaxSettings
+): EstimatedTaxBreakdown {
+  const seTax = selfEmploymentTax(scheduleCNet, settings.ss_wage_base);
+  const agi = scheduleCNet + scheduleENet + settings.other_income - seTax / 2;
+  const beforeQbi = Math.max(0, agi - settings.standard_deduction);
+  // QBI is limited to the same rate on taxable income before the deduction
+  const qbi = Math.min(settings.qbi_rate * Math.max(0, scheduleCNet - seTax / 2), settings.qbi_rate * beforeQbi);
+  const taxable = Math.max(0, beforeQbi - qbi);
+  const federalIncomeTax = bracketTax(taxable, settings.federal_brackets);
+  const stateTax = round2(Math.max(0, agi - settings.state_deduction) * settings.state_rate);
+
+  return {
+    scheduleCNet: round2(scheduleCNet),
+    scheduleENet: round2(scheduleENet),
+    selfEmploymentTax: seTax,
+    adjustedGrossIncome: round2(agi),
+    qbiDeduction: round2(qbi),
+    taxableIncome: round2(taxable),
+    federalIncomeTax,
+    federalTotal: round2(federalIncomeTax + seTax),
+    stateTax,
+  };
+}
+
+/** A deadline on a weekend moves to the next Monday */
+function nextBusinessDay(date: Date): Date {
+  const day = date.getUTCDay();
+  const shift = day === 6 ? 2 : day === 0 ? 1 : 0;
+  return new Date(date.getTime() + shift * 86400000);
+}
+
+/** Form 1040-ES deadlines for a tax year: Apr 15, Jun 15, Sep 15 and Jan 15 of the next year */
+export function estimatedTaxDueDates(year: number): string[] {
+  return [
+    new Date(Date.UTC(year, 3, 15)),
+    new Date(Date.UTC(year, 5, 15)),
+    new Date(Date.UTC(year, 8, 15)),
+    new Date(Date.UTC(year + 1, 0, 15)),
+  ].map((d) => toISODate(nextBusinessDay(d)));
+}
+
+/**
+ * Payments that count toward a tax year: after the prior year's last
+ * deadline (a January payment for last year's fourth quarter) and through
+ * this year's last deadline.
+ */
+export function estimatedPaymentWindow(year: number): { from: string; to: string } {
+  const priorLast = parseISODate(estimatedTaxDueDates(year - 1)[3]);
+  return {
+    from: toISODate(new Date(priorLast.getTime() + 86400000)),
+    to: estimatedTaxDueDates(year)[3],
+  };
+}
+
+/** Cumulative required, paid and due at each 1040-ES deadline */
+export function buildQuarterSchedule(
+  year: number,
+  breakdown: Pick<EstimatedTaxBreakdown, 'federalTotal' | 'stateTax'>,
+  payments: EstimatedPayment[]
+): QuarterDue[] {
+  const window = estimatedPaymentWindow(year);
+  const counted = payments.filter((p) => p.date >= window.from && p.date <= window.to);
+  const paidBy = (dueDate: string, jurisdiction: EstimatedPayment['jurisdiction']) =>
+    round2(counted.filter((p) => p.jurisdiction === jurisdiction && p.date <= dueDate).reduce((s, p) => s + p.amount, 0));
+
+  return estimatedTaxDueDates(year).map((dueDate, i) => {
+    const federalRequired = round2(breakdown.federalTotal * CUMULATIVE_SHARE[i]);
+    const stateRequired = round2(breakdown.stateTax * CUMULATIVE_SHARE[i]);
+    const federalPaid = paidBy(dueDate, 'federal');
+    const statePaid = paidBy(dueDate, 'state');
+    return {
+      quarter: (i + 1) as QuarterDue['quarter'],
+      dueDate,
+      federalRequired,
+      stateRequired,
+      federalPaid,
+      statePaid,
+      federalDue: round2(Math.max(0, federalRequired - federalPaid)),
+      stateDue: round2(Math.max(0, stateRequired - statePaid)),
+    };
+  });
+}
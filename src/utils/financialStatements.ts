@@ -0,0 +1,392 @@
+/**
+ * Financial Statements
+ *
+ * Trial balance, comparative balance sheet and income statement built from
+ * transaction lines. Accounts are grouped by ACCOUNT_CODE_RANGES.
+ *
+ * SIGN CONVENTION
+ * - Line amounts: positive = debit, negative = credit.
+ * - Statements show each section in its natural sign: assets and expenses
+ *   debit-positive; liabilities, equity and income credit-positive.
+ *
+ * Fiscal years are calendar years. On the balance sheet, income and expense
+ * before January 1 roll into "Retained earnings" and the year to date shows
+ * as "Net income (year to date)".
+ */
+
+import { ACCOUNT_CODE_RANGES, isCodeInRange, normalizeEntity, type AccountEntity } from './accounts';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+export type StatementAccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+export type StatementAccount = {
+  id: number;
+  name: string;
+  code: string | null;
+  type: StatementAccountType;
+  /** Missing on computed rows (retained earnings) */
+  entity?: AccountEntity;
+};
+
+export type StatementLine = {
+  account_id: number;
+  amount: number;
+  date: string; // YYYY-MM-DD
+};
+
+export type RawStatementAccount = {
+  id: number;
+  name: string;
+  code: string | null;
+  entity: string | null;
+  account_types: { name: string } | null;
+};
+
+export type RawStatementLine = {
+  account_id: number;
+  amount: number;
+  transactions: { date: string } | null;
+};
+
+export type StatementPeriodType = 'month' | 'quarter' | 'year';
+
+export type StatementPeriod = {
+  label: string;
+  start: string;
+  end: string;
+};
+
+export type StatementRow = {
+  /** null for computed rows (retained earnings, net income) */
+  accountId: number | null;
+  code: string | null;
+  name: string;
+  values: number[];
+};
+
+export type StatementGroup = {
+  key: string;
+  label: string;
+  rows: StatementRow[];
+  totals: number[];
+};
+
+export type StatementSection = {
+  key: string;
+  label: string;
+  groups: StatementGroup[];
+  totals: number[];
+};
+
+export type FinancialStatement = {
+  title: string;
+  periods: StatementPeriod[];
+  sections: StatementSection[];
+  /** Bottom lines, e.g. "Net income" */
+  footer: { label: string; values: number[] }[];
+};
+
+export type TrialBalanceRow = {
+  account: StatementAccount;
+  debit: number;
+  credit: number;
+};
+
+export type TrialBalance = {
+  asOf: string;
+  rows: TrialBalanceRow[];
+  totalDebit: number;
+  totalCredit: number;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const STATEMENT_ACCOUNT_SELECT = 'id, name, code, entity, account_types ( name )';
+
+export const STATEMENT_LINE_SELECT = 'account_id, amount, transactions!inner ( date )';
+
+type GroupDef = { key: string; label: string; min: number; max: number };
+
+const R = ACCOUNT_CODE_RANGES;
+
+/** Sub-groups per account type; the first matching range wins, the rest fall into "Other" */
+const GROUPS: Record<StatementAccountType, GroupDef[]> = {
+  asset: [
+    { key: 'bank', label: 'Cash & bank', min: R.BANK_MIN, max: R.BANK_MAX },
+    { key: 'fixedAsset', label: 'Equipment & vehicles', min: R.FIXED_ASSET_MIN, max: R.FIXED_ASSET_MAX },
+    { key: 'reAsset', label: 'Real estate', min: R.RE_ASSET_MIN, max: R.RE_ASSET_MAX },
+  ],
+  liability: [
+    { key: 'businessCard', label: 'Business credit cards', min: R.BUSINESS_CARD_MIN, max: R.BUSINESS_CARD_MAX },
+    { key: 'personalCard', label: 'Personal credit cards', min: R.PERSONAL_CARD_MIN, max: R.PERSONAL_CARD_MAX },
+    { key: 'personalDebt', label: 'Personal debt', min: R.PERSONAL_DEBT_MIN, max: R.PERSONAL_DEBT_MAX },
+    { key: 'heloc', label: 'HELOC', min: R.HELOC_MIN, max: R.HELOC_MAX },
+    { key: 'mortgage', label: 'Mortgages & hard money', min: R.RE_MORTGAGE_MIN, max: R.RE_MORTGAGE_MAX },
+  ],
+  equity: [{ key: 'equity', label: 'Owner equity', min: R.EQUITY_MIN, max: R.EQUITY_MAX }],
+  income: [
+    { key: 'jobIncome', label: 'Job income', min: R.JOB_INCOME_MIN, max: R.JOB_INCOME_MAX },
+    { key: 'rentalIncome', label: 'Rental income', min: R.RENTAL_INCOME_MIN, max: R.RENTAL_INCOME_MAX },
+  ],
+  expense: [
+    { key: 'overhead', label: 'Overhead', min: R.OVERHEAD_MIN, max: R.OVERHEAD_MAX },
+    { key: 'marketing', label: 'Marketing', min: R.MARKETING_MIN, max: R.MARKETING_MAX },
+    { key: 'rentalExpense', label: 'Rental expenses', min: R.RENTAL_EXPENSE_MIN, max: R.RENTAL_EXPENSE_MAX },
+    { key: 'flipExpense', label: 'Flip costs', min: R.FLIP_EXPENSE_MIN, max: R.FLIP_EXPENSE_MAX },
+    { key: 'reExpense', label: 'Other real estate expenses', min: R.REAL_ESTATE_EXPENSE_MIN, max: R.REAL_ESTATE_EXPENSE_MAX },
+    { key: 'personal', label: 'Personal', min: R.PERSONAL_MIN, max: R.PERSONAL_MAX },
+    { key: 'personalRe', label: 'Personal real estate', min: R.PERSONAL_RE_EXPENSE_MIN, max: R.PERSONAL_RE_EXPENSE_MAX },
+  ],
+};
+
+const OTHER_LABELS: Record<StatementAccountType, string> = {
+  asset: 'Other assets',
+  liability: 'Other liabilities',
+  equity: 'Other equity',
+  income: 'Other income',
+  expense: 'Other expenses',
+};
+
+/** Account types reported credit-positive */
+const CREDIT_NORMAL = new Set<StatementAccountType>(['liability', 'equity', 'income']);
+
+const MONTH_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function isoDate(y: number, m0: number, d: number): string {
+  return new Date(Date.UTC(y, m0, d)).toISOString().slice(0, 10);
+}
+
+export function normalizeStatementAccount(raw: RawStatementAccount): StatementAccount | null {
+  const type = raw.account_types?.name as StatementAccountType | undefined;
+  if (!type || !(type in GROUPS)) return null;
+  return { id: raw.id, name: raw.name, code: raw.code, type, entity: normalizeEntity(raw.entity) };
+}
+
+export function normalizeStatementLine(raw: RawStatementLine): StatementLine {
+  return { account_id: raw.account_id, amount: Number(raw.amount), date: raw.transactions?.date ?? '' };
+}
+
+/**
+ * `count` consecutive periods ending with the one containing `endDate`,
+ * newest first (the column order on the statements).
+ */
+export function buildStatementPeriods(type: StatementPeriodType, endDate: string, count: number): StatementPeriod[] {
+  const [y, m] = endDate.split('-').map(Number);
+  const months = type === 'month' ? 1 : type === 'quarter' ? 3 : 12;
+  // First month (0-based) of the period containing endDate
+  const startMonth0 = type === 'month' ? m - 1 : type === 'quarter' ? Math.floor((m - 1) / 3) * 3 : 0;
+
+  const periods: StatementPeriod[] = [];
+  for (let i = 0; i < count; i++) {
+    const s0 = startMonth0 - i * months;
+    const start = isoDate(y, s0, 1);
+    const end = isoDate(y, s0 + months, 0);
+    const sy = Number(start.slice(0, 4));
+    const sm0 = Number(start.slice(5, 7)) - 1;
+    const label =
+      type === 'month'
+        ? `${MONTH_SHORT[sm0]} ${sy}`
+        : type === 'quarter'
+          ? `Q${Math.floor(sm0 / 3) + 1} ${sy}`
+          : String(sy);
+    periods.push({ label, start, end });
+  }
+  return periods;
+}
+
+/** Net debit per account for lines dated from..to (inclusive; from may be null) */
+function netByAccount(lines: StatementLine[], from: string | null, to: string): Map<number, number> {
+  const totals = new Map<number, number>();
+  for (const line of lines) {
+    if (line.date > to || (from && line.date < from)) continue;
+    totals.set(line.account_id, (totals.get(line.account_id) ?? 0) + line.amount);
+  }
+  return totals;
+}
+
+function groupFor(account: StatementAccount): { key: string; label: string } {
+  const def = GROUPS[account.type].find((g) => isCodeInRange(account.code, g.min, g.max));
+  return def ?? { key: `other-${account.type}`, label: OTHER_LABELS[account.type] };
+}
+
+function sortAccounts(a: StatementAccount, b: StatementAccount): number {
+  return (a.code || a.name).localeCompare(b.code || b.name, undefined, { numeric: true });
+}
+
+function sumColumns(rows: { values: number[] }[], width: number): number[] {
+  return Array.from({ length: width }, (_, i) => round2(rows.reduce((s, r) => s + (r.values[i] ?? 0), 0)));
+}
+
+/** One section for an account type, grouped by code range; all-zero rows dropped */
+function buildSection(
+  key: string,
+  label: string,
+  type: StatementAccountType,
+  accounts: StatementAccount[],
+  valuesFor: (account: StatementAccount) => number[],
+  width: number,
+  extraRows: StatementRow[] = []
+): StatementSection {
+  const sign = CREDIT_NORMAL.has(type) ? -1 : 1;
+  const groups = new Map<string, StatementGroup>();
+  const order = [...GROUPS[type].map((g) => g.key), `other-${type}`];
+
+  for (const account of accounts.filter((a) => a.type === type).sort(sortAccounts)) {
+    const values = valuesFor(account).map((v) => round2(sign * v));
+    if (values.every((v) => Math.abs(v) < 0.005)) continue;
+
+    const g = groupFor(account);
+    const group = groups.get(g.key) ?? { key: g.key, label: g.label, rows: [], totals: [] };
+    group.rows.push({ accountId: account.id, code: account.code, name: account.name, values });
+    groups.set(g.key, group);
+  }
+
+  if (extraRows.length > 0) {
+    const group = groups.get(`other-${type}`) ?? { key: `other-${type}`, label: OTHER_LABELS[type], rows: [], totals: [] };
+    group.rows.push(...extraRows);
+    groups.set(group.key, group);
+  }
+
+  const orderedGroups = order
+    .map((k) => groups.get(k))
+    .filter((g): g is StatementGroup => g != null)
+    .map((g) => ({ ...g, totals: sumColumns(g.rows, width) }));
+
+  return { key, label, groups: orderedGroups, totals: sumColumns(orderedGroups.map((g) => ({ values: g.totals })), width) };
+}
+
+/**
+ * Debit/credit balance per account as of `asOf`. Income and expense are
+ * year to date; earlier years' profit shows as a retained earnings row.
+ */
+export function buildTrialBalance(accounts: StatementAccount[], lines: StatementLine[], asOf: string): TrialBalance {
+  const yearStart = `${asOf.slice(0, 4)}-01-01`;
+  const cumulative = netByAccount(lines, null, asOf);
+  const ytd = netByAccount(lines, yearStart, asOf);
+  const priorYears = netByAccount(lines, null, isoDate(Number(asOf.slice(0, 4)), 0, 0));
+
+  const rows: TrialBalanceRow[] = [];
+  let retained = 0;
+  for (const account of [...accounts].sort(sortAccounts)) {
+    const isPl = account.type === 'income' || account.type === 'expense';
+    if (isPl) retained += priorYears.get(account.id) ?? 0;
+    const balance = round2((isPl ? ytd : cumulative).get(account.id) ?? 0);
+    if (Math.abs(balance) < 0.005) continue;
+    rows.push({ account, debit: balance > 0 ? balance : 0, credit: balance < 0 ? -balance : 0 });
+  }
+
+  retained = round2(retained);
+  if (Math.abs(retained) >= 0.005) {
+    rows.push({
+      account: { id: 0, name: 'Retained earnings (prior years)', code: null, type: 'equity' },
+      debit: retained > 0 ? retained : 0,
+      credit: retained < 0 ? -retained : 0,
+    });
+  }
+
+  return {
+    asOf,
+    rows,
+    totalDebit: round2(rows.reduce((s, r) => s + r.debit, 0)),
+    totalCredit: round2(rows.reduce((s, r) => s + r.credit, 0)),
+  };
+}
+
+/** Balance sheet as of the end of each period */
+export function buildBalanceSheet(
+  accounts: StatementAccount[],
+  lines: StatementLine[],
+  periods: StatementPeriod[]
+): FinancialStatement {
+  const width = periods.length;
+  const cumulative = periods.map((p) => netByAccount(lines, null, p.end));
+  const valuesFor = (a: StatementAccount) => cumulative.map((m) => m.get(a.id) ?? 0);
+
+  // Profit (credit-positive) per column: before the fiscal year, and year to date
+  const plAccounts = accounts.filter((a) => a.type === 'income' || a.type === 'expense');
+  const profit = (from: string | null, to: string) => {
+    const net = netByAccount(lines, from, to);
+    return round2(-plAccounts.reduce((s, a) => s + (net.get(a.id) ?? 0), 0));
+  };
+  const retained = periods.map((p) => profit(null, isoDate(Number(p.end.slice(0, 4)), 0, 0)));
+  const netIncome = periods.map((p) => profit(`${p.end.slice(0, 4)}-01-01`, p.end));
+
+  const assets = buildSection('assets', 'Assets', 'asset', accounts, valuesFor, width);
+  const liabilities = buildSection('liabilities', 'Liabilities', 'liability', accounts, valuesFor, width);
+  const equity = buildSection('equity', 'Equity', 'equity', accounts, valuesFor, width, [
+    { accountId: null, code: null, name: 'Retained earnings (prior years)', values: retained },
+    { accountId: null, code: null, name: 'Net income (year to date)', values: netIncome },
+  ]);
+
+  const liabilitiesAndEquity = liabilities.totals.map((v, i) => round2(v + equity.totals[i]));
+  const difference = assets.totals.map((v, i) => round2(v - liabilitiesAndEquity[i]));
+
+  const footer = [{ label: 'Total liabilities & equity', values: liabilitiesAndEquity }];
+  if (difference.some((v) => Math.abs(v) >= 0.005)) {
+    footer.push({ label: 'Out of balance', values: difference });
+  }
+
+  return { title: 'Balance Sheet', periods, sections: [assets, liabilities, equity], footer };
+}
+
+/** Income and expense activity within each period */
+export function buildIncomeStatement(
+  accounts: StatementAccount[],
+  lines: StatementLine[],
+  periods: StatementPeriod[]
+): FinancialStatement {
+  const width = periods.length;
+  const activity = periods.map((p) => netByAccount(lines, p.start, p.end));
+  const valuesFor = (a: StatementAccount) => activity.map((m) => m.get(a.id) ?? 0);
+
+  const income = buildSection('income', 'Income', 'income', accounts, valuesFor, width);
+  const expenses = buildSection('expenses', 'Expenses', 'expense', accounts, valuesFor, width);
+
+  return {
+    title: 'Income Statement',
+    periods,
+    sections: [income, expenses],
+    footer: [{ label: 'Net income', values: income.totals.map((v, i) => round2(v - expenses.totals[i])) }],
+  };
+}
+
+/** Rows for a spreadsheet export of a statement: header, sections, groups, accounts, totals */
+export function statementToRows(statement: FinancialStatement): (string | number)[][] {
+  const rows: (string | number)[][] = [['', ...statement.periods.map((p) => p.label)]];
+  for (const section of statement.sections) {
+    rows.push([section.label]);
+    for (const group of section.groups) {
+      rows.push([`  ${group.label}`]);
+      for (const row of group.rows) {
+        rows.push([`    ${row.code ? `${row.code} ` : ''}${row.name}`, ...row.values]);
+      }
+      rows.push([`  Total ${group.label.toLowerCase()}`, ...group.totals]);
+    }
+    rows.push([`Total ${section.label.toLowerCase()}`, ...section.totals]);
+    rows.push([]);
+  }
+  for (const line of statement.footer) {
+    rows.push([line.label, ...line.values]);
+  }
+  return rows;
+}
+
+/** Rows for a spreadsheet export of a trial balance */
+export function trialBalanceToRows(tb: TrialBalance): (string | number)[][] {
+  return [
+    ['Code', 'Account', 'Debit', 'Credit'],
+    ...tb.rows.map((r) => [r.account.code ?? '', r.account.name, r.debit || '', r.credit || '']),
+    ['', 'Total', tb.totalDebit, tb.totalCredit],
+  ];
+}
@@ -0,0 +1,339 @@
+/**
+ * Fixed Assets
+ *
+ * Register of business equipment and vehicles with their tax depreciation:
+ *   - MACRS 5-year (trucks, computers) and 7-year (tools, equipment): GDS
+ *     200% declining balance, half-year convention (IRS Pub 946 Table A-1)
+ *   - Section 179: the full cost deducted in the year placed in service
+ *   - Bonus: bonus_rate of cost in the first year, the rest over the
+ *     asset's 5- or 7-year MACRS schedule
+ * In the year of disposal MACRS allows half a year; an asset disposed of in
+ * the year it was placed in service gets nothing.
+ *
+ * Not modeled: the mid-quarter convention, Section 179 dollar and business
+ * income limits, listed-property business-use tests and recapture.
+ *
+ * Annual depreciation posts one entry per year covering every asset not yet
+ * posted: debit each asset's depreciation expense account (overhead, so it
+ * reaches Schedule C), credit its accumulated depreciation account.
+ * Disposal books the disposal year's half year of depreciation, removes the
+ * cost and accumulated depreciation and books the difference from the
+ * proceeds as a gain or loss, all in one entry.
+ */
+
+import { ACCOUNT_CODE_RANGES, isCodeInRange, isFixedAssetCode } from './accounts';
+import { accumulatedThrough, depreciationForYear, type DepreciationYear } from './depreciation';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+export type FixedAssetMethod = 'macrs_5' | 'macrs_7' | 'section_179' | 'bonus';
+
+export type RecoveryYears = 5 | 7;
+
+/** Row of fixed_assets */
+export type FixedAsset = {
+  id: number;
+  name: string;
+  description: string | null;
+  asset_account_id: number;
+  accumulated_depreciation_account_id: number;
+  depreciation_expense_account_id: number;
+  cost: number;
+  in_service_date: string;
+  method: FixedAssetMethod;
+  recovery_years: RecoveryYears;
+  bonus_rate: number;
+  disposed_on: string | null;
+  disposal_proceeds: number | null;
+  disposal_transaction_id: number | null;
+};
+
+export type FixedAssetForm = Omit<
+  FixedAsset,
+  'id' | 'cost' | 'bonus_rate' | 'disposed_on' | 'disposal_proceeds' | 'disposal_transaction_id'
+> & {
+  cost: string;
+  /** Percent, e.g. "100" */
+  bonus_rate: string;
+};
+
+/** Row of fixed_asset_depreciation_postings */
+export type FixedAssetPosting = {
+  id: number;
+  fixed_asset_id: number;
+  tax_year: number;
+  amount: number;
+  transaction_id: number | null;
+};
+
+export type FixedAssetYearSummary = {
+  assetId: number;
+  name: string;
+  expenseAccountId: number;
+  scheduled: number;
+  posted: number | null;
+};
+
+export type DisposalForm = {
+  disposed_on: string;
+  proceeds: string;
+  /** Where the sale proceeds were deposited; not needed when scrapped */
+  cash_account_id: number | null;
+  gain_loss_account_id: number | null;
+};
+
+export type DisposalEntry = {
+  lines: Record<string, unknown>[];
+  proceeds: number;
+  disposalYear: number;
+  /** Depreciation for the disposal year, booked by the disposal entry */
+  finalYearDepreciation: number;
+  accumulatedDepreciation: number;
+  bookValue: number;
+  /** Positive = gain, negative = loss */
+  gainOrLoss: number;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const FIXED_ASSET_SELECT =
+  'id, name, description, asset_account_id, accumulated_depreciation_account_id, depreciation_expense_account_id, ' +
+  'cost, in_service_date, method, recovery_years, bonus_rate, disposed_on, disposal_proceeds, disposal_transaction_id';
+
+export const FIXED_ASSET_POSTING_SELECT = 'id, fixed_asset_id, tax_year, amount, transaction_id';
+
+export const FIXED_ASSET_METHOD_LABELS: Record<FixedAssetMethod, string> = {
+  macrs_5: 'MACRS 5-year',
+  macrs_7: 'MACRS 7-year',
+  section_179: 'Section 179',
+  bonus: 'Bonus depreciation',
+};
+
+/** GDS 200% declining balance, half-year convention */
+export const MACRS_HALF_YEAR_RATES: Record<RecoveryYears, number[]> = {
+  5: [0.2, 0.32, 0.192, 0.1152, 0.1152, 0.0576],
+  7: [0.1429, 0.2449, 0.1749, 0.1249, 0.0893, 0.0892, 0.0893, 0.0446],
+};
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const yearOf = (date: string) => Number(date.slice(0, 4));
+
+export function normalizeFixedAsset(raw: FixedAsset): FixedAsset {
+  return {
+    ...raw,
+    cost: Number(raw.cost) || 0,
+    recovery_years: Number(raw.recovery_years) === 5 ? 5 : 7,
+    bonus_rate: Number(raw.bonus_rate) || 0,
+    disposal_proceeds: raw.disposal_proceeds == null ? null : Number(raw.disposal_proceeds),
+  };
+}
+
+export function normalizeFixedAssetPosting(raw: FixedAssetPosting): FixedAssetPosting {
+  return { ...raw, amount: Number(raw.amount) || 0 };
+}
+
+/** Recovery period a method implies; bonus keeps the asset's own class */
+export function recoveryYearsFor(method: FixedAssetMethod, current: RecoveryYears): RecoveryYears {
+  if (method === 'macrs_5') return 5;
+  if (method === 'macrs_7') return 7;
+  return current;
+}
+
+/** First-year amounts and table amounts per year before any disposal, rounded to cents */
+function undisposedAmounts(asset: FixedAsset): number[] {
+  if (asset.method === 'section_179') return [round2(asset.cost)];
+
+  const bonus = asset.method === 'bonus' ? round2(asset.cost * asset.bonus_rate) : 0;
+  const basis = round2(asset.cost - bonus);
+  const rates = MACRS_HALF_YEAR_RATES[asset.recovery_years];
+  let allocated = 0;
+  const amounts = rates.map((rate, i) => {
+    // The last year takes the remainder so the schedule totals the basis
+    const amount = i === rates.length - 1 ? round2(basis - allocated) : round2(basis * rate);
+    allocated = round2(allocated + amount);
+    return amount;
+  });
+  amounts[0] = round2(amounts[0] + bonus);
+  return amounts;
+}
+
+/** Year-by-year schedule for an asset, cut short by its disposal */
+export function fixedAssetSchedule(asset: FixedAsset): DepreciationYear[] {
+  const startYear = yearOf(asset.in_service_date);
+  const disposalYear = asset.disposed_on ? yearOf(asset.disposed_on) : null;
+
+  const rows: DepreciationYear[] = [];
+  let accumulated = 0;
+  undisposedAmounts(asset).forEach((full, i) => {
+    const year = startYear + i;
+    if (disposalYear != null && year > disposalYear) return;
+    let depreciation = full;
+    if (disposalYear === year) {
+      // Nothing in a same-year disposal; half a year (MACRS portion only) after that
+      depreciation = i === 0 ? 0 : asset.method === 'section_179' ? 0 : round2(full / 2);
+    }
+    accumulated = round2(accumulated + depreciation);
+    rows.push({ year, depreciation, accumulated, remaining: round2(asset.cost - accumulated) });
+  });
+  return rows;
+}
+
+/** Per-asset scheduled and posted depreciation for a year; assets with neither are left out */
+export function fixedAssetYearSummary(
+  assets: FixedAsset[],
+  postings: FixedAssetPosting[],
+  year: number
+): FixedAssetYearSummary[] {
+  return assets
+    .map((asset) => {
+      const posting = postings.find((p) => p.fixed_asset_id === asset.id && p.tax_year === year);
+      return {
+        assetId: asset.id,
+        name: asset.name,
+        expenseAccountId: asset.depreciation_expense_account_id,
+        scheduled: depreciationForYear(fixedAssetSchedule(asset), year),
+        posted: posting ? posting.amount : null,
+      };
+    })
+    .filter((row) => row.scheduled > 0 || row.posted != null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Assets with depreciation scheduled for the year and nothing posted yet */
+export function unpostedForYear(
+  assets: FixedAsset[],
+  postings: FixedAssetPosting[],
+  year: number
+): { asset: FixedAsset; amount: number }[] {
+  return assets.flatMap((asset) => {
+    if (postings.some((p) => p.fixed_asset_id === asset.id && p.tax_year === year)) return [];
+    const amount = depreciationForYear(fixedAssetSchedule(asset), year);
+    return amount > 0 ? [{ asset, amount }] : [];
+  });
+}
+
+/** Posted accumulated depreciation for an asset */
+export function postedAccumulated(assetId: number, postings: FixedAssetPosting[]): number {
+  return round2(postings.filter((p) => p.fixed_asset_id === assetId).reduce((s, p) => s + p.amount, 0));
+}
+
+/** Book value at the end of a year from the schedule */
+export function bookValueAt(asset: FixedAsset, year: number): number {
+  return round2(asset.cost - accumulatedThrough(fixedAssetSchedule(asset), year));
+}
+
+/** Reason an asset form can't be saved, or null */
+export function validateFixedAsset(form: FixedAssetForm, accounts: { id: number; code: string | null }[]): string | null {
+  if (!form.name.trim()) return 'Name is required.';
+  const cost = Number(form.cost);
+  if (!form.cost.trim() || Number.isNaN(cost) || cost <= 0) return 'Cost must be greater than zero.';
+  if (!form.in_service_date) return 'In-service date is required.';
+  if (form.method === 'bonus') {
+    const rate = Number(form.bonus_rate);
+    if (Number.isNaN(rate) || rate <= 0 || rate > 100) return 'Bonus rate must be between 0% and 100%.';
+  }
+
+  const codeOf = (id: number) => accounts.find((a) => a.id === id)?.code ?? null;
+  if (!isFixedAssetCode(codeOf(form.asset_account_id))) return 'Asset account must be a fixed asset account (15000-15999).';
+  if (!isFixedAssetCode(codeOf(form.accumulated_depreciation_account_id))) {
+    return 'Accumulated depreciation must be a fixed asset account (15000-15999).';
+  }
+  if (form.accumulated_depreciation_account_id === form.asset_account_id) {
+    return 'Accumulated depreciation needs its own account, not the asset account.';
+  }
+  if (
+    !isCodeInRange(
+      codeOf(form.depreciation_expense_account_id),
+      ACCOUNT_CODE_RANGES.OVERHEAD_MIN,
+      ACCOUNT_CODE_RANGES.OVERHEAD_MAX
+    )
+  ) {
+    return 'Depreciation expense must be an overhead account (50000-54999) so it reaches Schedule C.';
+  }
+  return null;
+}
+
+/**
+ * create_transaction_multi lines for a year's depreciation, summed per
+ * account. Non-cash, so the lines post cleared.
+ */
+export function buildFixedAssetDepreciationLines(items: { asset: FixedAsset; amount: number }[]): Record<string, unknown>[] {
+  const totals = new Map<number, number>();
+  const add = (accountId: number, amount: number) => totals.set(accountId, round2((totals.get(accountId) ?? 0) + amount));
+  for (const { asset, amount } of items) {
+    add(asset.depreciation_expense_account_id, amount);
+    add(asset.accumulated_depreciation_account_id, -amount);
+  }
+  return Array.from(totals.entries())
+    .filter(([, amount]) => amount !== 0)
+    .map(([account_id, amount]) => ({ account_id, amount, purpose: 'business', is_cleared: true }));
+}
+
+/** Reason the asset can't be disposed of as entered, or null */
+export function disposalProblem(asset: FixedAsset, postings: FixedAssetPosting[], form: DisposalForm): string | null {
+  if (asset.disposed_on) return `${asset.name} was already disposed of.`;
+  if (!form.disposed_on) return 'Disposal date is required.';
+  if (form.disposed_on < asset.in_service_date) return 'Disposal date cannot be before the in-service date.';
+  const proceeds = form.proceeds.trim() ? Number(form.proceeds) : 0;
+  if (Number.isNaN(proceeds) || proceeds < 0) return 'Proceeds cannot be negative.';
+  if (proceeds > 0 && !form.cash_account_id) return 'Choose the account the proceeds were deposited to.';
+  if (!form.gain_loss_account_id) return 'Choose the gain/loss account.';
+
+  // Earlier years must be posted; the disposal entry books the disposal year itself
+  const disposalYear = yearOf(form.disposed_on);
+  const isPosted = (year: number) => postings.some((p) => p.fixed_asset_id === asset.id && p.tax_year === year);
+  if (isPosted(disposalYear)) {
+    return `${disposalYear} depreciation is already posted for the full year. Delete that entry first; the disposal year allows half a year.`;
+  }
+  const missing = fixedAssetSchedule({ ...asset, disposed_on: form.disposed_on }).filter(
+    (row) => row.year < disposalYear && row.depreciation > 0 && !isPosted(row.year)
+  );
+  if (missing.length > 0) return `Post depreciation for ${missing.map((r) => r.year).join(', ')} first.`;
+  return null;
+}
+
+/**
+ * Entry that removes a disposed asset: the disposal year's depreciation
+ * expense, cash in for the proceeds, accumulated depreciation and cost out,
+ * and the difference as gain (credit) or loss (debit). The disposal-year
+ * credit to accumulated depreciation is netted into its single line.
+ */
+export function buildDisposalEntry(asset: FixedAsset, postings: FixedAssetPosting[], form: DisposalForm): DisposalEntry {
+  const proceeds = round2(form.proceeds.trim() ? Number(form.proceeds) : 0);
+  const disposalYear = yearOf(form.disposed_on);
+  const finalYearDepreciation = depreciationForYear(
+    fixedAssetSchedule({ ...asset, disposed_on: form.disposed_on }),
+    disposalYear
+  );
+  const posted = postedAccumulated(asset.id, postings);
+  const accumulatedDepreciation = round2(posted + finalYearDepreciation);
+  const bookValue = round2(asset.cost - accumulatedDepreciation);
+  const gainOrLoss = round2(proceeds - bookValue);
+
+  const base = { purpose: 'business', is_cleared: true };
+  const lines: Record<string, unknown>[] = [];
+  if (finalYearDepreciation > 0) {
+    lines.push({ account_id: asset.depreciation_expense_account_id, amount: finalYearDepreciation, ...base });
+  }
+  if (proceeds > 0 && form.cash_account_id) {
+    // Proceeds are a bank deposit; leave that line for reconciliation
+    lines.push({ account_id: form.cash_account_id, amount: proceeds, purpose: 'business', is_cleared: false });
+  }
+  if (posted !== 0) {
+    lines.push({ account_id: asset.accumulated_depreciation_account_id, amount: posted, ...base });
+  }
+  lines.push({ account_id: asset.asset_account_id, amount: -round2(asset.cost), ...base });
+  if (gainOrLoss !== 0 && form.gain_loss_account_id) {
+    lines.push({ account_id: form.gain_loss_account_id, amount: -gainOrLoss, ...base });
+  }
+  return { lines, proceeds, disposalYear, finalYearDepreciation, accumulatedDepreciation, bookValue, gainOrLoss };
+}
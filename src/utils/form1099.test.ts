@@ -0,0 +1,178 @@
+// FIRE (Publication 1220) 1099-NEC file tests.
+//   npm test
+
+import { describe, expect, it } from 'vitest';
+import { buildFireFile, type ContractorPayment, type FireFileInput, type TaxPayerSettings } from './form1099';
+
+const payer: TaxPayerSettings = {
+  entity: 'llc',
+  name: 'Oakerds LLC',
+  tin: '12-3456789',
+  address: '100 Main St',
+  city: 'Austin',
+  state: 'TX',
+  zip: '78701',
+  phone: '(512) 555-0100',
+  contact_name: 'Pat Oakerd',
+  contact_email: 'books@oakerds.com',
+  transmitter_control_code: '12ABC',
+};
+
+function payment(overrides: Partial<ContractorPayment>): ContractorPayment {
+  return {
+    installerId: 1,
+    firstName: 'Sam',
+    lastName: 'Rivera',
+    companyName: null,
+    taxId: '123-45-6789',
+    address: '12 Oak Ln, Round Rock, TX 78664',
+    tinType: 'ssn',
+    hasW9: true,
+    totalPaid: 1234.56,
+    ...overrides,
+  };
+}
+
+const input: FireFileInput = {
+  year: 2026,
+  payer,
+  payments: [
+    payment({}),
+    payment({
+      installerId: 2,
+      firstName: 'Lee',
+      lastName: 'Chen',
+      companyName: 'Chen Flooring',
+      taxId: '98-7654321',
+      tinType: 'ein',
+      totalPaid: 800,
+    }),
+    payment({ installerId: 3, firstName: 'Under', lastName: 'Threshold', taxId: '234-56-7890', totalPaid: 599.99 }),
+  ],
+  testFile: true,
+};
+
+/** Records without their CR/LF, in file order */
+function records(file: string): string[] {
+  return file.split('\r\n').slice(0, -1);
+}
+
+/** Publication 1220 positions are 1-based and inclusive */
+const field = (record: string, start: number, end: number) => record.slice(start - 1, end);
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+describe('buildFireFile layout', () => {
+  const file = buildFireFile(input);
+  const all = records(file);
+
+  it('writes T, A, one B per payee over the threshold, C and F', () => {
+    expect(all.map((r) => r[0])).toEqual(['T', 'A', 'B', 'B', 'C', 'F']);
+  });
+
+  it('makes every record 750 characters ending in CR/LF', () => {
+    expect(file.length).toBe(750 * 6);
+    for (let i = 0; i < 6; i++) {
+      expect(file.slice(i * 750 + 748, i * 750 + 750)).toBe('\r\n');
+    }
+    for (const r of all) expect(r).toHaveLength(748);
+  });
+
+  it('numbers the records 1 to 6 in positions 500-507', () => {
+    expect(all.map((r) => field(r, 500, 507))).toEqual([
+      '00000001',
+      '00000002',
+      '00000003',
+      '00000004',
+      '00000005',
+      '00000006',
+    ]);
+  });
+});
+
+// ============================================================================
+// TRANSMITTER AND PAYER
+// ============================================================================
+
+describe('T and A records', () => {
+  const [t, a] = records(buildFireFile(input));
+
+  it('writes the transmitter year, TIN, TCC and test indicator', () => {
+    expect(field(t, 2, 5)).toBe('2026');
+    expect(field(t, 7, 15)).toBe('123456789');
+    expect(field(t, 16, 20)).toBe('12ABC');
+    expect(field(t, 28, 28)).toBe('T');
+    expect(field(t, 296, 303)).toBe('00000002');
+  });
+
+  it('leaves the test indicator blank for a production file', () => {
+    const [prod] = records(buildFireFile({ ...input, testFile: false }));
+    expect(field(prod, 28, 28)).toBe(' ');
+  });
+
+  it('writes the payer TIN, name control and 1099-NEC return type', () => {
+    expect(field(a, 12, 20)).toBe('123456789');
+    expect(field(a, 21, 24)).toBe('OAKE');
+    expect(field(a, 26, 27)).toBe('NE');
+    expect(field(a, 28, 28)).toBe('1');
+    expect(field(a, 53, 92).trimEnd()).toBe('OAKERDS LLC');
+    expect(field(a, 216, 224)).toBe('78701    ');
+  });
+});
+
+// ============================================================================
+// PAYEES
+// ============================================================================
+
+describe('B records', () => {
+  const [, , person, company] = records(buildFireFile(input));
+
+  it('writes the payee TIN without hyphens and its TIN type', () => {
+    expect(field(person, 11, 11)).toBe('2');
+    expect(field(person, 12, 20)).toBe('123456789');
+    expect(field(company, 11, 11)).toBe('1');
+    expect(field(company, 12, 20)).toBe('987654321');
+  });
+
+  it('puts the amount in cents in payment amount 1 and zeros in the rest', () => {
+    expect(field(person, 55, 66)).toBe('000000123456');
+    expect(field(company, 55, 66)).toBe('000000080000');
+    expect(field(person, 67, 270)).toBe('0'.repeat(204));
+  });
+
+  it('names the TIN holder first: the person for an SSN, the company for an EIN', () => {
+    expect(field(person, 7, 10)).toBe('RIVE');
+    expect(field(person, 288, 327).trimEnd()).toBe('SAM RIVERA');
+    expect(field(company, 7, 10)).toBe('CHEN');
+    expect(field(company, 288, 327).trimEnd()).toBe('CHEN FLOORING');
+    expect(field(company, 328, 367).trimEnd()).toBe('LEE CHEN');
+  });
+
+  it('splits the payee address into street, city, state and ZIP', () => {
+    expect(field(person, 368, 407).trimEnd()).toBe('12 OAK LN');
+    expect(field(person, 448, 487).trimEnd()).toBe('ROUND ROCK');
+    expect(field(person, 488, 489)).toBe('TX');
+    expect(field(person, 490, 498)).toBe('78664    ');
+  });
+});
+
+// ============================================================================
+// TOTALS
+// ============================================================================
+
+describe('C and F records', () => {
+  const [, , , , c, f] = records(buildFireFile(input));
+
+  it('counts the payees and totals payment amount 1', () => {
+    expect(field(c, 2, 9)).toBe('00000002');
+    expect(field(c, 16, 33)).toBe('000000000000203456');
+    expect(field(c, 34, 339)).toBe('0'.repeat(306));
+  });
+
+  it('counts one payer and the payees in the end of transmission record', () => {
+    expect(field(f, 2, 9)).toBe('00000001');
+    expect(field(f, 50, 57)).toBe('00000002');
+  });
+});
@@ -0,0 +1,463 @@
+/**
+ * Form 1099-NEC
+ *
+ * Contractor payment totals (from installer-tagged lines) turned into what
+ * the IRS and the recipients need:
+ *   - buildFireFile: the fixed-width e-file for the IRS FIRE system in the
+ *     Publication 1220 layout - one T (transmitter), A (payer), B per payee,
+ *     C (end of payer) and F (end of transmission) record, 750 characters
+ *     each, with positions 749-750 holding CR/LF
+ *   - buildCopyBHtml: a printable page per recipient (Copy B); print it or
+ *     save it as PDF from the browser print dialog
+ *
+ * Run validate1099 first: FIRE rejects a file with a missing TIN, name or
+ * address, so the generator assumes clean input. Only payees paid at least
+ * NEC_THRESHOLD in the year get a form.
+ *
+ * installers.address is a single text field; it must read
+ * "street, city, ST 12345" (line breaks work in place of commas).
+ */
+
+import type { AccountEntity } from './accounts';
+import { formatMoney } from './format';
+import { tinTypeFromFormat, validateTin, type TinType } from './w9';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+/** Year-to-date payments to one installer */
+export type ContractorPayment = {
+  installerId: number;
+  firstName: string;
+  lastName: string;
+  companyName: string | null;
+  taxId: string | null;
+  address: string | null;
+  /** From the installer's W-9; null when not recorded */
+  tinType: TinType | null;
+  hasW9: boolean;
+  totalPaid: number;
+};
+
+/** Row of tax_payer_settings */
+export type TaxPayerSettings = {
+  id?: number;
+  entity: AccountEntity;
+  name: string;
+  tin: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  phone: string | null;
+  contact_name: string | null;
+  contact_email: string | null;
+  transmitter_control_code: string | null;
+};
+
+export type ParsedAddress = {
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+};
+
+/** '1' = EIN, '2' = SSN/ITIN (Publication 1220 Type of TIN) */
+export type FireTinType = '1' | '2';
+
+export type Form1099Issue = {
+  /** null for payer problems */
+  installerId: number | null;
+  name: string;
+  message: string;
+};
+
+export type FireFileInput = {
+  year: number;
+  payer: TaxPayerSettings;
+  /** Every installer paid in the year; payees under the threshold are left out */
+  payments: ContractorPayment[];
+  testFile: boolean;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+/** 1099-NEC is required once a payee is paid this much in the year */
+export const NEC_THRESHOLD = 600;
+
+export const TAX_PAYER_SETTINGS_SELECT =
+  'id, entity, name, tin, address, city, state, zip, phone, contact_name, contact_email, transmitter_control_code';
+
+const RECORD_LENGTH = 750;
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+const digitsOnly = (value: string | null | undefined) => (value ?? '').replace(/\D/g, '');
+
+export function payeeName(c: ContractorPayment): string {
+  return `${c.firstName} ${c.lastName}`.trim();
+}
+
+/** Split a one-line US address into street, city, state and ZIP; null when it does not parse */
+export function parseUsAddress(raw: string | null | undefined): ParsedAddress | null {
+  const text = (raw ?? '')
+    .split(/[\r\n]+/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(', ');
+  const match = text.match(/^(.+?),\s*([^,]+?),?\s+([A-Za-z]{2})\.?\s+(\d{5})(?:-?(\d{4}))?$/);
+  if (!match) return null;
+  return {
+    street: match[1].trim(),
+    city: match[2].trim(),
+    state: match[3].toUpperCase(),
+    zip: match[4] + (match[5] ?? ''),
+  };
+}
+
+/**
+ * TIN type from the W-9, else from how the TIN is written, else EIN for a
+ * company and SSN for a person
+ */
+export function tinTypeFor(c: Pick<ContractorPayment, 'taxId' | 'tinType' | 'companyName'>): FireTinType {
+  const type = c.tinType ?? tinTypeFromFormat(c.taxId);
+  if (type) return type === 'ein' ? '1' : '2';
+  return c.companyName?.trim() ? '1' : '2';
+}
+
+/** Copy B may show only the last four digits of the recipient's TIN */
+export function maskTin(raw: string | null | undefined): string {
+  const digits = digitsOnly(raw);
+  return digits.length === 9 ? `***-**-${digits.slice(5)}` : '';
+}
+
+/** Payees that need a form this year */
+export function recipientsForFiling(payments: ContractorPayment[]): ContractorPayment[] {
+  return payments.filter((c) => c.totalPaid >= NEC_THRESHOLD);
+}
+
+/**
+ * What blocks filing for payees at or over the threshold: no W-9 on file, a
+ * missing name, a missing or invalid TIN or an address that does not parse
+ */
+export function recipientIssues(payments: ContractorPayment[]): Form1099Issue[] {
+  const issues: Form1099Issue[] = [];
+  for (const c of recipientsForFiling(payments)) {
+    const name = payeeName(c) || c.companyName || `Installer #${c.installerId}`;
+    const issue = (message: string) => issues.push({ installerId: c.installerId, name, message });
+    if (!c.hasW9) issue('No W-9 on file.');
+    if (!payeeName(c) && !c.companyName?.trim()) issue('Name is missing.');
+    if (!c.taxId?.trim()) issue('Tax ID is missing.');
+    else {
+      const tinError = validateTin(c.taxId, c.tinType);
+      if (tinError) issue(tinError);
+    }
+    if (!c.address?.trim()) issue('Address is missing.');
+    else if (!parseUsAddress(c.address)) issue('Address must read "street, city, ST 12345".');
+  }
+  return issues;
+}
+
+/**
+ * Everything FIRE would reject: payer details plus recipientIssues. An
+ * empty list means the file can be generated.
+ */
+export function validate1099(payer: TaxPayerSettings | null, payments: ContractorPayment[]): Form1099Issue[] {
+  const issues: Form1099Issue[] = [];
+  const payerIssue = (message: string) => issues.push({ installerId: null, name: 'Payer', message });
+
+  if (!payer) {
+    payerIssue('Payer details are not set up for this entity.');
+  } else {
+    if (!payer.name.trim()) payerIssue('Payer name is missing.');
+    if (!payer.tin?.trim() || validateTin(payer.tin, 'ein')) payerIssue('Payer EIN must be 9 digits (XX-XXXXXXX).');
+    if (!payer.address?.trim()) payerIssue('Payer street address is missing.');
+    if (!payer.city?.trim()) payerIssue('Payer city is missing.');
+    if (!/^[A-Za-z]{2}$/.test(payer.state?.trim() ?? '')) payerIssue('Payer state must be a two-letter code.');
+    if (![5, 9].includes(digitsOnly(payer.zip).length)) payerIssue('Payer ZIP must be 5 or 9 digits.');
+    if (digitsOnly(payer.phone).length < 10) payerIssue('Payer phone number is missing.');
+    if (!payer.contact_name?.trim()) payerIssue('Contact name is missing.');
+    if (!payer.contact_email?.includes('@')) payerIssue('Contact email is missing.');
+    if (!/^[A-Za-z0-9]{5}$/.test(payer.transmitter_control_code?.trim() ?? '')) {
+      payerIssue('Transmitter Control Code (TCC) must be 5 characters.');
+    }
+  }
+
+  return [...issues, ...recipientIssues(payments)];
+}
+
+// ------------------------------------------------------------
+// FIRE FILE (Publication 1220)
+// ------------------------------------------------------------
+
+/** Uppercase, drop characters FIRE does not accept, pad or cut to length */
+function text(value: string | null | undefined, length: number, rejected = /[^A-Z0-9 &-]/g): string {
+  const clean = (value ?? '').toUpperCase().replace(rejected, '').replace(/\s+/g, ' ').trim();
+  return clean.slice(0, length).padEnd(length, ' ');
+}
+
+const addressText = (value: string | null | undefined, length: number) => text(value, length, /[^A-Z0-9 &/-]/g);
+
+function number(value: number, length: number): string {
+  return String(Math.max(0, Math.round(value))).padStart(length, '0').slice(-length);
+}
+
+const blank = (length: number) => ' '.repeat(length);
+
+/** TIN is 9 digits, no hyphen */
+const tinField = (tin: string | null | undefined) => digitsOnly(tin).slice(0, 9).padStart(9, '0');
+
+/** ZIP is 9 positions, left-justified, blank-filled for a 5-digit ZIP */
+const zipField = (zip: string | null | undefined) => digitsOnly(zip).slice(0, 9).padEnd(9, ' ');
+
+/** First four letters or digits of a name, as the IRS matches TINs against */
+export function nameControl(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/^THE\s+/, '')
+    .replace(/[^A-Z0-9&-]/g, '')
+    .slice(0, 4);
+}
+
+/** Join fields, check the layout adds up and end the record with CR/LF */
+function record(fields: string[]): string {
+  const body = fields.join('');
+  if (body.length !== RECORD_LENGTH - 2) {
+    throw new Error(`FIRE record ${body[0]} is ${body.length + 2} characters, expected ${RECORD_LENGTH}`);
+  }
+  return `${body}\r\n`;
+}
+
+const sequence = (n: number) => number(n, 8);
+
+function transmitterRecord(input: FireFileInput, payeeCount: number, seq: number): string {
+  const { payer } = input;
+  return record([
+    'T', // 1
+    number(input.year, 4), // 2-5 payment year
+    blank(1), // 6 prior year data indicator
+    tinField(payer.tin), // 7-15 transmitter TIN
+    text(payer.transmitter_control_code, 5), // 16-20 TCC
+    blank(7), // 21-27
+    input.testFile ? 'T' : ' ', // 28 test file indicator
+    blank(1), // 29 foreign entity indicator
+    text(payer.name, 40), // 30-69 transmitter name
+    blank(40), // 70-109 transmitter name continuation
+    text(payer.name, 40), // 110-149 company name
+    blank(40), // 150-189 company name continuation
+    addressText(payer.address, 40), // 190-229 company mailing address
+    text(payer.city, 40), // 230-269 company city
+    text(payer.state, 2), // 270-271 company state
+    zipField(payer.zip), // 272-280 company ZIP
+    blank(15), // 281-295
+    number(payeeCount, 8), // 296-303 total number of payees
+    text(payer.contact_name, 40), // 304-343 contact name
+    digitsOnly(payer.phone).slice(0, 15).padEnd(15, ' '), // 344-358 contact phone
+    (payer.contact_email ?? '').trim().slice(0, 50).padEnd(50, ' '), // 359-408 contact email
+    blank(91), // 409-499
+    sequence(seq), // 500-507 record sequence number
+    blank(10), // 508-517
+    'I', // 518 vendor indicator: in-house software
+    blank(221), // 519-739 vendor fields (blank for in-house)
+    blank(1), // 740 vendor foreign entity indicator
+    blank(8), // 741-748
+  ]);
+}
+
+function payerRecord(input: FireFileInput, seq: number): string {
+  const { payer } = input;
+  return record([
+    'A', // 1
+    number(input.year, 4), // 2-5 payment year
+    blank(1), // 6 combined federal/state filing
+    blank(5), // 7-11
+    tinField(payer.tin), // 12-20 payer TIN
+    text(nameControl(payer.name), 4), // 21-24 payer name control
+    blank(1), // 25 last filing indicator
+    'NE', // 26-27 type of return: 1099-NEC
+    text('1', 18), // 28-45 amount codes: box 1 nonemployee compensation
+    blank(6), // 46-51
+    blank(1), // 52 foreign entity indicator
+    text(payer.name, 40), // 53-92 first payer name line
+    blank(40), // 93-132 second payer name line
+    '0', // 133 transfer agent indicator
+    addressText(payer.address, 40), // 134-173 payer shipping address
+    text(payer.city, 40), // 174-213 payer city
+    text(payer.state, 2), // 214-215 payer state
+    zipField(payer.zip), // 216-224 payer ZIP
+    digitsOnly(payer.phone).slice(0, 15).padEnd(15, ' '), // 225-239 payer phone
+    blank(260), // 240-499
+    sequence(seq), // 500-507 record sequence number
+    blank(241), // 508-748
+  ]);
+}
+
+function payeeRecord(input: FireFileInput, c: ContractorPayment, seq: number): string {
+  const address = parseUsAddress(c.address);
+  const tinType = tinTypeFor(c);
+  const person = payeeName(c);
+  const company = c.companyName?.trim() ?? '';
+  // The first name line belongs to whoever the TIN identifies
+  const [firstLine, secondLine] = tinType === '1' && company ? [company, person] : [person || company, person ? company : ''];
+  const control = nameControl(tinType === '1' && company ? company : c.lastName || firstLine);
+
+  const amounts = [number(c.totalPaid * 100, 12), ...Array.from({ length: 17 }, () => number(0, 12))];
+
+  return record([
+    'B', // 1
+    number(input.year, 4), // 2-5 payment year
+    blank(1), // 6 corrected return indicator
+    text(control, 4), // 7-10 name control
+    tinType, // 11 type of TIN
+    tinField(c.taxId), // 12-20 payee TIN
+    text(String(c.installerId), 20), // 21-40 payer's account number for payee
+    blank(4), // 41-44 payer's office code
+    blank(10), // 45-54
+    amounts.join(''), // 55-270 payment amounts 1-9, A-H, J (cents)
+    blank(16), // 271-286
+    blank(1), // 287 foreign country indicator
+    text(firstLine, 40), // 288-327 first payee name line
+    text(secondLine, 40), // 328-367 second payee name line
+    addressText(address?.street, 40), // 368-407 payee mailing address
+    blank(40), // 408-447
+    text(address?.city, 40), // 448-487 payee city
+    text(address?.state, 2), // 488-489 payee state
+    zipField(address?.zip), // 490-498 payee ZIP
+    blank(1), // 499
+    sequence(seq), // 500-507 record sequence number
+    blank(36), // 508-543
+    blank(1), // 544 second TIN notice
+    blank(2), // 545-546
+    blank(1), // 547 direct sales indicator
+    blank(1), // 548 FATCA filing requirement indicator
+    blank(114), // 549-662
+    blank(60), // 663-722 special data entries
+    number(0, 12), // 723-734 state income tax withheld
+    number(0, 12), // 735-746 local income tax withheld
+    blank(2), // 747-748 combined federal/state code
+  ]);
+}
+
+function endOfPayerRecord(recipients: ContractorPayment[], seq: number): string {
+  const totalCents = recipients.reduce((sum, c) => sum + Math.round(c.totalPaid * 100), 0);
+  const controlTotals = [number(totalCents, 18), ...Array.from({ length: 17 }, () => number(0, 18))];
+  return record([
+    'C', // 1
+    number(recipients.length, 8), // 2-9 number of payees
+    blank(6), // 10-15
+    controlTotals.join(''), // 16-339 control totals 1-9, A-H, J
+    blank(160), // 340-499
+    sequence(seq), // 500-507 record sequence number
+    blank(241), // 508-748
+  ]);
+}
+
+function endOfTransmissionRecord(payeeCount: number, seq: number): string {
+  return record([
+    'F', // 1
+    number(1, 8), // 2-9 number of A records
+    number(0, 21), // 10-30 zeros
+    blank(19), // 31-49
+    number(payeeCount, 8), // 50-57 total number of payees
+    blank(442), // 58-499
+    sequence(seq), // 500-507 record sequence number
+    blank(241), // 508-748
+  ]);
+}
+
+/** The complete FIRE file for one payer's 1099-NECs */
+export function buildFireFile(input: FireFileInput): string {
+  const recipients = recipientsForFiling(input.payments);
+  let seq = 1;
+  const records = [transmitterRecord(input, recipients.length, seq++), payerRecord(input, seq++)];
+  for (const c of recipients) records.push(payeeRecord(input, c, seq++));
+  records.push(endOfPayerRecord(recipients, seq++));
+  records.push(endOfTransmissionRecord(recipients.length, seq++));
+  return records.join('');
+}
+
+// ------------------------------------------------------------
+// COPY B
+// ------------------------------------------------------------
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatEin(raw: string | null | undefined): string {
+  const digits = digitsOnly(raw);
+  return digits.length === 9 ? `${digits.slice(0, 2)}-${digits.slice(2)}` : '';
+}
+
+function copyBPage(year: number, payer: TaxPayerSettings, c: ContractorPayment): string {
+  const address = parseUsAddress(c.address);
+  const payerLines = [
+    payer.name,
+    payer.address ?? '',
+    `${payer.city ?? ''}, ${payer.state ?? ''} ${payer.zip ?? ''}`,
+    payer.phone ?? '',
+  ];
+  const recipientName = c.companyName?.trim() && tinTypeFor(c) === '1'
+    ? c.companyName
+    : payeeName(c) || c.companyName || '';
+  const cell = (label: string, value: string) =>
+    `<div class="cell"><div class="label">${escapeHtml(label)}</div><div class="value">${value}</div></div>`;
+
+  return `<section class="form">
+  <div class="title">
+    <div><strong>Form 1099-NEC</strong> Nonemployee Compensation</div>
+    <div>Tax year ${year}</div>
+  </div>
+  <div class="copy">Copy B - For Recipient</div>
+  <div class="grid">
+    ${cell("PAYER'S name, street address, city, state, ZIP code and telephone no.", payerLines.map(escapeHtml).join('<br>'))}
+    ${cell('1 Nonemployee compensation', escapeHtml(formatMoney(c.totalPaid)))}
+    ${cell("PAYER'S TIN", escapeHtml(formatEin(payer.tin)))}
+    ${cell("RECIPIENT'S TIN", escapeHtml(maskTin(c.taxId)))}
+    ${cell("RECIPIENT'S name", escapeHtml(recipientName))}
+    ${cell('4 Federal income tax withheld', formatMoney(0))}
+    ${cell('Street address (including apt. no.)', escapeHtml(address?.street ?? c.address ?? ''))}
+    ${cell('City or town, state or province, country, and ZIP', escapeHtml(address ? `${address.city}, ${address.state} ${address.zip.length === 9 ? `${address.zip.slice(0, 5)}-${address.zip.slice(5)}` : address.zip}` : ''))}
+    ${cell('Account number', escapeHtml(String(c.installerId)))}
+  </div>
+  <p class="notice">This is important tax information and is being furnished to the IRS. If you are required to file a
+  return, a negligence penalty or other sanction may be imposed on you if this income is taxable and the IRS
+  determines that it has not been reported.</p>
+</section>`;
+}
+
+/** A standalone HTML document with one Copy B page per recipient, ready to print */
+export function buildCopyBHtml(year: number, payer: TaxPayerSettings, payments: ContractorPayment[]): string {
+  const pages = recipientsForFiling(payments).map((c) => copyBPage(year, payer, c));
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>1099-NEC Copy B ${year} - ${escapeHtml(payer.name)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 11px; color: #000; margin: 0; }
+  .form { border: 1px solid #000; margin: 24px; padding: 12px; page-break-after: always; }
+  .form:last-child { page-break-after: auto; }
+  .title { display: flex; justify-content: space-between; font-size: 14px; margin-bottom: 4px; }
+  .copy { font-weight: bold; margin-bottom: 8px; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; border-top: 1px solid #000; border-left: 1px solid #000; }
+  .cell { border-right: 1px solid #000; border-bottom: 1px solid #000; padding: 4px 6px; min-height: 36px; }
+  .label { font-size: 9px; }
+  .value { font-size: 12px; margin-top: 4px; }
+  .notice { font-size: 9px; margin-top: 8px; }
+</style>
+</head>
+<body>
+${pages.join('\n')}
+</body>
+</html>`;
+}
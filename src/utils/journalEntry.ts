@@ -0,0 +1,198 @@
+/**
+ * General Journal Entries
+ *
+ * Free-form multi-line entries posted through create_transaction_multi:
+ * depreciation, owner draws, loan corrections, opening balances.
+ *
+ * Each form line has a debit OR a credit (typed as strings while editing).
+ * Posted amounts follow the ledger sign convention: debit = positive,
+ * credit = negative. Memos go to create_transaction_multi with each line.
+ */
+
+import type { Purpose } from './accounts';
+import { allocateMixedAmount, type MixedAllocationMap } from './mixedAllocation';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+/** One line of the journal form */
+export type JournalLine = {
+  key: number;
+  accountId: number | null;
+  debit: string;
+  credit: string;
+  purpose: Purpose;
+  jobId: number | null;
+  dealId: number | null;
+  memo: string;
+};
+
+/** Line as stored in journal_entry_templates.lines */
+export type JournalTemplateLine = {
+  account_id: number | null;
+  debit: number;
+  credit: number;
+  purpose: Purpose;
+  job_id: number | null;
+  real_estate_deal_id: number | null;
+  memo: string | null;
+};
+
+export type JournalTemplate = {
+  id: number;
+  name: string;
+  description: string | null;
+  lines: JournalTemplateLine[];
+};
+
+export type JournalTotals = {
+  debits: number;
+  credits: number;
+  /** debits - credits; 0 when balanced */
+  difference: number;
+};
+
+/** Account choice for journal lines */
+export type JournalAccount = {
+  id: number;
+  name: string;
+  code: string | null;
+  purpose_default: Purpose | null;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const JOURNAL_TEMPLATE_SELECT = 'id, name, description, lines';
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+let nextLineKey = 1;
+
+export function emptyJournalLine(purpose: Purpose = 'business'): JournalLine {
+  return {
+    key: nextLineKey++,
+    accountId: null,
+    debit: '',
+    credit: '',
+    purpose,
+    jobId: null,
+    dealId: null,
+    memo: '',
+  };
+}
+
+/** Parsed amount of a debit/credit field; blank or invalid = 0 */
+export function parseJournalAmount(value: string): number {
+  const n = Number(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(n) ? round2(n) : 0;
+}
+
+/** Signed ledger amount of a line (debit positive, credit negative) */
+export function journalLineAmount(line: JournalLine): number {
+  return round2(parseJournalAmount(line.debit) - parseJournalAmount(line.credit));
+}
+
+export function journalTotals(lines: JournalLine[]): JournalTotals {
+  const debits = round2(lines.reduce((s, l) => s + parseJournalAmount(l.debit), 0));
+  const credits = round2(lines.reduce((s, l) => s + parseJournalAmount(l.credit), 0));
+  return { debits, credits, difference: round2(debits - credits) };
+}
+
+/** First problem that blocks posting, or null when the entry can be posted */
+export function validateJournalLines(lines: JournalLine[]): string | null {
+  const used = lines.filter((l) => l.accountId != null || l.debit.trim() || l.credit.trim());
+
+  for (const [i, line] of used.entries()) {
+    const n = i + 1;
+    const debit = parseJournalAmount(line.debit);
+    const credit = parseJournalAmount(line.credit);
+    if (line.accountId == null) return `Line ${n}: choose an account.`;
+    if (debit < 0 || credit < 0) return `Line ${n}: enter positive amounts.`;
+    if (debit > 0 && credit > 0) return `Line ${n}: enter a debit or a credit, not both.`;
+    if (debit === 0 && credit === 0) return `Line ${n}: enter a debit or credit amount.`;
+  }
+
+  if (used.length < 2) return 'A journal entry needs at least two lines.';
+
+  const totals = journalTotals(used);
+  if (totals.difference !== 0) {
+    return `Debits and credits must be equal (off by ${Math.abs(totals.difference).toFixed(2)}).`;
+  }
+  return null;
+}
+
+/** create_transaction_multi payload; optional ids only sent when set, blank lines dropped */
+export function journalLinesToRpc(lines: JournalLine[], isCleared: boolean): Record<string, unknown>[] {
+  return lines
+    .filter((l) => l.accountId != null && journalLineAmount(l) !== 0)
+    .map((l) => {
+      const payload: Record<string, unknown> = {
+        account_id: l.accountId,
+        amount: journalLineAmount(l),
+        purpose: l.purpose,
+        is_cleared: isCleared,
+      };
+      if (l.jobId) payload.job_id = l.jobId;
+      if (l.dealId) payload.real_estate_deal_id = l.dealId;
+      if (l.memo.trim()) payload.memo = l.memo.trim();
+      return payload;
+    });
+}
+
+/**
+ * Expand lines posted as 'mixed' on an account with an allocation into one
+ * business/personal line per leg (job, deal and memo are kept on each).
+ * Run before journalLinesToRpc.
+ */
+export function allocateMixedJournalLines(lines: JournalLine[], allocations: MixedAllocationMap): JournalLine[] {
+  return lines.flatMap((line) => {
+    const legs = line.purpose === 'mixed' && line.accountId != null ? allocations.get(line.accountId) : undefined;
+    if (!legs) return [line];
+
+    return allocateMixedAmount(journalLineAmount(line), legs)
+      .filter((leg) => leg.amount !== 0)
+      .map((leg) => ({
+        ...emptyJournalLine(leg.purpose),
+        accountId: leg.account_id ?? line.accountId,
+        debit: leg.amount > 0 ? leg.amount.toFixed(2) : '',
+        credit: leg.amount < 0 ? (-leg.amount).toFixed(2) : '',
+        jobId: line.jobId,
+        dealId: line.dealId,
+        memo: line.memo,
+      }));
+  });
+}
+
+/** Template lines from the form; amounts are kept only when `withAmounts` */
+export function journalLinesToTemplate(lines: JournalLine[], withAmounts: boolean): JournalTemplateLine[] {
+  return lines
+    .filter((l) => l.accountId != null)
+    .map((l) => ({
+      account_id: l.accountId,
+      debit: withAmounts ? parseJournalAmount(l.debit) : 0,
+      credit: withAmounts ? parseJournalAmount(l.credit) : 0,
+      purpose: l.purpose,
+      job_id: l.jobId,
+      real_estate_deal_id: l.dealId,
+      memo: l.memo.trim() || null,
+    }));
+}
+
+export function journalLinesFromTemplate(template: JournalTemplate): JournalLine[] {
+  return template.lines.map((t) => ({
+    ...emptyJournalLine(t.purpose ?? 'business'),
+    accountId: t.account_id,
+    debit: t.debit ? t.debit.toFixed(2) : '',
+    credit: t.credit ? t.credit.toFixed(2) : '',
+    jobId: t.job_id,
+    dealId: t.real_estate_deal_id,
+    memo: t.memo ?? '',
+  }));
+}
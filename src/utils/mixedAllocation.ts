@@ -0,0 +1,156 @@
+/**
+ * Mixed-Purpose Allocation
+ *
+ * Accounts whose purpose_default is 'mixed' (phone, truck, home office
+ * utilities) can carry an allocation in accounts.mixed_allocation: a list of
+ * percentage legs, each business or personal, optionally posted to another
+ * account (e.g. the personal share of the phone bill to a personal expense
+ * account). Entry forms expand any line posted with purpose 'mixed' on such
+ * an account into one line per leg before calling create_transaction_multi,
+ * so the ledger only holds business and personal lines.
+ *
+ * Lines still stored as 'mixed' (posted before the account had an
+ * allocation) are split by the account's business share when classified.
+ */
+
+import type { Purpose } from './accounts';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+export type AllocationPurpose = 'business' | 'personal';
+
+/** One leg of accounts.mixed_allocation */
+export type MixedAllocationLeg = {
+  purpose: AllocationPurpose;
+  percent: number;
+  /** Account the share posts to; null = the account itself */
+  account_id: number | null;
+};
+
+/** account_id -> allocation legs, for accounts that have one */
+export type MixedAllocationMap = Map<number, MixedAllocationLeg[]>;
+
+/** Amount share of one leg (signed like the line it came from) */
+export type MixedAllocationAmount = MixedAllocationLeg & { amount: number };
+
+/** Any posting line shape that carries an account, amount and purpose */
+type AllocatableLine = {
+  account_id?: unknown;
+  amount?: unknown;
+  purpose?: unknown;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const MIXED_ALLOCATION_SELECT = 'id, mixed_allocation';
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+/** Clean a raw mixed_allocation value; null when missing or empty */
+export function normalizeMixedAllocation(raw: unknown): MixedAllocationLeg[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  return raw.map((leg: Partial<MixedAllocationLeg>) => ({
+    purpose: leg.purpose === 'personal' ? 'personal' : 'business',
+    percent: Number(leg.percent) || 0,
+    account_id: leg.account_id != null ? Number(leg.account_id) : null,
+  }));
+}
+
+/** Map of accounts that have an allocation, from rows of MIXED_ALLOCATION_SELECT */
+export function buildMixedAllocationMap(rows: { id: number; mixed_allocation: unknown }[]): MixedAllocationMap {
+  const map: MixedAllocationMap = new Map();
+  for (const row of rows) {
+    const legs = normalizeMixedAllocation(row.mixed_allocation);
+    if (legs) map.set(row.id, legs);
+  }
+  return map;
+}
+
+/** Validate an allocation before saving. Returns an error message or null. */
+export function validateMixedAllocation(legs: MixedAllocationLeg[]): string | null {
+  if (legs.length < 2) return 'An allocation needs at least two lines.';
+  for (const [i, leg] of legs.entries()) {
+    if (!(leg.percent > 0) || leg.percent > 100) return `Line ${i + 1}: percent must be between 0 and 100.`;
+  }
+  const total = legs.reduce((sum, leg) => sum + leg.percent, 0);
+  if (Math.abs(total - 100) > 0.001) return `Percents must total 100 (currently ${total}).`;
+  return null;
+}
+
+/**
+ * Split a signed amount across allocation legs by percent. Rounds each leg
+ * to cents and puts the rounding remainder on the last leg so the legs
+ * always sum to the original amount.
+ */
+export function allocateMixedAmount(amount: number, legs: MixedAllocationLeg[]): MixedAllocationAmount[] {
+  const total = Math.round(amount * 100);
+  let allocated = 0;
+
+  return legs.map((leg, i) => {
+    const cents = i === legs.length - 1 ? total - allocated : Math.round((total * leg.percent) / 100);
+    allocated += cents;
+    return { ...leg, amount: cents / 100 };
+  });
+}
+
+/**
+ * Expand every line posted as 'mixed' on an account with an allocation into
+ * one line per leg (other fields such as job, vendor and cleared status are
+ * kept). Lines that are not mixed, or whose account has no allocation, pass
+ * through unchanged; zero-amount legs are dropped.
+ */
+export function applyMixedAllocations<T extends AllocatableLine>(lines: T[], allocations: MixedAllocationMap): T[] {
+  return lines.flatMap((line) => {
+    const legs = line.purpose === 'mixed' && typeof line.account_id === 'number' ? allocations.get(line.account_id) : undefined;
+    if (!legs) return [line];
+
+    return allocateMixedAmount(Number(line.amount) || 0, legs)
+      .filter((leg) => leg.amount !== 0)
+      .map((leg) => ({
+        ...line,
+        account_id: leg.account_id ?? line.account_id,
+        amount: leg.amount,
+        purpose: leg.purpose,
+      }));
+  });
+}
+
+/** Fraction (0-1) of a mixed line that counts as business */
+export function mixedBusinessShare(legs: MixedAllocationLeg[] | null | undefined): number {
+  if (!legs) return 1;
+  const business = legs.filter((leg) => leg.purpose === 'business').reduce((sum, leg) => sum + leg.percent, 0);
+  return Math.min(Math.max(business / 100, 0), 1);
+}
+
+/** Short description of an allocation ("70% business / 30% personal") */
+export function describeMixedAllocation(legs: MixedAllocationLeg[], accountLabel: (id: number) => string): string {
+  return legs
+    .map((leg) => `${leg.percent}% ${leg.purpose}${leg.account_id != null ? ` to ${accountLabel(leg.account_id)}` : ''}`)
+    .join(' / ');
+}
+
+/**
+ * Purpose for an imported category line: an explicit choice (rule split
+ * leg) wins, otherwise a line on an account with an allocation is posted as
+ * mixed so applyMixedAllocations splits it.
+ */
+export function importLinePurpose(
+  accountId: number,
+  explicit: Purpose | null | undefined,
+  fallback: Purpose,
+  allocations: MixedAllocationMap
+): Purpose {
+  if (explicit) return explicit;
+  return allocations.has(accountId) ? 'mixed' : fallback;
+}
+
+/** Whether applyMixedAllocations would expand a line with this account and purpose */
+export function hasMixedAllocation(accountId: number | null, purpose: Purpose, allocations: MixedAllocationMap): boolean {
+  return purpose === 'mixed' && accountId != null && allocations.has(accountId);
+}
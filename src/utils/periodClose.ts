@@ -0,0 +1,119 @@
+/**
+ * Period Close Utilities
+ *
+ * Closed-period guard shared by every form that writes to the ledger.
+ * Periods are closed sequentially (close_period / reopen_period), so the
+ * whole state is one value: the latest closed month, "YYYY-MM" or null.
+ * Any date in or before that month is locked.
+ *
+ * Locked history is never edited: it is reversed (and corrected) with new
+ * entries dated in an open month.
+ */
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/** "2026-03" -> "March 2026" */
+export function formatPeriodLabel(yearMonth: string): string {
+  const [year, month] = yearMonth.split('-');
+  return `${MONTH_NAMES[parseInt(month, 10) - 1] ?? month} ${year}`;
+}
+
+/** Month after a "YYYY-MM" period */
+export function nextPeriod(yearMonth: string): string {
+  const year = parseInt(yearMonth.substring(0, 4), 10);
+  const month = parseInt(yearMonth.substring(5, 7), 10);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+/** First and last day (YYYY-MM-DD) of a "YYYY-MM" period */
+export function periodDateRange(yearMonth: string): { start: string; end: string } {
+  const year = parseInt(yearMonth.substring(0, 4), 10);
+  const month = parseInt(yearMonth.substring(5, 7), 10);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { start: `${yearMonth}-01`, end: `${yearMonth}-${String(lastDay).padStart(2, '0')}` };
+}
+
+/** True when a YYYY-MM-DD date falls in a closed period */
+export function isDateInClosedPeriod(date: string | null | undefined, closedThrough: string | null): boolean {
+  if (!date || !closedThrough) return false;
+  return date.slice(0, 7) <= closedThrough;
+}
+
+/** First postable date (YYYY-MM-DD), or null when nothing is closed */
+export function firstOpenDate(closedThrough: string | null): string | null {
+  return closedThrough ? `${nextPeriod(closedThrough)}-01` : null;
+}
+
+/** Date to post on: the date itself when open, else the first open date */
+export function openPostingDate(date: string, closedThrough: string | null): string {
+  return isDateInClosedPeriod(date, closedThrough) ? firstOpenDate(closedThrough)! : date;
+}
+
+/** Error message for a write dated in a closed period, or null */
+export function closedPeriodError(date: string | null | undefined, closedThrough: string | null): string | null {
+  if (!date || !closedThrough || !isDateInClosedPeriod(date, closedThrough)) return null;
+  return `${formatPeriodLabel(date.slice(0, 7))} is closed (books closed through ${formatPeriodLabel(closedThrough)}). ` +
+    `Post it as an adjustment dated ${firstOpenDate(closedThrough)} instead.`;
+}
+
+/** Line shape accepted by create_transaction_multi */
+export type AdjustmentLine = {
+  account_id: number;
+  amount: number;
+  job_id: number | null;
+  vendor_id: number | null;
+  installer_id: number | null;
+  real_estate_deal_id: number | null;
+  purpose: 'business' | 'personal' | 'mixed' | null;
+  is_cleared: boolean;
+};
+
+/** RPC payload for a line - optional ids are only sent when set */
+export function adjustmentLinePayload(line: AdjustmentLine): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    account_id: line.account_id,
+    amount: line.amount,
+    is_cleared: line.is_cleared,
+  };
+  if (line.job_id) payload.job_id = line.job_id;
+  if (line.vendor_id) payload.vendor_id = line.vendor_id;
+  if (line.installer_id) payload.installer_id = line.installer_id;
+  if (line.real_estate_deal_id) payload.real_estate_deal_id = line.real_estate_deal_id;
+  if (line.purpose) payload.purpose = line.purpose;
+  return payload;
+}
+
+/**
+ * Lines that exactly undo a transaction: every amount negated, everything
+ * else kept. Cleared flags carry over so a reversed cleared bank line still
+ * ties out against the statement.
+ */
+export function reversalLines(original: AdjustmentLine[]): AdjustmentLine[] {
+  return original.map((l) => ({ ...l, amount: -Math.round(l.amount * 100) / 100 }));
+}
+
+/**
+ * Line of a correction that replaces `original`. It keeps the cleared flag
+ * only while it posts the same account and amount (the reversal cancels the
+ * original on the same statement); a changed line has not cleared the bank yet.
+ */
+export function replacementLine(original: AdjustmentLine, changes: Partial<AdjustmentLine>): AdjustmentLine {
+  const line = { ...original, ...changes };
+  const unchanged = line.account_id === original.account_id && Math.abs(line.amount - original.amount) < 0.005;
+  return { ...line, is_cleared: original.is_cleared && unchanged };
+}
+
+/** True when two line sets post the same amounts to the same accounts/job/vendor/installer/deal/purpose */
+export function sameAdjustmentLines(a: AdjustmentLine[], b: AdjustmentLine[]): boolean {
+  const totals = new Map<string, number>();
+  const add = (line: AdjustmentLine, sign: 1 | -1) => {
+    const key = [line.account_id, line.job_id, line.vendor_id, line.installer_id, line.real_estate_deal_id, line.purpose].join('|');
+    totals.set(key, (totals.get(key) ?? 0) + sign * line.amount);
+  };
+  a.forEach((l) => add(l, 1));
+  b.forEach((l) => add(l, -1));
+  return Array.from(totals.values()).every((v) => Math.abs(v) < 0.005);
+}
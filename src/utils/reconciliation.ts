@@ -0,0 +1,133 @@
+/**
+ * Bank Reconciliation Utilities
+ *
+ * Shared types and math for tying a cash/card account's cleared book
+ * balance to a bank statement ending balance.
+ *
+ * SIGN CONVENTION
+ * - Line amounts are in BOOK sign (transaction_lines.amount).
+ * - Balances shown to the user are in STATEMENT sign: bank balances as-is,
+ *   credit card balances positive when money is owed (see CODING_RULES 24).
+ */
+
+import { isCreditCardCode } from './accounts';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+/** A single account line that can be ticked off during reconciliation */
+export type ReconcilableLine = {
+  lineId: number;
+  transactionId: number;
+  date: string;
+  description: string | null;
+  payee: string;
+  amount: number;
+  /** Cleared outside reconciliation during the statement period - counted, not tickable */
+  alreadyCleared?: boolean;
+};
+
+/** Running totals for the reconciliation workspace (statement sign) */
+export type ReconciliationTotals = {
+  beginningBalance: number;
+  /** Ticked lines that increase the statement balance */
+  clearedIncreases: number;
+  /** Ticked lines that decrease the statement balance (shown positive) */
+  clearedDecreases: number;
+  clearedBalance: number;
+  statementBalance: number;
+  difference: number;
+  clearedCount: number;
+};
+
+/** Saved reconciliation header (bank_reconciliations row) */
+export type BankReconciliation = {
+  id: number;
+  account_id: number;
+  statement_end_date: string;
+  statement_ending_balance: number;
+  beginning_balance: number;
+  cleared_balance: number;
+  difference: number;
+  notes: string | null;
+  completed_at: string;
+};
+
+/** Saved reconciliation line snapshot (bank_reconciliation_lines row) */
+export type BankReconciliationLine = {
+  id: number;
+  transaction_line_id: number | null;
+  date: string;
+  description: string | null;
+  amount: number;
+};
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+/** Round to cents to avoid floating point drift in running totals */
+export function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Multiplier to convert a BOOK amount into STATEMENT sign for an account.
+ * Credit cards are credit-normal, so their book balance is flipped.
+ */
+export function getStatementSign(accountCode: string | null | undefined): 1 | -1 {
+  return isCreditCardCode(accountCode) ? -1 : 1;
+}
+
+/**
+ * Compute the running cleared balance vs statement difference.
+ * @param beginningBookBalance - sum of lines cleared on or before the statement start date (book sign)
+ * @param lines - candidate lines for this statement; alreadyCleared lines always count
+ * @param selectedLineIds - lines ticked off by the user
+ * @param statementBalance - ending balance as printed on the statement
+ * @param accountCode - reconciled account code (drives sign flip)
+ */
+export function computeReconciliationTotals(
+  beginningBookBalance: number,
+  lines: ReconcilableLine[],
+  selectedLineIds: Set<number>,
+  statementBalance: number,
+  accountCode: string | null | undefined
+): ReconciliationTotals {
+  const sign = getStatementSign(accountCode);
+  let increases = 0;
+  let decreases = 0;
+  let count = 0;
+
+  for (const line of lines) {
+    if (!line.alreadyCleared && !selectedLineIds.has(line.lineId)) continue;
+    const statementAmount = line.amount * sign;
+    if (statementAmount >= 0) {
+      increases += statementAmount;
+    } else {
+      decreases += Math.abs(statementAmount);
+    }
+    count++;
+  }
+
+  const beginningBalance = roundCents(beginningBookBalance * sign);
+  const clearedBalance = roundCents(beginningBalance + increases - decreases);
+
+  return {
+    beginningBalance,
+    clearedIncreases: roundCents(increases),
+    clearedDecreases: roundCents(decreases),
+    clearedBalance,
+    statementBalance: roundCents(statementBalance),
+    difference: roundCents(statementBalance - clearedBalance),
+    clearedCount: count,
+  };
+}
+
+/**
+ * A reconciliation can be finished only when the statement ties out to the cent.
+ */
+export function isReconciliationBalanced(totals: ReconciliationTotals): boolean {
+  return Math.abs(totals.difference) < 0.005;
+}
@@ -0,0 +1,362 @@
+/**
+ * Recurring Transaction Schedules
+ *
+ * A schedule is a template transaction plus a frequency, a next run date and
+ * an optional end date. Each run posts one entry through
+ * create_transaction_multi and advances next_run_date.
+ *
+ * - standard: posts the template lines (journal template shape) as-is
+ * - mortgage: recomputes principal / interest / escrow for the deal on every
+ *   run with computeMortgageSplit
+ *
+ * Monthly, semimonthly and annual dates are anchored to the start date's day
+ * of month, so a schedule starting on the 31st runs on the last day of short
+ * months and returns to the 31st afterwards.
+ *
+ * Pure functions - loading and posting live in the recurring components.
+ */
+
+import { ACCOUNT_CODES, type Purpose } from './accounts';
+import { computeMortgageSplit, type PaymentFrequency } from './mortgageAmortization';
+import {
+  allocateMixedJournalLines,
+  journalLinesFromTemplate,
+  journalLinesToRpc,
+  validateJournalLines,
+  type JournalTemplateLine,
+} from './journalEntry';
+import type { MixedAllocationMap } from './mixedAllocation';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+export type RecurringFrequency = 'monthly' | 'semimonthly' | 'biweekly' | 'annual';
+
+export type RecurringKind = 'standard' | 'mortgage';
+
+export type RecurringSchedule = {
+  id: number;
+  name: string;
+  description: string | null;
+  kind: RecurringKind;
+  frequency: RecurringFrequency;
+  start_date: string;
+  next_run_date: string;
+  end_date: string | null;
+  auto_post: boolean;
+  post_as_cleared: boolean;
+  is_active: boolean;
+  lines: JournalTemplateLine[];
+  real_estate_deal_id: number | null;
+  cash_account_id: number | null;
+  payment_amount: number | null;
+  last_run_date: string | null;
+};
+
+export type RecurringRun = {
+  id: number;
+  schedule_id: number;
+  run_date: string;
+  transaction_id: number | null;
+  status: 'posted' | 'skipped';
+  posted_by: 'manual' | 'auto';
+  created_at: string;
+};
+
+/** Deal fields needed to split a mortgage payment */
+export type MortgageScheduleDeal = {
+  id: number;
+  nickname: string;
+  type: string | null;
+  loan_account_id: number | null;
+  original_loan_amount: number | null;
+  interest_rate: number | null;
+  loan_term_months: number | null;
+  close_date: string | null;
+  first_payment_date: string | null;
+  payment_frequency: PaymentFrequency | null;
+  rental_monthly_taxes: number | null;
+  rental_monthly_insurance: number | null;
+};
+
+export type MortgageRunSplit = {
+  principal: number;
+  interest: number;
+  escrow: number;
+  paymentNumber: number;
+};
+
+/** Everything needed to post one run through create_transaction_multi */
+export type ScheduleRunEntry = {
+  description: string;
+  purpose: Purpose | null;
+  lines: Record<string, unknown>[];
+  split: MortgageRunSplit | null;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const RECURRING_SCHEDULE_SELECT =
+  'id, name, description, kind, frequency, start_date, next_run_date, end_date, auto_post, post_as_cleared, ' +
+  'is_active, lines, real_estate_deal_id, cash_account_id, payment_amount, last_run_date';
+
+export const RECURRING_RUN_SELECT = 'id, schedule_id, run_date, transaction_id, status, posted_by, created_at';
+
+export const MORTGAGE_SCHEDULE_DEAL_SELECT =
+  'id, nickname, type, loan_account_id, original_loan_amount, interest_rate, loan_term_months, close_date, ' +
+  'first_payment_date, payment_frequency, rental_monthly_taxes, rental_monthly_insurance';
+
+export const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  monthly: 'Monthly',
+  semimonthly: 'Semimonthly',
+  biweekly: 'Every 2 weeks',
+  annual: 'Annually',
+};
+
+/** Cap on missed runs posted in one catch-up pass per schedule */
+export const MAX_CATCH_UP_RUNS = 24;
+
+// ------------------------------------------------------------
+// DATE FUNCTIONS
+// ------------------------------------------------------------
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function parseISODate(date: string): [number, number, number] {
+  const [y, m, d] = date.split('-').map(Number);
+  return [y, m, d];
+}
+
+function toISODate(y: number, m: number, d: number): string {
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+function daysInMonth(y: number, m: number): number {
+  return new Date(Date.UTC(y, m, 0)).getUTCDate();
+}
+
+/** Same year/month shifted by `months`, on `anchorDay` clamped to the month length */
+function shiftMonths(y: number, m: number, months: number, anchorDay: number): string {
+  const index = y * 12 + (m - 1) + months;
+  const ny = Math.floor(index / 12);
+  const nm = (index % 12) + 1;
+  return toISODate(ny, nm, Math.min(anchorDay, daysInMonth(ny, nm)));
+}
+
+/**
+ * Semimonthly run days for a month: the anchor day and two weeks from it
+ * (1st & 15th, 5th & 19th); anchors from the 14th on pair with month end.
+ */
+function semimonthlyDays(anchorDay: number, y: number, m: number): [number, number] {
+  const last = daysInMonth(y, m);
+  if (anchorDay >= 28) return [15, last];
+  if (anchorDay >= 14 && anchorDay <= 15) return [anchorDay, last];
+  const [lo, hi] = anchorDay < 14 ? [anchorDay, anchorDay + 14] : [anchorDay - 14, anchorDay];
+  return [lo, Math.min(hi, last)];
+}
+
+/** Run date that follows `current` for a schedule starting on `startDate` */
+export function nextRunDate(current: string, frequency: RecurringFrequency, startDate: string): string {
+  const [y, m, d] = parseISODate(current);
+  const anchorDay = parseISODate(startDate)[2];
+
+  switch (frequency) {
+    case 'biweekly': {
+      const next = new Date(Date.UTC(y, m - 1, d + 14));
+      return toISODate(next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate());
+    }
+    case 'semimonthly': {
+      const [, second] = semimonthlyDays(anchorDay, y, m);
+      if (d < second) return toISODate(y, m, second);
+      const [nextFirst] = semimonthlyDays(anchorDay, m === 12 ? y + 1 : y, m === 12 ? 1 : m + 1);
+      return shiftMonths(y, m, 1, nextFirst);
+    }
+    case 'annual':
+      return shiftMonths(y, m, 12, anchorDay);
+    case 'monthly':
+    default:
+      return shiftMonths(y, m, 1, anchorDay);
+  }
+}
+
+/** Whether a run date falls inside the schedule (on or before its end date) */
+export function isWithinSchedule(schedule: Pick<RecurringSchedule, 'end_date'>, runDate: string): boolean {
+  return !schedule.end_date || runDate <= schedule.end_date;
+}
+
+/** Runs due on or before `asOf`, oldest first (at most `max`) */
+export function dueRunDates(
+  schedule: Pick<RecurringSchedule, 'is_active' | 'next_run_date' | 'end_date' | 'frequency' | 'start_date'>,
+  asOf: string,
+  max = MAX_CATCH_UP_RUNS
+): string[] {
+  const dates: string[] = [];
+  if (!schedule.is_active) return dates;
+
+  let run = schedule.next_run_date;
+  while (run <= asOf && isWithinSchedule(schedule, run) && dates.length < max) {
+    dates.push(run);
+    run = nextRunDate(run, schedule.frequency, schedule.start_date);
+  }
+  return dates;
+}
+
+/** Next `count` run dates from next_run_date, for previews */
+export function upcomingRunDates(
+  schedule: Pick<RecurringSchedule, 'next_run_date' | 'end_date' | 'frequency' | 'start_date'>,
+  count: number
+): string[] {
+  const dates: string[] = [];
+  let run = schedule.next_run_date;
+  while (dates.length < count && isWithinSchedule(schedule, run)) {
+    dates.push(run);
+    run = nextRunDate(run, schedule.frequency, schedule.start_date);
+  }
+  return dates;
+}
+
+// ------------------------------------------------------------
+// ENTRY FUNCTIONS
+// ------------------------------------------------------------
+
+/** Coerce a raw row (numeric columns come back as strings) */
+export function normalizeRecurringSchedule(raw: RecurringSchedule): RecurringSchedule {
+  return {
+    ...raw,
+    lines: Array.isArray(raw.lines) ? raw.lines : [],
+    payment_amount: raw.payment_amount != null ? Number(raw.payment_amount) : null,
+  };
+}
+
+/** First problem with a schedule's setup, or null */
+export function validateRecurringSchedule(
+  schedule: Pick<
+    RecurringSchedule,
+    'name' | 'kind' | 'start_date' | 'end_date' | 'lines' | 'real_estate_deal_id' | 'cash_account_id' | 'payment_amount'
+  >
+): string | null {
+  if (!schedule.name.trim()) return 'Name is required.';
+  if (!schedule.start_date) return 'First run date is required.';
+  if (schedule.end_date && schedule.end_date < schedule.start_date) return 'End date is before the first run.';
+
+  if (schedule.kind === 'mortgage') {
+    if (!schedule.real_estate_deal_id) return 'Choose the deal whose mortgage is paid.';
+    if (!schedule.cash_account_id) return 'Choose the account the payment comes from.';
+    if (!schedule.payment_amount || schedule.payment_amount <= 0) return 'Enter the total monthly payment.';
+    return null;
+  }
+
+  return validateJournalLines(journalLinesFromTemplate({ id: 0, name: '', description: null, lines: schedule.lines }));
+}
+
+/**
+ * Split a mortgage payment for `runDate` into cash / loan principal /
+ * interest / escrow lines, the same accounts the new-transaction mortgage
+ * split uses. Returns an error string when the deal can't be split.
+ */
+export function buildMortgageRunLines(
+  deal: MortgageScheduleDeal,
+  accounts: { id: number; code: string | null }[],
+  cashAccountId: number,
+  totalPayment: number,
+  runDate: string,
+  isCleared: boolean
+): { lines: Record<string, unknown>[]; purpose: Purpose; split: MortgageRunSplit } | string {
+  if (!deal.loan_account_id) return `${deal.nickname} has no loan account.`;
+  if (
+    !deal.original_loan_amount ||
+    deal.interest_rate == null ||
+    !deal.loan_term_months ||
+    !(deal.first_payment_date || deal.close_date)
+  ) {
+    return `${deal.nickname} is missing loan terms (amount, rate, term, first payment or close date).`;
+  }
+
+  const isPersonal = deal.type === 'personal';
+  const purpose: Purpose = isPersonal ? 'personal' : 'business';
+  const interestCode = isPersonal ? ACCOUNT_CODES.PERSONAL_MORTGAGE_INTEREST : ACCOUNT_CODES.RENTAL_MORTGAGE_INTEREST;
+  const escrowCode = isPersonal ? ACCOUNT_CODES.PERSONAL_TAXES_INSURANCE : ACCOUNT_CODES.RENTAL_TAXES_INSURANCE;
+  const interestAccount = accounts.find((a) => a.code === interestCode);
+  const escrowAccount = accounts.find((a) => a.code === escrowCode);
+  if (!interestAccount || !escrowAccount) {
+    return `Missing ${isPersonal ? 'personal' : 'rental'} mortgage accounts (${interestCode}, ${escrowCode}).`;
+  }
+
+  const split = computeMortgageSplit(
+    {
+      originalLoanAmount: deal.original_loan_amount,
+      annualRatePercent: deal.interest_rate,
+      termMonths: deal.loan_term_months,
+      startDate: (deal.close_date ?? deal.first_payment_date)!,
+      firstPaymentDate: deal.first_payment_date || undefined,
+      paymentFrequency: deal.payment_frequency || 'monthly',
+      rentalMonthlyTaxes: deal.rental_monthly_taxes || 0,
+      rentalMonthlyInsurance: deal.rental_monthly_insurance || 0,
+    },
+    runDate,
+    totalPayment
+  );
+
+  // Any rounding difference goes to escrow so the entry always balances
+  const principal = round2(split.principal);
+  const interest = round2(split.interest);
+  const escrow = round2(Math.max(0, totalPayment - principal - interest));
+  if (Math.abs(principal + interest + escrow - totalPayment) > 0.005) {
+    return `Split for ${deal.nickname} exceeds the payment of ${totalPayment.toFixed(2)}.`;
+  }
+
+  const base = { real_estate_deal_id: deal.id, purpose, is_cleared: isCleared };
+  const lines: Record<string, unknown>[] = [{ account_id: cashAccountId, amount: -round2(totalPayment), ...base }];
+  if (principal > 0) lines.push({ account_id: deal.loan_account_id, amount: principal, ...base });
+  if (interest > 0) lines.push({ account_id: interestAccount.id, amount: interest, ...base });
+  if (escrow > 0) lines.push({ account_id: escrowAccount.id, amount: escrow, ...base });
+
+  return { lines, purpose, split: { principal, interest, escrow, paymentNumber: split.paymentNumber } };
+}
+
+/** Entry for one run of a schedule, or an error string */
+export function buildScheduleRunEntry(
+  schedule: RecurringSchedule,
+  runDate: string,
+  deals: MortgageScheduleDeal[],
+  accounts: { id: number; code: string | null }[],
+  mixedAllocations: MixedAllocationMap
+): ScheduleRunEntry | string {
+  const description = (schedule.description || schedule.name).trim();
+
+  if (schedule.kind === 'mortgage') {
+    const deal = deals.find((d) => d.id === schedule.real_estate_deal_id);
+    if (!deal) return `Deal for "${schedule.name}" not found.`;
+    if (!schedule.cash_account_id || !schedule.payment_amount) return `"${schedule.name}" has no payment set up.`;
+    const result = buildMortgageRunLines(
+      deal,
+      accounts,
+      schedule.cash_account_id,
+      schedule.payment_amount,
+      runDate,
+      schedule.post_as_cleared
+    );
+    if (typeof result === 'string') return result;
+    return { description, purpose: result.purpose, lines: result.lines, split: result.split };
+  }
+
+  const lines = journalLinesFromTemplate({ id: schedule.id, name: schedule.name, description: null, lines: schedule.lines });
+  const problem = validateJournalLines(lines);
+  if (problem) return `"${schedule.name}": ${problem}`;
+  const postedLines = allocateMixedJournalLines(lines, mixedAllocations);
+  return {
+    description,
+    purpose: null,
+    lines: journalLinesToRpc(postedLines, schedule.post_as_cleared),
+    split: null,
+  };
+}
+
+/** Total cash amount of a schedule's entry (sum of debits) for lists */
+export function scheduleAmount(schedule: RecurringSchedule): number {
+  if (schedule.kind === 'mortgage') return schedule.payment_amount ?? 0;
+  return round2(schedule.lines.reduce((sum, l) => sum + (Number(l.debit) || 0), 0));
+}
@@ -0,0 +1,138 @@
+/**
+ * Split Transactions
+ *
+ * One bank line (cash side) allocated across several category lines, each
+ * with its own account, job, vendor and purpose. Used by Plaid review, bank
+ * import and the ledger edit modal.
+ *
+ * Split amounts are absolute values typed as strings while editing; the
+ * caller applies the sign (expense = debit category, income = credit
+ * category). The split lines must add up to the cash-side amount exactly.
+ */
+
+import type { Purpose } from './accounts';
+import { allocateSplits, type RuleSplit } from './categorizationRules';
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+/** One category line of a split */
+export type SplitLine = {
+  key: number;
+  accountId: number | null;
+  /** Absolute amount as typed */
+  amount: string;
+  jobId: number | null;
+  vendorId: number | null;
+  purpose: Purpose;
+};
+
+/** Defaults copied onto new split lines from the single-category form */
+export type SplitDefaults = {
+  accountId?: number | null;
+  jobId?: number | null;
+  vendorId?: number | null;
+  purpose?: Purpose;
+};
+
+/** Split line ready to post (absolute amount) */
+export type SplitLeg = {
+  account_id: number;
+  amount: number;
+  job_id: number | null;
+  vendor_id: number | null;
+  purpose: Purpose;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const MIN_SPLIT_LINES = 2;
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+let nextSplitKey = 1;
+
+export function emptySplitLine(defaults: SplitDefaults = {}): SplitLine {
+  return {
+    key: nextSplitKey++,
+    accountId: defaults.accountId ?? null,
+    amount: '',
+    jobId: defaults.jobId ?? null,
+    vendorId: defaults.vendorId ?? null,
+    purpose: defaults.purpose ?? 'business',
+  };
+}
+
+/** Parsed split amount; blank or invalid = 0 */
+export function parseSplitAmount(value: string): number {
+  const n = Number(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(n) ? round2(n) : 0;
+}
+
+export function splitAllocated(lines: SplitLine[]): number {
+  return round2(lines.reduce((s, l) => s + parseSplitAmount(l.amount), 0));
+}
+
+/** Amount still to allocate (negative when over-allocated) */
+export function splitRemaining(total: number, lines: SplitLine[]): number {
+  return round2(Math.abs(total) - splitAllocated(lines));
+}
+
+/**
+ * Starting lines when the user turns on split: the whole amount on the
+ * current category, plus an empty line to carve from it.
+ */
+export function initialSplitLines(total: number, defaults: SplitDefaults = {}): SplitLine[] {
+  return [
+    { ...emptySplitLine(defaults), amount: Math.abs(total).toFixed(2) },
+    emptySplitLine({ ...defaults, accountId: null }),
+  ];
+}
+
+/** Editable lines from a categorization rule's percentage split */
+export function splitLinesFromRule(total: number, splits: RuleSplit[], defaults: SplitDefaults = {}): SplitLine[] {
+  return allocateSplits(Math.abs(total), splits).map((leg) => ({
+    ...emptySplitLine(defaults),
+    accountId: leg.account_id,
+    amount: leg.amount.toFixed(2),
+    jobId: leg.job_id ?? defaults.jobId ?? null,
+    purpose: leg.purpose ?? defaults.purpose ?? 'business',
+  }));
+}
+
+/** First problem that blocks posting, or null when the split is complete */
+export function validateSplitLines(total: number, lines: SplitLine[]): string | null {
+  if (lines.length < MIN_SPLIT_LINES) return `A split needs at least ${MIN_SPLIT_LINES} lines`;
+
+  for (const [i, line] of lines.entries()) {
+    const n = i + 1;
+    if (line.accountId == null) return `Split line ${n}: select an account`;
+    const amount = parseSplitAmount(line.amount);
+    if (amount <= 0) return `Split line ${n}: enter an amount greater than zero`;
+  }
+
+  const remaining = splitRemaining(total, lines);
+  if (remaining > 0) return `Split is short by $${remaining.toFixed(2)}`;
+  if (remaining < 0) return `Split is over by $${(-remaining).toFixed(2)}`;
+  return null;
+}
+
+/** Posting legs of a validated split (absolute amounts) */
+export function splitLinesToLegs(lines: SplitLine[]): SplitLeg[] {
+  return lines
+    .filter((l): l is SplitLine & { accountId: number } => l.accountId != null)
+    .map((l) => ({
+      account_id: l.accountId,
+      amount: parseSplitAmount(l.amount),
+      job_id: l.jobId,
+      vendor_id: l.vendorId,
+      purpose: l.purpose,
+    }));
+}
@@ -0,0 +1,73 @@
+/**
+ * Transaction Matching Helpers
+ *
+ * Shared by the bank matcher (bank rows vs ledger lines) and duplicate
+ * detection (new entries vs existing ones): merchant-name similarity,
+ * day distance and amount distance.
+ */
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+/** Token overlap at or above this counts as "same merchant" */
+export const SIMILAR_DESCRIPTION = 0.34;
+
+/** Bank boilerplate that says nothing about the merchant */
+const NOISE_TOKENS = new Set([
+  'POS', 'DEBIT', 'CREDIT', 'PURCHASE', 'CARD', 'CHECKCARD', 'CHECK', 'ACH', 'WEB', 'PPD', 'CCD',
+  'ONLINE', 'RECURRING', 'PAYMENT', 'TRANSFER', 'FROM', 'THE', 'AND', 'DES', 'INDN', 'ID', 'CO',
+  'LLC', 'INC', 'SQ', 'TST', 'PAYPAL', 'MOBILE', 'PENDING',
+]);
+
+// ------------------------------------------------------------
+// DESCRIPTIONS
+// ------------------------------------------------------------
+
+/**
+ * Split a description into merchant tokens (uppercase, no digits, no boilerplate).
+ */
+export function tokenizeDescription(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return value
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]+/g, ' ')
+    .split(/\s+/)
+    .filter((t) => t.length >= 3 && !/\d/.test(t) && !NOISE_TOKENS.has(t));
+}
+
+/**
+ * Dice coefficient over merchant tokens (0-1).
+ * Tokens match on a shared 4-char prefix since banks truncate names.
+ */
+export function descriptionSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const ta = Array.from(new Set(tokenizeDescription(a)));
+  const tb = Array.from(new Set(tokenizeDescription(b)));
+  if (ta.length === 0 || tb.length === 0) return 0;
+
+  const same = (x: string, y: string) =>
+    x === y || (x.length >= 4 && y.length >= 4 && x.slice(0, 4) === y.slice(0, 4) && (x.startsWith(y) || y.startsWith(x)));
+
+  let shared = 0;
+  for (const x of ta) {
+    if (tb.some((y) => same(x, y))) shared++;
+  }
+  return (2 * shared) / (ta.length + tb.length);
+}
+
+// ------------------------------------------------------------
+// DATES AND AMOUNTS
+// ------------------------------------------------------------
+
+/** Whole days between two YYYY-MM-DD dates (absolute, timezone-safe) */
+export function daysBetween(a: string, b: string): number {
+  const [ay, am, ad] = a.split('-').map(Number);
+  const [by, bm, bd] = b.split('-').map(Number);
+  const ms = Date.UTC(ay, am - 1, ad) - Date.UTC(by, bm - 1, bd);
+  return Math.abs(Math.round(ms / 86_400_000));
+}
+
+/** Absolute difference between two dollar amounts, in whole cents */
+export function amountDiffCents(a: number, b: number): number {
+  return Math.round(Math.abs(a - b) * 100);
+}
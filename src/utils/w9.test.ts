@@ -0,0 +1,66 @@
+// W-9 TIN validation tests.
+//   npm test
+
+import { describe, expect, it } from 'vitest';
+import { isItin, validateTin } from './w9';
+
+// ============================================================================
+// SSN
+// ============================================================================
+
+describe('validateTin for SSNs', () => {
+  it('accepts a well-formed SSN', () => {
+    expect(validateTin('123-45-6789', 'ssn')).toBeNull();
+    expect(validateTin('123456789', 'ssn')).toBeNull();
+  });
+
+  it('rejects areas 000 and 666, group 00 and serial 0000', () => {
+    expect(validateTin('000-12-3456', 'ssn')).toMatch(/area/);
+    expect(validateTin('666-12-3456', 'ssn')).toMatch(/area/);
+    expect(validateTin('123-00-4567', 'ssn')).toMatch(/group/);
+    expect(validateTin('123-45-0000', 'ssn')).toMatch(/serial/);
+  });
+});
+
+// ============================================================================
+// ITIN
+// ============================================================================
+
+describe('validateTin for ITINs', () => {
+  it('accepts 9XX numbers with a group in each ITIN range', () => {
+    const itins = ['900-50-1234', '912-65-1234', '999-70-1234', '945-88-1234', '900-90-1234', '900-92-1234', '900-94-1234', '987-99-1234'];
+    for (const tin of itins) {
+      expect(validateTin(tin, 'ssn')).toBeNull();
+      expect(validateTin(tin, null)).toBeNull();
+    }
+  });
+
+  it('rejects other 9XX numbers', () => {
+    const notItins = ['900-00-1234', '900-12-1234', '900-49-1234', '900-66-1234', '900-69-1234', '900-89-1234', '900-93-1234'];
+    for (const tin of notItins) {
+      expect(validateTin(tin, 'ssn')).toMatch(/ITIN/);
+    }
+  });
+
+  it('still rejects an ITIN with serial 0000', () => {
+    expect(validateTin('900-70-0000', 'ssn')).toMatch(/serial/);
+  });
+
+  it('isItin needs area 9XX and a group in range', () => {
+    expect(isItin('900701234')).toBe(true);
+    expect(isItin('800701234')).toBe(false);
+    expect(isItin('900931234')).toBe(false);
+    expect(isItin('90070123')).toBe(false);
+  });
+});
+
+// ============================================================================
+// EIN
+// ============================================================================
+
+describe('validateTin for EINs', () => {
+  it('accepts an EIN starting with 9 and rejects prefix 00', () => {
+    expect(validateTin('98-7654321', 'ein')).toBeNull();
+    expect(validateTin('00-1234567', 'ein')).toMatch(/prefix/);
+  });
+});
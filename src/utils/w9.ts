@@ -0,0 +1,158 @@
+/**
+ * W-9 Tracking
+ *
+ * Before paying an installer we need a W-9 on file: their TIN, how it is
+ * issued (SSN or EIN) and their federal tax classification. Without one we
+ * cannot file their 1099-NEC and may have to backup-withhold.
+ *
+ * TIN format rules follow what the IRS never issues: SSNs with area 000,
+ * 666 or 900-999, group 00 or serial 0000, and EINs with prefix 00. Area
+ * 900-999 belongs to ITINs, which are filed like SSNs: an ITIN is a 9XX
+ * number with a group in one of ITIN_GROUP_RANGES.
+ */
+
+// ------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------
+
+export type TinType = 'ssn' | 'ein';
+
+export type TaxClassification =
+  | 'individual'
+  | 'c_corporation'
+  | 's_corporation'
+  | 'partnership'
+  | 'trust_estate'
+  | 'llc_c'
+  | 'llc_s'
+  | 'llc_p'
+  | 'other';
+
+/** The W-9 columns of installers */
+export type InstallerW9 = {
+  tax_id: string | null;
+  w9_received_on: string | null;
+  tin_type: TinType | null;
+  tax_classification: TaxClassification | null;
+  backup_withholding: boolean;
+  w9_storage_path: string | null;
+  w9_file_name: string | null;
+};
+
+// ------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------
+
+export const INSTALLER_W9_SELECT =
+  'tax_id, w9_received_on, tin_type, tax_classification, backup_withholding, w9_storage_path, w9_file_name';
+
+export const TIN_TYPE_LABELS: Record<TinType, string> = {
+  ssn: 'SSN / ITIN',
+  ein: 'EIN',
+};
+
+export const TAX_CLASSIFICATION_LABELS: Record<TaxClassification, string> = {
+  individual: 'Individual / sole proprietor / single-member LLC',
+  c_corporation: 'C corporation',
+  s_corporation: 'S corporation',
+  partnership: 'Partnership',
+  trust_estate: 'Trust / estate',
+  llc_c: 'LLC taxed as C corporation',
+  llc_s: 'LLC taxed as S corporation',
+  llc_p: 'LLC taxed as partnership',
+  other: 'Other',
+};
+
+/** Group numbers (digits 4-5) the IRS issues ITINs in, inclusive */
+const ITIN_GROUP_RANGES: [number, number][] = [
+  [50, 65],
+  [70, 88],
+  [90, 92],
+  [94, 99],
+];
+
+// ------------------------------------------------------------
+// UTILITY FUNCTIONS
+// ------------------------------------------------------------
+
+/** TIN type implied by how the number is written, or null when it is just digits */
+export function tinTypeFromFormat(tin: string | null | undefined): TinType | null {
+  const text = (tin ?? '').trim();
+  if (/^\d{3}-\d{2}-\d{4}$/.test(text)) return 'ssn';
+  if (/^\d{2}-\d{7}$/.test(text)) return 'ein';
+  return null;
+}
+
+/** Whether 9 TIN digits form an ITIN: area 9XX and a group in an ITIN range */
+export function isItin(digits: string): boolean {
+  if (!/^9\d{8}$/.test(digits)) return false;
+  const group = Number(digits.slice(3, 5));
+  return ITIN_GROUP_RANGES.some(([from, to]) => group >= from && group <= to);
+}
+
+/** Reason a TIN is not valid for its type, or null when it is */
+export function validateTin(tin: string | null | undefined, tinType: TinType | null): string | null {
+  const text = (tin ?? '').trim();
+  if (!text) return null;
+
+  const digits = text.replace(/[\s-]/g, '');
+  if (!/^\d{9}$/.test(digits)) return 'Tax ID must be 9 digits (XXX-XX-XXXX or XX-XXXXXXX).';
+
+  const type = tinType ?? tinTypeFromFormat(text);
+  if (type === 'ssn') {
+    const area = digits.slice(0, 3);
+    if (area.startsWith('9')) {
+      if (!isItin(digits)) return 'A tax ID starting with 9 must be an ITIN (digits 4-5 in 50-65, 70-88, 90-92 or 94-99).';
+    } else if (area === '000' || area === '666') {
+      return 'SSN area number (first 3 digits) is not valid.';
+    }
+    if (digits.slice(3, 5) === '00') return 'SSN group number (digits 4-5) cannot be 00.';
+    if (digits.slice(5) === '0000') return 'SSN serial number (last 4 digits) cannot be 0000.';
+  } else if (type === 'ein') {
+    if (digits.startsWith('00')) return 'EIN prefix (first 2 digits) cannot be 00.';
+  }
+  return null;
+}
+
+/** Standard written form of a TIN: XXX-XX-XXXX for SSNs, XX-XXXXXXX for EINs */
+export function formatTin(tin: string, tinType: TinType | null): string {
+  const digits = tin.replace(/\D/g, '');
+  if (digits.length !== 9) return tin.trim();
+  const type = tinType ?? tinTypeFromFormat(tin);
+  if (type === 'ssn') return `${digits.slice(0, 3)}-${digits.slice(3, 5)}-${digits.slice(5)}`;
+  if (type === 'ein') return `${digits.slice(0, 2)}-${digits.slice(2)}`;
+  return digits;
+}
+
+export function hasW9OnFile(installer: Pick<InstallerW9, 'w9_received_on'>): boolean {
+  return installer.w9_received_on != null;
+}
+
+/** What keeps an installer's 1099-NEC from being filed; empty when nothing does */
+export function w9Problems(installer: InstallerW9): string[] {
+  const problems: string[] = [];
+  if (!hasW9OnFile(installer)) problems.push('No W-9 on file');
+  if (!installer.tax_id?.trim()) problems.push('Tax ID is missing');
+  else {
+    const tinError = validateTin(installer.tax_id, installer.tin_type);
+    if (tinError) problems.push(tinError);
+  }
+  return problems;
+}
+
+/** Warning shown when paying an installer, or null when their paperwork is in order */
+export function installerPaymentWarning(
+  installer: Pick<InstallerW9, 'w9_received_on' | 'backup_withholding'>
+): string | null {
+  if (!hasW9OnFile(installer)) return 'No W-9 on file for this installer. Collect one before paying.';
+  if (installer.backup_withholding) return 'This installer is subject to backup withholding (24%).';
+  return null;
+}
+
+/** Storage object path for an uploaded W-9 */
+export function w9StoragePath(installerId: number, fileName: string, now: Date = new Date()): string {
+  const dot = fileName.lastIndexOf('.');
+  const ext = dot > 0 ? fileName.slice(dot + 1).toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+  const stamp = now.toISOString().replace(/[-:.TZ]/g, '');
+  return `installers/${installerId}/w9-${stamp}${ext ? `.${ext}` : ''}`;
+}
@@ -0,0 +1,138 @@
+// Local stand-in for the Plaid API.
+//
+// Replays a recorded fixture so the Plaid edge functions can run (and be
+// tested) without real bank connections. Point them here with
+// PLAID_BASE_URL=http://localhost:8789 (host.docker.internal from inside
+// `supabase functions serve`).
+//
+// Run standalone:
+//   deno run --allow-net --allow-read --allow-env supabase/functions/_plaid-mock/server.ts \
+//     supabase/functions/_plaid-mock/fixtures/pending-posted.json
+//
+// Fixture format (see fixtures/):
+//   accounts           returned by /accounts/get and on every /transactions/sync page
+//   transactions_sync  map of request cursor ("" = no cursor) -> list of responses.
+//                      Responses for a cursor are served in order and the last one
+//                      repeats, so [error, page] replays a one-off Plaid error.
+//   errors             optional map of endpoint path -> Plaid error body returned
+//                      instead of the normal response (link, exchange, accounts).
+
+import { serveListener } from "https://deno.land/std@0.168.0/http/server.ts";
+
+export type PlaidMockFixture = {
+  accounts?: Record<string, unknown>[];
+  transactions_sync: Record<string, Record<string, unknown>[]>;
+  errors?: Record<string, Record<string, unknown>>;
+};
+
+export type PlaidMockRequest = {
+  path: string;
+  body: Record<string, unknown>;
+};
+
+export type PlaidMockServer = {
+  baseUrl: string;
+  /** Every request received, in order */
+  requests: PlaidMockRequest[];
+  close: () => Promise<void>;
+};
+
+const MOCK_ACCESS_TOKEN = "access-mock-0001";
+const MOCK_ITEM_ID = "item-mock-0001";
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function plaidError(errorCode: string, message: string, status = 400): Response {
+  return json({ error_type: "INVALID_REQUEST", error_code: errorCode, error_message: message }, status);
+}
+
+/**
+ * Start the mock on 127.0.0.1 (port 0 = any free port).
+ */
+export function startPlaidMock(fixture: PlaidMockFixture, port = 0): PlaidMockServer {
+  const requests: PlaidMockRequest[] = [];
+  const served = new Map<string, number>(); // cursor -> responses served
+
+  const handler = async (req: Request): Promise<Response> => {
+    const path = new URL(req.url).pathname;
+    const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+    requests.push({ path, body });
+
+    if (req.method !== "POST") return plaidError("INVALID_HTTP_METHOD", "Plaid endpoints are POST only", 405);
+    if (!body.client_id || !body.secret) return plaidError("INVALID_API_KEYS", "client_id and secret are required");
+
+    const fixtureError = fixture.errors?.[path];
+    if (fixtureError) return json({ error_type: "INVALID_INPUT", ...fixtureError }, 400);
+
+    switch (path) {
+      case "/link/token/create":
+        return json({
+          link_token: body.access_token ? "link-mock-update" : "link-mock-create",
+          expiration: new Date(Date.now() + 4 * 3600_000).toISOString(),
+        });
+
+      case "/item/public_token/exchange":
+        return json({ access_token: MOCK_ACCESS_TOKEN, item_id: MOCK_ITEM_ID });
+
+      case "/accounts/get":
+        return json({ accounts: fixture.accounts ?? [], item: { item_id: MOCK_ITEM_ID } });
+
+      case "/transactions/sync": {
+        const cursor = typeof body.cursor === "string" ? body.cursor : "";
+        const responses = fixture.transactions_sync[cursor];
+        if (!responses || responses.length === 0) {
+          return plaidError("INVALID_FIELD", `No fixture page for cursor "${cursor}"`);
+        }
+
+        const index = served.get(cursor) ?? 0;
+        served.set(cursor, index + 1);
+        const page = responses[Math.min(index, responses.length - 1)];
+
+        if (page.error_code) return json({ error_type: "TRANSACTIONS_ERROR", ...page }, 400);
+        return json({
+          added: [],
+          modified: [],
+          removed: [],
+          accounts: fixture.accounts ?? [],
+          has_more: false,
+          ...page,
+        });
+      }
+
+      default:
+        return plaidError("NOT_FOUND", `Mock has no handler for ${path}`, 404);
+    }
+  };
+
+  const listener = Deno.listen({ hostname: "127.0.0.1", port });
+  const controller = new AbortController();
+  const done = serveListener(listener, handler, { signal: controller.signal });
+  const { port: boundPort } = listener.addr as Deno.NetAddr;
+
+  return {
+    baseUrl: `http://127.0.0.1:${boundPort}`,
+    requests,
+    close: async () => {
+      controller.abort();
+      await done;
+    },
+  };
+}
+
+if (import.meta.main) {
+  const fixturePath = Deno.args[0];
+  if (!fixturePath) {
+    console.error("Usage: server.ts <fixture.json>");
+    Deno.exit(1);
+  }
+
+  const fixture = JSON.parse(await Deno.readTextFile(fixturePath)) as PlaidMockFixture;
+  const port = Number(Deno.env.get("PLAID_MOCK_PORT") ?? 8789);
+  const server = startPlaidMock(fixture, port);
+  console.log(`Mock Plaid listening on ${server.baseUrl} (fixture: ${fixturePath})`);
+}
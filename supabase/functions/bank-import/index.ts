@@ -7,8 +7,17 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 
 const ANTHROPIC_API_KEY = Deno.env.get('ANTHROPIC_API_KEY');
 
+interface BankFileRow {
+  date: string;
+  description: string;
+  amount: number;
+  bank_status: 'posted' | 'pending';
+  external_id: string | null;
+  check_number: string | null;
+}
+
 interface BankImportRequest {
-  rawBankData: string;
+  bankRows: BankFileRow[];
   selectedAccount: {
     id: number;
     name: string;
@@ -50,6 +59,7 @@ interface BankImportRequest {
 }
 
 interface ParsedTransaction {
+  row_index: number;
   date: string;
   description: string;
   amount: number;
@@ -100,6 +110,13 @@ serve(async (req) => {
 
     const body: BankImportRequest = await req.json();
 
+    if (!Array.isArray(body.bankRows) || body.bankRows.length === 0) {
+      return new Response(JSON.stringify({ error: 'No bank rows provided' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Build the prompt
     const systemPrompt = buildSystemPrompt();
     const userPrompt = buildUserPrompt(body);
@@ -158,7 +175,9 @@ serve(async (req) => {
       throw new Error(`JSON parse error: ${parseError instanceof Error ? parseError.message : 'Unknown'}`);
     }
 
-    return new Response(JSON.stringify(parsed), {
+    const result = mergeWithBankRows(body.bankRows, parsed);
+
+    return new Response(JSON.stringify(result), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error) {
@@ -173,15 +192,67 @@ serve(async (req) => {
   }
 });
 
+/**
+ * Bank rows are parsed deterministically on the client. The model only
+ * matches and categorizes, so overwrite date/description/amount/status from
+ * the source row and add any row the model dropped as an uncategorized "new".
+ */
+function mergeWithBankRows(rows: BankFileRow[], parsed: BankImportResponse): BankImportResponse {
+  const warnings = [...(parsed.warnings ?? [])];
+  const byIndex = new Map<number, ParsedTransaction>();
+
+  for (const tx of parsed.parsed_transactions ?? []) {
+    const idx = Number(tx.row_index);
+    if (!Number.isInteger(idx) || idx < 0 || idx >= rows.length) {
+      warnings.push(`Ignored AI result with invalid row_index ${tx.row_index}`);
+      continue;
+    }
+    if (!byIndex.has(idx)) byIndex.set(idx, tx);
+  }
+
+  const merged: ParsedTransaction[] = rows.map((row, idx) => {
+    const tx = byIndex.get(idx);
+    if (!tx) {
+      warnings.push(`Row ${idx + 1} (${row.date} ${row.description}) was not categorized`);
+    }
+    return {
+      match_type: 'new',
+      matched_line_id: null,
+      matched_transaction_id: null,
+      original_amount: null,
+      match_confidence: 'low',
+      suggested_account_id: null,
+      suggested_account_code: null,
+      suggested_vendor_id: null,
+      suggested_job_id: null,
+      suggested_installer_id: null,
+      suggested_purpose: null,
+      reasoning: '',
+      ...tx,
+      row_index: idx,
+      date: row.date,
+      description: row.description,
+      amount: row.amount,
+      bank_status: row.bank_status,
+    };
+  });
+
+  return { parsed_transactions: merged, warnings };
+}
+
 function buildSystemPrompt(): string {
   return `You are a financial data parsing assistant for a small business accounting system.
 
 Your job is to:
-1. Parse raw bank transaction data (copy-pasted from Bank of America)
-2. Identify whether each transaction is POSTED (cleared) or PENDING at the bank
-3. Match posted transactions to existing database transactions
-4. Detect tip adjustments (restaurant charges that increased due to tip)
-5. Categorize new transactions based on historical patterns
+1. Match bank rows (already parsed, one per row_index) to existing database transactions
+2. Detect tip adjustments (restaurant charges that increased due to tip)
+3. Categorize new transactions based on historical patterns
+
+Bank rows are parsed by the application. Do NOT re-parse, re-sign or re-date them.
+The application has already matched every row it could place with certainty, and
+those rows and their database lines are NOT included here. You are the fallback:
+most remaining rows will be "new" and only need categorization.
+Return exactly one result per row_index.
 
 CRITICAL JSON RULES:
 - Output ONLY valid JSON - no markdown code fences, no explanation text
@@ -191,23 +262,12 @@ CRITICAL JSON RULES:
 
 CRITICAL MATCHING RULES:
 - Output ONLY valid JSON, no markdown, no explanation outside the JSON
-- Dates must be in YYYY-MM-DD format
-- When bank data shows dates without a year (e.g., "12/07"), use the CURRENT YEAR from the context provided
-
-AMOUNT SIGN CONVENTION - CRITICAL:
-The sign convention depends on whether we're importing from a BANK ACCOUNT or a CREDIT CARD.
 
-For BANK ACCOUNTS (checking/savings - codes starting with 1):
-- Negative on statement = money out (expense) → use NEGATIVE amount
-- Positive on statement = money in (income) → use POSITIVE amount
-
-For CREDIT CARDS (codes starting with 2):
-- Positive on statement (charge, you owe more) = expense → use NEGATIVE amount (invert!)
-- Negative on statement (payment/refund, you owe less) = income → use POSITIVE amount (invert!)
-
-The selectedAccount.code tells you which type:
-- Code starts with "1" (e.g., "1100") = Bank account (keep signs as-is)
-- Code starts with "2" (e.g., "2100") = Credit card (INVERT signs)
+AMOUNT SIGN CONVENTION:
+Bank row amounts are already in BOOK sign for the selected account:
+- Negative = money out / credit card charge (expense)
+- Positive = money in / credit card payment or refund
+Database amounts use the same convention, so compare amounts directly.
 
 AMOUNT MATCHING - BE VERY STRICT:
 - Match ONLY if amounts are EXACTLY equal (to the cent)
@@ -233,13 +293,6 @@ Common tip scenarios:
 DATE MATCHING:
 - Dates can be within 3 days (bank posting dates may differ slightly)
 
-BANK STATUS DETECTION:
-Bank of America typically shows:
-- "Processing" or "Pending" transactions at the top (bank_status = "pending")
-- "Posted" transactions below with actual post dates (bank_status = "posted")
-- Look for keywords like "Processing", "Pending", "Processing." ←’ bank_status = "pending"
-- If no such indicator, assume bank_status = "posted"
-
 MATCH TYPE LOGIC (in order of priority):
 1. EXACT amount match to PENDING DB transaction ←’ match_type = "matched_pending"
 2. EXACT amount match to CLEARED DB transaction ←’ match_type = "matched_cleared"
@@ -247,23 +300,11 @@ MATCH TYPE LOGIC (in order of priority):
 4. No match found ←’ match_type = "new"
 
 
-CRITICAL FOR CREDIT CARD MATCHING:
-For credit cards, the DB stores expenses as NEGATIVE amounts, but the CC statement shows charges as POSITIVE.
-When matching a CC statement charge against DB transactions:
-- Statement shows: $39.00 (positive charge)
-- DB has: -$39.00 (negative expense)
-- These ARE THE SAME TRANSACTION! Match by comparing ABSOLUTE VALUES.
-- If abs(statement_amount) == abs(db_amount) AND descriptions are similar, it is a match!
-After matching, your OUTPUT amount should still be NEGATIVE (the inverted sign for CC).
-
 OUTPUT FORMAT:
 {
   "parsed_transactions": [
     {
-      "date": "2025-12-03",
-      "description": "MARIETTA DINER MARIETTA GA",
-      "amount": -55.00,
-      "bank_status": "posted",
+      "row_index": 0,
       "match_type": "tip_adjustment",
       "matched_line_id": 123,
       "matched_transaction_id": 456,
@@ -285,49 +326,33 @@ IMPORTANT: Output ONLY the JSON object. No markdown, no code fences, no trailing
 }
 
 function buildUserPrompt(req: BankImportRequest): string {
-  const { rawBankData, selectedAccount, pendingTransactions, clearedTransactions, recentHistory, referenceData } = req;
+  const { bankRows, selectedAccount, pendingTransactions, clearedTransactions, recentHistory, referenceData } = req;
 
   // Get current date for context
-  const today = new Date();
-  const currentYear = today.getFullYear();
-  const currentDate = today.toISOString().slice(0, 10);
+  const currentDate = new Date().toISOString().slice(0, 10);
 
   // Determine if this is a credit card based on account code
   const isCreditCard = selectedAccount.code.startsWith('2');
   const accountType = isCreditCard ? 'CREDIT CARD' : 'BANK ACCOUNT';
-  
-  let signInstructions = '';
-  if (isCreditCard) {
-    signInstructions = `
-⚠️ CRITICAL - THIS IS A CREDIT CARD ACCOUNT ⚠️
-You MUST INVERT all signs from what the statement shows:
-- Statement shows $303.70 charge → output amount: -303.70 (NEGATIVE)
-- Statement shows $39.00 fee → output amount: -39.00 (NEGATIVE)  
-- Statement shows -$100.00 payment → output amount: 100.00 (POSITIVE)
-
-ALL CHARGES/FEES on a credit card statement are EXPENSES and MUST be NEGATIVE in your output.
-The statement shows them as positive because "you owe more" but in accounting they are EXPENSES (negative).`;
-  } else {
-    signInstructions = `
-This is a bank account. Keep signs as shown on statement:
-- Statement shows -$50.00 → output amount: -50.00
-- Statement shows $100.00 → output amount: 100.00`;
-  }
 
   let prompt = `## Current Date Context
-Today is ${currentDate}. When parsing dates without a year (e.g., "12/07"), use ${currentYear} as the year.
+Today is ${currentDate}.
 
 ## Selected Account
 Type: ${accountType}
 Code: ${selectedAccount.code}
 Name: ${selectedAccount.name}
-${signInstructions}
 
-## Raw Bank/Credit Card Data
-\`\`\`
-${rawBankData}
-\`\`\`
+## Bank Rows (parsed from statement file, book sign, not matched by the application)
+`;
 
+  bankRows.forEach((row, idx) => {
+    prompt += `- row_index=${idx}, date=${row.date}, amount=${row.amount}, status=${row.bank_status}, desc="${row.description}"`;
+    if (row.check_number) prompt += `, check=${row.check_number}`;
+    prompt += '\n';
+  });
+
+  prompt += `
 ## PENDING Database Transactions (is_cleared = false)
 These need to be marked as cleared if matched by a POSTED bank transaction.
 For tip adjustments, you'll need both line_id and transaction_id.
@@ -397,11 +422,9 @@ For tip adjustments, you'll need both line_id and transaction_id.
 
   prompt += `
 ## Instructions
-1. Parse each transaction from the raw bank data
-2. Determine bank_status for each:
-   - "pending" if the bank shows it as "Processing" or pending
-   - "posted" if it has cleared at the bank
-3. For each bank transaction:
+1. Return one result per bank row, identified by row_index
+2. Do NOT output date, description, amount or bank_status - they come from the file
+3. For each bank row:
    a. First look for an EXACT amount match in PENDING database transactions
    b. If exact match found, set match_type="matched_pending" and matched_line_id
    c. If no pending match, look for EXACT amount match in CLEARED database transactions
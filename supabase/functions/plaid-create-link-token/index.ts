@@ -1,9 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const PLAID_CLIENT_ID = Deno.env.get("PLAID_CLIENT_ID")!;
-const PLAID_SECRET = Deno.env.get("PLAID_SECRET")!;
-const PLAID_ENV = Deno.env.get("PLAID_ENV") ?? "production"; // Change to "development" for real banks
+import { plaidConfigFromEnv } from "../plaid-sync-transactions/sync.ts";
+import { createLinkToken } from "./linkToken.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -33,31 +31,42 @@ serve(async (req) => {
       });
     }
 
-    // Create link token
-    const response = await fetch(`https://${PLAID_ENV}.plaid.com/link/token/create`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        client_id: PLAID_CLIENT_ID,
-        secret: PLAID_SECRET,
-        user: { client_user_id: user.id },
-        client_name: "Oakerds Accounting",
-        products: ["transactions"],
-        country_codes: ["US"],
-        language: "en",
-      }),
-    });
+    // Optional: { plaid_item_id } re-links an existing item (Link update mode)
+    const body = await req.json().catch(() => ({}));
+    const plaidItemId: string | undefined = body?.plaid_item_id;
+
+    let accessToken: string | undefined;
+    if (plaidItemId) {
+      // Service role to read access_token
+      const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SERVICE_ROLE_KEY")!);
+      const { data: item, error: itemError } = await admin
+        .from("plaid_items")
+        .select("access_token")
+        .eq("id", plaidItemId)
+        .eq("user_id", user.id)
+        .single();
+
+      if (itemError || !item) {
+        return new Response(JSON.stringify({ error: "Bank connection not found" }), {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      accessToken = item.access_token;
+    }
 
-    const data = await response.json();
+    // Create link token (update mode when re-linking)
+    const result = await createLinkToken(plaidConfigFromEnv(), user.id, accessToken);
 
-    if (data.error_code) {
-      return new Response(JSON.stringify({ error: data.error_message }), {
+    if (!result.ok) {
+      return new Response(JSON.stringify({ error: result.error_message }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    return new Response(JSON.stringify({ link_token: data.link_token }), {
+    return new Response(JSON.stringify({ link_token: result.link_token }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
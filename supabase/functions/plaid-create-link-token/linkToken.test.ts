@@ -0,0 +1,95 @@
+// Link token tests against the local mock Plaid server.
+//   cd supabase/functions/plaid-create-link-token && deno task test
+
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { type PlaidMockFixture, startPlaidMock } from "../_plaid-mock/server.ts";
+import type { PlaidConfig } from "../plaid-sync-transactions/sync.ts";
+import { createLinkToken } from "./linkToken.ts";
+
+const FIXTURES = new URL("../_plaid-mock/fixtures/", import.meta.url);
+
+async function loadFixture(name: string): Promise<PlaidMockFixture> {
+  return JSON.parse(await Deno.readTextFile(new URL(name, FIXTURES))) as PlaidMockFixture;
+}
+
+function configFor(baseUrl: string): PlaidConfig {
+  return { baseUrl, clientId: "test-client", secret: "test-secret" };
+}
+
+const NO_ERRORS: PlaidMockFixture = { accounts: [], transactions_sync: {} };
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+Deno.test("createLinkToken asks for transactions on a new link", async () => {
+  const mock = startPlaidMock(NO_ERRORS);
+  try {
+    const result = await createLinkToken(configFor(mock.baseUrl), "user-1");
+
+    assert(result.ok);
+    assertEquals(result.link_token, "link-mock-create");
+
+    const body = mock.requests[0].body;
+    assertEquals(mock.requests[0].path, "/link/token/create");
+    assertEquals(body.products, ["transactions"]);
+    assertEquals(body.user, { client_user_id: "user-1" });
+    assertEquals(body.access_token, undefined);
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("createLinkToken opens update mode with the item's access token", async () => {
+  const mock = startPlaidMock(NO_ERRORS);
+  try {
+    const result = await createLinkToken(configFor(mock.baseUrl), "user-1", "access-test");
+
+    assert(result.ok);
+    assertEquals(result.link_token, "link-mock-update");
+
+    const body = mock.requests[0].body;
+    assertEquals(body.access_token, "access-test");
+    assertEquals(body.update, { account_selection_enabled: true });
+    assertEquals(body.products, undefined);
+  } finally {
+    await mock.close();
+  }
+});
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+Deno.test("createLinkToken returns Plaid errors instead of throwing", async () => {
+  const mock = startPlaidMock(await loadFixture("link-errors.json"));
+  try {
+    const result = await createLinkToken(configFor(mock.baseUrl), "user-1", "not-a-token");
+
+    assert(!result.ok);
+    assertEquals(result.error_code, "INVALID_ACCESS_TOKEN");
+    assert(result.error_message.includes("invalid format"));
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("createLinkToken reports missing API keys", async () => {
+  const mock = startPlaidMock(NO_ERRORS);
+  try {
+    const result = await createLinkToken({ ...configFor(mock.baseUrl), secret: "" }, "user-1");
+
+    assert(!result.ok);
+    assertEquals(result.error_code, "INVALID_API_KEYS");
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("createLinkToken rejects when Plaid is unreachable", async () => {
+  const mock = startPlaidMock(NO_ERRORS);
+  const baseUrl = mock.baseUrl;
+  await mock.close();
+
+  await assertRejects(() => createLinkToken(configFor(baseUrl), "user-1"));
+});
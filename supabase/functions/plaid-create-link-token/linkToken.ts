@@ -0,0 +1,52 @@
+// Plaid /link/token/create.
+//
+// Split out of index.ts so the request shape and Plaid error handling can be
+// tested against the local mock Plaid server (../_plaid-mock).
+
+import type { PlaidConfig } from "../plaid-sync-transactions/sync.ts";
+
+export type LinkTokenResult =
+  | { ok: true; link_token: string }
+  | { ok: false; error_code: string; error_message: string };
+
+/**
+ * Create a Link token for a user. With an item's access token Link opens in
+ * update mode (re-link, pick up accounts opened since); otherwise it starts a
+ * new transactions link. Plaid errors are returned, not thrown.
+ */
+export async function createLinkToken(
+  config: PlaidConfig,
+  userId: string,
+  accessToken?: string
+): Promise<LinkTokenResult> {
+  const linkRequest: Record<string, unknown> = {
+    client_id: config.clientId,
+    secret: config.secret,
+    user: { client_user_id: userId },
+    client_name: "Oakerds Accounting",
+    country_codes: ["US"],
+    language: "en",
+  };
+
+  if (accessToken) {
+    // Update mode takes the access token instead of products
+    linkRequest.access_token = accessToken;
+    linkRequest.update = { account_selection_enabled: true };
+  } else {
+    linkRequest.products = ["transactions"];
+  }
+
+  const response = await fetch(`${config.baseUrl}/link/token/create`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(linkRequest),
+  });
+
+  const data = await response.json();
+
+  if (data.error_code) {
+    return { ok: false, error_code: data.error_code, error_message: data.error_message };
+  }
+
+  return { ok: true, link_token: data.link_token };
+}
@@ -0,0 +1,98 @@
+// Token exchange tests against the local mock Plaid server.
+//   cd supabase/functions/plaid-exchange-token && deno task test
+
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { type PlaidMockFixture, startPlaidMock } from "../_plaid-mock/server.ts";
+import type { PlaidConfig } from "../plaid-sync-transactions/sync.ts";
+import { exchangePublicToken, fetchAccounts } from "./exchange.ts";
+
+const FIXTURES = new URL("../_plaid-mock/fixtures/", import.meta.url);
+
+async function loadFixture(name: string): Promise<PlaidMockFixture> {
+  return JSON.parse(await Deno.readTextFile(new URL(name, FIXTURES))) as PlaidMockFixture;
+}
+
+function configFor(baseUrl: string): PlaidConfig {
+  return { baseUrl, clientId: "test-client", secret: "test-secret" };
+}
+
+// ============================================================================
+// PUBLIC TOKEN EXCHANGE
+// ============================================================================
+
+Deno.test("exchangePublicToken returns the access token and item id", async () => {
+  const mock = startPlaidMock(await loadFixture("initial-paginated.json"));
+  try {
+    const result = await exchangePublicToken(configFor(mock.baseUrl), "public-test");
+
+    assert(result.ok);
+    assertEquals(result.access_token, "access-mock-0001");
+    assertEquals(result.item_id, "item-mock-0001");
+    assertEquals(mock.requests[0].path, "/item/public_token/exchange");
+    assertEquals(mock.requests[0].body.public_token, "public-test");
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("exchangePublicToken returns an expired public token as an error", async () => {
+  const mock = startPlaidMock(await loadFixture("link-errors.json"));
+  try {
+    const result = await exchangePublicToken(configFor(mock.baseUrl), "public-expired");
+
+    assert(!result.ok);
+    assertEquals(result.error_code, "INVALID_PUBLIC_TOKEN");
+    assert(result.error_message.includes("expired"));
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("exchangePublicToken reports missing API keys", async () => {
+  const mock = startPlaidMock(await loadFixture("initial-paginated.json"));
+  try {
+    const result = await exchangePublicToken({ ...configFor(mock.baseUrl), clientId: "" }, "public-test");
+
+    assert(!result.ok);
+    assertEquals(result.error_code, "INVALID_API_KEYS");
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("exchangePublicToken rejects when Plaid is unreachable", async () => {
+  const mock = startPlaidMock(await loadFixture("initial-paginated.json"));
+  const baseUrl = mock.baseUrl;
+  await mock.close();
+
+  await assertRejects(() => exchangePublicToken(configFor(baseUrl), "public-test"));
+});
+
+// ============================================================================
+// ACCOUNTS
+// ============================================================================
+
+Deno.test("fetchAccounts returns the item's accounts", async () => {
+  const mock = startPlaidMock(await loadFixture("initial-paginated.json"));
+  try {
+    const result = await fetchAccounts(configFor(mock.baseUrl), "access-test");
+
+    assert(result.ok);
+    assertEquals(result.accounts.map((a) => a.account_id), ["acc-checking", "acc-card"]);
+    assertEquals(mock.requests[0].body.access_token, "access-test");
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("fetchAccounts returns item login errors instead of throwing", async () => {
+  const mock = startPlaidMock(await loadFixture("link-errors.json"));
+  try {
+    const result = await fetchAccounts(configFor(mock.baseUrl), "access-test");
+
+    assert(!result.ok);
+    assertEquals(result.error_code, "ITEM_LOGIN_REQUIRED");
+  } finally {
+    await mock.close();
+  }
+});
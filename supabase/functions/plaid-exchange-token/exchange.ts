@@ -0,0 +1,58 @@
+// Plaid /item/public_token/exchange and /accounts/get.
+//
+// Split out of index.ts so the Plaid calls and their error handling can be
+// tested against the local mock Plaid server (../_plaid-mock).
+
+import type { PlaidConfig } from "../plaid-sync-transactions/sync.ts";
+
+// Plaid account shape from /accounts/get
+export type PlaidAccount = {
+  account_id: string;
+  name: string;
+  official_name: string | null;
+  mask: string | null;
+  type: string;
+  subtype: string | null;
+};
+
+export type PlaidError = { ok: false; error_code: string; error_message: string };
+
+export type ExchangeResult = { ok: true; access_token: string; item_id: string } | PlaidError;
+
+export type AccountsResult = { ok: true; accounts: PlaidAccount[] } | PlaidError;
+
+async function plaidPost(config: PlaidConfig, path: string, body: Record<string, unknown>) {
+  const response = await fetch(`${config.baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ client_id: config.clientId, secret: config.secret, ...body }),
+  });
+  return await response.json();
+}
+
+/**
+ * Exchange the public token from Link for a permanent access token.
+ * Plaid errors (expired or reused token) are returned, not thrown.
+ */
+export async function exchangePublicToken(config: PlaidConfig, publicToken: string): Promise<ExchangeResult> {
+  const data = await plaidPost(config, "/item/public_token/exchange", { public_token: publicToken });
+
+  if (data.error_code) {
+    return { ok: false, error_code: data.error_code, error_message: data.error_message };
+  }
+
+  return { ok: true, access_token: data.access_token, item_id: data.item_id };
+}
+
+/**
+ * Accounts Plaid currently reports for an item.
+ */
+export async function fetchAccounts(config: PlaidConfig, accessToken: string): Promise<AccountsResult> {
+  const data = await plaidPost(config, "/accounts/get", { access_token: accessToken });
+
+  if (data.error_code) {
+    return { ok: false, error_code: data.error_code, error_message: data.error_message };
+  }
+
+  return { ok: true, accounts: (data.accounts ?? []) as PlaidAccount[] };
+}
@@ -1,15 +1,61 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const PLAID_CLIENT_ID = Deno.env.get("PLAID_CLIENT_ID")!;
-const PLAID_SECRET = Deno.env.get("PLAID_SECRET")!;
-const PLAID_ENV = Deno.env.get("PLAID_ENV") ?? "production"; // Change to "development" for real banks
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type PlaidConfig, plaidConfigFromEnv } from "../plaid-sync-transactions/sync.ts";
+import { exchangePublicToken, fetchAccounts } from "./exchange.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+/**
+ * Refresh plaid_accounts for an item from /accounts/get.
+ * Existing ledger mappings are kept; accounts Plaid no longer reports are deactivated.
+ */
+async function refreshAccounts(
+  admin: SupabaseClient,
+  config: PlaidConfig,
+  plaidItemId: string,
+  accessToken: string
+) {
+  const result = await fetchAccounts(config, accessToken);
+  if (!result.ok) throw new Error(result.error_message);
+
+  const accounts = result.accounts;
+  const now = new Date().toISOString();
+
+  if (accounts.length > 0) {
+    const { error: upsertError } = await admin.from("plaid_accounts").upsert(
+      accounts.map((a) => ({
+        plaid_item_id: plaidItemId,
+        plaid_account_id: a.account_id,
+        name: a.name,
+        official_name: a.official_name,
+        mask: a.mask,
+        type: a.type,
+        subtype: a.subtype,
+        is_active: true,
+        updated_at: now,
+      })),
+      { onConflict: "plaid_account_id" }
+    );
+    if (upsertError) throw new Error(upsertError.message);
+  }
+
+  const activeIds = accounts.map((a) => a.account_id);
+  let deactivate = admin
+    .from("plaid_accounts")
+    .update({ is_active: false, updated_at: now })
+    .eq("plaid_item_id", plaidItemId);
+  if (activeIds.length > 0) {
+    deactivate = deactivate.not("plaid_account_id", "in", `(${activeIds.map((id) => `"${id}"`).join(",")})`);
+  }
+  const { error: deactivateError } = await deactivate;
+  if (deactivateError) throw new Error(deactivateError.message);
+
+  return accounts.length;
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -33,23 +79,46 @@ serve(async (req) => {
       });
     }
 
-    // Get public token from request
-    const { public_token, institution_name } = await req.json();
+    const config = plaidConfigFromEnv();
 
-    // Exchange public token for access token
-    const response = await fetch(`https://${PLAID_ENV}.plaid.com/item/public_token/exchange`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        client_id: PLAID_CLIENT_ID,
-        secret: PLAID_SECRET,
-        public_token,
-      }),
-    });
+    // Service role to read access_token and write plaid_accounts
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SERVICE_ROLE_KEY")!);
+
+    const { public_token, institution_name, institution_id, plaid_item_id } = await req.json();
 
-    const data = await response.json();
+    // Re-link finished (Link update mode): no token exchange, just mark healthy and refresh accounts
+    if (plaid_item_id) {
+      const { data: item, error: itemError } = await admin
+        .from("plaid_items")
+        .select("id, access_token")
+        .eq("id", plaid_item_id)
+        .eq("user_id", user.id)
+        .single();
 
-    if (data.error_code) {
+      if (itemError || !item) {
+        return new Response(JSON.stringify({ error: "Bank connection not found" }), {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const accountCount = await refreshAccounts(admin, config, item.id, item.access_token);
+
+      const { error: statusError } = await admin
+        .from("plaid_items")
+        .update({ status: "active", error_code: null, updated_at: new Date().toISOString() })
+        .eq("id", item.id);
+      if (statusError) throw new Error(statusError.message);
+
+      return new Response(JSON.stringify({ success: true, plaid_item_id: item.id, accounts: accountCount }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Exchange public token for access token
+    const data = await exchangePublicToken(config, public_token);
+
+    if (!data.ok) {
       return new Response(JSON.stringify({ error: data.error_message }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -57,21 +126,28 @@ serve(async (req) => {
     }
 
     // Store access token in database
-    const { error: insertError } = await supabase.from("plaid_items").insert({
-      user_id: user.id,
-      access_token: data.access_token,
-      item_id: data.item_id,
-      institution_name: institution_name || "Unknown",
-    });
+    const { data: inserted, error: insertError } = await supabase
+      .from("plaid_items")
+      .insert({
+        user_id: user.id,
+        access_token: data.access_token,
+        item_id: data.item_id,
+        institution_name: institution_name || "Unknown",
+        institution_id: institution_id || null,
+      })
+      .select("id")
+      .single();
 
-    if (insertError) {
-      return new Response(JSON.stringify({ error: insertError.message }), {
+    if (insertError || !inserted) {
+      return new Response(JSON.stringify({ error: insertError?.message ?? "Failed to save bank connection" }), {
         status: 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    return new Response(JSON.stringify({ success: true, item_id: data.item_id }), {
+    const accountCount = await refreshAccounts(admin, config, inserted.id, data.access_token);
+
+    return new Response(JSON.stringify({ success: true, item_id: data.item_id, accounts: accountCount }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
@@ -1,27 +1,19 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const PLAID_CLIENT_ID = Deno.env.get("PLAID_CLIENT_ID")!;
-const PLAID_SECRET = Deno.env.get("PLAID_SECRET")!;
-const PLAID_ENV = Deno.env.get("PLAID_ENV") ?? "production"; // Change to "development" for real banks
+import {
+  LOGIN_ERROR_CODES,
+  emptyResult,
+  plaidConfigFromEnv,
+  syncItem,
+  type ItemSyncResult,
+  type PlaidItemRow,
+} from "./sync.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Plaid transaction shape from API
-type PlaidSyncTransaction = {
-  transaction_id: string;
-  date: string;
-  amount: number;
-  name: string;
-  merchant_name: string | null;
-  category: string[];
-  pending: boolean;
-  account_id: string;
-};
-
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -33,7 +25,7 @@ serve(async (req) => {
     const authHeader = req.headers.get("Authorization")!;
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SERVICE_ROLE_KEY")!; // Need service role to read access_token
-    
+
     const supabaseAuth = createClient(
       supabaseUrl,
       Deno.env.get("SUPABASE_ANON_KEY")!,
@@ -51,11 +43,12 @@ serve(async (req) => {
     // Use service role client for database operations
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    // Get the user's Plaid item
+    // Get the user's Plaid items (one per linked institution)
     const { data: plaidItems, error: itemError } = await supabase
       .from("plaid_items")
       .select("*")
-      .eq("user_id", user.id);
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true });
 
     if (itemError || !plaidItems || plaidItems.length === 0) {
       return new Response(JSON.stringify({ error: "No connected bank account" }), {
@@ -64,64 +57,44 @@ serve(async (req) => {
       });
     }
 
-    const plaidItem = plaidItems[0];
-    const allTransactions: PlaidSyncTransaction[] = [];
-    let hasMore = true;
-    let cursor = plaidItem.cursor || undefined;
-
-    // Fetch all transactions using sync endpoint
-    while (hasMore) {
-      const response = await fetch(`https://${PLAID_ENV}.plaid.com/transactions/sync`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          client_id: PLAID_CLIENT_ID,
-          secret: PLAID_SECRET,
-          access_token: plaidItem.access_token,
-          cursor: cursor,
-          count: 100,
-        }),
-      });
+    const plaidConfig = plaidConfigFromEnv();
+    const results: ItemSyncResult[] = [];
+    for (const plaidItem of plaidItems as PlaidItemRow[]) {
+      // Expired logins wait for a re-link; Plaid would only repeat the error
+      if (plaidItem.status === "login_required") {
+        results.push({ ...emptyResult(plaidItem), error_code: "ITEM_LOGIN_REQUIRED", error: "Login expired - re-link this bank" });
+        continue;
+      }
 
-      const data = await response.json();
+      const result = await syncItem(supabase, plaidItem, plaidConfig);
 
-      if (data.error_code) {
-        return new Response(JSON.stringify({ error: data.error_message }), {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+      if (result.error_code) {
+        const status = LOGIN_ERROR_CODES.has(result.error_code) ? "login_required" : "error";
+        await supabase
+          .from("plaid_items")
+          .update({ status, error_code: result.error_code, updated_at: new Date().toISOString() })
+          .eq("id", plaidItem.id);
       }
 
-      // Add new transactions
-      allTransactions.push(...data.added);
-
-      hasMore = data.has_more;
-      cursor = data.next_cursor;
+      results.push(result);
     }
 
-    // Update cursor for next sync
-    await supabase
-      .from("plaid_items")
-      .update({ cursor, updated_at: new Date().toISOString() })
-      .eq("id", plaidItem.id);
-
-    // Format transactions for response
-    const formattedTransactions = allTransactions.map((tx) => ({
-      plaid_transaction_id: tx.transaction_id,
-      date: tx.date,
-      amount: tx.amount, // Plaid uses positive for debits, negative for credits
-      name: tx.name,
-      merchant_name: tx.merchant_name,
-      category: tx.category,
-      pending: tx.pending,
-      account_id: tx.account_id,
-    }));
+    const transactions = results.flatMap((r) => r.transactions);
 
     return new Response(
       JSON.stringify({
         success: true,
-        transactions: formattedTransactions,
-        count: formattedTransactions.length,
+        transactions,
+        count: transactions.length,
+        posted: results.flatMap((r) => r.posted),
+        removed: results.flatMap((r) => r.removed),
+        items: results.map((r) => ({
+          plaid_item_id: r.plaid_item_id,
+          institution_name: r.institution_name,
+          stats: r.stats,
+          error_code: r.error_code,
+          error: r.error,
+        })),
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -0,0 +1,193 @@
+// Sync tests against the local mock Plaid server.
+//   cd supabase/functions/plaid-sync-transactions && deno task test
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { type PlaidMockFixture, startPlaidMock } from "../_plaid-mock/server.ts";
+import {
+  fetchTransactionsSync,
+  type PlaidConfig,
+  type PlaidSyncTransaction,
+  planSync,
+  type StagedRow,
+} from "./sync.ts";
+
+const FIXTURES = new URL("../_plaid-mock/fixtures/", import.meta.url);
+
+async function loadFixture(name: string): Promise<PlaidMockFixture> {
+  return JSON.parse(await Deno.readTextFile(new URL(name, FIXTURES))) as PlaidMockFixture;
+}
+
+function configFor(baseUrl: string): PlaidConfig {
+  return { baseUrl, clientId: "test-client", secret: "test-secret" };
+}
+
+/** Staged row as syncItem() would read it back after upserting `tx` */
+function stagedFrom(tx: PlaidSyncTransaction, overrides: Partial<StagedRow> = {}): StagedRow {
+  return {
+    transaction_id: tx.transaction_id,
+    date: tx.date,
+    amount: tx.amount,
+    name: tx.name,
+    merchant_name: tx.merchant_name,
+    status: "active",
+    ledger_transaction_id: null,
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// PAGING
+// ============================================================================
+
+Deno.test("fetchTransactionsSync follows has_more across pages and returns the last cursor", async () => {
+  const mock = startPlaidMock(await loadFixture("initial-paginated.json"));
+  try {
+    const result = await fetchTransactionsSync(configFor(mock.baseUrl), "access-test", undefined);
+
+    assert(result.ok);
+    assertEquals(result.pages, 3);
+    assertEquals(result.restarts, 0);
+    assertEquals(result.cursor, "cursor-initial-done");
+    assertEquals(result.added.map((t) => t.transaction_id), ["tx-001", "tx-002", "tx-003", "tx-004"]);
+    assertEquals(result.accounts.map((a) => a.account_id), ["acc-checking", "acc-card"]);
+
+    const cursors = mock.requests.map((r) => r.body.cursor ?? null);
+    assertEquals(cursors, [null, "cursor-page-2", "cursor-page-3"]);
+    assertEquals(mock.requests[0].body.access_token, "access-test");
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("fetchTransactionsSync restarts from the starting cursor on mutation during pagination", async () => {
+  const mock = startPlaidMock(await loadFixture("mutation-restart.json"));
+  try {
+    const result = await fetchTransactionsSync(configFor(mock.baseUrl), "access-test", "cursor-start");
+
+    assert(result.ok);
+    assertEquals(result.restarts, 1);
+    assertEquals(result.pages, 2);
+    assertEquals(result.cursor, "cursor-end");
+    // Pages from the aborted run are discarded, so tx-101 appears once
+    assertEquals(result.added.map((t) => t.transaction_id), ["tx-101", "tx-102"]);
+
+    const cursors = mock.requests.map((r) => r.body.cursor);
+    assertEquals(cursors, ["cursor-start", "cursor-mid", "cursor-start", "cursor-mid"]);
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("fetchTransactionsSync returns item errors instead of throwing", async () => {
+  const mock = startPlaidMock(await loadFixture("login-required.json"));
+  try {
+    const result = await fetchTransactionsSync(configFor(mock.baseUrl), "access-test", "cursor-stale");
+
+    assert(!result.ok);
+    assertEquals(result.error_code, "ITEM_LOGIN_REQUIRED");
+  } finally {
+    await mock.close();
+  }
+});
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+Deno.test("pending -> posted: posted row inherits the ledger link and the pending removal is not flagged", async () => {
+  const mock = startPlaidMock(await loadFixture("pending-posted.json"));
+  try {
+    const config = configFor(mock.baseUrl);
+
+    // First sync: pending gas charge, lumber and an order refunded later
+    const first = await fetchTransactionsSync(config, "access-test", undefined);
+    assert(first.ok);
+    assertEquals(first.cursor, "cursor-after-pending");
+
+    // All three were imported into the ledger from the review queue
+    const ledgerIds: Record<string, number> = { "tx-pending-gas": 501, "tx-lumber": 502, "tx-refunded": 503 };
+    const staged = new Map<string, StagedRow>();
+    for (const tx of first.added) {
+      staged.set(tx.transaction_id, stagedFrom(tx, { ledger_transaction_id: ledgerIds[tx.transaction_id] }));
+    }
+
+    // Second sync: gas posts under a new id and amount, lumber is modified,
+    // the pending id and the refunded order are removed
+    const second = await fetchTransactionsSync(config, "access-test", first.cursor);
+    assert(second.ok);
+    assertEquals(second.pages, 2);
+    assertEquals(second.cursor, "cursor-after-posted");
+
+    const upserts = new Map<string, PlaidSyncTransaction>();
+    for (const tx of [...second.added, ...second.modified]) {
+      upserts.set(tx.transaction_id, tx);
+      const existingLink = staged.get(tx.transaction_id)?.ledger_transaction_id ?? null;
+      staged.set(tx.transaction_id, stagedFrom(tx, { ledger_transaction_id: existingLink }));
+    }
+    const removedIds = second.removed.map((r) => r.transaction_id);
+
+    const plan = planSync(upserts, removedIds, staged, new Map());
+
+    assertEquals(plan.links, [{ transaction_id: "tx-posted-gas", ledger_transaction_id: 501 }]);
+    assertEquals(plan.supersede, [{ pending_id: "tx-pending-gas", posted_id: "tx-posted-gas" }]);
+    assertEquals(plan.stampRemoved, ["tx-pending-gas"]);
+    assertEquals(plan.markRemoved, ["tx-refunded"]);
+    assertEquals(plan.flag, [
+      { plaid_transaction_id: "tx-refunded", ledger_transaction_id: 503, date: "2026-10-01", amount: 35, name: "Amazon" },
+    ]);
+    // The modified row keeps its existing link
+    assertEquals(plan.ledgerLinks.get("tx-lumber"), 502);
+    assertEquals(plan.ledgerLinks.get("tx-posted-gas"), 501);
+  } finally {
+    await mock.close();
+  }
+});
+
+Deno.test("planSync backfills links from transactions.plaid_transaction_id", () => {
+  const tx: PlaidSyncTransaction = {
+    transaction_id: "tx-legacy",
+    account_id: "acc-checking",
+    date: "2026-08-15",
+    authorized_date: null,
+    amount: 42,
+    iso_currency_code: "USD",
+    name: "OFFICE DEPOT",
+    merchant_name: "Office Depot",
+    category: null,
+    pending: false,
+    pending_transaction_id: null,
+  };
+
+  const plan = planSync(
+    new Map([[tx.transaction_id, tx]]),
+    [],
+    new Map([[tx.transaction_id, stagedFrom(tx)]]),
+    new Map([["tx-legacy", 77]])
+  );
+
+  assertEquals(plan.links, [{ transaction_id: "tx-legacy", ledger_transaction_id: 77 }]);
+  assertEquals(plan.flag, []);
+});
+
+Deno.test("planSync marks unlinked removals removed without flagging the ledger", () => {
+  const tx: PlaidSyncTransaction = {
+    transaction_id: "tx-queued",
+    account_id: "acc-card",
+    date: "2026-10-05",
+    authorized_date: null,
+    amount: 9.99,
+    iso_currency_code: "USD",
+    name: "SPOTIFY",
+    merchant_name: "Spotify",
+    category: null,
+    pending: true,
+    pending_transaction_id: null,
+  };
+
+  const staged = new Map([[tx.transaction_id, stagedFrom(tx)]]);
+  const plan = planSync(new Map(), ["tx-queued", "tx-never-staged"], staged, new Map());
+
+  assertEquals(plan.markRemoved, ["tx-queued"]);
+  assertEquals(plan.stampRemoved, []);
+  assertEquals(plan.flag, []);
+});
@@ -0,0 +1,598 @@
+// Plaid /transactions/sync -> plaid_transactions staging.
+//
+// Split out of index.ts so the paging and reconciliation rules can be tested
+// against the local mock Plaid server (../_plaid-mock) without a database:
+// - fetchTransactionsSync() pages from a cursor, restarting on mid-sync mutation
+// - planSync() decides links / supersedes / removals from staged state (pure)
+// - syncItem() runs both against Supabase for one plaid_items row
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Plaid restarts pagination when data changes mid-sync; give up after this many tries
+export const MAX_PAGINATION_RESTARTS = 3;
+
+// Keep .in() filters well under URL length limits
+const IN_FILTER_CHUNK = 200;
+
+// Most staged rows returned for review per item
+const QUEUE_LIMIT = 1000;
+
+// Plaid errors that need the user to re-link the item (Link update mode)
+export const LOGIN_ERROR_CODES = new Set(["ITEM_LOGIN_REQUIRED", "PENDING_EXPIRATION", "ACCESS_NOT_GRANTED"]);
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PlaidConfig = {
+  baseUrl: string;
+  clientId: string;
+  secret: string;
+};
+
+// Plaid transaction shape from API
+export type PlaidSyncTransaction = {
+  transaction_id: string;
+  date: string;
+  authorized_date: string | null;
+  amount: number;
+  iso_currency_code: string | null;
+  name: string;
+  merchant_name: string | null;
+  category: string[] | null;
+  pending: boolean;
+  pending_transaction_id: string | null;
+  account_id: string;
+};
+
+export type PlaidRemovedTransaction = {
+  transaction_id: string;
+};
+
+export type PlaidSyncAccount = {
+  account_id: string;
+  name: string;
+  official_name: string | null;
+  mask: string | null;
+  type: string;
+  subtype: string | null;
+};
+
+export type SyncPages =
+  | {
+      ok: true;
+      added: PlaidSyncTransaction[];
+      modified: PlaidSyncTransaction[];
+      removed: PlaidRemovedTransaction[];
+      accounts: PlaidSyncAccount[];
+      cursor: string | undefined;
+      pages: number;
+      restarts: number;
+    }
+  | { ok: false; error_code: string; error_message: string };
+
+export type PlaidItemRow = {
+  id: string;
+  access_token: string;
+  institution_name: string;
+  cursor: string | null;
+  status: "active" | "login_required" | "error";
+};
+
+export type StagedStatus = "active" | "superseded" | "removed";
+
+// plaid_transactions columns read back during a sync
+export type StagedRow = {
+  transaction_id: string;
+  date: string;
+  amount: number;
+  name: string;
+  merchant_name: string | null;
+  status: StagedStatus;
+  ledger_transaction_id: number | null;
+};
+
+// plaid_accounts columns used to route transactions to ledger accounts
+type AccountMapping = {
+  plaid_account_id: string;
+  name: string;
+  mask: string | null;
+  ledger_account_id: number | null;
+};
+
+// plaid_transactions columns returned in the review queue
+type QueueRow = {
+  transaction_id: string;
+  date: string;
+  amount: number;
+  name: string;
+  merchant_name: string | null;
+  category: string[] | null;
+  pending: boolean;
+  pending_transaction_id: string | null;
+  plaid_account_id: string;
+};
+
+export type FlaggedRemoval = {
+  plaid_transaction_id: string;
+  ledger_transaction_id: number;
+  date: string | null;
+  amount: number | null;
+  name: string | null;
+};
+
+/** Writes needed to bring staging and the ledger flags in line with one sync */
+export type SyncPlan = {
+  /** Staged rows to link to a ledger transaction (backfilled or inherited from pending) */
+  links: { transaction_id: string; ledger_transaction_id: number }[];
+  /** Staged pending rows replaced by a posted row */
+  supersede: { pending_id: string; posted_id: string }[];
+  /** Pending ids Plaid removed because they posted - stamp removed_at only */
+  stampRemoved: string[];
+  /** Staged rows removed without a posted replacement */
+  markRemoved: string[];
+  /** Ledger transactions created from removed rows - flag their lines */
+  flag: FlaggedRemoval[];
+  /** Pending ids superseded in this run */
+  supersededIds: Set<string>;
+  /** Final ledger link for every staged id after the plan is applied */
+  ledgerLinks: Map<string, number>;
+};
+
+export type ItemSyncResult = {
+  plaid_item_id: string;
+  institution_name: string;
+  transactions: Record<string, unknown>[];
+  posted: Record<string, unknown>[];
+  removed: FlaggedRemoval[];
+  stats: { pages: number; added: number; modified: number; removed: number };
+  error_code: string | null;
+  error: string | null;
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Plaid settings from the function environment; PLAID_BASE_URL points at a mock server */
+export function plaidConfigFromEnv(): PlaidConfig {
+  const env = Deno.env.get("PLAID_ENV") ?? "production"; // Change to "development" for real banks
+  return {
+    baseUrl: Deno.env.get("PLAID_BASE_URL") ?? `https://${env}.plaid.com`,
+    clientId: Deno.env.get("PLAID_CLIENT_ID")!,
+    secret: Deno.env.get("PLAID_SECRET")!,
+  };
+}
+
+export function emptyResult(plaidItem: PlaidItemRow): ItemSyncResult {
+  return {
+    plaid_item_id: plaidItem.id,
+    institution_name: plaidItem.institution_name,
+    transactions: [],
+    posted: [],
+    removed: [],
+    stats: { pages: 0, added: 0, modified: 0, removed: 0 },
+    error_code: null,
+    error: null,
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+// ============================================================================
+// PLAID PAGING
+// ============================================================================
+
+/**
+ * Page through /transactions/sync from a cursor until has_more is false.
+ * On TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION every page from this run is
+ * discarded and paging restarts from the starting cursor, as Plaid requires.
+ * Plaid errors are returned, not thrown.
+ */
+export async function fetchTransactionsSync(
+  config: PlaidConfig,
+  accessToken: string,
+  startCursor: string | undefined
+): Promise<SyncPages> {
+  let added: PlaidSyncTransaction[] = [];
+  let modified: PlaidSyncTransaction[] = [];
+  let removed: PlaidRemovedTransaction[] = [];
+  let accounts: PlaidSyncAccount[] = [];
+  let pages = 0;
+  let restarts = 0;
+  let hasMore = true;
+  let cursor = startCursor;
+
+  while (hasMore) {
+    const response = await fetch(`${config.baseUrl}/transactions/sync`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        client_id: config.clientId,
+        secret: config.secret,
+        access_token: accessToken,
+        cursor: cursor,
+        count: 100,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (data.error_code === "TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION" && restarts < MAX_PAGINATION_RESTARTS) {
+      restarts++;
+      added = [];
+      modified = [];
+      removed = [];
+      accounts = [];
+      pages = 0;
+      cursor = startCursor;
+      continue;
+    }
+
+    if (data.error_code) {
+      return { ok: false, error_code: data.error_code, error_message: data.error_message };
+    }
+
+    if (Array.isArray(data.accounts)) accounts = data.accounts;
+    added.push(...data.added);
+    modified.push(...data.modified);
+    removed.push(...data.removed);
+    pages++;
+
+    hasMore = data.has_more;
+    cursor = data.next_cursor;
+  }
+
+  return { ok: true, added, modified, removed, accounts, cursor, pages, restarts };
+}
+
+// ============================================================================
+// RECONCILIATION PLAN
+// ============================================================================
+
+/**
+ * Decide staging/ledger writes for one sync.
+ *
+ * `staged` is plaid_transactions as it stands after added/modified rows were
+ * upserted; `ledgerByPlaidId` maps transactions.plaid_transaction_id -> id for
+ * rows imported before staging kept links.
+ *
+ * - A posted row carrying pending_transaction_id supersedes its pending row and
+ *   inherits the pending row's ledger link, whatever its new id or amount.
+ * - Plaid also lists that pending id under `removed`; that is not a real
+ *   removal, so its ledger entry is not flagged.
+ * - Any other removed id with a ledger link gets its ledger lines flagged.
+ */
+export function planSync(
+  upserts: Map<string, PlaidSyncTransaction>,
+  removedIds: string[],
+  staged: Map<string, StagedRow>,
+  ledgerByPlaidId: Map<string, number>
+): SyncPlan {
+  const links: SyncPlan["links"] = [];
+  const supersede: SyncPlan["supersede"] = [];
+  const stampRemoved: string[] = [];
+  const markRemoved: string[] = [];
+  const flag: FlaggedRemoval[] = [];
+  const supersededIds = new Set<string>();
+
+  const ledgerLinks = new Map<string, number>();
+  for (const [id, row] of staged) {
+    if (row.ledger_transaction_id != null) ledgerLinks.set(id, row.ledger_transaction_id);
+  }
+  const ledgerIdFor = (id: string): number | null => ledgerLinks.get(id) ?? ledgerByPlaidId.get(id) ?? null;
+
+  // Backfill links for rows imported before staging existed
+  for (const id of upserts.keys()) {
+    const ledgerId = ledgerByPlaidId.get(id);
+    if (staged.has(id) && !ledgerLinks.has(id) && ledgerId != null) {
+      links.push({ transaction_id: id, ledger_transaction_id: ledgerId });
+      ledgerLinks.set(id, ledgerId);
+    }
+  }
+
+  // Pending -> posted
+  for (const tx of upserts.values()) {
+    if (tx.pending || !tx.pending_transaction_id) continue;
+    const pendingId = tx.pending_transaction_id;
+    supersededIds.add(pendingId);
+
+    if (staged.has(pendingId)) supersede.push({ pending_id: pendingId, posted_id: tx.transaction_id });
+
+    const pendingLedgerId = ledgerIdFor(pendingId);
+    if (staged.has(tx.transaction_id) && !ledgerLinks.has(tx.transaction_id) && pendingLedgerId != null) {
+      links.push({ transaction_id: tx.transaction_id, ledger_transaction_id: pendingLedgerId });
+      ledgerLinks.set(tx.transaction_id, pendingLedgerId);
+    }
+  }
+
+  // Removals
+  for (const id of removedIds) {
+    const row = staged.get(id);
+
+    if (supersededIds.has(id) || row?.status === "superseded") {
+      if (row) stampRemoved.push(id);
+      continue;
+    }
+
+    if (row) markRemoved.push(id);
+
+    const ledgerId = ledgerIdFor(id);
+    if (ledgerId == null) continue;
+
+    flag.push({
+      plaid_transaction_id: id,
+      ledger_transaction_id: ledgerId,
+      date: row?.date ?? null,
+      amount: row ? Number(row.amount) : null,
+      name: row ? row.merchant_name || row.name : null,
+    });
+  }
+
+  return { links, supersede, stampRemoved, markRemoved, flag, supersededIds, ledgerLinks };
+}
+
+// ============================================================================
+// ITEM SYNC
+// ============================================================================
+
+/**
+ * Sync one Plaid item from its stored cursor into staging.
+ * Plaid item errors (e.g. ITEM_LOGIN_REQUIRED) are returned, not thrown,
+ * so one expired login does not block the other institutions.
+ */
+export async function syncItem(
+  supabase: SupabaseClient,
+  plaidItem: PlaidItemRow,
+  config: PlaidConfig
+): Promise<ItemSyncResult> {
+  const startCursor: string | undefined = plaidItem.cursor || undefined;
+
+  // ------------------------------------------------------------------
+  // 1. Page through /transactions/sync from the stored cursor
+  // ------------------------------------------------------------------
+
+  const fetched = await fetchTransactionsSync(config, plaidItem.access_token, startCursor);
+  if (!fetched.ok) {
+    return { ...emptyResult(plaidItem), error_code: fetched.error_code, error: fetched.error_message };
+  }
+  const { added, modified, removed, accounts, cursor, pages } = fetched;
+
+  // ------------------------------------------------------------------
+  // 2. Refresh sub-accounts (keeps ledger mappings) and load the mapping
+  // ------------------------------------------------------------------
+
+  const now = new Date().toISOString();
+
+  if (accounts.length > 0) {
+    const { error: accountError } = await supabase.from("plaid_accounts").upsert(
+      accounts.map((a) => ({
+        plaid_item_id: plaidItem.id,
+        plaid_account_id: a.account_id,
+        name: a.name,
+        official_name: a.official_name,
+        mask: a.mask,
+        type: a.type,
+        subtype: a.subtype,
+        is_active: true,
+        updated_at: now,
+      })),
+      { onConflict: "plaid_account_id" }
+    );
+    if (accountError) throw new Error(accountError.message);
+  }
+
+  const { data: mappingData, error: mappingError } = await supabase
+    .from("plaid_accounts")
+    .select("plaid_account_id, name, mask, ledger_account_id")
+    .eq("plaid_item_id", plaidItem.id);
+  if (mappingError) throw new Error(mappingError.message);
+
+  const accountMap = new Map<string, AccountMapping>();
+  for (const row of (mappingData ?? []) as AccountMapping[]) accountMap.set(row.plaid_account_id, row);
+
+  const accountLabel = (plaidAccountId: string): string => {
+    const a = accountMap.get(plaidAccountId);
+    if (!a) return plaidItem.institution_name;
+    return `${plaidItem.institution_name} ${a.name}${a.mask ? ` ..${a.mask}` : ""}`;
+  };
+
+  // ------------------------------------------------------------------
+  // 3. Upsert added + modified into staging (later pages win)
+  // ------------------------------------------------------------------
+
+  const upserts = new Map<string, PlaidSyncTransaction>();
+  for (const tx of [...added, ...modified]) upserts.set(tx.transaction_id, tx);
+  const removedIds = Array.from(new Set(removed.map((r) => r.transaction_id))).filter((id) => !upserts.has(id));
+
+  // ledger_transaction_id is left out so existing ledger links survive a modify
+  const stagingRows = Array.from(upserts.values()).map((tx) => ({
+    transaction_id: tx.transaction_id,
+    plaid_item_id: plaidItem.id,
+    plaid_account_id: tx.account_id,
+    date: tx.date,
+    authorized_date: tx.authorized_date,
+    amount: tx.amount,
+    iso_currency_code: tx.iso_currency_code,
+    name: tx.name,
+    merchant_name: tx.merchant_name,
+    category: tx.category,
+    pending: tx.pending,
+    pending_transaction_id: tx.pending_transaction_id,
+    status: "active",
+    removed_at: null,
+    raw: tx,
+    updated_at: now,
+  }));
+
+  for (const batch of chunk(stagingRows, IN_FILTER_CHUNK)) {
+    const { error: upsertError } = await supabase
+      .from("plaid_transactions")
+      .upsert(batch, { onConflict: "transaction_id" });
+    if (upsertError) throw new Error(upsertError.message);
+  }
+
+  // ------------------------------------------------------------------
+  // 4. Load staged state + ledger links for every id this run touches
+  // ------------------------------------------------------------------
+
+  const predecessorIds = Array.from(upserts.values())
+    .filter((tx) => !tx.pending && tx.pending_transaction_id)
+    .map((tx) => tx.pending_transaction_id!);
+  const lookupIds = Array.from(new Set([...upserts.keys(), ...predecessorIds, ...removedIds]));
+
+  const staged = new Map<string, StagedRow>();
+  // Ledger transactions store the Plaid id they were imported from
+  const ledgerByPlaidId = new Map<string, number>();
+
+  for (const ids of chunk(lookupIds, IN_FILTER_CHUNK)) {
+    const { data: stagedData, error: stagedError } = await supabase
+      .from("plaid_transactions")
+      .select("transaction_id, date, amount, name, merchant_name, status, ledger_transaction_id")
+      .in("transaction_id", ids);
+    if (stagedError) throw new Error(stagedError.message);
+    for (const row of (stagedData ?? []) as StagedRow[]) staged.set(row.transaction_id, row);
+
+    const { data: ledgerData, error: ledgerError } = await supabase
+      .from("transactions")
+      .select("id, plaid_transaction_id")
+      .in("plaid_transaction_id", ids);
+    if (ledgerError) throw new Error(ledgerError.message);
+    for (const row of (ledgerData ?? []) as { id: number; plaid_transaction_id: string }[]) {
+      ledgerByPlaidId.set(row.plaid_transaction_id, row.id);
+    }
+  }
+
+  // ------------------------------------------------------------------
+  // 5. Apply the plan: links, supersedes, removals, ledger flags
+  // ------------------------------------------------------------------
+
+  const plan = planSync(upserts, removedIds, staged, ledgerByPlaidId);
+
+  for (const link of plan.links) {
+    const { error: linkError } = await supabase
+      .from("plaid_transactions")
+      .update({ ledger_transaction_id: link.ledger_transaction_id })
+      .eq("transaction_id", link.transaction_id);
+    if (linkError) throw new Error(linkError.message);
+  }
+
+  for (const s of plan.supersede) {
+    const { error: supersedeError } = await supabase
+      .from("plaid_transactions")
+      .update({ status: "superseded", posted_transaction_id: s.posted_id, updated_at: now })
+      .eq("transaction_id", s.pending_id);
+    if (supersedeError) throw new Error(supersedeError.message);
+  }
+
+  if (plan.stampRemoved.length > 0) {
+    const { error: stampError } = await supabase
+      .from("plaid_transactions")
+      .update({ removed_at: now, updated_at: now })
+      .in("transaction_id", plan.stampRemoved);
+    if (stampError) throw new Error(stampError.message);
+  }
+
+  if (plan.markRemoved.length > 0) {
+    const { error: removeError } = await supabase
+      .from("plaid_transactions")
+      .update({ status: "removed", removed_at: now, updated_at: now })
+      .in("transaction_id", plan.markRemoved);
+    if (removeError) throw new Error(removeError.message);
+  }
+
+  for (const f of plan.flag) {
+    const { error: flagError } = await supabase
+      .from("transaction_lines")
+      .update({ bank_removed_at: now })
+      .eq("transaction_id", f.ledger_transaction_id)
+      .is("bank_removed_at", null);
+    if (flagError) throw new Error(flagError.message);
+  }
+
+  // ------------------------------------------------------------------
+  // 6. Persist the cursor only after staging is consistent
+  // ------------------------------------------------------------------
+
+  const { error: cursorError } = await supabase
+    .from("plaid_items")
+    .update({ cursor, status: "active", error_code: null, last_synced_at: now, updated_at: now })
+    .eq("id", plaidItem.id);
+  if (cursorError) throw new Error(cursorError.message);
+
+  const { error: historyError } = await supabase.from("plaid_sync_history").insert({
+    plaid_item_id: plaidItem.id,
+    cursor_before: startCursor ?? null,
+    cursor_after: cursor ?? null,
+    pages,
+    added_count: added.length,
+    modified_count: modified.length,
+    removed_count: removed.length,
+    flagged_count: plan.flag.length,
+  });
+  if (historyError) console.error("Failed to record sync history:", historyError.message);
+
+  // ------------------------------------------------------------------
+  // 7. Review queue + posted updates for the client
+  // ------------------------------------------------------------------
+
+  // Every staged row not yet in the ledger or dismissed, so rows from
+  // accounts mapped after an earlier sync still come up
+  const { data: queueData, error: queueError } = await supabase
+    .from("plaid_transactions")
+    .select("transaction_id, date, amount, name, merchant_name, category, pending, pending_transaction_id, plaid_account_id")
+    .eq("plaid_item_id", plaidItem.id)
+    .eq("status", "active")
+    .is("ledger_transaction_id", null)
+    .is("dismissed_at", null)
+    .order("date", { ascending: true })
+    .limit(QUEUE_LIMIT);
+  if (queueError) throw new Error(queueError.message);
+
+  const transactions = ((queueData ?? []) as QueueRow[]).map((row) => ({
+    plaid_transaction_id: row.transaction_id,
+    date: row.date,
+    amount: Number(row.amount), // Plaid uses positive for debits, negative for credits
+    name: row.name,
+    merchant_name: row.merchant_name,
+    category: row.category ?? [],
+    pending: row.pending,
+    pending_transaction_id: row.pending_transaction_id,
+    account_id: row.plaid_account_id,
+    plaid_item_id: plaidItem.id,
+    account_name: accountLabel(row.plaid_account_id),
+    ledger_account_id: accountMap.get(row.plaid_account_id)?.ledger_account_id ?? null,
+  }));
+
+  // Posted rows already in the ledger (usually via their pending row) -> clear / adjust
+  const posted = Array.from(upserts.values())
+    .filter((tx) => !tx.pending && plan.ledgerLinks.has(tx.transaction_id))
+    .map((tx) => ({
+      plaid_transaction_id: tx.transaction_id,
+      pending_transaction_id: tx.pending_transaction_id,
+      ledger_transaction_id: plan.ledgerLinks.get(tx.transaction_id)!,
+      date: tx.date,
+      amount: tx.amount,
+      pending_amount: tx.pending_transaction_id && staged.has(tx.pending_transaction_id)
+        ? Number(staged.get(tx.pending_transaction_id)!.amount)
+        : null,
+      name: tx.name,
+      merchant_name: tx.merchant_name,
+      ledger_account_id: accountMap.get(tx.account_id)?.ledger_account_id ?? null,
+    }));
+
+  return {
+    plaid_item_id: plaidItem.id,
+    institution_name: plaidItem.institution_name,
+    transactions,
+    posted,
+    removed: plan.flag,
+    stats: { pages, added: added.length, modified: modified.length, removed: removed.length },
+    error_code: null,
+    error: null,
+  };
+}
@@ -0,0 +1,122 @@
+-- supabase/migrations/20261018090000_bank_reconciliations.sql
+--
+-- Bank statement reconciliation records.
+-- A reconciliation ties a cash/card account's cleared book balance to the
+-- ending balance printed on a bank statement. Completed reconciliations keep
+-- a snapshot of every line that was ticked off so the report can be re-run.
+--
+-- Balances are stored in STATEMENT sign (card balances positive when owed),
+-- line amounts in BOOK sign (same as transaction_lines.amount).
+
+CREATE TABLE IF NOT EXISTS public.bank_reconciliations (
+  id                        bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  account_id                bigint NOT NULL REFERENCES public.accounts(id) ON DELETE RESTRICT,
+  statement_end_date        date NOT NULL,
+  statement_ending_balance  numeric(14, 2) NOT NULL,
+  beginning_balance         numeric(14, 2) NOT NULL,
+  cleared_balance           numeric(14, 2) NOT NULL,
+  difference                numeric(14, 2) NOT NULL,
+  notes                     text,
+  completed_at              timestamptz NOT NULL DEFAULT now(),
+  completed_by              uuid DEFAULT auth.uid(),
+  created_at                timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS bank_reconciliations_account_idx
+  ON public.bank_reconciliations (account_id, statement_end_date DESC);
+
+CREATE TABLE IF NOT EXISTS public.bank_reconciliation_lines (
+  id                   bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  reconciliation_id    bigint NOT NULL REFERENCES public.bank_reconciliations(id) ON DELETE CASCADE,
+  transaction_line_id  bigint REFERENCES public.transaction_lines(id) ON DELETE SET NULL,
+  -- Snapshot at time of reconciliation (survives later edits/deletes)
+  date                 date NOT NULL,
+  description          text,
+  amount               numeric(14, 2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS bank_reconciliation_lines_recon_idx
+  ON public.bank_reconciliation_lines (reconciliation_id);
+
+ALTER TABLE public.bank_reconciliations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_reconciliation_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY bank_reconciliations_authenticated ON public.bank_reconciliations
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY bank_reconciliation_lines_authenticated ON public.bank_reconciliation_lines
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- ---------------------------------------------------------------------------
+-- complete_bank_reconciliation
+--
+-- Atomically:
+--   1. Marks the ticked account lines cleared, plus the income/expense lines of
+--      the same transactions (the other side of a transfer is left alone - it
+--      belongs to a different statement).
+--   2. Inserts the reconciliation header and a snapshot of each ticked line.
+-- Returns the new reconciliation id.
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.complete_bank_reconciliation(
+  p_account_id               bigint,
+  p_statement_end_date       date,
+  p_statement_ending_balance numeric,
+  p_beginning_balance        numeric,
+  p_cleared_balance          numeric,
+  p_line_ids                 bigint[],
+  p_notes                    text DEFAULT NULL
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_recon_id   bigint;
+  v_bad_count  integer;
+BEGIN
+  -- All ticked lines must belong to the account being reconciled
+  SELECT count(*) INTO v_bad_count
+  FROM public.transaction_lines tl
+  WHERE tl.id = ANY (p_line_ids)
+    AND tl.account_id <> p_account_id;
+
+  IF v_bad_count > 0 THEN
+    RAISE EXCEPTION 'Reconciliation includes % line(s) from another account', v_bad_count;
+  END IF;
+
+  INSERT INTO public.bank_reconciliations (
+    account_id, statement_end_date, statement_ending_balance,
+    beginning_balance, cleared_balance, difference, notes
+  )
+  VALUES (
+    p_account_id, p_statement_end_date, p_statement_ending_balance,
+    p_beginning_balance, p_cleared_balance,
+    p_statement_ending_balance - p_cleared_balance, p_notes
+  )
+  RETURNING id INTO v_recon_id;
+
+  INSERT INTO public.bank_reconciliation_lines (reconciliation_id, transaction_line_id, date, description, amount)
+  SELECT v_recon_id, tl.id, t.date, t.description, tl.amount
+  FROM public.transaction_lines tl
+  JOIN public.transactions t ON t.id = tl.transaction_id
+  WHERE tl.id = ANY (p_line_ids);
+
+  -- Clear the ticked lines themselves
+  UPDATE public.transaction_lines
+  SET is_cleared = true
+  WHERE id = ANY (p_line_ids);
+
+  -- Clear the category (income/expense) side of the same transactions
+  UPDATE public.transaction_lines tl
+  SET is_cleared = true
+  FROM public.accounts a
+  JOIN public.account_types at ON at.id = a.account_type_id
+  WHERE a.id = tl.account_id
+    AND at.name IN ('income', 'expense')
+    AND tl.transaction_id IN (
+      SELECT transaction_id FROM public.transaction_lines WHERE id = ANY (p_line_ids)
+    );
+
+  RETURN v_recon_id;
+END;
+$$;
@@ -0,0 +1,61 @@
+-- supabase/migrations/20261018100000_categorization_rules.sql
+--
+-- User-defined categorization rules for bank imports.
+-- Rules are evaluated in priority order (lowest first); the first active rule
+-- whose conditions all match wins. Exact merchant_mappings are only consulted
+-- when no rule matches.
+--
+-- Conditions (all optional, NULL = not checked):
+--   description_contains  case-insensitive substring
+--   description_regex     case-insensitive JS-compatible regular expression
+--   amount_min/amount_max absolute amount range (inclusive)
+--   direction             'outflow' (money out / card charge) or 'inflow'
+--   account_id            bank/card account the row is imported into
+--   day_of_month_min/max  posting day range (inclusive)
+--
+-- Actions (all optional): vendor, category account, job, purpose, or a split
+-- across several category accounts. When splits are present they replace
+-- set_account_id; percents must total 100.
+
+CREATE TABLE IF NOT EXISTS public.categorization_rules (
+  id                    bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  name                  text NOT NULL,
+  priority              integer NOT NULL DEFAULT 0,
+  is_active             boolean NOT NULL DEFAULT true,
+
+  -- Conditions
+  description_contains  text,
+  description_regex     text,
+  amount_min            numeric(14, 2),
+  amount_max            numeric(14, 2),
+  direction             text CHECK (direction IN ('outflow', 'inflow')),
+  account_id            bigint REFERENCES public.accounts(id) ON DELETE CASCADE,
+  day_of_month_min      smallint CHECK (day_of_month_min BETWEEN 1 AND 31),
+  day_of_month_max      smallint CHECK (day_of_month_max BETWEEN 1 AND 31),
+
+  -- Actions
+  set_vendor_id         bigint REFERENCES public.vendors(id) ON DELETE SET NULL,
+  set_account_id        bigint REFERENCES public.accounts(id) ON DELETE SET NULL,
+  set_job_id            bigint REFERENCES public.jobs(id) ON DELETE SET NULL,
+  set_purpose           text CHECK (set_purpose IN ('business', 'personal')),
+  -- [{ "account_id": 123, "percent": 60, "job_id": null, "purpose": "business" }, ...]
+  splits                jsonb,
+
+  created_at            timestamptz NOT NULL DEFAULT now(),
+  updated_at            timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT categorization_rules_amount_range CHECK (
+    amount_min IS NULL OR amount_max IS NULL OR amount_min <= amount_max
+  ),
+  CONSTRAINT categorization_rules_splits_array CHECK (
+    splits IS NULL OR jsonb_typeof(splits) = 'array'
+  )
+);
+
+CREATE INDEX IF NOT EXISTS categorization_rules_priority_idx
+  ON public.categorization_rules (priority, id);
+
+ALTER TABLE public.categorization_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY categorization_rules_authenticated ON public.categorization_rules
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,90 @@
+-- supabase/migrations/20261018110000_plaid_transaction_staging.sql
+--
+-- Durable staging for Plaid /transactions/sync.
+--
+-- plaid_transactions holds the latest raw copy of every transaction Plaid has
+-- sent, keyed by Plaid's transaction_id, and is updated incrementally from the
+-- added / modified / removed arrays of each sync.
+--
+--   status = 'active'      current transaction (pending or posted)
+--   status = 'superseded'  a pending transaction that has since posted under a
+--                          new id (posted_transaction_id points at it)
+--   status = 'removed'     Plaid removed it without a posted replacement
+--
+-- ledger_transaction_id links a staged row to the ledger transaction created
+-- from it. When a pending row posts, the posted row inherits the link so the
+-- ledger entry is cleared/adjusted instead of imported a second time.
+--
+-- plaid_sync_history keeps one row per sync run with the cursor before and
+-- after, so the cursor stored on plaid_items can be audited or rolled back.
+--
+-- transaction_lines.bank_removed_at flags ledger lines whose source Plaid
+-- transaction was removed by the bank (e.g. a pending charge that dropped off).
+
+CREATE TABLE IF NOT EXISTS public.plaid_transactions (
+  transaction_id          text PRIMARY KEY,
+  plaid_item_id           uuid NOT NULL REFERENCES public.plaid_items(id) ON DELETE CASCADE,
+  plaid_account_id        text NOT NULL,
+
+  date                    date NOT NULL,
+  authorized_date         date,
+  amount                  numeric(14, 2) NOT NULL, -- Plaid sign: positive = money out
+  iso_currency_code       text,
+  name                    text NOT NULL,
+  merchant_name           text,
+  category                text[],
+  pending                 boolean NOT NULL DEFAULT false,
+
+  pending_transaction_id  text, -- On a posted row: the pending row it replaces
+  posted_transaction_id   text, -- On a pending row: the posted row that replaced it
+
+  status                  text NOT NULL DEFAULT 'active'
+                          CHECK (status IN ('active', 'superseded', 'removed')),
+  removed_at              timestamptz,
+
+  ledger_transaction_id   bigint REFERENCES public.transactions(id) ON DELETE SET NULL,
+
+  raw                     jsonb,
+  first_seen_at           timestamptz NOT NULL DEFAULT now(),
+  updated_at              timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS plaid_transactions_item_idx
+  ON public.plaid_transactions (plaid_item_id, status);
+
+CREATE INDEX IF NOT EXISTS plaid_transactions_pending_idx
+  ON public.plaid_transactions (pending_transaction_id)
+  WHERE pending_transaction_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS plaid_transactions_ledger_idx
+  ON public.plaid_transactions (ledger_transaction_id)
+  WHERE ledger_transaction_id IS NOT NULL;
+
+ALTER TABLE public.plaid_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY plaid_transactions_authenticated ON public.plaid_transactions
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.plaid_sync_history (
+  id              bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  plaid_item_id   uuid NOT NULL REFERENCES public.plaid_items(id) ON DELETE CASCADE,
+  cursor_before   text,
+  cursor_after    text,
+  pages           integer NOT NULL DEFAULT 0,
+  added_count     integer NOT NULL DEFAULT 0,
+  modified_count  integer NOT NULL DEFAULT 0,
+  removed_count   integer NOT NULL DEFAULT 0,
+  flagged_count   integer NOT NULL DEFAULT 0, -- Ledger transactions flagged as removed
+  synced_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS plaid_sync_history_item_idx
+  ON public.plaid_sync_history (plaid_item_id, synced_at DESC);
+
+ALTER TABLE public.plaid_sync_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY plaid_sync_history_authenticated ON public.plaid_sync_history
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+ALTER TABLE public.transaction_lines
+  ADD COLUMN IF NOT EXISTS bank_removed_at timestamptz;
@@ -0,0 +1,49 @@
+-- supabase/migrations/20261018120000_plaid_accounts.sql
+--
+-- Several Plaid items (institutions) per user, each with its own sub-accounts.
+--
+-- plaid_accounts lists every account Plaid reports for an item and maps it to
+-- the ledger account (1000-2999: bank accounts and credit cards) that its
+-- transactions post to. Transactions from unmapped accounts stay in staging
+-- until a mapping is chosen.
+--
+-- plaid_transactions.dismissed_at takes a staged row out of the review queue
+-- without importing it (e.g. transfers already entered by hand).
+--
+-- plaid_items.status tracks item health:
+--   'active'          syncing normally
+--   'login_required'  credentials expired / MFA needed - re-link via Link update mode
+--   'error'           last sync failed with another Plaid error (see error_code)
+
+ALTER TABLE public.plaid_items
+  ADD COLUMN IF NOT EXISTS institution_id text,
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'login_required', 'error')),
+  ADD COLUMN IF NOT EXISTS error_code text,
+  ADD COLUMN IF NOT EXISTS last_synced_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS public.plaid_accounts (
+  id                  bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  plaid_item_id       uuid NOT NULL REFERENCES public.plaid_items(id) ON DELETE CASCADE,
+  plaid_account_id    text NOT NULL UNIQUE,
+  name                text NOT NULL,
+  official_name       text,
+  mask                text,
+  type                text, -- depository, credit, loan, ...
+  subtype             text, -- checking, savings, credit card, ...
+  ledger_account_id   bigint REFERENCES public.accounts(id) ON DELETE SET NULL,
+  is_active           boolean NOT NULL DEFAULT true, -- false once Plaid stops reporting it
+  created_at          timestamptz NOT NULL DEFAULT now(),
+  updated_at          timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS plaid_accounts_item_idx
+  ON public.plaid_accounts (plaid_item_id);
+
+ALTER TABLE public.plaid_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY plaid_accounts_authenticated ON public.plaid_accounts
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+ALTER TABLE public.plaid_transactions
+  ADD COLUMN IF NOT EXISTS dismissed_at timestamptz;
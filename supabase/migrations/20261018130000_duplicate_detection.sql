@@ -0,0 +1,107 @@
+-- supabase/migrations/20261018130000_duplicate_detection.sql
+--
+-- Support for the ledger "Possible duplicates" report.
+--   duplicate_dismissals          pairs the user marked "not duplicates"
+--   merge_duplicate_transactions  folds duplicate entries into one kept entry
+
+CREATE TABLE IF NOT EXISTS public.duplicate_dismissals (
+  id                bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  -- Stored lowest id first so each pair has one row
+  transaction_id_a  bigint NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  transaction_id_b  bigint NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  created_at        timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT duplicate_dismissals_ordered CHECK (transaction_id_a < transaction_id_b),
+  CONSTRAINT duplicate_dismissals_pair_unique UNIQUE (transaction_id_a, transaction_id_b)
+);
+
+CREATE INDEX IF NOT EXISTS duplicate_dismissals_b_idx
+  ON public.duplicate_dismissals (transaction_id_b);
+
+ALTER TABLE public.duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY duplicate_dismissals_authenticated ON public.duplicate_dismissals
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- ---------------------------------------------------------------------------
+-- merge_duplicate_transactions
+--
+-- Atomically keeps p_keep_transaction_id and deletes p_remove_transaction_ids,
+-- carrying over what tied the removed entries to the bank:
+--   1. Plaid link (plaid_transaction_id / bank_date) when the kept entry has none
+--   2. Staged Plaid rows (plaid_transactions.ledger_transaction_id)
+--   3. Cleared status, per account
+--   4. Reconciliation snapshots, per account
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.merge_duplicate_transactions(
+  p_keep_transaction_id     bigint,
+  p_remove_transaction_ids  bigint[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_plaid_id   text;
+  v_bank_date  date;
+BEGIN
+  IF p_keep_transaction_id = ANY (p_remove_transaction_ids) THEN
+    RAISE EXCEPTION 'Cannot merge transaction % into itself', p_keep_transaction_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transactions WHERE id = p_keep_transaction_id) THEN
+    RAISE EXCEPTION 'Transaction % not found', p_keep_transaction_id;
+  END IF;
+
+  -- 1. Plaid link
+  SELECT t.plaid_transaction_id, t.bank_date
+  INTO v_plaid_id, v_bank_date
+  FROM public.transactions t
+  WHERE t.id = ANY (p_remove_transaction_ids)
+    AND t.plaid_transaction_id IS NOT NULL
+  ORDER BY t.id
+  LIMIT 1;
+
+  IF v_plaid_id IS NOT NULL THEN
+    UPDATE public.transactions
+    SET plaid_transaction_id = NULL
+    WHERE id = ANY (p_remove_transaction_ids);
+
+    UPDATE public.transactions
+    SET plaid_transaction_id = v_plaid_id,
+        bank_date = COALESCE(bank_date, v_bank_date)
+    WHERE id = p_keep_transaction_id
+      AND plaid_transaction_id IS NULL;
+  END IF;
+
+  -- 2. Staged Plaid rows
+  UPDATE public.plaid_transactions
+  SET ledger_transaction_id = p_keep_transaction_id
+  WHERE ledger_transaction_id = ANY (p_remove_transaction_ids);
+
+  -- 3. Cleared status
+  UPDATE public.transaction_lines k
+  SET is_cleared = true
+  WHERE k.transaction_id = p_keep_transaction_id
+    AND k.is_cleared = false
+    AND EXISTS (
+      SELECT 1 FROM public.transaction_lines r
+      WHERE r.transaction_id = ANY (p_remove_transaction_ids)
+        AND r.account_id = k.account_id
+        AND r.is_cleared
+    );
+
+  -- 4. Reconciliation snapshots
+  UPDATE public.bank_reconciliation_lines brl
+  SET transaction_line_id = k.id
+  FROM public.transaction_lines r
+  JOIN public.transaction_lines k
+    ON k.transaction_id = p_keep_transaction_id
+   AND k.account_id = r.account_id
+  WHERE brl.transaction_line_id = r.id
+    AND r.transaction_id = ANY (p_remove_transaction_ids);
+
+  DELETE FROM public.transaction_lines WHERE transaction_id = ANY (p_remove_transaction_ids);
+  DELETE FROM public.transactions WHERE id = ANY (p_remove_transaction_ids);
+END;
+$$;
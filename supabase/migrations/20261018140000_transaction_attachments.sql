@@ -0,0 +1,50 @@
+-- supabase/migrations/20261018140000_transaction_attachments.sql
+--
+-- Receipts and supplier invoices attached to transactions.
+--   attachments (bucket)       private Storage bucket holding the files
+--   transaction_attachments    one row per file, linked to transactions
+
+-- ---------------------------------------------------------------------------
+-- Storage bucket
+-- ---------------------------------------------------------------------------
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY attachments_authenticated_select ON storage.objects
+  FOR SELECT TO authenticated USING (bucket_id = 'attachments');
+
+CREATE POLICY attachments_authenticated_insert ON storage.objects
+  FOR INSERT TO authenticated WITH CHECK (bucket_id = 'attachments');
+
+CREATE POLICY attachments_authenticated_update ON storage.objects
+  FOR UPDATE TO authenticated USING (bucket_id = 'attachments') WITH CHECK (bucket_id = 'attachments');
+
+CREATE POLICY attachments_authenticated_delete ON storage.objects
+  FOR DELETE TO authenticated USING (bucket_id = 'attachments');
+
+-- ---------------------------------------------------------------------------
+-- transaction_attachments
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.transaction_attachments (
+  id              bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  transaction_id  bigint NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  -- Object path inside the attachments bucket
+  storage_path    text NOT NULL,
+  file_name       text NOT NULL,
+  content_type    text,
+  size_bytes      bigint,
+  kind            text NOT NULL DEFAULT 'receipt',
+  created_at      timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT transaction_attachments_kind_check CHECK (kind IN ('receipt', 'invoice', 'other')),
+  CONSTRAINT transaction_attachments_path_unique UNIQUE (storage_path)
+);
+
+CREATE INDEX IF NOT EXISTS transaction_attachments_transaction_idx
+  ON public.transaction_attachments (transaction_id);
+
+ALTER TABLE public.transaction_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY transaction_attachments_authenticated ON public.transaction_attachments
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,161 @@
+-- supabase/migrations/20261018150000_audit_log.sql
+--
+-- Append-only audit trail of changes to the books.
+--   audit_log           one row per inserted, updated or deleted record
+--   audit_row_change()  trigger function attached to the audited tables
+--
+-- Audited: transactions, transaction_lines, jobs, real_estate_deals, accounts.
+-- Rows are written only by the trigger; clients can read but never change them.
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id                bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  table_name        text NOT NULL,
+  record_id         bigint NOT NULL,
+  -- Set for transactions and transaction_lines so a transaction's full
+  -- history (header + lines) is one lookup
+  transaction_id    bigint,
+  action            text NOT NULL,
+  changed_by        uuid,
+  changed_by_email  text,
+  changed_at        timestamptz NOT NULL DEFAULT now(),
+  -- UPDATE: only the fields that changed. INSERT/DELETE: the whole row.
+  old_values        jsonb,
+  new_values        jsonb,
+
+  CONSTRAINT audit_log_action_check CHECK (action IN ('INSERT', 'UPDATE', 'DELETE'))
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_record_idx
+  ON public.audit_log (table_name, record_id);
+
+CREATE INDEX IF NOT EXISTS audit_log_transaction_idx
+  ON public.audit_log (transaction_id)
+  WHERE transaction_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS audit_log_changed_at_idx
+  ON public.audit_log (changed_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for the app: no INSERT/UPDATE/DELETE policies
+CREATE POLICY audit_log_authenticated_select ON public.audit_log
+  FOR SELECT TO authenticated USING (true);
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- audit_log_immutable
+--
+-- Blocks UPDATE and DELETE on audit_log for every role, including the
+-- table owner, so the trail stays append-only.
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.audit_log_immutable()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_immutable ON public.audit_log;
+CREATE TRIGGER audit_log_immutable
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.audit_log_immutable();
+
+-- ---------------------------------------------------------------------------
+-- audit_row_change
+--
+-- AFTER INSERT/UPDATE/DELETE row trigger. Records who made the change
+-- (auth.uid() and the JWT email) and the old/new values. Updates that only
+-- touch updated_at are skipped.
+--
+-- SECURITY DEFINER so it can write to audit_log, which clients cannot.
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old        jsonb;
+  v_new        jsonb;
+  v_row        jsonb;
+  v_key        text;
+  v_old_diff   jsonb := '{}'::jsonb;
+  v_new_diff   jsonb := '{}'::jsonb;
+  v_tx_id      bigint;
+  v_claims     jsonb;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN v_old := to_jsonb(OLD); END IF;
+  IF TG_OP <> 'DELETE' THEN v_new := to_jsonb(NEW); END IF;
+  v_row := COALESCE(v_new, v_old);
+
+  IF TG_OP = 'UPDATE' THEN
+    FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+      IF v_key <> 'updated_at' AND (v_old -> v_key) IS DISTINCT FROM (v_new -> v_key) THEN
+        v_old_diff := v_old_diff || jsonb_build_object(v_key, v_old -> v_key);
+        v_new_diff := v_new_diff || jsonb_build_object(v_key, v_new -> v_key);
+      END IF;
+    END LOOP;
+
+    IF v_new_diff = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+
+    v_old := v_old_diff;
+    v_new := v_new_diff;
+  END IF;
+
+  IF TG_TABLE_NAME = 'transactions' THEN
+    v_tx_id := (v_row ->> 'id')::bigint;
+  ELSIF TG_TABLE_NAME = 'transaction_lines' THEN
+    v_tx_id := (v_row ->> 'transaction_id')::bigint;
+  END IF;
+
+  v_claims := NULLIF(current_setting('request.jwt.claims', true), '')::jsonb;
+
+  INSERT INTO public.audit_log (
+    table_name, record_id, transaction_id, action,
+    changed_by, changed_by_email, old_values, new_values
+  )
+  VALUES (
+    TG_TABLE_NAME,
+    (v_row ->> 'id')::bigint,
+    v_tx_id,
+    TG_OP,
+    auth.uid(),
+    v_claims ->> 'email',
+    v_old,
+    v_new
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_transactions ON public.transactions;
+CREATE TRIGGER audit_transactions
+  AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_transaction_lines ON public.transaction_lines;
+CREATE TRIGGER audit_transaction_lines
+  AFTER INSERT OR UPDATE OR DELETE ON public.transaction_lines
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_jobs ON public.jobs;
+CREATE TRIGGER audit_jobs
+  AFTER INSERT OR UPDATE OR DELETE ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_real_estate_deals ON public.real_estate_deals;
+CREATE TRIGGER audit_real_estate_deals
+  AFTER INSERT OR UPDATE OR DELETE ON public.real_estate_deals
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_accounts ON public.accounts;
+CREATE TRIGGER audit_accounts
+  AFTER INSERT OR UPDATE OR DELETE ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
@@ -0,0 +1,32 @@
+-- supabase/migrations/20261018160000_journal_entries.sql
+--
+-- General journal entries.
+--   transaction_lines.memo    free-text note per line
+--   journal_entry_templates   saved multi-line entries (depreciation, owner
+--                             draws, loan corrections, opening balances)
+
+ALTER TABLE public.transaction_lines
+  ADD COLUMN IF NOT EXISTS memo text;
+
+-- ---------------------------------------------------------------------------
+-- journal_entry_templates
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.journal_entry_templates (
+  id           bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  name         text NOT NULL,
+  description  text,
+  -- [{ "account_id": 10, "debit": 0, "credit": 250, "purpose": "business",
+  --    "job_id": null, "real_estate_deal_id": null, "memo": "..." }, ...]
+  -- Amounts may be 0 when the template only fixes the accounts.
+  lines        jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at   timestamptz NOT NULL DEFAULT now(),
+  updated_at   timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT journal_entry_templates_name_unique UNIQUE (name),
+  CONSTRAINT journal_entry_templates_lines_array CHECK (jsonb_typeof(lines) = 'array')
+);
+
+ALTER TABLE public.journal_entry_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY journal_entry_templates_authenticated ON public.journal_entry_templates
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,84 @@
+-- supabase/migrations/20261018170000_recurring_schedules.sql
+--
+-- Recurring transaction schedules (rent, mortgage, insurance, subscriptions,
+-- truck payments).
+--   recurring_schedules        template transaction + frequency + next run
+--   recurring_schedule_runs    one row per posted (or skipped) occurrence;
+--                              the unique key keeps a run from posting twice
+--                              when auto-post fires from several sessions
+
+-- ---------------------------------------------------------------------------
+-- recurring_schedules
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.recurring_schedules (
+  id                   bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  name                 text NOT NULL,
+  -- Transaction description; falls back to the name
+  description          text,
+  -- 'standard' posts the template lines as-is; 'mortgage' recomputes the
+  -- principal / interest / escrow split for the deal on every run
+  kind                 text NOT NULL DEFAULT 'standard',
+  frequency            text NOT NULL DEFAULT 'monthly',
+  -- First run; its day of month anchors monthly/semimonthly/annual dates
+  start_date           date NOT NULL,
+  next_run_date        date NOT NULL,
+  end_date             date,
+  auto_post            boolean NOT NULL DEFAULT false,
+  post_as_cleared      boolean NOT NULL DEFAULT false,
+  is_active            boolean NOT NULL DEFAULT true,
+  -- Standard: same shape as journal_entry_templates.lines
+  lines                jsonb NOT NULL DEFAULT '[]'::jsonb,
+  -- Mortgage: total payment from the cash account for the deal's loan
+  real_estate_deal_id  bigint REFERENCES public.real_estate_deals(id) ON DELETE SET NULL,
+  cash_account_id      bigint REFERENCES public.accounts(id),
+  payment_amount       numeric(12, 2),
+  last_run_date        date,
+  created_at           timestamptz NOT NULL DEFAULT now(),
+  updated_at           timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT recurring_schedules_kind_check CHECK (kind IN ('standard', 'mortgage')),
+  CONSTRAINT recurring_schedules_frequency_check
+    CHECK (frequency IN ('monthly', 'semimonthly', 'biweekly', 'annual')),
+  CONSTRAINT recurring_schedules_lines_array CHECK (jsonb_typeof(lines) = 'array'),
+  CONSTRAINT recurring_schedules_end_after_start CHECK (end_date IS NULL OR end_date >= start_date),
+  CONSTRAINT recurring_schedules_mortgage_fields CHECK (
+    kind <> 'mortgage'
+    OR (real_estate_deal_id IS NOT NULL AND cash_account_id IS NOT NULL AND payment_amount > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS recurring_schedules_next_run_idx
+  ON public.recurring_schedules (next_run_date)
+  WHERE is_active;
+
+ALTER TABLE public.recurring_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY recurring_schedules_authenticated ON public.recurring_schedules
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- ---------------------------------------------------------------------------
+-- recurring_schedule_runs
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.recurring_schedule_runs (
+  id              bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  schedule_id     bigint NOT NULL REFERENCES public.recurring_schedules(id) ON DELETE CASCADE,
+  -- Scheduled date of the occurrence (the entry may post later if the
+  -- month was already closed)
+  run_date        date NOT NULL,
+  transaction_id  bigint REFERENCES public.transactions(id) ON DELETE SET NULL,
+  status          text NOT NULL DEFAULT 'posted',
+  posted_by       text NOT NULL DEFAULT 'manual',
+  created_at      timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT recurring_schedule_runs_status_check CHECK (status IN ('posted', 'skipped')),
+  CONSTRAINT recurring_schedule_runs_posted_by_check CHECK (posted_by IN ('manual', 'auto')),
+  CONSTRAINT recurring_schedule_runs_unique UNIQUE (schedule_id, run_date)
+);
+
+CREATE INDEX IF NOT EXISTS recurring_schedule_runs_transaction_idx
+  ON public.recurring_schedule_runs (transaction_id);
+
+ALTER TABLE public.recurring_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY recurring_schedule_runs_authenticated ON public.recurring_schedule_runs
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
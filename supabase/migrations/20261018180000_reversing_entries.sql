@@ -0,0 +1,21 @@
+-- supabase/migrations/20261018180000_reversing_entries.sql
+--
+-- Reversing and correcting entries. Instead of editing a posted transaction
+-- the ledger posts a reversal (and, for a correction, a re-post with the new
+-- values) through create_transaction_multi and links them to the original:
+--   transactions.reverses_transaction_id   set on the reversal
+--   transactions.corrects_transaction_id   set on the corrected re-post
+-- The original is never changed, so the audit trail keeps every version.
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS reverses_transaction_id bigint REFERENCES public.transactions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS corrects_transaction_id bigint REFERENCES public.transactions(id) ON DELETE SET NULL;
+
+-- A transaction can only be reversed once
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_reverses_transaction_unique
+  ON public.transactions (reverses_transaction_id)
+  WHERE reverses_transaction_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS transactions_corrects_transaction_idx
+  ON public.transactions (corrects_transaction_id)
+  WHERE corrects_transaction_id IS NOT NULL;
@@ -0,0 +1,16 @@
+-- supabase/migrations/20261018190000_mixed_allocation.sql
+--
+-- Percentage allocation for mixed-purpose accounts (phone, truck, home
+-- office utilities). Entry forms expand a line posted as 'mixed' on an
+-- account with an allocation into one business/personal line per leg;
+-- account_id (optional) posts that share to another account.
+--
+--   [{ "purpose": "business", "percent": 70, "account_id": null },
+--    { "purpose": "personal", "percent": 30, "account_id": 123 }]
+
+ALTER TABLE public.accounts
+  ADD COLUMN IF NOT EXISTS mixed_allocation jsonb;
+
+ALTER TABLE public.accounts
+  ADD CONSTRAINT accounts_mixed_allocation_array
+  CHECK (mixed_allocation IS NULL OR jsonb_typeof(mixed_allocation) = 'array');
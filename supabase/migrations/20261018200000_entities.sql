@@ -0,0 +1,143 @@
+-- supabase/migrations/20261018200000_entities.sql
+--
+-- Multi-entity books. Every account belongs to one entity:
+--   llc        Oakerds LLC (flooring)
+--   holdings   Oakerds Holdings LLC (real estate)
+--   personal   Personal finances
+-- accounts.entity is backfilled from the code ranges the app used to infer
+-- it from (real estate ranges -> holdings; personal cards, debt, HELOC and
+-- personal expenses -> personal; everything else -> llc).
+--
+-- transactions.entity is maintained by trigger from the lines: the entity
+-- when every line's account shares one, NULL when the transaction spans
+-- entities (an intercompany transaction).
+--
+-- intercompany_accounts maps each ordered entity pair to the account in the
+-- first entity's books that holds the balance with the second (debit = due
+-- from, credit = due to). Entry forms add balancing lines on these accounts
+-- so each entity's share of a posting nets to zero.
+
+-- ------------------------------------------------------------
+-- accounts.entity
+-- ------------------------------------------------------------
+
+ALTER TABLE public.accounts
+  ADD COLUMN IF NOT EXISTS entity text NOT NULL DEFAULT 'llc';
+
+ALTER TABLE public.accounts
+  ADD CONSTRAINT accounts_entity_valid CHECK (entity IN ('llc', 'holdings', 'personal'));
+
+UPDATE public.accounts a
+SET entity = CASE
+    WHEN c.n BETWEEN 61000 AND 64999 THEN 'holdings'
+    WHEN c.n BETWEEN 2100 AND 2399
+      OR c.n BETWEEN 60000 AND 60999
+      OR c.n BETWEEN 65000 AND 65999 THEN 'personal'
+    ELSE 'llc'
+  END
+FROM (
+  SELECT id, NULLIF(regexp_replace(coalesce(code, ''), '\D', '', 'g'), '')::bigint AS n
+  FROM public.accounts
+) c
+WHERE c.id = a.id;
+
+CREATE INDEX IF NOT EXISTS accounts_entity_idx ON public.accounts (entity);
+
+-- ------------------------------------------------------------
+-- transactions.entity
+-- ------------------------------------------------------------
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS entity text;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_entity_valid CHECK (entity IS NULL OR entity IN ('llc', 'holdings', 'personal'));
+
+CREATE OR REPLACE FUNCTION public.refresh_transaction_entity(p_transaction_id bigint)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE public.transactions t
+  SET entity = e.entity
+  FROM (
+    SELECT CASE WHEN count(DISTINCT a.entity) = 1 THEN min(a.entity) END AS entity
+    FROM public.transaction_lines l
+    JOIN public.accounts a ON a.id = l.account_id
+    WHERE l.transaction_id = p_transaction_id
+  ) e
+  WHERE t.id = p_transaction_id
+    AND t.entity IS DISTINCT FROM e.entity;
+$$;
+
+CREATE OR REPLACE FUNCTION public.transaction_lines_refresh_entity()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_transaction_entity(OLD.transaction_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.refresh_transaction_entity(NEW.transaction_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transaction_lines_refresh_entity ON public.transaction_lines;
+CREATE TRIGGER transaction_lines_refresh_entity
+  AFTER INSERT OR UPDATE OF transaction_id, account_id OR DELETE ON public.transaction_lines
+  FOR EACH ROW EXECUTE FUNCTION public.transaction_lines_refresh_entity();
+
+-- Moving an account to another entity re-derives its transactions
+CREATE OR REPLACE FUNCTION public.accounts_refresh_transaction_entity()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM public.refresh_transaction_entity(l.transaction_id)
+  FROM (SELECT DISTINCT transaction_id FROM public.transaction_lines WHERE account_id = NEW.id) l;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS accounts_refresh_transaction_entity ON public.accounts;
+CREATE TRIGGER accounts_refresh_transaction_entity
+  AFTER UPDATE OF entity ON public.accounts
+  FOR EACH ROW
+  WHEN (NEW.entity IS DISTINCT FROM OLD.entity)
+  EXECUTE FUNCTION public.accounts_refresh_transaction_entity();
+
+UPDATE public.transactions t
+SET entity = e.entity
+FROM (
+  SELECT l.transaction_id, CASE WHEN count(DISTINCT a.entity) = 1 THEN min(a.entity) END AS entity
+  FROM public.transaction_lines l
+  JOIN public.accounts a ON a.id = l.account_id
+  GROUP BY l.transaction_id
+) e
+WHERE e.transaction_id = t.id;
+
+CREATE INDEX IF NOT EXISTS transactions_entity_idx ON public.transactions (entity);
+
+-- ------------------------------------------------------------
+-- intercompany_accounts
+-- ------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public.intercompany_accounts (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  entity text NOT NULL,
+  counterparty_entity text NOT NULL,
+  account_id bigint NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT intercompany_accounts_entity_valid CHECK (entity IN ('llc', 'holdings', 'personal')),
+  CONSTRAINT intercompany_accounts_counterparty_valid CHECK (counterparty_entity IN ('llc', 'holdings', 'personal')),
+  CONSTRAINT intercompany_accounts_distinct CHECK (entity <> counterparty_entity),
+  CONSTRAINT intercompany_accounts_pair_unique UNIQUE (entity, counterparty_entity)
+);
+
+ALTER TABLE public.intercompany_accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS intercompany_accounts_authenticated ON public.intercompany_accounts;
+CREATE POLICY intercompany_accounts_authenticated ON public.intercompany_accounts
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,32 @@
+-- supabase/migrations/20261018220000_tax_payer_settings.sql
+--
+-- Payer and transmitter details for 1099 e-filing, one row per entity that
+-- files its own returns. Tax Exports reads the row for the selected entity
+-- to build the IRS FIRE file (Publication 1220 T and A records) and the
+-- recipient Copy B forms. The app transmits its own files, so the payer is
+-- also the transmitter and needs an IRS Transmitter Control Code (TCC).
+
+CREATE TABLE IF NOT EXISTS public.tax_payer_settings (
+  id                        bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  entity                    text NOT NULL,
+  name                      text NOT NULL,
+  tin                       text,          -- payer EIN, digits with or without hyphen
+  address                   text,          -- street line
+  city                      text,
+  state                     text,          -- two-letter code
+  zip                       text,
+  phone                     text,
+  contact_name              text,
+  contact_email             text,
+  transmitter_control_code  text,          -- 5-character TCC issued by the IRS for FIRE
+  created_at                timestamptz NOT NULL DEFAULT now(),
+  updated_at                timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT tax_payer_settings_entity_valid CHECK (entity IN ('llc', 'holdings', 'personal')),
+  CONSTRAINT tax_payer_settings_entity_unique UNIQUE (entity)
+);
+
+ALTER TABLE public.tax_payer_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tax_payer_settings_authenticated ON public.tax_payer_settings;
+CREATE POLICY tax_payer_settings_authenticated ON public.tax_payer_settings
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
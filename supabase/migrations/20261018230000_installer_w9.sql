@@ -0,0 +1,29 @@
+-- supabase/migrations/20261018230000_installer_w9.sql
+--
+-- W-9 tracking for installers. An installer has a W-9 on file once
+-- w9_received_on is set; the form itself is uploaded to the private
+-- attachments bucket under installers/<id>/ (w9_storage_path).
+--   tin_type            which TIN the W-9 gives (Part I): SSN or EIN
+--   tax_classification  federal tax classification (line 3)
+--   backup_withholding  true when payments must have 24% withheld (no TIN,
+--                       or an IRS B-notice / CP2100 for this payee)
+-- Payments to an installer without a W-9 are flagged in the entry forms,
+-- and Tax Exports lists them as blocking 1099-NEC filing.
+
+ALTER TABLE public.installers
+  ADD COLUMN IF NOT EXISTS w9_received_on date,
+  ADD COLUMN IF NOT EXISTS tin_type text,
+  ADD COLUMN IF NOT EXISTS tax_classification text,
+  ADD COLUMN IF NOT EXISTS backup_withholding boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS w9_storage_path text,
+  ADD COLUMN IF NOT EXISTS w9_file_name text;
+
+ALTER TABLE public.installers
+  ADD CONSTRAINT installers_tin_type_valid CHECK (tin_type IS NULL OR tin_type IN ('ssn', 'ein'));
+
+ALTER TABLE public.installers
+  ADD CONSTRAINT installers_tax_classification_valid CHECK (
+    tax_classification IS NULL OR tax_classification IN (
+      'individual', 'c_corporation', 's_corporation', 'partnership', 'trust_estate', 'llc_c', 'llc_s', 'llc_p', 'other'
+    )
+  );
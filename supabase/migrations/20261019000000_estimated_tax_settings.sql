@@ -0,0 +1,35 @@
+-- supabase/migrations/20261019000000_estimated_tax_settings.sql
+--
+-- Rates and brackets for the Estimated Taxes report, one row per tax year.
+-- The report annualizes year-to-date Schedule C and Schedule E net income,
+-- runs it through these settings and compares the result with estimated
+-- payments already posted (debits to the federal and state payment
+-- accounts) for each Form 1040-ES deadline.
+--   federal_brackets  JSON array of { "up_to": number | null, "rate": number },
+--                     ascending; up_to null marks the top bracket; rates are
+--                     fractions (0.22 = 22%)
+--   qbi_rate          qualified business income deduction rate (0.20), or 0
+
+CREATE TABLE IF NOT EXISTS public.estimated_tax_settings (
+  id                          bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  tax_year                    integer NOT NULL,
+  federal_brackets            jsonb NOT NULL,
+  standard_deduction          numeric(12,2) NOT NULL DEFAULT 0,
+  qbi_rate                    numeric(6,4) NOT NULL DEFAULT 0,
+  ss_wage_base                numeric(12,2) NOT NULL,
+  other_income                numeric(12,2) NOT NULL DEFAULT 0,
+  state_rate                  numeric(6,4) NOT NULL DEFAULT 0,
+  state_deduction             numeric(12,2) NOT NULL DEFAULT 0,
+  federal_payment_account_id  bigint REFERENCES public.accounts(id) ON DELETE SET NULL,
+  state_payment_account_id    bigint REFERENCES public.accounts(id) ON DELETE SET NULL,
+  created_at                  timestamptz NOT NULL DEFAULT now(),
+  updated_at                  timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT estimated_tax_settings_year_unique UNIQUE (tax_year),
+  CONSTRAINT estimated_tax_settings_brackets_array CHECK (jsonb_typeof(federal_brackets) = 'array')
+);
+
+ALTER TABLE public.estimated_tax_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS estimated_tax_settings_authenticated ON public.estimated_tax_settings;
+CREATE POLICY estimated_tax_settings_authenticated ON public.estimated_tax_settings
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
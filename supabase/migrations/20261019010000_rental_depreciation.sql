@@ -0,0 +1,85 @@
+-- supabase/migrations/20261019010000_rental_depreciation.sql
+--
+-- Depreciation for rental properties (MACRS residential rental: 27.5 years,
+-- straight line, mid-month convention).
+--   rental_depreciation_assets    the building (purchase basis less land) and
+--                                 each capital improvement, depreciated on
+--                                 its own schedule from its placed-in-service
+--                                 date; at most one building per deal
+--   rental_depreciation_postings  one annual depreciation entry per deal and
+--                                 tax year; the unique key keeps a year from
+--                                 posting twice, and deleting the entry
+--                                 frees the year to post again
+-- Each deal names the rental expense account depreciation posts to and the
+-- accumulated depreciation (contra-asset) account it credits. Depreciation
+-- stops at the deal's sell_date (or an improvement's disposed_on); what has
+-- accumulated by then reduces the property's basis at sale.
+
+ALTER TABLE public.real_estate_deals
+  ADD COLUMN IF NOT EXISTS depreciation_expense_account_id bigint REFERENCES public.accounts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS accumulated_depreciation_account_id bigint REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+-- ---------------------------------------------------------------------------
+-- rental_depreciation_assets
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.rental_depreciation_assets (
+  id                      bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  real_estate_deal_id     bigint NOT NULL REFERENCES public.real_estate_deals(id) ON DELETE CASCADE,
+  kind                    text NOT NULL,
+  description             text NOT NULL,
+  -- Total cost: purchase price plus capitalized closing costs for the
+  -- building, the amount spent for an improvement
+  cost_basis              numeric(12,2) NOT NULL,
+  -- Non-depreciable land portion of a building's cost
+  land_value              numeric(12,2) NOT NULL DEFAULT 0,
+  placed_in_service_date  date NOT NULL,
+  -- Improvement replaced or removed before the property is sold
+  disposed_on             date,
+  created_at              timestamptz NOT NULL DEFAULT now(),
+  updated_at              timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT rental_depreciation_assets_kind_check CHECK (kind IN ('building', 'improvement')),
+  CONSTRAINT rental_depreciation_assets_cost_positive CHECK (cost_basis > 0),
+  CONSTRAINT rental_depreciation_assets_land_valid CHECK (
+    land_value >= 0 AND land_value < cost_basis AND (kind = 'building' OR land_value = 0)
+  ),
+  CONSTRAINT rental_depreciation_assets_disposed_after_service CHECK (
+    disposed_on IS NULL OR disposed_on >= placed_in_service_date
+  )
+);
+
+CREATE INDEX IF NOT EXISTS rental_depreciation_assets_deal_idx
+  ON public.rental_depreciation_assets (real_estate_deal_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS rental_depreciation_assets_one_building
+  ON public.rental_depreciation_assets (real_estate_deal_id)
+  WHERE kind = 'building';
+
+ALTER TABLE public.rental_depreciation_assets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS rental_depreciation_assets_authenticated ON public.rental_depreciation_assets;
+CREATE POLICY rental_depreciation_assets_authenticated ON public.rental_depreciation_assets
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- ---------------------------------------------------------------------------
+-- rental_depreciation_postings
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.rental_depreciation_postings (
+  id                   bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  real_estate_deal_id  bigint NOT NULL REFERENCES public.real_estate_deals(id) ON DELETE CASCADE,
+  tax_year             integer NOT NULL,
+  amount               numeric(12,2) NOT NULL,
+  transaction_id       bigint REFERENCES public.transactions(id) ON DELETE CASCADE,
+  created_at           timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT rental_depreciation_postings_unique UNIQUE (real_estate_deal_id, tax_year)
+);
+
+CREATE INDEX IF NOT EXISTS rental_depreciation_postings_transaction_idx
+  ON public.rental_depreciation_postings (transaction_id);
+
+ALTER TABLE public.rental_depreciation_postings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS rental_depreciation_postings_authenticated ON public.rental_depreciation_postings;
+CREATE POLICY rental_depreciation_postings_authenticated ON public.rental_depreciation_postings
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,80 @@
+-- supabase/migrations/20261019020000_fixed_assets.sql
+--
+-- Fixed asset register for business equipment and vehicles (truck, saws,
+-- carpet kicker). Asset and accumulated depreciation accounts live in the
+-- 15000-15999 fixed asset range; depreciation expense posts to overhead so
+-- it lands on Schedule C.
+--   fixed_assets                        one row per asset: cost, in-service
+--                                       date, method and accounts; disposal
+--                                       columns are set by the disposal entry
+--   fixed_asset_depreciation_postings   one row per asset and tax year; all
+--                                       assets posted for a year share one
+--                                       entry (the disposal year rides on the
+--                                       disposal entry), and deleting the
+--                                       entry frees the year
+-- Methods:
+--   macrs_5 / macrs_7  GDS 200% declining balance, half-year convention
+--   section_179        full cost expensed in the year placed in service
+--   bonus              bonus_rate of cost in the first year, the rest over
+--                      the recovery_years MACRS schedule
+
+CREATE TABLE IF NOT EXISTS public.fixed_assets (
+  id                                   bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  name                                 text NOT NULL,
+  description                          text,
+  asset_account_id                     bigint NOT NULL REFERENCES public.accounts(id),
+  accumulated_depreciation_account_id  bigint NOT NULL REFERENCES public.accounts(id),
+  depreciation_expense_account_id      bigint NOT NULL REFERENCES public.accounts(id),
+  cost                                 numeric(12,2) NOT NULL,
+  in_service_date                      date NOT NULL,
+  method                               text NOT NULL DEFAULT 'macrs_7',
+  recovery_years                       integer NOT NULL DEFAULT 7,
+  bonus_rate                           numeric(5,4) NOT NULL DEFAULT 1,
+  disposed_on                          date,
+  disposal_proceeds                    numeric(12,2),
+  disposal_transaction_id              bigint REFERENCES public.transactions(id) ON DELETE SET NULL,
+  created_at                           timestamptz NOT NULL DEFAULT now(),
+  updated_at                           timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT fixed_assets_cost_positive CHECK (cost > 0),
+  CONSTRAINT fixed_assets_method_check CHECK (method IN ('macrs_5', 'macrs_7', 'section_179', 'bonus')),
+  CONSTRAINT fixed_assets_recovery_years_check CHECK (
+    recovery_years IN (5, 7)
+    AND (method <> 'macrs_5' OR recovery_years = 5)
+    AND (method <> 'macrs_7' OR recovery_years = 7)
+  ),
+  CONSTRAINT fixed_assets_bonus_rate_check CHECK (bonus_rate > 0 AND bonus_rate <= 1),
+  CONSTRAINT fixed_assets_disposed_after_service CHECK (disposed_on IS NULL OR disposed_on >= in_service_date),
+  CONSTRAINT fixed_assets_disposal_proceeds_check CHECK (disposal_proceeds IS NULL OR disposal_proceeds >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS fixed_assets_in_service_idx ON public.fixed_assets (in_service_date);
+
+ALTER TABLE public.fixed_assets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS fixed_assets_authenticated ON public.fixed_assets;
+CREATE POLICY fixed_assets_authenticated ON public.fixed_assets
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- ---------------------------------------------------------------------------
+-- fixed_asset_depreciation_postings
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.fixed_asset_depreciation_postings (
+  id              bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  fixed_asset_id  bigint NOT NULL REFERENCES public.fixed_assets(id) ON DELETE CASCADE,
+  tax_year        integer NOT NULL,
+  amount          numeric(12,2) NOT NULL,
+  transaction_id  bigint REFERENCES public.transactions(id) ON DELETE CASCADE,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT fixed_asset_depreciation_postings_unique UNIQUE (fixed_asset_id, tax_year)
+);
+
+CREATE INDEX IF NOT EXISTS fixed_asset_depreciation_postings_transaction_idx
+  ON public.fixed_asset_depreciation_postings (transaction_id);
+
+ALTER TABLE public.fixed_asset_depreciation_postings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS fixed_asset_depreciation_postings_authenticated ON public.fixed_asset_depreciation_postings;
+CREATE POLICY fixed_asset_depreciation_postings_authenticated ON public.fixed_asset_depreciation_postings
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
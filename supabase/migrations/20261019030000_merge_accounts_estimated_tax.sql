@@ -0,0 +1,72 @@
+-- supabase/migrations/20261019030000_merge_accounts_estimated_tax.sql
+--
+-- Estimated Taxes settings name the accounts federal and state estimated
+-- payments post to. Re-create merge_accounts so a merge re-points them too;
+-- otherwise the report keeps reading payments from the deactivated source.
+
+CREATE OR REPLACE FUNCTION public.merge_accounts(p_source_id bigint, p_target_id bigint)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_source public.accounts%ROWTYPE;
+  v_target public.accounts%ROWTYPE;
+  v_moved integer;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge an account into itself';
+  END IF;
+
+  SELECT * INTO v_source FROM public.accounts WHERE id = p_source_id FOR UPDATE;
+  SELECT * INTO v_target FROM public.accounts WHERE id = p_target_id FOR UPDATE;
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+  IF v_source.account_type_id <> v_target.account_type_id THEN
+    RAISE EXCEPTION 'Accounts must have the same type to merge';
+  END IF;
+  IF v_source.entity <> v_target.entity THEN
+    RAISE EXCEPTION 'Accounts must belong to the same entity to merge';
+  END IF;
+
+  UPDATE public.transaction_lines SET account_id = p_target_id WHERE account_id = p_source_id;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  UPDATE public.real_estate_deals SET asset_account_id = p_target_id WHERE asset_account_id = p_source_id;
+  UPDATE public.real_estate_deals SET loan_account_id = p_target_id WHERE loan_account_id = p_source_id;
+  UPDATE public.lead_sources SET marketing_account_id = p_target_id WHERE marketing_account_id = p_source_id;
+  UPDATE public.merchant_mappings SET default_account_id = p_target_id WHERE default_account_id = p_source_id;
+  UPDATE public.plaid_accounts SET ledger_account_id = p_target_id WHERE ledger_account_id = p_source_id;
+  UPDATE public.bank_reconciliations SET account_id = p_target_id WHERE account_id = p_source_id;
+
+  UPDATE public.categorization_rules SET account_id = p_target_id WHERE account_id = p_source_id;
+  UPDATE public.categorization_rules SET set_account_id = p_target_id WHERE set_account_id = p_source_id;
+  UPDATE public.categorization_rules
+  SET splits = public.jsonb_replace_account_id(splits, p_source_id, p_target_id)
+  WHERE splits @> jsonb_build_array(jsonb_build_object('account_id', p_source_id));
+
+  UPDATE public.recurring_schedules SET cash_account_id = p_target_id WHERE cash_account_id = p_source_id;
+  UPDATE public.recurring_schedules
+  SET lines = public.jsonb_replace_account_id(lines, p_source_id, p_target_id)
+  WHERE lines @> jsonb_build_array(jsonb_build_object('account_id', p_source_id));
+
+  UPDATE public.journal_entry_templates
+  SET lines = public.jsonb_replace_account_id(lines, p_source_id, p_target_id)
+  WHERE lines @> jsonb_build_array(jsonb_build_object('account_id', p_source_id));
+
+  UPDATE public.accounts
+  SET mixed_allocation = public.jsonb_replace_account_id(mixed_allocation, p_source_id, p_target_id)
+  WHERE mixed_allocation @> jsonb_build_array(jsonb_build_object('account_id', p_source_id));
+
+  UPDATE public.intercompany_accounts SET account_id = p_target_id WHERE account_id = p_source_id;
+
+  UPDATE public.estimated_tax_settings SET federal_payment_account_id = p_target_id
+  WHERE federal_payment_account_id = p_source_id;
+  UPDATE public.estimated_tax_settings SET state_payment_account_id = p_target_id
+  WHERE state_payment_account_id = p_source_id;
+
+  UPDATE public.accounts SET is_active = false WHERE id = p_source_id;
+
+  RETURN v_moved;
+END;
+$$;
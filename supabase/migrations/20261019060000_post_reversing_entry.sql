@@ -0,0 +1,63 @@
+-- supabase/migrations/20261019060000_post_reversing_entry.sql
+--
+-- post_reversing_entry posts a reversal of a transaction and, for a
+-- correction, the re-post with the new values, and links both to the
+-- original in a single database transaction. If any step fails nothing is
+-- kept, so the ledger never holds an unlinked reversal or a reversal
+-- without its correction.
+--   - both entries go through create_transaction_multi, which checks that
+--     their lines balance
+--   - the reversal gets reverses_transaction_id, the re-post
+--     corrects_transaction_id (see 20261018180000_reversing_entries.sql)
+--   - a transaction that is already reversed is rejected
+-- Returns { "reversal_id": ..., "correction_id": ... | null }.
+
+CREATE OR REPLACE FUNCTION public.post_reversing_entry(
+  p_transaction_id          bigint,
+  p_reversal_date           date,
+  p_reversal_description    text,
+  p_reversal_lines          jsonb,
+  p_correction_date         date DEFAULT NULL,
+  p_correction_description  text DEFAULT NULL,
+  p_correction_lines        jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_reversal_id    bigint;
+  v_correction_id  bigint;
+BEGIN
+  PERFORM 1 FROM public.transactions WHERE id = p_transaction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.transactions WHERE reverses_transaction_id = p_transaction_id) THEN
+    RAISE EXCEPTION 'Transaction % is already reversed', p_transaction_id;
+  END IF;
+
+  IF p_correction_lines IS NOT NULL AND p_correction_date IS NULL THEN
+    RAISE EXCEPTION 'A correction needs a date';
+  END IF;
+
+  v_reversal_id := public.create_transaction_multi(
+    p_date => p_reversal_date,
+    p_description => p_reversal_description,
+    p_lines => p_reversal_lines
+  );
+  UPDATE public.transactions SET reverses_transaction_id = p_transaction_id WHERE id = v_reversal_id;
+
+  IF p_correction_lines IS NOT NULL THEN
+    v_correction_id := public.create_transaction_multi(
+      p_date => p_correction_date,
+      p_description => p_correction_description,
+      p_lines => p_correction_lines
+    );
+    UPDATE public.transactions SET corrects_transaction_id = p_transaction_id WHERE id = v_correction_id;
+  END IF;
+
+  RETURN jsonb_build_object('reversal_id', v_reversal_id, 'correction_id', v_correction_id);
+END;
+$$;
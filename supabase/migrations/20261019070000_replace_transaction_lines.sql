@@ -0,0 +1,98 @@
+-- supabase/migrations/20261019070000_replace_transaction_lines.sql
+--
+-- replace_transaction_lines swaps the full set of lines on an existing
+-- transaction in one database transaction, for saving a split from the
+-- ledger edit modal. p_lines holds every line the transaction should end
+-- up with:
+--   - an element with "id" updates that line of the transaction in place,
+--     so bank links and reconciliation snapshots stay attached
+--   - an element without "id" is inserted
+--   - lines of the transaction left out of p_lines are deleted
+-- Optional fields (job_id, vendor_id, installer_id, real_estate_deal_id,
+-- purpose) are set from the element, null when omitted; is_cleared and memo
+-- keep the line's current value when omitted. The result must have at
+-- least two lines and sum to zero, or nothing is changed.
+
+CREATE OR REPLACE FUNCTION public.replace_transaction_lines(
+  p_transaction_id  bigint,
+  p_lines           jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_line       jsonb;
+  v_line_id    bigint;
+  v_count      integer;
+  v_total      numeric;
+BEGIN
+  PERFORM 1 FROM public.transactions WHERE id = p_transaction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  IF jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) < 2 THEN
+    RAISE EXCEPTION 'A transaction needs at least two lines';
+  END IF;
+
+  -- Every id must already belong to this transaction
+  SELECT count(*) INTO v_count
+  FROM jsonb_array_elements(p_lines) AS e(item)
+  WHERE item ? 'id'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.transaction_lines tl
+      WHERE tl.id = (item->>'id')::bigint AND tl.transaction_id = p_transaction_id
+    );
+  IF v_count > 0 THEN
+    RAISE EXCEPTION 'Lines include % id(s) from another transaction', v_count;
+  END IF;
+
+  DELETE FROM public.transaction_lines
+  WHERE transaction_id = p_transaction_id
+    AND id NOT IN (
+      SELECT (item->>'id')::bigint FROM jsonb_array_elements(p_lines) AS e(item) WHERE item ? 'id'
+    );
+
+  FOR v_line IN SELECT item FROM jsonb_array_elements(p_lines) AS e(item) LOOP
+    v_line_id := (v_line->>'id')::bigint;
+    IF v_line_id IS NOT NULL THEN
+      UPDATE public.transaction_lines
+      SET account_id = (v_line->>'account_id')::bigint,
+          amount = (v_line->>'amount')::numeric,
+          is_cleared = coalesce((v_line->>'is_cleared')::boolean, is_cleared),
+          purpose = v_line->>'purpose',
+          job_id = (v_line->>'job_id')::bigint,
+          vendor_id = (v_line->>'vendor_id')::bigint,
+          installer_id = (v_line->>'installer_id')::bigint,
+          real_estate_deal_id = (v_line->>'real_estate_deal_id')::bigint,
+          memo = CASE WHEN v_line ? 'memo' THEN v_line->>'memo' ELSE memo END
+      WHERE id = v_line_id;
+    ELSE
+      INSERT INTO public.transaction_lines (
+        transaction_id, account_id, amount, is_cleared, purpose,
+        job_id, vendor_id, installer_id, real_estate_deal_id, memo
+      )
+      VALUES (
+        p_transaction_id,
+        (v_line->>'account_id')::bigint,
+        (v_line->>'amount')::numeric,
+        coalesce((v_line->>'is_cleared')::boolean, false),
+        v_line->>'purpose',
+        (v_line->>'job_id')::bigint,
+        (v_line->>'vendor_id')::bigint,
+        (v_line->>'installer_id')::bigint,
+        (v_line->>'real_estate_deal_id')::bigint,
+        v_line->>'memo'
+      );
+    END IF;
+  END LOOP;
+
+  SELECT coalesce(sum(amount), 0) INTO v_total
+  FROM public.transaction_lines
+  WHERE transaction_id = p_transaction_id;
+  IF abs(v_total) >= 0.005 THEN
+    RAISE EXCEPTION 'Lines do not balance (off by %)', v_total;
+  END IF;
+END;
+$$;
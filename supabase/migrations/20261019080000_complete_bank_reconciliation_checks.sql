@@ -0,0 +1,138 @@
+-- supabase/migrations/20261019080000_complete_bank_reconciliation_checks.sql
+--
+-- complete_bank_reconciliation used to trust the client's totals. Re-create
+-- it so the database checks the reconciliation itself before saving:
+--   - every ticked line exists, belongs to the account, is still uncleared
+--     and is dated on or before the statement end date
+--   - the cleared balance it computes (lines already cleared through the end
+--     date plus the ticked lines) ties to the statement ending balance
+-- Any failure raises and nothing is saved. The stored cleared_balance and
+-- difference come from the server's own total; p_cleared_balance is kept in
+-- the signature for existing callers.
+
+CREATE OR REPLACE FUNCTION public.complete_bank_reconciliation(
+  p_account_id               bigint,
+  p_statement_end_date       date,
+  p_statement_ending_balance numeric,
+  p_beginning_balance        numeric,
+  p_cleared_balance          numeric,
+  p_line_ids                 bigint[],
+  p_notes                    text DEFAULT NULL
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_recon_id       bigint;
+  v_bad_count      integer;
+  v_line_count     integer;
+  v_found_count    integer;
+  v_sign           integer;
+  v_book_cleared   numeric;
+  v_cleared        numeric;
+BEGIN
+  p_line_ids := coalesce(p_line_ids, ARRAY[]::bigint[]);
+  SELECT count(DISTINCT id) INTO v_line_count FROM unnest(p_line_ids) AS ids(id);
+
+  -- Lock the ticked lines so a concurrent edit or reconciliation can't change them
+  SELECT count(*) INTO v_found_count
+  FROM (
+    SELECT id FROM public.transaction_lines WHERE id = ANY (p_line_ids) FOR UPDATE
+  ) locked;
+
+  IF v_found_count <> v_line_count THEN
+    RAISE EXCEPTION 'Reconciliation includes % line(s) that no longer exist', v_line_count - v_found_count;
+  END IF;
+
+  -- All ticked lines must belong to the account being reconciled
+  SELECT count(*) INTO v_bad_count
+  FROM public.transaction_lines tl
+  WHERE tl.id = ANY (p_line_ids)
+    AND tl.account_id <> p_account_id;
+
+  IF v_bad_count > 0 THEN
+    RAISE EXCEPTION 'Reconciliation includes % line(s) from another account', v_bad_count;
+  END IF;
+
+  SELECT count(*) INTO v_bad_count
+  FROM public.transaction_lines tl
+  WHERE tl.id = ANY (p_line_ids)
+    AND tl.is_cleared;
+
+  IF v_bad_count > 0 THEN
+    RAISE EXCEPTION 'Reconciliation includes % line(s) that are already cleared', v_bad_count;
+  END IF;
+
+  SELECT count(*) INTO v_bad_count
+  FROM public.transaction_lines tl
+  JOIN public.transactions t ON t.id = tl.transaction_id
+  WHERE tl.id = ANY (p_line_ids)
+    AND t.date > p_statement_end_date;
+
+  IF v_bad_count > 0 THEN
+    RAISE EXCEPTION 'Reconciliation includes % line(s) dated after %', v_bad_count, p_statement_end_date;
+  END IF;
+
+  -- Statement sign: liabilities (cards) are shown positive when owed
+  SELECT CASE WHEN at.name = 'liability' THEN -1 ELSE 1 END INTO v_sign
+  FROM public.accounts a
+  JOIN public.account_types at ON at.id = a.account_type_id
+  WHERE a.id = p_account_id;
+
+  IF v_sign IS NULL THEN
+    RAISE EXCEPTION 'Account % not found', p_account_id;
+  END IF;
+
+  SELECT coalesce(sum(tl.amount), 0) INTO v_book_cleared
+  FROM public.transaction_lines tl
+  JOIN public.transactions t ON t.id = tl.transaction_id
+  WHERE tl.account_id = p_account_id
+    AND (
+      (tl.is_cleared AND t.date <= p_statement_end_date)
+      OR tl.id = ANY (p_line_ids)
+    );
+
+  v_cleared := round(v_book_cleared * v_sign, 2);
+
+  IF abs(p_statement_ending_balance - v_cleared) >= 0.005 THEN
+    RAISE EXCEPTION 'Cleared balance % does not match statement balance % (difference %)',
+      v_cleared, p_statement_ending_balance, p_statement_ending_balance - v_cleared;
+  END IF;
+
+  INSERT INTO public.bank_reconciliations (
+    account_id, statement_end_date, statement_ending_balance,
+    beginning_balance, cleared_balance, difference, notes
+  )
+  VALUES (
+    p_account_id, p_statement_end_date, p_statement_ending_balance,
+    p_beginning_balance, v_cleared,
+    p_statement_ending_balance - v_cleared, p_notes
+  )
+  RETURNING id INTO v_recon_id;
+
+  INSERT INTO public.bank_reconciliation_lines (reconciliation_id, transaction_line_id, date, description, amount)
+  SELECT v_recon_id, tl.id, t.date, t.description, tl.amount
+  FROM public.transaction_lines tl
+  JOIN public.transactions t ON t.id = tl.transaction_id
+  WHERE tl.id = ANY (p_line_ids);
+
+  -- Clear the ticked lines themselves
+  UPDATE public.transaction_lines
+  SET is_cleared = true
+  WHERE id = ANY (p_line_ids);
+
+  -- Clear the category (income/expense) side of the same transactions
+  UPDATE public.transaction_lines tl
+  SET is_cleared = true
+  FROM public.accounts a
+  JOIN public.account_types at ON at.id = a.account_type_id
+  WHERE a.id = tl.account_id
+    AND at.name IN ('income', 'expense')
+    AND tl.transaction_id IN (
+      SELECT transaction_id FROM public.transaction_lines WHERE id = ANY (p_line_ids)
+    );
+
+  RETURN v_recon_id;
+END;
+$$;
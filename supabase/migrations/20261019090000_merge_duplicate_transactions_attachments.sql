@@ -0,0 +1,96 @@
+-- supabase/migrations/20261019090000_merge_duplicate_transactions_attachments.sql
+--
+-- merge_duplicate_transactions deleted the removed entries together with
+-- their receipts: transaction_attachments cascades on delete, so a receipt
+-- attached only to a duplicate was lost (its Storage file left unreferenced).
+-- Re-create the function so attachments move to the kept entry before the
+-- delete, like the Plaid link, cleared status and reconciliation snapshots.
+
+-- ---------------------------------------------------------------------------
+-- merge_duplicate_transactions
+--
+-- Atomically keeps p_keep_transaction_id and deletes p_remove_transaction_ids,
+-- carrying over what tied the removed entries to the bank:
+--   1. Plaid link (plaid_transaction_id / bank_date) when the kept entry has none
+--   2. Staged Plaid rows (plaid_transactions.ledger_transaction_id)
+--   3. Cleared status, per account
+--   4. Reconciliation snapshots, per account
+--   5. Attachments (receipts, invoices)
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.merge_duplicate_transactions(
+  p_keep_transaction_id     bigint,
+  p_remove_transaction_ids  bigint[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_plaid_id   text;
+  v_bank_date  date;
+BEGIN
+  IF p_keep_transaction_id = ANY (p_remove_transaction_ids) THEN
+    RAISE EXCEPTION 'Cannot merge transaction % into itself', p_keep_transaction_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transactions WHERE id = p_keep_transaction_id) THEN
+    RAISE EXCEPTION 'Transaction % not found', p_keep_transaction_id;
+  END IF;
+
+  -- 1. Plaid link
+  SELECT t.plaid_transaction_id, t.bank_date
+  INTO v_plaid_id, v_bank_date
+  FROM public.transactions t
+  WHERE t.id = ANY (p_remove_transaction_ids)
+    AND t.plaid_transaction_id IS NOT NULL
+  ORDER BY t.id
+  LIMIT 1;
+
+  IF v_plaid_id IS NOT NULL THEN
+    UPDATE public.transactions
+    SET plaid_transaction_id = NULL
+    WHERE id = ANY (p_remove_transaction_ids);
+
+    UPDATE public.transactions
+    SET plaid_transaction_id = v_plaid_id,
+        bank_date = COALESCE(bank_date, v_bank_date)
+    WHERE id = p_keep_transaction_id
+      AND plaid_transaction_id IS NULL;
+  END IF;
+
+  -- 2. Staged Plaid rows
+  UPDATE public.plaid_transactions
+  SET ledger_transaction_id = p_keep_transaction_id
+  WHERE ledger_transaction_id = ANY (p_remove_transaction_ids);
+
+  -- 3. Cleared status
+  UPDATE public.transaction_lines k
+  SET is_cleared = true
+  WHERE k.transaction_id = p_keep_transaction_id
+    AND k.is_cleared = false
+    AND EXISTS (
+      SELECT 1 FROM public.transaction_lines r
+      WHERE r.transaction_id = ANY (p_remove_transaction_ids)
+        AND r.account_id = k.account_id
+        AND r.is_cleared
+    );
+
+  -- 4. Reconciliation snapshots
+  UPDATE public.bank_reconciliation_lines brl
+  SET transaction_line_id = k.id
+  FROM public.transaction_lines r
+  JOIN public.transaction_lines k
+    ON k.transaction_id = p_keep_transaction_id
+   AND k.account_id = r.account_id
+  WHERE brl.transaction_line_id = r.id
+    AND r.transaction_id = ANY (p_remove_transaction_ids);
+
+  -- 5. Attachments - must move before the delete, which would cascade them
+  UPDATE public.transaction_attachments
+  SET transaction_id = p_keep_transaction_id
+  WHERE transaction_id = ANY (p_remove_transaction_ids);
+
+  DELETE FROM public.transaction_lines WHERE transaction_id = ANY (p_remove_transaction_ids);
+  DELETE FROM public.transactions WHERE id = ANY (p_remove_transaction_ids);
+END;
+$$;
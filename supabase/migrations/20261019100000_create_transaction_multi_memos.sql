@@ -0,0 +1,75 @@
+-- supabase/migrations/20261019100000_create_transaction_multi_memos.sql
+--
+-- create_transaction_multi takes a per-line "memo" in p_lines, so journal
+-- entries and recurring runs save their line memos with the entry instead of
+-- updating transaction_lines afterwards (where a failure left an entry
+-- without its memos).
+--
+-- The function predates the migrations in this folder; this is its full
+-- definition from here on, with the same signature and behavior:
+--   - p_lines is an array of at least two lines that sum to zero
+--   - each line: account_id, amount (required); is_cleared (default false);
+--     purpose (default p_purpose); job_id, vendor_id, installer_id,
+--     real_estate_deal_id, memo (default null)
+--   - returns the new transaction id
+-- Dropped first so a caller never sees two overloads.
+
+DROP FUNCTION IF EXISTS public.create_transaction_multi(date, text, jsonb, text);
+
+CREATE FUNCTION public.create_transaction_multi(
+  p_date         date,
+  p_description  text,
+  p_lines        jsonb,
+  p_purpose      text DEFAULT NULL
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_transaction_id  bigint;
+  v_total           numeric;
+  v_missing         integer;
+BEGIN
+  IF jsonb_typeof(p_lines) IS DISTINCT FROM 'array' OR jsonb_array_length(p_lines) < 2 THEN
+    RAISE EXCEPTION 'A transaction needs at least two lines';
+  END IF;
+
+  SELECT count(*) FILTER (WHERE item->>'account_id' IS NULL OR item->>'amount' IS NULL),
+         coalesce(sum((item->>'amount')::numeric), 0)
+  INTO v_missing, v_total
+  FROM jsonb_array_elements(p_lines) AS e(item);
+
+  IF v_missing > 0 THEN
+    RAISE EXCEPTION '% line(s) have no account or amount', v_missing;
+  END IF;
+
+  IF abs(v_total) >= 0.005 THEN
+    RAISE EXCEPTION 'Lines do not balance (off by %)', v_total;
+  END IF;
+
+  INSERT INTO public.transactions (date, description)
+  VALUES (p_date, p_description)
+  RETURNING id INTO v_transaction_id;
+
+  INSERT INTO public.transaction_lines (
+    transaction_id, account_id, amount, is_cleared, purpose,
+    job_id, vendor_id, installer_id, real_estate_deal_id, memo
+  )
+  SELECT
+    v_transaction_id,
+    (item->>'account_id')::bigint,
+    (item->>'amount')::numeric,
+    coalesce((item->>'is_cleared')::boolean, false),
+    coalesce(item->>'purpose', p_purpose),
+    (item->>'job_id')::bigint,
+    (item->>'vendor_id')::bigint,
+    (item->>'installer_id')::bigint,
+    (item->>'real_estate_deal_id')::bigint,
+    nullif(btrim(item->>'memo'), '')
+  FROM jsonb_array_elements(p_lines) WITH ORDINALITY AS e(item, ord)
+  ORDER BY ord;
+
+  RETURN v_transaction_id;
+END;
+$$;
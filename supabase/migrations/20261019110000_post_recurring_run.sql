@@ -0,0 +1,72 @@
+-- supabase/migrations/20261019110000_post_recurring_run.sql
+--
+-- post_recurring_run records one occurrence of a recurring schedule in a
+-- single database transaction: claim the run, post its entry, link the two
+-- and move the schedule's next_run_date. If any step fails nothing is kept,
+-- so a failed post never leaves a claimed run without an entry (stuck out of
+-- the queue) or an entry without its run (posted again next time).
+--   - the claim is the recurring_schedule_runs (schedule_id, run_date)
+--     unique key; a run another session already recorded is only advanced
+--     past and returns status 'already_posted'
+--   - the entry goes through create_transaction_multi (p_date may be later
+--     than p_run_date when the run's month is closed)
+--   - p_lines NULL records the run as skipped instead
+--   - next_run_date only moves if it still equals p_run_date
+-- The client computes the entry lines and the next date (mortgage split,
+-- mixed allocations, intercompany lines, frequency rules).
+-- Returns { "status": 'posted' | 'skipped' | 'already_posted', "transaction_id": ... | null }.
+
+CREATE OR REPLACE FUNCTION public.post_recurring_run(
+  p_schedule_id    bigint,
+  p_run_date       date,
+  p_next_run_date  date,
+  p_is_active      boolean,
+  p_posted_by      text DEFAULT 'manual',
+  p_date           date DEFAULT NULL,
+  p_description    text DEFAULT NULL,
+  p_lines          jsonb DEFAULT NULL,
+  p_purpose        text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_run_id          bigint;
+  v_transaction_id  bigint;
+  v_status          text;
+BEGIN
+  IF p_lines IS NOT NULL AND p_date IS NULL THEN
+    RAISE EXCEPTION 'A recurring entry needs a date';
+  END IF;
+
+  v_status := CASE WHEN p_lines IS NULL THEN 'skipped' ELSE 'posted' END;
+
+  INSERT INTO public.recurring_schedule_runs (schedule_id, run_date, status, posted_by)
+  VALUES (p_schedule_id, p_run_date, v_status, p_posted_by)
+  ON CONFLICT (schedule_id, run_date) DO NOTHING
+  RETURNING id INTO v_run_id;
+
+  IF v_run_id IS NULL THEN
+    v_status := 'already_posted';
+  ELSIF p_lines IS NOT NULL THEN
+    v_transaction_id := public.create_transaction_multi(
+      p_date => p_date,
+      p_description => p_description,
+      p_lines => p_lines,
+      p_purpose => p_purpose
+    );
+    UPDATE public.recurring_schedule_runs SET transaction_id = v_transaction_id WHERE id = v_run_id;
+  END IF;
+
+  UPDATE public.recurring_schedules
+  SET next_run_date = p_next_run_date,
+      last_run_date = p_run_date,
+      is_active = p_is_active,
+      updated_at = now()
+  WHERE id = p_schedule_id
+    AND next_run_date = p_run_date;
+
+  RETURN jsonb_build_object('status', v_status, 'transaction_id', v_transaction_id);
+END;
+$$;
@@ -0,0 +1,54 @@
+-- supabase/migrations/20261019120000_post_rental_depreciation.sql
+--
+-- post_rental_depreciation posts a year's depreciation for a rental deal in
+-- a single database transaction: claim the year, post the entry and link
+-- the two. If any step fails nothing is kept, so a failed post never leaves
+-- a claimed year without its entry (blocked from posting again) or an entry
+-- without its claim (posted again next time).
+--   - the claim is the rental_depreciation_postings (real_estate_deal_id,
+--     tax_year) unique key; a year already posted raises unique_violation
+--     (23505)
+--   - the entry goes through create_transaction_multi with purpose
+--     'business' (p_date may be later than December of p_tax_year when that
+--     month is closed)
+-- The client computes the amount, the lines (including intercompany lines)
+-- and the posting date. Returns the new transaction id.
+
+CREATE OR REPLACE FUNCTION public.post_rental_depreciation(
+  p_deal_id      bigint,
+  p_tax_year     integer,
+  p_amount       numeric,
+  p_date         date,
+  p_description  text,
+  p_lines        jsonb
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_posting_id      bigint;
+  v_transaction_id  bigint;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'No depreciation to post for %', p_tax_year;
+  END IF;
+
+  INSERT INTO public.rental_depreciation_postings (real_estate_deal_id, tax_year, amount)
+  VALUES (p_deal_id, p_tax_year, p_amount)
+  RETURNING id INTO v_posting_id;
+
+  v_transaction_id := public.create_transaction_multi(
+    p_date => p_date,
+    p_description => p_description,
+    p_lines => p_lines,
+    p_purpose => 'business'
+  );
+
+  UPDATE public.rental_depreciation_postings
+  SET transaction_id = v_transaction_id
+  WHERE id = v_posting_id;
+
+  RETURN v_transaction_id;
+END;
+$$;
@@ -0,0 +1,137 @@
+-- supabase/migrations/20261019130000_fixed_asset_posting_rpcs.sql
+--
+-- Fixed asset depreciation and disposal each become one database
+-- transaction, so a failure part way never leaves a claimed asset-year
+-- without its entry (blocked from posting again), an entry without its
+-- claim (posted again next time) or a disposal entry on an asset still
+-- shown as in service.
+--   post_fixed_asset_depreciation  claims every asset-year in p_claims
+--                                  ([{ "fixed_asset_id", "amount" }]),
+--                                  posts the one annual entry and links the
+--                                  claims to it
+--   dispose_fixed_asset            claims the disposal year's depreciation
+--                                  (when there is any), posts the disposal
+--                                  entry, links the claim and marks the
+--                                  asset disposed
+-- The claim is the fixed_asset_depreciation_postings (fixed_asset_id,
+-- tax_year) unique key; a year already posted raises unique_violation
+-- (23505). Entries go through create_transaction_multi with purpose
+-- 'business'. The client computes the amounts, the lines (including
+-- intercompany lines) and the posting date. Both return the new
+-- transaction id.
+
+-- ---------------------------------------------------------------------------
+-- post_fixed_asset_depreciation
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.post_fixed_asset_depreciation(
+  p_tax_year     integer,
+  p_claims       jsonb,
+  p_date         date,
+  p_description  text,
+  p_lines        jsonb
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_posting_ids     bigint[];
+  v_transaction_id  bigint;
+BEGIN
+  IF jsonb_typeof(p_claims) <> 'array' OR jsonb_array_length(p_claims) = 0 THEN
+    RAISE EXCEPTION 'No depreciation to post for %', p_tax_year;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_claims) AS e(item)
+    WHERE coalesce((item->>'amount')::numeric, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Depreciation amounts must be greater than zero';
+  END IF;
+
+  WITH inserted AS (
+    INSERT INTO public.fixed_asset_depreciation_postings (fixed_asset_id, tax_year, amount)
+    SELECT (item->>'fixed_asset_id')::bigint, p_tax_year, (item->>'amount')::numeric
+    FROM jsonb_array_elements(p_claims) AS e(item)
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO v_posting_ids FROM inserted;
+
+  v_transaction_id := public.create_transaction_multi(
+    p_date => p_date,
+    p_description => p_description,
+    p_lines => p_lines,
+    p_purpose => 'business'
+  );
+
+  UPDATE public.fixed_asset_depreciation_postings
+  SET transaction_id = v_transaction_id
+  WHERE id = ANY (v_posting_ids);
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- dispose_fixed_asset
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.dispose_fixed_asset(
+  p_fixed_asset_id           bigint,
+  p_disposed_on              date,
+  p_proceeds                 numeric,
+  p_final_year               integer,
+  p_final_year_depreciation  numeric,
+  p_date                     date,
+  p_description              text,
+  p_lines                    jsonb
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_disposed_on     date;
+  v_posting_id      bigint;
+  v_transaction_id  bigint;
+BEGIN
+  SELECT disposed_on INTO v_disposed_on
+  FROM public.fixed_assets
+  WHERE id = p_fixed_asset_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fixed asset % not found', p_fixed_asset_id;
+  END IF;
+  IF v_disposed_on IS NOT NULL THEN
+    RAISE EXCEPTION 'Fixed asset % was already disposed of on %', p_fixed_asset_id, v_disposed_on;
+  END IF;
+
+  IF coalesce(p_final_year_depreciation, 0) > 0 THEN
+    INSERT INTO public.fixed_asset_depreciation_postings (fixed_asset_id, tax_year, amount)
+    VALUES (p_fixed_asset_id, p_final_year, p_final_year_depreciation)
+    RETURNING id INTO v_posting_id;
+  END IF;
+
+  v_transaction_id := public.create_transaction_multi(
+    p_date => p_date,
+    p_description => p_description,
+    p_lines => p_lines,
+    p_purpose => 'business'
+  );
+
+  IF v_posting_id IS NOT NULL THEN
+    UPDATE public.fixed_asset_depreciation_postings
+    SET transaction_id = v_transaction_id
+    WHERE id = v_posting_id;
+  END IF;
+
+  UPDATE public.fixed_assets
+  SET disposed_on = p_disposed_on,
+      disposal_proceeds = p_proceeds,
+      disposal_transaction_id = v_transaction_id,
+      updated_at = now()
+  WHERE id = p_fixed_asset_id;
+
+  RETURN v_transaction_id;
+END;
+$$;
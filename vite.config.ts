@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { readFileSync } from 'fs'
@@ -12,4 +13,8 @@ export default defineConfig({
     __GIT_COMMIT__: JSON.stringify(process.env.VERCEL_GIT_COMMIT_SHA || 'local'),
     __BUILD_TIME__: JSON.stringify(new Date().toISOString()),
   },
+  test: {
+    // supabase/functions tests run under Deno (deno task test)
+    include: ['src/**/*.test.ts'],
+  },
 })
\ No newline at end of file